@@ -0,0 +1,83 @@
+/**
+ * MaxClaim service worker
+ *
+ * Keeps the app shell available offline: the index page and the hashed
+ * bundles it references are cached at install (the bundle carries the v1
+ * rules engine and its baseline pricing tables), later assets are cached as
+ * they load, and navigations fall back to the cached shell. API calls are
+ * never cached - queued work lives in the page's IndexedDB outbox, and a
+ * background sync just asks open pages to drain it.
+ */
+
+const CACHE_NAME = "maxclaim-shell-v1";
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/favicon.png"];
+const SYNC_TAG = "maxclaim-outbox";
+
+async function precacheShell() {
+  const cache = await caches.open(CACHE_NAME);
+  await cache.addAll(SHELL_URLS);
+
+  // Pull in the bundles the shell page loads so the first offline visit works
+  const index = await cache.match("/");
+  if (!index) return;
+  const html = await index.text();
+  const assets = Array.from(new Set(html.match(/\/assets\/[^"'\s)]+/g) || []));
+  await cache.addAll(assets);
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function networkFirstShell(request) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put("/", response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match("/");
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin || url.pathname.startsWith("/api/")) {
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirstShell(request));
+  } else if (url.pathname.startsWith("/assets/") || SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+self.addEventListener("sync", (event) => {
+  if (event.tag !== SYNC_TAG) return;
+  event.waitUntil(
+    self.clients.matchAll({ type: "window" }).then((clients) => {
+      clients.forEach((client) => client.postMessage({ type: "flush-outbox" }));
+    })
+  );
+});
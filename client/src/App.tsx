@@ -15,10 +15,12 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AccessibilityProvider } from "@/contexts/AccessibilityContext";
 import { SkipLink } from "@/components/SkipLink";
+import { OfflineSyncBanner } from "@/components/OfflineSyncBanner";
 import Home from "@/pages/home";
 import AttributionsPage from "@/pages/AttributionsPage";
 import AdminDashboard from "@/pages/AdminDashboard";
 import MyClaims from "@/pages/MyClaims";
+import ClaimComparison from "@/pages/ClaimComparison";
 import SignIn from "@/pages/SignIn";
 import Signup from "@/pages/Signup";
 import ForgotPassword from "@/pages/ForgotPassword";
@@ -26,6 +28,8 @@ import ResetPassword from "@/pages/ResetPassword";
 import VerifyEmail from "@/pages/VerifyEmail";
 import AgentDashboard from "@/pages/AgentDashboard";
 import PartnerDashboard from "@/pages/PartnerDashboard";
+import SharedReport from "@/pages/SharedReport";
+import BatchAudit from "@/pages/BatchAudit";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -42,6 +46,9 @@ function Router() {
       <Route path="/attributions" component={AttributionsPage} />
       <Route path="/admin" component={AdminDashboard} />
       <Route path="/my-claims" component={MyClaims} />
+      <Route path="/my-claims/:id/compare" component={ClaimComparison} />
+      <Route path="/shared/:token" component={SharedReport} />
+      <Route path="/batch-audit" component={BatchAudit} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -57,6 +64,7 @@ function App() {
             <Toaster />
             <Router />
           </main>
+          <OfflineSyncBanner />
         </TooltipProvider>
       </AccessibilityProvider>
     </QueryClientProvider>
@@ -9,7 +9,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { LogIn, LogOut, User, FileText } from "lucide-react";
+import { LogIn, LogOut, User, FileText, FileSpreadsheet } from "lucide-react";
 import { Link } from "wouter";
 
 export function AuthButton() {
@@ -77,6 +77,12 @@ export function AuthButton() {
             My Claims
           </Link>
         </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <Link href="/batch-audit" className="cursor-pointer">
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            Batch Audit
+          </Link>
+        </DropdownMenuItem>
         <DropdownMenuSeparator />
         <DropdownMenuItem asChild>
           <a href="/api/logout" className="cursor-pointer text-destructive focus:text-destructive">
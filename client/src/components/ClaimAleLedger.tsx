@@ -0,0 +1,408 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Download, Hotel, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+type AleExpenseCategory = "lodging" | "meals" | "mileage" | "laundry" | "pet_boarding" | "other";
+
+interface AleProfile {
+  displacementStart: string;
+  displacementEnd: string | null;
+  householdSize: number;
+  zipCode: string;
+  savedMonthlyHousing: string | null;
+  savedMonthlyUtilities: string | null;
+  normalMonthlyFood: string | null;
+}
+
+interface AleLedgerEntry {
+  id?: string;
+  date: string;
+  category: AleExpenseCategory;
+  description: string;
+  amount: number;
+  nightlyRate: number | null;
+  runningTotal: number;
+  flags: string[];
+  excluded: boolean;
+}
+
+interface AleSummary {
+  startDate: string;
+  endDate: string | null;
+  asOfDate: string;
+  displacedDays: number;
+  lodgingBenchmark: { areaName: string; bedrooms: number; fairMonthlyRent: number; fairNightlyRate: number; source: string };
+  ledger: AleLedgerEntry[];
+  categories: Array<{ category: AleExpenseCategory; label: string; claimed: number; normalCostOffset: number; additional: number }>;
+  totalClaimed: number;
+  totalOffset: number;
+  totalAdditional: number;
+  flags: string[];
+}
+
+interface AleResponse {
+  profile: AleProfile | null;
+  summary: AleSummary | null;
+}
+
+interface ProfileDraft {
+  displacementStart: string;
+  displacementEnd: string;
+  householdSize: string;
+  zipCode: string;
+  savedMonthlyHousing: string;
+  savedMonthlyUtilities: string;
+  normalMonthlyFood: string;
+}
+
+interface ExpenseDraft {
+  expenseDate: string;
+  category: AleExpenseCategory;
+  amount: string;
+  miles: string;
+  nights: string;
+  description: string;
+}
+
+const CATEGORY_OPTIONS: Array<{ value: AleExpenseCategory; label: string }> = [
+  { value: "lodging", label: "Lodging" },
+  { value: "meals", label: "Meals" },
+  { value: "mileage", label: "Extra mileage" },
+  { value: "laundry", label: "Laundry" },
+  { value: "pet_boarding", label: "Pet boarding" },
+  { value: "other", label: "Other" },
+];
+
+const EMPTY_PROFILE: ProfileDraft = {
+  displacementStart: "",
+  displacementEnd: "",
+  householdSize: "2",
+  zipCode: "",
+  savedMonthlyHousing: "",
+  savedMonthlyUtilities: "",
+  normalMonthlyFood: "",
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyExpense = (): ExpenseDraft => ({ expenseDate: today(), category: "lodging", amount: "", miles: "", nights: "", description: "" });
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+}
+
+function optionalNumber(value: string): number | null {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function toProfileDraft(profile: AleProfile): ProfileDraft {
+  return {
+    displacementStart: profile.displacementStart.slice(0, 10),
+    displacementEnd: profile.displacementEnd?.slice(0, 10) ?? "",
+    householdSize: String(profile.householdSize),
+    zipCode: profile.zipCode,
+    savedMonthlyHousing: profile.savedMonthlyHousing ?? "",
+    savedMonthlyUtilities: profile.savedMonthlyUtilities ?? "",
+    normalMonthlyFood: profile.normalMonthlyFood ?? "",
+  };
+}
+
+async function readError(response: Response, fallback: string): Promise<never> {
+  const result = await response.json().catch(() => ({}));
+  throw new Error(result.error || fallback);
+}
+
+export function ClaimAleLedger({ userClaimId }: { userClaimId: string }) {
+  const { toast } = useToast();
+  const aleKey = ["/api/user/claims", userClaimId, "ale"];
+  const { data, isLoading } = useQuery<AleResponse>({ queryKey: aleKey });
+  const summary = data?.summary ?? null;
+
+  const [profile, setProfile] = useState<ProfileDraft>(EMPTY_PROFILE);
+  const [expense, setExpense] = useState<ExpenseDraft>(emptyExpense);
+
+  useEffect(() => {
+    if (data?.profile) setProfile(toProfileDraft(data.profile));
+  }, [data?.profile]);
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const profileMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/user/claims/${userClaimId}/ale`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          displacementStart: profile.displacementStart,
+          displacementEnd: profile.displacementEnd || null,
+          householdSize: Math.max(1, Math.round(optionalNumber(profile.householdSize) ?? 1)),
+          zipCode: profile.zipCode || undefined,
+          savedMonthlyHousing: optionalNumber(profile.savedMonthlyHousing),
+          savedMonthlyUtilities: optionalNumber(profile.savedMonthlyUtilities),
+          normalMonthlyFood: optionalNumber(profile.normalMonthlyFood),
+        }),
+        credentials: "include",
+      });
+      if (!response.ok) await readError(response, "Could not save displacement details");
+      return response.json();
+    },
+    onSuccess: (result: AleResponse) => {
+      queryClient.setQueryData(aleKey, result);
+      toast({ title: "Displacement details saved" });
+    },
+    onError,
+  });
+
+  const expenseMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/user/claims/${userClaimId}/ale/expenses`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          expenseDate: expense.expenseDate,
+          category: expense.category,
+          amount: optionalNumber(expense.amount),
+          miles: expense.category === "mileage" ? optionalNumber(expense.miles) : null,
+          nights: expense.category === "lodging" ? optionalNumber(expense.nights) : null,
+          description: expense.description || null,
+        }),
+        credentials: "include",
+      });
+      if (!response.ok) await readError(response, "Could not add receipt");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: aleKey });
+      setExpense({ ...emptyExpense(), expenseDate: expense.expenseDate, category: expense.category });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/user/claims/${userClaimId}/ale/expenses/${id}`, { method: "DELETE", credentials: "include" });
+      if (!response.ok) await readError(response, "Delete failed");
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: aleKey }),
+    onError,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading living expenses...</p>;
+  }
+
+  return (
+    <div className="space-y-4" data-testid={`ale-${userClaimId}`}>
+      <div className="flex items-center justify-between gap-4">
+        <h4 className="text-sm font-medium flex items-center gap-2">
+          <Hotel className="h-4 w-4" />
+          Additional living expenses (loss of use)
+        </h4>
+        {summary && (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/user/claims/${userClaimId}/ale/export?format=pdf`} data-testid="link-ale-pdf">
+                <Download className="h-4 w-4 mr-1" />
+                Summary PDF
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/user/claims/${userClaimId}/ale/export?format=csv`} data-testid="link-ale-csv">
+                <Download className="h-4 w-4 mr-1" />
+                Ledger CSV
+              </a>
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {([
+          ["displacementStart", "Displaced since", "date"],
+          ["displacementEnd", "Moved back (blank if ongoing)", "date"],
+          ["householdSize", "People in household", "number"],
+          ["zipCode", "Home ZIP", "text"],
+          ["savedMonthlyHousing", "Rent you no longer pay ($/mo)", "number"],
+          ["savedMonthlyUtilities", "Utilities you no longer pay ($/mo)", "number"],
+          ["normalMonthlyFood", "Normal groceries ($/mo)", "number"],
+        ] as const).map(([field, label, type]) => (
+          <div key={field} className="space-y-1">
+            <Label htmlFor={`ale-${field}-${userClaimId}`} className="text-xs text-muted-foreground">{label}</Label>
+            <Input
+              id={`ale-${field}-${userClaimId}`}
+              type={type}
+              min={type === "number" ? "0" : undefined}
+              value={profile[field]}
+              placeholder={field === "normalMonthlyFood" ? "USDA estimate" : undefined}
+              onChange={(e) => setProfile({ ...profile, [field]: e.target.value })}
+              data-testid={`input-ale-${field}`}
+            />
+          </div>
+        ))}
+        <div className="flex items-end">
+          <Button onClick={() => profileMutation.mutate()} disabled={!profile.displacementStart || profileMutation.isPending} data-testid="button-save-ale-profile">
+            {profileMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {!summary ? (
+        <p className="text-sm text-muted-foreground">
+          Enter when you had to leave the home to start an ALE ledger. Only the increase over your normal living costs is owed, so we'll net those out for you.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">Displaced</p>
+              <p className="font-semibold">{summary.displacedDays} days{summary.endDate ? "" : " (ongoing)"}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Receipts</p>
+              <p className="font-semibold">{formatCurrency(summary.totalClaimed)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Normal costs</p>
+              <p className="font-semibold">({formatCurrency(summary.totalOffset)})</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">ALE claim</p>
+              <p className="font-semibold text-primary" data-testid="text-ale-total">{formatCurrency(summary.totalAdditional)}</p>
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Fair rent for a {summary.lodgingBenchmark.bedrooms}-bedroom home in {summary.lodgingBenchmark.areaName}:{" "}
+            {formatCurrency(summary.lodgingBenchmark.fairMonthlyRent)}/month ({formatCurrency(summary.lodgingBenchmark.fairNightlyRate)}/night)
+          </p>
+          {summary.flags.map(flag => (
+            <p key={flag} className="text-xs text-amber-700 dark:text-amber-400">{flag}</p>
+          ))}
+
+          <div className="grid grid-cols-2 sm:grid-cols-6 gap-3 p-3 border rounded-md">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Date</Label>
+              <Input type="date" value={expense.expenseDate} onChange={(e) => setExpense({ ...expense, expenseDate: e.target.value })} data-testid="input-ale-expense-date" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Category</Label>
+              <Select value={expense.category} onValueChange={(value) => setExpense({ ...expense, category: value as AleExpenseCategory })}>
+                <SelectTrigger data-testid="select-ale-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CATEGORY_OPTIONS.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Amount ($)</Label>
+              <Input type="number" min="0" step="0.01" value={expense.amount} onChange={(e) => setExpense({ ...expense, amount: e.target.value })} data-testid="input-ale-amount" />
+            </div>
+            {expense.category === "mileage" && (
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Extra miles</Label>
+                <Input type="number" min="0" value={expense.miles} onChange={(e) => setExpense({ ...expense, miles: e.target.value })} data-testid="input-ale-miles" />
+              </div>
+            )}
+            {expense.category === "lodging" && (
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Nights</Label>
+                <Input type="number" min="1" value={expense.nights} onChange={(e) => setExpense({ ...expense, nights: e.target.value })} data-testid="input-ale-nights" />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Description</Label>
+              <Input value={expense.description} onChange={(e) => setExpense({ ...expense, description: e.target.value })} data-testid="input-ale-description" />
+            </div>
+            <div className="flex items-end">
+              <Button onClick={() => expenseMutation.mutate()} disabled={expenseMutation.isPending} data-testid="button-add-ale-expense">
+                {expenseMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+                Add
+              </Button>
+            </div>
+          </div>
+
+          {summary.categories.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">Receipts</TableHead>
+                  <TableHead className="text-right">Normal costs</TableHead>
+                  <TableHead className="text-right">Additional</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.categories.map(category => (
+                  <TableRow key={category.category}>
+                    <TableCell>{category.label}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(category.claimed)}</TableCell>
+                    <TableCell className="text-right">({formatCurrency(category.normalCostOffset)})</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(category.additional)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {summary.ledger.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No receipts yet. Keep every hotel folio, restaurant receipt and mileage log.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Expense</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Running total</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.ledger.map((entry, index) => (
+                  <TableRow key={entry.id ?? index} className={entry.excluded ? "opacity-60" : undefined} data-testid={`row-ale-${index}`}>
+                    <TableCell className="whitespace-nowrap">{entry.date}</TableCell>
+                    <TableCell>
+                      {entry.description}
+                      {entry.nightlyRate !== null && <span className="text-xs text-muted-foreground"> · {formatCurrency(entry.nightlyRate)}/night</span>}
+                      {entry.flags.map(flag => (
+                        <p key={flag} className="text-xs text-amber-700 dark:text-amber-400">{flag}</p>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{formatCurrency(entry.amount)}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{formatCurrency(entry.runningTotal)}</TableCell>
+                    <TableCell className="text-right">
+                      {entry.id && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteMutation.mutate(entry.id!)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-ale-${entry.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { History, Loader2, RefreshCw } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface AuditSnapshotSummary {
+  id: string;
+  version: number;
+  source: "original" | "reaudit";
+  totalQuoted: number;
+  totalFmv: number;
+  additionalAmount: number;
+  lineCount: number;
+  missingItemCount: number | null;
+  createdAt: string;
+}
+
+interface MissingItem {
+  code: string;
+  description: string;
+  estimatedCost: number | null;
+}
+
+interface SnapshotLineDiff {
+  category: string;
+  description: string;
+  unit: string;
+  change: "added" | "removed" | "changed" | "unchanged";
+  fmvFrom: number | null;
+  fmvTo: number | null;
+  fmvChange: number;
+  fmvChangePct: number | null;
+  statusFrom: "underpaid" | "fair" | null;
+  statusTo: "underpaid" | "fair" | null;
+  flagsAdded: string[];
+  flagsRemoved: string[];
+}
+
+interface AuditSnapshotDiff {
+  fromVersion: number;
+  toVersion: number;
+  lines: SnapshotLineDiff[];
+  totals: { fmvFrom: number; fmvTo: number; fmvChange: number; additionalFrom: number; additionalTo: number };
+  missingItemsCompared: boolean;
+  newMissingItems: MissingItem[];
+  resolvedMissingItems: MissingItem[];
+}
+
+const CHANGE_BADGES: Record<SnapshotLineDiff["change"], "default" | "secondary" | "destructive" | "outline"> = {
+  added: "default",
+  removed: "destructive",
+  changed: "secondary",
+  unchanged: "outline",
+};
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(amount);
+}
+
+function formatChange(amount: number): string {
+  return `${amount >= 0 ? "+" : "-"}${formatCurrency(Math.abs(amount))}`;
+}
+
+function snapshotLabel(snapshot: AuditSnapshotSummary): string {
+  const date = new Date(snapshot.createdAt).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+  return `v${snapshot.version} · ${snapshot.source === "original" ? "Original" : "Re-audit"} · ${date}`;
+}
+
+export function ClaimAuditHistory({ userClaimId }: { userClaimId: string }) {
+  const { toast } = useToast();
+  const snapshotsKey = ["/api/user/claims", userClaimId, "audits"];
+  const { data, isLoading } = useQuery<{ snapshots: AuditSnapshotSummary[] }>({ queryKey: snapshotsKey });
+  const snapshots = data?.snapshots ?? [];
+
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+
+  // Default to comparing the two most recent snapshots
+  useEffect(() => {
+    if (snapshots.length < 2) return;
+    setFromVersion(snapshots[snapshots.length - 2].version);
+    setToVersion(snapshots[snapshots.length - 1].version);
+  }, [snapshots.length]);
+
+  const { data: diff, isLoading: diffLoading } = useQuery<AuditSnapshotDiff>({
+    queryKey: ["/api/user/claims", userClaimId, "audits", "diff", fromVersion, toVersion],
+    queryFn: async () => {
+      const res = await fetch(`/api/user/claims/${userClaimId}/audits/diff?from=${fromVersion}&to=${toVersion}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to load audit diff");
+      return res.json();
+    },
+    enabled: fromVersion !== null && toVersion !== null && fromVersion !== toVersion,
+  });
+
+  const reauditMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/user/claims/${userClaimId}/audits`, { method: "POST", credentials: "include" });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.details || result.error || "Re-audit failed");
+      return result as { snapshot: AuditSnapshotSummary; diff: AuditSnapshotDiff };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: snapshotsKey, exact: true });
+      toast({
+        title: "Re-audit complete",
+        description: `Fair market value moved ${formatChange(result.diff.totals.fmvChange)} since v${result.diff.fromVersion}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading audit history...</p>;
+  }
+
+  const changedLines = diff?.lines.filter(line => line.change !== "unchanged") ?? [];
+
+  return (
+    <div className="space-y-4" data-testid={`audit-history-${userClaimId}`}>
+      <div className="flex items-center justify-between gap-4">
+        <h4 className="text-sm font-medium flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Audit history
+        </h4>
+        <Button size="sm" onClick={() => reauditMutation.mutate()} disabled={reauditMutation.isPending} data-testid="button-reaudit">
+          {reauditMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+          Re-audit with current pricing
+        </Button>
+      </div>
+
+      {snapshots.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Re-audit this claim to see how its fair market value has changed since it was saved.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {([["Compare", fromVersion, setFromVersion], ["With", toVersion, setToVersion]] as const).map(([label, value, setValue]) => (
+            <div key={label} className="space-y-1">
+              <Label>{label}</Label>
+              <Select value={value !== null ? String(value) : undefined} onValueChange={(v) => setValue(Number(v))}>
+                <SelectTrigger data-testid={`select-audit-${label.toLowerCase()}`}>
+                  <SelectValue placeholder="Select a snapshot" />
+                </SelectTrigger>
+                <SelectContent>
+                  {snapshots.map(snapshot => (
+                    <SelectItem key={snapshot.id} value={String(snapshot.version)}>
+                      {snapshotLabel(snapshot)} · {formatCurrency(snapshot.totalFmv)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {diffLoading && <p className="text-sm text-muted-foreground">Comparing snapshots...</p>}
+
+      {diff && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">FMV v{diff.fromVersion}</p>
+              <p className="font-semibold">{formatCurrency(diff.totals.fmvFrom)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">FMV v{diff.toVersion}</p>
+              <p className="font-semibold">{formatCurrency(diff.totals.fmvTo)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Change</p>
+              <p className={`font-semibold ${diff.totals.fmvChange >= 0 ? "text-green-600" : "text-destructive"}`} data-testid="text-fmv-change">
+                {formatChange(diff.totals.fmvChange)}
+              </p>
+            </div>
+          </div>
+
+          {changedLines.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No line items changed between these snapshots.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">FMV</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead>Flags</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {changedLines.map((line, index) => (
+                  <TableRow key={`${line.description}-${index}`}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={CHANGE_BADGES[line.change]}>{line.change}</Badge>
+                        <span>{line.description}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">{line.category} · {line.unit}</p>
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {line.fmvFrom !== null ? formatCurrency(line.fmvFrom) : "—"} → {line.fmvTo !== null ? formatCurrency(line.fmvTo) : "—"}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {formatChange(line.fmvChange)}
+                      {line.fmvChangePct !== null && <span className="text-xs text-muted-foreground"> ({line.fmvChangePct}%)</span>}
+                    </TableCell>
+                    <TableCell className="space-x-1">
+                      {line.flagsAdded.map(flag => <Badge key={`+${flag}`} variant="secondary">+ {flag}</Badge>)}
+                      {line.flagsRemoved.map(flag => <Badge key={`-${flag}`} variant="outline">− {flag}</Badge>)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {diff.missingItemsCompared ? (
+            diff.newMissingItems.length > 0 && (
+              <div className="text-sm">
+                <p className="font-medium">New missing items</p>
+                <ul className="list-disc pl-5 text-muted-foreground">
+                  {diff.newMissingItems.map(item => (
+                    <li key={item.code}>
+                      {item.description}{item.estimatedCost !== null && ` (${formatCurrency(item.estimatedCost)})`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Missing items weren't recorded for the original analysis; compare two re-audits to see new missing items.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,386 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Download, Loader2, Pencil, Plus, Sofa, Trash2, Upload } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+type ContentsCondition = "new" | "excellent" | "good" | "fair" | "poor";
+
+interface ValuedContentsItem {
+  id: string;
+  name: string;
+  brand: string | null;
+  room: string | null;
+  itemClass: string;
+  condition: ContentsCondition;
+  ageYears: number | null;
+  quantity: number;
+  originalPrice: number | null;
+  unitReplacementCost: number | null;
+  replacementCostSource: "user" | "catalog" | "original_price" | "none";
+  catalogMatch: string | null;
+  replacementCost: number | null;
+  expectedDepreciationPct: number;
+  fairAcv: number | null;
+  carrierAcv: number | null;
+  shortfall: number;
+  status: "underpaid" | "fair" | "no_carrier_value" | "unvalued";
+  flags: string[];
+}
+
+interface ContentsAudit {
+  items: ValuedContentsItem[];
+  summary: {
+    itemCount: number;
+    totalReplacementCost: number;
+    totalFairAcv: number;
+    totalCarrierAcv: number;
+    totalShortfall: number;
+    underpaidCount: number;
+    unvaluedCount: number;
+  };
+}
+
+interface ItemDraft {
+  name: string;
+  brand: string;
+  room: string;
+  ageYears: string;
+  condition: ContentsCondition;
+  quantity: string;
+  originalPrice: string;
+  replacementCost: string;
+  carrierAcv: string;
+}
+
+const EMPTY_DRAFT: ItemDraft = {
+  name: "",
+  brand: "",
+  room: "",
+  ageYears: "",
+  condition: "good",
+  quantity: "1",
+  originalPrice: "",
+  replacementCost: "",
+  carrierAcv: "",
+};
+
+const CONDITIONS: ContentsCondition[] = ["new", "excellent", "good", "fair", "poor"];
+
+const SOURCE_LABELS: Record<ValuedContentsItem["replacementCostSource"], string> = {
+  user: "Your price",
+  catalog: "Catalog",
+  original_price: "Original price + inflation",
+  none: "No price",
+};
+
+const STATUS_BADGES: Record<ValuedContentsItem["status"], { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  underpaid: { label: "Underpaid", variant: "destructive" },
+  fair: { label: "Fair", variant: "secondary" },
+  no_carrier_value: { label: "Awaiting carrier ACV", variant: "outline" },
+  unvalued: { label: "Needs price", variant: "outline" },
+};
+
+function formatCurrency(amount: number | null): string {
+  if (amount === null) return "—";
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+}
+
+function optionalNumber(value: string): number | null {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function toPayload(draft: ItemDraft) {
+  return {
+    name: draft.name,
+    brand: draft.brand || null,
+    room: draft.room || null,
+    ageYears: optionalNumber(draft.ageYears),
+    condition: draft.condition,
+    quantity: Math.max(1, Math.round(optionalNumber(draft.quantity) ?? 1)),
+    originalPrice: optionalNumber(draft.originalPrice),
+    replacementCost: optionalNumber(draft.replacementCost),
+    carrierAcv: optionalNumber(draft.carrierAcv),
+  };
+}
+
+function toDraft(item: ValuedContentsItem): ItemDraft {
+  const text = (value: number | null) => (value !== null ? String(value) : "");
+  return {
+    name: item.name,
+    brand: item.brand ?? "",
+    room: item.room ?? "",
+    ageYears: text(item.ageYears),
+    condition: item.condition,
+    quantity: String(item.quantity),
+    originalPrice: text(item.originalPrice),
+    replacementCost: item.replacementCostSource === "user" ? text(item.unitReplacementCost) : "",
+    carrierAcv: text(item.carrierAcv),
+  };
+}
+
+async function readError(response: Response, fallback: string): Promise<never> {
+  const result = await response.json().catch(() => ({}));
+  throw new Error(result.details && typeof result.details === "string" ? result.details : result.error || fallback);
+}
+
+export function ClaimContentsInventory({ userClaimId }: { userClaimId: string }) {
+  const { toast } = useToast();
+  const contentsKey = ["/api/user/claims", userClaimId, "contents"];
+  const { data, isLoading } = useQuery<ContentsAudit>({ queryKey: contentsKey });
+  const items = data?.items ?? [];
+
+  const [draft, setDraft] = useState<ItemDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const url = editingId ? `/api/user/claims/${userClaimId}/contents/${editingId}` : `/api/user/claims/${userClaimId}/contents`;
+      const response = await fetch(url, {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toPayload(draft)),
+        credentials: "include",
+      });
+      if (!response.ok) await readError(response, "Could not save item");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: contentsKey });
+      setDraft(EMPTY_DRAFT);
+      setEditingId(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/user/claims/${userClaimId}/contents/${id}`, { method: "DELETE", credentials: "include" });
+      if (!response.ok) await readError(response, "Delete failed");
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: contentsKey }),
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      if (!csvFile) throw new Error("Choose a CSV file to import");
+      const formData = new FormData();
+      formData.append("inventory", csvFile);
+      const response = await fetch(`/api/user/claims/${userClaimId}/contents/import`, { method: "POST", body: formData, credentials: "include" });
+      if (!response.ok) await readError(response, "Import failed");
+      return response.json() as Promise<{ imported: number; warnings: string[] }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: contentsKey });
+      setCsvFile(null);
+      toast({
+        title: `Imported ${result.imported} item${result.imported === 1 ? "" : "s"}`,
+        description: result.warnings.length > 0 ? result.warnings.slice(0, 3).join(" ") : undefined,
+      });
+    },
+    onError,
+  });
+
+  const startEditing = (item: ValuedContentsItem) => {
+    setEditingId(item.id);
+    setDraft(toDraft(item));
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  return (
+    <div className="space-y-4" data-testid={`contents-${userClaimId}`}>
+      <div className="flex items-center justify-between gap-4">
+        <h4 className="text-sm font-medium flex items-center gap-2">
+          <Sofa className="h-4 w-4" />
+          Contents inventory (personal property)
+        </h4>
+        {items.length > 0 && (
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/user/claims/${userClaimId}/contents/export`} data-testid="link-export-contents">
+              <Download className="h-4 w-4 mr-1" />
+              Export CSV
+            </a>
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <div className="space-y-1 col-span-2">
+          <Label htmlFor={`contents-name-${userClaimId}`}>Item</Label>
+          <Input id={`contents-name-${userClaimId}`} placeholder='65" TV, sofa, winter coat...' value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} data-testid="input-contents-name" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`contents-brand-${userClaimId}`}>Brand</Label>
+          <Input id={`contents-brand-${userClaimId}`} value={draft.brand} onChange={(e) => setDraft({ ...draft, brand: e.target.value })} data-testid="input-contents-brand" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`contents-room-${userClaimId}`}>Room</Label>
+          <Input id={`contents-room-${userClaimId}`} value={draft.room} onChange={(e) => setDraft({ ...draft, room: e.target.value })} data-testid="input-contents-room" />
+        </div>
+        {([
+          ["ageYears", "Age (years)", "0.5"],
+          ["quantity", "Quantity", "1"],
+          ["originalPrice", "Original price (each)", "0.01"],
+          ["replacementCost", "Replacement price (each, optional)", "0.01"],
+          ["carrierAcv", "Carrier's ACV (line)", "0.01"],
+        ] as const).map(([field, label, step]) => (
+          <div key={field} className="space-y-1">
+            <Label htmlFor={`contents-${field}-${userClaimId}`} className="text-xs text-muted-foreground">{label}</Label>
+            <Input
+              id={`contents-${field}-${userClaimId}`}
+              type="number"
+              min="0"
+              step={step}
+              value={draft[field]}
+              onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+              data-testid={`input-contents-${field}`}
+            />
+          </div>
+        ))}
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Condition</Label>
+          <Select value={draft.condition} onValueChange={(value) => setDraft({ ...draft, condition: value as ContentsCondition })}>
+            <SelectTrigger data-testid="select-contents-condition">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CONDITIONS.map(condition => (
+                <SelectItem key={condition} value={condition} className="capitalize">{condition}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="col-span-2 sm:col-span-4 flex gap-2">
+          <Button onClick={() => saveMutation.mutate()} disabled={!draft.name.trim() || saveMutation.isPending} data-testid="button-save-contents-item">
+            {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+            {editingId ? "Save Item" : "Add Item"}
+          </Button>
+          {editingId && <Button variant="outline" onClick={cancelEditing}>Cancel</Button>}
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div className="space-y-1 flex-1">
+          <Label htmlFor={`contents-csv-${userClaimId}`}>Import inventory CSV</Label>
+          <Input
+            id={`contents-csv-${userClaimId}`}
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => setCsvFile(e.target.files?.[0] ?? null)}
+            data-testid="input-contents-csv"
+          />
+        </div>
+        <Button variant="outline" onClick={() => importMutation.mutate()} disabled={!csvFile || importMutation.isPending} data-testid="button-import-contents">
+          {importMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Upload className="h-4 w-4 mr-1" />}
+          Import
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Columns: Item, Brand, Class, Room, Age, Condition, Quantity, Original Price, Replacement Cost, Carrier ACV. Only Item is required.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading inventory...</p>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No contents items yet. List damaged belongings to check the carrier's actual cash value against fair replacement cost.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">Replacement cost</p>
+              <p className="font-semibold">{formatCurrency(data!.summary.totalReplacementCost)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Fair ACV</p>
+              <p className="font-semibold text-primary">{formatCurrency(data!.summary.totalFairAcv)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Carrier ACV</p>
+              <p className="font-semibold">{formatCurrency(data!.summary.totalCarrierAcv)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Shortfall</p>
+              <p className="font-semibold text-destructive" data-testid="text-contents-shortfall">{formatCurrency(data!.summary.totalShortfall)}</p>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">Replacement</TableHead>
+                <TableHead className="text-right">Fair ACV</TableHead>
+                <TableHead className="text-right">Carrier ACV</TableHead>
+                <TableHead className="text-right">Shortfall</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map(item => (
+                <TableRow key={item.id} data-testid={`row-contents-${item.id}`}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{item.quantity > 1 && `${item.quantity} × `}{item.name}</span>
+                      <Badge variant={STATUS_BADGES[item.status].variant}>{STATUS_BADGES[item.status].label}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {[item.brand, item.room, item.itemClass.replace(/_/g, " "), item.ageYears !== null ? `${item.ageYears} yr` : null, item.condition]
+                        .filter(Boolean)
+                        .join(" · ")}
+                      {` · ${item.expectedDepreciationPct}% depreciation`}
+                    </p>
+                    {item.flags.map(flag => (
+                      <p key={flag} className="text-xs text-amber-700 dark:text-amber-400">{flag}</p>
+                    ))}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {formatCurrency(item.replacementCost)}
+                    <p className="text-xs text-muted-foreground">{item.catalogMatch ?? SOURCE_LABELS[item.replacementCostSource]}</p>
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">{formatCurrency(item.fairAcv)}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">{formatCurrency(item.carrierAcv)}</TableCell>
+                  <TableCell className={`text-right whitespace-nowrap ${item.shortfall > 0 ? "text-destructive font-medium" : ""}`}>
+                    {formatCurrency(item.shortfall)}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="icon" onClick={() => startEditing(item)} data-testid={`button-edit-contents-${item.id}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate(item.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-contents-${item.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CalendarClock, CheckCircle2, Circle, Loader2 } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type LifecycleStage =
+  | "filed"
+  | "inspected"
+  | "estimate_received"
+  | "supplement_sent"
+  | "reinspection"
+  | "paid"
+  | "appraisal"
+  | "litigation";
+
+type DeadlineStatus = "met" | "overdue" | "due_soon" | "upcoming";
+
+interface ClaimDeadline {
+  key: string;
+  label: string;
+  party: "policyholder" | "carrier";
+  dueDate: string;
+  daysRemaining: number;
+  status: DeadlineStatus;
+  basis: string;
+  citation: string;
+}
+
+interface ClaimLifecycleResponse {
+  stage: LifecycleStage | null;
+  lossDate: string | null;
+  lossState: string | null;
+  carrier: string | null;
+  jurisdiction: string;
+  stages: Array<{ stage: LifecycleStage; label: string }>;
+  events: Array<{ id: string; stage: LifecycleStage; note: string | null; occurredAt: string }>;
+  deadlines: ClaimDeadline[];
+}
+
+const DEADLINE_BADGES: Record<DeadlineStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  met: { label: "Met", variant: "secondary" },
+  overdue: { label: "Overdue", variant: "destructive" },
+  due_soon: { label: "Due soon", variant: "default" },
+  upcoming: { label: "Upcoming", variant: "outline" },
+};
+
+function formatDay(value: string): string {
+  return new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+}
+
+async function sendLifecycleRequest(method: string, url: string, data: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+    credentials: "include",
+  });
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.error || "Request failed");
+  return result as ClaimLifecycleResponse;
+}
+
+export function ClaimLifecycleTimeline({ userClaimId }: { userClaimId: string }) {
+  const { toast } = useToast();
+  const queryKey = ["/api/user/claims", userClaimId, "lifecycle"];
+  const { data, isLoading } = useQuery<ClaimLifecycleResponse>({ queryKey });
+
+  const [lossDate, setLossDate] = useState("");
+  const [lossState, setLossState] = useState("");
+  const [carrier, setCarrier] = useState("");
+  const [stage, setStage] = useState<LifecycleStage | "">("");
+  const [occurredAt, setOccurredAt] = useState("");
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    if (!data) return;
+    setLossDate(data.lossDate ? data.lossDate.slice(0, 10) : "");
+    setLossState(data.lossState ?? "");
+    setCarrier(data.carrier ?? "");
+  }, [data]);
+
+  const onSuccess = (result: ClaimLifecycleResponse) => {
+    queryClient.setQueryData(queryKey, result);
+    queryClient.invalidateQueries({ queryKey: ["/api/user/claims"], exact: true });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const detailsMutation = useMutation({
+    mutationFn: () => sendLifecycleRequest("PATCH", `/api/user/claims/${userClaimId}/lifecycle`, {
+      lossDate: lossDate || undefined,
+      lossState: lossState || undefined,
+      carrier: carrier || undefined,
+    }),
+    onSuccess: (result) => {
+      onSuccess(result);
+      toast({ title: "Saved", description: "Deadlines updated for this claim." });
+    },
+    onError,
+  });
+
+  const eventMutation = useMutation({
+    mutationFn: () => sendLifecycleRequest("POST", `/api/user/claims/${userClaimId}/lifecycle/events`, {
+      stage,
+      note: note || undefined,
+      occurredAt: occurredAt || undefined,
+    }),
+    onSuccess: (result) => {
+      onSuccess(result);
+      setStage("");
+      setOccurredAt("");
+      setNote("");
+    },
+    onError,
+  });
+
+  if (isLoading || !data) {
+    return <p className="text-sm text-muted-foreground">Loading timeline...</p>;
+  }
+
+  const labelFor = (value: LifecycleStage) => data.stages.find(s => s.stage === value)?.label ?? value;
+  const reached = new Set(data.events.map(e => e.stage));
+
+  return (
+    <div className="space-y-6" data-testid={`lifecycle-${userClaimId}`}>
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+        <div className="space-y-1">
+          <Label htmlFor={`loss-date-${userClaimId}`}>Date of loss</Label>
+          <Input id={`loss-date-${userClaimId}`} type="date" value={lossDate} onChange={(e) => setLossDate(e.target.value)} data-testid="input-loss-date" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`loss-state-${userClaimId}`}>State</Label>
+          <Input id={`loss-state-${userClaimId}`} maxLength={2} value={lossState} onChange={(e) => setLossState(e.target.value.toUpperCase())} data-testid="input-loss-state" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`carrier-${userClaimId}`}>Carrier</Label>
+          <Input id={`carrier-${userClaimId}`} value={carrier} onChange={(e) => setCarrier(e.target.value)} data-testid="input-lifecycle-carrier" />
+        </div>
+        <Button variant="outline" onClick={() => detailsMutation.mutate()} disabled={detailsMutation.isPending} data-testid="button-save-lifecycle">
+          {detailsMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+          Save Details
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {data.stages.map(({ stage: value, label }) => (
+          <Badge
+            key={value}
+            variant={data.stage === value ? "default" : reached.has(value) ? "secondary" : "outline"}
+            className="gap-1"
+          >
+            {reached.has(value) ? <CheckCircle2 className="h-3 w-3" /> : <Circle className="h-3 w-3" />}
+            {label}
+          </Badge>
+        ))}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium mb-2 flex items-center gap-2">
+          <CalendarClock className="h-4 w-4" />
+          Deadlines ({data.jurisdiction})
+        </h4>
+        {data.deadlines.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Add the date of loss and record when the claim was filed to see deadlines.</p>
+        ) : (
+          <ul className="space-y-2">
+            {data.deadlines.map(deadline => (
+              <li key={deadline.key} className="flex items-start justify-between gap-4 text-sm" data-testid={`deadline-${deadline.key}`}>
+                <div>
+                  <p className="font-medium">{deadline.label}</p>
+                  <p className="text-xs text-muted-foreground">{deadline.basis} &middot; {deadline.citation}</p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p>{formatDay(deadline.dueDate)}</p>
+                  <Badge variant={DEADLINE_BADGES[deadline.status].variant}>{DEADLINE_BADGES[deadline.status].label}</Badge>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium mb-2">Status history</h4>
+        {data.events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No status changes recorded yet.</p>
+        ) : (
+          <ol className="border-l pl-4 space-y-3">
+            {data.events.map(event => (
+              <li key={event.id} className="text-sm">
+                <p className="font-medium">{labelFor(event.stage)} <span className="text-muted-foreground font-normal">&middot; {formatDay(event.occurredAt)}</span></p>
+                {event.note && <p className="text-muted-foreground">{event.note}</p>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+        <div className="space-y-1">
+          <Label>Record status</Label>
+          <Select value={stage} onValueChange={(value) => setStage(value as LifecycleStage)}>
+            <SelectTrigger data-testid="select-lifecycle-stage">
+              <SelectValue placeholder="Select a stage" />
+            </SelectTrigger>
+            <SelectContent>
+              {data.stages.map(({ stage: value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`occurred-at-${userClaimId}`}>Date</Label>
+          <Input id={`occurred-at-${userClaimId}`} type="date" value={occurredAt} onChange={(e) => setOccurredAt(e.target.value)} data-testid="input-status-date" />
+        </div>
+        <Button onClick={() => eventMutation.mutate()} disabled={!stage || eventMutation.isPending} data-testid="button-record-status">
+          {eventMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+          Record
+        </Button>
+        <Textarea
+          className="sm:col-span-3"
+          placeholder="Notes (adjuster name, what was said, claim reference...)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          data-testid="input-status-note"
+        />
+      </div>
+    </div>
+  );
+}
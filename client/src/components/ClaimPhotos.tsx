@@ -0,0 +1,296 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Camera, Loader2, MapPin, Pencil, Trash2, Upload } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { isOfflineError, queuePhotoUpload } from "@/lib/offlineQueue";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface ClaimPhoto {
+  id: string;
+  originalName: string;
+  url: string;
+  thumbnailUrl: string | null;
+  capturedAt: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  cameraModel: string | null;
+  room: string | null;
+  caption: string | null;
+  lineItemIds: string[];
+  createdAt: string;
+}
+
+interface ClaimLineItem {
+  id: string;
+  category: string;
+  description: string;
+}
+
+interface PhotoTags {
+  room: string;
+  caption: string;
+  lineItemIds: string[];
+}
+
+const EMPTY_TAGS: PhotoTags = { room: "", caption: "", lineItemIds: [] };
+const THUMBNAIL_SIZE = 320;
+
+// Downscale in the browser so the server doesn't need an image library
+async function createThumbnail(file: File): Promise<Blob | null> {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise(resolve => canvas.toBlob(resolve, "image/jpeg", 0.8));
+  } catch {
+    return null;
+  }
+}
+
+async function readError(response: Response, fallback: string): Promise<never> {
+  const result = await response.json().catch(() => ({}));
+  throw new Error(result.error || fallback);
+}
+
+function LineItemPicker({ lineItems, selected, onChange, idPrefix }: {
+  lineItems: ClaimLineItem[];
+  selected: string[];
+  onChange: (ids: string[]) => void;
+  idPrefix: string;
+}) {
+  if (lineItems.length === 0) return null;
+  return (
+    <div className="space-y-1 max-h-40 overflow-y-auto border rounded-md p-2">
+      {lineItems.map(item => (
+        <div key={item.id} className="flex items-center gap-2 text-sm">
+          <Checkbox
+            id={`${idPrefix}-${item.id}`}
+            checked={selected.includes(item.id)}
+            onCheckedChange={(checked) => onChange(checked ? [...selected, item.id] : selected.filter(id => id !== item.id))}
+          />
+          <label htmlFor={`${idPrefix}-${item.id}`} className="truncate">
+            {item.description} <span className="text-muted-foreground">· {item.category}</span>
+          </label>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function ClaimPhotos({ userClaimId }: { userClaimId: string }) {
+  const { toast } = useToast();
+  const photosKey = ["/api/user/claims", userClaimId, "photos"];
+  const { data, isLoading } = useQuery<{ photos: ClaimPhoto[] }>({ queryKey: photosKey });
+  const { data: claimDetail } = useQuery<{ lineItems: ClaimLineItem[] }>({ queryKey: ["/api/user/claims", userClaimId] });
+  const photos = data?.photos ?? [];
+  const lineItems = claimDetail?.lineItems ?? [];
+
+  const [file, setFile] = useState<File | null>(null);
+  const [tags, setTags] = useState<PhotoTags>(EMPTY_TAGS);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTags, setEditTags] = useState<PhotoTags>(EMPTY_TAGS);
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      if (!file) throw new Error("Choose a photo to upload");
+      const thumbnail = await createThumbnail(file);
+      const fields: Record<string, string> = { lineItemIds: JSON.stringify(tags.lineItemIds) };
+      if (tags.room) fields.room = tags.room;
+      if (tags.caption) fields.caption = tags.caption;
+
+      const formData = new FormData();
+      formData.append("photo", file);
+      if (thumbnail) formData.append("thumbnail", thumbnail, "thumbnail.jpg");
+      Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+
+      let response: Response;
+      try {
+        response = await fetch(`/api/user/claims/${userClaimId}/photos`, { method: "POST", body: formData, credentials: "include" });
+      } catch (error) {
+        if (!isOfflineError(error)) throw error;
+        await queuePhotoUpload(userClaimId, file, thumbnail, fields);
+        return { queued: true };
+      }
+      if (!response.ok) await readError(response, "Upload failed");
+      return response.json();
+    },
+    onSuccess: (result: { queued?: boolean }) => {
+      queryClient.invalidateQueries({ queryKey: photosKey });
+      setFile(null);
+      setTags(EMPTY_TAGS);
+      toast(result.queued
+        ? { title: "Photo saved offline", description: "It will upload when you're back online." }
+        : { title: "Photo uploaded" });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/user/claims/${userClaimId}/photos/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ room: editTags.room || null, caption: editTags.caption || null, lineItemIds: editTags.lineItemIds }),
+        credentials: "include",
+      });
+      if (!response.ok) await readError(response, "Update failed");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: photosKey });
+      setEditingId(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/user/claims/${userClaimId}/photos/${id}`, { method: "DELETE", credentials: "include" });
+      if (!response.ok) await readError(response, "Delete failed");
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: photosKey }),
+    onError,
+  });
+
+  const startEditing = (photo: ClaimPhoto) => {
+    setEditingId(photo.id);
+    setEditTags({ room: photo.room ?? "", caption: photo.caption ?? "", lineItemIds: photo.lineItemIds });
+  };
+
+  const describeLineItem = (id: string) => lineItems.find(item => item.id === id)?.description ?? "Removed item";
+
+  return (
+    <div className="space-y-4" data-testid={`photos-${userClaimId}`}>
+      <h4 className="text-sm font-medium flex items-center gap-2">
+        <Camera className="h-4 w-4" />
+        Photo evidence
+      </h4>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor={`photo-file-${userClaimId}`}>Photo (JPG or PNG)</Label>
+          <Input
+            id={`photo-file-${userClaimId}`}
+            type="file"
+            accept="image/jpeg,image/png"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            data-testid="input-photo-file"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`photo-room-${userClaimId}`}>Room</Label>
+          <Input id={`photo-room-${userClaimId}`} placeholder="Kitchen, roof, master bath..." value={tags.room} onChange={(e) => setTags({ ...tags, room: e.target.value })} data-testid="input-photo-room" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`photo-caption-${userClaimId}`}>Caption</Label>
+          <Input id={`photo-caption-${userClaimId}`} value={tags.caption} onChange={(e) => setTags({ ...tags, caption: e.target.value })} data-testid="input-photo-caption" />
+        </div>
+        <div className="sm:col-span-3 space-y-1">
+          {lineItems.length > 0 && <Label>Line items shown in this photo</Label>}
+          <LineItemPicker
+            lineItems={lineItems}
+            selected={tags.lineItemIds}
+            onChange={(lineItemIds) => setTags({ ...tags, lineItemIds })}
+            idPrefix={`upload-${userClaimId}`}
+          />
+        </div>
+        <Button onClick={() => uploadMutation.mutate()} disabled={!file || uploadMutation.isPending} data-testid="button-upload-photo">
+          {uploadMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Upload className="h-4 w-4 mr-1" />}
+          Upload Photo
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading photos...</p>
+      ) : photos.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No photos yet. Photos with their original capture time and location make the strongest evidence.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {photos.map(photo => (
+            <div key={photo.id} className="border rounded-md p-3 space-y-2 text-sm" data-testid={`photo-${photo.id}`}>
+              <a href={photo.url} target="_blank" rel="noopener noreferrer">
+                <img
+                  src={photo.thumbnailUrl ?? photo.url}
+                  alt={photo.caption ?? photo.originalName}
+                  className="w-full h-40 object-cover rounded"
+                  loading="lazy"
+                />
+              </a>
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{photo.caption || photo.originalName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {photo.capturedAt ? `Taken ${new Date(photo.capturedAt).toLocaleString()}` : "No capture time in photo"}
+                    {photo.cameraModel && ` · ${photo.cameraModel}`}
+                  </p>
+                  {photo.latitude !== null && photo.longitude !== null && (
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      <MapPin className="h-3 w-3" />
+                      {photo.latitude.toFixed(5)}, {photo.longitude.toFixed(5)}
+                    </p>
+                  )}
+                </div>
+                <div className="flex shrink-0">
+                  <Button variant="ghost" size="icon" onClick={() => startEditing(photo)} data-testid={`button-edit-photo-${photo.id}`}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate(photo.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-photo-${photo.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {editingId === photo.id ? (
+                <div className="space-y-2">
+                  <Input placeholder="Room" value={editTags.room} onChange={(e) => setEditTags({ ...editTags, room: e.target.value })} />
+                  <Input placeholder="Caption" value={editTags.caption} onChange={(e) => setEditTags({ ...editTags, caption: e.target.value })} />
+                  <LineItemPicker
+                    lineItems={lineItems}
+                    selected={editTags.lineItemIds}
+                    onChange={(lineItemIds) => setEditTags({ ...editTags, lineItemIds })}
+                    idPrefix={`edit-${photo.id}`}
+                  />
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => updateMutation.mutate(photo.id)} disabled={updateMutation.isPending}>
+                      {updateMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                      Save
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>Cancel</Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex flex-wrap gap-1">
+                  {photo.room && <Badge variant="secondary">{photo.room}</Badge>}
+                  {photo.lineItemIds.map(id => (
+                    <Badge key={id} variant="outline">{describeLineItem(id)}</Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
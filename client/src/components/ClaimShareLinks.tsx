@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Ban, Copy, Eye, Loader2, Lock, Plus, Share2 } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type ShareLinkStatus = "active" | "expired" | "revoked";
+
+interface ShareLink {
+  id: string;
+  label: string | null;
+  url: string;
+  status: ShareLinkStatus;
+  requiresPasscode: boolean;
+  expiresAt: string;
+  revokedAt: string | null;
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+  views: Array<{ viewedAt: string; viewer: string | null; viewerName: string | null }>;
+}
+
+interface ShareLinkDraft {
+  label: string;
+  expiresInDays: string;
+  passcode: string;
+}
+
+const EMPTY_DRAFT: ShareLinkDraft = { label: "", expiresInDays: "14", passcode: "" };
+
+const STATUS_VARIANTS: Record<ShareLinkStatus, "default" | "secondary" | "destructive"> = {
+  active: "default",
+  expired: "secondary",
+  revoked: "destructive",
+};
+
+async function readError(response: Response, fallback: string): Promise<never> {
+  const result = await response.json().catch(() => ({}));
+  throw new Error(result.error || fallback);
+}
+
+export function ClaimShareLinks({ userClaimId }: { userClaimId: string }) {
+  const { toast } = useToast();
+  const linksKey = ["/api/user/claims", userClaimId, "share-links"];
+  const { data, isLoading } = useQuery<{ links: ShareLink[] }>({ queryKey: linksKey });
+  const links = data?.links ?? [];
+
+  const [draft, setDraft] = useState<ShareLinkDraft>(EMPTY_DRAFT);
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const copyLink = async (link: ShareLink) => {
+    await navigator.clipboard.writeText(`${window.location.origin}${link.url}`);
+    toast({ title: "Link copied" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/user/claims/${userClaimId}/share-links`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          label: draft.label || undefined,
+          expiresInDays: parseInt(draft.expiresInDays, 10) || 14,
+          passcode: draft.passcode || undefined,
+        }),
+        credentials: "include",
+      });
+      if (!response.ok) await readError(response, "Could not create share link");
+      return response.json();
+    },
+    onSuccess: (link: ShareLink) => {
+      queryClient.invalidateQueries({ queryKey: linksKey });
+      setDraft(EMPTY_DRAFT);
+      copyLink(link).catch(() => toast({ title: "Share link created" }));
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      const response = await fetch(`/api/user/claims/${userClaimId}/share-links/${linkId}`, { method: "DELETE", credentials: "include" });
+      if (!response.ok) await readError(response, "Could not revoke link");
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: linksKey }),
+    onError,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading share links...</p>;
+  }
+
+  return (
+    <div className="space-y-4" data-testid={`share-links-${userClaimId}`}>
+      <h4 className="text-sm font-medium flex items-center gap-2">
+        <Share2 className="h-4 w-4" />
+        Share a read-only copy of this report
+      </h4>
+
+      <div className="grid grid-cols-1 sm:grid-cols-[1fr_120px_1fr_auto] gap-3 items-end">
+        <div className="space-y-1">
+          <Label htmlFor={`share-label-${userClaimId}`} className="text-xs text-muted-foreground">Who it's for</Label>
+          <Input
+            id={`share-label-${userClaimId}`}
+            value={draft.label}
+            placeholder="e.g. Roofing contractor"
+            onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+            data-testid="input-share-label"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`share-days-${userClaimId}`} className="text-xs text-muted-foreground">Expires in (days)</Label>
+          <Input
+            id={`share-days-${userClaimId}`}
+            type="number"
+            min="1"
+            max="90"
+            value={draft.expiresInDays}
+            onChange={(e) => setDraft({ ...draft, expiresInDays: e.target.value })}
+            data-testid="input-share-days"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`share-passcode-${userClaimId}`} className="text-xs text-muted-foreground">Passcode (optional, 4+ characters)</Label>
+          <Input
+            id={`share-passcode-${userClaimId}`}
+            type="password"
+            value={draft.passcode}
+            onChange={(e) => setDraft({ ...draft, passcode: e.target.value })}
+            data-testid="input-share-passcode"
+          />
+        </div>
+        <Button
+          onClick={() => createMutation.mutate()}
+          disabled={createMutation.isPending || (draft.passcode.length > 0 && draft.passcode.length < 4)}
+          data-testid="button-create-share-link"
+        >
+          {createMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+          Create link
+        </Button>
+      </div>
+
+      {links.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Links show the audit results only - never your email, address or other claims. Revoke a link at any time.
+        </p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {links.map(link => (
+            <li key={link.id} className="p-3 space-y-2 text-sm" data-testid={`row-share-link-${link.id}`}>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{link.label || "Share link"}</span>
+                  <Badge variant={STATUS_VARIANTS[link.status]}>{link.status}</Badge>
+                  {link.requiresPasscode && <Lock className="h-3 w-3 text-muted-foreground" aria-label="Passcode protected" />}
+                </div>
+                <div className="flex gap-2">
+                  {link.status === "active" && (
+                    <>
+                      <Button variant="outline" size="sm" onClick={() => copyLink(link).catch(onError)} data-testid={`button-copy-share-${link.id}`}>
+                        <Copy className="h-4 w-4 mr-1" />
+                        Copy
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => revokeMutation.mutate(link.id)}
+                        disabled={revokeMutation.isPending}
+                        data-testid={`button-revoke-share-${link.id}`}
+                      >
+                        <Ban className="h-4 w-4 mr-1" />
+                        Revoke
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {link.status === "revoked" && link.revokedAt
+                  ? `Revoked ${new Date(link.revokedAt).toLocaleDateString()}`
+                  : `${link.status === "expired" ? "Expired" : "Expires"} ${new Date(link.expiresAt).toLocaleDateString()}`}
+                {" · "}
+                <Eye className="inline h-3 w-3" /> {link.viewCount} view{link.viewCount === 1 ? "" : "s"}
+              </p>
+              {link.views.length > 0 && (
+                <ul className="text-xs text-muted-foreground space-y-0.5" data-testid={`list-share-views-${link.id}`}>
+                  {link.views.map((view, index) => (
+                    <li key={index}>
+                      {new Date(view.viewedAt).toLocaleString()} - {view.viewerName ? `${view.viewerName} (${view.viewer})` : view.viewer}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
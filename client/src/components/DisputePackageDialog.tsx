@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Gavel, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+interface DisputePackageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userClaimId: string;
+  propertyAddress?: string;
+}
+
+type PackageFormat = "pdf" | "zip";
+
+export function DisputePackageDialog({ open, onOpenChange, userClaimId, propertyAddress }: DisputePackageDialogProps) {
+  const { toast } = useToast();
+  const [claimNumber, setClaimNumber] = useState("");
+  const [lossDate, setLossDate] = useState("");
+  const [carrier, setCarrier] = useState("");
+  const [policyholderName, setPolicyholderName] = useState("");
+  const [appraiserName, setAppraiserName] = useState("");
+  const [format, setFormat] = useState<PackageFormat>("zip");
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/user/claims/${userClaimId}/dispute-package`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          claimNumber,
+          lossDate,
+          carrier,
+          policyholderName: policyholderName || undefined,
+          propertyAddress: propertyAddress || undefined,
+          appraiserName: appraiserName || undefined,
+          format,
+        }),
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || "Failed to build dispute package");
+      }
+      return response.blob();
+    },
+    onSuccess: (blob) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `dispute-package-${claimNumber.replace(/[^A-Za-z0-9-]+/g, "_")}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast({ title: "Package Ready", description: "Your appraisal dispute package has been downloaded." });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canGenerate = claimNumber.trim() !== "" && lossDate !== "" && carrier.trim() !== "";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg" aria-describedby="dispute-dialog-description">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Gavel className="w-5 h-5" aria-hidden="true" />
+            Appraisal Dispute Package
+          </DialogTitle>
+          <DialogDescription id="dispute-dialog-description">
+            Bundles your audit, pricing citations, carrier history, claim timeline, photos and an appraisal demand letter.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="dispute-claim-number">Claim Number</Label>
+            <Input id="dispute-claim-number" value={claimNumber} onChange={(e) => setClaimNumber(e.target.value)} data-testid="input-dispute-claim-number" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="dispute-loss-date">Date of Loss</Label>
+            <Input id="dispute-loss-date" type="date" value={lossDate} onChange={(e) => setLossDate(e.target.value)} data-testid="input-dispute-loss-date" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="dispute-carrier">Insurance Carrier</Label>
+            <Input id="dispute-carrier" value={carrier} onChange={(e) => setCarrier(e.target.value)} data-testid="input-dispute-carrier" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="dispute-policyholder">Policyholder Name</Label>
+            <Input id="dispute-policyholder" value={policyholderName} onChange={(e) => setPolicyholderName(e.target.value)} data-testid="input-dispute-policyholder" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="dispute-appraiser">Your Appraiser</Label>
+            <Input id="dispute-appraiser" value={appraiserName} onChange={(e) => setAppraiserName(e.target.value)} data-testid="input-dispute-appraiser" />
+          </div>
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as PackageFormat)}>
+              <SelectTrigger data-testid="select-dispute-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="zip">ZIP (PDF + source files)</SelectItem>
+                <SelectItem value="pdf">PDF only</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-dispute">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => generateMutation.mutate()}
+            disabled={!canGenerate || generateMutation.isPending}
+            className="gap-2"
+            data-testid="button-generate-dispute"
+          >
+            {generateMutation.isPending
+              ? <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+              : <Gavel className="w-4 h-4" aria-hidden="true" />}
+            Build Package
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
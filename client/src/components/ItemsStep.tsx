@@ -6,6 +6,8 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { DocumentUpload } from "./DocumentUpload";
+import { RoofCalculator } from "./RoofCalculator";
+import { RoomScopeBuilder } from "./RoomScopeBuilder";
 import { UNIT_TYPES } from "@shared/schema";
 import { auditClaimItem, type AuditResult } from "@shared/priceAudit";
 import PriceAuditBadge from "./PriceAuditBadge";
@@ -16,6 +18,12 @@ export interface ClaimItem {
   quantity: number;
   unit?: string;
   unitPrice: number;
+  // Optional depreciation detail from the carrier estimate (RCV = unitPrice x quantity)
+  acv?: number;
+  depreciationAmount?: number;
+  nonRecoverableDepreciation?: number;
+  ageYears?: number;
+  room?: string;             // Room / area from the scope builder
 }
 
 interface ItemsStepProps {
@@ -48,7 +56,7 @@ export default function ItemsStep({ items, onChange, onNext, onBack }: ItemsStep
     onChange(items.filter((_, i) => i !== index));
   };
 
-  const updateItem = (index: number, field: keyof ClaimItem, value: string | number) => {
+  const updateItem = (index: number, field: keyof ClaimItem, value: string | number | undefined) => {
     const newItems = [...items];
     newItems[index] = { ...newItems[index], [field]: value };
     onChange(newItems);
@@ -60,7 +68,10 @@ export default function ItemsStep({ items, onChange, onNext, onBack }: ItemsStep
       description: item.description,
       quantity: item.quantity || 1,
       unit: item.unit || "EA",
-      unitPrice: item.quotedPrice || item.unitPrice || 0
+      unitPrice: item.quotedPrice || item.unitPrice || 0,
+      acv: item.acv,
+      depreciationAmount: item.depreciationAmount,
+      nonRecoverableDepreciation: item.nonRecoverableDepreciation
     }));
     
     onChange([...items, ...newItems]);
@@ -81,6 +92,10 @@ export default function ItemsStep({ items, onChange, onNext, onBack }: ItemsStep
   return (
     <div className="space-y-6">
       <DocumentUpload onItemsExtracted={handleExtractedItems} />
+
+      <RoofCalculator items={items} onItemsGenerated={(roofItems) => onChange([...items, ...roofItems])} />
+
+      <RoomScopeBuilder onItemsGenerated={(roomItems) => onChange([...items, ...roomItems])} />
       
       <Card>
       <CardHeader>
@@ -131,6 +146,16 @@ export default function ItemsStep({ items, onChange, onNext, onBack }: ItemsStep
                         data-testid={`input-description-${index}`}
                       />
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`room-${index}`}>Room / Area (optional)</Label>
+                      <Input
+                        id={`room-${index}`}
+                        placeholder="e.g., Kitchen"
+                        value={item.room ?? ""}
+                        onChange={(e) => updateItem(index, 'room', e.target.value || undefined)}
+                        data-testid={`input-room-${index}`}
+                      />
+                    </div>
                     <div className="space-y-2">
                       <Label htmlFor={`quantity-${index}`}>Quantity</Label>
                       <Input
@@ -212,6 +237,42 @@ export default function ItemsStep({ items, onChange, onNext, onBack }: ItemsStep
                         ${subtotal}
                       </div>
                     </div>
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-1">
+                        <Label htmlFor={`depreciation-${index}`}>Depreciation ($, optional)</Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="w-3 h-3 text-muted-foreground cursor-help" />
+                            </TooltipTrigger>
+                            <TooltipContent className="max-w-xs">
+                              <p className="text-xs">The depreciation the carrier withheld on this line (RCV minus ACV). We'll show how much you can still recover.</p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <Input
+                        id={`depreciation-${index}`}
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={item.depreciationAmount ?? ""}
+                        onChange={(e) => updateItem(index, 'depreciationAmount', e.target.value === "" ? undefined : parseFloat(e.target.value) || 0)}
+                        data-testid={`input-depreciation-${index}`}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`age-${index}`}>Item Age (years, optional)</Label>
+                      <Input
+                        id={`age-${index}`}
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={item.ageYears ?? ""}
+                        onChange={(e) => updateItem(index, 'ageYears', e.target.value === "" ? undefined : parseFloat(e.target.value) || 0)}
+                        data-testid={`input-age-${index}`}
+                      />
+                    </div>
                     {audit && (
                       <div className="space-y-2 md:col-span-2">
                         <Label className="text-muted-foreground text-xs">Price Audit</Label>
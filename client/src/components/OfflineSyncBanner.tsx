@@ -0,0 +1,75 @@
+import { CloudOff, Loader2, RefreshCw, Trash2, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useOfflineSync } from "@/hooks/use-offline-sync";
+import { discardOutboxItem, flushOutbox, retryOutboxItem, type OutboxItem } from "@/lib/offlineQueue";
+
+const KIND_LABELS: Record<OutboxItem["kind"], string> = {
+  session: "Session",
+  claim: "Claim analysis",
+  event: "Activity",
+  photo: "Photo upload",
+};
+
+function describeItem(item: OutboxItem): string {
+  const when = new Date(item.createdAt).toLocaleString();
+  if (item.kind === "photo") return `${KIND_LABELS.photo} (${item.photoName}) from ${when}`;
+  return `${KIND_LABELS[item.kind]} from ${when}`;
+}
+
+export function OfflineSyncBanner() {
+  const { online, syncing, pending, attention } = useOfflineSync();
+
+  if (online && pending === 0 && attention.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-4 left-4 right-4 sm:left-auto sm:w-96 z-50 bg-background border rounded-lg shadow-lg p-4 space-y-3" role="status" data-testid="banner-offline-sync">
+      <div className="flex items-center gap-3">
+        {online ? (
+          syncing ? <Loader2 className="w-5 h-5 animate-spin text-primary" /> : <RefreshCw className="w-5 h-5 text-primary" />
+        ) : (
+          <CloudOff className="w-5 h-5 text-amber-500" />
+        )}
+        <div className="flex-1 text-sm">
+          <p className="font-medium">{online ? (syncing ? "Syncing your offline work..." : "Back online") : "You're offline"}</p>
+          <p className="text-muted-foreground">
+            {pending > 0
+              ? `${pending} item${pending === 1 ? "" : "s"} saved on this device will sync when the connection returns.`
+              : online ? "Everything saved offline has synced." : "Claim analysis still works using basic pricing tables."}
+          </p>
+        </div>
+        {online && pending > 0 && !syncing && (
+          <Button variant="outline" size="sm" onClick={() => flushOutbox()} data-testid="button-sync-now">
+            Sync now
+          </Button>
+        )}
+      </div>
+
+      {attention.length > 0 && (
+        <div className="space-y-2 border-t pt-3">
+          <p className="text-sm font-medium flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 text-amber-500" />
+            {attention.length} item{attention.length === 1 ? "" : "s"} couldn't sync
+          </p>
+          {attention.map(item => (
+            <div key={item.id} className="flex items-start justify-between gap-2 text-sm" data-testid={`outbox-item-${item.id}`}>
+              <div>
+                <p>{describeItem(item)}</p>
+                <p className="text-xs text-muted-foreground">{item.error}</p>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <Button variant="ghost" size="icon" onClick={() => retryOutboxItem(item.id)} title="Submit again" data-testid={`button-retry-${item.id}`}>
+                  <RefreshCw className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => discardOutboxItem(item.id)} title="Discard" data-testid={`button-discard-${item.id}`}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
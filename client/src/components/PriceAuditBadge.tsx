@@ -115,9 +115,14 @@ export default function PriceAuditBadge({ audit, showDetails = true }: PriceAudi
               <p>{message}</p>
               {marketPricing && (
                 <>
-                  <p><strong>Floor (Min):</strong> ${marketPricing.unitPrice.toFixed(2)}/{unit}</p>
-                  <p><strong>Average:</strong> ${marketPricing.averagePrice.toFixed(2)}/{unit}</p>
-                  <p><strong>FMV (Max):</strong> ${marketPricing.fmvPrice.toFixed(2)}/{unit}</p>
+                  <p><strong>Floor (P10):</strong> ${marketPricing.unitPrice.toFixed(2)}/{unit}</p>
+                  <p><strong>Median (P50):</strong> ${marketPricing.averagePrice.toFixed(2)}/{unit}</p>
+                  <p><strong>FMV (P90):</strong> ${marketPricing.fmvPrice.toFixed(2)}/{unit}</p>
+                  {marketPricing.confidenceInterval && (
+                    <p className="text-muted-foreground">
+                      95% CI of median: ${marketPricing.confidenceInterval.low.toFixed(2)}-${marketPricing.confidenceInterval.high.toFixed(2)} ({marketPricing.sampleSize} samples)
+                    </p>
+                  )}
                   <p><strong>Your Price:</strong> ${audit.enteredPrice.toFixed(2)}/{unit}</p>
                 </>
               )}
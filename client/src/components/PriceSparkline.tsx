@@ -0,0 +1,42 @@
+interface PriceSparklineProps {
+  values: number[];
+  highlight?: boolean[];   // Points drawn as dots (e.g. stored snapshots rather than indexed estimates)
+  width?: number;
+  height?: number;
+  className?: string;
+  "data-testid"?: string;
+}
+
+/**
+ * Minimal inline trend line for tables; green when the last value is above the first
+ */
+export function PriceSparkline({ values, highlight, width = 120, height = 28, className, ...props }: PriceSparklineProps) {
+  const usable = values.filter(value => Number.isFinite(value));
+  if (usable.length < 2) {
+    return <span className="text-xs text-slate-500">-</span>;
+  }
+
+  const min = Math.min(...usable);
+  const max = Math.max(...usable);
+  const span = max - min || 1;
+  const pad = 2;
+  const points = values.map((value, i) => ({
+    x: pad + (i / (values.length - 1)) * (width - pad * 2),
+    y: pad + (1 - ((Number.isFinite(value) ? value : min) - min) / span) * (height - pad * 2),
+  }));
+  const rising = usable[usable.length - 1] >= usable[0];
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className={className} data-testid={props["data-testid"]}>
+      <polyline
+        fill="none"
+        stroke={rising ? "#22c55e" : "#ef4444"}
+        strokeWidth={1.5}
+        points={points.map(point => `${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(" ")}
+      />
+      {highlight && points.map((point, i) => highlight[i] && (
+        <circle key={i} cx={point.x} cy={point.y} r={1.8} fill="#94a3b8" />
+      ))}
+    </svg>
+  );
+}
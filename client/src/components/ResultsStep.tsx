@@ -8,29 +8,34 @@
  * External CSS/JS frameworks used only as utilities; see THIRD_PARTY_NOTICES.md.
  */
 
-import { AlertCircle, CheckCircle, TrendingUp, TrendingDown, Download, Mail, Printer, AlertTriangle, Info, DollarSign, MapPin, Shield, Building2, Phone, ExternalLink, Award, BookOpen } from "lucide-react";
+import { AlertCircle, CheckCircle, TrendingUp, TrendingDown, Download, Mail, Printer, AlertTriangle, Info, DollarSign, MapPin, Shield, Building2, Phone, ExternalLink, Award, BookOpen, FileSignature, CloudOff, RefreshCw } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
-import { useEffect, useState } from "react";
+import { Fragment, useEffect, useState } from "react";
+import { analyzeClaim, isOfflineAnalysis, queueOfflineClaim } from "@/lib/offlineAudit";
+import { useOfflineSync } from "@/hooks/use-offline-sync";
 import { exportResultsToPDF } from "@/lib/pdf-export";
 import { generateEmailReportSummary } from "@/lib/email-report";
 import { EmailReportDialog } from "@/components/EmailReportDialog";
+import { SupplementLetterDialog } from "@/components/SupplementLetterDialog";
+import { groupItemsByRoom } from "@shared/roomGeometry";
 import type { ClaimItem } from "./ItemsStep";
 
 interface ResultsStepProps {
   zipCode: string;
   items: ClaimItem[];
-  onStartOver: () => void;
+  deductible?: number;
+  onStartOver?: () => void;
+  sharedResults?: AnalysisResponse;  // Read-only view of a saved report (share links); skips re-analysis
 }
 
 interface PricingSource {
   name: string;
-  type: 'primary' | 'secondary' | 'tertiary' | 'user';
+  type: 'primary' | 'secondary' | 'tertiary' | 'surge' | 'user';
   citation: string;
   weight: number;
   lastUpdated: string;
@@ -46,11 +51,13 @@ interface ItemCitation {
   highEstimate: number;
   regionalMultiplier: number;
   regionName: string;
+  demandSurge?: { surgePct: number; disclosure: string } | null;
 }
 
 interface ItemResult {
   category: string;
   description: string;
+  room?: string | null;
   quantity: number;
   unit?: string;
   unitPrice?: number;
@@ -60,6 +67,72 @@ interface ItemResult {
   percentageIncrease: number;
   status: 'underpaid' | 'fair';
   citation?: ItemCitation | null;
+  depreciation?: ItemDepreciation | null;
+}
+
+interface ItemDepreciation {
+  rcv: number;
+  acv: number;
+  depreciationAmount: number;
+  depreciationPct: number;
+  recoverableDepreciation: number;
+  nonRecoverableDepreciation: number;
+  usefulLifeYears?: number;
+  expectedDepreciationPct?: number;
+  excessiveDepreciation: number;
+  flags: string[];
+}
+
+interface DepreciationSummary {
+  totalRcv: number;
+  totalAcv: number;
+  totalDepreciation: number;
+  recoverableDepreciation: number;
+  nonRecoverableDepreciation: number;
+  excessiveDepreciation: number;
+  deductible: number;
+  netActualCashPayment: number;
+  itemsWithExcessiveDepreciation: number;
+}
+
+interface CodeUpgradeItem {
+  requirement: string;
+  lineItem: string;
+  upgradeCode: string;
+  upgradeDescription: string;
+  quantity: number;
+  unit: string;
+  estimatedCost: number;
+  citation: string;
+}
+
+interface CodeUpgradeSummary {
+  jurisdiction: string;
+  stateCode?: string;
+  ircEdition: number | null;
+  necEdition: number;
+  items: CodeUpgradeItem[];
+  totalEstimatedCost: number;
+  notes: string[];
+}
+
+interface LaborMaterialGap {
+  kind: 'labor' | 'material' | 'sales_tax' | 'labor_minimum';
+  lineItem: string;
+  trade: string;
+  carrierAmount: number;
+  expectedAmount: number;
+  shortfall: number;
+  detail: string;
+}
+
+interface LaborMaterialSummary {
+  stateCode?: string;
+  salesTaxRatePct: number;
+  linesSplit: number;
+  gaps: LaborMaterialGap[];
+  totalShortfall: number;
+  additionalAmount: number;
 }
 
 interface RegionalContext {
@@ -87,7 +160,7 @@ interface MatchedPartner {
   matchReasons: string[];
 }
 
-interface AnalysisResponse {
+export interface AnalysisResponse {
   zipCode: string;
   items: ItemResult[];
   summary: {
@@ -96,40 +169,52 @@ interface AnalysisResponse {
     totalAdditional: number;
     overallIncrease: number;
   };
+  depreciationSummary?: DepreciationSummary | null;
+  codeUpgrades?: CodeUpgradeSummary | null;
+  laborMaterial?: LaborMaterialSummary | null;
   regionalContext?: RegionalContext;
   detectedLocation?: DetectedLocation;
   matchedPartners?: MatchedPartner[];
+  offline?: boolean;              // Computed in the browser by the basic rules engine
 }
 
-export default function ResultsStep({ zipCode, items, onStartOver }: ResultsStepProps) {
-  const [results, setResults] = useState<AnalysisResponse | null>(null);
+export default function ResultsStep({ zipCode, items, deductible, onStartOver, sharedResults }: ResultsStepProps) {
+  const readOnly = !!sharedResults;
+  const [results, setResults] = useState<AnalysisResponse | null>(sharedResults ?? null);
   const [emailDialogOpen, setEmailDialogOpen] = useState(false);
+  const [supplementDialogOpen, setSupplementDialogOpen] = useState(false);
+  const { online } = useOfflineSync();
 
   const analysisMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest(
-        "POST",
-        "/api/claims/analyze",
-        {
-          zipCode,
-          items: items.map(item => ({
-            category: item.category,
-            description: item.description,
-            quantity: item.quantity,
-            unit: item.unit,
-            quotedPrice: item.unitPrice * item.quantity
-          }))
-        }
-      );
-      return await response.json() as AnalysisResponse;
+      return await analyzeClaim<AnalysisResponse>({
+        zipCode,
+        items: items.map(item => ({
+          category: item.category,
+          description: item.description,
+          quantity: item.quantity,
+          unit: item.unit,
+          quotedPrice: item.unitPrice * item.quantity,
+          acv: item.acv,
+          depreciationAmount: item.depreciationAmount,
+          nonRecoverableDepreciation: item.nonRecoverableDepreciation,
+          ageYears: item.ageYears,
+          room: item.room
+        })),
+        deductible
+      });
     },
-    onSuccess: (data: AnalysisResponse) => {
-      setResults(data);
+    onSuccess: (data) => {
+      if (isOfflineAnalysis(data)) {
+        // Recorded server-side once the outbox syncs, like an online analysis
+        queueOfflineClaim(data).catch(error => console.error("Failed to queue offline claim:", error));
+      }
+      setResults(data as AnalysisResponse);
     }
   });
 
   useEffect(() => {
-    analysisMutation.mutate();
+    if (!readOnly) analysisMutation.mutate();
   }, []);
 
   const getStatusBadge = (status: 'underpaid' | 'fair') => {
@@ -169,6 +254,92 @@ export default function ResultsStep({ zipCode, items, onStartOver }: ResultsStep
     }
   };
 
+  const renderItemRow = (item: ItemResult, index: number) => (
+    <TableRow key={index} data-testid={`row-item-${index}`}>
+      <TableCell>
+        <div>
+          <p className="font-medium">{item.description}</p>
+          <p className="text-sm text-muted-foreground">{item.category}{item.unit ? ` - per ${item.unit}` : ''}</p>
+        </div>
+      </TableCell>
+      <TableCell className="text-right font-medium">
+        ${item.insuranceOffer.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+      </TableCell>
+      <TableCell className="text-right text-emerald-400 font-medium">
+        <div>
+          ${item.fmvPrice.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+          {item.citation && (
+            <p className="text-xs text-muted-foreground">
+              ${item.citation.lowEstimate.toFixed(2)} - ${item.citation.highEstimate.toFixed(2)}
+            </p>
+          )}
+        </div>
+      </TableCell>
+      <TableCell className="text-right">
+        {item.quantity}
+      </TableCell>
+      <TableCell className="text-right">
+        {item.additionalAmount > 0 ? (
+          <span className="text-green-500 font-medium">
+            +${item.additionalAmount.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+          </span>
+        ) : (
+          <span className="text-muted-foreground">-</span>
+        )}
+      </TableCell>
+      <TableCell className="text-right">
+        {getStatusBadge(item.status)}
+      </TableCell>
+      <TableCell className="text-center" data-testid={`source-cell-${index}`}>
+        {item.citation ? (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <div 
+                className="cursor-help inline-flex flex-col items-center gap-1"
+                data-testid={`citation-trigger-${index}`}
+              >
+                {getConfidenceBadge(item.citation.confidenceLevel)}
+                {item.citation.regionName && (
+                  <span className="text-xs text-muted-foreground" data-testid={`region-name-${index}`}>
+                    {item.citation.regionName}
+                  </span>
+                )}
+              </div>
+            </TooltipTrigger>
+            <TooltipContent className="max-w-sm" data-testid={`citation-tooltip-${index}`}>
+              <div className="space-y-2">
+                <p className="font-medium">Data Sources:</p>
+                <ul className="text-sm space-y-1">
+                  {item.citation.sources.map((source, i) => (
+                    <li key={i} className="flex justify-between gap-2">
+                      <span className="text-muted-foreground">{source.type}:</span>
+                      <span>{source.name}</span>
+                    </li>
+                  ))}
+                </ul>
+                {item.citation.regionalMultiplier !== 1 && (
+                  <p className="text-xs text-muted-foreground">
+                    Regional adjustment: {(item.citation.regionalMultiplier * 100 - 100).toFixed(0)}%
+                  </p>
+                )}
+                {item.citation.demandSurge && (
+                  <p className="text-xs text-amber-600" data-testid={`demand-surge-${index}`}>
+                    {item.citation.demandSurge.disclosure}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground italic">
+                  {item.citation.methodology}
+                </p>
+              </div>
+            </TooltipContent>
+          </Tooltip>
+        ) : (
+          <Badge variant="outline" className="text-xs" data-testid={`baseline-badge-${index}`}>Baseline</Badge>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+
   if (analysisMutation.isPending || !results) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -198,12 +369,37 @@ export default function ResultsStep({ zipCode, items, onStartOver }: ResultsStep
   }
 
   const { summary, items: itemResults } = results;
+  // Scope builder items are shown room by room
+  const roomGroups = groupItemsByRoom(itemResults);
+  const groupedByRoom = roomGroups.some(group => group.room !== null);
   
   const underpaidCount = itemResults.filter(item => item.status === 'underpaid').length;
   const fairCount = itemResults.filter(item => item.status === 'fair').length;
 
   return (
     <div className="space-y-6">
+      {results.offline && (
+        <Card className="border-amber-500/50" data-testid="card-offline-results">
+          <CardContent className="pt-6 flex items-center justify-between gap-4 flex-wrap">
+            <div className="flex items-center gap-3">
+              <CloudOff className="w-5 h-5 text-amber-500 shrink-0" />
+              <div className="text-sm">
+                <p className="font-medium">Offline estimate</p>
+                <p className="text-muted-foreground">
+                  Checked on this device with basic pricing averages (no regional data or citations). It has been saved and will sync when you're back online.
+                </p>
+              </div>
+            </div>
+            {online && (
+              <Button variant="outline" size="sm" onClick={() => analysisMutation.mutate()} data-testid="button-refresh-live-pricing">
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Refresh with live pricing
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* v2.0 Audit Summary Cards */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <Card>
@@ -307,86 +503,21 @@ export default function ResultsStep({ zipCode, items, onStartOver }: ResultsStep
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {itemResults.map((item, index) => (
-                  <TableRow key={index} data-testid={`row-item-${index}`}>
-                    <TableCell>
-                      <div>
-                        <p className="font-medium">{item.description}</p>
-                        <p className="text-sm text-muted-foreground">{item.category}{item.unit ? ` - per ${item.unit}` : ''}</p>
-                      </div>
-                    </TableCell>
-                    <TableCell className="text-right font-medium">
-                      ${item.insuranceOffer.toLocaleString('en-US', { minimumFractionDigits: 2 })}
-                    </TableCell>
-                    <TableCell className="text-right text-emerald-400 font-medium">
-                      <div>
-                        ${item.fmvPrice.toLocaleString('en-US', { minimumFractionDigits: 2 })}
-                        {item.citation && (
-                          <p className="text-xs text-muted-foreground">
-                            ${item.citation.lowEstimate.toFixed(2)} - ${item.citation.highEstimate.toFixed(2)}
-                          </p>
-                        )}
-                      </div>
-                    </TableCell>
-                    <TableCell className="text-right">
-                      {item.quantity}
-                    </TableCell>
-                    <TableCell className="text-right">
-                      {item.additionalAmount > 0 ? (
-                        <span className="text-green-500 font-medium">
-                          +${item.additionalAmount.toLocaleString('en-US', { minimumFractionDigits: 2 })}
-                        </span>
-                      ) : (
-                        <span className="text-muted-foreground">-</span>
-                      )}
-                    </TableCell>
-                    <TableCell className="text-right">
-                      {getStatusBadge(item.status)}
-                    </TableCell>
-                    <TableCell className="text-center" data-testid={`source-cell-${index}`}>
-                      {item.citation ? (
-                        <Tooltip>
-                          <TooltipTrigger asChild>
-                            <div 
-                              className="cursor-help inline-flex flex-col items-center gap-1"
-                              data-testid={`citation-trigger-${index}`}
-                            >
-                              {getConfidenceBadge(item.citation.confidenceLevel)}
-                              {item.citation.regionName && (
-                                <span className="text-xs text-muted-foreground" data-testid={`region-name-${index}`}>
-                                  {item.citation.regionName}
-                                </span>
-                              )}
-                            </div>
-                          </TooltipTrigger>
-                          <TooltipContent className="max-w-sm" data-testid={`citation-tooltip-${index}`}>
-                            <div className="space-y-2">
-                              <p className="font-medium">Data Sources:</p>
-                              <ul className="text-sm space-y-1">
-                                {item.citation.sources.map((source, i) => (
-                                  <li key={i} className="flex justify-between gap-2">
-                                    <span className="text-muted-foreground">{source.type}:</span>
-                                    <span>{source.name}</span>
-                                  </li>
-                                ))}
-                              </ul>
-                              {item.citation.regionalMultiplier !== 1 && (
-                                <p className="text-xs text-muted-foreground">
-                                  Regional adjustment: {(item.citation.regionalMultiplier * 100 - 100).toFixed(0)}%
-                                </p>
-                              )}
-                              <p className="text-xs text-muted-foreground italic">
-                                {item.citation.methodology}
-                              </p>
-                            </div>
-                          </TooltipContent>
-                        </Tooltip>
-                      ) : (
-                        <Badge variant="outline" className="text-xs" data-testid={`baseline-badge-${index}`}>Baseline</Badge>
-                      )}
-                    </TableCell>
-                  </TableRow>
-                ))}
+                {roomGroups.map(group => groupedByRoom ? (
+                  <Fragment key={group.room ?? "unassigned"}>
+                    <TableRow className="bg-muted/50" data-testid={`row-room-${group.room ?? "unassigned"}`}>
+                      <TableCell className="font-semibold">{group.room ?? "Other items"}</TableCell>
+                      <TableCell className="text-right font-semibold">
+                        ${group.items.reduce((sum, { item }) => sum + item.insuranceOffer, 0).toLocaleString('en-US', { minimumFractionDigits: 2 })}
+                      </TableCell>
+                      <TableCell className="text-right font-semibold text-emerald-400">
+                        ${group.items.reduce((sum, { item }) => sum + item.fmvPrice, 0).toLocaleString('en-US', { minimumFractionDigits: 2 })}
+                      </TableCell>
+                      <TableCell colSpan={4} />
+                    </TableRow>
+                    {group.items.map(({ item, index }) => renderItemRow(item, index))}
+                  </Fragment>
+                ) : group.items.map(({ item, index }) => renderItemRow(item, index)))}
               </TableBody>
             </Table>
           </div>
@@ -414,6 +545,129 @@ export default function ResultsStep({ zipCode, items, onStartOver }: ResultsStep
         </Card>
       )}
 
+      {/* Recoverable Depreciation (RCV / ACV holdback) */}
+      {results.depreciationSummary && (
+        <Card className="border-2 border-emerald-600" data-testid="card-recoverable-depreciation">
+          <CardHeader>
+            <CardTitle className="text-emerald-600 flex items-center gap-2">
+              <Shield className="w-5 h-5" />
+              Recoverable Depreciation You Can Still Claim
+            </CardTitle>
+            <CardDescription>
+              Withheld until repairs are complete - submit invoices or proof of completion to release it
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="text-3xl font-bold text-emerald-600" data-testid="text-recoverable-depreciation">
+              ${results.depreciationSummary.recoverableDepreciation.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Replacement Cost (RCV)</p>
+                <p className="font-medium">${results.depreciationSummary.totalRcv.toLocaleString('en-US', { minimumFractionDigits: 2 })}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Depreciation</p>
+                <p className="font-medium">-${results.depreciationSummary.totalDepreciation.toLocaleString('en-US', { minimumFractionDigits: 2 })}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Deductible</p>
+                <p className="font-medium">-${results.depreciationSummary.deductible.toLocaleString('en-US', { minimumFractionDigits: 2 })}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Net Actual Cash Payment</p>
+                <p className="font-medium" data-testid="text-net-acv-payment">${results.depreciationSummary.netActualCashPayment.toLocaleString('en-US', { minimumFractionDigits: 2 })}</p>
+              </div>
+            </div>
+            {results.depreciationSummary.nonRecoverableDepreciation > 0 && (
+              <p className="text-sm text-muted-foreground">
+                ${results.depreciationSummary.nonRecoverableDepreciation.toLocaleString('en-US', { minimumFractionDigits: 2 })} was marked non-recoverable. Check whether your policy pays replacement cost for these items.
+              </p>
+            )}
+            {results.depreciationSummary.excessiveDepreciation > 0 && (
+              <div className="p-3 rounded-md border border-amber-500/50 bg-amber-500/10 space-y-1" data-testid="text-excessive-depreciation">
+                <p className="text-sm font-medium flex items-center gap-1">
+                  <AlertTriangle className="w-4 h-4 text-amber-500" />
+                  ${results.depreciationSummary.excessiveDepreciation.toLocaleString('en-US', { minimumFractionDigits: 2 })} of depreciation looks excessive
+                </p>
+                <ul className="text-xs text-muted-foreground space-y-1">
+                  {itemResults.filter(item => item.depreciation && item.depreciation.excessiveDepreciation > 0).map((item, idx) => (
+                    <li key={idx}>{item.description}: {item.depreciation!.flags[0]}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Building Code Upgrades (Ordinance & Law) */}
+      {results.codeUpgrades && (
+        <Card className="border-2 border-blue-600" data-testid="card-code-upgrades">
+          <CardHeader>
+            <CardTitle className="text-blue-600 flex items-center gap-2">
+              <Building2 className="w-5 h-5" />
+              Code Upgrades (Ordinance & Law)
+            </CardTitle>
+            <CardDescription>
+              {results.codeUpgrades.jurisdiction} requires these upgrades on repair - your insurer priced like-for-like
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="text-3xl font-bold text-blue-600" data-testid="text-code-upgrade-total">
+              ${results.codeUpgrades.totalEstimatedCost.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+            </div>
+            <ul className="text-sm space-y-2">
+              {results.codeUpgrades.items.map((item, idx) => (
+                <li key={idx} data-testid={`text-code-upgrade-${idx}`}>
+                  <p className="font-medium">
+                    {item.upgradeDescription} - {item.quantity} {item.unit} (${item.estimatedCost.toLocaleString('en-US', { minimumFractionDigits: 2 })})
+                  </p>
+                  <p className="text-xs text-muted-foreground">{item.lineItem} · {item.citation}</p>
+                </li>
+              ))}
+            </ul>
+            <p className="text-sm text-muted-foreground">
+              Ordinance & Law is usually a separate limit on your policy. Ask your building department for a code letter to support the upgrade.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Labor vs. Material: component gaps, sales tax and labor minimums */}
+      {results.laborMaterial && (
+        <Card className="border-2 border-orange-600" data-testid="card-labor-material">
+          <CardHeader>
+            <CardTitle className="text-orange-600 flex items-center gap-2">
+              <DollarSign className="w-5 h-5" />
+              Labor, Materials & Sales Tax
+            </CardTitle>
+            <CardDescription>
+              Each gap below is checked separately against regional labor and material rates
+              {results.laborMaterial.salesTaxRatePct > 0 && ` and the ${results.laborMaterial.stateCode} ${results.laborMaterial.salesTaxRatePct}% sales tax on materials`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="text-3xl font-bold text-orange-600" data-testid="text-labor-material-total">
+              ${results.laborMaterial.totalShortfall.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+            </div>
+            <ul className="text-sm space-y-2">
+              {results.laborMaterial.gaps.map((gap, idx) => (
+                <li key={idx} data-testid={`text-labor-material-gap-${idx}`}>
+                  <p className="font-medium">
+                    {gap.lineItem} (${gap.shortfall.toLocaleString('en-US', { minimumFractionDigits: 2 })})
+                  </p>
+                  <p className="text-xs text-muted-foreground">{gap.detail}</p>
+                </li>
+              ))}
+            </ul>
+            <p className="text-sm text-muted-foreground">
+              Ask your insurer for the labor and material breakdown behind each line - sales tax and labor minimums are often left off small or itemized estimates.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Regional Context from External APIs */}
       {results.regionalContext && (
         <Card>
@@ -694,7 +948,7 @@ export default function ResultsStep({ zipCode, items, onStartOver }: ResultsStep
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-3">
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className={`grid grid-cols-1 gap-3 ${readOnly ? "sm:grid-cols-2" : "sm:grid-cols-3"}`}>
             <Button 
               variant="outline" 
               className="gap-2" 
@@ -705,6 +959,7 @@ export default function ResultsStep({ zipCode, items, onStartOver }: ResultsStep
               <Download className="w-4 h-4" aria-hidden="true" />
               Download PDF
             </Button>
+            {!readOnly && (
             <Button 
               variant="outline" 
               className="gap-2"
@@ -715,6 +970,7 @@ export default function ResultsStep({ zipCode, items, onStartOver }: ResultsStep
               <Mail className="w-4 h-4" aria-hidden="true" />
               Email Report
             </Button>
+            )}
             <Button 
               variant="outline" 
               className="gap-2" 
@@ -725,24 +981,50 @@ export default function ResultsStep({ zipCode, items, onStartOver }: ResultsStep
               <Printer className="w-4 h-4" aria-hidden="true" />
               Print
             </Button>
+            {!readOnly && (
+            <Button 
+              variant="outline" 
+              className="gap-2"
+              onClick={() => setSupplementDialogOpen(true)}
+              data-testid="button-supplement-letter"
+              aria-label="Generate a supplement request letter for your adjuster"
+            >
+              <FileSignature className="w-4 h-4" aria-hidden="true" />
+              Supplement Letter
+            </Button>
+            )}
           </div>
-          <Button 
-            variant="secondary" 
-            className="w-full"
-            onClick={onStartOver}
-            data-testid="button-new-claim"
-          >
-            Start New Claim Analysis
-          </Button>
+          {onStartOver && (
+            <Button 
+              variant="secondary" 
+              className="w-full"
+              onClick={onStartOver}
+              data-testid="button-new-claim"
+            >
+              Start New Claim Analysis
+            </Button>
+          )}
         </CardContent>
       </Card>
 
-      {/* Email Report Dialog */}
-      <EmailReportDialog
-        open={emailDialogOpen}
-        onOpenChange={setEmailDialogOpen}
-        reportSummary={generateEmailReportSummary(results)}
-      />
+      {!readOnly && (
+        <>
+          {/* Email Report Dialog */}
+          <EmailReportDialog
+            open={emailDialogOpen}
+            onOpenChange={setEmailDialogOpen}
+            reportSummary={generateEmailReportSummary(results)}
+          />
+
+          {/* Supplement Request Letter Dialog */}
+          <SupplementLetterDialog
+            open={supplementDialogOpen}
+            onOpenChange={setSupplementDialogOpen}
+            zipCode={zipCode}
+            items={items}
+          />
+        </>
+      )}
     </div>
   );
 }
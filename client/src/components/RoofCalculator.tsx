@@ -0,0 +1,323 @@
+import { useMemo, useState } from 'react';
+import { Calculator, ChevronDown, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import {
+  compareRoofQuantities,
+  computeRoofGeometry,
+  generateRoofLineItems,
+  type RoofFacet,
+  type RoofLinearMeasurements,
+  type RoofLineItem,
+  type ShingleType,
+} from '@shared/roofGeometry';
+import type { ClaimItem } from './ItemsStep';
+
+interface RoofCalculatorProps {
+  items: ClaimItem[];
+  onItemsGenerated: (items: ClaimItem[]) => void;
+}
+
+const LENGTH_FIELDS: Array<{ key: keyof RoofLinearMeasurements; label: string }> = [
+  { key: 'ridge', label: 'Ridge' },
+  { key: 'hip', label: 'Hip' },
+  { key: 'valley', label: 'Valley' },
+  { key: 'eave', label: 'Eave' },
+  { key: 'rake', label: 'Rake' },
+  { key: 'stepFlashing', label: 'Step flashing' },
+];
+
+function parseNumber(value: string): number | undefined {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export function RoofCalculator({ items, onItemsGenerated }: RoofCalculatorProps) {
+  const [open, setOpen] = useState(false);
+  const [pitch, setPitch] = useState('6/12');
+  const [footprint, setFootprint] = useState('');
+  const [facets, setFacets] = useState<RoofFacet[]>([]);
+  const [lengths, setLengths] = useState<Record<string, string>>({});
+  const [stories, setStories] = useState('1');
+  const [layers, setLayers] = useState('1');
+  const [shingleType, setShingleType] = useState<ShingleType>('laminated');
+  const [iceBarrierAtEaves, setIceBarrierAtEaves] = useState(false);
+  const [wastePct, setWastePct] = useState('');
+  const { toast } = useToast();
+
+  const { geometry, lines, error } = useMemo(() => {
+    if (!footprint && facets.length === 0) return { geometry: null, lines: [] as RoofLineItem[], error: null };
+    try {
+      const geometry = computeRoofGeometry({
+        pitch,
+        footprintSqFt: parseNumber(footprint),
+        facets: facets.filter(f => f.length > 0 && f.width > 0),
+        lengths: Object.fromEntries(
+          LENGTH_FIELDS.map(({ key }) => [key, parseNumber(lengths[key] ?? '')])
+        ) as RoofLinearMeasurements,
+        stories: parseNumber(stories),
+        layers: parseNumber(layers),
+        shingleType,
+        iceBarrierAtEaves,
+        wastePct: parseNumber(wastePct),
+      });
+      return { geometry, lines: generateRoofLineItems(geometry), error: null };
+    } catch (err: any) {
+      return { geometry: null, lines: [] as RoofLineItem[], error: err.message as string };
+    }
+  }, [pitch, footprint, facets, lengths, stories, layers, shingleType, iceBarrierAtEaves, wastePct]);
+
+  const checks = useMemo(() => compareRoofQuantities(lines, items), [lines, items]);
+  const underMeasured = checks.filter(check => check.underMeasured && check.claimedQuantity > 0);
+  const missingLines = lines.filter((_, idx) => checks[idx].claimedQuantity === 0);
+
+  const updateFacet = (index: number, field: keyof RoofFacet, value: string) => {
+    const next = [...facets];
+    next[index] = { ...next[index], [field]: field === 'name' || field === 'shape' ? value : parseNumber(value) ?? 0 };
+    setFacets(next);
+  };
+
+  const addMissingLines = () => {
+    onItemsGenerated(missingLines.map(line => ({
+      category: line.category,
+      description: line.description,
+      quantity: line.quantity,
+      unit: line.unit,
+      unitPrice: line.unitPrice,
+    })));
+    toast({
+      title: 'Roof line items added',
+      description: `${missingLines.length} measured line(s) added. Enter the carrier's unit price for any line showing $0.`,
+    });
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <Card>
+        <CardHeader>
+          <CollapsibleTrigger asChild>
+            <button type="button" className="flex w-full items-center justify-between text-left" data-testid="button-toggle-roof-calculator">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Calculator className="w-5 h-5 text-primary" />
+                  Roof Measurement Calculator (Optional)
+                </CardTitle>
+                <CardDescription className="mt-1.5">
+                  Don't know your squares? Enter the footprint or roof planes and pitch - we'll measure the roof and check the carrier's quantities.
+                </CardDescription>
+              </div>
+              <ChevronDown className={`w-5 h-5 shrink-0 transition-transform ${open ? 'rotate-180' : ''}`} />
+            </button>
+          </CollapsibleTrigger>
+        </CardHeader>
+        <CollapsibleContent>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="roof-pitch">Pitch</Label>
+                <Input id="roof-pitch" placeholder="6/12" value={pitch} onChange={(e) => setPitch(e.target.value)} data-testid="input-roof-pitch" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="roof-footprint">Footprint (SF)</Label>
+                <Input
+                  id="roof-footprint"
+                  type="number"
+                  min="0"
+                  placeholder="Incl. overhangs"
+                  value={footprint}
+                  onChange={(e) => setFootprint(e.target.value)}
+                  disabled={facets.length > 0}
+                  data-testid="input-roof-footprint"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="roof-stories">Stories</Label>
+                <Input id="roof-stories" type="number" min="1" step="1" value={stories} onChange={(e) => setStories(e.target.value)} data-testid="input-roof-stories" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="roof-layers">Layers to tear off</Label>
+                <Input id="roof-layers" type="number" min="1" step="1" value={layers} onChange={(e) => setLayers(e.target.value)} data-testid="input-roof-layers" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="roof-shingle-type">Shingle type</Label>
+                <Select value={shingleType} onValueChange={(value) => setShingleType(value as ShingleType)}>
+                  <SelectTrigger id="roof-shingle-type" data-testid="select-roof-shingle-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="laminated">Laminated / architectural</SelectItem>
+                    <SelectItem value="3-tab">3-tab</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="roof-waste">Waste % (optional)</Label>
+                <Input
+                  id="roof-waste"
+                  type="number"
+                  min="0"
+                  placeholder={geometry ? `Suggested ${geometry.suggestedWastePct}` : 'Suggested'}
+                  value={wastePct}
+                  onChange={(e) => setWastePct(e.target.value)}
+                  data-testid="input-roof-waste"
+                />
+              </div>
+              <div className="flex items-center gap-2 md:col-span-2 pt-6">
+                <Switch id="roof-ice-barrier" checked={iceBarrierAtEaves} onCheckedChange={setIceBarrierAtEaves} data-testid="switch-roof-ice-barrier" />
+                <Label htmlFor="roof-ice-barrier">Ice barrier required at eaves</Label>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Lengths (LF)</Label>
+              <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+                {LENGTH_FIELDS.map(({ key, label }) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`roof-${key}`} className="text-xs text-muted-foreground">{label}</Label>
+                    <Input
+                      id={`roof-${key}`}
+                      type="number"
+                      min="0"
+                      value={lengths[key] ?? ''}
+                      onChange={(e) => setLengths({ ...lengths, [key]: e.target.value })}
+                      data-testid={`input-roof-${key}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Roof planes (plan dimensions, optional)</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFacets([...facets, { name: `Plane ${facets.length + 1}`, shape: 'rectangle', length: 0, width: 0 }])}
+                  data-testid="button-add-roof-facet"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add plane
+                </Button>
+              </div>
+              {facets.map((facet, index) => (
+                <div key={index} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+                  <Select value={facet.shape ?? 'rectangle'} onValueChange={(value) => updateFacet(index, 'shape', value)}>
+                    <SelectTrigger data-testid={`select-roof-facet-shape-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="rectangle">Rectangle</SelectItem>
+                      <SelectItem value="triangle">Triangle</SelectItem>
+                      <SelectItem value="trapezoid">Trapezoid</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input type="number" min="0" placeholder="Length (ft)" value={facet.length || ''} onChange={(e) => updateFacet(index, 'length', e.target.value)} data-testid={`input-roof-facet-length-${index}`} />
+                  <Input type="number" min="0" placeholder="Depth (ft)" value={facet.width || ''} onChange={(e) => updateFacet(index, 'width', e.target.value)} data-testid={`input-roof-facet-width-${index}`} />
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Top length (ft)"
+                    value={facet.topLength || ''}
+                    onChange={(e) => updateFacet(index, 'topLength', e.target.value)}
+                    disabled={facet.shape !== 'trapezoid'}
+                    data-testid={`input-roof-facet-top-${index}`}
+                  />
+                  <Button type="button" variant="ghost" size="icon" onClick={() => setFacets(facets.filter((_, i) => i !== index))} data-testid={`button-remove-roof-facet-${index}`}>
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {error && <p className="text-sm text-destructive" data-testid="text-roof-error">{error}</p>}
+
+            {geometry && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm p-4 bg-muted rounded-lg">
+                  <div>
+                    <p className="text-muted-foreground">Roof surface</p>
+                    <p className="font-medium" data-testid="text-roof-squares">{geometry.squares.toFixed(2)} SQ</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Pitch factor</p>
+                    <p className="font-medium">{geometry.pitchFactor.toFixed(3)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Waste ({geometry.complexity} roof)</p>
+                    <p className="font-medium">{geometry.wastePct}%</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Shingles incl. waste</p>
+                    <p className="font-medium" data-testid="text-roof-squares-with-waste">{geometry.squaresWithWaste.toFixed(2)} SQ</p>
+                  </div>
+                </div>
+
+                {underMeasured.length > 0 && (
+                  <div className="p-3 rounded-md border border-amber-500/50 bg-amber-500/10 space-y-1" data-testid="text-roof-under-measured">
+                    <p className="text-sm font-medium flex items-center gap-1">
+                      <AlertTriangle className="w-4 h-4 text-amber-500" />
+                      {underMeasured.length} line(s) on your estimate look under-measured
+                    </p>
+                    <ul className="text-xs text-muted-foreground space-y-1">
+                      {underMeasured.map(check => (
+                        <li key={check.code}>
+                          {check.description}: carrier paid {check.claimedQuantity} {check.unit}, roof measures {check.measuredQuantity} {check.unit} ({check.shortfallPct}% short)
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Line item</TableHead>
+                      <TableHead className="text-right">Measured</TableHead>
+                      <TableHead className="text-right">On estimate</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lines.map((line, idx) => (
+                      <TableRow key={line.code} data-testid={`row-roof-line-${line.code}`}>
+                        <TableCell>{line.description}</TableCell>
+                        <TableCell className="text-right">{line.quantity} {line.unit}</TableCell>
+                        <TableCell className="text-right">{checks[idx].claimedQuantity > 0 ? `${checks[idx].claimedQuantity} ${line.unit}` : '-'}</TableCell>
+                        <TableCell className="text-right">
+                          {checks[idx].claimedQuantity === 0
+                            ? <Badge variant="secondary">Not on estimate</Badge>
+                            : checks[idx].underMeasured && <Badge variant="destructive">Short</Badge>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <Button
+                  type="button"
+                  className="w-full"
+                  onClick={addMissingLines}
+                  disabled={missingLines.length === 0}
+                  data-testid="button-add-roof-lines"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add {missingLines.length} Measured Line{missingLines.length === 1 ? '' : 's'} to Claim
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+}
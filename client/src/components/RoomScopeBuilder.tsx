@@ -0,0 +1,284 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown, LayoutGrid, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DEFAULT_OPENING_SIZES,
+  computeRoomMeasurements,
+  generateRoomLineItems,
+  type FloorCovering,
+  type RoomLineItem,
+  type RoomMeasurements,
+  type SurfaceTreatment,
+} from '@shared/roomGeometry';
+import type { ClaimItem } from './ItemsStep';
+
+interface RoomScopeBuilderProps {
+  onItemsGenerated: (items: ClaimItem[]) => void;
+}
+
+interface RoomDraft {
+  name: string;
+  length: string;
+  width: string;
+  ceilingHeight: string;
+  doors: string;
+  windows: string;
+  floor: FloorCovering | 'none';
+  walls: SurfaceTreatment | 'none';
+  ceiling: SurfaceTreatment | 'none';
+}
+
+interface RoomResult {
+  measurements: RoomMeasurements | null;
+  lines: RoomLineItem[];
+  error: string | null;
+}
+
+const FLOOR_OPTIONS: Array<{ value: RoomDraft['floor']; label: string }> = [
+  { value: 'none', label: 'Not affected' },
+  { value: 'carpet', label: 'Carpet & pad' },
+  { value: 'vinyl', label: 'Vinyl plank' },
+  { value: 'laminate', label: 'Laminate' },
+  { value: 'hardwood', label: 'Hardwood' },
+  { value: 'tile', label: 'Ceramic tile' },
+];
+
+const TREATMENT_OPTIONS: Array<{ value: SurfaceTreatment | 'none'; label: string }> = [
+  { value: 'none', label: 'Not affected' },
+  { value: 'paint', label: 'Paint only' },
+  { value: 'replace', label: 'Replace drywall & paint' },
+];
+
+function newRoom(index: number): RoomDraft {
+  return {
+    name: `Room ${index + 1}`,
+    length: '',
+    width: '',
+    ceilingHeight: '8',
+    doors: '1',
+    windows: '0',
+    floor: 'none',
+    walls: 'none',
+    ceiling: 'none',
+  };
+}
+
+function parseNumber(value: string): number {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function buildRoom(draft: RoomDraft): RoomResult {
+  if (!draft.length || !draft.width) return { measurements: null, lines: [], error: null };
+  const room = {
+    name: draft.name,
+    length: parseNumber(draft.length),
+    width: parseNumber(draft.width),
+    ceilingHeight: parseNumber(draft.ceilingHeight),
+    openings: [
+      { type: 'door' as const, ...DEFAULT_OPENING_SIZES.door, count: parseNumber(draft.doors) },
+      { type: 'window' as const, ...DEFAULT_OPENING_SIZES.window, count: parseNumber(draft.windows) },
+    ],
+    surfaces: {
+      floor: draft.floor === 'none' ? undefined : draft.floor,
+      walls: draft.walls === 'none' ? undefined : draft.walls,
+      ceiling: draft.ceiling === 'none' ? undefined : draft.ceiling,
+    },
+  };
+  try {
+    return { measurements: computeRoomMeasurements(room), lines: generateRoomLineItems(room), error: null };
+  } catch (err: any) {
+    return { measurements: null, lines: [], error: err.message as string };
+  }
+}
+
+export function RoomScopeBuilder({ onItemsGenerated }: RoomScopeBuilderProps) {
+  const [open, setOpen] = useState(false);
+  const [rooms, setRooms] = useState<RoomDraft[]>([newRoom(0)]);
+  const { toast } = useToast();
+
+  const results = useMemo(() => rooms.map(buildRoom), [rooms]);
+  const allLines = results.flatMap(result => result.lines);
+
+  const updateRoom = <K extends keyof RoomDraft>(index: number, field: K, value: RoomDraft[K]) => {
+    const next = [...rooms];
+    next[index] = { ...next[index], [field]: value };
+    setRooms(next);
+  };
+
+  const addRoomLines = () => {
+    onItemsGenerated(allLines.map(line => ({
+      category: line.category,
+      description: line.description,
+      quantity: line.quantity,
+      unit: line.unit,
+      unitPrice: line.unitPrice,
+      room: line.room,
+    })));
+    const roomCount = results.filter(result => result.lines.length > 0).length;
+    toast({
+      title: 'Room scope added',
+      description: `${allLines.length} line(s) across ${roomCount} room(s) added. Enter the carrier's unit price for any line showing $0.`,
+    });
+    setRooms([newRoom(0)]);
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <Card>
+        <CardHeader>
+          <CollapsibleTrigger asChild>
+            <button type="button" className="flex w-full items-center justify-between text-left" data-testid="button-toggle-room-builder">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <LayoutGrid className="w-5 h-5 text-primary" />
+                  Room-by-Room Scope Builder (Optional)
+                </CardTitle>
+                <CardDescription className="mt-1.5">
+                  Enter each damaged room's size and the surfaces affected - we'll work out the square and linear footage and build the line items room by room.
+                </CardDescription>
+              </div>
+              <ChevronDown className={`w-5 h-5 shrink-0 transition-transform ${open ? 'rotate-180' : ''}`} />
+            </button>
+          </CollapsibleTrigger>
+        </CardHeader>
+        <CollapsibleContent>
+          <CardContent className="space-y-6">
+            {rooms.map((room, index) => {
+              const result = results[index];
+              return (
+                <div key={index} className="space-y-4 p-4 border rounded-lg" data-testid={`room-${index}`}>
+                  <div className="flex items-end gap-2">
+                    <div className="space-y-2 flex-1">
+                      <Label htmlFor={`room-name-${index}`}>Room / area</Label>
+                      <Input id={`room-name-${index}`} placeholder="Kitchen, Master Bedroom..." value={room.name} onChange={(e) => updateRoom(index, 'name', e.target.value)} data-testid={`input-room-name-${index}`} />
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setRooms(rooms.filter((_, i) => i !== index))}
+                      disabled={rooms.length === 1}
+                      data-testid={`button-remove-room-${index}`}
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                    {([
+                      ['length', 'Length (ft)'],
+                      ['width', 'Width (ft)'],
+                      ['ceilingHeight', 'Ceiling height (ft)'],
+                      ['doors', 'Doors'],
+                      ['windows', 'Windows'],
+                    ] as const).map(([field, label]) => (
+                      <div key={field} className="space-y-1">
+                        <Label htmlFor={`room-${field}-${index}`} className="text-xs text-muted-foreground">{label}</Label>
+                        <Input
+                          id={`room-${field}-${index}`}
+                          type="number"
+                          min="0"
+                          step={field === 'doors' || field === 'windows' ? '1' : '0.1'}
+                          value={room[field]}
+                          onChange={(e) => updateRoom(index, field, e.target.value)}
+                          data-testid={`input-room-${field}-${index}`}
+                        />
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Floor</Label>
+                      <Select value={room.floor} onValueChange={(value) => updateRoom(index, 'floor', value as RoomDraft['floor'])}>
+                        <SelectTrigger data-testid={`select-room-floor-${index}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FLOOR_OPTIONS.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {(['walls', 'ceiling'] as const).map(surface => (
+                      <div key={surface} className="space-y-1">
+                        <Label className="text-xs text-muted-foreground">{surface === 'walls' ? 'Walls' : 'Ceiling'}</Label>
+                        <Select value={room[surface]} onValueChange={(value) => updateRoom(index, surface, value as RoomDraft[typeof surface])}>
+                          <SelectTrigger data-testid={`select-room-${surface}-${index}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {TREATMENT_OPTIONS.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+
+                  {result.error && <p className="text-sm text-destructive" data-testid={`text-room-error-${index}`}>{result.error}</p>}
+
+                  {result.measurements && (
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm p-3 bg-muted rounded-lg">
+                      <div>
+                        <p className="text-muted-foreground">Floor / ceiling</p>
+                        <p className="font-medium">{result.measurements.floorSqFt} SF</p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">Walls (net of openings)</p>
+                        <p className="font-medium" data-testid={`text-room-wall-sf-${index}`}>{result.measurements.netWallSqFt} SF</p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">Perimeter</p>
+                        <p className="font-medium">{result.measurements.perimeterLF} LF</p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">Baseboard</p>
+                        <p className="font-medium">{result.measurements.baseboardLF} LF</p>
+                      </div>
+                    </div>
+                  )}
+
+                  {result.lines.length > 0 && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Line item</TableHead>
+                          <TableHead className="text-right">Quantity</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {result.lines.map((line, lineIndex) => (
+                          <TableRow key={`${line.code}-${lineIndex}`} data-testid={`row-room-line-${index}-${lineIndex}`}>
+                            <TableCell>{line.description}</TableCell>
+                            <TableCell className="text-right">{line.quantity} {line.unit}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              );
+            })}
+
+            <Button type="button" variant="outline" className="w-full" onClick={() => setRooms([...rooms, newRoom(rooms.length)])} data-testid="button-add-room">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Room
+            </Button>
+
+            <Button type="button" className="w-full" onClick={addRoomLines} disabled={allLines.length === 0} data-testid="button-add-room-lines">
+              <Plus className="w-4 h-4 mr-2" />
+              Add {allLines.length} Room Line{allLines.length === 1 ? '' : 's'} to Claim
+            </Button>
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+}
@@ -18,9 +18,12 @@ import { Check, ArrowRight } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { analyzeClaim, isOfflineAnalysis } from "@/lib/offlineAudit";
 import { DocumentUpload } from "./DocumentUpload";
+import { RoomScopeBuilder } from "./RoomScopeBuilder";
 import { ValidationFeedback } from "./ValidationFeedback";
 import { auditClaimItem, auditClaimItemLegacy } from "@shared/priceAudit";
+import { groupItemsByRoom } from "@shared/roomGeometry";
 import type { ClaimItem } from "./ItemsStep";
 
 const TRUST_BADGES = [
@@ -46,6 +49,7 @@ interface SingleScreenClaimProps {
     propertyAddress?: string;
     damageType: string;
     insuranceOffer: number;
+    deductible?: number;
     items: ClaimItem[];
   }) => void;
   onAnalysisComplete: (results: any) => void;
@@ -58,6 +62,7 @@ export default function SingleScreenClaim({ onCalculate, onAnalysisComplete, onZ
   const [propertyAddress, setPropertyAddress] = useState("");
   const [damageType, setDamageType] = useState("");
   const [insuranceOffer, setInsuranceOffer] = useState("");
+  const [deductible, setDeductible] = useState("");
   const [items, setItems] = useState<ClaimItem[]>([]);
   const { toast } = useToast();
 
@@ -67,6 +72,7 @@ export default function SingleScreenClaim({ onCalculate, onAnalysisComplete, onZ
     setPropertyAddress("");
     setDamageType("");
     setInsuranceOffer("");
+    setDeductible("");
     setItems([]);
     if (onZipChange) {
       onZipChange("");
@@ -112,18 +118,33 @@ export default function SingleScreenClaim({ onCalculate, onAnalysisComplete, onZ
         quantity: number;
         unit: string;
         quotedPrice: number;
+        acv?: number;
+        depreciationAmount?: number;
+        nonRecoverableDepreciation?: number;
+        ageYears?: number;
+        room?: string;
       }>;
+      deductible?: number;
     }) => {
-      const response = await apiRequest("POST", "/api/claims/analyze", data);
-      return await response.json();
+      return await analyzeClaim<unknown>(data);
     },
     onSuccess: async (data, variables) => {
+      if (isOfflineAnalysis(data)) {
+        onAnalysisComplete(data);
+        toast({
+          title: "Offline Analysis",
+          description: "No connection - your claim was checked with basic pricing tables and will sync when you're back online.",
+        });
+        return;
+      }
+
       const itemsForAudit: ClaimItem[] = variables.items.map(item => ({
         category: item.category,
         description: item.description,
         quantity: item.quantity,
         unit: item.unit,
-        unitPrice: item.quotedPrice / item.quantity
+        unitPrice: item.quotedPrice / item.quantity,
+        room: item.room,
       }));
       persistAuditResults(itemsForAudit, variables.zipCode);
       
@@ -150,6 +171,9 @@ export default function SingleScreenClaim({ onCalculate, onAnalysisComplete, onZ
       quantity: item.quantity || 1,
       unitPrice: item.unitPrice || item.quotedPrice || 0,
       unit: item.unit || "EA",
+      acv: item.acv,
+      depreciationAmount: item.depreciationAmount,
+      nonRecoverableDepreciation: item.nonRecoverableDepreciation,
     }));
     setItems([...items, ...newItems]);
     
@@ -185,6 +209,15 @@ export default function SingleScreenClaim({ onCalculate, onAnalysisComplete, onZ
       return;
     }
     
+    if (items.some(item => item.room && item.unitPrice <= 0)) {
+      toast({
+        title: "Unit Prices Required",
+        description: "Enter the carrier's unit price for each room line item.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (!insuranceOffer || parseFloat(insuranceOffer) <= 0) {
       toast({
         title: "Insurance Offer Required",
@@ -211,7 +244,13 @@ export default function SingleScreenClaim({ onCalculate, onAnalysisComplete, onZ
         quantity: item.quantity,
         unit: item.unit || "EA",
         quotedPrice: item.unitPrice * item.quantity,
+        acv: item.acv,
+        depreciationAmount: item.depreciationAmount,
+        nonRecoverableDepreciation: item.nonRecoverableDepreciation,
+        ageYears: item.ageYears,
+        room: item.room,
       })),
+      deductible: deductible ? parseFloat(deductible) : undefined,
     });
 
     onCalculate({
@@ -219,6 +258,7 @@ export default function SingleScreenClaim({ onCalculate, onAnalysisComplete, onZ
       propertyAddress,
       damageType,
       insuranceOffer: parseFloat(insuranceOffer),
+      deductible: deductible ? parseFloat(deductible) : undefined,
       items: submissionItems,
     });
   };
@@ -274,12 +314,14 @@ export default function SingleScreenClaim({ onCalculate, onAnalysisComplete, onZ
           <CardContent className="pt-6 space-y-6">
             <div className="space-y-4">
               <DocumentUpload onItemsExtracted={handleExtractedItems} />
+
+              <RoomScopeBuilder onItemsGenerated={(roomItems) => setItems([...items, ...roomItems])} />
               
               {items.length > 0 && (
                 <div className="space-y-3">
                   <div className="flex items-center justify-between">
                     <span className="text-sm font-medium">
-                      {items.length} item(s) extracted
+                      {items.length} item(s) added
                     </span>
                     <Button
                       type="button"
@@ -291,6 +333,27 @@ export default function SingleScreenClaim({ onCalculate, onAnalysisComplete, onZ
                       Clear items
                     </Button>
                   </div>
+                  {groupItemsByRoom(items).filter(group => group.room !== null).map(group => (
+                    <div key={group.room} className="border rounded-md p-3 space-y-2" data-testid={`room-group-${group.room}`}>
+                      <p className="text-sm font-semibold">{group.room}</p>
+                      {group.items.map(({ item, index }) => (
+                        <div key={index} className="grid grid-cols-[1fr_auto_7rem] gap-2 items-center text-sm">
+                          <span className="truncate">{item.description}</span>
+                          <span className="text-muted-foreground whitespace-nowrap">{item.quantity} {item.unit}</span>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            placeholder="Unit price"
+                            aria-label={`Unit price for ${item.description}`}
+                            value={item.unitPrice || ""}
+                            onChange={(e) => setItems(items.map((existing, i) => i === index ? { ...existing, unitPrice: parseFloat(e.target.value) || 0 } : existing))}
+                            data-testid={`input-room-unit-price-${index}`}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  ))}
                   <ValidationFeedback items={items} />
                 </div>
               )}
@@ -372,6 +435,23 @@ export default function SingleScreenClaim({ onCalculate, onAnalysisComplete, onZ
                 data-testid="input-insurance-offer"
               />
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="deductible">Policy Deductible ($, Optional)</Label>
+              <Input
+                id="deductible"
+                type="number"
+                placeholder="1000"
+                value={deductible}
+                onChange={(e) => setDeductible(e.target.value)}
+                min="0"
+                step="0.01"
+                data-testid="input-deductible"
+              />
+              <p className="text-xs text-muted-foreground">
+                Used to estimate your net payment and the depreciation you can still recover
+              </p>
+            </div>
           </CardContent>
         </Card>
 
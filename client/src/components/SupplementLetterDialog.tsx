@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { FileSignature, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ClaimItem } from "./ItemsStep";
+
+interface SupplementLetterDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  zipCode: string;
+  items: ClaimItem[];
+}
+
+interface SupplementTemplateOption {
+  id: string;
+  name: string;
+  description: string | null;
+}
+
+type LetterFormat = "docx" | "pdf";
+
+export function SupplementLetterDialog({ open, onOpenChange, zipCode, items }: SupplementLetterDialogProps) {
+  const { toast } = useToast();
+  const [claimNumber, setClaimNumber] = useState("");
+  const [lossDate, setLossDate] = useState("");
+  const [carrier, setCarrier] = useState("");
+  const [adjusterName, setAdjusterName] = useState("");
+  const [senderName, setSenderName] = useState("");
+  const [templateId, setTemplateId] = useState<string>("");
+  const [format, setFormat] = useState<LetterFormat>("docx");
+
+  const { data: templatesData } = useQuery<{ templates: SupplementTemplateOption[] }>({
+    queryKey: ["/api/supplement-templates"],
+    enabled: open,
+  });
+  const templates = templatesData?.templates ?? [];
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      // Price each line against the market database, then build the letter from that audit
+      const auditResponse = await apiRequest("POST", "/api/audit/batch", {
+        items: items.map(item => ({ name: item.description, price: item.unitPrice, qty: item.quantity })),
+        zipCode,
+      });
+      const audit = await auditResponse.json();
+
+      const response = await fetch("/api/supplement-letters", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          audit,
+          claimNumber,
+          lossDate,
+          carrier,
+          zipCode,
+          adjusterName: adjusterName || undefined,
+          senderName: senderName || undefined,
+          templateId: templateId || undefined,
+          format,
+        }),
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || "Failed to generate letter");
+      }
+      return response.blob();
+    },
+    onSuccess: (blob) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `supplement-request-${claimNumber.replace(/[^A-Za-z0-9-]+/g, "_")}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast({ title: "Letter Ready", description: "Review the letter, fill in any bracketed fields and send it to your adjuster." });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canGenerate = claimNumber.trim() !== "" && lossDate !== "" && carrier.trim() !== "";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg" aria-describedby="supplement-dialog-description">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSignature className="w-5 h-5" aria-hidden="true" />
+            Supplement Request Letter
+          </DialogTitle>
+          <DialogDescription id="supplement-dialog-description">
+            Generates a letter to your adjuster listing each under-priced item with its fair market value and pricing source.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="supplement-claim-number">Claim Number</Label>
+            <Input id="supplement-claim-number" value={claimNumber} onChange={(e) => setClaimNumber(e.target.value)} data-testid="input-supplement-claim-number" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="supplement-loss-date">Date of Loss</Label>
+            <Input id="supplement-loss-date" type="date" value={lossDate} onChange={(e) => setLossDate(e.target.value)} data-testid="input-supplement-loss-date" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="supplement-carrier">Insurance Carrier</Label>
+            <Input id="supplement-carrier" value={carrier} onChange={(e) => setCarrier(e.target.value)} data-testid="input-supplement-carrier" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="supplement-adjuster">Adjuster Name</Label>
+            <Input id="supplement-adjuster" value={adjusterName} onChange={(e) => setAdjusterName(e.target.value)} data-testid="input-supplement-adjuster" />
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="supplement-sender">Your Name</Label>
+            <Input id="supplement-sender" value={senderName} onChange={(e) => setSenderName(e.target.value)} data-testid="input-supplement-sender" />
+          </div>
+          {templates.length > 0 && (
+            <div className="space-y-2">
+              <Label>Letter Template</Label>
+              <Select value={templateId || templates[0].id} onValueChange={setTemplateId}>
+                <SelectTrigger data-testid="select-supplement-template">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map(template => (
+                    <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as LetterFormat)}>
+              <SelectTrigger data-testid="select-supplement-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="docx">Word (editable)</SelectItem>
+                <SelectItem value="pdf">PDF</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-supplement">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => generateMutation.mutate()}
+            disabled={!canGenerate || generateMutation.isPending}
+            className="gap-2"
+            data-testid="button-generate-supplement"
+          >
+            {generateMutation.isPending
+              ? <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+              : <FileSignature className="w-4 h-4" aria-hidden="true" />}
+            Generate Letter
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,402 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { CloudLightning, Download, Pencil, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type DecayCurve = "linear" | "exponential";
+
+interface SurgeProfile {
+  peakSurgePct: number;
+  rampDays: number;
+  plateauDays: number;
+  decayDays: number;
+  decayCurve: DecayCurve;
+}
+
+interface CatastropheEvent {
+  id: string;
+  name: string;
+  eventType: string;
+  source: "admin" | "fema";
+  femaDisasterNumber: number | null;
+  stateCode: string;
+  zipPrefixes: string[];
+  cbsaCodes: string[];
+  designatedAreas: string[] | null;
+  startDate: string;
+  peakSurgePct: string | number; // numeric columns arrive as strings
+  rampDays: number;
+  plateauDays: number;
+  decayDays: number;
+  decayCurve: DecayCurve;
+  isActive: number; // 1 or 0 from database
+  notes: string | null;
+  currentSurgePct: number;
+}
+
+interface EventForm {
+  name: string;
+  eventType: string;
+  stateCode: string;
+  zipPrefixes: string;
+  cbsaCodes: string;
+  startDate: string;
+  peakSurgePct: string;
+  rampDays: string;
+  plateauDays: string;
+  decayDays: string;
+  decayCurve: DecayCurve;
+  notes: string;
+}
+
+const EVENT_TYPES = ["hurricane", "hail", "tornado", "severe_storm", "flood", "wildfire", "winter_storm"];
+
+const formFromProfile = (eventType: string, profile?: SurgeProfile): Partial<EventForm> =>
+  profile
+    ? {
+        eventType,
+        peakSurgePct: String(profile.peakSurgePct),
+        rampDays: String(profile.rampDays),
+        plateauDays: String(profile.plateauDays),
+        decayDays: String(profile.decayDays),
+        decayCurve: profile.decayCurve,
+      }
+    : { eventType };
+
+const EMPTY_FORM: EventForm = {
+  name: "",
+  eventType: "hurricane",
+  stateCode: "",
+  zipPrefixes: "",
+  cbsaCodes: "",
+  startDate: new Date().toISOString().split("T")[0],
+  peakSurgePct: "35",
+  rampDays: "14",
+  plateauDays: "90",
+  decayDays: "270",
+  decayCurve: "exponential",
+  notes: "",
+};
+
+const splitList = (value: string) =>
+  value.split(",").map(entry => entry.trim()).filter(Boolean);
+
+const describeCoverage = (event: CatastropheEvent) => {
+  const areas = [...event.zipPrefixes.map(prefix => `ZIP ${prefix}`), ...event.cbsaCodes.map(code => `CBSA ${code}`)];
+  return areas.length > 0 ? areas.join(", ") : `All of ${event.stateCode}`;
+};
+
+export function CatastropheEventsTab() {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<EventForm>(EMPTY_FORM);
+
+  const { data, isLoading } = useQuery<{ events: CatastropheEvent[]; profiles: Record<string, SurgeProfile>; total: number }>({
+    queryKey: ["/api/admin/catastrophe-events"],
+  });
+  const events = data?.events || [];
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/admin/catastrophe-events"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name,
+        eventType: form.eventType,
+        stateCode: form.stateCode.toUpperCase(),
+        zipPrefixes: splitList(form.zipPrefixes),
+        cbsaCodes: splitList(form.cbsaCodes),
+        startDate: form.startDate,
+        peakSurgePct: Number(form.peakSurgePct),
+        rampDays: Number(form.rampDays),
+        plateauDays: Number(form.plateauDays),
+        decayDays: Number(form.decayDays),
+        decayCurve: form.decayCurve,
+        notes: form.notes || null,
+      };
+      return editingId
+        ? apiRequest("PATCH", `/api/admin/catastrophe-events/${editingId}`, body)
+        : apiRequest("POST", "/api/admin/catastrophe-events", body);
+    },
+    onSuccess: () => {
+      invalidate();
+      setDialogOpen(false);
+      toast({ title: "Event Saved", description: "Demand surge pricing has been updated" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save event", variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return apiRequest("PATCH", `/api/admin/catastrophe-events/${id}`, { isActive });
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update event", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/admin/catastrophe-events/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Event Deleted", description: "Catastrophe event has been removed" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete event", variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/catastrophe-events/import-fema");
+      return res.json() as Promise<{ declarations: number; events: number; imported: number }>;
+    },
+    onSuccess: (result) => {
+      invalidate();
+      toast({
+        title: "FEMA Import Complete",
+        description: `${result.imported} new of ${result.events} active major disasters (${result.declarations} declaration rows)`,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Import Failed", description: error.message || "Failed to import FEMA declarations", variant: "destructive" });
+    },
+  });
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm({ ...EMPTY_FORM, ...formFromProfile("hurricane", data?.profiles.hurricane) });
+    setDialogOpen(true);
+  };
+
+  const openEdit = (event: CatastropheEvent) => {
+    setEditingId(event.id);
+    setForm({
+      name: event.name,
+      eventType: event.eventType,
+      stateCode: event.stateCode,
+      zipPrefixes: event.zipPrefixes.join(", "),
+      cbsaCodes: event.cbsaCodes.join(", "),
+      startDate: event.startDate.split("T")[0],
+      peakSurgePct: String(Number(event.peakSurgePct)),
+      rampDays: String(event.rampDays),
+      plateauDays: String(event.plateauDays),
+      decayDays: String(event.decayDays),
+      decayCurve: event.decayCurve,
+      notes: event.notes || "",
+    });
+    setDialogOpen(true);
+  };
+
+  const updateField = (field: keyof EventForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CloudLightning className="h-5 w-5" />
+              Catastrophe Demand Surge
+            </CardTitle>
+            <CardDescription>
+              Active events lift market prices in their area for every audit, disclosed in the pricing citations
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => importMutation.mutate()} disabled={importMutation.isPending} data-testid="button-import-fema">
+              <Download className="h-4 w-4 mr-2" />
+              {importMutation.isPending ? "Importing..." : "Import FEMA"}
+            </Button>
+            <Button onClick={openCreate} data-testid="button-add-catastrophe-event">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Event
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-center text-slate-400">Loading events...</p>
+        ) : events.length === 0 ? (
+          <p className="text-center text-slate-400">No catastrophe events registered - no surge is applied</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Area</TableHead>
+                <TableHead>Started</TableHead>
+                <TableHead>Curve</TableHead>
+                <TableHead>Today</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id} data-testid={`row-catastrophe-event-${event.id}`}>
+                  <TableCell>
+                    <p className="font-medium">{event.name}</p>
+                    <div className="flex gap-1 mt-1">
+                      <Badge variant="outline">{event.eventType.replace("_", " ")}</Badge>
+                      {event.source === "fema" && <Badge variant="secondary">FEMA DR-{event.femaDisasterNumber}</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {describeCoverage(event)}
+                    {event.designatedAreas && event.designatedAreas.length > 0 && (
+                      <span className="block text-xs text-slate-500">{event.designatedAreas.length} designated counties</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{new Date(event.startDate).toLocaleDateString()}</TableCell>
+                  <TableCell className="text-sm">
+                    +{Number(event.peakSurgePct)}% peak
+                    <span className="block text-xs text-slate-500">
+                      {event.rampDays}d ramp, {event.plateauDays}d plateau, {event.decayDays}d {event.decayCurve} decay
+                    </span>
+                  </TableCell>
+                  <TableCell className={event.currentSurgePct > 0 ? "font-mono text-amber-600" : "font-mono text-slate-400"}>
+                    +{event.currentSurgePct.toFixed(1)}%
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={event.isActive === 1}
+                      onCheckedChange={(checked) => toggleMutation.mutate({ id: event.id, isActive: checked })}
+                      data-testid={`switch-catastrophe-event-${event.id}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button size="icon" variant="ghost" onClick={() => openEdit(event)} data-testid={`button-edit-catastrophe-event-${event.id}`}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => deleteMutation.mutate(event.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-catastrophe-event-${event.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Catastrophe Event" : "Add Catastrophe Event"}</DialogTitle>
+            <DialogDescription>
+              Leave ZIP prefixes and CBSA codes blank to cover the whole state. Overlapping events don't stack; the largest surge applies.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="catastrophe-event-name">Name</Label>
+              <Input id="catastrophe-event-name" value={form.name} onChange={updateField("name")} placeholder="Hurricane Beryl" data-testid="input-catastrophe-event-name" />
+            </div>
+            <div className="space-y-2">
+              <Label>Event Type</Label>
+              <Select
+                value={form.eventType}
+                onValueChange={(value) => setForm(prev => ({ ...prev, ...formFromProfile(value, editingId ? undefined : data?.profiles[value]) }))}
+              >
+                <SelectTrigger data-testid="select-catastrophe-event-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EVENT_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{type.replace("_", " ")}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="catastrophe-event-state">State</Label>
+                <Input id="catastrophe-event-state" value={form.stateCode} onChange={updateField("stateCode")} maxLength={2} placeholder="TX" data-testid="input-catastrophe-event-state" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="catastrophe-event-start">Start Date</Label>
+                <Input id="catastrophe-event-start" type="date" value={form.startDate} onChange={updateField("startDate")} data-testid="input-catastrophe-event-start" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="catastrophe-event-zips">ZIP Prefixes</Label>
+              <Input id="catastrophe-event-zips" value={form.zipPrefixes} onChange={updateField("zipPrefixes")} placeholder="770, 773, 77450" data-testid="input-catastrophe-event-zips" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="catastrophe-event-cbsas">CBSA Codes</Label>
+              <Input id="catastrophe-event-cbsas" value={form.cbsaCodes} onChange={updateField("cbsaCodes")} placeholder="26420" data-testid="input-catastrophe-event-cbsas" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="catastrophe-event-peak">Peak Surge (%)</Label>
+              <Input id="catastrophe-event-peak" type="number" step="0.5" value={form.peakSurgePct} onChange={updateField("peakSurgePct")} data-testid="input-catastrophe-event-peak" />
+            </div>
+            <div className="space-y-2">
+              <Label>Decay Curve</Label>
+              <Select value={form.decayCurve} onValueChange={(value) => setForm(prev => ({ ...prev, decayCurve: value as DecayCurve }))}>
+                <SelectTrigger data-testid="select-catastrophe-event-curve">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="linear">Linear</SelectItem>
+                  <SelectItem value="exponential">Exponential</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-3 gap-2 col-span-2">
+              <div className="space-y-2">
+                <Label htmlFor="catastrophe-event-ramp">Ramp (days)</Label>
+                <Input id="catastrophe-event-ramp" type="number" value={form.rampDays} onChange={updateField("rampDays")} data-testid="input-catastrophe-event-ramp" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="catastrophe-event-plateau">Plateau (days)</Label>
+                <Input id="catastrophe-event-plateau" type="number" value={form.plateauDays} onChange={updateField("plateauDays")} data-testid="input-catastrophe-event-plateau" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="catastrophe-event-decay">Decay (days)</Label>
+                <Input id="catastrophe-event-decay" type="number" value={form.decayDays} onChange={updateField("decayDays")} data-testid="input-catastrophe-event-decay" />
+              </div>
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="catastrophe-event-notes">Notes</Label>
+              <Textarea id="catastrophe-event-notes" value={form.notes} onChange={updateField("notes")} rows={2} data-testid="input-catastrophe-event-notes" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-catastrophe-event">
+              {saveMutation.isPending ? "Saving..." : "Save Event"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
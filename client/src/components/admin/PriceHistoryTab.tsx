@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { LineChart } from "lucide-react";
+import { PriceSparkline } from "@/components/PriceSparkline";
+
+interface PriceHistoryPoint {
+  period: string;
+  p10: number;
+  p50: number;
+  p90: number;
+  sampleSize?: number;
+  basis: "snapshot" | "indexed";
+}
+
+interface PriceHistoryItem {
+  name: string;
+  unit: string;
+  avgPrice: number;
+  materialIndex: string;
+  snapshots: number;
+  history: PriceHistoryPoint[];
+  trend: { from: string; to: string; changePct: number } | null;
+}
+
+interface MaterialIndex {
+  key: string;
+  label: string;
+  blsSeriesId: string;
+  series: Array<{ period: string; value: number }>;
+  yearOverYear: number;
+  live: boolean;
+}
+
+interface PriceHistoryResponse {
+  region: string;
+  items: PriceHistoryItem[];
+  indices: MaterialIndex[];
+}
+
+function formatChange(changePct: number): string {
+  return `${changePct > 0 ? "+" : ""}${changePct.toFixed(1)}%`;
+}
+
+export function PriceHistoryTab() {
+  const [zipCode, setZipCode] = useState("");
+  const [search, setSearch] = useState("");
+  const region = /^\d{5}$/.test(zipCode) ? zipCode : "";
+
+  const { data, isLoading } = useQuery<PriceHistoryResponse>({
+    queryKey: ["/api/admin/price-history", region],
+    queryFn: async () => {
+      const url = region ? `/api/admin/price-history?zipCode=${region}` : "/api/admin/price-history";
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch price history");
+      return res.json();
+    },
+  });
+
+  const items = (data?.items || []).filter(item => item.name.toLowerCase().includes(search.trim().toLowerCase()));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {(data?.indices || []).map(index => (
+          <Card key={index.key} data-testid={`card-material-index-${index.key}`}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium flex items-center justify-between gap-2">
+                {index.label}
+                {!index.live && <Badge variant="outline">Built-in</Badge>}
+              </CardTitle>
+              <CardDescription className="font-mono text-xs">{index.blsSeriesId}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatChange((index.yearOverYear - 1) * 100)}</div>
+              <p className="text-xs text-muted-foreground mb-2">Last 12 months</p>
+              <PriceSparkline values={index.series.map(point => point.value)} width={200} height={36} />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <LineChart className="h-5 w-5" />
+            Line Item Price History
+          </CardTitle>
+          <CardDescription>
+            Monthly P50 per item for {data?.region === "US" || !data ? "the nation" : data.region}.
+            Dots are stored snapshots; months between them are estimated from the item's material index.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="price-history-search">Item</Label>
+              <Input id="price-history-search" value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search items" data-testid="input-price-history-search" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="price-history-zip">ZIP code (state series)</Label>
+              <Input id="price-history-zip" value={zipCode} onChange={(e) => setZipCode(e.target.value)} maxLength={5} placeholder="National" data-testid="input-price-history-zip" />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <p className="text-center text-slate-400">Loading price history...</p>
+          ) : items.length === 0 ? (
+            <p className="text-center text-slate-400">No matching items</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Current P50</TableHead>
+                  <TableHead>Index</TableHead>
+                  <TableHead>Trend</TableHead>
+                  <TableHead>Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map(item => (
+                  <TableRow key={item.name} data-testid={`row-price-history-${item.name}`}>
+                    <TableCell>
+                      <p className="font-medium">{item.name}</p>
+                      <p className="text-xs text-slate-500">{item.snapshots} stored snapshot{item.snapshots === 1 ? "" : "s"}</p>
+                    </TableCell>
+                    <TableCell className="font-mono">${item.avgPrice.toFixed(2)}/{item.unit}</TableCell>
+                    <TableCell><Badge variant="outline">{item.materialIndex}</Badge></TableCell>
+                    <TableCell>
+                      <PriceSparkline
+                        values={item.history.map(point => point.p50)}
+                        highlight={item.history.map(point => point.basis === "snapshot")}
+                      />
+                    </TableCell>
+                    <TableCell className={item.trend && item.trend.changePct < 0 ? "text-red-500" : "text-green-500"}>
+                      {item.trend ? formatChange(item.trend.changePct) : "-"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CheckCircle2, ShieldAlert, Trash2, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type PricingDataStatus = "pending" | "accepted" | "held" | "rejected";
+
+interface PricingDataPoint {
+  id: string;
+  category: string;
+  unit: string;
+  zipCode: string | null;
+  zipPrefix: string | null;
+  quotedPrice: string;
+  fmvPrice: string;
+  quantity: string;
+  sessionId: string | null;
+  source: string | null;
+  status: PricingDataStatus;
+  moderationFlags: Array<{ check: string; message: string }> | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+interface ReviewQueue {
+  points: PricingDataPoint[];
+  counts: Record<PricingDataStatus, number>;
+  total: number;
+}
+
+const STATUS_LABELS: Record<PricingDataStatus, string> = {
+  held: "Held",
+  pending: "Pending",
+  accepted: "Accepted",
+  rejected: "Rejected",
+};
+
+const CHECK_LABELS: Record<string, string> = {
+  price_outlier: "Price outlier",
+  unit_mismatch: "Unit mismatch",
+  duplicate: "Duplicate",
+  burst: "Burst",
+};
+
+function unitPrice(point: PricingDataPoint): string {
+  const quantity = Number(point.quantity);
+  return quantity > 0 ? `$${(Number(point.fmvPrice) / quantity).toFixed(2)}` : "-";
+}
+
+export function PricingReviewTab() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<PricingDataStatus>("held");
+  const [source, setSource] = useState("");
+  const [sessionId, setSessionId] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [purgeOpen, setPurgeOpen] = useState(false);
+
+  const { data, isLoading } = useQuery<ReviewQueue>({
+    queryKey: ["/api/admin/pricing-review", status, source, sessionId],
+    queryFn: async () => {
+      const params = new URLSearchParams({ status });
+      if (source.trim()) params.append("source", source.trim());
+      if (sessionId.trim()) params.append("sessionId", sessionId.trim());
+      const res = await fetch(`/api/admin/pricing-review?${params.toString()}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch pricing review queue");
+      return res.json();
+    },
+  });
+  const points = data?.points || [];
+
+  const invalidate = () => {
+    setSelected(new Set());
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/pricing-review"] });
+  };
+
+  const decisionMutation = useMutation({
+    mutationFn: async (decision: "approve" | "reject") => {
+      const res = await apiRequest("POST", "/api/admin/pricing-review/decision", { ids: Array.from(selected), decision });
+      return res.json();
+    },
+    onSuccess: (result: { updated: number }, decision) => {
+      invalidate();
+      toast({
+        title: decision === "approve" ? "Points Approved" : "Points Rejected",
+        description: `${result.updated} pricing data point${result.updated === 1 ? "" : "s"} updated`,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update pricing data", variant: "destructive" });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/pricing-review/purge", {
+        ...(source.trim() && { source: source.trim() }),
+        ...(sessionId.trim() && { sessionId: sessionId.trim() }),
+      });
+      return res.json();
+    },
+    onSuccess: (result: { deleted: number }) => {
+      invalidate();
+      setPurgeOpen(false);
+      toast({ title: "Pricing Data Purged", description: `${result.deleted} pricing data points deleted` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to purge pricing data", variant: "destructive" });
+    },
+  });
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id); else next.delete(id);
+      return next;
+    });
+  };
+  const allSelected = points.length > 0 && points.every(point => selected.has(point.id));
+  const canPurge = !!(source.trim() || sessionId.trim());
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Pricing Data Review
+        </CardTitle>
+        <CardDescription>
+          User-submitted prices are held here when they fail the outlier, unit, duplicate or burst checks.
+          Only accepted points feed market prices.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={(value) => { setStatus(value as PricingDataStatus); setSelected(new Set()); }}>
+              <SelectTrigger className="w-44" data-testid="select-pricing-review-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(STATUS_LABELS) as PricingDataStatus[]).map(value => (
+                  <SelectItem key={value} value={value}>
+                    {STATUS_LABELS[value]} ({data?.counts[value] ?? 0})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pricing-review-source">Source</Label>
+            <Input id="pricing-review-source" value={source} onChange={(e) => setSource(e.target.value)} placeholder="user_upload" data-testid="input-pricing-review-source" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pricing-review-session">Session ID</Label>
+            <Input id="pricing-review-session" value={sessionId} onChange={(e) => setSessionId(e.target.value)} className="font-mono" data-testid="input-pricing-review-session" />
+          </div>
+          <div className="flex gap-2 ml-auto">
+            <Button
+              variant="outline"
+              onClick={() => decisionMutation.mutate("approve")}
+              disabled={selected.size === 0 || decisionMutation.isPending}
+              data-testid="button-pricing-review-approve"
+            >
+              <CheckCircle2 className="h-4 w-4 mr-2" />
+              Approve ({selected.size})
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => decisionMutation.mutate("reject")}
+              disabled={selected.size === 0 || decisionMutation.isPending}
+              data-testid="button-pricing-review-reject"
+            >
+              <XCircle className="h-4 w-4 mr-2" />
+              Reject ({selected.size})
+            </Button>
+            <Button variant="destructive" onClick={() => setPurgeOpen(true)} disabled={!canPurge} data-testid="button-pricing-review-purge">
+              <Trash2 className="h-4 w-4 mr-2" />
+              Purge
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-center text-slate-400">Loading pricing data...</p>
+        ) : points.length === 0 ? (
+          <p className="text-center text-slate-400">No {STATUS_LABELS[status].toLowerCase()} pricing data points</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) => setSelected(checked ? new Set(points.map(point => point.id)) : new Set())}
+                    data-testid="checkbox-pricing-review-all"
+                  />
+                </TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead>Unit Price</TableHead>
+                <TableHead>ZIP</TableHead>
+                <TableHead>Flags</TableHead>
+                <TableHead>Source / Session</TableHead>
+                <TableHead>Submitted</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {points.map((point) => (
+                <TableRow key={point.id} data-testid={`row-pricing-point-${point.id}`}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selected.has(point.id)}
+                      onCheckedChange={(checked) => toggle(point.id, checked === true)}
+                      data-testid={`checkbox-pricing-point-${point.id}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <p className="font-medium">{point.category}</p>
+                    <p className="text-xs text-slate-500">{Number(point.quantity)} {point.unit}</p>
+                  </TableCell>
+                  <TableCell className="font-mono">{unitPrice(point)}</TableCell>
+                  <TableCell>{point.zipCode || point.zipPrefix || "-"}</TableCell>
+                  <TableCell>
+                    <div className="space-y-1">
+                      {(point.moderationFlags || []).map((flag, i) => (
+                        <div key={i}>
+                          <Badge variant="outline">{CHECK_LABELS[flag.check] || flag.check}</Badge>
+                          <p className="text-xs text-slate-500">{flag.message}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <button type="button" className="text-xs underline" onClick={() => setSource(point.source || "")}>
+                      {point.source || "-"}
+                    </button>
+                    {point.sessionId && (
+                      <button type="button" className="block font-mono text-xs text-slate-500 underline" onClick={() => setSessionId(point.sessionId!)}>
+                        {point.sessionId.slice(0, 8)}
+                      </button>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">{new Date(point.createdAt).toLocaleString()}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={purgeOpen} onOpenChange={setPurgeOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Purge Pricing Data</DialogTitle>
+            <DialogDescription>
+              Permanently delete every pricing data point, whatever its status,
+              {source.trim() && <> from source <span className="font-mono">{source.trim()}</span></>}
+              {source.trim() && sessionId.trim() && " and"}
+              {sessionId.trim() && <> from session <span className="font-mono">{sessionId.trim()}</span></>}.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPurgeOpen(false)}>Cancel</Button>
+            <Button variant="destructive" onClick={() => purgeMutation.mutate()} disabled={purgeMutation.isPending} data-testid="button-confirm-pricing-purge">
+              {purgeMutation.isPending ? "Purging..." : "Purge"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
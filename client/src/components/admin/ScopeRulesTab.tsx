@@ -0,0 +1,320 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { ListChecks, Pencil, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface ScopeRule {
+  id: string;
+  name: string;
+  trade: string;
+  triggerCodes: string[];
+  requiredCodes: string[];
+  requiredDescription: string;
+  quantityMode: "ratio" | "fixed";
+  quantityFactor: string | number; // numeric columns arrive as strings
+  unit: string;
+  unitPrice: string | number | null;
+  rationale: string | null;
+  priority: number;
+  isActive: number; // 1 or 0 from database
+}
+
+interface RuleForm {
+  name: string;
+  trade: string;
+  triggerCodes: string;
+  requiredCodes: string;
+  requiredDescription: string;
+  quantityMode: "ratio" | "fixed";
+  quantityFactor: string;
+  unit: string;
+  unitPrice: string;
+  rationale: string;
+  priority: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: "",
+  trade: "",
+  triggerCodes: "",
+  requiredCodes: "",
+  requiredDescription: "",
+  quantityMode: "ratio",
+  quantityFactor: "1",
+  unit: "EA",
+  unitPrice: "",
+  rationale: "",
+  priority: "100",
+};
+
+const splitCodes = (value: string) =>
+  value.split(",").map(code => code.trim().toUpperCase()).filter(Boolean);
+
+export function ScopeRulesTab() {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+
+  const { data, isLoading } = useQuery<{ rules: ScopeRule[]; total: number }>({
+    queryKey: ["/api/admin/scope-rules"],
+  });
+  const rules = data?.rules || [];
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/admin/scope-rules"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name,
+        trade: form.trade.toLowerCase(),
+        triggerCodes: splitCodes(form.triggerCodes),
+        requiredCodes: splitCodes(form.requiredCodes),
+        requiredDescription: form.requiredDescription,
+        quantityMode: form.quantityMode,
+        quantityFactor: Number(form.quantityFactor),
+        unit: form.unit.toUpperCase(),
+        unitPrice: form.unitPrice ? Number(form.unitPrice) : null,
+        rationale: form.rationale || null,
+        priority: Number(form.priority) || 100,
+      };
+      return editingId
+        ? apiRequest("PATCH", `/api/admin/scope-rules/${editingId}`, body)
+        : apiRequest("POST", "/api/admin/scope-rules", body);
+    },
+    onSuccess: () => {
+      invalidate();
+      setDialogOpen(false);
+      toast({ title: "Rule Saved", description: "Scope dependency rule has been saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save rule", variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return apiRequest("PATCH", `/api/admin/scope-rules/${id}`, { isActive });
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update rule", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/admin/scope-rules/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Rule Deleted", description: "Scope dependency rule has been removed" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete rule", variant: "destructive" });
+    },
+  });
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (rule: ScopeRule) => {
+    setEditingId(rule.id);
+    setForm({
+      name: rule.name,
+      trade: rule.trade,
+      triggerCodes: rule.triggerCodes.join(", "),
+      requiredCodes: rule.requiredCodes.join(", "),
+      requiredDescription: rule.requiredDescription,
+      quantityMode: rule.quantityMode,
+      quantityFactor: String(rule.quantityFactor),
+      unit: rule.unit,
+      unitPrice: rule.unitPrice !== null ? String(rule.unitPrice) : "",
+      rationale: rule.rationale || "",
+      priority: String(rule.priority),
+    });
+    setDialogOpen(true);
+  };
+
+  const updateField = (field: keyof RuleForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const describeQuantity = (rule: ScopeRule) =>
+    rule.quantityMode === "fixed"
+      ? `${Number(rule.quantityFactor)} ${rule.unit}`
+      : `${Number(rule.quantityFactor)} ${rule.unit} per trigger unit`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ListChecks className="h-5 w-5" />
+              Scope Dependency Rules
+            </CardTitle>
+            <CardDescription>
+              When a claim carries a trigger item, the required item is reported as missing with an estimated FMV cost
+            </CardDescription>
+          </div>
+          <Button onClick={openCreate} data-testid="button-add-scope-rule">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-center text-slate-400">Loading rules...</p>
+        ) : rules.length === 0 ? (
+          <p className="text-center text-slate-400">No rules stored - built-in defaults are in effect</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Trade</TableHead>
+                <TableHead>Rule</TableHead>
+                <TableHead>Triggers</TableHead>
+                <TableHead>Requires</TableHead>
+                <TableHead>Quantity</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id} data-testid={`row-scope-rule-${rule.id}`}>
+                  <TableCell>
+                    <Badge variant="outline">{rule.trade}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <p className="font-medium">{rule.requiredDescription}</p>
+                    <p className="text-xs text-slate-500">{rule.name}</p>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{rule.triggerCodes.join(", ")}</TableCell>
+                  <TableCell className="font-mono text-xs">{rule.requiredCodes.join(", ")}</TableCell>
+                  <TableCell className="text-sm">
+                    {describeQuantity(rule)}
+                    {rule.unitPrice !== null && (
+                      <span className="block text-xs text-slate-500">@ ${Number(rule.unitPrice).toFixed(2)}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={rule.isActive === 1}
+                      onCheckedChange={(checked) => toggleMutation.mutate({ id: rule.id, isActive: checked })}
+                      data-testid={`switch-scope-rule-${rule.id}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button size="icon" variant="ghost" onClick={() => openEdit(rule)} data-testid={`button-edit-scope-rule-${rule.id}`}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => deleteMutation.mutate(rule.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-scope-rule-${rule.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Scope Rule" : "Add Scope Rule"}</DialogTitle>
+            <DialogDescription>
+              Codes are line-item catalog codes (e.g. RFG 300S) or whole catalog categories (e.g. DRY), comma separated
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="scope-rule-name">Name</Label>
+              <Input id="scope-rule-name" value={form.name} onChange={updateField("name")} data-testid="input-scope-rule-name" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scope-rule-trade">Trade</Label>
+              <Input id="scope-rule-trade" value={form.trade} onChange={updateField("trade")} placeholder="roofing" data-testid="input-scope-rule-trade" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scope-rule-priority">Priority</Label>
+              <Input id="scope-rule-priority" type="number" value={form.priority} onChange={updateField("priority")} data-testid="input-scope-rule-priority" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scope-rule-triggers">Trigger Codes</Label>
+              <Input id="scope-rule-triggers" value={form.triggerCodes} onChange={updateField("triggerCodes")} placeholder="RFG 240, RFG 300S" data-testid="input-scope-rule-triggers" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scope-rule-required">Required Codes (any)</Label>
+              <Input id="scope-rule-required" value={form.requiredCodes} onChange={updateField("requiredCodes")} placeholder="RFG DRIP" data-testid="input-scope-rule-required" />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="scope-rule-description">Missing Item Description</Label>
+              <Input id="scope-rule-description" value={form.requiredDescription} onChange={updateField("requiredDescription")} data-testid="input-scope-rule-description" />
+            </div>
+            <div className="space-y-2">
+              <Label>Quantity Mode</Label>
+              <Select value={form.quantityMode} onValueChange={(value) => setForm(prev => ({ ...prev, quantityMode: value as RuleForm["quantityMode"] }))}>
+                <SelectTrigger data-testid="select-scope-rule-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ratio">Per trigger unit</SelectItem>
+                  <SelectItem value="fixed">Fixed quantity</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="scope-rule-factor">Quantity</Label>
+                <Input id="scope-rule-factor" type="number" step="0.01" value={form.quantityFactor} onChange={updateField("quantityFactor")} data-testid="input-scope-rule-factor" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="scope-rule-unit">Unit</Label>
+                <Input id="scope-rule-unit" value={form.unit} onChange={updateField("unit")} data-testid="input-scope-rule-unit" />
+              </div>
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="scope-rule-price">Unit Price Override</Label>
+              <Input id="scope-rule-price" type="number" step="0.01" value={form.unitPrice} onChange={updateField("unitPrice")} placeholder="Blank uses catalog FMV" data-testid="input-scope-rule-price" />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="scope-rule-rationale">Rationale</Label>
+              <Textarea id="scope-rule-rationale" value={form.rationale} onChange={updateField("rationale")} rows={3} data-testid="input-scope-rule-rationale" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-scope-rule">
+              {saveMutation.isPending ? "Saving..." : "Save Rule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { FileSignature, Pencil, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface SupplementTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  subject: string;
+  body: string;
+  placeholders: string[] | null;
+  isDefault: number; // 1 or 0 from database
+  isActive: number;
+}
+
+interface TemplateForm {
+  name: string;
+  description: string;
+  subject: string;
+  body: string;
+  isDefault: boolean;
+}
+
+const EMPTY_FORM: TemplateForm = {
+  name: "",
+  description: "",
+  subject: "Supplement Request - Claim [CLAIM_NUMBER]",
+  body: "Dear [ADJUSTER_NAME],\n\n[DISPUTED_ITEMS]\n\n[MISSING_ITEMS]\n\nSincerely,\n\n[YOUR_NAME]",
+  isDefault: false,
+};
+
+export function SupplementTemplatesTab() {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+
+  const { data, isLoading } = useQuery<{ templates: SupplementTemplate[]; total: number }>({
+    queryKey: ["/api/admin/supplement-templates"],
+  });
+  const templates = data?.templates || [];
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/admin/supplement-templates"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name,
+        description: form.description || null,
+        subject: form.subject,
+        body: form.body,
+        isDefault: form.isDefault,
+      };
+      return editingId
+        ? apiRequest("PATCH", `/api/admin/supplement-templates/${editingId}`, body)
+        : apiRequest("POST", "/api/admin/supplement-templates", body);
+    },
+    onSuccess: () => {
+      invalidate();
+      setDialogOpen(false);
+      toast({ title: "Template Saved", description: "Supplement letter template has been saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save template", variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return apiRequest("PATCH", `/api/admin/supplement-templates/${id}`, { isActive });
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update template", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/admin/supplement-templates/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Template Deleted", description: "Supplement letter template has been removed" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete template", variant: "destructive" });
+    },
+  });
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (template: SupplementTemplate) => {
+    setEditingId(template.id);
+    setForm({
+      name: template.name,
+      description: template.description || "",
+      subject: template.subject,
+      body: template.body,
+      isDefault: template.isDefault === 1,
+    });
+    setDialogOpen(true);
+  };
+
+  const updateField = (field: keyof TemplateForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileSignature className="h-5 w-5" />
+              Supplement Letter Templates
+            </CardTitle>
+            <CardDescription>
+              Wording for the supplement request letters users download after an audit
+            </CardDescription>
+          </div>
+          <Button onClick={openCreate} data-testid="button-add-supplement-template">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Template
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-center text-slate-400">Loading templates...</p>
+        ) : templates.length === 0 ? (
+          <p className="text-center text-slate-400">No templates stored - the built-in letter is used</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Template</TableHead>
+                <TableHead>Subject</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.map((template) => (
+                <TableRow key={template.id} data-testid={`row-supplement-template-${template.id}`}>
+                  <TableCell>
+                    <p className="font-medium flex items-center gap-2">
+                      {template.name}
+                      {template.isDefault === 1 && <Badge variant="outline">Default</Badge>}
+                    </p>
+                    {template.description && <p className="text-xs text-slate-500">{template.description}</p>}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{template.subject}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={template.isActive === 1}
+                      onCheckedChange={(checked) => toggleMutation.mutate({ id: template.id, isActive: checked })}
+                      data-testid={`switch-supplement-template-${template.id}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button size="icon" variant="ghost" onClick={() => openEdit(template)} data-testid={`button-edit-supplement-template-${template.id}`}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => deleteMutation.mutate(template.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-supplement-template-${template.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Supplement Template" : "Add Supplement Template"}</DialogTitle>
+            <DialogDescription>
+              Use [CLAIM_NUMBER], [LOSS_DATE], [CARRIER], [ADJUSTER_NAME], [TOTAL_REQUESTED] and similar placeholders.
+              A paragraph holding only [DISPUTED_ITEMS], [MISSING_ITEMS] or [PRICING_SOURCES] becomes that table.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplement-template-name">Name</Label>
+              <Input id="supplement-template-name" value={form.name} onChange={updateField("name")} data-testid="input-supplement-template-name" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplement-template-description">Description</Label>
+              <Input id="supplement-template-description" value={form.description} onChange={updateField("description")} data-testid="input-supplement-template-description" />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="supplement-template-subject">Subject</Label>
+              <Input id="supplement-template-subject" value={form.subject} onChange={updateField("subject")} data-testid="input-supplement-template-subject" />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="supplement-template-body">Body</Label>
+              <Textarea
+                id="supplement-template-body"
+                value={form.body}
+                onChange={updateField("body")}
+                rows={14}
+                className="font-mono text-sm"
+                data-testid="input-supplement-template-body"
+              />
+            </div>
+            <div className="flex items-center gap-2 col-span-2">
+              <Switch
+                id="supplement-template-default"
+                checked={form.isDefault}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, isDefault: checked }))}
+                data-testid="switch-supplement-template-default"
+              />
+              <Label htmlFor="supplement-template-default">Use when the user does not pick a template</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-supplement-template">
+              {saveMutation.isPending ? "Saving..." : "Save Template"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
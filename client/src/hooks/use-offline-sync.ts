@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from "react";
+import { getOutboxSnapshot, subscribeOutbox, type OutboxSnapshot } from "@/lib/offlineQueue";
+
+export function useOfflineSync(): OutboxSnapshot {
+  return useSyncExternalStore(subscribeOutbox, getOutboxSnapshot);
+}
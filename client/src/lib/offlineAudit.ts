@@ -0,0 +1,72 @@
+/**
+ * Claim analysis with an offline fallback
+ *
+ * Online, the wizard uses /api/claims/analyze. Without a connection the v1
+ * basic rules engine runs in the browser instead (it is bundled with the app
+ * shell, so the service worker has it cached), and the result is queued as a
+ * claim submission plus a calculation_complete event for the outbox to sync.
+ */
+
+import { apiRequest } from "@/lib/queryClient";
+import { ensureSessionId, isOfflineError, queueClaimSubmission, queueSessionEvent, type ClaimSubmission } from "@/lib/offlineQueue";
+import {
+  analyzeClaimOffline,
+  type OfflineAnalysisRequest,
+  type OfflineAnalysisResponse,
+} from "../../../server/services/claimAudit/offlineAnalysis";
+
+export type { OfflineAnalysisRequest as ClaimAnalysisRequest };
+
+const CLAIM_UNITS = ["LF", "SF", "SQ", "CT", "EA"] as const;
+
+export function isOfflineAnalysis(result: unknown): result is OfflineAnalysisResponse {
+  return typeof result === "object" && result !== null && (result as { offline?: unknown }).offline === true;
+}
+
+/**
+ * Analyze on the server, or in the browser when the request can't reach it
+ */
+export async function analyzeClaim<T>(request: OfflineAnalysisRequest): Promise<T | OfflineAnalysisResponse> {
+  if (navigator.onLine) {
+    try {
+      const response = await apiRequest("POST", "/api/claims/analyze", request);
+      return await response.json() as T;
+    } catch (error) {
+      if (!isOfflineError(error)) throw error;
+    }
+  }
+  return analyzeClaimOffline(request);
+}
+
+/**
+ * Queue an offline result for /api/claims so the analysis is recorded once
+ * the connection returns
+ */
+export async function queueOfflineClaim(result: OfflineAnalysisResponse): Promise<void> {
+  const sessionId = await ensureSessionId({ zipCode: result.zipCode });
+  const submission: ClaimSubmission = {
+    sessionId,
+    status: "completed",
+    totalQuoted: result.summary.totalInsuranceOffer,
+    totalFmv: result.summary.totalFMV,
+    additionalAmount: result.summary.totalAdditional,
+    variancePct: result.summary.overallIncrease,
+    lineItems: result.items.map(item => ({
+      category: item.category,
+      description: item.description,
+      quantity: item.quantity,
+      unit: CLAIM_UNITS.find(unit => unit === item.unit) ?? "EA",
+      quotedPrice: item.insuranceOffer,
+      fmvPrice: item.fmvPrice,
+      variancePct: item.percentageIncrease,
+    })),
+  };
+
+  await queueClaimSubmission(submission);
+  await queueSessionEvent("calculation_complete", {
+    offline: true,
+    engine: result.engine,
+    itemCount: result.items.length,
+    totalAdditional: result.summary.totalAdditional,
+  });
+}
@@ -0,0 +1,382 @@
+/**
+ * Offline outbox
+ *
+ * Claim submissions, session events and photo uploads made without a
+ * connection are stored in IndexedDB and replayed in order when the browser
+ * comes back online (or the service worker fires a background sync).
+ * Sessions started offline get a "local-" id; once the session itself has
+ * synced, queued items are rewritten to the server's id. Items the server
+ * turns away are kept with the reason so the user can resubmit or discard
+ * them - see classifySyncResponse() for how responses are treated.
+ */
+
+import { queryClient } from "@/lib/queryClient";
+import { classifySyncResponse, isLocalSessionId, syncRetryDelayMs, LOCAL_SESSION_PREFIX } from "@shared/offlineSync";
+
+export type SessionEventType =
+  | "session_start"
+  | "page_view"
+  | "form_submit"
+  | "button_click"
+  | "file_upload"
+  | "calculation_complete"
+  | "export_pdf"
+  | "export_email";
+
+export interface ClaimSubmission {
+  sessionId: string;
+  totalQuoted: number;
+  totalFmv: number;
+  additionalAmount: number;
+  variancePct: number;
+  status?: "in_progress" | "completed" | "abandoned";
+  lineItems: Array<{
+    category: string;
+    description: string;
+    quantity: number;
+    unit: "LF" | "SF" | "SQ" | "CT" | "EA";
+    quotedPrice: number;
+    fmvPrice: number;
+    variancePct: number;
+  }>;
+}
+
+interface SessionDetails {
+  zipCode?: string;
+  locale?: string;
+}
+
+interface OutboxBase {
+  id: string;                 // Also sent to the server as the replay id
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  state: "pending" | "conflict" | "rejected";
+  error?: string;
+}
+
+export type OutboxItem = OutboxBase & (
+  | { kind: "session"; localSessionId: string; body: SessionDetails }
+  | { kind: "claim"; body: ClaimSubmission }
+  | { kind: "event"; sessionId: string; body: { eventType: SessionEventType; payload?: unknown; occurredAt: string } }
+  | { kind: "photo"; userClaimId: string; fields: Record<string, string>; photo: Blob; photoName: string; thumbnail: Blob | null }
+);
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+type NewOutboxItem = DistributiveOmit<OutboxItem, keyof OutboxBase>;
+
+export interface OutboxSnapshot {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  attention: OutboxItem[];    // Conflicts and rejections waiting on the user
+}
+
+const DB_NAME = "maxclaim-offline";
+const STORE = "outbox";
+const SESSION_KEY = "maxclaim.sessionId";
+const SYNC_TAG = "maxclaim-outbox";
+
+let snapshot: OutboxSnapshot = { online: typeof navigator === "undefined" || navigator.onLine, syncing: false, pending: 0, attention: [] };
+const listeners = new Set<() => void>();
+let flushing: Promise<void> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+async function listItems(): Promise<OutboxItem[]> {
+  const items = await withStore<OutboxItem[]>("readonly", store => store.getAll());
+  return items.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+function putItem(item: OutboxItem): Promise<IDBValidKey> {
+  return withStore("readwrite", store => store.put(item));
+}
+
+function deleteItem(id: string): Promise<undefined> {
+  return withStore("readwrite", store => store.delete(id));
+}
+
+function emit(next: Partial<OutboxSnapshot>) {
+  snapshot = { ...snapshot, ...next };
+  listeners.forEach(listener => listener());
+}
+
+async function refreshSnapshot() {
+  const items = await listItems();
+  emit({
+    pending: items.filter(item => item.state === "pending").length,
+    attention: items.filter(item => item.state !== "pending"),
+  });
+}
+
+export function subscribeOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getOutboxSnapshot(): OutboxSnapshot {
+  return snapshot;
+}
+
+/**
+ * Whether a fetch failure means "no connection" rather than a server answer
+ */
+export function isOfflineError(error: unknown): boolean {
+  return !navigator.onLine || error instanceof TypeError;
+}
+
+async function enqueue(item: NewOutboxItem): Promise<OutboxItem> {
+  const stored = { ...item, id: crypto.randomUUID(), createdAt: Date.now(), attempts: 0, nextAttemptAt: 0, state: "pending" } as OutboxItem;
+  await putItem(stored);
+  await refreshSnapshot();
+  requestBackgroundSync();
+  if (navigator.onLine) void flushOutbox();
+  return stored;
+}
+
+function requestBackgroundSync() {
+  if (!("serviceWorker" in navigator)) return;
+  navigator.serviceWorker.ready
+    .then(registration => (registration as ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }).sync?.register(SYNC_TAG))
+    .catch(() => undefined);
+}
+
+async function createServerSession(details: SessionDetails): Promise<string> {
+  const response = await fetch("/api/sessions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(details),
+    credentials: "include",
+  });
+  if (!response.ok) throw new Error(`Session create failed: ${response.status}`);
+  const session = await response.json();
+  return session.id;
+}
+
+/**
+ * The browser's anonymous session id, creating one (offline: a local
+ * placeholder queued for sync) when there isn't one yet
+ */
+export async function ensureSessionId(details: SessionDetails = {}): Promise<string> {
+  const stored = localStorage.getItem(SESSION_KEY);
+  if (stored) return stored;
+
+  if (navigator.onLine) {
+    try {
+      const sessionId = await createServerSession(details);
+      localStorage.setItem(SESSION_KEY, sessionId);
+      return sessionId;
+    } catch (error) {
+      if (!isOfflineError(error)) throw error;
+    }
+  }
+
+  const localSessionId = `${LOCAL_SESSION_PREFIX}${crypto.randomUUID()}`;
+  localStorage.setItem(SESSION_KEY, localSessionId);
+  await enqueue({ kind: "session", localSessionId, body: details });
+  return localSessionId;
+}
+
+export async function queueClaimSubmission(body: ClaimSubmission): Promise<OutboxItem> {
+  return enqueue({ kind: "claim", body });
+}
+
+export async function queueSessionEvent(eventType: SessionEventType, payload?: unknown): Promise<OutboxItem> {
+  const sessionId = await ensureSessionId();
+  return enqueue({ kind: "event", sessionId, body: { eventType, payload, occurredAt: new Date().toISOString() } });
+}
+
+export async function queuePhotoUpload(userClaimId: string, photo: File, thumbnail: Blob | null, fields: Record<string, string>): Promise<OutboxItem> {
+  return enqueue({ kind: "photo", userClaimId, fields, photo, photoName: photo.name, thumbnail });
+}
+
+// Point every queued item (and the stored session) at the server's session id
+async function remapSession(fromId: string, toId: string) {
+  if (localStorage.getItem(SESSION_KEY) === fromId) {
+    localStorage.setItem(SESSION_KEY, toId);
+  }
+  for (const item of await listItems()) {
+    if (item.kind === "claim" && item.body.sessionId === fromId) {
+      await putItem({ ...item, body: { ...item.body, sessionId: toId } });
+    } else if (item.kind === "event" && item.sessionId === fromId) {
+      await putItem({ ...item, sessionId: toId });
+    }
+  }
+}
+
+function send(item: OutboxItem): Promise<Response> {
+  const json = (url: string, body: unknown) => fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+
+  switch (item.kind) {
+    case "session":
+      return json("/api/sessions", item.body);
+    case "claim":
+      return json("/api/claims", { ...item.body, clientSubmissionId: item.id });
+    case "event":
+      return json(`/api/sessions/${item.sessionId}/events`, { ...item.body, clientEventId: item.id });
+    case "photo": {
+      const formData = new FormData();
+      formData.append("photo", item.photo, item.photoName);
+      if (item.thumbnail) formData.append("thumbnail", item.thumbnail, "thumbnail.jpg");
+      Object.entries(item.fields).forEach(([key, value]) => formData.append(key, value));
+      return fetch(`/api/user/claims/${item.userClaimId}/photos`, { method: "POST", body: formData, credentials: "include" });
+    }
+  }
+}
+
+function sessionIdOf(item: OutboxItem): string | null {
+  if (item.kind === "claim") return item.body.sessionId;
+  if (item.kind === "event") return item.sessionId;
+  return null;
+}
+
+async function syncItem(item: OutboxItem): Promise<"done" | "again" | "stop"> {
+  // Items for a session that hasn't synced yet wait behind it
+  const sessionId = sessionIdOf(item);
+  if (sessionId && isLocalSessionId(sessionId)) return "stop";
+
+  let response: Response;
+  try {
+    response = await send(item);
+  } catch {
+    await putItem({ ...item, attempts: item.attempts + 1, nextAttemptAt: Date.now() + syncRetryDelayMs(item.attempts + 1) });
+    return "stop";
+  }
+
+  const outcome = classifySyncResponse(response.status);
+  const result = await response.json().catch(() => ({}));
+
+  if (outcome === "synced") {
+    await deleteItem(item.id);
+    if (item.kind === "session") await remapSession(item.localSessionId, result.id);
+    if (item.kind === "photo") queryClient.invalidateQueries({ queryKey: ["/api/user/claims", item.userClaimId, "photos"] });
+    return "done";
+  }
+
+  if (outcome === "retry") {
+    await putItem({ ...item, attempts: item.attempts + 1, nextAttemptAt: Date.now() + syncRetryDelayMs(item.attempts + 1) });
+    return "stop";
+  }
+
+  // The server lost the session (expired or cleaned up): start a fresh one
+  // and replay everything queued for the old id against it
+  if (outcome === "conflict" && result.conflict === "session" && sessionId) {
+    const freshId = await createServerSession({});
+    await remapSession(sessionId, freshId);
+    return "again";
+  }
+
+  await putItem({
+    ...item,
+    state: outcome === "conflict" ? "conflict" : "rejected",
+    error: result.error || `Server responded ${response.status}`,
+  });
+  return "done";
+}
+
+async function runFlush() {
+  emit({ syncing: true });
+  try {
+    // Re-read after each item: a synced session rewrites the items behind it
+    const attempted = new Set<string>();
+    const resent = new Set<string>();
+    while (true) {
+      const next = (await listItems()).find(item => item.state === "pending" && !attempted.has(item.id));
+      if (!next || next.nextAttemptAt > Date.now()) break;
+      attempted.add(next.id);
+
+      const step = await syncItem(next);
+      if (step === "stop") break;
+      if (step === "again" && !resent.has(next.id)) {
+        resent.add(next.id);
+        attempted.delete(next.id);
+      }
+    }
+  } finally {
+    emit({ syncing: false });
+    await refreshSnapshot();
+  }
+}
+
+/**
+ * Replay queued work; concurrent calls share one run
+ */
+export function flushOutbox(): Promise<void> {
+  if (!flushing) {
+    flushing = runFlush()
+      .catch(error => console.error("Offline sync failed:", error))
+      .finally(() => { flushing = null; });
+  }
+  return flushing;
+}
+
+/**
+ * Send a conflicted or rejected item again; claims get a new replay id so
+ * they are saved as a new submission rather than matched to the old one
+ */
+export async function retryOutboxItem(id: string): Promise<void> {
+  const item = (await listItems()).find(entry => entry.id === id);
+  if (!item) return;
+  await deleteItem(item.id);
+  await putItem({ ...item, id: item.kind === "claim" ? crypto.randomUUID() : item.id, state: "pending", error: undefined, attempts: 0, nextAttemptAt: 0 });
+  await refreshSnapshot();
+  void flushOutbox();
+}
+
+export async function discardOutboxItem(id: string): Promise<void> {
+  await deleteItem(id);
+  await refreshSnapshot();
+}
+
+/**
+ * Register the service worker and wire up the triggers that drain the outbox
+ */
+export function startOfflineSync() {
+  window.addEventListener("online", () => {
+    emit({ online: true });
+    void flushOutbox();
+  });
+  window.addEventListener("offline", () => emit({ online: false }));
+
+  if ("serviceWorker" in navigator) {
+    navigator.serviceWorker.addEventListener("message", event => {
+      if (event.data?.type === "flush-outbox") void flushOutbox();
+    });
+    if (import.meta.env.PROD) {
+      navigator.serviceWorker.register("/sw.js").catch(error => console.error("Service worker registration failed:", error));
+    }
+  }
+
+  if (!("indexedDB" in window)) return;
+  void refreshSnapshot().then(() => {
+    if (navigator.onLine) void flushOutbox();
+  });
+}
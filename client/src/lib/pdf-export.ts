@@ -1,8 +1,10 @@
 import { jsPDF } from 'jspdf';
+import { groupItemsByRoom } from '@shared/roomGeometry';
 
 interface ItemResult {
   category: string;
   description: string;
+  room?: string | null;
   quantity: number;
   insuranceOffer: number;
   fmvPrice: number;
@@ -11,6 +13,29 @@ interface ItemResult {
   status: 'underpaid' | 'fair';
 }
 
+interface DepreciationSummary {
+  totalRcv: number;
+  totalAcv: number;
+  totalDepreciation: number;
+  recoverableDepreciation: number;
+  nonRecoverableDepreciation: number;
+  excessiveDepreciation: number;
+  deductible: number;
+  netActualCashPayment: number;
+}
+
+interface CodeUpgradeSummary {
+  jurisdiction: string;
+  items: Array<{
+    upgradeDescription: string;
+    quantity: number;
+    unit: string;
+    estimatedCost: number;
+    citation: string;
+  }>;
+  totalEstimatedCost: number;
+}
+
 interface RegionalContext {
   femaClaimCount: number;
   avgFEMAPayment: number;
@@ -27,6 +52,8 @@ interface AnalysisResponse {
     totalAdditional: number;
     overallIncrease: number;
   };
+  depreciationSummary?: DepreciationSummary | null;
+  codeUpgrades?: CodeUpgradeSummary | null;
   regionalContext?: RegionalContext;
 }
 
@@ -87,7 +114,20 @@ export function exportResultsToPDF(results: AnalysisResponse): void {
   addText('ITEMIZED BREAKDOWN', margin, 14, 'bold');
   yPos += 2;
 
-  results.items.forEach((item, index) => {
+  // Scope builder items are listed under their room
+  const roomGroups = groupItemsByRoom(results.items);
+  const groupedByRoom = roomGroups.some(group => group.room !== null);
+
+  roomGroups.forEach(group => group.items.forEach(({ item, index }, groupIndex) => {
+    if (groupedByRoom && groupIndex === 0) {
+      if (yPos > 240) {
+        doc.addPage();
+        yPos = 20;
+      }
+      yPos += 2;
+      addText((group.room ?? 'Other items').toUpperCase(), margin, 12, 'bold');
+    }
+
     // Check if we need a new page for this item
     if (yPos > 250) {
       doc.addPage();
@@ -101,11 +141,54 @@ export function exportResultsToPDF(results: AnalysisResponse): void {
     addText(`  Additional Amount: $${item.additionalAmount.toLocaleString('en-US', { minimumFractionDigits: 2 })} (+${item.percentageIncrease.toFixed(1)}%)`, margin + 5, 9);
     addText(`  Status: ${item.status === 'underpaid' ? 'UNDERPAID' : 'Fair Offer'}`, margin + 5, 9, item.status === 'underpaid' ? 'bold' : 'normal');
     yPos += 2;
-  });
+  }));
 
   yPos += 3;
   addLine();
 
+  // Recoverable Depreciation (if the estimate carried RCV/ACV detail)
+  if (results.depreciationSummary) {
+    const dep = results.depreciationSummary;
+    const fmt = (amount: number) => `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}`;
+
+    addText('RECOVERABLE DEPRECIATION YOU CAN STILL CLAIM', margin, 14, 'bold');
+    yPos += 2;
+    addText(`Recoverable Depreciation: ${fmt(dep.recoverableDepreciation)}`, margin, 11, 'bold');
+    addText(`  Replacement Cost Value (RCV): ${fmt(dep.totalRcv)}`, margin + 5, 9);
+    addText(`  Total Depreciation: ${fmt(dep.totalDepreciation)}`, margin + 5, 9);
+    addText(`  Actual Cash Value (ACV): ${fmt(dep.totalAcv)}`, margin + 5, 9);
+    addText(`  Deductible: ${fmt(dep.deductible)}`, margin + 5, 9);
+    addText(`  Net Actual Cash Payment: ${fmt(dep.netActualCashPayment)}`, margin + 5, 9);
+    if (dep.nonRecoverableDepreciation > 0) {
+      addText(`  Non-Recoverable Depreciation: ${fmt(dep.nonRecoverableDepreciation)}`, margin + 5, 9);
+    }
+    if (dep.excessiveDepreciation > 0) {
+      addText(`  Excessive Depreciation to Dispute: ${fmt(dep.excessiveDepreciation)}`, margin + 5, 9, 'bold');
+    }
+    addText('Submit proof of completed repairs to the carrier to release the recoverable holdback.', margin, 9);
+
+    yPos += 3;
+    addLine();
+  }
+
+  // Building code upgrades owed under Ordinance & Law coverage
+  if (results.codeUpgrades) {
+    const upgrades = results.codeUpgrades;
+    const fmt = (amount: number) => `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}`;
+
+    addText('CODE UPGRADES (ORDINANCE & LAW)', margin, 14, 'bold');
+    yPos += 2;
+    addText(`${upgrades.jurisdiction}: ${fmt(upgrades.totalEstimatedCost)}`, margin, 11, 'bold');
+    upgrades.items.forEach(item => {
+      addText(`  ${item.upgradeDescription} - ${item.quantity} ${item.unit}: ${fmt(item.estimatedCost)}`, margin + 5, 9);
+      addText(`    ${item.citation}`, margin + 5, 8);
+    });
+    addText('Request a code letter from the local building department to support these upgrades.', margin, 9);
+
+    yPos += 3;
+    addLine();
+  }
+
   // Regional Context (if available)
   if (results.regionalContext) {
     addText('REGIONAL INSURANCE DATA', margin, 14, 'bold');
@@ -1,5 +1,8 @@
 import { createRoot } from "react-dom/client";
 import App from "./App";
+import { startOfflineSync } from "./lib/offlineQueue";
 import "./index.css";
 
+startOfflineSync();
+
 createRoot(document.getElementById("root")!).render(<App />);
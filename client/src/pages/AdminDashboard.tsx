@@ -13,9 +13,14 @@ import {
   CheckCircle2, XCircle, Clock, Building2, Mail, Phone, MapPin, 
   Users, DollarSign, FileText, CreditCard, TrendingUp, LayoutDashboard,
   UserPlus, Briefcase, Calendar, Award, Globe, Copy, ExternalLink,
-  Library, FileEdit, Activity, RefreshCw, Server, Database, Zap, HardDrive, Trash2
+  Library, FileEdit, Activity, RefreshCw, Server, Database, Zap, HardDrive, Trash2, ListChecks, FileSignature, ShieldAlert, LineChart, CloudLightning
 } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
+import { ScopeRulesTab } from "@/components/admin/ScopeRulesTab";
+import { SupplementTemplatesTab } from "@/components/admin/SupplementTemplatesTab";
+import { PricingReviewTab } from "@/components/admin/PricingReviewTab";
+import { PriceHistoryTab } from "@/components/admin/PriceHistoryTab";
+import { CatastropheEventsTab } from "@/components/admin/CatastropheEventsTab";
 
 interface Partner {
   id: number;
@@ -674,6 +679,26 @@ export default function AdminDashboard() {
               <FileEdit className="h-4 w-4 mr-2" />
               Templates
             </TabsTrigger>
+            <TabsTrigger value="scope-rules" data-testid="tab-scope-rules">
+              <ListChecks className="h-4 w-4 mr-2" />
+              Scope Rules
+            </TabsTrigger>
+            <TabsTrigger value="supplement-templates" data-testid="tab-supplement-templates">
+              <FileSignature className="h-4 w-4 mr-2" />
+              Supplement Letters
+            </TabsTrigger>
+            <TabsTrigger value="pricing-review" data-testid="tab-pricing-review">
+              <ShieldAlert className="h-4 w-4 mr-2" />
+              Pricing Review
+            </TabsTrigger>
+            <TabsTrigger value="price-history" data-testid="tab-price-history">
+              <LineChart className="h-4 w-4 mr-2" />
+              Price History
+            </TabsTrigger>
+            <TabsTrigger value="demand-surge" data-testid="tab-demand-surge">
+              <CloudLightning className="h-4 w-4 mr-2" />
+              Demand Surge
+            </TabsTrigger>
             <TabsTrigger value="metrics" data-testid="tab-metrics">
               <Activity className="h-4 w-4 mr-2" />
               Metrics
@@ -1680,6 +1705,26 @@ export default function AdminDashboard() {
             )}
           </TabsContent>
 
+          <TabsContent value="scope-rules">
+            <ScopeRulesTab />
+          </TabsContent>
+
+          <TabsContent value="supplement-templates">
+            <SupplementTemplatesTab />
+          </TabsContent>
+
+          <TabsContent value="pricing-review">
+            <PricingReviewTab />
+          </TabsContent>
+
+          <TabsContent value="price-history">
+            <PriceHistoryTab />
+          </TabsContent>
+
+          <TabsContent value="demand-surge">
+            <CatastropheEventsTab />
+          </TabsContent>
+
           <TabsContent value="metrics">
             <div className="space-y-6">
               <div className="flex items-center justify-between">
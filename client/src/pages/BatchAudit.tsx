@@ -0,0 +1,336 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Download, FileSpreadsheet, Loader2, Play, Upload } from "lucide-react";
+
+type MappingField = "description" | "quantity" | "unit" | "price" | "zipCode";
+
+type ColumnMapping = Record<MappingField, number | null> & { priceIsTotal: boolean };
+
+interface SpreadsheetPreview {
+  fileName: string;
+  format: "csv" | "xlsx";
+  headers: string[];
+  sampleRows: string[][];
+  rowCount: number;
+  suggestedMapping: ColumnMapping;
+}
+
+interface BatchJobStatus {
+  batchId: string;
+  status: "queued" | "processing" | "completed" | "failed";
+  itemCount: number;
+  processedCount: number;
+  error: string | null;
+  results: {
+    totalClaimValue: number;
+    totalFmvValue: number;
+    totalUnderpaymentOpportunity: number;
+    lowItems: number;
+  } | null;
+}
+
+const MAPPING_FIELDS: Array<{ field: MappingField; label: string; required: boolean }> = [
+  { field: "description", label: "Description", required: true },
+  { field: "quantity", label: "Quantity", required: false },
+  { field: "unit", label: "Unit", required: false },
+  { field: "price", label: "Price", required: true },
+  { field: "zipCode", label: "ZIP code", required: false },
+];
+
+const UNMAPPED = "none";
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+async function readError(response: Response, fallback: string): Promise<never> {
+  const result = await response.json().catch(() => ({}));
+  throw new Error(result.details || result.error || fallback);
+}
+
+export default function BatchAudit() {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<SpreadsheetPreview | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [zipCode, setZipCode] = useState("");
+  const [batch, setBatch] = useState<{ batchId: string; skipped: number } | null>(null);
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const uploadForm = () => {
+    const formData = new FormData();
+    formData.append("spreadsheet", file!);
+    return formData;
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (): Promise<SpreadsheetPreview> => {
+      const response = await fetch("/api/batch-audit/spreadsheet/preview", {
+        method: "POST",
+        body: uploadForm(),
+        credentials: "include",
+      });
+      if (!response.ok) await readError(response, "Could not read spreadsheet");
+      return response.json();
+    },
+    onSuccess: (result) => {
+      setPreview(result);
+      setMapping(result.suggestedMapping);
+      setBatch(null);
+    },
+    onError,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const formData = uploadForm();
+      formData.append("mapping", JSON.stringify(mapping));
+      if (zipCode) formData.append("zipCode", zipCode);
+
+      const response = await fetch("/api/batch-audit/spreadsheet", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) await readError(response, "Could not start batch audit");
+      return response.json();
+    },
+    onSuccess: (result: { batchId: string; skipped: unknown[] }) => {
+      setBatch({ batchId: result.batchId, skipped: result.skipped.length });
+    },
+    onError,
+  });
+
+  const { data: job } = useQuery<BatchJobStatus>({
+    queryKey: ["/api/batch-audit", batch?.batchId],
+    enabled: !!batch,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "completed" || status === "failed" ? false : 2000;
+    },
+  });
+
+  const setColumn = (field: MappingField, value: string) => {
+    setMapping({ ...mapping!, [field]: value === UNMAPPED ? null : parseInt(value, 10) });
+  };
+
+  const canSubmit = !!file && mapping?.description != null && mapping?.price != null
+    && (zipCode === "" || /^\d{5}$/.test(zipCode));
+  const progress = job && job.itemCount > 0 ? Math.round((job.processedCount / job.itemCount) * 100) : 0;
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Card className="max-w-md">
+          <CardContent className="py-8 text-center space-y-4">
+            <p className="text-muted-foreground">Sign in to audit spreadsheets of line items.</p>
+            <Link href="/signin">
+              <Button data-testid="button-signin">Sign In</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-6xl space-y-6">
+        <Link href="/my-claims">
+          <Button variant="ghost" size="sm" data-testid="link-back-my-claims">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to My Claims
+          </Button>
+        </Link>
+
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2" data-testid="text-page-title">
+            <FileSpreadsheet className="h-7 w-7" />
+            Batch Audit
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Upload a CSV or XLSX of line items, match its columns, and download the same sheet with fair market value, variance and flags added to every row.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Spreadsheet</CardTitle>
+            <CardDescription>The first row should hold column headers. Up to 2,000 rows per file.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-3 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="batch-file">File</Label>
+                <Input
+                  id="batch-file"
+                  type="file"
+                  accept=".csv,.xlsx"
+                  onChange={(e) => {
+                    setFile(e.target.files?.[0] ?? null);
+                    setPreview(null);
+                    setMapping(null);
+                    setBatch(null);
+                  }}
+                  data-testid="input-batch-file"
+                />
+              </div>
+              <Button onClick={() => previewMutation.mutate()} disabled={!file || previewMutation.isPending} data-testid="button-read-spreadsheet">
+                {previewMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                Read columns
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {preview && mapping && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Match columns</CardTitle>
+              <CardDescription>
+                {preview.fileName} - {preview.rowCount} rows. Description and price are required; rows without a quantity count as 1.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                {MAPPING_FIELDS.map(({ field, label, required }) => (
+                  <div key={field} className="space-y-2">
+                    <Label htmlFor={`mapping-${field}`}>{label}{required && " *"}</Label>
+                    <Select value={mapping[field] === null ? UNMAPPED : String(mapping[field])} onValueChange={(value) => setColumn(field, value)}>
+                      <SelectTrigger id={`mapping-${field}`} data-testid={`select-mapping-${field}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {!required && <SelectItem value={UNMAPPED}>Not in this sheet</SelectItem>}
+                        {preview.headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap items-end gap-6">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="mapping-price-total"
+                    checked={mapping.priceIsTotal}
+                    onCheckedChange={(checked) => setMapping({ ...mapping, priceIsTotal: checked === true })}
+                    data-testid="checkbox-price-is-total"
+                  />
+                  <Label htmlFor="mapping-price-total">Price column is the line total (divide by quantity)</Label>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="batch-zip">ZIP code for rows without one</Label>
+                  <Input
+                    id="batch-zip"
+                    value={zipCode}
+                    maxLength={5}
+                    onChange={(e) => setZipCode(e.target.value.replace(/\D/g, ""))}
+                    className="w-32"
+                    data-testid="input-batch-zip"
+                  />
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {preview.headers.map((header, index) => <TableHead key={index}>{header}</TableHead>)}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.sampleRows.map((row, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {row.map((cell, index) => <TableCell key={index}>{cell}</TableCell>)}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <Button onClick={() => submitMutation.mutate()} disabled={!canSubmit || submitMutation.isPending} data-testid="button-start-batch">
+                {submitMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+                Run audit
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {batch && (
+          <Card data-testid="card-batch-progress">
+            <CardHeader>
+              <CardTitle className="text-lg">Audit progress</CardTitle>
+              <CardDescription>
+                {job ? `${job.processedCount} of ${job.itemCount} rows audited` : "Queued"}
+                {batch.skipped > 0 && ` - ${batch.skipped} rows skipped (see the Flags column in the download)`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Progress value={job?.status === "completed" ? 100 : progress} data-testid="progress-batch" />
+
+              {job?.status === "failed" && (
+                <p className="text-sm text-destructive" data-testid="text-batch-error">{job.error || "The batch audit failed."}</p>
+              )}
+
+              {job?.status === "completed" && (
+                <>
+                  {job.results && (
+                    <p className="text-sm" data-testid="text-batch-summary">
+                      {job.results.lowItems} underpaid rows. Entered {formatCurrency(job.results.totalClaimValue)} vs
+                      FMV {formatCurrency(job.results.totalFmvValue)}:{" "}
+                      <span className="font-medium text-destructive">{formatCurrency(job.results.totalUnderpaymentOpportunity)}</span> underpayment opportunity.
+                    </p>
+                  )}
+                  <div className="flex gap-2">
+                    <Button asChild data-testid="button-download-xlsx">
+                      <a href={`/api/batch-audit/${batch.batchId}/download?format=xlsx`}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Download XLSX
+                      </a>
+                    </Button>
+                    <Button variant="outline" asChild data-testid="button-download-csv">
+                      <a href={`/api/batch-audit/${batch.batchId}/download?format=csv`}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Download CSV
+                      </a>
+                    </Button>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
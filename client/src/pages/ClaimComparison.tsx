@@ -0,0 +1,332 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, FileText, Trash2, Upload, Loader2, GitCompare } from "lucide-react";
+
+type DocumentType = "carrier_estimate" | "contractor_bid" | "supplement";
+
+interface ClaimDocument {
+  id: string;
+  documentType: DocumentType;
+  label: string;
+  fileName: string | null;
+  sequence: number;
+  totalRcv: string | number | null;
+  warnings: string[] | null;
+  createdAt: string;
+}
+
+interface ComparisonCell {
+  documentId: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  total: number;
+}
+
+interface ComparisonIssue {
+  type: "omitted" | "quantity_gap" | "unit_price_gap" | "added_by_supplement" | "not_in_bid";
+  message: string;
+  amount: number;
+}
+
+interface ComparisonRow {
+  description: string;
+  unit: string;
+  cells: Record<string, ComparisonCell | null>;
+  gapAmount: number;
+  issues: ComparisonIssue[];
+}
+
+interface ClaimComparisonResponse {
+  documents: Array<{ id: string; documentType: DocumentType; label: string; lineCount: number; total: number }>;
+  rows: ComparisonRow[];
+  summary: {
+    carrierTotal: number;
+    bidTotal: number;
+    gapTotal: number;
+    omittedCount: number;
+    omittedAmount: number;
+    quantityGapCount: number;
+    quantityGapAmount: number;
+    unitPriceGapCount: number;
+    unitPriceGapAmount: number;
+  };
+}
+
+const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  carrier_estimate: "Carrier Estimate",
+  contractor_bid: "Contractor Bid",
+  supplement: "Supplement",
+};
+
+const ISSUE_LABELS: Record<ComparisonIssue["type"], string> = {
+  omitted: "Omitted",
+  quantity_gap: "Quantity gap",
+  unit_price_gap: "Price gap",
+  added_by_supplement: "Supplemented",
+  not_in_bid: "Not in bid",
+};
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+export default function ClaimComparison() {
+  const { id } = useParams<{ id: string }>();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [documentType, setDocumentType] = useState<DocumentType>("carrier_estimate");
+  const [file, setFile] = useState<File | null>(null);
+
+  const { data: documentsData } = useQuery<{ documents: ClaimDocument[] }>({
+    queryKey: ["/api/user/claims", id, "documents"],
+    enabled: isAuthenticated,
+  });
+  const documents = documentsData?.documents ?? [];
+  const hasCarrierDocument = documents.some(d => d.documentType !== "contractor_bid");
+
+  const { data: comparison, isLoading: comparisonLoading } = useQuery<ClaimComparisonResponse>({
+    queryKey: ["/api/user/claims", id, "comparison"],
+    enabled: isAuthenticated && hasCarrierDocument,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/user/claims", id, "documents"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/claims", id, "comparison"] });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("document", file!);
+      formData.append("documentType", documentType);
+
+      const response = await fetch(`/api/user/claims/${id}/documents`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.details || result.error || "Upload failed");
+      return result;
+    },
+    onSuccess: (result) => {
+      toast({ title: "Document added", description: `${result.lineCount} line items imported` });
+      setFile(null);
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Upload failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (documentId: string) => apiRequest("DELETE", `/api/user/claims/${id}/documents/${documentId}`),
+    onSuccess: invalidate,
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-6xl space-y-6">
+        <Link href="/my-claims">
+          <Button variant="ghost" size="sm" data-testid="link-back-my-claims">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to My Claims
+          </Button>
+        </Link>
+
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2" data-testid="text-page-title">
+            <GitCompare className="h-7 w-7" />
+            Compare Claim Documents
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Upload the carrier estimate, your contractor's bid and any supplements to see what the carrier left out or under-priced.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Documents</CardTitle>
+            <CardDescription>Xactimate/Symbility exports (ESX, XML, CSV) or PDF estimates</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-[200px_1fr_auto] gap-3 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="document-type">Document type</Label>
+                <Select value={documentType} onValueChange={(value) => setDocumentType(value as DocumentType)}>
+                  <SelectTrigger id="document-type" data-testid="select-document-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(DOCUMENT_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="document-file">File</Label>
+                <Input
+                  id="document-file"
+                  type="file"
+                  accept=".esx,.xml,.csv,.pdf"
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                  data-testid="input-document-file"
+                />
+              </div>
+              <Button onClick={() => uploadMutation.mutate()} disabled={!file || uploadMutation.isPending} data-testid="button-upload-document">
+                {uploadMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                Upload
+              </Button>
+            </div>
+
+            {documents.length > 0 && (
+              <ul className="divide-y rounded-md border">
+                {documents.map((document) => (
+                  <li key={document.id} className="flex items-center justify-between gap-4 p-3 text-sm" data-testid={`row-document-${document.id}`}>
+                    <div className="flex items-center gap-2">
+                      <FileText className="h-4 w-4 text-muted-foreground" />
+                      <span className="font-medium">{document.label}</span>
+                      <Badge variant="outline">{DOCUMENT_TYPE_LABELS[document.documentType]}</Badge>
+                      {document.fileName && <span className="text-muted-foreground">{document.fileName}</span>}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      {document.totalRcv !== null && <span>{formatCurrency(Number(document.totalRcv))}</span>}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(document.id)}
+                        data-testid={`button-delete-document-${document.id}`}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {comparisonLoading && <p className="text-muted-foreground">Comparing documents...</p>}
+
+        {comparison && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">Carrier (latest)</p>
+                  <p className="text-2xl font-bold" data-testid="text-carrier-total">{formatCurrency(comparison.summary.carrierTotal)}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">Contractor bid</p>
+                  <p className="text-2xl font-bold" data-testid="text-bid-total">{formatCurrency(comparison.summary.bidTotal)}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">Omitted items ({comparison.summary.omittedCount})</p>
+                  <p className="text-2xl font-bold text-destructive" data-testid="text-omitted-amount">{formatCurrency(comparison.summary.omittedAmount)}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">Quantity / price gaps</p>
+                  <p className="text-2xl font-bold text-amber-600" data-testid="text-gap-amount">
+                    {formatCurrency(comparison.summary.quantityGapAmount + comparison.summary.unitPriceGapAmount)}
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Line-by-line comparison</CardTitle>
+                <CardDescription>Sorted by the largest gap between the carrier and the contractor bid</CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      {comparison.documents.map((document) => (
+                        <TableHead key={document.id} className="text-right">{document.label}</TableHead>
+                      ))}
+                      <TableHead className="text-right">Gap</TableHead>
+                      <TableHead>Issues</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {comparison.rows.map((row, idx) => (
+                      <TableRow key={idx} data-testid={`row-comparison-${idx}`}>
+                        <TableCell className="font-medium">{row.description}</TableCell>
+                        {comparison.documents.map((document) => {
+                          const cell = row.cells[document.id];
+                          return (
+                            <TableCell key={document.id} className="text-right text-sm">
+                              {cell ? (
+                                <>
+                                  <div>{cell.quantity} {row.unit} @ ${cell.unitPrice.toFixed(2)}</div>
+                                  <div className="text-muted-foreground">{formatCurrency(cell.total)}</div>
+                                </>
+                              ) : (
+                                <span className="text-muted-foreground">-</span>
+                              )}
+                            </TableCell>
+                          );
+                        })}
+                        <TableCell className={`text-right font-medium ${row.gapAmount > 0 ? "text-destructive" : ""}`}>
+                          {formatCurrency(row.gapAmount)}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {row.issues.map((issue, issueIdx) => (
+                              <Badge
+                                key={issueIdx}
+                                variant={issue.type === "omitted" ? "destructive" : "secondary"}
+                                title={issue.message}
+                              >
+                                {ISSUE_LABELS[issue.type]}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,20 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
 import { Link } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, FileText, DollarSign, TrendingUp, Clock, LogIn } from "lucide-react";
+import { ArrowLeft, FileText, DollarSign, TrendingUp, Clock, LogIn, GitCompare, Gavel, CalendarClock, History, Camera, Sofa, Hotel, Share2, Loader2 } from "lucide-react";
+import { DisputePackageDialog } from "@/components/DisputePackageDialog";
+import { ClaimLifecycleTimeline } from "@/components/ClaimLifecycleTimeline";
+import { ClaimAuditHistory } from "@/components/ClaimAuditHistory";
+import { ClaimPhotos } from "@/components/ClaimPhotos";
+import { ClaimContentsInventory } from "@/components/ClaimContentsInventory";
+import { ClaimAleLedger } from "@/components/ClaimAleLedger";
+import { ClaimShareLinks } from "@/components/ClaimShareLinks";
 
 interface UserClaim {
   id: string;
@@ -21,6 +31,7 @@ interface UserClaim {
       unit: string;
     }>;
   } | null;
+  lifecycleStage: string | null;
   claim: {
     id: string;
     status: string;
@@ -54,12 +65,36 @@ function formatDate(dateString: string): string {
 
 export default function MyClaims() {
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const [disputeClaim, setDisputeClaim] = useState<UserClaim | null>(null);
+  const [trackedClaimId, setTrackedClaimId] = useState<string | null>(null);
+  const [historyClaimId, setHistoryClaimId] = useState<string | null>(null);
+  const [photosClaimId, setPhotosClaimId] = useState<string | null>(null);
+  const [contentsClaimId, setContentsClaimId] = useState<string | null>(null);
+  const [aleClaimId, setAleClaimId] = useState<string | null>(null);
+  const [shareClaimId, setShareClaimId] = useState<string | null>(null);
+  const { toast } = useToast();
   
   const { data, isLoading, error } = useQuery<UserClaimsResponse>({
     queryKey: ["/api/user/claims"],
     enabled: isAuthenticated,
   });
 
+  const reportMutation = useMutation({
+    mutationFn: async (userClaimId: string) => {
+      const response = await fetch(`/api/user/claims/${userClaimId}/report`, { method: "POST", credentials: "include" });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(result.error || "Could not generate the report");
+      return result as { reportUrl: string };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/claims"] });
+      toast({ title: "PDF report ready", description: "Open it with View Report." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Report failed", description: error.message, variant: "destructive" });
+    },
+  });
+
   if (authLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -172,6 +207,11 @@ export default function MyClaims() {
                         <Badge variant="outline" className="ml-2">
                           {claim.claim.status}
                         </Badge>
+                        {claim.lifecycleStage && (
+                          <Badge variant="secondary" data-testid={`badge-stage-${claim.id}`}>
+                            {claim.lifecycleStage.replace(/_/g, " ")}
+                          </Badge>
+                        )}
                       </CardTitle>
                       <CardDescription className="flex items-center gap-2 mt-1">
                         <Clock className="h-3 w-3" />
@@ -184,13 +224,96 @@ export default function MyClaims() {
                         )}
                       </CardDescription>
                     </div>
-                    {claim.reportUrl && (
-                      <Button variant="outline" size="sm" asChild>
-                        <a href={claim.reportUrl} target="_blank" rel="noopener noreferrer">
-                          View Report
-                        </a>
+                    <div className="flex items-center gap-2">
+                      <Link href={`/my-claims/${claim.id}/compare`}>
+                        <Button variant="outline" size="sm" data-testid={`button-compare-${claim.id}`}>
+                          <GitCompare className="h-4 w-4 mr-1" />
+                          Compare Documents
+                        </Button>
+                      </Link>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setDisputeClaim(claim)}
+                        data-testid={`button-dispute-${claim.id}`}
+                      >
+                        <Gavel className="h-4 w-4 mr-1" />
+                        Dispute Package
+                      </Button>
+                      <Button
+                        variant={trackedClaimId === claim.id ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setTrackedClaimId(trackedClaimId === claim.id ? null : claim.id)}
+                        data-testid={`button-track-${claim.id}`}
+                      >
+                        <CalendarClock className="h-4 w-4 mr-1" />
+                        Timeline
+                      </Button>
+                      <Button
+                        variant={historyClaimId === claim.id ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setHistoryClaimId(historyClaimId === claim.id ? null : claim.id)}
+                        data-testid={`button-audit-history-${claim.id}`}
+                      >
+                        <History className="h-4 w-4 mr-1" />
+                        Re-audit
+                      </Button>
+                      <Button
+                        variant={photosClaimId === claim.id ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setPhotosClaimId(photosClaimId === claim.id ? null : claim.id)}
+                        data-testid={`button-photos-${claim.id}`}
+                      >
+                        <Camera className="h-4 w-4 mr-1" />
+                        Photos
+                      </Button>
+                      <Button
+                        variant={contentsClaimId === claim.id ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setContentsClaimId(contentsClaimId === claim.id ? null : claim.id)}
+                        data-testid={`button-contents-${claim.id}`}
+                      >
+                        <Sofa className="h-4 w-4 mr-1" />
+                        Contents
+                      </Button>
+                      <Button
+                        variant={aleClaimId === claim.id ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setAleClaimId(aleClaimId === claim.id ? null : claim.id)}
+                        data-testid={`button-ale-${claim.id}`}
+                      >
+                        <Hotel className="h-4 w-4 mr-1" />
+                        Living Expenses
                       </Button>
-                    )}
+                      <Button
+                        variant={shareClaimId === claim.id ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setShareClaimId(shareClaimId === claim.id ? null : claim.id)}
+                        data-testid={`button-share-${claim.id}`}
+                      >
+                        <Share2 className="h-4 w-4 mr-1" />
+                        Share
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => reportMutation.mutate(claim.id)}
+                        disabled={reportMutation.isPending && reportMutation.variables === claim.id}
+                        data-testid={`button-generate-report-${claim.id}`}
+                      >
+                        {reportMutation.isPending && reportMutation.variables === claim.id
+                          ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                          : <FileText className="h-4 w-4 mr-1" />}
+                        {claim.reportUrl ? "Update PDF" : "PDF Report"}
+                      </Button>
+                      {claim.reportUrl && (
+                        <Button variant="outline" size="sm" asChild>
+                          <a href={claim.reportUrl} target="_blank" rel="noopener noreferrer">
+                            View Report
+                          </a>
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 </CardHeader>
                 <CardContent>
@@ -243,12 +366,57 @@ export default function MyClaims() {
                       </div>
                     </div>
                   )}
+
+                  {trackedClaimId === claim.id && (
+                    <div className="mt-4 pt-4 border-t">
+                      <ClaimLifecycleTimeline userClaimId={claim.id} />
+                    </div>
+                  )}
+
+                  {historyClaimId === claim.id && (
+                    <div className="mt-4 pt-4 border-t">
+                      <ClaimAuditHistory userClaimId={claim.id} />
+                    </div>
+                  )}
+
+                  {photosClaimId === claim.id && (
+                    <div className="mt-4 pt-4 border-t">
+                      <ClaimPhotos userClaimId={claim.id} />
+                    </div>
+                  )}
+
+                  {contentsClaimId === claim.id && (
+                    <div className="mt-4 pt-4 border-t">
+                      <ClaimContentsInventory userClaimId={claim.id} />
+                    </div>
+                  )}
+
+                  {aleClaimId === claim.id && (
+                    <div className="mt-4 pt-4 border-t">
+                      <ClaimAleLedger userClaimId={claim.id} />
+                    </div>
+                  )}
+
+                  {shareClaimId === claim.id && (
+                    <div className="mt-4 pt-4 border-t">
+                      <ClaimShareLinks userClaimId={claim.id} />
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             ))}
           </div>
         )}
       </div>
+
+      {disputeClaim && (
+        <DisputePackageDialog
+          open={!!disputeClaim}
+          onOpenChange={(open) => !open && setDisputeClaim(null)}
+          userClaimId={disputeClaim.id}
+          propertyAddress={disputeClaim.inputs?.propertyAddress}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Lock, Link2Off, Share2 } from "lucide-react";
+import ResultsStep, { type AnalysisResponse } from "@/components/ResultsStep";
+
+interface SharedLinkInfo {
+  requiresPasscode: boolean;
+  expiresAt: string;
+}
+
+interface SharedReportResponse {
+  expiresAt: string;
+  report: AnalysisResponse & { zipCode: string; createdAt: string };
+}
+
+class SharedLinkError extends Error {
+  constructor(message: string, public passcodeRequired = false) {
+    super(message);
+  }
+}
+
+async function readSharedError(response: Response, fallback: string): Promise<never> {
+  const result = await response.json().catch(() => ({}));
+  throw new SharedLinkError(result.error || fallback, !!result.passcodeRequired);
+}
+
+export default function SharedReport() {
+  const { token } = useParams<{ token: string }>();
+  const [passcode, setPasscode] = useState("");
+  const [viewerName, setViewerName] = useState("");
+
+  const { data: info, error: infoError } = useQuery<SharedLinkInfo, Error>({
+    queryKey: ["/api/shared", token],
+    queryFn: async () => {
+      const response = await fetch(`/api/shared/${token}`);
+      if (!response.ok) await readSharedError(response, "This link can't be opened");
+      return response.json();
+    },
+    retry: false,
+  });
+
+  const viewMutation = useMutation<SharedReportResponse, SharedLinkError>({
+    mutationFn: async () => {
+      const response = await fetch(`/api/shared/${token}/view`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          passcode: passcode || undefined,
+          viewerName: viewerName.trim() || undefined,
+        }),
+      });
+      if (!response.ok) await readSharedError(response, "This link can't be opened");
+      return response.json();
+    },
+  });
+
+  // Links without a passcode open straight away
+  useEffect(() => {
+    if (info && !info.requiresPasscode) viewMutation.mutate();
+  }, [info]);
+
+  const report = viewMutation.data?.report;
+  const fatalError = infoError ?? (viewMutation.error && !viewMutation.error.passcodeRequired ? viewMutation.error : null);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-6xl space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2" data-testid="text-page-title">
+            <Share2 className="h-7 w-7" />
+            Shared Claim Report
+          </h1>
+          {report ? (
+            <p className="text-muted-foreground mt-2" data-testid="text-shared-meta">
+              Audited {new Date(report.createdAt).toLocaleDateString()} for ZIP {report.zipCode}. Read-only copy; this link expires {new Date(viewMutation.data!.expiresAt).toLocaleDateString()}.
+            </p>
+          ) : (
+            <p className="text-muted-foreground mt-2">A homeowner shared their MaxClaim audit with you.</p>
+          )}
+        </div>
+
+        {fatalError ? (
+          <Card>
+            <CardContent className="py-12 text-center space-y-3" data-testid="shared-link-error">
+              <Link2Off className="h-10 w-10 mx-auto text-muted-foreground" />
+              <p className="font-medium">{fatalError.message}</p>
+              <p className="text-sm text-muted-foreground">Ask the person who sent it for a new link.</p>
+            </CardContent>
+          </Card>
+        ) : report ? (
+          <ResultsStep zipCode={report.zipCode} items={[]} sharedResults={report} />
+        ) : info?.requiresPasscode ? (
+          <Card className="max-w-md">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Lock className="h-5 w-5" />
+                Passcode required
+              </CardTitle>
+              <CardDescription>Enter the passcode you were given with this link.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form
+                className="space-y-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  viewMutation.mutate();
+                }}
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="share-passcode">Passcode</Label>
+                  <Input
+                    id="share-passcode"
+                    type="password"
+                    value={passcode}
+                    onChange={(e) => setPasscode(e.target.value)}
+                    autoFocus
+                    data-testid="input-share-passcode"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="share-viewer-name">Your name (optional)</Label>
+                  <Input
+                    id="share-viewer-name"
+                    value={viewerName}
+                    onChange={(e) => setViewerName(e.target.value)}
+                    placeholder="Lets the homeowner know who opened it"
+                    data-testid="input-share-viewer-name"
+                  />
+                </div>
+                {viewMutation.error?.passcodeRequired && (
+                  <p className="text-sm text-destructive" data-testid="text-passcode-error">{viewMutation.error.message}</p>
+                )}
+                <Button type="submit" className="w-full" disabled={!passcode || viewMutation.isPending} data-testid="button-open-shared-report">
+                  {viewMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Open report
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ export default function Home() {
   const [claimData, setClaimData] = useState<{
     zipCode: string;
     propertyAddress?: string;
+    deductible?: number;
     items: ClaimItem[];
   } | null>(null);
   const [analysisResults, setAnalysisResults] = useState<any>(null);
@@ -27,11 +28,13 @@ export default function Home() {
     propertyAddress?: string;
     damageType: string;
     insuranceOffer: number;
+    deductible?: number;
     items: ClaimItem[];
   }) => {
     setClaimData({
       zipCode: data.zipCode,
       propertyAddress: data.propertyAddress,
+      deductible: data.deductible,
       items: data.items,
     });
     setUserZip(data.zipCode);
@@ -91,6 +94,7 @@ export default function Home() {
             <ResultsStep
               zipCode={claimData.zipCode}
               items={claimData.items}
+              deductible={claimData.deductible}
               onStartOver={resetForm}
             />
           </div>
@@ -22,6 +22,10 @@ interface CachedAuditResult {
   zipCode?: string;
 }
 
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
 class AuditResultCache {
   private cache: NodeCache;
   private hits: number = 0;
@@ -77,7 +81,8 @@ class AuditResultCache {
 
     items.forEach((item, index) => {
       const cachedResult = this.get(item.name, zipCode);
-      if (cachedResult) {
+      // Entries are keyed by name only; reuse one only for the same entered price and quantity
+      if (cachedResult && cachedResult.enteredPrice === round(item.price) && cachedResult.enteredQty === round(item.qty)) {
         cached.set(index, cachedResult);
       } else {
         uncached.push({ index, item });
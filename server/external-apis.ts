@@ -8,7 +8,7 @@ interface FEMAClaim {
   total_paid: number;
 }
 
-interface BLSInflationData {
+export interface BLSInflationData {
   seriesId: string;
   year: string;
   period: string;
@@ -63,13 +63,18 @@ export async function getFEMAClaimsByZip(zipCode: string): Promise<FEMAClaim[]>
 
 // BLS (Bureau of Labor Statistics) API - Construction Cost Index
 // Series PCU238160238160: Producer Price Index for Construction
-export async function getBLSInflationData(apiKey?: string): Promise<BLSInflationData[]> {
+// Other PPI series (lumber, asphalt, copper) and longer spans can be requested too
+export async function getBLSInflationData(
+  apiKey?: string,
+  seriesId: string = "PCU238160238160",
+  years: number = 1
+): Promise<BLSInflationData[]> {
   try {
     const currentYear = new Date().getFullYear();
-    const lastYear = currentYear - 1;
+    const lastYear = currentYear - years;
     
     const requestBody = {
-      seriesid: ["PCU238160238160"], // Construction PPI
+      seriesid: [seriesId],
       startyear: lastYear.toString(),
       endyear: currentYear.toString(),
       ...(apiKey && { registrationkey: apiKey })
@@ -96,7 +101,7 @@ export async function getBLSInflationData(apiKey?: string): Promise<BLSInflation
     const seriesData = data.Results.series[0].data;
     
     return seriesData.map((point: any) => ({
-      seriesId: 'PCU238160238160',
+      seriesId,
       year: point.year,
       period: point.period,
       value: point.value,
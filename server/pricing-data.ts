@@ -22,6 +22,7 @@
 // - PrecisionEstimator open-source rates (MIT license)
 // - BLS Regional CPI (regional adjustments)
 // - HUD CBSA cost indices (metro area adjustments)
+// - Registered catastrophe events (temporary demand surge)
 
 import { 
   generateCitedEstimate, 
@@ -31,7 +32,10 @@ import {
 } from './utils/pricingCitation';
 import { getStateFromZip } from './utils/zipToState';
 import { getRegionalCostAdjustment } from './utils/hudZipCrosswalk';
+import { getDemandSurge } from './utils/demandSurge';
 import { getCategoryPricing, getLineItem, BASELINE_PRICING, type BaselineEstimate } from './utils/baselinePricing';
+import { resolveLineItem } from '@shared/lineItemCatalog';
+import type { ScopedPriceStatistics } from '@shared/pricingStats';
 
 interface PricingData {
   [category: string]: {
@@ -249,7 +253,7 @@ export function analyzeClaimItem(
   insuranceOffer: number,
   zipCode: string,
   inflationMultiplier: number = 1.0,
-  pricingStats?: { min: number; max: number; avg: number; last: number; count: number } | null
+  pricingStats?: ScopedPriceStatistics | null
 ): {
   fmvPrice: number;
   additionalAmount: number;
@@ -257,15 +261,17 @@ export function analyzeClaimItem(
   status: 'underpaid' | 'fair';
 } {
   // Normalize category name for pricing lookup (handles frontend damage types)
-  const normalizedCategory = normalizeCategoryForPricing(category);
-  let fmvPrice = calculateFMV(normalizedCategory, quantity, zipCode, inflationMultiplier);
+  const normalizedCategory = normalizeCategoryForPricing(category, description);
+  // Static regional pricing doesn't move after a catastrophe; the area's demand surge does
+  const surgeMultiplier = getDemandSurge(zipCode)?.multiplier ?? 1;
+  let fmvPrice = calculateFMV(normalizedCategory, quantity, zipCode, inflationMultiplier) * surgeMultiplier;
   
   // If we have pricing stats from real user data, use it to refine the FMV
-  if (pricingStats && pricingStats.count > 0) {
-    // Weight the calculation: 70% historical data average, 30% base calculation
+  if (pricingStats && pricingStats.sampleSize > 0) {
+    // Up to 70% historical median, 30% base calculation, scaled by how well-supported the history is
     // This allows the system to learn from real data while maintaining a baseline
-    const historicalAvg = pricingStats.avg;
-    fmvPrice = (historicalAvg * 0.7) + (fmvPrice * 0.3);
+    const historicalWeight = 0.7 * pricingStats.credibility;
+    fmvPrice = (pricingStats.p50 * quantity * historicalWeight) + (fmvPrice * (1 - historicalWeight));
   }
   
   const additionalAmount = fmvPrice - insuranceOffer;
@@ -294,7 +300,7 @@ export function analyzeClaimItemWithCitation(
   insuranceOffer: number,
   zipCode: string,
   inflationMultiplier: number = 1.0,
-  pricingStats?: { min: number; max: number; avg: number; last: number; count: number } | null
+  pricingStats?: ScopedPriceStatistics | null
 ): {
   fmvPrice: number;
   additionalAmount: number;
@@ -303,7 +309,7 @@ export function analyzeClaimItemWithCitation(
   citation: CitedPriceEstimate | null;
 } {
   // Normalize category name for pricing lookup (handles frontend damage types)
-  const normalizedCategory = normalizeCategoryForPricing(category);
+  const normalizedCategory = normalizeCategoryForPricing(category, description);
   
   // Get basic analysis first (analyzeClaimItem also normalizes, but we do it here for clarity)
   const basicAnalysis = analyzeClaimItem(
@@ -318,7 +324,7 @@ export function analyzeClaimItemWithCitation(
     quantity,
     zipCode,
     insuranceOffer,
-    pricingStats?.avg
+    pricingStats
   );
   
   return {
@@ -385,11 +391,22 @@ const DAMAGE_TYPE_TO_CATEGORY: Record<string, string> = {
   "Other": "Other"
 };
 
+const PRICING_CATEGORIES = new Set(Object.values(DAMAGE_TYPE_TO_CATEGORY).map(c => c.toLowerCase()));
+
 /**
  * Normalize category name for pricing lookup
- * Handles frontend damage types and various category name formats
+ * Handles frontend damage types and various category name formats.
+ * When the category is a damage type rather than a trade, the item description
+ * is resolved against the line-item catalog to pick the trade's pricing category.
  */
-export function normalizeCategoryForPricing(category: string): string {
+export function normalizeCategoryForPricing(category: string, description?: string): string {
+  if (description && !PRICING_CATEGORIES.has(category.toLowerCase())) {
+    const match = resolveLineItem(description);
+    if (match) {
+      return match.entry.pricingCategory;
+    }
+  }
+  
   // Try direct mapping first
   if (DAMAGE_TYPE_TO_CATEGORY[category]) {
     return DAMAGE_TYPE_TO_CATEGORY[category];
@@ -7,8 +7,10 @@
  */
 
 import PQueue from 'p-queue';
-import { auditBatch } from '@shared/priceAudit';
+import { auditBatch, summarizeAuditResults, type AuditResult } from '@shared/priceAudit';
 import { auditCache } from '../cache/auditCache';
+import { getDemandSurge } from '../utils/demandSurge';
+import { normalizeUnit } from '../services/claimValidator';
 
 interface QueueStats {
   pending: number;
@@ -17,8 +19,16 @@ interface QueueStats {
   isPaused: boolean;
 }
 
+interface BatchJobItem {
+  name: string;
+  price: number;
+  qty: number;
+  unit?: string;     // Unit the price was entered in, checked against the matched item's unit
+  zipCode?: string;  // Overrides the batch ZIP for this row
+}
+
 interface BatchJobInput {
-  items: Array<{ name: string; price: number; qty: number }>;
+  items: BatchJobItem[];
   zipCode?: string;
 }
 
@@ -40,6 +50,42 @@ type BatchJobCallback = (
   error?: string
 ) => Promise<void>;
 
+type BatchProgressCallback = (batchId: string, processedCount: number) => Promise<void>;
+
+// Uncached items are audited in chunks of this size so progress can be reported
+const PROGRESS_CHUNK_SIZE = 100;
+
+/**
+ * Items by the ZIP they're priced for, keeping each one's position in the batch
+ */
+function groupItemsByZip(input: BatchJobInput): Map<string | undefined, Array<{ index: number; item: BatchJobItem }>> {
+  const groups = new Map<string | undefined, Array<{ index: number; item: BatchJobItem }>>();
+  input.items.forEach((item, index) => {
+    const zipCode = item.zipCode || input.zipCode;
+    groups.set(zipCode, [...(groups.get(zipCode) ?? []), { index, item }]);
+  });
+  return groups;
+}
+
+/**
+ * Flag a row entered in a different unit than the matched market price; its
+ * price can't be compared, so it reports no underpayment
+ */
+export function checkEnteredUnit(result: AuditResult, unit?: string): AuditResult {
+  if (!unit || !result.unit || !result.marketPricing) return result;
+  const entered = normalizeUnit(unit);
+  const market = normalizeUnit(result.unit);
+  if (!entered || !market || entered === market) return result;
+
+  return {
+    ...result,
+    flagged: true,
+    badges: [...result.badges, 'Unit mismatch'],
+    message: `Entered per ${entered} but market prices are per ${market}; convert the quantity and price to compare. ${result.message}`,
+    underpaymentOpportunity: 0,
+  };
+}
+
 class BatchQueueService {
   private queue: PQueue;
   private activeJobs: Map<string, { status: string; progress: number }>;
@@ -69,7 +115,8 @@ class BatchQueueService {
   async enqueueBatch(
     batchId: string,
     input: BatchJobInput,
-    onStatusChange: BatchJobCallback
+    onStatusChange: BatchJobCallback,
+    onProgress?: BatchProgressCallback
   ): Promise<void> {
     this.activeJobs.set(batchId, { status: 'queued', progress: 0 });
 
@@ -80,7 +127,7 @@ class BatchQueueService {
 
         console.log(`[BatchQueue] Processing batch ${batchId} with ${input.items.length} items`);
 
-        const results = await this.processBatchWithCaching(batchId, input);
+        const results = await this.processBatchWithCaching(batchId, input, onProgress);
 
         this.activeJobs.set(batchId, { status: 'completed', progress: 100 });
         await onStatusChange(batchId, 'completed', results);
@@ -104,106 +151,64 @@ class BatchQueueService {
 
   private async processBatchWithCaching(
     batchId: string,
-    input: BatchJobInput
+    input: BatchJobInput,
+    onProgress?: BatchProgressCallback
   ): Promise<any> {
-    const { cached, uncached } = auditCache.getBatchCached(input.items, input.zipCode);
-
-    console.log(`[BatchQueue] Batch ${batchId}: ${cached.size} cached, ${uncached.length} to process`);
+    const results: AuditResult[] = new Array(input.items.length);
+    let cachedCount = 0;
+    let processedCount = 0;
+
+    // Each ZIP is audited with its own regional options (rows without one use the batch ZIP)
+    for (const [zipCode, group] of Array.from(groupItemsByZip(input).entries())) {
+      // Demand surges change with the date, so surged ZIPs bypass the cache like /api/audit/batch
+      const surge = zipCode ? getDemandSurge(zipCode) : null;
+      const groupItems = group.map(({ item }) => item);
+      const { cached, uncached } = surge
+        ? { cached: new Map<number, any>(), uncached: groupItems.map((item, index) => ({ index, item })) }
+        : auditCache.getBatchCached(groupItems, zipCode);
+
+      cached.forEach((result, index) => {
+        results[group[index].index] = result;
+      });
+      cachedCount += cached.size;
+      processedCount += cached.size;
 
-    let computedResults: any = null;
-    if (uncached.length > 0) {
       const uncachedItems = uncached.map(u => u.item);
-      computedResults = auditBatch(uncachedItems);
-
-      if (computedResults.results) {
-        computedResults.results.forEach((result: any, idx: number) => {
-          const originalItem = uncachedItems[idx];
-          auditCache.set(originalItem.name, result, input.zipCode);
+      for (let start = 0; start < uncachedItems.length; start += PROGRESS_CHUNK_SIZE) {
+        const audited = auditBatch(uncachedItems.slice(start, start + PROGRESS_CHUNK_SIZE), { surge }).results;
+        audited.forEach((result, offset) => {
+          const { index, item } = uncached[start + offset];
+          results[group[index].index] = result;
+          if (!surge) auditCache.set(item.name, result, zipCode);
         });
+
+        processedCount += audited.length;
+        if (onProgress) {
+          this.activeJobs.set(batchId, { status: 'processing', progress: Math.round((processedCount / input.items.length) * 100) });
+          try {
+            await onProgress(batchId, processedCount);
+          } catch (error) {
+            console.warn(`[BatchQueue] Could not record progress for batch ${batchId}:`, error);
+          }
+        }
       }
     }
 
-    if (cached.size === 0) {
-      return computedResults;
-    }
+    console.log(`[BatchQueue] Batch ${batchId}: ${cachedCount} cached, ${results.length - cachedCount} processed`);
 
-    if (uncached.length === 0) {
-      const cachedItems = Array.from(cached.values());
-      return this.buildFullResultFromItems(cachedItems, true);
+    const checked = results.map((result, index) => checkEnteredUnit(result, input.items[index].unit));
+    const summary = summarizeAuditResults(checked);
+    if (cachedCount === 0) {
+      return summary;
+    }
+    if (cachedCount === checked.length) {
+      return { ...summary, fromCache: true };
     }
-
-    const mergedItems: any[] = new Array(input.items.length);
-    cached.forEach((result, index) => {
-      mergedItems[index] = result;
-    });
-    uncached.forEach((u, idx) => {
-      if (computedResults?.results?.[idx]) {
-        mergedItems[u.index] = computedResults.results[idx];
-      }
-    });
-
-    const fullResult = this.buildFullResultFromItems(mergedItems.filter(Boolean), false);
     return {
-      ...fullResult,
+      ...summary,
       partialCache: true,
-      cachedCount: cached.size,
-      computedCount: uncached.length,
-    };
-  }
-
-  private buildFullResultFromItems(items: any[], fromCache: boolean): any {
-    let totalClaimValue = 0;
-    let totalFMV = 0;
-    let totalUnderpayment = 0;
-    let flaggedItems = 0;
-    let fmvItems = 0;
-    let lowItems = 0;
-
-    const flagBreakdown = { low: 0, fmv: 0, missing: 0, invalid: 0 };
-
-    items.forEach((item: any) => {
-      if (item.subtotal) totalClaimValue += item.subtotal;
-      if (item.fmvSubtotal) totalFMV += item.fmvSubtotal;
-      if (item.underpaymentOpportunity) totalUnderpayment += item.underpaymentOpportunity;
-      
-      if (item.flagged) flaggedItems++;
-      
-      switch (item.status) {
-        case 'LOW':
-        case 'low':
-          lowItems++;
-          flagBreakdown.low++;
-          break;
-        case 'FMV':
-        case 'fmv':
-          fmvItems++;
-          flagBreakdown.fmv++;
-          break;
-        case 'MISSING_ITEM':
-        case 'missing':
-          flagBreakdown.missing++;
-          break;
-        case 'INVALID':
-        case 'invalid':
-          flagBreakdown.invalid++;
-          break;
-      }
-    });
-
-    return {
-      totalItems: items.length,
-      flaggedItems,
-      fmvItems,
-      lowItems,
-      totalClaimValue,
-      totalFmvValue: totalFMV,
-      totalUnderpaymentOpportunity: totalUnderpayment,
-      totalClaimValueString: totalClaimValue.toFixed(2),
-      totalFmvValueString: totalFMV.toFixed(2),
-      totalUnderpaymentString: totalUnderpayment.toFixed(2),
-      flagBreakdown,
-      results: items,
-      fromCache,
+      cachedCount,
+      computedCount: checked.length - cachedCount,
     };
   }
 
@@ -21,20 +21,33 @@ import { analyzeClaimItem, analyzeClaimItemWithCitation, getCategoryLineItems, g
 import { aggregateSources, type CitedPriceEstimate, type PricingSource } from "./utils/pricingCitation";
 import { getRegionalContext, calculateInflationMultiplier, getBLSInflationData } from "./external-apis";
 import { performOCR, parseInsuranceDocument } from "./ocr-service";
-import { insertPartnerSchema, insertPartnershipLOISchema, insertPartnerLeadSchema, carrierTrends as carrierTrendsTable } from "@shared/schema";
+import { insertPartnerSchema, insertPartnershipLOISchema, insertPartnerLeadSchema, carrierTrends as carrierTrendsTable, claimLifecycleStage, pricingDataStatus, type InsertPricingDataPoint, type SupplementLetterTemplate, type UserClaim, type ClaimAuditSnapshot, type ClaimPhoto, type ClaimContentsItem, type ClaimAleProfile, type ClaimAleExpense, type ClaimShareLink, type SessionEvent } from "@shared/schema";
 import { sql, eq, desc, and } from "drizzle-orm";
 import { db } from "./db";
-import { auditClaimItem, auditBatch, getAllItems, getMarketData, type AuditResult, type BatchAuditResult } from "@shared/priceAudit";
+import { auditClaimItem, auditBatch, getAllItems, getMarketData, getPriceDB, matchItemName, type AuditOptions, type AuditResult, type BatchAuditResult } from "@shared/priceAudit";
+import { materialIndexFor, monthKey } from "@shared/priceIndices";
+import { buildPriceHistory, priceRangeAt, priceTrend } from "@shared/priceHistory";
 import { asyncHandler, validateClaimInput, validateFileUpload, validateAdminLogin, sanitizeString } from "./utils/validation";
 import { priceDBCache } from "./utils/priceDBCache";
 import { validateBatchSize } from "./utils/batchProcessor";
 import { getCoarseLocation, getAreaCodeFromZip } from "./utils/location";
 import { matchPartnersToUser, MATCHING_EXPLANATION } from "./controllers/partnerMatching";
 import { PROMO_PARTNERS } from "@shared/partners";
+import { sameClaimSubmission } from "@shared/offlineSync";
+import { buildSharedReport, describeViewer, shareLinkExpiry, shareLinkStatus, shareTokenLinkId, signShareToken, verifyShareToken } from "./services/shareLinks";
 import { seedDefaultCommissionTiers } from "./services/commissionEngine";
+import { buildPricingStatistics, pricingSampleCutoff } from "./services/pricingStatistics";
+import { moderatePricingSubmission, sessionHistoryCutoff } from "./services/pricingModeration";
 import { seedProOrgsAndTemplates } from "./seeds/proOrgsAndTemplates";
 import { generateAgentRefCode, isValidAgentRefCodeFormat, generateUniqueAgentRefCode } from "./utils/agentRefCode";
-import { getStateFromZip, US_STATES } from "./utils/zipToState";
+import { getStateFromZip, isValidStateCode, US_STATES } from "./utils/zipToState";
+import { getDemandSurge, surgePctAt, toSurgeEvent, SURGE_PROFILES } from "./utils/demandSurge";
+import { getJurisdictionCodeProfile } from "./utils/buildingCodes";
+import { assessDepreciation, hasDepreciationData, summarizeDepreciation } from "./services/claimAudit/depreciation";
+import { auditCodeUpgrades } from "./services/claimAudit/codeUpgrades";
+import { auditLaborMaterial } from "./services/claimAudit/laborMaterial";
+import type { DisputeAttachment } from "./services/disputePackage";
+import type { SpreadsheetBatchInput } from "./services/batchSpreadsheet";
 import { z } from "zod";
 import multer from "multer";
 import path from "path";
@@ -70,12 +83,15 @@ import {
   getCombinedHealth,
 } from "./services/healthCheck";
 import { seedCarrierTrends } from "./seeds/carrierTrends";
+import { seedScopeRules } from "./seeds/scopeRules";
+import { seedSupplementTemplates } from "./seeds/supplementTemplates";
 import { leadStore } from "./services/leadStore";
 import { carrierIntel } from "./services/carrierIntel";
 import { distributionTest } from "./services/distributionTest";
 import { scheduler } from "./services/scheduler";
 import { cacheService } from "./services/cacheService";
 import { claimValidator, type LineItemInput, type ValidationResult } from "./services/claimValidator";
+import { LINE_ITEM_CATALOG, getCatalogCategories, resolveLineItem, searchCatalog } from "@shared/lineItemCatalog";
 import { partnerRouter, type RoutingCriteria, type RoutingResult, type RoutingAnalysis } from "./services/partnerRouter";
 
 // Extend Express session type
@@ -108,11 +124,20 @@ const claimAnalysisSchema = z.object({
     unit: z.string().default("EA"),
     quotedPrice: z.number().positive().optional(),
     unitPrice: z.number().positive().optional(),
+    acv: z.number().nonnegative().optional(),
+    depreciationAmount: z.number().nonnegative().optional(),
+    nonRecoverableDepreciation: z.number().nonnegative().optional(),
+    ageYears: z.number().nonnegative().optional(),
+    laborCost: z.number().nonnegative().optional(),
+    materialCost: z.number().nonnegative().optional(),
+    salesTax: z.number().nonnegative().optional(),
+    room: z.string().max(100).optional(),
   }).refine(data => 
     (data.quotedPrice !== undefined && data.quotedPrice > 0) || 
     (data.unitPrice !== undefined && data.unitPrice > 0), {
     message: "Either quotedPrice or unitPrice must be provided and must be greater than zero"
-  })).min(1, "At least one claim item is required")
+  })).min(1, "At least one claim item is required"),
+  deductible: z.number().nonnegative().optional(),
 });
 
 // Middleware to verify admin authentication
@@ -817,6 +842,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ success: true, serviceRegions, activeRegion });
   }));
 
+  // Robust per-unit FMV statistics for a category/unit, shrunk from national to the ZIP prefix
+  async function getScopedPricingStats(category: string, unit: string, zipPrefix?: string) {
+    const samples = await storage.getPricingSamples(category, unit, pricingSampleCutoff());
+    return buildPricingStatistics(samples, zipPrefix);
+  }
+
+  // Store user-submitted pricing data points as pending, then accept or hold
+  // each one after the moderation checks so bad input never reaches market prices
+  async function recordPricingDataPoints(
+    points: Array<InsertPricingDataPoint & { description?: string | null }>,
+    sessionId?: string | null
+  ) {
+    if (points.length === 0) return;
+    const now = new Date();
+    const sampleKey = (point: { category: string; unit: string }) => `${point.category}|${point.unit}`;
+    const sampleGroups = Array.from(new Map(points.map(point => [sampleKey(point), point])).values());
+
+    // History is read before the new points are stored so they aren't compared with themselves
+    const [sessionHistory, samples] = await Promise.all([
+      sessionId ? storage.getSessionPricingHistory(sessionId, sessionHistoryCutoff(now)) : Promise.resolve([]),
+      Promise.all(sampleGroups.map(point => storage.getPricingSamples(point.category, point.unit, pricingSampleCutoff(now)))),
+    ]);
+    const stored = await Promise.all(points.map(({ description, ...data }) => storage.addPricingDataPoint(data)));
+    const regionalSamples = new Map(sampleGroups.map((point, i) => [sampleKey(point), samples[i]]));
+
+    const results = moderatePricingSubmission(
+      stored.map((point, i) => ({
+        category: point.category,
+        unit: point.unit,
+        description: points[i].description,
+        quantity: Number(point.quantity),
+        fmvPrice: Number(point.fmvPrice),
+        zipPrefix: point.zipPrefix,
+      })),
+      { regionalSamples: candidate => regionalSamples.get(sampleKey(candidate)) ?? [], sessionHistory, now }
+    );
+    await Promise.all(stored.map((point, i) =>
+      storage.setPricingDataPointModeration(point.id, results[i].status, results[i].flags)
+    ));
+  }
+
+  // Stored snapshots around a loss date plus the material index series, for pricing an audit at that date
+  async function lossDateAuditOptions(lossDate: string, zipCode?: string): Promise<AuditOptions> {
+    const { getItemPriceHistory } = await import("./services/priceHistorySnapshots");
+    const { getMaterialIndexSeries } = await import("./services/materialIndices");
+    const loss = new Date(lossDate);
+    const since = monthKey(new Date(Date.UTC(loss.getUTCFullYear() - 1, loss.getUTCMonth(), 1)));
+    const [history, indexSeries] = await Promise.all([
+      getItemPriceHistory(Object.keys(getPriceDB()), zipCode ? getStateFromZip(zipCode) : null, since),
+      getMaterialIndexSeries(),
+    ]);
+    return { lossDate, history, indexSeries };
+  }
+
   // Helper to normalize claim items - derive both unitPrice and quotedPrice (subtotal)
   // Throws error if quantity is invalid
   function normalizeClaimItem(item: {
@@ -826,7 +905,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     unit: string;
     quotedPrice?: number;
     unitPrice?: number;
-  }): { category: string; description: string; quantity: number; unit: string; unitPrice: number; subtotal: number } {
+    acv?: number;
+    depreciationAmount?: number;
+    nonRecoverableDepreciation?: number;
+    ageYears?: number;
+    laborCost?: number;
+    materialCost?: number;
+    salesTax?: number;
+    room?: string;
+  }): {
+    category: string;
+    description: string;
+    quantity: number;
+    unit: string;
+    unitPrice: number;
+    subtotal: number;
+    acv?: number;
+    depreciationAmount?: number;
+    nonRecoverableDepreciation?: number;
+    ageYears?: number;
+    laborCost?: number;
+    materialCost?: number;
+    salesTax?: number;
+    room?: string;
+  } {
     // Reject invalid quantities - do not silently default
     if (!item.quantity || item.quantity <= 0 || !Number.isFinite(item.quantity)) {
       throw new Error(`Invalid quantity for item "${item.description}": quantity must be > 0`);
@@ -852,7 +954,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       quantity: qty,
       unit: item.unit || 'EA',
       unitPrice,
-      subtotal
+      subtotal,
+      acv: item.acv,
+      depreciationAmount: item.depreciationAmount,
+      nonRecoverableDepreciation: item.nonRecoverableDepreciation,
+      ageYears: item.ageYears,
+      laborCost: item.laborCost,
+      materialCost: item.materialCost,
+      salesTax: item.salesTax,
+      room: item.room?.trim() || undefined
     };
   }
 
@@ -899,7 +1009,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const fullCitations: CitedPriceEstimate[] = [];
       
       const results = await Promise.all(normalizedItems.map(async (item) => {
-        const pricingStats = await storage.getPricingStats(item.category, item.unit, zipPrefix).catch(() => null);
+        const pricingStats = await getScopedPricingStats(item.category, item.unit, zipPrefix).catch(() => null);
         
         // Use enhanced analysis with citation data for defensible estimates
         const analysis = analyzeClaimItemWithCitation(
@@ -916,10 +1026,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (analysis.citation) {
           fullCitations.push(analysis.citation);
         }
+
+        // Insurance offer is the RCV; depreciation detail is optional
+        const depreciationInput = {
+          description: item.description,
+          quotedPrice: item.subtotal,
+          rcv: item.subtotal,
+          acv: item.acv,
+          depreciationAmount: item.depreciationAmount,
+          nonRecoverableDepreciation: item.nonRecoverableDepreciation,
+          ageYears: item.ageYears,
+        };
+        const depreciation = hasDepreciationData(depreciationInput)
+          ? assessDepreciation(depreciationInput)
+          : null;
         
         return {
           category: item.category,
           description: item.description,
+          room: item.room ?? null,
           quantity: item.quantity,
           unit: item.unit,
           unitPrice: item.unitPrice,
@@ -936,8 +1061,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
             lowEstimate: analysis.citation.lowEstimate,
             highEstimate: analysis.citation.highEstimate,
             regionalMultiplier: analysis.citation.regionalMultiplier,
-            regionName: analysis.citation.regionName
-          } : null
+            regionName: analysis.citation.regionName,
+            demandSurge: analysis.citation.demandSurge
+          } : null,
+          depreciation
         };
       }));
       
@@ -954,6 +1081,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ? (totalAdditional / totalInsuranceOffer) * 100 
         : 0;
 
+      // Recoverable depreciation holdback across items that carry ACV detail
+      const depreciationSummary = results.some(item => item.depreciation) || data.deductible
+        ? summarizeDepreciation(
+            results.map(item => item.depreciation ?? assessDepreciation({ description: item.description, quotedPrice: item.insuranceOffer })),
+            data.deductible
+          )
+        : null;
+
+      // Ordinance & Law: like-for-like lines the local code requires upgrading
+      const codeUpgradeLines = results.map(item => ({
+        description: item.description,
+        category: item.category,
+        quantity: item.quantity,
+        unit: item.unit,
+        quotedPrice: item.insuranceOffer,
+      }));
+      const codeUpgradeSummary = auditCodeUpgrades(
+        { zipCode: data.zipCode, lineItems: codeUpgradeLines },
+        codeUpgradeLines.map(original => ({ original, marketPrice: original.quotedPrice, variance: 0, flags: [], recommendation: '' }))
+      );
+      const codeUpgrades = codeUpgradeSummary.items.length > 0 ? codeUpgradeSummary : null;
+
+      // Labor vs. material: itemized component gaps, sales tax on materials and labor minimums
+      const laborMaterialLines = normalizedItems.map(item => ({
+        description: item.description,
+        category: item.category,
+        quantity: item.quantity,
+        unit: item.unit,
+        quotedPrice: item.subtotal,
+        laborCost: item.laborCost,
+        materialCost: item.materialCost,
+        salesTax: item.salesTax,
+      }));
+      const laborMaterialSummary = auditLaborMaterial(
+        { zipCode: data.zipCode, lineItems: laborMaterialLines },
+        laborMaterialLines.map((original, idx) => ({
+          original,
+          marketPrice: original.quotedPrice,
+          variance: 0,
+          flags: [],
+          recommendation: '',
+          demandSurgePct: results[idx].citation?.demandSurge?.surgePct,
+        }))
+      );
+      const laborMaterial = laborMaterialSummary.gaps.length > 0 ? laborMaterialSummary : null;
+
       // Create a session to track this analysis
       const session = await storage.createSession({
         zipCode: data.zipCode,
@@ -968,9 +1141,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         totalFmv: totalFMV,
         additionalAmount: totalAdditional,
         variancePct: overallIncrease,
+        deductible: data.deductible,
+        recoverableDepreciation: depreciationSummary?.recoverableDepreciation,
       });
 
-      // Add line items and pricing data points
+      // Add line items
       await Promise.all(results.map(async (item) => {
         await storage.addClaimLineItem({
           claimId: claim.id,
@@ -981,23 +1156,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
           quotedPrice: item.insuranceOffer,
           fmvPrice: item.fmvPrice,
           variancePct: item.percentageIncrease,
+          rcv: item.depreciation?.rcv,
+          acv: item.depreciation?.acv,
+          depreciationAmount: item.depreciation?.depreciationAmount,
+          depreciationPct: item.depreciation?.depreciationPct,
+          nonRecoverableDepreciation: item.depreciation?.nonRecoverableDepreciation,
+          room: item.room,
           fromOcr: 0,
         });
-
-        // Track pricing data point for continuous improvement
-        await storage.addPricingDataPoint({
-          category: item.category,
-          unit: item.unit as "LF" | "SF" | "SQ" | "CT" | "EA",
-          zipCode: data.zipCode,
-          propertyAddress: data.propertyAddress,
-          quotedPrice: item.insuranceOffer,
-          fmvPrice: item.fmvPrice,
-          quantity: item.quantity,
-          sessionId: session.id,
-          source: "user_upload",
-        });
       }));
 
+      // Track pricing data points for continuous improvement
+      await recordPricingDataPoints(results.map(item => ({
+        category: item.category,
+        description: item.description,
+        unit: item.unit as "LF" | "SF" | "SQ" | "CT" | "EA",
+        zipCode: data.zipCode,
+        propertyAddress: data.propertyAddress,
+        quotedPrice: item.insuranceOffer,
+        fmvPrice: item.fmvPrice,
+        quantity: item.quantity,
+        sessionId: session.id,
+        source: "user_upload",
+      })), session.id);
+
     res.json({
       zipCode: data.zipCode,
       items: results,
@@ -1007,6 +1189,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         totalAdditional: Math.round(totalAdditional * 100) / 100,
         overallIncrease: Math.round(overallIncrease * 10) / 10
       },
+      depreciationSummary,
+      codeUpgrades,
+      laborMaterial,
       regionalContext: {
         femaClaimCount: regionalContext.femaClaimCount,
         avgFEMAPayment: regionalContext.avgFEMAPayment,
@@ -1078,14 +1263,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
           "export_email"
         ]),
         payload: z.any().optional(),
+        // Sent by the offline outbox: replay id and when the event actually happened
+        clientEventId: z.string().min(8).max(64).optional(),
+        occurredAt: z.coerce.date().optional(),
       }).parse(req.body);
 
+      if (eventData.clientEventId) {
+        const existing = await storage.getSessionEventByClientId(eventData.clientEventId);
+        if (existing) {
+          return res.json({ ...existing, duplicate: true });
+        }
+        if (!(await storage.getSession(sessionId))) {
+          return res.status(409).json({ error: "Session not found", conflict: "session" });
+        }
+      }
+
       const event = await storage.logEvent({
         sessionId,
         ...eventData,
       });
       res.json(event);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid event", details: error.errors });
+      }
       console.error("Error logging event:", error);
       res.status(500).json({ error: "Failed to log event" });
     }
@@ -1101,6 +1302,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         additionalAmount: z.number(),
         variancePct: z.number(),
         status: z.enum(["in_progress", "completed", "abandoned"]).optional(),
+        clientSubmissionId: z.string().min(8).max(64).optional(),
         lineItems: z.array(z.object({
           category: z.string(),
           description: z.string(),
@@ -1114,10 +1316,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }).parse(req.body);
 
       const { lineItems, ...claimInfo } = claimData;
-      const claim = await storage.createClaim(claimInfo);
+
+      // Offline outbox replays: return the stored claim when it was already
+      // saved, and flag a conflict when the same submission id carries
+      // different totals
+      if (claimData.clientSubmissionId) {
+        const existing = await storage.getClaimByClientSubmissionId(claimData.clientSubmissionId);
+        if (existing) {
+          const existingLineItems = await storage.getClaimLineItems(existing.id);
+          const matches = sameClaimSubmission(
+            { totalQuoted: existing.totalQuoted, totalFmv: existing.totalFmv, lineItemCount: existingLineItems.length },
+            { totalQuoted: claimData.totalQuoted, totalFmv: claimData.totalFmv, lineItemCount: lineItems.length }
+          );
+          if (!matches) {
+            return res.status(409).json({ error: "A different claim was already submitted with this id", conflict: "claim", claim: existing });
+          }
+          return res.json({ claim: existing, lineItems: existingLineItems, duplicate: true });
+        }
+      }
 
       // Get session to extract ZIP code and property address
       const session = await storage.getSession(claimData.sessionId);
+      if (!session) {
+        return res.status(409).json({ error: "Session not found", conflict: "session" });
+      }
+
+      const claim = await storage.createClaim(claimInfo);
 
       // Add all line items
       const addedLineItems = await Promise.all(
@@ -1127,24 +1351,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
 
       // Track pricing data points for continuous improvement
-      await Promise.all(
-        lineItems.map(item =>
-          storage.addPricingDataPoint({
-            category: item.category,
-            unit: item.unit,
-            zipCode: session?.zipCode || undefined,
-            propertyAddress: session?.propertyAddress || undefined,
-            quotedPrice: item.quotedPrice,
-            fmvPrice: item.fmvPrice,
-            quantity: item.quantity,
-            sessionId: claimData.sessionId,
-            source: "user_upload",
-          })
-        )
-      );
+      await recordPricingDataPoints(lineItems.map(item => ({
+        category: item.category,
+        description: item.description,
+        unit: item.unit,
+        zipCode: session?.zipCode || undefined,
+        propertyAddress: session?.propertyAddress || undefined,
+        quotedPrice: item.quotedPrice,
+        fmvPrice: item.fmvPrice,
+        quantity: item.quantity,
+        sessionId: claimData.sessionId,
+        source: "user_upload",
+      })), claimData.sessionId);
 
       res.json({ claim, lineItems: addedLineItems });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid claim", details: error.errors });
+      }
       console.error("Error creating claim:", error);
       res.status(500).json({ error: "Failed to create claim" });
     }
@@ -1187,8 +1411,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         zipPrefix: z.string().optional(),
       }).parse(req.query);
 
-      const stats = await storage.getPricingStats(category, unit, zipPrefix);
-      res.json(stats);
+      const [stats, statistics] = await Promise.all([
+        storage.getPricingStats(category, unit, zipPrefix),
+        getScopedPricingStats(category, unit, zipPrefix),
+      ]);
+      res.json({ ...stats, statistics });
     } catch (error) {
       console.error("Error fetching pricing stats:", error);
       res.status(500).json({ error: "Failed to fetch pricing stats" });
@@ -1291,6 +1518,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Estimate uploads accept structured Xactimate/Symbility exports as well as PDFs
+  const estimateUpload = multer({
+    dest: 'uploads/',
+    limits: {
+      fileSize: 25 * 1024 * 1024, // 25MB limit (ESX archives can be large)
+    },
+    fileFilter: (req, file, cb) => {
+      const allowedExtensions = ['.esx', '.xml', '.csv', '.pdf'];
+      if (allowedExtensions.includes(path.extname(file.originalname).toLowerCase())) {
+        cb(null, true);
+      } else {
+        cb(new Error('Invalid file type. Only ESX, XML, CSV, and PDF estimates are allowed.'));
+      }
+    }
+  });
+
+  // Estimate import endpoint - Parse carrier estimate line items with provenance
+  app.post("/api/estimates/import", estimateUpload.single('estimate'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded' });
+      }
+
+      const options = z.object({
+        zipCode: z.string().regex(/^\d{5}$/).optional(),
+        carrier: z.string().optional(),
+        claimNumber: z.string().optional(),
+        lossDate: z.string().optional(),
+        deductible: z.coerce.number().nonnegative().optional(),
+      }).parse(req.body);
+
+      const { path: filePath, originalname, mimetype } = req.file;
+
+      console.log(`Importing estimate: ${originalname}, type: ${mimetype}`);
+
+      const { importEstimateFile, toClaimLineItems } = await import("./services/estimateImport");
+      const estimate = await importEstimateFile(filePath, originalname, mimetype, async (pdfPath) => {
+        const ocrResult = await performOCR(pdfPath, 'application/pdf');
+        return ocrResult.text;
+      });
+
+      await fs.unlink(filePath).catch(err =>
+        console.warn('Failed to delete uploaded file:', err)
+      );
+
+      const lineItems = toClaimLineItems(estimate);
+
+      // Run the versioned claim audit when a ZIP code is supplied
+      let audit = undefined;
+      if (options.zipCode && lineItems.length > 0) {
+        const { analyzeClaimWithFallback } = await import("./services/claimAudit");
+        audit = await analyzeClaimWithFallback({
+          carrier: options.carrier || estimate.carrier,
+          zipCode: options.zipCode,
+          lineItems,
+          claimNumber: options.claimNumber || estimate.claimNumber,
+          lossDate: options.lossDate || estimate.lossDate,
+          deductible: options.deductible,
+        });
+      }
+
+      res.json({
+        success: true,
+        estimate,
+        lineItems,
+        itemCount: lineItems.length,
+        audit
+      });
+
+    } catch (error: any) {
+      console.error('Estimate import error:', error);
+
+      if (req.file) {
+        await fs.unlink(req.file.path).catch(() => {});
+      }
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid import options', details: error.errors });
+      }
+
+      const status = error.name === 'EstimateImportError' ? 422 : 500;
+      res.status(status).json({
+        error: 'Failed to import estimate',
+        details: error.message
+      });
+    }
+  });
+
   // Partnership LOI submission
   app.post("/api/partners/loi", async (req, res) => {
     try {
@@ -1714,6 +2029,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Building code profile (Ordinance & Law upgrades) for a ZIP code
+  app.get("/api/building-codes/by-zip/:zip", asyncHandler(async (req, res) => {
+    const { zip } = req.params;
+    if (!getStateFromZip(zip)) {
+      res.status(400).json({ error: "Invalid ZIP code", zip });
+      return;
+    }
+
+    res.json({ zip, profile: getJurisdictionCodeProfile(zip) });
+  }));
+
   // Get region allocation by plan type
   app.post("/api/regions/allocation", asyncHandler(async (req, res) => {
     const schema = z.object({
@@ -2323,15 +2649,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ========== MaxClaim v2.0 AUDIT ENDPOINTS ==========
 
   // Single item audit (v2.0) - with caching
-  app.post("/api/audit/single", (req, res) => {
+  app.post("/api/audit/single", async (req, res) => {
     try {
-      const { item, price, qty, zipCode } = z.object({
+      const { item, price, qty, zipCode, lossDate } = z.object({
         item: z.string().min(1, "Item name is required"),
         price: z.number().positive("Price must be positive"),
         qty: z.number().positive("Quantity must be positive"),
         zipCode: z.string().length(5).optional(),
+        lossDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Loss date must be YYYY-MM-DD").optional(),
       }).parse(req.body);
 
+      // Loss-date pricing and demand surges depend on the date, so they bypass the cache
+      const surge = zipCode ? getDemandSurge(zipCode) : null;
+      if (lossDate || surge) {
+        const options = lossDate ? await lossDateAuditOptions(lossDate, zipCode) : {};
+        return res.json(auditClaimItem(item, price, qty, { ...options, surge }));
+      }
+
       // Check cache first
       const cached = auditCache.get(item, zipCode);
       if (cached) {
@@ -2358,17 +2692,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Batch audit (v2.0) - Full claim with multiple items (with caching)
-  app.post("/api/audit/batch", (req, res) => {
+  app.post("/api/audit/batch", async (req, res) => {
     try {
-      const { items, zipCode } = z.object({
+      const { items, zipCode, lossDate } = z.object({
         items: z.array(z.object({
           name: z.string().min(1),
           price: z.number(),
           qty: z.number(),
         })).min(1, "At least one item is required"),
         zipCode: z.string().length(5).optional(),
+        lossDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Loss date must be YYYY-MM-DD").optional(),
       }).parse(req.body);
 
+      // Loss-date pricing and demand surges depend on the date, so they bypass the cache
+      const surge = zipCode ? getDemandSurge(zipCode) : null;
+      if (lossDate || surge) {
+        const options = lossDate ? await lossDateAuditOptions(lossDate, zipCode) : {};
+        return res.json(auditBatch(items, { ...options, surge }));
+      }
+
       // Check batch cache for optimization
       const { cached, uncached } = auditCache.getBatchCached(items, zipCode);
       
@@ -2558,6 +2900,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // ========== LINE-ITEM CATALOG ENDPOINTS ==========
+
+  // Resolve a description to a canonical catalog code
+  app.post("/api/catalog/resolve", (req, res) => {
+    try {
+      const { description, category, categoryCode, unit } = z.object({
+        description: z.string().min(1),
+        category: z.string().optional(),
+        categoryCode: z.string().optional(),
+        unit: z.string().optional(),
+      }).parse(req.body);
+
+      const match = resolveLineItem(description, { category, categoryCode, unit });
+      res.json({ match, alternatives: searchCatalog(description, 5) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid request', details: error.errors });
+      } else {
+        console.error('Catalog resolve error:', error);
+        res.status(500).json({ error: 'Failed to resolve line item' });
+      }
+    }
+  });
+
+  // List catalog categories and entries
+  app.get("/api/catalog", (req, res) => {
+    const categoryCode = typeof req.query.category === 'string' ? req.query.category.toUpperCase() : undefined;
+    const entries = categoryCode
+      ? LINE_ITEM_CATALOG.filter(entry => entry.categoryCode === categoryCode)
+      : LINE_ITEM_CATALOG;
+    res.json({ categories: getCatalogCategories(), entries });
+  });
+
   // ========== PARTNER ROUTING ENDPOINTS ==========
 
   // Route claim to best matching partners
@@ -2736,6 +3111,191 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   }));
 
+  // Batch audit spreadsheets - CSV/XLSX uploads annotated with the audit per row
+  const batchSpreadsheetUpload = multer({
+    dest: 'uploads/',
+    limits: {
+      fileSize: 10 * 1024 * 1024, // 10MB limit
+    },
+    fileFilter: (req, file, cb) => {
+      const allowedExtensions = ['.csv', '.xlsx'];
+      if (allowedExtensions.includes(path.extname(file.originalname).toLowerCase())) {
+        cb(null, true);
+      } else {
+        cb(new Error('Invalid file type. Only CSV and XLSX spreadsheets are allowed.'));
+      }
+    }
+  });
+
+  const batchColumnMappingSchema = z.object({
+    description: z.number().int().nonnegative(),
+    price: z.number().int().nonnegative(),
+    quantity: z.number().int().nonnegative().nullable().optional(),
+    unit: z.number().int().nonnegative().nullable().optional(),
+    zipCode: z.number().int().nonnegative().nullable().optional(),
+    priceIsTotal: z.boolean().optional(),
+  });
+
+  async function readBatchSpreadsheet(file: Express.Multer.File) {
+    const buffer = await fs.readFile(file.path);
+    await fs.unlink(file.path).catch(err =>
+      console.warn('Failed to delete uploaded file:', err)
+    );
+    const { parseSpreadsheet } = await import("./services/batchSpreadsheet");
+    return parseSpreadsheet(buffer, file.originalname);
+  }
+
+  function batchSpreadsheetErrorResponse(res: Response, error: any, message: string) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    if (error instanceof SyntaxError) {
+      return res.status(400).json({ error: 'Invalid request', details: 'Column mapping must be JSON' });
+    }
+    const status = error.name === 'BatchSpreadsheetError' ? 422 : 500;
+    res.status(status).json({ error: message, details: error.message });
+  }
+
+  // Headers, sample rows and a suggested column mapping for the mapping step
+  app.post("/api/batch-audit/spreadsheet/preview", isAuthenticated, batchSpreadsheetUpload.single('spreadsheet'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded' });
+      }
+
+      const sheet = await readBatchSpreadsheet(req.file);
+      const { suggestColumnMapping } = await import("./services/batchSpreadsheet");
+
+      res.json({
+        fileName: sheet.fileName,
+        format: sheet.format,
+        headers: sheet.headers,
+        sampleRows: sheet.rows.slice(0, 5),
+        rowCount: sheet.rows.length,
+        suggestedMapping: suggestColumnMapping(sheet.headers),
+      });
+    } catch (error: any) {
+      console.error('Batch spreadsheet preview error:', error);
+      if (req.file) {
+        await fs.unlink(req.file.path).catch(() => {});
+      }
+      batchSpreadsheetErrorResponse(res, error, 'Failed to read spreadsheet');
+    }
+  });
+
+  // Submit a mapped spreadsheet as a batch job; poll GET /api/batch-audit/:id for progress
+  app.post("/api/batch-audit/spreadsheet", isAuthenticated, batchSpreadsheetUpload.single('spreadsheet'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded' });
+      }
+
+      const { mapping, zipCode } = z.object({
+        mapping: batchColumnMappingSchema,
+        zipCode: z.string().regex(/^\d{5}$/).optional(),
+      }).parse({
+        mapping: req.body.mapping ? JSON.parse(req.body.mapping) : undefined,
+        zipCode: req.body.zipCode || undefined,
+      });
+
+      const sheet = await readBatchSpreadsheet(req.file);
+      const { mapSpreadsheetRows } = await import("./services/batchSpreadsheet");
+      const mapped = mapSpreadsheetRows(sheet, mapping, zipCode);
+
+      // Each row is priced for its own ZIP; the job records one only when they all share it
+      const rowZips = new Set(mapped.items.map(item => item.zipCode).filter(Boolean));
+      const batchZip = zipCode ?? (rowZips.size === 1 ? Array.from(rowZips)[0] : undefined);
+
+      const inputData: SpreadsheetBatchInput = {
+        items: mapped.items,
+        zipCode: batchZip,
+        uploadedBy: (req.user as any).claims?.sub,
+        spreadsheet: {
+          fileName: sheet.fileName,
+          format: sheet.format,
+          headers: sheet.headers,
+          rows: sheet.rows,
+          rowIndexes: mapped.rowIndexes,
+          skipped: mapped.skipped,
+        },
+      };
+      const job = await storage.createBatchJob({
+        itemCount: mapped.items.length,
+        zipCode: batchZip || null,
+        inputData,
+      });
+
+      batchQueue.enqueueBatch(
+        job.id,
+        { items: mapped.items, zipCode: batchZip },
+        async (batchId, status, results, error) => {
+          await storage.updateBatchJobStatus(batchId, status, results, error);
+        },
+        async (batchId, processedCount) => {
+          await storage.updateBatchJobProgress(batchId, processedCount);
+        }
+      );
+
+      const queueStats = batchQueue.getQueueStats();
+
+      res.status(202).json({
+        batchId: job.id,
+        status: 'queued',
+        itemCount: mapped.items.length,
+        skipped: mapped.skipped,
+        estimatedWait: queueStats.size * 2,
+        queuePosition: queueStats.size,
+      });
+    } catch (error: any) {
+      console.error('Batch spreadsheet upload error:', error);
+      if (req.file) {
+        await fs.unlink(req.file.path).catch(() => {});
+      }
+      batchSpreadsheetErrorResponse(res, error, 'Failed to queue spreadsheet');
+    }
+  });
+
+  // Download a completed spreadsheet batch with the audit appended to each row (uploader only)
+  app.get("/api/batch-audit/:id/download", isAuthenticated, asyncHandler(async (req, res) => {
+    const { format } = z.object({
+      format: z.enum(['xlsx', 'csv']).optional(),
+    }).parse(req.query);
+
+    const userId = (req.user as any).claims?.sub;
+    const job = await storage.getBatchJob(req.params.id);
+    const inputData = job?.inputData as Partial<SpreadsheetBatchInput> | undefined;
+    const spreadsheet = inputData?.spreadsheet;
+    if (!job || !inputData || !spreadsheet || !userId || inputData.uploadedBy !== userId) {
+      return res.status(404).json({ error: 'Spreadsheet batch not found' });
+    }
+    if (job.status !== 'completed') {
+      return res.status(409).json({ error: 'Batch audit has not finished yet' });
+    }
+
+    const {
+      annotateSpreadsheet,
+      annotatedSpreadsheetToCsv,
+      annotatedSpreadsheetToXlsx,
+    } = await import("./services/batchSpreadsheet");
+    const annotated = annotateSpreadsheet(
+      spreadsheet,
+      { items: inputData.items ?? [], rowIndexes: spreadsheet.rowIndexes, skipped: spreadsheet.skipped },
+      (job.results as any)?.results ?? []
+    );
+
+    const outputFormat = format ?? spreadsheet.format;
+    const baseName = path.basename(spreadsheet.fileName, path.extname(spreadsheet.fileName)).replace(/[^\w.-]+/g, '_');
+    if (outputFormat === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${baseName}-audited.csv"`);
+      return res.send(annotatedSpreadsheetToCsv(annotated));
+    }
+
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="${baseName}-audited.xlsx"`);
+    res.send(await annotatedSpreadsheetToXlsx(annotated));
+  }));
+
   // Get all items for autocomplete (v2.0)
   app.get("/api/items", (req, res) => {
     try {
@@ -2747,25 +3307,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get market data for specific item (v2.0)
-  app.get("/api/items/:itemName", (req, res) => {
+  // Get market data for specific item (v2.0), with its monthly price history
+  app.get("/api/items/:itemName", async (req, res) => {
     try {
       const { itemName } = req.params;
-      const data = getMarketData(decodeURIComponent(itemName));
-      
-      if (!data) {
+      const { zipCode, months, lossDate } = z.object({
+        zipCode: z.string().regex(/^\d{5}$/).optional(),
+        months: z.coerce.number().int().min(2).max(120).default(24),
+        lossDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Loss date must be YYYY-MM-DD").optional(),
+      }).parse(req.query);
+
+      const matchedKey = matchItemName(decodeURIComponent(itemName));
+      const data = matchedKey ? getMarketData(matchedKey) : undefined;
+      if (!matchedKey || !data) {
         return res.status(404).json({ error: 'Item not found in database' });
       }
-      
+
+      const { getItemPriceHistory } = await import("./services/priceHistorySnapshots");
+      const { getMaterialIndexSeries } = await import("./services/materialIndices");
+      const now = new Date();
+      const since = monthKey(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - months, 1)));
+      const lossPeriod = lossDate ? monthKey(lossDate) : null;
+      const [stored, series] = await Promise.all([
+        getItemPriceHistory([matchedKey], zipCode ? getStateFromZip(zipCode) : null, lossPeriod && lossPeriod < since ? lossPeriod : since),
+        getMaterialIndexSeries(),
+      ]);
+
+      const materialIndex = materialIndexFor(matchedKey);
+      const current = { p10: data.UNIT_PRICE, p50: data.AVERAGE_PRICE, p90: data.FMV_PRICE, asOf: data.LAST_UPDATED ?? now };
+      const history = buildPriceHistory(current, materialIndex, { history: stored[matchedKey], series, months, now });
+
       res.json({
         name: itemName,
+        matchedItem: matchedKey,
         unit: data.UNIT,
         unitPrice: data.UNIT_PRICE,
         fmvPrice: data.FMV_PRICE,
         avgPrice: data.AVERAGE_PRICE,
-        samples: data.SAMPLES
+        samples: data.SAMPLES,
+        lastUpdated: data.LAST_UPDATED ?? null,
+        materialIndex,
+        history,
+        trend: priceTrend(history),
+        ...(lossDate && {
+          priceAtLossDate: priceRangeAt(current, lossDate, materialIndex, { history: stored[matchedKey], series }),
+        }),
       });
     } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid query', details: error.errors });
+      }
       console.error('Get item data error:', error);
       res.status(500).json({ error: 'Failed to get item data' });
     }
@@ -2854,6 +3445,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         createdAt: uc.createdAt,
         reportUrl: uc.reportUrl,
         inputs: uc.inputs,
+        lifecycleStage: uc.lifecycleStage,
         claim: {
           id: uc.claim.id,
           status: uc.claim.status,
@@ -2908,6 +3500,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         id: item.id,
         category: item.category,
         description: item.description,
+        room: item.room,
         quantity: Number(item.quantity),
         unit: item.unit,
         quotedPrice: Number(item.quotedPrice),
@@ -2938,6 +3531,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           unit: z.string(),
           quotedPrice: z.number().optional(),
           unitPrice: z.number().optional(),
+          room: z.string().max(100).optional(),
         })),
         email: z.string().email().optional(),
       }).optional(),
@@ -2964,45 +3558,1334 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   }));
 
-  // ===== SALES AGENT MANAGEMENT ROUTES =====
+  // ===== CLAIM DOCUMENTS - Carrier estimate vs contractor bid vs supplements =====
 
-  // Validate agent reference code (public endpoint for partner signup)
-  app.get("/api/agents/validate-code/:code", asyncHandler(async (req, res) => {
-    const { code } = req.params;
-    
-    if (!isValidAgentRefCodeFormat(code)) {
-      return res.json({ valid: false, error: "Invalid code format" });
-    }
-    
-    const agent = await storage.getSalesAgentByRefCode(code);
-    if (!agent) {
-      return res.json({ valid: false, error: "Agent not found" });
-    }
-    
-    if (agent.status !== 'active') {
-      return res.json({ valid: false, error: "Agent is not active" });
+  // Saved claim owned by the signed-in user (null when missing or not theirs)
+  async function getOwnedUserClaim(req: Request) {
+    const user = req.user as any;
+    const userId = user?.claims?.sub;
+    if (!userId) return null;
+
+    const userClaim = await storage.getUserClaim(req.params.id);
+    return userClaim && userClaim.userId === userId ? userClaim : null;
+  }
+
+  // List documents attached to a saved claim
+  app.get("/api/user/claims/:id/documents", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
     }
-    
-    res.json({ 
-      valid: true, 
-      agent: { 
-        name: agent.name, 
-        region: agent.region,
-        refCode: agent.agentRefCode,
-      } 
-    });
+
+    const documents = await storage.getClaimDocuments(userClaim.claimId);
+    res.json({ documents });
   }));
 
-  // Create a new sales agent (with auto-generated ref code)
-  app.post("/api/admin/agents", requireAdmin, asyncHandler(async (req, res) => {
-    const agentData = z.object({
-      name: z.string().min(2),
-      email: z.string().email(),
-      phone: z.string().optional(),
-      region: z.string().optional(),
-      birthYear: z.number().min(1940).max(2010).optional(),
-      commissionTierId: z.string().optional(),
-    }).parse(req.body);
+  // Upload a carrier estimate, contractor bid or supplement for a saved claim
+  app.post("/api/user/claims/:id/documents", isAuthenticated, estimateUpload.single('document'), async (req, res) => {
+    const cleanup = async () => {
+      if (req.file) {
+        await fs.unlink(req.file.path).catch(err => console.warn('Failed to delete uploaded file:', err));
+      }
+    };
+
+    try {
+      const userClaim = await getOwnedUserClaim(req);
+      if (!userClaim) {
+        await cleanup();
+        return res.status(404).json({ error: "Claim not found" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded' });
+      }
+
+      const { documentType, label } = z.object({
+        documentType: z.enum(["carrier_estimate", "contractor_bid", "supplement"]),
+        label: z.string().max(120).optional(),
+      }).parse(req.body);
+
+      const { path: filePath, originalname, mimetype } = req.file;
+      const { importEstimateFile, toClaimLineItems } = await import("./services/estimateImport");
+      const estimate = await importEstimateFile(filePath, originalname, mimetype, async (pdfPath) => {
+        const ocrResult = await performOCR(pdfPath, 'application/pdf');
+        return ocrResult.text;
+      });
+
+      await cleanup();
+
+      const existing = await storage.getClaimDocuments(userClaim.claimId);
+      const sequence = existing.filter(d => d.documentType === documentType).length + 1;
+      const defaultLabels = {
+        carrier_estimate: "Carrier estimate",
+        contractor_bid: "Contractor bid",
+        supplement: `Supplement ${sequence}`,
+      };
+
+      const claimLines = toClaimLineItems(estimate);
+      const document = await storage.createClaimDocument({
+        claimId: userClaim.claimId,
+        documentType,
+        label: label || defaultLabels[documentType],
+        fileName: originalname,
+        format: estimate.format,
+        sequence,
+        totalRcv: estimate.totals.rcv,
+        warnings: estimate.warnings,
+      }, estimate.lines.map((line, idx) => ({
+        lineNumber: line.lineNumber,
+        catalogCode: claimLines[idx].catalogCode ?? null,
+        category: claimLines[idx].category ?? null,
+        description: line.description,
+        quantity: line.quantity,
+        unit: line.unit,
+        unitPrice: line.unitPrice ?? null,
+        rcv: line.rcv,
+        provenance: { ...line.provenance },
+      })));
+
+      res.status(201).json({ document, lineCount: estimate.lines.length, warnings: estimate.warnings });
+    } catch (error: any) {
+      console.error('Claim document upload error:', error);
+      await cleanup();
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid document details', details: error.errors });
+      }
+
+      const status = error.name === 'EstimateImportError' ? 422 : 500;
+      res.status(status).json({
+        error: 'Failed to import document',
+        details: error.message
+      });
+    }
+  });
+
+  // Remove a document from a saved claim
+  app.delete("/api/user/claims/:id/documents/:documentId", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const deleted = await storage.deleteClaimDocument(userClaim.claimId, req.params.documentId);
+    if (!deleted) {
+      return res.status(404).json({ error: "Document not found" });
+    }
+    res.json({ success: true });
+  }));
+
+  // ===== CLAIM PHOTOS - Damage photos with EXIF metadata, tagged to line items and rooms =====
+
+  const photoUpload = multer({
+    dest: 'uploads/',
+    limits: {
+      fileSize: 15 * 1024 * 1024, // 15MB limit (full-resolution phone photos)
+    },
+    fileFilter: (req, file, cb) => {
+      const allowedMimes = ['image/jpeg', 'image/jpg', 'image/png'];
+      if (allowedMimes.includes(file.mimetype)) {
+        cb(null, true);
+      } else {
+        cb(new Error('Invalid file type. Only JPG and PNG photos are allowed.'));
+      }
+    }
+  });
+
+  const photoTagsSchema = z.object({
+    room: z.string().trim().max(100).nullable().optional(),
+    caption: z.string().trim().max(500).nullable().optional(),
+    lineItemIds: z.array(z.string()).max(100).optional(),
+  });
+
+  function toPhotoResponse(photo: ClaimPhoto) {
+    return {
+      ...photo,
+      latitude: photo.latitude !== null ? Number(photo.latitude) : null,
+      longitude: photo.longitude !== null ? Number(photo.longitude) : null,
+      lineItemIds: photo.lineItemIds ?? [],
+      url: `/files/${photo.claimId}/${photo.fileName}`,
+      thumbnailUrl: photo.thumbnailFileName ? `/files/${photo.claimId}/${photo.thumbnailFileName}` : null,
+    };
+  }
+
+  // Returns the ids that don't belong to the claim's line items
+  async function findUnknownLineItemIds(claimId: string, lineItemIds: string[]) {
+    if (lineItemIds.length === 0) return [];
+    const known = new Set((await storage.getClaimLineItems(claimId)).map(item => item.id));
+    return lineItemIds.filter(id => !known.has(id));
+  }
+
+  // List photos attached to a saved claim
+  app.get("/api/user/claims/:id/photos", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const photos = await storage.getClaimPhotos(userClaim.claimId);
+    res.json({ photos: photos.map(toPhotoResponse) });
+  }));
+
+  // Upload a damage photo (plus an optional browser-generated thumbnail) for a saved claim
+  app.post("/api/user/claims/:id/photos", isAuthenticated, photoUpload.fields([
+    { name: 'photo', maxCount: 1 },
+    { name: 'thumbnail', maxCount: 1 },
+  ]), async (req, res) => {
+    const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+    const photoFile = files?.photo?.[0];
+    const thumbnailFile = files?.thumbnail?.[0];
+    const cleanup = () => Promise.all([photoFile, thumbnailFile]
+      .filter((file): file is Express.Multer.File => !!file)
+      .map(file => fs.unlink(file.path).catch(err => console.warn('Failed to delete uploaded file:', err))));
+
+    try {
+      const userClaim = await getOwnedUserClaim(req);
+      if (!userClaim) {
+        await cleanup();
+        return res.status(404).json({ error: "Claim not found" });
+      }
+      if (!photoFile) {
+        await cleanup();
+        return res.status(400).json({ error: "No photo uploaded" });
+      }
+
+      // Multipart fields arrive as strings; line item ids are sent as a JSON array
+      const tags = photoTagsSchema.parse({
+        room: req.body.room || undefined,
+        caption: req.body.caption || undefined,
+        lineItemIds: req.body.lineItemIds ? JSON.parse(req.body.lineItemIds) : undefined,
+      });
+      const lineItemIds = tags.lineItemIds ?? [];
+      const unknownIds = await findUnknownLineItemIds(userClaim.claimId, lineItemIds);
+      if (unknownIds.length > 0) {
+        await cleanup();
+        return res.status(400).json({ error: "Line items not found on this claim", details: unknownIds });
+      }
+
+      const data = await fs.readFile(photoFile.path);
+      const thumbnailData = thumbnailFile ? await fs.readFile(thumbnailFile.path) : null;
+      await cleanup();
+
+      const { extractPhotoMetadata, extractEmbeddedThumbnail, photoObjectNames } = await import("./services/photoEvidence");
+      const contentType = photoFile.mimetype === 'image/png' ? 'image/png' : 'image/jpeg';
+      const metadata = await extractPhotoMetadata(data);
+      const thumbnail = thumbnailData ?? await extractEmbeddedThumbnail(data);
+      const { fileName, thumbnailFileName } = photoObjectNames(contentType);
+
+      const { getObjectStorageService } = await import("./utils/objectStorage");
+      const storageService = getObjectStorageService();
+      await storageService.uploadBuffer(userClaim.claimId, fileName, data, contentType);
+      if (thumbnail) {
+        await storageService.uploadBuffer(userClaim.claimId, thumbnailFileName, thumbnail, 'image/jpeg');
+      }
+
+      const photo = await storage.createClaimPhoto({
+        claimId: userClaim.claimId,
+        fileName,
+        thumbnailFileName: thumbnail ? thumbnailFileName : null,
+        originalName: photoFile.originalname,
+        contentType,
+        sizeBytes: data.length,
+        width: metadata.width,
+        height: metadata.height,
+        capturedAt: metadata.capturedAt,
+        latitude: metadata.latitude,
+        longitude: metadata.longitude,
+        cameraModel: metadata.cameraModel,
+        room: tags.room ?? null,
+        caption: tags.caption ?? null,
+        lineItemIds,
+      });
+
+      res.status(201).json({ photo: toPhotoResponse(photo) });
+    } catch (error: any) {
+      console.error('Claim photo upload error:', error);
+      await cleanup();
+
+      if (error instanceof z.ZodError || error instanceof SyntaxError) {
+        return res.status(400).json({ error: 'Invalid photo details', details: error instanceof z.ZodError ? error.errors : error.message });
+      }
+
+      res.status(500).json({
+        error: 'Failed to upload photo',
+        details: error.message
+      });
+    }
+  });
+
+  // Update a photo's room, caption and line item tags
+  app.patch("/api/user/claims/:id/photos/:photoId", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const tags = photoTagsSchema.parse(req.body);
+    if (tags.lineItemIds) {
+      const unknownIds = await findUnknownLineItemIds(userClaim.claimId, tags.lineItemIds);
+      if (unknownIds.length > 0) {
+        return res.status(400).json({ error: "Line items not found on this claim", details: unknownIds });
+      }
+    }
+
+    const photo = await storage.updateClaimPhoto(userClaim.claimId, req.params.photoId, {
+      ...(tags.room !== undefined && { room: tags.room || null }),
+      ...(tags.caption !== undefined && { caption: tags.caption || null }),
+      ...(tags.lineItemIds !== undefined && { lineItemIds: tags.lineItemIds }),
+    });
+    if (!photo) {
+      return res.status(404).json({ error: "Photo not found" });
+    }
+    res.json({ photo: toPhotoResponse(photo) });
+  }));
+
+  // Remove a photo and its stored files
+  app.delete("/api/user/claims/:id/photos/:photoId", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const photo = await storage.deleteClaimPhoto(userClaim.claimId, req.params.photoId);
+    if (!photo) {
+      return res.status(404).json({ error: "Photo not found" });
+    }
+
+    try {
+      const { getObjectStorageService } = await import("./utils/objectStorage");
+      const storageService = getObjectStorageService();
+      await storageService.deleteClaimFile(photo.claimId, photo.fileName);
+      if (photo.thumbnailFileName) {
+        await storageService.deleteClaimFile(photo.claimId, photo.thumbnailFileName);
+      }
+    } catch (error) {
+      // The record is gone either way; orphaned objects are harmless
+      console.warn("[ClaimPhotos] Could not delete stored files:", error);
+    }
+    res.json({ success: true });
+  }));
+
+  // ===== CONTENTS INVENTORY - Coverage C personal property valued against the carrier's ACV =====
+
+  const contentsUpload = multer({
+    dest: 'uploads/',
+    limits: {
+      fileSize: 5 * 1024 * 1024, // 5MB limit
+    },
+    fileFilter: (req, file, cb) => {
+      if (path.extname(file.originalname).toLowerCase() === '.csv') {
+        cb(null, true);
+      } else {
+        cb(new Error('Invalid file type. Only CSV inventories are allowed.'));
+      }
+    }
+  });
+
+  const contentsItemSchema = z.object({
+    name: z.string().trim().min(1).max(200),
+    brand: z.string().trim().max(100).nullable().optional(),
+    itemClass: z.enum([
+      "electronics", "computers", "appliances", "furniture", "mattresses", "clothing", "linens", "kitchenware",
+      "tools", "sporting_goods", "toys", "books_media", "decor", "jewelry", "collectibles", "other",
+    ]).nullable().optional(),
+    room: z.string().trim().max(100).nullable().optional(),
+    ageYears: z.number().min(0).max(150).nullable().optional(),
+    condition: z.enum(["new", "excellent", "good", "fair", "poor"]).optional(),
+    quantity: z.number().int().positive().max(10000).optional(),
+    originalPrice: z.number().nonnegative().nullable().optional(),
+    replacementCost: z.number().nonnegative().nullable().optional(),
+    carrierAcv: z.number().nonnegative().nullable().optional(),
+  });
+
+  // Numeric columns come back from Postgres as strings
+  function toContentsInput(item: ClaimContentsItem) {
+    const num = (value: number | null) => (value !== null ? Number(value) : null);
+    return {
+      name: item.name,
+      brand: item.brand,
+      itemClass: item.itemClass as z.infer<typeof contentsItemSchema>["itemClass"],
+      room: item.room,
+      ageYears: num(item.ageYears),
+      condition: item.condition as z.infer<typeof contentsItemSchema>["condition"],
+      quantity: item.quantity,
+      originalPrice: num(item.originalPrice),
+      replacementCost: num(item.replacementCost),
+      carrierAcv: num(item.carrierAcv),
+    };
+  }
+
+  async function auditClaimContents(claimId: string) {
+    const rows = await storage.getClaimContentsItems(claimId);
+    const { auditContentsInventory } = await import("./services/contentsInventory");
+    const audit = auditContentsInventory(rows.map(toContentsInput));
+    return {
+      ...audit,
+      items: audit.items.map((item, idx) => ({ id: rows[idx].id, ...item })),
+    };
+  }
+
+  // Inventory with each item's fair replacement cost, fair ACV and shortfall vs the carrier
+  app.get("/api/user/claims/:id/contents", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    res.json(await auditClaimContents(userClaim.claimId));
+  }));
+
+  // Add one item to the inventory
+  app.post("/api/user/claims/:id/contents", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const item = contentsItemSchema.parse(req.body);
+    const [created] = await storage.createClaimContentsItems([{ ...item, claimId: userClaim.claimId }]);
+    res.status(201).json({ item: created });
+  }));
+
+  // Import an inventory CSV; rows are appended to the existing inventory
+  app.post("/api/user/claims/:id/contents/import", isAuthenticated, contentsUpload.single('inventory'), async (req, res) => {
+    try {
+      const userClaim = await getOwnedUserClaim(req);
+      if (!userClaim) {
+        if (req.file) await fs.unlink(req.file.path).catch(() => {});
+        return res.status(404).json({ error: "Claim not found" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded' });
+      }
+
+      const csv = await fs.readFile(req.file.path, 'utf-8');
+      await fs.unlink(req.file.path).catch(err =>
+        console.warn('Failed to delete uploaded file:', err)
+      );
+
+      const { parseContentsCsv } = await import("./services/contentsInventory");
+      const { items, warnings } = parseContentsCsv(csv);
+      const created = await storage.createClaimContentsItems(items.map(item => ({
+        claimId: userClaim.claimId,
+        name: item.name,
+        brand: item.brand ?? null,
+        itemClass: item.itemClass ?? null,
+        room: item.room ?? null,
+        ageYears: item.ageYears ?? null,
+        condition: item.condition ?? "good",
+        quantity: item.quantity && item.quantity > 0 ? Math.round(item.quantity) : 1,
+        originalPrice: item.originalPrice ?? null,
+        replacementCost: item.replacementCost ?? null,
+        carrierAcv: item.carrierAcv ?? null,
+      })));
+
+      res.status(201).json({ imported: created.length, warnings });
+    } catch (error: any) {
+      console.error('Contents inventory import error:', error);
+
+      if (req.file) {
+        await fs.unlink(req.file.path).catch(() => {});
+      }
+
+      const status = error.name === 'ContentsInventoryError' ? 422 : 500;
+      res.status(status).json({
+        error: 'Failed to import inventory',
+        details: error.message
+      });
+    }
+  });
+
+  // Download the valued inventory as CSV
+  app.get("/api/user/claims/:id/contents/export", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const { contentsToCsv } = await import("./services/contentsInventory");
+    const csv = contentsToCsv(await auditClaimContents(userClaim.claimId));
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename=contents-inventory-${userClaim.id}.csv`);
+    res.send(csv);
+  }));
+
+  // Update an inventory item (e.g. once the carrier's ACV arrives)
+  app.patch("/api/user/claims/:id/contents/:itemId", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const data = contentsItemSchema.partial().parse(req.body);
+    const item = await storage.updateClaimContentsItem(userClaim.claimId, req.params.itemId, data);
+    if (!item) {
+      return res.status(404).json({ error: "Item not found" });
+    }
+    res.json({ item });
+  }));
+
+  // Remove an item from the inventory
+  app.delete("/api/user/claims/:id/contents/:itemId", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const deleted = await storage.deleteClaimContentsItem(userClaim.claimId, req.params.itemId);
+    if (!deleted) {
+      return res.status(404).json({ error: "Item not found" });
+    }
+    res.json({ success: true });
+  }));
+
+  // ===== ADDITIONAL LIVING EXPENSES - Coverage D ledger for displaced households =====
+
+  const aleProfileSchema = z.object({
+    displacementStart: z.coerce.date(),
+    displacementEnd: z.coerce.date().nullable().optional(),
+    householdSize: z.number().int().min(1).max(20),
+    zipCode: z.string().regex(/^\d{5}$/).optional(),
+    savedMonthlyHousing: z.number().nonnegative().nullable().optional(),
+    savedMonthlyUtilities: z.number().nonnegative().nullable().optional(),
+    normalMonthlyFood: z.number().nonnegative().nullable().optional(),
+  });
+
+  const aleExpenseSchema = z.object({
+    expenseDate: z.coerce.date(),
+    category: z.enum(["lodging", "meals", "mileage", "laundry", "pet_boarding", "other"]),
+    amount: z.number().nonnegative().nullable().optional(),
+    miles: z.number().nonnegative().nullable().optional(),
+    nights: z.number().int().positive().max(366).nullable().optional(),
+    description: z.string().trim().max(200).nullable().optional(),
+  }).refine(expense => (expense.amount ?? 0) > 0 || (expense.category === "mileage" && (expense.miles ?? 0) > 0), {
+    message: "Enter an amount (or miles for mileage)",
+  });
+
+  function toAleDisplacement(profile: ClaimAleProfile) {
+    const num = (value: number | null) => (value !== null ? Number(value) : null);
+    return {
+      startDate: profile.displacementStart,
+      endDate: profile.displacementEnd,
+      householdSize: profile.householdSize,
+      zipCode: profile.zipCode,
+      savedMonthlyHousing: num(profile.savedMonthlyHousing),
+      savedMonthlyUtilities: num(profile.savedMonthlyUtilities),
+      normalMonthlyFood: num(profile.normalMonthlyFood),
+    };
+  }
+
+  function toAleExpense(expense: ClaimAleExpense) {
+    return {
+      id: expense.id,
+      date: expense.expenseDate,
+      category: expense.category,
+      amount: expense.amount !== null ? Number(expense.amount) : null,
+      miles: expense.miles !== null ? Number(expense.miles) : null,
+      nights: expense.nights,
+      description: expense.description,
+    };
+  }
+
+  async function loadClaimAle(claimId: string) {
+    const [profile, expenses] = await Promise.all([
+      storage.getClaimAleProfile(claimId),
+      storage.getClaimAleExpenses(claimId),
+    ]);
+    const { calculateAle } = await import("./services/aleCalculator");
+    const summary = profile ? calculateAle(toAleDisplacement(profile), expenses.map(toAleExpense)) : null;
+    return { profile: profile ?? null, expenses: expenses.map(toAleExpense), summary };
+  }
+
+  // Displacement details, receipts and the running ALE ledger
+  app.get("/api/user/claims/:id/ale", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    res.json(await loadClaimAle(userClaim.claimId));
+  }));
+
+  // Set the displacement dates, household size and normal living costs
+  app.put("/api/user/claims/:id/ale", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const details = aleProfileSchema.parse(req.body);
+    const zipCode = details.zipCode || userClaim.inputs?.zipCode;
+    if (!zipCode) {
+      return res.status(400).json({ error: "ZIP code is required" });
+    }
+    if (details.displacementEnd && details.displacementEnd < details.displacementStart) {
+      return res.status(400).json({ error: "Displacement end date is before the start date" });
+    }
+
+    await storage.upsertClaimAleProfile({
+      claimId: userClaim.claimId,
+      displacementStart: details.displacementStart,
+      displacementEnd: details.displacementEnd ?? null,
+      householdSize: details.householdSize,
+      zipCode,
+      savedMonthlyHousing: details.savedMonthlyHousing ?? null,
+      savedMonthlyUtilities: details.savedMonthlyUtilities ?? null,
+      normalMonthlyFood: details.normalMonthlyFood ?? null,
+    });
+    res.json(await loadClaimAle(userClaim.claimId));
+  }));
+
+  // Record a receipt
+  app.post("/api/user/claims/:id/ale/expenses", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const expense = aleExpenseSchema.parse(req.body);
+    const created = await storage.createClaimAleExpense({
+      claimId: userClaim.claimId,
+      expenseDate: expense.expenseDate,
+      category: expense.category,
+      amount: expense.amount ?? null,
+      miles: expense.miles ?? null,
+      nights: expense.nights ?? null,
+      description: expense.description || null,
+    });
+    res.status(201).json({ expense: toAleExpense(created) });
+  }));
+
+  // Remove a receipt
+  app.delete("/api/user/claims/:id/ale/expenses/:expenseId", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const deleted = await storage.deleteClaimAleExpense(userClaim.claimId, req.params.expenseId);
+    if (!deleted) {
+      return res.status(404).json({ error: "Expense not found" });
+    }
+    res.json({ success: true });
+  }));
+
+  // Download the ALE claim summary (PDF) or the ledger (CSV)
+  app.get("/api/user/claims/:id/ale/export", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const { format } = z.object({ format: z.enum(["pdf", "csv"]).default("pdf") }).parse(req.query);
+    const { summary } = await loadClaimAle(userClaim.claimId);
+    if (!summary) {
+      return res.status(400).json({ error: "Add the displacement details before exporting" });
+    }
+
+    const { aleLedgerToCsv, renderAleSummaryPdf } = await import("./services/aleCalculator");
+    if (format === "csv") {
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader("Content-Disposition", `attachment; filename=ale-ledger-${userClaim.id}.csv`);
+      return res.send(aleLedgerToCsv(summary));
+    }
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename=ale-summary-${userClaim.id}.pdf`);
+    res.send(renderAleSummaryPdf(summary));
+  }));
+
+  // ========== SHARE LINKS ==========
+
+  const shareLinkSchema = z.object({
+    label: z.string().trim().max(100).optional(),
+    expiresInDays: z.number().int().min(1).max(90).default(14),
+    passcode: z.string().min(4).max(64).optional(),
+  });
+
+  function toShareLinkResponse(link: ClaimShareLink, views: SessionEvent[] = []) {
+    return {
+      id: link.id,
+      label: link.label,
+      url: `/shared/${signShareToken(link.id, link.expiresAt, process.env.SESSION_SECRET!)}`,
+      status: shareLinkStatus(link),
+      requiresPasscode: !!link.passcodeHash,
+      expiresAt: link.expiresAt,
+      revokedAt: link.revokedAt,
+      viewCount: link.viewCount,
+      lastViewedAt: link.lastViewedAt,
+      createdAt: link.createdAt,
+      views: views
+        .filter(event => event.eventType === "page_view")
+        .slice(0, 10)
+        .map(event => {
+          const payload = (event.payload ?? {}) as { viewer?: string; viewerName?: string };
+          return { viewedAt: event.occurredAt, viewer: payload.viewer ?? null, viewerName: payload.viewerName ?? null };
+        }),
+    };
+  }
+
+  // Resolve a public share token, answering 404/410 when it can't be used
+  async function loadSharedLink(req: Request, res: Response): Promise<ClaimShareLink | null> {
+    const linkId = shareTokenLinkId(req.params.token);
+    const link = linkId ? await storage.getClaimShareLink(linkId) : undefined;
+    if (!link || !verifyShareToken(req.params.token, link.expiresAt, process.env.SESSION_SECRET!)) {
+      res.status(404).json({ error: "Share link not found" });
+      return null;
+    }
+
+    const status = shareLinkStatus(link);
+    if (status !== "active") {
+      res.status(410).json({ error: status === "revoked" ? "This link has been revoked" : "This link has expired", status });
+      return null;
+    }
+    return link;
+  }
+
+  // List the claim's share links with their recent views
+  app.get("/api/user/claims/:id/share-links", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const links = await storage.getClaimShareLinks(userClaim.id);
+    const withViews = await Promise.all(
+      links.map(async link => toShareLinkResponse(link, await storage.getSessionEvents(link.sessionId)))
+    );
+    res.json({ links: withViews });
+  }));
+
+  // Create a read-only share link for the claim's report
+  app.post("/api/user/claims/:id/share-links", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const data = shareLinkSchema.parse(req.body);
+    // Each link gets its own anonymous session so its views can be listed
+    const session = await storage.createSession({ zipCode: userClaim.inputs?.zipCode });
+    const link = await storage.createClaimShareLink({
+      userClaimId: userClaim.id,
+      sessionId: session.id,
+      label: data.label || null,
+      passcodeHash: data.passcode ? await hashPassword(data.passcode) : null,
+      expiresAt: shareLinkExpiry(data.expiresInDays),
+    });
+
+    res.status(201).json(toShareLinkResponse(link));
+  }));
+
+  // Revoke a share link; the public URL stops working immediately
+  app.delete("/api/user/claims/:id/share-links/:linkId", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const link = await storage.getClaimShareLink(req.params.linkId);
+    if (!link || link.userClaimId !== userClaim.id) {
+      return res.status(404).json({ error: "Share link not found" });
+    }
+
+    const revoked = await storage.revokeClaimShareLink(link.id);
+    res.json(toShareLinkResponse(revoked ?? link));
+  }));
+
+  // Public: whether a share link is usable and needs a passcode
+  app.get("/api/shared/:token", asyncHandler(async (req, res) => {
+    const link = await loadSharedLink(req, res);
+    if (!link) return;
+    res.json({ requiresPasscode: !!link.passcodeHash, expiresAt: link.expiresAt });
+  }));
+
+  // Public: open the shared report (counts a view)
+  app.post("/api/shared/:token/view", asyncHandler(async (req, res) => {
+    const link = await loadSharedLink(req, res);
+    if (!link) return;
+
+    const { passcode, viewerName } = z.object({
+      passcode: z.string().max(64).optional(),
+      viewerName: z.string().trim().max(100).optional(),
+    }).parse(req.body ?? {});
+
+    if (link.passcodeHash && !(passcode && await verifyPassword(passcode, link.passcodeHash))) {
+      return res.status(401).json({ error: passcode ? "Incorrect passcode" : "Passcode required", passcodeRequired: true });
+    }
+
+    const userClaim = await storage.getUserClaim(link.userClaimId);
+    const claim = userClaim ? await storage.getClaim(userClaim.claimId) : undefined;
+    if (!userClaim || !claim) {
+      return res.status(404).json({ error: "Share link not found" });
+    }
+    const lineItems = await storage.getClaimLineItems(claim.id);
+
+    await storage.recordClaimShareLinkView(link.id);
+    await storage.logEvent({
+      sessionId: link.sessionId,
+      eventType: "page_view",
+      payload: {
+        shareLinkId: link.id,
+        viewer: describeViewer(req.get("user-agent")),
+        viewerName: viewerName || undefined,
+      },
+    });
+
+    res.json({
+      expiresAt: link.expiresAt,
+      report: buildSharedReport({
+        zipCode: userClaim.inputs?.zipCode ?? "",
+        createdAt: userClaim.createdAt,
+        claim,
+        lineItems,
+      }),
+    });
+  }));
+
+  // Three-way comparison of the claim's documents
+  app.get("/api/user/claims/:id/comparison", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const documents = await storage.getClaimDocuments(userClaim.claimId);
+    const lines = await storage.getClaimDocumentLineItems(documents.map(d => d.id));
+
+    const { compareClaimDocuments, ClaimComparisonError } = await import("./services/claimComparison");
+    try {
+      const comparison = compareClaimDocuments(documents.map(document => ({
+        id: document.id,
+        documentType: document.documentType,
+        label: document.label,
+        sequence: document.sequence,
+        createdAt: document.createdAt,
+        lines: lines
+          .filter(line => line.documentId === document.id)
+          .map(line => ({
+            id: line.id,
+            description: line.description,
+            catalogCode: line.catalogCode,
+            quantity: Number(line.quantity),
+            unit: line.unit,
+            unitPrice: line.unitPrice !== null ? Number(line.unitPrice) : null,
+            rcv: Number(line.rcv),
+          })),
+      })));
+      res.json(comparison);
+    } catch (error: any) {
+      if (error instanceof ClaimComparisonError) {
+        return res.status(400).json({ error: error.message });
+      }
+      throw error;
+    }
+  }));
+
+  // Claim lifecycle: current stage, status history and statutory deadlines
+  async function getClaimLifecycle(userClaim: UserClaim) {
+    const { CLAIM_LIFECYCLE_STAGES, computeClaimDeadlines, getStateDeadlineProfile } = await import("./services/claimLifecycle");
+    const events = await storage.getUserClaimStatusEvents(userClaim.id);
+    const state = userClaim.lossState || (userClaim.inputs?.zipCode ? getStateFromZip(userClaim.inputs.zipCode) : null);
+
+    return {
+      stage: userClaim.lifecycleStage,
+      lossDate: userClaim.lossDate,
+      lossState: state,
+      carrier: userClaim.carrier,
+      jurisdiction: getStateDeadlineProfile(state).jurisdiction,
+      stages: CLAIM_LIFECYCLE_STAGES,
+      events,
+      deadlines: computeClaimDeadlines({ lossDate: userClaim.lossDate, state, events }),
+    };
+  }
+
+  app.get("/api/user/claims/:id/lifecycle", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    res.json(await getClaimLifecycle(userClaim));
+  }));
+
+  // Loss date, state and carrier drive the deadline calculations
+  app.patch("/api/user/claims/:id/lifecycle", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const updates = z.object({
+      lossDate: z.coerce.date().max(new Date(), "Loss date cannot be in the future").optional(),
+      lossState: z.string().length(2).toUpperCase().refine(isValidStateCode, "Unknown state code").optional(),
+      carrier: z.string().max(120).optional(),
+    }).parse(req.body);
+
+    const updated = await storage.updateUserClaimLifecycle(userClaim.id, updates);
+    res.json(await getClaimLifecycle(updated ?? userClaim));
+  }));
+
+  // Record a status change (filed, inspected, supplement sent, ...)
+  app.post("/api/user/claims/:id/lifecycle/events", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const { stage, note, occurredAt } = z.object({
+      stage: z.enum(claimLifecycleStage.enumValues),
+      note: z.string().max(2000).optional(),
+      occurredAt: z.coerce.date().max(new Date(), "Status date cannot be in the future").default(() => new Date()),
+    }).parse(req.body);
+
+    const { assertStageTransition, ClaimLifecycleError } = await import("./services/claimLifecycle");
+    try {
+      assertStageTransition(userClaim.lifecycleStage, stage);
+    } catch (error: any) {
+      if (error instanceof ClaimLifecycleError) {
+        return res.status(400).json({ error: error.message });
+      }
+      throw error;
+    }
+
+    await storage.createUserClaimStatusEvent({ userClaimId: userClaim.id, stage, note, occurredAt });
+    const updated = await storage.updateUserClaimLifecycle(userClaim.id, { lifecycleStage: stage });
+    res.status(201).json(await getClaimLifecycle(updated ?? userClaim));
+  }));
+
+  // ===== CLAIM RE-AUDITS - Versioned snapshots of a saved claim against current pricing =====
+
+  // The original analysis, reconstructed from the stored line items (missing items weren't recorded then)
+  async function snapshotOriginalAudit(userClaimId: string, claimId: string) {
+    const { snapshotLineFlags, summarizeSnapshotLines } = await import("./services/auditSnapshots");
+    const lineItems = await storage.getClaimLineItems(claimId);
+    const lines = lineItems.map(item => {
+      const status = Number(item.variancePct) > 10 ? "underpaid" as const : "fair" as const;
+      return {
+        category: item.category,
+        description: item.description,
+        quantity: Number(item.quantity),
+        unit: item.unit,
+        insuranceOffer: Number(item.quotedPrice),
+        fmvPrice: Number(item.fmvPrice),
+        additionalAmount: Number(item.fmvPrice) - Number(item.quotedPrice),
+        status,
+        flags: snapshotLineFlags(status),
+      };
+    });
+
+    return storage.createClaimAuditSnapshot({
+      userClaimId,
+      version: 1,
+      source: "original",
+      ...summarizeSnapshotLines(lines),
+      lines,
+      missingItems: null,
+    });
+  }
+
+  // Re-run the FMV engine (pricing DB stats, BLS inflation, scope rules, code upgrades) on the stored inputs
+  async function reauditSavedClaim(inputs: NonNullable<UserClaim["inputs"]>) {
+    const { snapshotLineFlags, summarizeSnapshotLines } = await import("./services/auditSnapshots");
+    const { evaluateScopeRules, loadScopeRules } = await import("./services/claimAudit");
+
+    const normalizedItems = inputs.items.map(normalizeClaimItem);
+    const inflationMultiplier = calculateInflationMultiplier(await getBLSInflationData(process.env.BLS_API_KEY));
+    const zipPrefix = inputs.zipCode.substring(0, 3);
+
+    const analyzed = await Promise.all(normalizedItems.map(async (item) => {
+      const pricingStats = await getScopedPricingStats(item.category, item.unit, zipPrefix).catch(() => null);
+      const analysis = analyzeClaimItemWithCitation(
+        item.category,
+        item.description,
+        item.quantity,
+        item.subtotal,
+        inputs.zipCode,
+        inflationMultiplier,
+        pricingStats
+      );
+      return { item, analysis };
+    }));
+
+    const auditLines = normalizedItems.map(item => ({
+      description: item.description,
+      category: item.category,
+      quantity: item.quantity,
+      unit: item.unit,
+      quotedPrice: item.subtotal,
+    }));
+    const codeUpgrades = auditCodeUpgrades(
+      { zipCode: inputs.zipCode, lineItems: auditLines },
+      auditLines.map(original => ({ original, marketPrice: original.quotedPrice, variance: 0, flags: [], recommendation: '' }))
+    );
+    const scope = evaluateScopeRules(auditLines, await loadScopeRules());
+
+    const lines = analyzed.map(({ item, analysis }) => ({
+      category: item.category,
+      description: item.description,
+      quantity: item.quantity,
+      unit: item.unit,
+      insuranceOffer: item.subtotal,
+      fmvPrice: analysis.fmvPrice,
+      additionalAmount: analysis.additionalAmount,
+      status: analysis.status,
+      flags: snapshotLineFlags(analysis.status, [
+        ...codeUpgrades.items.filter(upgrade => upgrade.lineItem === item.description).map(upgrade => `code_upgrade:${upgrade.requirement}`),
+        ...(analysis.citation?.confidenceLevel === "LOW" ? ["low_confidence"] : []),
+      ]),
+    }));
+
+    return {
+      ...summarizeSnapshotLines(lines),
+      inflationMultiplier,
+      lines,
+      missingItems: [
+        ...scope.items.map(item => ({ code: item.code, description: item.description, estimatedCost: item.estimatedCost })),
+        ...codeUpgrades.items.map(item => ({ code: item.upgradeCode, description: item.upgradeDescription, estimatedCost: item.estimatedCost })),
+      ],
+    };
+  }
+
+  function summarizeSnapshot(snapshot: ClaimAuditSnapshot) {
+    return {
+      id: snapshot.id,
+      version: snapshot.version,
+      source: snapshot.source,
+      totalQuoted: Number(snapshot.totalQuoted),
+      totalFmv: Number(snapshot.totalFmv),
+      additionalAmount: Number(snapshot.additionalAmount),
+      lineCount: snapshot.lines.length,
+      missingItemCount: snapshot.missingItems?.length ?? null,
+      createdAt: snapshot.createdAt,
+    };
+  }
+
+  app.get("/api/user/claims/:id/audits", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const snapshots = await storage.getClaimAuditSnapshots(userClaim.id);
+    res.json({ snapshots: snapshots.map(summarizeSnapshot) });
+  }));
+
+  // Re-audit a saved claim and diff it against the previous snapshot
+  app.post("/api/user/claims/:id/audits", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+    if (!userClaim.inputs?.items.length) {
+      return res.status(400).json({ error: "This claim was saved without its line items and can't be re-audited" });
+    }
+
+    let snapshots = await storage.getClaimAuditSnapshots(userClaim.id);
+    if (snapshots.length === 0) {
+      snapshots = [await snapshotOriginalAudit(userClaim.id, userClaim.claimId)];
+    }
+    let previous = snapshots[snapshots.length - 1];
+
+    let result;
+    try {
+      result = await reauditSavedClaim(userClaim.inputs);
+    } catch (error: any) {
+      return res.status(400).json({ error: "Stored claim items are invalid", details: error.message });
+    }
+
+    const snapshot = await storage.appendClaimAuditSnapshot({
+      userClaimId: userClaim.id,
+      source: "reaudit",
+      ...result,
+    });
+    // A concurrent re-audit may have stored a version in between
+    if (snapshot.version !== previous.version + 1) {
+      previous = await storage.getClaimAuditSnapshot(userClaim.id, snapshot.version - 1) ?? previous;
+    }
+
+    const { diffAuditSnapshots } = await import("./services/auditSnapshots");
+    res.status(201).json({
+      snapshot: summarizeSnapshot(snapshot),
+      diff: diffAuditSnapshots(previous, snapshot),
+    });
+  }));
+
+  // Per-line diff between any two snapshots (?from=1&to=3)
+  app.get("/api/user/claims/:id/audits/diff", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const { from, to } = z.object({
+      from: z.coerce.number().int().positive(),
+      to: z.coerce.number().int().positive(),
+    }).parse(req.query);
+
+    const [fromSnapshot, toSnapshot] = await Promise.all([
+      storage.getClaimAuditSnapshot(userClaim.id, from),
+      storage.getClaimAuditSnapshot(userClaim.id, to),
+    ]);
+    if (!fromSnapshot || !toSnapshot) {
+      return res.status(404).json({ error: "Audit snapshot not found" });
+    }
+
+    const { diffAuditSnapshots } = await import("./services/auditSnapshots");
+    res.json(diffAuditSnapshots(fromSnapshot, toSnapshot));
+  }));
+
+  // Photos and documents stored for a claim, capped by total size so one package stays a reasonable size
+  const MAX_DISPUTE_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+  const MAX_DISPUTE_PACKAGE_BYTES = 100 * 1024 * 1024;
+
+  async function loadDisputeAttachments(claimId: string) {
+    try {
+      const { getObjectStorageService } = await import("./utils/objectStorage");
+      const { isPhotoThumbnail, describePhoto } = await import("./services/photoEvidence");
+      const { isEmbeddableImage, isGeneratedClaimFile } = await import("./services/disputePackage");
+      const [files, photos, lineItems] = await Promise.all([
+        getObjectStorageService().listClaimFiles(claimId),
+        storage.getClaimPhotos(claimId),
+        storage.getClaimLineItems(claimId),
+      ]);
+      const photosByFile = new Map(photos.map(photo => [photo.fileName, photo]));
+      const lineItemDescriptions = new Map(lineItems.map(item => [item.id, item.description]));
+
+      const attachments: DisputeAttachment[] = [];
+      let totalBytes = 0;
+      for (const file of files) {
+        const fileName = file.name.split("/").pop() || file.name;
+        if (isPhotoThumbnail(file.name) || isGeneratedClaimFile(fileName)) continue;
+
+        const size = Number(file.metadata.size ?? 0);
+        if (size > MAX_DISPUTE_ATTACHMENT_BYTES || totalBytes + size > MAX_DISPUTE_PACKAGE_BYTES) continue;
+        totalBytes += size;
+
+        // Only images embedded in the PDF are read up front; everything else streams into the ZIP
+        const contentType = file.metadata.contentType || "application/octet-stream";
+        const data = isEmbeddableImage(contentType) ? (await file.download())[0] : () => file.createReadStream();
+        const photo = photosByFile.get(fileName);
+        attachments.push({
+          fileName: photo?.originalName ?? fileName,
+          contentType,
+          data,
+          uploadedAt: file.metadata.timeCreated,
+          details: photo ? describePhoto({
+            ...photo,
+            lineItems: (photo.lineItemIds ?? [])
+              .map(id => lineItemDescriptions.get(id))
+              .filter((description): description is string => !!description),
+          }) : undefined,
+        });
+      }
+      return attachments;
+    } catch (error) {
+      // Object storage is only reachable on Replit; the package is still useful without files
+      console.warn("[DisputePackage] Could not load claim files:", error);
+      return [];
+    }
+  }
+
+  // Build the appraisal dispute package (paginated PDF, or ZIP with the source files)
+  app.post("/api/user/claims/:id/dispute-package", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const { format, events, ...details } = z.object({
+      claimNumber: z.string().min(1),
+      lossDate: z.string().min(1),
+      carrier: z.string().min(1),
+      policyholderName: z.string().optional(),
+      propertyAddress: z.string().optional(),
+      appraiserName: z.string().optional(),
+      events: z.array(z.object({
+        date: z.string().min(1),
+        title: z.string().min(1),
+        detail: z.string().optional(),
+      })).default([]),
+      format: z.enum(["pdf", "zip"]).default("pdf"),
+    }).parse(req.body);
+
+    const [claim, lineItems, documents, statusEvents, attachments, contents] = await Promise.all([
+      storage.getClaim(userClaim.claimId),
+      storage.getClaimLineItems(userClaim.claimId),
+      storage.getClaimDocuments(userClaim.claimId),
+      storage.getUserClaimStatusEvents(userClaim.id),
+      loadDisputeAttachments(userClaim.claimId),
+      auditClaimContents(userClaim.claimId),
+    ]);
+    const { getStageLabel } = await import("./services/claimLifecycle");
+
+    const carrierEvidence = lineItems
+      .map(item => carrierIntel.getCarrierInsight(details.carrier, item.description))
+      .filter((insight): insight is NonNullable<typeof insight> => !!insight && insight.severity !== "NONE");
+
+    const timeline = [
+      { date: details.lossDate, title: "Date of loss" },
+      ...(claim ? [{ date: claim.createdAt, title: "Claim audited against fair market value" }] : []),
+      { date: userClaim.createdAt, title: "Claim saved to account" },
+      ...documents.map(document => ({
+        date: document.createdAt,
+        title: `${document.label} added`,
+        detail: document.fileName ?? undefined,
+      })),
+      ...statusEvents.map(event => ({
+        date: event.occurredAt,
+        title: getStageLabel(event.stage),
+        detail: event.note ?? undefined,
+      })),
+      ...attachments.map(attachment => ({ date: attachment.uploadedAt ?? "", title: `Uploaded ${attachment.fileName}` })),
+      ...events,
+      { date: new Date(), title: "Appraisal demanded" },
+    ];
+
+    const { generateDisputePackage } = await import("./services/disputePackage");
+    const { body, contentType, fileName } = await generateDisputePackage({
+      ...details,
+      zipCode: userClaim.inputs?.zipCode,
+      propertyAddress: details.propertyAddress || userClaim.inputs?.propertyAddress,
+      lineItems: lineItems.map(item => ({
+        description: item.description,
+        category: item.category,
+        quantity: Number(item.quantity),
+        unit: item.unit,
+        carrierAmount: Number(item.quotedPrice),
+        fmvAmount: Number(item.fmvPrice),
+      })),
+      carrierEvidence,
+      timeline,
+      attachments,
+      contents: contents.items.length > 0 ? contents : undefined,
+    }, format);
+
+    res.setHeader("Content-Type", contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    if (Buffer.isBuffer(body)) {
+      return res.send(body);
+    }
+    body.on("error", (error) => {
+      console.error("[DisputePackage] ZIP stream failed:", error);
+      res.destroy(error);
+    });
+    body.pipe(res);
+  }));
+
+  // Render the claim's report as a branded PDF, store it with the claim's files and link it from My Claims
+  app.post("/api/user/claims/:id/report", isAuthenticated, asyncHandler(async (req, res) => {
+    const userClaim = await getOwnedUserClaim(req);
+    if (!userClaim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const [claim, lineItems, contents] = await Promise.all([
+      storage.getClaim(userClaim.claimId),
+      storage.getClaimLineItems(userClaim.claimId),
+      auditClaimContents(userClaim.claimId),
+    ]);
+    if (!claim) {
+      return res.status(404).json({ error: "Claim not found" });
+    }
+
+    const zipCode = userClaim.inputs?.zipCode ?? "";
+    // Same per-line depreciation and stored totals the shared report view shows
+    const audited = buildSharedReport({ zipCode, createdAt: userClaim.createdAt, claim, lineItems });
+    const { generateCatalogCitedEstimate } = await import("./utils/pricingCitation");
+    const citations = lineItems.map(item => zipCode
+      ? generateCatalogCitedEstimate(item.description, Number(item.quantity), zipCode, { category: item.category, unit: item.unit })
+      : null);
+    const carrierInsights = userClaim.carrier
+      ? lineItems
+          .map(item => carrierIntel.getCarrierInsight(userClaim.carrier!, item.description))
+          .filter((insight): insight is NonNullable<typeof insight> => !!insight && insight.severity !== "NONE")
+      : [];
+
+    const { generateReportPdf } = await import("./utils/pdf");
+    const pdf = generateReportPdf({
+      claimId: claim.id,
+      zipCode,
+      items: audited.items.map((item, i) => ({
+        category: item.category,
+        description: item.description,
+        room: item.room,
+        quantity: item.quantity,
+        unit: item.unit,
+        insuranceOffer: item.insuranceOffer,
+        fmvPrice: item.fmvPrice,
+        variance: item.percentageIncrease,
+        citation: citations[i] ? {
+          sources: citations[i]!.sources,
+          confidenceLevel: citations[i]!.confidenceLevel,
+          shortCitation: citations[i]!.shortCitation,
+        } : undefined,
+        depreciation: item.depreciation,
+      })),
+      summary: audited.summary,
+      depreciationSummary: audited.depreciationSummary,
+      dataSources: aggregateSources(citations.filter((citation): citation is CitedPriceEstimate => !!citation)),
+      contents: contents.items.length > 0 ? contents : null,
+      carrier: userClaim.carrier,
+      carrierInsights,
+      generatedAt: new Date(),
+    });
+
+    const { getObjectStorageService } = await import("./utils/objectStorage");
+    const storageService = getObjectStorageService();
+    const reportUrl = await storageService.uploadBuffer(userClaim.claimId, `report-${Date.now()}.pdf`, pdf, "application/pdf");
+    await storage.updateUserClaimReportUrl(userClaim.id, reportUrl);
+
+    // Only the latest report is kept
+    const previousReport = userClaim.reportUrl?.match(/^\/files\/[^/]+\/(report-\d+\.pdf)$/)?.[1];
+    if (previousReport) {
+      await storageService.deleteClaimFile(userClaim.claimId, previousReport).catch(error => {
+        console.warn("[ClaimReport] Could not delete previous report:", error);
+      });
+    }
+
+    res.status(201).json({ reportUrl });
+  }));
+
+  // ===== SALES AGENT MANAGEMENT ROUTES =====
+
+  // Validate agent reference code (public endpoint for partner signup)
+  app.get("/api/agents/validate-code/:code", asyncHandler(async (req, res) => {
+    const { code } = req.params;
+    
+    if (!isValidAgentRefCodeFormat(code)) {
+      return res.json({ valid: false, error: "Invalid code format" });
+    }
+    
+    const agent = await storage.getSalesAgentByRefCode(code);
+    if (!agent) {
+      return res.json({ valid: false, error: "Agent not found" });
+    }
+    
+    if (agent.status !== 'active') {
+      return res.json({ valid: false, error: "Agent is not active" });
+    }
+    
+    res.json({ 
+      valid: true, 
+      agent: { 
+        name: agent.name, 
+        region: agent.region,
+        refCode: agent.agentRefCode,
+      } 
+    });
+  }));
+
+  // Create a new sales agent (with auto-generated ref code)
+  app.post("/api/admin/agents", requireAdmin, asyncHandler(async (req, res) => {
+    const agentData = z.object({
+      name: z.string().min(2),
+      email: z.string().email(),
+      phone: z.string().optional(),
+      region: z.string().optional(),
+      birthYear: z.number().min(1940).max(2010).optional(),
+      commissionTierId: z.string().optional(),
+    }).parse(req.body);
 
     // Create the agent first
     const agent = await storage.createSalesAgent(agentData);
@@ -3856,6 +5739,335 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ success: true });
   }));
 
+  // ===== SUPPLEMENT LETTER ROUTES =====
+
+  const supplementTemplateSchema = z.object({
+    name: z.string().min(1),
+    description: z.string().nullable().optional(),
+    subject: z.string().min(1),
+    body: z.string().min(1),
+    placeholders: z.array(z.string()).optional(),
+    isDefault: z.boolean().default(false),
+    isActive: z.boolean().default(true),
+  });
+
+  // Admin: Monthly price history of every priceDB item, plus the material indices behind it
+  app.get("/api/admin/price-history", requireAdmin, asyncHandler(async (req, res) => {
+    const { zipCode, months } = z.object({
+      zipCode: z.string().regex(/^\d{5}$/).optional(),
+      months: z.coerce.number().int().min(2).max(120).default(24),
+    }).parse(req.query);
+
+    const { getItemPriceHistory } = await import("./services/priceHistorySnapshots");
+    const { getMaterialIndexSummaries } = await import("./services/materialIndices");
+    const now = new Date();
+    const since = monthKey(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - months, 1)));
+    const priceDB = getPriceDB();
+    const [stored, indices] = await Promise.all([
+      getItemPriceHistory(Object.keys(priceDB), zipCode ? getStateFromZip(zipCode) : null, since),
+      getMaterialIndexSummaries(),
+    ]);
+    const series = Object.fromEntries(indices.map(index => [index.key, index.series]));
+
+    const items = Object.entries(priceDB).map(([name, data]) => {
+      const materialIndex = materialIndexFor(name);
+      const history = buildPriceHistory(
+        { p10: data.UNIT_PRICE, p50: data.AVERAGE_PRICE, p90: data.FMV_PRICE, asOf: data.LAST_UPDATED ?? now },
+        materialIndex,
+        { history: stored[name], series, months, now }
+      );
+      return {
+        name,
+        unit: data.UNIT,
+        avgPrice: data.AVERAGE_PRICE,
+        materialIndex,
+        snapshots: stored[name]?.length ?? 0,
+        history,
+        trend: priceTrend(history),
+      };
+    });
+
+    res.json({
+      region: zipCode ? getStateFromZip(zipCode) ?? "US" : "US",
+      items,
+      indices: indices.map(({ series: indexSeries, ...index }) => ({
+        ...index,
+        series: indexSeries.filter(point => point.period >= since),
+      })),
+    });
+  }));
+
+  // Admin: Pricing data review queue (held points by default)
+  app.get("/api/admin/pricing-review", requireAdmin, asyncHandler(async (req, res) => {
+    const filters = z.object({
+      status: z.enum(pricingDataStatus.enumValues).optional(),
+      source: z.string().min(1).optional(),
+      sessionId: z.string().min(1).optional(),
+      limit: z.coerce.number().int().min(1).max(500).optional(),
+    }).parse(req.query);
+    const queue = await storage.getPricingReviewQueue(filters);
+    res.json({ ...queue, total: queue.points.length });
+  }));
+
+  // Admin: Approve or reject pricing data points
+  app.post("/api/admin/pricing-review/decision", requireAdmin, asyncHandler(async (req, res) => {
+    const { ids, decision } = z.object({
+      ids: z.array(z.string().min(1)).min(1).max(500),
+      decision: z.enum(["approve", "reject"]),
+    }).parse(req.body);
+    const updated = await storage.reviewPricingDataPoints(ids, decision === "approve" ? "accepted" : "rejected");
+    res.json({ success: true, updated });
+  }));
+
+  // Admin: Delete every pricing data point from a source or session
+  app.post("/api/admin/pricing-review/purge", requireAdmin, asyncHandler(async (req, res) => {
+    const filters = z.object({
+      source: z.string().min(1).optional(),
+      sessionId: z.string().min(1).optional(),
+    }).refine(data => data.source || data.sessionId, { message: "A source or session id is required" })
+      .parse(req.body);
+    const deleted = await storage.purgePricingDataPoints(filters);
+    res.json({ success: true, deleted });
+  }));
+
+  // Active supplement letter templates (default first)
+  app.get("/api/supplement-templates", asyncHandler(async (req, res) => {
+    const templates = await storage.getSupplementLetterTemplates({ isActive: true });
+    res.json({ templates, total: templates.length });
+  }));
+
+  // Admin: List all supplement letter templates
+  app.get("/api/admin/supplement-templates", requireAdmin, asyncHandler(async (req, res) => {
+    const templates = await storage.getSupplementLetterTemplates();
+    res.json({ templates, total: templates.length });
+  }));
+
+  // Admin: Create supplement letter template
+  app.post("/api/admin/supplement-templates", requireAdmin, asyncHandler(async (req, res) => {
+    const { isDefault, isActive, ...data } = supplementTemplateSchema.parse(req.body);
+    const template = await storage.createSupplementLetterTemplate({
+      ...data,
+      isDefault: (isDefault ? 1 : 0) as any,
+      isActive: (isActive ? 1 : 0) as any,
+    });
+    res.status(201).json(template);
+  }));
+
+  // Admin: Update supplement letter template
+  app.patch("/api/admin/supplement-templates/:id", requireAdmin, asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const existing = await storage.getSupplementLetterTemplate(id);
+    if (!existing) {
+      res.status(404).json({ error: "Template not found" });
+      return;
+    }
+
+    const { isDefault, isActive, ...data } = supplementTemplateSchema.partial().parse(req.body);
+    await storage.updateSupplementLetterTemplate(id, {
+      ...data,
+      ...(isDefault !== undefined && { isDefault: (isDefault ? 1 : 0) as any }),
+      ...(isActive !== undefined && { isActive: (isActive ? 1 : 0) as any }),
+    });
+    res.json({ success: true });
+  }));
+
+  // Admin: Delete supplement letter template
+  app.delete("/api/admin/supplement-templates/:id", requireAdmin, asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    await storage.deleteSupplementLetterTemplate(id);
+    res.json({ success: true });
+  }));
+
+  // Generate a supplement request letter (DOCX or PDF) from an audit result
+  app.post("/api/supplement-letters", asyncHandler(async (req, res) => {
+    const { templateId, format, audit, ...details } = z.object({
+      // ClaimAuditResult (versioned claim audit) or BatchAuditResult (price database audit)
+      audit: z.union([
+        z.object({ auditedItems: z.array(z.any()), missingItems: z.array(z.string()) }).passthrough(),
+        z.object({ results: z.array(z.any()) }).passthrough(),
+      ]),
+      claimNumber: z.string().min(1),
+      lossDate: z.string().min(1),
+      carrier: z.string().min(1),
+      zipCode: z.string().regex(/^\d{5}$/).optional(),
+      policyholderName: z.string().optional(),
+      propertyAddress: z.string().optional(),
+      adjusterName: z.string().optional(),
+      senderName: z.string().optional(),
+      templateId: z.string().optional(),
+      format: z.enum(["docx", "pdf"]).default("pdf"),
+    }).parse(req.body);
+
+    let template: SupplementLetterTemplate | undefined;
+    if (templateId) {
+      template = await storage.getSupplementLetterTemplate(templateId);
+      if (!template) {
+        res.status(404).json({ error: "Template not found" });
+        return;
+      }
+    } else {
+      [template] = await storage.getSupplementLetterTemplates({ isActive: true });
+    }
+
+    // Without a stored template the built-in default wording is used
+    const { generateSupplementLetter } = await import("./services/supplementLetter");
+    const { buffer, contentType, fileName } = await generateSupplementLetter(
+      { ...details, audit: audit as any },
+      format,
+      template
+    );
+
+    res.setHeader("Content-Type", contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.send(buffer);
+  }));
+
+  // ===== SCOPE DEPENDENCY RULES ROUTES =====
+
+  const scopeRuleSchema = z.object({
+    name: z.string().min(1),
+    trade: z.string().min(1),
+    triggerCodes: z.array(z.string().min(1)).min(1),
+    requiredCodes: z.array(z.string().min(1)).min(1),
+    requiredDescription: z.string().min(1),
+    quantityMode: z.enum(["ratio", "fixed"]).default("ratio"),
+    quantityFactor: z.number().positive(),
+    unit: z.string().min(1),
+    unitPrice: z.number().nonnegative().nullable().optional(),
+    rationale: z.string().nullable().optional(),
+    priority: z.number().int().default(100),
+    isActive: z.boolean().default(true),
+  });
+
+  // Admin: List scope dependency rules
+  app.get("/api/admin/scope-rules", requireAdmin, asyncHandler(async (req, res) => {
+    const { trade } = req.query;
+    const rules = await storage.getScopeDependencyRules({ trade: trade as string });
+    res.json({ rules, total: rules.length });
+  }));
+
+  // Admin: Create scope dependency rule
+  app.post("/api/admin/scope-rules", requireAdmin, asyncHandler(async (req, res) => {
+    const data = scopeRuleSchema.parse(req.body);
+    const rule = await storage.createScopeDependencyRule({ ...data, isActive: (data.isActive ? 1 : 0) as any });
+    res.status(201).json(rule);
+  }));
+
+  // Admin: Update scope dependency rule
+  app.patch("/api/admin/scope-rules/:id", requireAdmin, asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const existing = await storage.getScopeDependencyRule(id);
+    if (!existing) {
+      res.status(404).json({ error: "Scope rule not found" });
+      return;
+    }
+
+    const { isActive, ...data } = scopeRuleSchema.partial().parse(req.body);
+    await storage.updateScopeDependencyRule(id, {
+      ...data,
+      ...(isActive !== undefined && { isActive: (isActive ? 1 : 0) as any }),
+    });
+    res.json({ success: true });
+  }));
+
+  // Admin: Delete scope dependency rule
+  app.delete("/api/admin/scope-rules/:id", requireAdmin, asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    await storage.deleteScopeDependencyRule(id);
+    res.json({ success: true });
+  }));
+
+  // ===== CATASTROPHE EVENT (DEMAND SURGE) ROUTES =====
+
+  const catastropheEventSchema = z.object({
+    name: z.string().min(1),
+    eventType: z.string().min(1),
+    stateCode: z.string().length(2).transform(code => code.toUpperCase()).refine(isValidStateCode, "Unknown state code"),
+    zipPrefixes: z.array(z.string().regex(/^\d{3}(\d{2})?$/, "ZIP prefixes must be 3 or 5 digits")).default([]),
+    cbsaCodes: z.array(z.string().regex(/^\d{5}$/, "CBSA codes must be 5 digits")).default([]),
+    startDate: z.coerce.date(),
+    peakSurgePct: z.number().positive().max(100),
+    rampDays: z.number().int().nonnegative(),
+    plateauDays: z.number().int().nonnegative(),
+    decayDays: z.number().int().positive(),
+    decayCurve: z.enum(["linear", "exponential"]),
+    notes: z.string().nullable().optional(),
+    isActive: z.boolean().default(true),
+  });
+
+  // Admin: List catastrophe events with today's surge for each
+  app.get("/api/admin/catastrophe-events", requireAdmin, asyncHandler(async (req, res) => {
+    const { stateCode } = req.query;
+    const events = await storage.getCatastropheEvents({ stateCode: stateCode as string });
+    const now = new Date();
+    res.json({
+      events: events.map(event => {
+        const surgeEvent = toSurgeEvent(event);
+        return { ...event, currentSurgePct: surgePctAt(surgeEvent, surgeEvent.startDate, now) };
+      }),
+      profiles: SURGE_PROFILES,
+      total: events.length,
+    });
+  }));
+
+  // Admin: Register a catastrophe event (defaults to the event type's surge profile)
+  app.post("/api/admin/catastrophe-events", requireAdmin, asyncHandler(async (req, res) => {
+    const profile = SURGE_PROFILES[req.body?.eventType] ?? SURGE_PROFILES.severe_storm;
+    const { isActive, ...data } = catastropheEventSchema.parse({ ...profile, ...req.body });
+    const event = await storage.createCatastropheEvent({ ...data, source: "admin", isActive: (isActive ? 1 : 0) as any });
+    const { refreshCatastropheEvents } = await import("./services/catastropheEvents");
+    await refreshCatastropheEvents();
+    res.status(201).json(event);
+  }));
+
+  // Admin: Update a catastrophe event (coverage, curve or active flag)
+  app.patch("/api/admin/catastrophe-events/:id", requireAdmin, asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const existing = await storage.getCatastropheEvent(id);
+    if (!existing) {
+      res.status(404).json({ error: "Catastrophe event not found" });
+      return;
+    }
+
+    const { isActive, ...data } = catastropheEventSchema.partial().parse(req.body);
+    await storage.updateCatastropheEvent(id, {
+      ...data,
+      ...(isActive !== undefined && { isActive: (isActive ? 1 : 0) as any }),
+    });
+    const { refreshCatastropheEvents } = await import("./services/catastropheEvents");
+    await refreshCatastropheEvents();
+    res.json({ success: true });
+  }));
+
+  // Admin: Delete a catastrophe event
+  app.delete("/api/admin/catastrophe-events/:id", requireAdmin, asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    await storage.deleteCatastropheEvent(id);
+    const { refreshCatastropheEvents } = await import("./services/catastropheEvents");
+    await refreshCatastropheEvents();
+    res.json({ success: true });
+  }));
+
+  // Admin: Import major disaster declarations from the local FEMA file
+  app.post("/api/admin/catastrophe-events/import-fema", requireAdmin, asyncHandler(async (req, res) => {
+    const { importFemaDeclarations } = await import("./services/catastropheEvents");
+    const result = await importFemaDeclarations();
+    if (!result) {
+      res.status(400).json({ error: "FEMA_DECLARATIONS_FILE is not configured" });
+      return;
+    }
+    res.json(result);
+  }));
+
+  // Surge currently applied to a ZIP code (shown alongside audit results)
+  app.get("/api/demand-surge/:zipCode", (req, res) => {
+    const { zipCode } = req.params;
+    if (!/^\d{5}$/.test(zipCode)) {
+      return res.status(400).json({ error: "ZIP code must be 5 digits" });
+    }
+    res.json({ zipCode, surge: getDemandSurge(zipCode) });
+  });
+
   // Health check endpoint with memory monitoring
   app.get("/health", (req, res) => {
     const memUsage = process.memoryUsage();
@@ -3980,6 +6192,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.error("[CarrierTrends] Failed to seed carrier trends:", error);
   }
 
+  // Seed scope dependency rules on startup
+  try {
+    await seedScopeRules();
+  } catch (error) {
+    console.error("[ScopeRules] Failed to seed scope dependency rules:", error);
+  }
+
+  // Load active catastrophe events so audits apply demand surges from the first request
+  try {
+    const { refreshCatastropheEvents } = await import("./services/catastropheEvents");
+    await refreshCatastropheEvents();
+  } catch (error) {
+    console.error("[DemandSurge] Failed to load catastrophe events:", error);
+  }
+
+  // Seed supplement letter templates on startup
+  try {
+    await seedSupplementTemplates();
+  } catch (error) {
+    console.error("[SupplementLetters] Failed to seed supplement letter templates:", error);
+  }
+
   // ===========================================
   // HEALTH CHECK ENDPOINTS - Service Redundancy
   // ===========================================
@@ -0,0 +1,44 @@
+/**
+ * Scope Dependency Rules Seed Data
+ *
+ * Loads the built-in missing-item rules into the database so admins can
+ * tune ratios, prices and wording from the dashboard.
+ */
+
+import { db } from "../db";
+import { scopeDependencyRules } from "@shared/schema";
+import { DEFAULT_SCOPE_RULES } from "../services/claimAudit/scopeRules";
+
+export async function seedScopeRules(): Promise<void> {
+  try {
+    const existing = await db.select().from(scopeDependencyRules).limit(1);
+
+    if (existing.length > 0) {
+      console.log("[Seed] Scope dependency rules already seeded");
+      return;
+    }
+
+    console.log("[Seed] Seeding scope dependency rules...");
+
+    for (const rule of DEFAULT_SCOPE_RULES) {
+      await db.insert(scopeDependencyRules).values({
+        name: rule.name,
+        trade: rule.trade,
+        triggerCodes: rule.triggerCodes,
+        requiredCodes: rule.requiredCodes,
+        requiredDescription: rule.requiredDescription,
+        quantityMode: rule.quantityMode,
+        quantityFactor: rule.quantityFactor,
+        unit: rule.unit,
+        unitPrice: rule.unitPrice ?? null,
+        rationale: rule.rationale ?? null,
+        priority: rule.priority,
+        isActive: 1 as any,
+      });
+    }
+
+    console.log(`[Seed] Seeded ${DEFAULT_SCOPE_RULES.length} scope dependency rules`);
+  } catch (error) {
+    console.error("[Seed] Error seeding scope dependency rules:", error);
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Supplement Letter Template Seed Data
+ *
+ * Loads the built-in supplement request wording so admins can edit it
+ * from the dashboard.
+ */
+
+import { storage } from "../storage";
+import { DEFAULT_SUPPLEMENT_TEMPLATES, SUPPLEMENT_LETTER_PLACEHOLDERS } from "../services/supplementLetter";
+
+export async function seedSupplementTemplates(): Promise<void> {
+  const existing = await storage.getSupplementLetterTemplates();
+  if (existing.length > 0) {
+    console.log(`[Seed] Supplement letter templates already seeded (${existing.length} found)`);
+    return;
+  }
+
+  console.log("[Seed] Seeding supplement letter templates...");
+  for (const template of DEFAULT_SUPPLEMENT_TEMPLATES) {
+    try {
+      await storage.createSupplementLetterTemplate({
+        ...template,
+        placeholders: SUPPLEMENT_LETTER_PLACEHOLDERS,
+        isDefault: (template.isDefault ? 1 : 0) as any,
+        isActive: 1 as any,
+      });
+    } catch (error) {
+      console.error(`[Seed] Failed to create supplement template ${template.name}:`, error);
+    }
+  }
+  console.log(`[Seed] Seeded ${DEFAULT_SUPPLEMENT_TEMPLATES.length} supplement letter templates`);
+}
@@ -0,0 +1,354 @@
+/**
+ * Additional Living Expenses (ALE / Coverage D)
+ *
+ * Loss of use coverage pays the *increase* in living costs while the home is
+ * uninhabitable - not the whole bill. This module turns the displacement
+ * period and the household's receipts (lodging, meals, mileage, laundry, pet
+ * boarding) into that figure: each category is offset by the normal costs
+ * the household stopped paying (rent or utilities at the damaged home, the
+ * usual grocery budget), and lodging is benchmarked against regional fair
+ * rent for a home the household's size, scaled by the CBSA cost index from
+ * hudZipCrosswalk.
+ *
+ * Output is a running ledger plus a per-category summary, exportable as a
+ * CSV ledger and a PDF claim summary. No database access; routes load the
+ * displacement details and receipts.
+ */
+
+import { getZipCrosswalk } from "../utils/hudZipCrosswalk";
+import { createPdfWriter } from "../utils/pdfWriter";
+import { csvField } from "../utils/csv";
+
+export type AleExpenseCategory = "lodging" | "meals" | "mileage" | "laundry" | "pet_boarding" | "other";
+
+export interface AleDisplacement {
+  startDate: Date | string;
+  endDate?: Date | string | null;          // null while the household is still displaced
+  householdSize: number;
+  zipCode: string;                         // ZIP of the damaged home
+  savedMonthlyHousing?: number | null;     // Rent etc. no longer being paid while displaced
+  savedMonthlyUtilities?: number | null;   // Utilities shut off or reduced at the damaged home
+  normalMonthlyFood?: number | null;       // Usual grocery budget; USDA moderate plan when omitted
+}
+
+export interface AleExpense {
+  id?: string;
+  date: Date | string;
+  category: AleExpenseCategory;
+  amount?: number | null;                  // Mileage may give miles only
+  miles?: number | null;
+  nights?: number | null;                  // Lodging receipts covering several nights
+  description?: string | null;
+}
+
+export interface AleLodgingBenchmark {
+  zipCode: string;
+  areaName: string;
+  costIndex: number;
+  bedrooms: number;
+  fairMonthlyRent: number;
+  fairNightlyRate: number;
+  source: string;
+}
+
+export interface AleLedgerEntry {
+  id?: string;
+  date: string;                            // YYYY-MM-DD
+  category: AleExpenseCategory;
+  description: string;
+  amount: number;
+  nightlyRate: number | null;
+  runningTotal: number;
+  flags: string[];
+  excluded: boolean;                       // Outside the displacement period
+}
+
+export interface AleCategorySummary {
+  category: AleExpenseCategory;
+  label: string;
+  claimed: number;
+  normalCostOffset: number;
+  additional: number;
+}
+
+export interface AleSummary {
+  startDate: string;
+  endDate: string | null;
+  asOfDate: string;
+  displacedDays: number;
+  householdSize: number;
+  lodgingBenchmark: AleLodgingBenchmark;
+  ledger: AleLedgerEntry[];
+  categories: AleCategorySummary[];
+  totalClaimed: number;
+  totalOffset: number;
+  totalAdditional: number;
+  flags: string[];
+}
+
+export class AleCalculatorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AleCalculatorError";
+  }
+}
+
+export const ALE_CATEGORY_LABELS: Record<AleExpenseCategory, string> = {
+  lodging: "Lodging",
+  meals: "Meals",
+  mileage: "Extra mileage",
+  laundry: "Laundry",
+  pet_boarding: "Pet boarding",
+  other: "Other",
+};
+
+// IRS standard business mileage rate, 2024
+export const IRS_MILEAGE_RATE = 0.67;
+
+// USDA moderate-cost food plan, monthly per person (2024 average)
+export const USDA_MODERATE_FOOD_PER_PERSON = 340;
+
+// HUD FY2024 Fair Market Rent, national average by bedroom count
+const NATIONAL_FAIR_RENT: Record<number, number> = {
+  1: 1200,
+  2: 1450,
+  3: 1900,
+  4: 2200,
+};
+
+// Nightly lodging above fair rent by these multiples is flagged; hotels are
+// expected for the first month, a furnished rental after that
+const SHORT_TERM_LODGING_DAYS = 30;
+const SHORT_TERM_LODGING_MULTIPLE = 3;
+const LONG_TERM_LODGING_MULTIPLE = 1.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toDay(value: Date | string): number {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new AleCalculatorError(`Invalid date: ${String(value)}`);
+  }
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function isoDay(day: number): string {
+  return new Date(day).toISOString().slice(0, 10);
+}
+
+function formatMoney(amount: number): string {
+  return amount.toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
+
+/**
+ * Fair monthly rent for a home sized to the household (two people per
+ * bedroom, 1-4 bedrooms) in the damaged home's area
+ */
+export function getAleLodgingBenchmark(zipCode: string, householdSize: number): AleLodgingBenchmark {
+  const bedrooms = Math.min(4, Math.max(1, Math.ceil(householdSize / 2)));
+  const crosswalk = getZipCrosswalk(zipCode);
+  const fairMonthlyRent = round(NATIONAL_FAIR_RENT[bedrooms] * crosswalk.costIndex);
+
+  return {
+    zipCode,
+    areaName: crosswalk.cbsaName ?? (crosswalk.stateCode ? `${crosswalk.stateCode} (non-metro)` : "National average"),
+    costIndex: crosswalk.costIndex,
+    bedrooms,
+    fairMonthlyRent,
+    fairNightlyRate: round((fairMonthlyRent * 12) / 365),
+    source: `HUD FY2024 Fair Market Rent (national average) x ${crosswalk.source}`,
+  };
+}
+
+/**
+ * Amount for one receipt; mileage without an amount is priced at the IRS rate
+ */
+export function aleExpenseAmount(expense: AleExpense): number {
+  if (typeof expense.amount === "number" && expense.amount > 0) return round(expense.amount);
+  if (expense.category === "mileage" && typeof expense.miles === "number" && expense.miles > 0) {
+    return round(expense.miles * IRS_MILEAGE_RATE);
+  }
+  return 0;
+}
+
+/**
+ * Build the running ledger and the additional-cost summary for a displacement
+ */
+export function calculateAle(displacement: AleDisplacement, expenses: AleExpense[], asOf: Date = new Date()): AleSummary {
+  if (!(displacement.householdSize >= 1)) {
+    throw new AleCalculatorError("Household size must be at least 1");
+  }
+
+  const start = toDay(displacement.startDate);
+  const end = displacement.endDate ? toDay(displacement.endDate) : null;
+  if (end !== null && end < start) {
+    throw new AleCalculatorError("Displacement end date is before the start date");
+  }
+  const periodEnd = end ?? Math.max(start, toDay(asOf));
+  const displacedDays = Math.round((periodEnd - start) / DAY_MS) + 1;
+  const months = (displacedDays * 12) / 365;
+
+  const benchmark = getAleLodgingBenchmark(displacement.zipCode, displacement.householdSize);
+  const totals: Record<AleExpenseCategory, number> = { lodging: 0, meals: 0, mileage: 0, laundry: 0, pet_boarding: 0, other: 0 };
+
+  let runningTotal = 0;
+  const ledger: AleLedgerEntry[] = expenses
+    .map(expense => ({ expense, day: toDay(expense.date) }))
+    .sort((a, b) => a.day - b.day)
+    .map(({ expense, day }) => {
+      const amount = aleExpenseAmount(expense);
+      const flags: string[] = [];
+      const excluded = day < start || day > periodEnd;
+      let nightlyRate: number | null = null;
+
+      if (excluded) {
+        flags.push("Outside the displacement period - not included in the totals");
+      } else {
+        runningTotal = round(runningTotal + amount);
+        totals[expense.category] += amount;
+      }
+
+      if (expense.category === "lodging" && amount > 0) {
+        nightlyRate = round(amount / Math.max(1, expense.nights ?? 1));
+        const shortTerm = (day - start) / DAY_MS < SHORT_TERM_LODGING_DAYS;
+        const multiple = shortTerm ? SHORT_TERM_LODGING_MULTIPLE : LONG_TERM_LODGING_MULTIPLE;
+        if (nightlyRate > benchmark.fairNightlyRate * multiple) {
+          flags.push(shortTerm
+            ? `${formatMoney(nightlyRate)}/night is over ${multiple}x the area's fair rent (${formatMoney(benchmark.fairNightlyRate)}/night) - keep notes on why comparable lodging wasn't available`
+            : `${formatMoney(nightlyRate)}/night after the first ${SHORT_TERM_LODGING_DAYS} days - carriers usually expect a furnished rental near ${formatMoney(benchmark.fairMonthlyRent)}/month by now`);
+        }
+      }
+      if (expense.category === "mileage" && !(expense.amount && expense.amount > 0) && expense.miles) {
+        flags.push(`${expense.miles} miles at the IRS rate of $${IRS_MILEAGE_RATE.toFixed(2)}/mile`);
+      }
+
+      return {
+        id: expense.id,
+        date: isoDay(day),
+        category: expense.category,
+        description: expense.description?.trim() || ALE_CATEGORY_LABELS[expense.category],
+        amount,
+        nightlyRate,
+        runningTotal,
+        flags,
+        excluded,
+      };
+    });
+
+  // Normal costs the household no longer pays, prorated over the displacement
+  const normalFood = displacement.normalMonthlyFood ?? USDA_MODERATE_FOOD_PER_PERSON * displacement.householdSize;
+  const offsets: Partial<Record<AleExpenseCategory, number>> = {
+    lodging: ((displacement.savedMonthlyHousing ?? 0) + (displacement.savedMonthlyUtilities ?? 0)) * months,
+    meals: normalFood * months,
+  };
+
+  const categories: AleCategorySummary[] = (Object.keys(totals) as AleExpenseCategory[])
+    .filter(category => totals[category] > 0)
+    .map(category => {
+      const claimed = round(totals[category]);
+      const normalCostOffset = round(Math.min(claimed, offsets[category] ?? 0));
+      return { category, label: ALE_CATEGORY_LABELS[category], claimed, normalCostOffset, additional: round(claimed - normalCostOffset) };
+    });
+
+  const flags: string[] = [];
+  if (totals.lodging === 0 && displacedDays > 1) {
+    flags.push(`No lodging receipts yet - fair rent for a ${benchmark.bedrooms}-bedroom home in ${benchmark.areaName} is ${formatMoney(benchmark.fairMonthlyRent)}/month`);
+  }
+  if (totals.mileage === 0) {
+    flags.push("Extra miles driven to work, school and the damaged home are claimable - log them at the IRS rate");
+  }
+
+  return {
+    startDate: isoDay(start),
+    endDate: end !== null ? isoDay(end) : null,
+    asOfDate: isoDay(periodEnd),
+    displacedDays,
+    householdSize: displacement.householdSize,
+    lodgingBenchmark: benchmark,
+    ledger,
+    categories,
+    totalClaimed: round(categories.reduce((sum, c) => sum + c.claimed, 0)),
+    totalOffset: round(categories.reduce((sum, c) => sum + c.normalCostOffset, 0)),
+    totalAdditional: round(categories.reduce((sum, c) => sum + c.additional, 0)),
+    flags,
+  };
+}
+
+/**
+ * Ledger as CSV, one receipt per row with the running total
+ */
+export function aleLedgerToCsv(summary: AleSummary): string {
+  const rows = [
+    ["Date", "Category", "Description", "Amount", "Nightly Rate", "Running Total", "Notes"],
+    ...summary.ledger.map(entry => [
+      entry.date,
+      ALE_CATEGORY_LABELS[entry.category],
+      entry.description,
+      entry.amount.toFixed(2),
+      entry.nightlyRate !== null ? entry.nightlyRate.toFixed(2) : "",
+      entry.runningTotal.toFixed(2),
+      entry.flags.join("; "),
+    ]),
+  ];
+  return rows.map(row => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+/**
+ * One-document ALE claim summary to send with the receipts
+ */
+export function renderAleSummaryPdf(summary: AleSummary, details: { claimNumber?: string; policyholderName?: string } = {}): Buffer {
+  const pdf = createPdfWriter();
+  const period = `${summary.startDate} to ${summary.endDate ?? `${summary.asOfDate} (ongoing)`}`;
+
+  pdf.text("Additional Living Expenses Claim", { size: 18, bold: true, gapAfter: 6 });
+  if (details.claimNumber) pdf.text(`Claim number: ${details.claimNumber}`, { gapAfter: 2 });
+  if (details.policyholderName) pdf.text(`Policyholder: ${details.policyholderName}`, { gapAfter: 2 });
+  pdf.text(`Displacement: ${period} (${summary.displacedDays} days), household of ${summary.householdSize}`, { gapAfter: 14 });
+
+  pdf.table({
+    headers: ["Category", "Receipts", "Normal costs", "Additional"],
+    widths: [0.4, 0.2, 0.2, 0.2],
+    align: ["left", "right", "right", "right"],
+    rows: summary.categories.map(c => [c.label, formatMoney(c.claimed), `(${formatMoney(c.normalCostOffset)})`, formatMoney(c.additional)]),
+    total: ["Total", formatMoney(summary.totalClaimed), `(${formatMoney(summary.totalOffset)})`, formatMoney(summary.totalAdditional)],
+  });
+
+  const benchmark = summary.lodgingBenchmark;
+  pdf.text(
+    `Lodging benchmark: fair rent for a ${benchmark.bedrooms}-bedroom home in ${benchmark.areaName} is ` +
+      `${formatMoney(benchmark.fairMonthlyRent)}/month (${formatMoney(benchmark.fairNightlyRate)}/night).`,
+    { size: 10, gapAfter: 2 }
+  );
+  pdf.text(`Source: ${benchmark.source}`, { size: 8, color: 100, gapAfter: 14 });
+
+  pdf.text("Expense ledger", { size: 13, bold: true, gapAfter: 8 });
+  if (summary.ledger.length === 0) {
+    pdf.text("No receipts recorded.");
+  } else {
+    pdf.table({
+      headers: ["Date", "Expense", "Amount", "Running total"],
+      widths: [0.18, 0.46, 0.18, 0.18],
+      align: ["left", "left", "right", "right"],
+      rows: summary.ledger.map(entry => [
+        entry.date,
+        `${ALE_CATEGORY_LABELS[entry.category]}: ${entry.description}`,
+        formatMoney(entry.amount),
+        formatMoney(entry.runningTotal),
+      ]),
+      notes: summary.ledger.map(entry => (entry.flags.length > 0 ? entry.flags.join(" | ") : undefined)),
+    });
+  }
+
+  pdf.text(
+    "Loss of use coverage pays the increase in living costs while the home is uninhabitable. Normal costs the household " +
+      "stopped paying during the displacement are deducted above; receipts are available on request.",
+    { size: 8, color: 100 }
+  );
+  pdf.numberPages(details.claimNumber ? `Claim ${details.claimNumber}` : "ALE claim");
+
+  return pdf.toBuffer();
+}
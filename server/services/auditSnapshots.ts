@@ -0,0 +1,149 @@
+/**
+ * Claim Audit Snapshots
+ *
+ * Each re-audit of a saved claim is stored as a numbered snapshot of its
+ * per-line FMV, status and flags. Diffing two snapshots shows how the fair
+ * market value has moved as pricing data updates, which lines changed
+ * status, and which missing scope items appeared or were resolved.
+ *
+ * Lines are matched by category, description and unit; repeated lines are
+ * paired in order of appearance.
+ */
+
+import type { AuditSnapshotLine, AuditSnapshotMissingItem } from '@shared/schema';
+
+export interface SnapshotSummary {
+  version: number;
+  lines: AuditSnapshotLine[];
+  missingItems: AuditSnapshotMissingItem[] | null;
+}
+
+export type SnapshotLineChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface SnapshotLineDiff {
+  category: string;
+  description: string;
+  unit: string;
+  change: SnapshotLineChange;
+  fmvFrom: number | null;
+  fmvTo: number | null;
+  fmvChange: number;
+  fmvChangePct: number | null;
+  statusFrom: AuditSnapshotLine['status'] | null;
+  statusTo: AuditSnapshotLine['status'] | null;
+  flagsAdded: string[];
+  flagsRemoved: string[];
+}
+
+export interface AuditSnapshotDiff {
+  fromVersion: number;
+  toVersion: number;
+  lines: SnapshotLineDiff[];
+  totals: {
+    fmvFrom: number;
+    fmvTo: number;
+    fmvChange: number;
+    additionalFrom: number;
+    additionalTo: number;
+  };
+  missingItemsCompared: boolean;  // False when either snapshot predates missing-item tracking
+  newMissingItems: AuditSnapshotMissingItem[];
+  resolvedMissingItems: AuditSnapshotMissingItem[];
+}
+
+// FMV moves smaller than a cent are rounding noise
+const FMV_TOLERANCE = 0.005;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function lineKey(line: AuditSnapshotLine): string {
+  return [line.category, line.description, line.unit].map(part => part.trim().toLowerCase()).join('|');
+}
+
+/**
+ * Flags shown on a snapshot line: the FMV status plus anything the audit
+ * attached (code upgrades, low-confidence pricing).
+ */
+export function snapshotLineFlags(status: AuditSnapshotLine['status'], extra: string[] = []): string[] {
+  return Array.from(new Set([...(status === 'underpaid' ? ['underpaid'] : []), ...extra])).sort();
+}
+
+export function summarizeSnapshotLines(lines: AuditSnapshotLine[]): { totalQuoted: number; totalFmv: number; additionalAmount: number } {
+  const totalQuoted = round2(lines.reduce((sum, line) => sum + line.insuranceOffer, 0));
+  const totalFmv = round2(lines.reduce((sum, line) => sum + line.fmvPrice, 0));
+  return { totalQuoted, totalFmv, additionalAmount: round2(totalFmv - totalQuoted) };
+}
+
+function diffLine(from: AuditSnapshotLine | null, to: AuditSnapshotLine | null): SnapshotLineDiff {
+  const line = (to ?? from)!;
+  const fmvFrom = from ? from.fmvPrice : null;
+  const fmvTo = to ? to.fmvPrice : null;
+  const fmvChange = round2((fmvTo ?? 0) - (fmvFrom ?? 0));
+  const flagsFrom = new Set(from?.flags ?? []);
+  const flagsTo = new Set(to?.flags ?? []);
+  const flagsAdded = Array.from(flagsTo).filter(flag => !flagsFrom.has(flag));
+  const flagsRemoved = Array.from(flagsFrom).filter(flag => !flagsTo.has(flag));
+
+  let change: SnapshotLineChange;
+  if (!from) change = 'added';
+  else if (!to) change = 'removed';
+  else if (Math.abs(fmvChange) >= FMV_TOLERANCE || from.status !== to.status || flagsAdded.length > 0 || flagsRemoved.length > 0) change = 'changed';
+  else change = 'unchanged';
+
+  return {
+    category: line.category,
+    description: line.description,
+    unit: line.unit,
+    change,
+    fmvFrom,
+    fmvTo,
+    fmvChange,
+    fmvChangePct: fmvFrom !== null && fmvFrom > 0 && fmvTo !== null ? Math.round((fmvChange / fmvFrom) * 1000) / 10 : null,
+    statusFrom: from?.status ?? null,
+    statusTo: to?.status ?? null,
+    flagsAdded,
+    flagsRemoved,
+  };
+}
+
+export function diffAuditSnapshots(from: SnapshotSummary, to: SnapshotSummary): AuditSnapshotDiff {
+  const remaining = new Map<string, AuditSnapshotLine[]>();
+  for (const line of from.lines) {
+    const key = lineKey(line);
+    remaining.set(key, [...(remaining.get(key) ?? []), line]);
+  }
+
+  const lines: SnapshotLineDiff[] = [];
+  for (const line of to.lines) {
+    const previous = remaining.get(lineKey(line))?.shift() ?? null;
+    lines.push(diffLine(previous, line));
+  }
+  Array.from(remaining.values()).forEach(unmatched => {
+    for (const line of unmatched) lines.push(diffLine(line, null));
+  });
+
+  const fromTotals = summarizeSnapshotLines(from.lines);
+  const toTotals = summarizeSnapshotLines(to.lines);
+
+  const missingItemsCompared = from.missingItems !== null && to.missingItems !== null;
+  const fromCodes = new Set((from.missingItems ?? []).map(item => item.code));
+  const toCodes = new Set((to.missingItems ?? []).map(item => item.code));
+
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    lines,
+    totals: {
+      fmvFrom: fromTotals.totalFmv,
+      fmvTo: toTotals.totalFmv,
+      fmvChange: round2(toTotals.totalFmv - fromTotals.totalFmv),
+      additionalFrom: fromTotals.additionalAmount,
+      additionalTo: toTotals.additionalAmount,
+    },
+    missingItemsCompared,
+    newMissingItems: missingItemsCompared ? to.missingItems!.filter(item => !fromCodes.has(item.code)) : [],
+    resolvedMissingItems: missingItemsCompared ? from.missingItems!.filter(item => !toCodes.has(item.code)) : [],
+  };
+}
@@ -0,0 +1,473 @@
+/**
+ * Batch Audit Spreadsheets
+ *
+ * Lets a public adjuster audit a whole spreadsheet of line items at once:
+ * parse an uploaded CSV or XLSX, map its columns to the batch audit fields,
+ * and - once batchQueue has priced every row - write the same sheet back out
+ * with FMV, variance, status, flags and suggestions appended to each row,
+ * plus a summary sheet.
+ *
+ * XLSX workbooks are read and written as SpreadsheetML with JSZip, the same
+ * way estimate import reads ESX archives and supplement letters write DOCX.
+ */
+
+import path from 'path';
+import JSZip from 'jszip';
+import { XMLParser } from 'fast-xml-parser';
+import type { AuditResult, AuditStatus } from '@shared/priceAudit';
+import { csvField, splitCsvLine } from '../utils/csv';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export const MAX_BATCH_SPREADSHEET_ROWS = 2000;
+
+export class BatchSpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BatchSpreadsheetError';
+  }
+}
+
+export interface ParsedSpreadsheet {
+  format: SpreadsheetFormat;
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export type BatchColumnField = 'description' | 'quantity' | 'unit' | 'price' | 'zipCode';
+
+/**
+ * Column index for each field; description and price are required
+ */
+export interface BatchColumnMapping {
+  description: number;
+  price: number;
+  quantity?: number | null;   // Unmapped quantity counts each row as 1
+  unit?: number | null;       // Checked against the matched item's unit
+  zipCode?: number | null;    // Rows are priced for their own ZIP, else the batch ZIP
+  priceIsTotal?: boolean;     // The price column holds line totals rather than unit prices
+}
+
+export type SuggestedColumnMapping = Record<BatchColumnField, number | null> & { priceIsTotal: boolean };
+
+export interface BatchSpreadsheetItem {
+  name: string;
+  price: number;
+  qty: number;
+  unit?: string;
+  zipCode?: string;
+}
+
+export interface MappedSpreadsheetRows {
+  items: BatchSpreadsheetItem[];
+  rowIndexes: number[];  // Data row each item came from
+  skipped: Array<{ row: number; reason: string }>;
+}
+
+/**
+ * What a spreadsheet batch job stores: the audited items plus the original
+ * sheet, which only its uploader may download again
+ */
+export interface SpreadsheetBatchInput {
+  items: BatchSpreadsheetItem[];
+  zipCode?: string;
+  uploadedBy: string;
+  spreadsheet: ParsedSpreadsheet & Pick<MappedSpreadsheetRows, 'rowIndexes' | 'skipped'>;
+}
+
+export interface AnnotatedSpreadsheet {
+  headers: string[];
+  rows: Array<Array<string | number>>;
+  summary: Array<[string, string | number]>;
+}
+
+export const ANNOTATION_HEADERS = ['FMV Unit Price', 'FMV Subtotal', 'Variance %', 'Underpayment', 'Audit Status', 'Flags', 'Suggestions'];
+
+const STATUS_LABELS: Record<AuditStatus, string> = {
+  PASS: 'Pass',
+  LOW: 'Underpaid',
+  FMV: 'At FMV',
+  MISSING_ITEM: 'Not in database',
+  INVALID_QUANTITY: 'Invalid quantity',
+};
+
+// Header patterns for each field, strongest first
+const HEADER_PATTERNS: Array<[BatchColumnField, RegExp[]]> = [
+  ['price', [/unit\s*(price|cost)/, /^(price|rate)$|price each|unit rate/, /price|cost/, /\brcv\b|total|amount|extended/]],
+  ['quantity', [/^(qty|quantity|qnty)$/, /quantit|\bqty\b/]],
+  ['unit', [/^(unit|units|uom)$/, /unit of measure|\buom\b/]],
+  ['zipCode', [/\bzip\b|zip\s*code|postal/]],
+  ['description', [/desc/, /item|line|name|activity|work/]],
+];
+
+const TOTAL_PRICE_HEADER = /\brcv\b|total|amount|extended/;
+
+function round(value: number, places: number = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Parse a money or quantity cell ("$1,250.00", "(40)", "12 SF")
+ */
+export function parseSpreadsheetNumber(text: string): number {
+  const trimmed = text.trim();
+  if (!trimmed) return NaN;
+  const negative = /^\(.*\)$/.test(trimmed);
+  const match = trimmed.replace(/[$,\s()]/g, '').match(/^-?\d*\.?\d+(e[+-]?\d+)?/i);
+  if (!match) return NaN;
+  const value = parseFloat(match[0]);
+  return negative ? -value : value;
+}
+
+// Spreadsheets drop leading zeros from numeric ZIP codes
+function normalizeZip(text: string): string | undefined {
+  const digits = text.trim().split('-')[0].replace(/\D/g, '');
+  if (digits.length >= 3 && digits.length <= 5) return digits.padStart(5, '0');
+  return undefined;
+}
+
+function columnIndex(ref: string): number {
+  const letters = ref.replace(/\d+$/, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+function columnLetters(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+// Text of a shared string or inline string, including rich text runs
+function xmlText(node: unknown): string {
+  if (node === undefined || node === null) return '';
+  if (typeof node !== 'object') return String(node);
+  if (Array.isArray(node)) return node.map(xmlText).join('');
+  const record = node as Record<string, unknown>;
+  if ('#text' in record) return String(record['#text']);
+  return xmlText(record.t) + xmlText(record.r);
+}
+
+async function readXlsxRows(buffer: Buffer): Promise<string[][]> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new BatchSpreadsheetError('XLSX file is not a readable workbook');
+  }
+
+  const arrayTags = new Set(['sheet', 'Relationship', 'si', 'r', 'row', 'c']);
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    parseTagValue: false,
+    parseAttributeValue: false,
+    trimValues: false,
+    isArray: (name, _jpath, _isLeaf, isAttribute) => !isAttribute && arrayTags.has(name),
+  });
+  const readXml = async (name: string): Promise<any> => {
+    const file = zip.file(name);
+    return file ? parser.parse(await file.async('string')) : null;
+  };
+
+  // The first sheet in workbook order, resolved through the workbook relationships
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbook = await readXml('xl/workbook.xml');
+  const relationships = await readXml('xl/_rels/workbook.xml.rels');
+  const firstSheetId = workbook?.workbook?.sheets?.sheet?.[0]?.['r:id'];
+  const target = relationships?.Relationships?.Relationship?.find((rel: any) => rel.Id === firstSheetId)?.Target;
+  if (typeof target === 'string') {
+    sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+
+  const sheet = await readXml(sheetPath);
+  if (!sheet) {
+    throw new BatchSpreadsheetError('XLSX workbook has no worksheet');
+  }
+  const sharedStrings: string[] = ((await readXml('xl/sharedStrings.xml'))?.sst?.si ?? []).map(xmlText);
+
+  const rows: string[][] = [];
+  for (const row of sheet.worksheet?.sheetData?.row ?? []) {
+    const rowIndex = row.r ? Number(row.r) - 1 : rows.length;
+    const cells: string[] = [];
+    (row.c ?? []).forEach((cell: any, position: number) => {
+      const index = cell.r ? columnIndex(cell.r) : position;
+      const value = cell.t === 's' ? sharedStrings[Number(xmlText(cell.v))] ?? ''
+        : cell.t === 'inlineStr' ? xmlText(cell.is)
+        : cell.t === 'b' ? (xmlText(cell.v) === '1' ? 'TRUE' : 'FALSE')
+        : xmlText(cell.v);
+      cells[index] = value;
+    });
+    rows[rowIndex] = Array.from(cells, value => (value ?? '').trim());
+  }
+  return Array.from(rows, row => row ?? []);
+}
+
+function detectFormat(fileName: string, buffer: Buffer): SpreadsheetFormat {
+  const ext = path.extname(fileName).toLowerCase();
+  if (ext === '.xls') {
+    throw new BatchSpreadsheetError('Legacy .xls workbooks are not supported; save the sheet as .xlsx or CSV');
+  }
+  if (ext === '.xlsx') return 'xlsx';
+  if (ext === '.csv') return 'csv';
+  // Workbooks are ZIP archives
+  return buffer.subarray(0, 2).toString('latin1') === 'PK' ? 'xlsx' : 'csv';
+}
+
+/**
+ * Read the first sheet of a CSV or XLSX upload; the first non-empty row is
+ * taken as the header row
+ */
+export async function parseSpreadsheet(buffer: Buffer, fileName: string): Promise<ParsedSpreadsheet> {
+  const format = detectFormat(fileName, buffer);
+  const allRows = format === 'xlsx'
+    ? await readXlsxRows(buffer)
+    : buffer.toString('utf-8').replace(/^﻿/, '').split(/\r?\n/).map(splitCsvLine);
+
+  const nonEmpty = allRows.filter(row => row.some(cell => cell !== ''));
+  if (nonEmpty.length < 2) {
+    throw new BatchSpreadsheetError('The spreadsheet needs a header row and at least one line item');
+  }
+  if (nonEmpty.length - 1 > MAX_BATCH_SPREADSHEET_ROWS) {
+    throw new BatchSpreadsheetError(`Spreadsheets can have at most ${MAX_BATCH_SPREADSHEET_ROWS} rows`);
+  }
+
+  const [headerRow, ...rows] = nonEmpty;
+  const width = Math.max(...nonEmpty.map(row => row.length));
+  const headers = Array.from({ length: width }, (_, i) => headerRow[i] || `Column ${columnLetters(i)}`);
+
+  return {
+    format,
+    fileName,
+    headers,
+    rows: rows.map(row => Array.from({ length: width }, (_, i) => row[i] ?? '')),
+  };
+}
+
+/**
+ * Guess which column holds each field from the header names
+ */
+export function suggestColumnMapping(headers: string[]): SuggestedColumnMapping {
+  const normalized = headers.map(header => header.toLowerCase().trim());
+  const used = new Set<number>();
+  const mapping: SuggestedColumnMapping = {
+    description: null, quantity: null, unit: null, price: null, zipCode: null, priceIsTotal: false,
+  };
+
+  for (const [field, patterns] of HEADER_PATTERNS) {
+    for (const pattern of patterns) {
+      const index = normalized.findIndex((header, i) => !used.has(i) && pattern.test(header));
+      if (index >= 0) {
+        mapping[field] = index;
+        used.add(index);
+        break;
+      }
+    }
+  }
+
+  if (mapping.price !== null) {
+    const priceHeader = normalized[mapping.price];
+    mapping.priceIsTotal = TOTAL_PRICE_HEADER.test(priceHeader) && !/unit|each/.test(priceHeader);
+  }
+  return mapping;
+}
+
+/**
+ * Turn sheet rows into batch audit items; rows that can't be audited are
+ * reported rather than failing the whole upload
+ */
+export function mapSpreadsheetRows(sheet: ParsedSpreadsheet, mapping: BatchColumnMapping, defaultZip?: string): MappedSpreadsheetRows {
+  const columns = [mapping.description, mapping.price, mapping.quantity, mapping.unit, mapping.zipCode];
+  if (columns.some(column => column !== null && column !== undefined && (column < 0 || column >= sheet.headers.length))) {
+    throw new BatchSpreadsheetError('Column mapping refers to a column the spreadsheet does not have');
+  }
+
+  const items: BatchSpreadsheetItem[] = [];
+  const rowIndexes: number[] = [];
+  const skipped: MappedSpreadsheetRows['skipped'] = [];
+
+  sheet.rows.forEach((row, index) => {
+    const cell = (column?: number | null) => (column === null || column === undefined ? '' : (row[column] ?? '').trim());
+    if (row.every(value => value.trim() === '')) return;
+
+    const name = cell(mapping.description);
+    if (!name) {
+      skipped.push({ row: index, reason: 'No description' });
+      return;
+    }
+
+    const qty = mapping.quantity === null || mapping.quantity === undefined ? 1 : parseSpreadsheetNumber(cell(mapping.quantity));
+    if (!Number.isFinite(qty) || qty <= 0) {
+      skipped.push({ row: index, reason: 'Quantity is missing or not a positive number' });
+      return;
+    }
+
+    const amount = parseSpreadsheetNumber(cell(mapping.price));
+    if (!Number.isFinite(amount) || amount < 0) {
+      skipped.push({ row: index, reason: 'Price is missing or not a number' });
+      return;
+    }
+
+    items.push({
+      name,
+      price: mapping.priceIsTotal ? round(amount / qty) : amount,
+      qty,
+      unit: cell(mapping.unit) || undefined,
+      zipCode: normalizeZip(cell(mapping.zipCode)) ?? defaultZip,
+    });
+    rowIndexes.push(index);
+  });
+
+  if (items.length === 0) {
+    throw new BatchSpreadsheetError('No rows could be audited with this column mapping');
+  }
+  return { items, rowIndexes, skipped };
+}
+
+/**
+ * The uploaded rows with each one's audit result appended, and the summary
+ * sheet (totals, status counts and totals per ZIP code)
+ */
+export function annotateSpreadsheet(
+  sheet: Pick<ParsedSpreadsheet, 'headers' | 'rows'>,
+  mapped: MappedSpreadsheetRows,
+  results: AuditResult[]
+): AnnotatedSpreadsheet {
+  const itemByRow = new Map(mapped.rowIndexes.map((row, itemIndex) => [row, itemIndex]));
+  const skippedByRow = new Map(mapped.skipped.map(entry => [entry.row, entry.reason]));
+
+  const rows = sheet.rows.map((row, index): Array<string | number> => {
+    const itemIndex = itemByRow.get(index);
+    const result = itemIndex !== undefined ? results[itemIndex] : undefined;
+    if (!result) {
+      const reason = skippedByRow.get(index);
+      return [...row, '', '', '', '', reason ? 'Skipped' : '', reason ?? '', ''];
+    }
+
+    const priced = !!result.marketPricing && result.subtotal > 0;
+    return [
+      ...row,
+      result.marketPricing ? result.marketPricing.fmvPrice : '',
+      result.marketPricing ? result.fmvSubtotal : '',
+      priced ? round(((result.fmvSubtotal - result.subtotal) / result.subtotal) * 100, 1) : '',
+      result.underpaymentOpportunity,
+      STATUS_LABELS[result.status] ?? result.status,
+      result.message,
+      (result.suggestions ?? []).map(suggestion => `Did you mean "${suggestion}"?`).join(' '),
+    ];
+  });
+
+  const audited = mapped.items.map((item, i) => ({ item, result: results[i] })).filter(entry => !!entry.result);
+  const totalEntered = round(audited.reduce((sum, { result }) => sum + result.subtotal, 0));
+  const totalFmv = round(audited.reduce((sum, { result }) => sum + result.fmvSubtotal, 0));
+  const totalUnderpayment = round(audited.reduce((sum, { result }) => sum + result.underpaymentOpportunity, 0));
+  const countStatus = (status: AuditStatus) => audited.filter(({ result }) => result.status === status).length;
+
+  const summary: AnnotatedSpreadsheet['summary'] = [
+    ['Rows in spreadsheet', sheet.rows.length],
+    ['Rows audited', audited.length],
+    ['Rows skipped', mapped.skipped.length],
+    ['Underpaid', countStatus('LOW')],
+    ['At fair market value', countStatus('FMV')],
+    ['Not in database', countStatus('MISSING_ITEM')],
+    ['Entered total', totalEntered],
+    ['FMV total (matched items)', totalFmv],
+    ['Underpayment opportunity', totalUnderpayment],
+  ];
+
+  const byZip = new Map<string, { rows: number; underpayment: number }>();
+  for (const { item, result } of audited) {
+    if (!item.zipCode) continue;
+    const totals = byZip.get(item.zipCode) ?? { rows: 0, underpayment: 0 };
+    totals.rows++;
+    totals.underpayment = round(totals.underpayment + result.underpaymentOpportunity);
+    byZip.set(item.zipCode, totals);
+  }
+  if (byZip.size > 1) {
+    for (const [zip, totals] of Array.from(byZip.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+      summary.push([`ZIP ${zip} underpayment (${totals.rows} rows)`, totals.underpayment]);
+    }
+  }
+
+  return { headers: [...sheet.headers, ...ANNOTATION_HEADERS], rows, summary };
+}
+
+/**
+ * Annotated rows as CSV, followed by the summary after a blank line
+ */
+export function annotatedSpreadsheetToCsv(annotated: AnnotatedSpreadsheet): string {
+  return [
+    annotated.headers.map(csvField).join(','),
+    ...annotated.rows.map(row => row.map(csvField).join(',')),
+    '',
+    'Summary,',
+    ...annotated.summary.map(([label, value]) => `${csvField(label)},${csvField(value)}`),
+  ].join('\n');
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function worksheetXml(rows: Array<Array<string | number>>): string {
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row.map((value, columnIndex) => {
+      const ref = `${columnLetters(columnIndex)}${rowIndex + 1}`;
+      if (typeof value === 'number') return `<c r="${ref}"><v>${value}</v></c>`;
+      if (value === '') return '';
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+    `<sheetData>${sheetRows.join('')}</sheetData></worksheet>`;
+}
+
+/**
+ * Annotated rows as an XLSX workbook with "Audit Results" and "Summary" sheets
+ */
+export async function annotatedSpreadsheetToXlsx(annotated: AnnotatedSpreadsheet): Promise<Buffer> {
+  const sheets = [
+    { name: 'Audit Results', rows: [annotated.headers, ...annotated.rows] },
+    { name: 'Summary', rows: [['Measure', 'Value'], ...annotated.summary] },
+  ];
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+    `<Default Extension="xml" ContentType="application/xml"/>` +
+    `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+    sheets.map((_, i) =>
+      `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    ).join('') +
+    `</Types>`);
+  zip.file('_rels/.rels',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+    `</Relationships>`);
+  zip.file('xl/workbook.xml',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+    `<sheets>${sheets.map((sheet, i) => `<sheet name="${sheet.name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>` +
+    `</workbook>`);
+  zip.file('xl/_rels/workbook.xml.rels',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    sheets.map((_, i) =>
+      `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+    ).join('') +
+    `</Relationships>`);
+  sheets.forEach((sheet, i) => zip.file(`xl/worksheets/sheet${i + 1}.xml`, worksheetXml(sheet.rows)));
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
@@ -2,6 +2,7 @@ import { db } from "../db";
 import { carrierTrends } from "@shared/schema";
 import { eq, sql } from "drizzle-orm";
 import { CARRIER_TRENDS_DATA } from "../seeds/carrierTrends";
+import { calculateMatchScore, normalizeForMatching } from "../utils/fuzzyMatch";
 
 export const CARRIER_SAMPLE_SIZES = {
   MINIMUM: 50,
@@ -410,77 +411,6 @@ export function generateRecommendation(severity: SeverityLevel, item: string): s
   }
 }
 
-const STOP_WORDS = new Set([
-  "the", "and", "for", "per", "with", "from", "this", "that", "are", "was", "were"
-]);
-
-const ROOFING_ABBREVIATIONS: Record<string, string[]> = {
-  "sq": ["square", "squares"],
-  "lf": ["linear", "foot", "feet"],
-  "sf": ["square", "foot", "feet"],
-  "hv": ["hvac", "heating", "ventilation"],
-  "arch": ["architectural", "architecture"],
-  "comp": ["composition", "composite"],
-  "asph": ["asphalt"],
-  "shgl": ["shingle", "shingles"],
-  "ins": ["install", "installation", "insurance"],
-  "rem": ["remove", "removal"],
-  "rep": ["replace", "replacement"],
-  "flsh": ["flash", "flashing"],
-  "mod": ["modifier", "modification"],
-};
-
-/**
- * Normalize a string for fuzzy matching
- * Removes special characters, converts to lowercase, extracts key tokens
- * Keeps important abbreviations used in roofing/construction trades
- */
-function normalizeForMatching(text: string): string[] {
-  const tokens = text
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, " ")
-    .split(/\s+/)
-    .filter(token => token.length >= 2 && !STOP_WORDS.has(token));
-  
-  const expandedTokens: string[] = [];
-  for (const token of tokens) {
-    expandedTokens.push(token);
-    const expansions = ROOFING_ABBREVIATIONS[token];
-    if (expansions) {
-      expandedTokens.push(...expansions);
-    }
-  }
-  
-  return expandedTokens;
-}
-
-/**
- * Calculate match score using Dice coefficient
- * More robust for comparing token sets of different sizes
- * Returns a score from 0 to 1 (higher = better match)
- */
-function calculateMatchScore(itemTokens: string[], patternTokens: string[]): number {
-  if (patternTokens.length === 0 || itemTokens.length === 0) return 0;
-  
-  let matches = 0;
-  
-  for (const itemToken of itemTokens) {
-    for (const patternToken of patternTokens) {
-      if (
-        itemToken === patternToken ||
-        (itemToken.length >= 3 && patternToken.includes(itemToken)) ||
-        (patternToken.length >= 3 && itemToken.includes(patternToken))
-      ) {
-        matches++;
-        break;
-      }
-    }
-  }
-  
-  const diceCoefficient = (2 * matches) / (itemTokens.length + patternTokens.length);
-  return diceCoefficient;
-}
-
 /**
  * Get carrier intelligence for a specific line item
  * Returns severity, warning message, recommendations, and confidence
@@ -0,0 +1,40 @@
+/**
+ * Catastrophe Event Registry
+ *
+ * Keeps the in-memory demand surge events (utils/demandSurge) in step with
+ * the catastrophe_events table, and imports FEMA major disaster
+ * declarations from the local file named by FEMA_DECLARATIONS_FILE.
+ * Reloaded at startup, hourly by the scheduler and after every admin change.
+ */
+
+import { readFile } from 'fs/promises';
+import { storage } from '../storage';
+import { setCatastropheEvents, toSurgeEvent } from '../utils/demandSurge';
+import { femaDeclarationsToEvents, parseFemaDeclarations } from '../utils/femaDeclarations';
+
+export interface FemaImportResult {
+  filePath: string;
+  declarations: number;     // Rows read from the file
+  events: number;           // Major disasters still within their surge window
+  imported: number;         // Events not imported before
+}
+
+export async function refreshCatastropheEvents(): Promise<number> {
+  const rows = await storage.getCatastropheEvents({ isActive: true });
+  setCatastropheEvents(rows.map(toSurgeEvent));
+  return rows.length;
+}
+
+export async function importFemaDeclarations(
+  filePath: string | undefined = process.env.FEMA_DECLARATIONS_FILE,
+  now: Date = new Date()
+): Promise<FemaImportResult | null> {
+  if (!filePath) return null;
+
+  const declarations = parseFemaDeclarations(await readFile(filePath, 'utf8'));
+  const events = femaDeclarationsToEvents(declarations, now);
+  const imported = await storage.importCatastropheEvents(events);
+  await refreshCatastropheEvents();
+
+  return { filePath, declarations: declarations.length, events: events.length, imported };
+}
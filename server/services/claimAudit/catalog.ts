@@ -0,0 +1,99 @@
+/**
+ * Claim Audit - Line-Item Catalog Matching
+ * Shared by all versioned implementations
+ *
+ * Resolves each claim line to a canonical catalog code so pricing lookups,
+ * category detection and missing-item checks key off the same item identity.
+ */
+
+import { getCatalogEntry, resolveLineItem, type CatalogMatch } from '@shared/lineItemCatalog';
+import { getPriceDB } from '@shared/priceAudit';
+import { getLineItemByCode } from '../../utils/baselinePricing';
+import type { AuditedLineItem, ClaimLineItem } from './types';
+
+export type CatalogPriceSource = 'price-db' | 'baseline';
+
+/**
+ * Catalog match for a claim line (an explicit catalogCode always wins)
+ */
+export function matchClaimLineItem(item: ClaimLineItem): CatalogMatch | null {
+  const explicit = getCatalogEntry(item.catalogCode);
+  if (explicit) {
+    return { code: explicit.code, entry: explicit, score: 1, matchedOn: 'code', matchedText: explicit.code };
+  }
+  return resolveLineItem(item.description, { category: item.category, unit: item.unit });
+}
+
+/**
+ * Lowercase audit trade for a category. Wizard and importer categories are
+ * display names ("Roofing", "Windows & Doors"); the auditors key their
+ * tables by the first word in lowercase.
+ */
+export function normalizeAuditCategory(category: string): string {
+  return category.toLowerCase().split(/[\s&/]+/)[0] || 'other';
+}
+
+// Keyword fallback for descriptions the catalog can't resolve
+function detectCategoryFromDescription(description: string): string {
+  const desc = description.toLowerCase();
+  if (/roof|shingle|gutter/.test(desc)) return 'roofing';
+  if (/siding|vinyl|exterior/.test(desc)) return 'siding';
+  if (/floor|carpet|tile|laminate/.test(desc)) return 'flooring';
+  if (/drywall|wall|ceiling/.test(desc)) return 'drywall';
+  if (/paint|primer|coat/.test(desc)) return 'painting';
+  if (/plumb|pipe|faucet/.test(desc)) return 'plumbing';
+  if (/electric|wiring|outlet/.test(desc)) return 'electrical';
+  if (/hvac|heat|cool|furnace/.test(desc)) return 'hvac';
+  if (/window/.test(desc)) return 'windows';
+  return 'other';
+}
+
+/**
+ * Audit category for a line: explicit category, else the catalog trade,
+ * else a keyword match on the description, else 'other'
+ */
+export function detectAuditCategory(item: ClaimLineItem, match: CatalogMatch | null): string {
+  if (item.category) return normalizeAuditCategory(item.category);
+  return match?.entry.trade || detectCategoryFromDescription(item.description);
+}
+
+/**
+ * Whether a commonly omitted scope item is already on the claim. Items the
+ * catalog places in the same trade are compared by code; anything else falls
+ * back to the caller's text check.
+ */
+export function isScopeItemCovered(
+  scopeItem: string,
+  category: string,
+  claimCodes: Set<string>,
+  textCheck: () => boolean
+): boolean {
+  const match = resolveLineItem(scopeItem, { category });
+  if (match && match.entry.trade === category) {
+    return claimCodes.has(match.code) || textCheck();
+  }
+  return textCheck();
+}
+
+export function catalogFields(match: CatalogMatch | null): Pick<AuditedLineItem, 'catalogCode' | 'catalogMatchScore'> {
+  return match ? { catalogCode: match.code, catalogMatchScore: match.score } : {};
+}
+
+/**
+ * FMV unit price for a catalog code: price DB FMV first, else the baseline rate
+ */
+export function catalogUnitPrice(code: string): { unitPrice: number | null; priceSource: CatalogPriceSource | null } {
+  const priceDB = getPriceDB();
+  const priceKey = getCatalogEntry(code)?.priceDbKeys.find(key => priceDB[key]);
+  if (priceKey) {
+    return { unitPrice: priceDB[priceKey].FMV_PRICE, priceSource: 'price-db' };
+  }
+
+  const baseline = getLineItemByCode(code);
+  if (baseline) {
+    const unitPrice = (baseline.laborRate + baseline.materialRate) * baseline.wasteFactor;
+    return { unitPrice: Math.round(unitPrice * 100) / 100, priceSource: 'baseline' };
+  }
+
+  return { unitPrice: null, priceSource: null };
+}
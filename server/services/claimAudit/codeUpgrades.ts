@@ -0,0 +1,247 @@
+/**
+ * Claim Audit - Building Code Upgrades (Ordinance & Law)
+ * Shared by all versioned implementations
+ *
+ * Flags lines the carrier priced like-for-like where the jurisdiction's
+ * adopted code requires an upgrade on repair (sealed roof deck, ice barrier,
+ * hurricane straps, GFCI/AFCI protection). The incremental cost is reported
+ * separately because it is paid under Ordinance & Law coverage, not Coverage A.
+ */
+
+import { getCatalogEntry, type CatalogEntry } from '@shared/lineItemCatalog';
+import { getJurisdictionCodeProfile, type JurisdictionCodeProfile } from '../../utils/buildingCodes';
+import { catalogUnitPrice, matchClaimLineItem } from './catalog';
+import { getReplacementCost } from './depreciation';
+import type {
+  AuditedLineItem,
+  ClaimAuditInput,
+  CodeRequirement,
+  CodeUpgradeItem,
+  CodeUpgradeSummary,
+} from './types';
+
+type UpgradeMode = 'add' | 'replace';
+
+interface CodeUpgradeCheck {
+  requirement: CodeRequirement;
+  triggerCodes: string[];
+  upgradeCodes: string[];      // Any of these on the claim satisfies the check; the first is priced
+  upgradeDescription: string;
+  // 'add': one upgrade for the whole roof, sized off the trigger lines
+  // 'replace': each trigger line should have been priced as the upgraded item
+  mode: UpgradeMode;
+  quantityFactor: number;
+  fixedQuantity?: number;
+  unit: string;
+  fallbackUnitPrice: number;
+  linePattern?: RegExp;
+  applies: (profile: JurisdictionCodeProfile) => boolean;
+  citation: (profile: JurisdictionCodeProfile) => string;
+}
+
+function ircLabel(profile: JurisdictionCodeProfile): string {
+  return profile.ircEdition ? `IRC ${profile.ircEdition}` : 'IRC';
+}
+
+const ROOF_COVERINGS = ['RFG 240', 'RFG 300S'];
+
+// Locations where NEC 210.8(A) requires GFCI protection for dwelling receptacles
+const GFCI_LOCATION_PATTERN = /kitchen|bath|laundry|garage|exterior|outdoor|outside|basement|crawl|wet bar|sink|boathouse/i;
+
+const CODE_UPGRADE_CHECKS: CodeUpgradeCheck[] = [
+  {
+    requirement: 'roof_underlayment',
+    triggerCodes: ROOF_COVERINGS,
+    upgradeCodes: ['RFG SWB'],
+    upgradeDescription: 'Secondary water barrier / sealed roof deck',
+    mode: 'add',
+    quantityFactor: 1,
+    unit: 'SQ',
+    fallbackUnitPrice: 45,
+    applies: profile => profile.roofUnderlayment !== 'standard',
+    citation: profile => profile.roofUnderlayment === 'sealed-roof-deck'
+      ? 'FBC-R 905.1.1 / FBC-EB 706.7 (sealed roof deck on re-roof)'
+      : `${ircLabel(profile)} R905.1.1 (high-wind underlayment)`,
+  },
+  {
+    requirement: 'ice_barrier',
+    triggerCodes: ROOF_COVERINGS,
+    upgradeCodes: ['RFG IWS'],
+    upgradeDescription: 'Ice barrier at eaves',
+    mode: 'add',
+    quantityFactor: 0.2,
+    unit: 'SQ',
+    fallbackUnitPrice: 110,
+    applies: profile => profile.iceBarrier,
+    citation: profile => `${ircLabel(profile)} R905.1.2 (ice barrier where required by Table R301.2)`,
+  },
+  {
+    requirement: 'hurricane_straps',
+    triggerCodes: ROOF_COVERINGS,
+    upgradeCodes: ['FRM HURS'],
+    upgradeDescription: 'Hurricane straps / roof-to-wall connections',
+    mode: 'add',
+    quantityFactor: 2.4,
+    unit: 'EA',
+    fallbackUnitPrice: 18,
+    applies: profile => profile.hurricaneStraps,
+    citation: profile => profile.stateCode === 'FL'
+      ? 'FBC-EB 706.8.1 (roof-to-wall connections on re-roof)'
+      : 'IRC R802.11 (roof uplift resistance) as locally amended for re-roofing',
+  },
+  {
+    requirement: 'gfci',
+    triggerCodes: ['ELE OUTL'],
+    upgradeCodes: ['ELE GFCI'],
+    upgradeDescription: 'GFCI receptacle',
+    mode: 'replace',
+    quantityFactor: 1,
+    unit: 'EA',
+    fallbackUnitPrice: 45,
+    linePattern: GFCI_LOCATION_PATTERN,
+    applies: () => true,
+    citation: profile => `NEC ${profile.necEdition} 210.8(A) / 406.4(D)(3) (GFCI required on replacement)`,
+  },
+  {
+    requirement: 'afci',
+    triggerCodes: ['ELE BRKR'],
+    upgradeCodes: ['ELE AFCI'],
+    upgradeDescription: 'Arc-fault (AFCI) breaker',
+    mode: 'replace',
+    quantityFactor: 1,
+    unit: 'EA',
+    fallbackUnitPrice: 95,
+    applies: profile => profile.necEdition >= 2014,
+    citation: profile => `NEC ${profile.necEdition} 210.12 (AFCI protection for modified or replaced branch circuits)`,
+  },
+  {
+    requirement: 'afci',
+    triggerCodes: ['ELE WIRE'],
+    upgradeCodes: ['ELE AFCI'],
+    upgradeDescription: 'Arc-fault (AFCI) breaker',
+    mode: 'add',
+    quantityFactor: 0,
+    fixedQuantity: 1,
+    unit: 'EA',
+    fallbackUnitPrice: 95,
+    applies: profile => profile.necEdition >= 2014,
+    citation: profile => `NEC ${profile.necEdition} 210.12(D) (AFCI protection for extended branch circuits)`,
+  },
+];
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function upgradeUnitPrice(check: CodeUpgradeCheck): number {
+  return catalogUnitPrice(check.upgradeCodes[0]).unitPrice ?? check.fallbackUnitPrice;
+}
+
+function lineQuantity(audited: AuditedLineItem, entry: CatalogEntry): number {
+  const quantity = audited.original.quantity || 0;
+  if (entry.unit === 'SQ' && audited.original.unit?.toUpperCase() === 'SF') return quantity / 100;
+  return quantity;
+}
+
+/**
+ * Check the claim against the jurisdiction's code requirements, flag the
+ * like-for-like lines and return the Ordinance & Law upgrade section.
+ */
+export function auditCodeUpgrades(
+  input: ClaimAuditInput,
+  auditedItems: AuditedLineItem[]
+): CodeUpgradeSummary {
+  const profile = getJurisdictionCodeProfile(input.zipCode);
+
+  const matched = auditedItems
+    .map(audited => ({
+      audited,
+      entry: getCatalogEntry(audited.catalogCode) ?? matchClaimLineItem(audited.original)?.entry,
+    }))
+    .filter((m): m is { audited: AuditedLineItem; entry: CatalogEntry } => !!m.entry);
+
+  const items: CodeUpgradeItem[] = [];
+
+  for (const check of CODE_UPGRADE_CHECKS) {
+    if (!check.applies(profile)) continue;
+
+    const triggers = matched.filter(m =>
+      check.triggerCodes.includes(m.entry.code)
+      && (!check.linePattern || check.linePattern.test(m.audited.original.description))
+    );
+    if (triggers.length === 0) continue;
+
+    const satisfied = matched.some(m => check.upgradeCodes.includes(m.entry.code));
+    if (satisfied) continue;
+    if (check.mode === 'add' && items.some(i => i.upgradeCode === check.upgradeCodes[0])) continue;
+
+    const unitPrice = upgradeUnitPrice(check);
+    const citation = check.citation(profile);
+    const flag = `Code upgrade: ${check.upgradeDescription} required (${citation}) - carrier priced like-for-like`;
+
+    if (check.mode === 'add') {
+      const baseQuantity = check.fixedQuantity
+        ?? triggers.reduce((sum, t) => sum + lineQuantity(t.audited, t.entry), 0) * check.quantityFactor;
+      const quantity = Math.max(1, Math.ceil(baseQuantity - 1e-9));
+
+      items.push({
+        requirement: check.requirement,
+        lineItem: triggers[0].audited.original.description,
+        catalogCode: triggers[0].entry.code,
+        upgradeCode: check.upgradeCodes[0],
+        upgradeDescription: check.upgradeDescription,
+        quantity,
+        unit: check.unit,
+        estimatedCost: round(quantity * unitPrice),
+        citation,
+      });
+      triggers.forEach(t => t.audited.flags.push(flag));
+      continue;
+    }
+
+    for (const { audited, entry } of triggers) {
+      const quantity = Math.max(1, Math.ceil(audited.original.quantity || 1));
+      // Only the difference over what the carrier already paid for the standard item is owed
+      const carrierCost = getReplacementCost(audited.original);
+      const standardCost = carrierCost > 0
+        ? carrierCost
+        : quantity * (catalogUnitPrice(entry.code).unitPrice ?? 0);
+
+      items.push({
+        requirement: check.requirement,
+        lineItem: audited.original.description,
+        catalogCode: entry.code,
+        upgradeCode: check.upgradeCodes[0],
+        upgradeDescription: check.upgradeDescription,
+        quantity,
+        unit: check.unit,
+        estimatedCost: round(Math.max(0, quantity * unitPrice - standardCost)),
+        citation,
+      });
+      audited.flags.push(flag);
+    }
+  }
+
+  const notes = [profile.notes, profile.statewide ? undefined : 'No mandatory statewide residential code - confirm local adoption with the building department']
+    .filter((note): note is string => !!note);
+
+  return {
+    jurisdiction: profile.jurisdiction,
+    stateCode: profile.stateCode ?? undefined,
+    ircEdition: profile.ircEdition,
+    necEdition: profile.necEdition,
+    items,
+    totalEstimatedCost: round(items.reduce((sum, i) => sum + i.estimatedCost, 0)),
+    notes,
+  };
+}
+
+/**
+ * Recommendation lines for the Ordinance & Law section
+ */
+export function codeUpgradeRecommendations(summary?: CodeUpgradeSummary): string[] {
+  if (!summary || summary.items.length === 0) return [];
+  return [
+    `Claim $${summary.totalEstimatedCost.toFixed(0)} under Ordinance & Law coverage for ${summary.items.length} code-required upgrade(s) in ${summary.jurisdiction} - request a code letter from the local building department`,
+  ];
+}
@@ -0,0 +1,27 @@
+/**
+ * Claim Audit - Demand Surge
+ * Shared by all versioned implementations
+ *
+ * Market prices used by the auditors are pre-event averages. While a
+ * registered catastrophe event is active in the claim's ZIP code, each
+ * implementation lifts its market prices by the surge and reports it so the
+ * adjustment is disclosed rather than folded silently into the variance.
+ */
+
+import { getDemandSurge, type DemandSurge } from '../../utils/demandSurge';
+import type { AuditedLineItem, ClaimAuditInput } from './types';
+
+export function assessDemandSurge(input: ClaimAuditInput, now: Date = new Date()): DemandSurge | null {
+  return getDemandSurge(input.zipCode, now);
+}
+
+export function demandSurgeFields(surge: DemandSurge | null): Pick<AuditedLineItem, 'demandSurgePct'> {
+  return surge ? { demandSurgePct: surge.surgePct } : {};
+}
+
+export function demandSurgeRecommendations(surge: DemandSurge | null): string[] {
+  if (!surge) return [];
+  return [
+    `Market prices include a +${surge.surgePct.toFixed(1)}% demand surge for ${surge.events[0].name} - cite it if the carrier priced the claim with pre-event rates`,
+  ];
+}
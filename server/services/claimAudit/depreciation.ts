@@ -0,0 +1,237 @@
+/**
+ * Claim Audit - Depreciation Analysis
+ * Shared by all versioned implementations
+ *
+ * Models replacement cost value (RCV), actual cash value (ACV) and the
+ * recoverable depreciation holdback. Flags depreciation rates that exceed
+ * what the item's age and material life expectancy support.
+ */
+
+import type {
+  AuditedLineItem,
+  ClaimAuditInput,
+  ClaimLineItem,
+  DepreciationAssessment,
+  DepreciationSummary,
+} from './types';
+
+interface MaterialLife {
+  pattern: RegExp;
+  label: string;
+  usefulLifeYears: number;
+}
+
+// Life expectancy by material, checked in order (most specific first)
+const MATERIAL_USEFUL_LIFE: MaterialLife[] = [
+  { pattern: /3[- ]?tab/, label: '3-tab shingles', usefulLifeYears: 20 },
+  { pattern: /laminated|architectural|dimensional/, label: 'laminated shingles', usefulLifeYears: 30 },
+  { pattern: /metal roof|standing seam|metal panel/, label: 'metal roofing', usefulLifeYears: 50 },
+  { pattern: /clay|concrete tile|slate/, label: 'tile/slate roofing', usefulLifeYears: 60 },
+  { pattern: /modified bitumen|tpo|epdm|built[- ]up/, label: 'low-slope roofing', usefulLifeYears: 20 },
+  { pattern: /shingle|roof/, label: 'composition roofing', usefulLifeYears: 25 },
+  { pattern: /gutter|downspout/, label: 'gutters', usefulLifeYears: 25 },
+  { pattern: /carpet pad|pad\b/, label: 'carpet pad', usefulLifeYears: 10 },
+  { pattern: /carpet/, label: 'carpet', usefulLifeYears: 10 },
+  { pattern: /vinyl plank|lvp|luxury vinyl|sheet vinyl/, label: 'vinyl flooring', usefulLifeYears: 20 },
+  { pattern: /laminate/, label: 'laminate flooring', usefulLifeYears: 20 },
+  { pattern: /hardwood|wood floor/, label: 'hardwood flooring', usefulLifeYears: 50 },
+  { pattern: /ceramic|porcelain|tile/, label: 'tile', usefulLifeYears: 50 },
+  { pattern: /paint|primer|stain/, label: 'paint', usefulLifeYears: 10 },
+  { pattern: /drywall|sheetrock|gypsum/, label: 'drywall', usefulLifeYears: 70 },
+  { pattern: /vinyl siding/, label: 'vinyl siding', usefulLifeYears: 40 },
+  { pattern: /fiber cement|hardie/, label: 'fiber cement siding', usefulLifeYears: 50 },
+  { pattern: /siding/, label: 'siding', usefulLifeYears: 30 },
+  { pattern: /cabinet|countertop/, label: 'cabinetry', usefulLifeYears: 30 },
+  { pattern: /water heater/, label: 'water heater', usefulLifeYears: 12 },
+  { pattern: /furnace|condenser|air handler|hvac|heat pump/, label: 'HVAC equipment', usefulLifeYears: 18 },
+  { pattern: /refrigerator|dishwasher|range|oven|washer|dryer|microwave|appliance/, label: 'appliances', usefulLifeYears: 12 },
+  { pattern: /window/, label: 'windows', usefulLifeYears: 30 },
+  { pattern: /door/, label: 'doors', usefulLifeYears: 30 },
+  { pattern: /fence/, label: 'fencing', usefulLifeYears: 15 },
+  { pattern: /insulation/, label: 'insulation', usefulLifeYears: 80 },
+  { pattern: /baseboard|trim|casing|molding/, label: 'trim', usefulLifeYears: 50 },
+];
+
+// Labor-only and service lines should not carry depreciation
+const NON_DEPRECIABLE_PATTERN = /labor|tear[- ]?off|remove|haul|debris|dumpster|permit|detach|reset|mask|clean|protect|supervision|overhead/;
+
+// Remove-and-replace lines install new material even though they name the removal
+const REPLACEMENT_PATTERN = /\br\s*&\s*r\b|remove\s*(?:&|and)\s*replace|\breplace|\binstall/;
+
+/**
+ * Whether a line is a service only (tear-off, haul, permit, ...) with no new material.
+ * "w/ ..." qualifiers describe extra work on a material line and are ignored.
+ */
+function isServiceOnlyLine(description: string): boolean {
+  const work = description.toLowerCase().split(/\s+w\/\s*/)[0];
+  return !REPLACEMENT_PATTERN.test(work) && NON_DEPRECIABLE_PATTERN.test(work);
+}
+
+// Most carriers cap depreciation; anything above this is disputed regardless of age
+export const MAX_REASONABLE_DEPRECIATION_PCT = 80;
+
+// Tolerance (percentage points) before a rate is flagged as excessive
+const EXCESSIVE_TOLERANCE_PCT = 10;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Replacement cost basis for an audited line (RCV when provided, else quoted price)
+ */
+export function getReplacementCost(item: ClaimLineItem): number {
+  return item.rcv !== undefined && item.rcv > 0 ? item.rcv : item.quotedPrice;
+}
+
+/**
+ * Carrier price for the work itself, without line sales tax and O&P
+ * (market prices are quoted before both)
+ */
+export function getPreTaxCost(item: ClaimLineItem): number {
+  return Math.max(0, getReplacementCost(item) - (item.salesTax ?? 0) - (item.overheadAndProfit ?? 0));
+}
+
+export function hasDepreciationData(item: ClaimLineItem): boolean {
+  return item.acv !== undefined
+    || item.depreciationAmount !== undefined
+    || item.depreciationPct !== undefined
+    || item.nonRecoverableDepreciation !== undefined;
+}
+
+export function resolveUsefulLife(item: ClaimLineItem): { label: string; usefulLifeYears: number } | null {
+  const text = `${item.material || ''} ${item.description}`.toLowerCase();
+  const match = MATERIAL_USEFUL_LIFE.find(m => m.pattern.test(text));
+  return match ? { label: match.label, usefulLifeYears: match.usefulLifeYears } : null;
+}
+
+/**
+ * Evaluate the depreciation applied to a single line item
+ */
+export function assessDepreciation(item: ClaimLineItem): DepreciationAssessment {
+  const rcv = getReplacementCost(item);
+
+  let depreciationAmount = 0;
+  if (item.depreciationAmount !== undefined) {
+    depreciationAmount = item.depreciationAmount;
+  } else if (item.acv !== undefined) {
+    depreciationAmount = Math.max(0, rcv - item.acv);
+  } else if (item.depreciationPct !== undefined) {
+    depreciationAmount = rcv * (item.depreciationPct / 100);
+  }
+  depreciationAmount = Math.min(Math.abs(depreciationAmount), rcv);
+
+  const depreciationPct = rcv > 0 ? (depreciationAmount / rcv) * 100 : 0;
+  const nonRecoverableDepreciation = Math.min(item.nonRecoverableDepreciation ?? 0, depreciationAmount);
+  const recoverableDepreciation = depreciationAmount - nonRecoverableDepreciation;
+  const acv = item.acv ?? rcv - depreciationAmount;
+
+  const flags: string[] = [];
+  const life = resolveUsefulLife(item);
+  let expectedDepreciationPct: number | undefined;
+
+  if (isServiceOnlyLine(item.description)) {
+    expectedDepreciationPct = 0;
+  } else if (life && item.ageYears !== undefined) {
+    expectedDepreciationPct = Math.min((item.ageYears / life.usefulLifeYears) * 100, MAX_REASONABLE_DEPRECIATION_PCT);
+  } else if (depreciationPct > MAX_REASONABLE_DEPRECIATION_PCT) {
+    expectedDepreciationPct = MAX_REASONABLE_DEPRECIATION_PCT;
+  }
+
+  let excessiveDepreciation = 0;
+  if (expectedDepreciationPct !== undefined && depreciationPct > expectedDepreciationPct + EXCESSIVE_TOLERANCE_PCT) {
+    excessiveDepreciation = rcv * ((depreciationPct - expectedDepreciationPct) / 100);
+
+    if (expectedDepreciationPct === 0) {
+      flags.push(`Depreciation applied to a labor/service line (${depreciationPct.toFixed(0)}%) - these are typically non-depreciable`);
+    } else if (life && item.ageYears !== undefined) {
+      flags.push(
+        `Excessive depreciation: ${depreciationPct.toFixed(0)}% applied vs ${expectedDepreciationPct.toFixed(0)}% expected for ${item.ageYears}-year-old ${life.label} (${life.usefulLifeYears}-year life)`
+      );
+    } else {
+      flags.push(`Depreciation of ${depreciationPct.toFixed(0)}% exceeds the ${MAX_REASONABLE_DEPRECIATION_PCT}% typical maximum`);
+    }
+  }
+
+  if (nonRecoverableDepreciation > 0) {
+    flags.push(`$${nonRecoverableDepreciation.toFixed(2)} withheld as non-recoverable depreciation - verify policy is ACV for this item`);
+  }
+
+  return {
+    rcv: round(rcv),
+    acv: round(acv),
+    depreciationAmount: round(depreciationAmount),
+    depreciationPct: round(depreciationPct),
+    recoverableDepreciation: round(recoverableDepreciation),
+    nonRecoverableDepreciation: round(nonRecoverableDepreciation),
+    usefulLifeYears: life?.usefulLifeYears,
+    expectedDepreciationPct: expectedDepreciationPct !== undefined ? round(expectedDepreciationPct) : undefined,
+    excessiveDepreciation: round(excessiveDepreciation),
+    flags,
+  };
+}
+
+/**
+ * Roll up depreciation across a claim, net of the deductible
+ */
+export function summarizeDepreciation(assessments: DepreciationAssessment[], deductible: number = 0): DepreciationSummary {
+  const sum = (pick: (a: DepreciationAssessment) => number) =>
+    round(assessments.reduce((total, a) => total + pick(a), 0));
+
+  const totalAcv = sum(a => a.acv);
+
+  return {
+    totalRcv: sum(a => a.rcv),
+    totalAcv,
+    totalDepreciation: sum(a => a.depreciationAmount),
+    recoverableDepreciation: sum(a => a.recoverableDepreciation),
+    nonRecoverableDepreciation: sum(a => a.nonRecoverableDepreciation),
+    excessiveDepreciation: sum(a => a.excessiveDepreciation),
+    deductible: round(deductible),
+    netActualCashPayment: round(Math.max(0, totalAcv - deductible)),
+    itemsWithExcessiveDepreciation: assessments.filter(a => a.excessiveDepreciation > 0).length,
+  };
+}
+
+/**
+ * Attach depreciation assessments to audited items and build the claim summary.
+ * Returns undefined when the claim carries no depreciation or deductible data.
+ */
+export function auditDepreciation(
+  input: ClaimAuditInput,
+  auditedItems: AuditedLineItem[]
+): DepreciationSummary | undefined {
+  const anyData = input.lineItems.some(hasDepreciationData);
+  if (!anyData && !input.deductible) return undefined;
+
+  const assessments = auditedItems.map(audited => {
+    const assessment = assessDepreciation(audited.original);
+    if (hasDepreciationData(audited.original)) {
+      audited.depreciation = assessment;
+      audited.flags.push(...assessment.flags);
+    }
+    return assessment;
+  });
+
+  return summarizeDepreciation(assessments, input.deductible);
+}
+
+/**
+ * Recommendation lines describing the recoverable holdback
+ */
+export function depreciationRecommendations(summary?: DepreciationSummary): string[] {
+  if (!summary) return [];
+  const recommendations: string[] = [];
+
+  if (summary.recoverableDepreciation > 0) {
+    recommendations.push(
+      `You can still claim $${summary.recoverableDepreciation.toFixed(0)} in recoverable depreciation - submit proof of completed repairs to release the holdback`
+    );
+  }
+  if (summary.excessiveDepreciation > 0) {
+    recommendations.push(
+      `Dispute $${summary.excessiveDepreciation.toFixed(0)} of excessive depreciation on ${summary.itemsWithExcessiveDepreciation} item(s) - request the carrier's age and life-expectancy basis`
+    );
+  }
+  return recommendations;
+}
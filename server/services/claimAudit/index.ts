@@ -11,9 +11,14 @@
 import * as v1RulesBasic from './v1_rulesBasic';
 import * as v2RulesAdvanced from './v2_rulesAdvanced';
 import * as v3LlmOpenAI from './v3_llmOpenAI';
+import { getReplacementCost } from './depreciation';
 import type { ClaimAuditInput, ClaimAuditResult, VersionStatus, VersionRole } from './types';
 
-export type { ClaimAuditInput, ClaimAuditResult, VersionStatus, ClaimLineItem } from './types';
+export type { ClaimAuditInput, ClaimAuditResult, VersionStatus, ClaimLineItem, DepreciationAssessment, DepreciationSummary, OverheadProfitAssessment, MissingScopeItem, ScopeDependencySummary, CodeUpgradeItem, CodeUpgradeSummary, LaborMaterialGap, LaborMaterialSplit, LaborMaterialSummary } from './types';
+export { auditCodeUpgrades } from './codeUpgrades';
+export { auditLaborMaterial } from './laborMaterial';
+export { DEFAULT_SCOPE_RULES, evaluateScopeRules, formatMissingScopeItem, type ScopeRule } from './scopeRules';
+export { loadScopeRules } from './scopeRuleStore';
 
 interface FallbackEvent {
   timestamp: Date;
@@ -94,7 +99,7 @@ export async function analyzeClaimWithFallback(input: ClaimAuditInput): Promise<
       carrierPatterns: [],
       recommendations: ['All analysis engines failed - please try again later'],
       summary: {
-        totalQuoted: input.lineItems.reduce((sum, i) => sum + i.quotedPrice, 0),
+        totalQuoted: input.lineItems.reduce((sum, i) => sum + getReplacementCost(i), 0),
         totalMarketValue: 0,
         totalUnderpayment: 0,
         itemsAudited: 0,
@@ -0,0 +1,321 @@
+/**
+ * Claim Audit - Labor vs. Material Split
+ * Shared by all versioned implementations
+ *
+ * Splits each line into labor, material and sales tax - from the carrier's
+ * breakdown when the estimate itemizes it, else inferred from the baseline
+ * labor/material rates of the line's catalog item - and reports every gap
+ * on its own: labor or material priced below the regional baseline, sales
+ * tax left off materials, and labor minimums missing or under-priced on
+ * small jobs.
+ */
+
+import { getCatalogEntry, type CatalogEntry } from '@shared/lineItemCatalog';
+import { getLineItemByCode, getStateMultiplier, type LineItemRate } from '../../utils/baselinePricing';
+import { getMaterialSalesTax } from '../../utils/salesTax';
+import { matchClaimLineItem, normalizeAuditCategory } from './catalog';
+import { getPreTaxCost, getReplacementCost } from './depreciation';
+import type {
+  AuditedLineItem,
+  ClaimAuditInput,
+  ClaimLineItem,
+  LaborMaterialGap,
+  LaborMaterialSplit,
+  LaborMaterialSummary,
+} from './types';
+
+// Smallest labor charge a contractor mobilizes a trade for (national average, before regional adjustment)
+export const LABOR_MINIMUMS: Record<string, number> = {
+  roofing: 300,
+  siding: 225,
+  flooring: 175,
+  tile: 200,
+  drywall: 225,
+  painting: 175,
+  plumbing: 200,
+  electrical: 175,
+  hvac: 225,
+  windows: 175,
+  doors: 150,
+  trim: 150,
+  cabinets: 175,
+  masonry: 225,
+  framing: 200,
+  insulation: 150,
+  fencing: 175,
+};
+
+// A carrier component this far below the baseline is reported
+const COMPONENT_SHORTFALL_PCT = 15;
+// Smaller differences are rounding in the carrier's export
+const MIN_GAP = 1;
+
+const LABOR_MINIMUM_PATTERN = /labou?r min|minimum (labou?r|charge)|min\.? charge/i;
+const SALES_TAX_PATTERN = /sales tax|material tax|\btax\b/i;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function isLaborMinimumLine(item: ClaimLineItem): boolean {
+  return LABOR_MINIMUM_PATTERN.test(item.description);
+}
+
+function isSalesTaxLine(item: ClaimLineItem): boolean {
+  return !isLaborMinimumLine(item) && SALES_TAX_PATTERN.test(item.description);
+}
+
+function lineEntry(audited: AuditedLineItem): CatalogEntry | undefined {
+  return getCatalogEntry(audited.catalogCode ?? audited.original.catalogCode) ?? matchClaimLineItem(audited.original)?.entry;
+}
+
+function lineTrade(audited: AuditedLineItem, entry: CatalogEntry | undefined): string {
+  const item = audited.original;
+  if (item.category) return normalizeAuditCategory(item.category);
+  if (isLaborMinimumLine(item)) {
+    const description = item.description.toLowerCase();
+    const named = Object.keys(LABOR_MINIMUMS).find(trade => description.includes(trade));
+    if (named) return named;
+  }
+  return entry?.trade ?? 'other';
+}
+
+function baselineQuantity(item: ClaimLineItem, rate: LineItemRate): number | null {
+  const quantity = item.quantity || 1;
+  const unit = item.unit?.toUpperCase();
+  if (!unit || unit === rate.unit) return quantity;
+  if (rate.unit === 'SQ' && unit === 'SF') return quantity / 100;
+  if (rate.unit === 'SF' && unit === 'SQ') return quantity * 100;
+  return null;
+}
+
+/**
+ * Labor, material and tax for one line. The carrier's breakdown wins; else
+ * the line cost (net of tax and O&P) is split by the baseline rate shares.
+ * Expected amounts come from the baseline rates at the regional factor.
+ */
+export function splitLineItem(
+  item: ClaimLineItem,
+  rate: LineItemRate | undefined,
+  regionalFactor: number,
+  salesTaxRatePct: number
+): LaborMaterialSplit | null {
+  const salesTax = item.salesTax ?? 0;
+  const cost = getPreTaxCost(item);
+
+  let source: LaborMaterialSplit['source'];
+  let laborCost: number;
+  let materialCost: number;
+
+  if (item.laborCost !== undefined || item.materialCost !== undefined) {
+    source = 'carrier';
+    laborCost = item.laborCost ?? Math.max(0, cost - (item.materialCost ?? 0));
+    materialCost = item.materialCost ?? Math.max(0, cost - laborCost);
+  } else if (rate && rate.laborRate + rate.materialRate > 0) {
+    source = 'inferred';
+    laborCost = cost * rate.laborRate / (rate.laborRate + rate.materialRate);
+    materialCost = cost - laborCost;
+  } else {
+    return null;
+  }
+
+  const quantity = rate ? baselineQuantity(item, rate) : null;
+  const expected = (perUnit: number) =>
+    rate && quantity !== null ? round(perUnit * quantity * rate.wasteFactor * regionalFactor) : null;
+
+  return {
+    source,
+    laborCost: round(laborCost),
+    materialCost: round(materialCost),
+    salesTax: round(salesTax),
+    expectedLaborCost: rate ? expected(rate.laborRate) : null,
+    expectedMaterialCost: rate ? expected(rate.materialRate) : null,
+    expectedSalesTax: round(materialCost * salesTaxRatePct / 100),
+  };
+}
+
+/**
+ * Split every line, flag the lines with a component gap and return the
+ * labor/material section. Labor and material are only compared when the
+ * carrier itemized them - an inferred split mirrors the baseline shares, so
+ * its components can't disagree with the line total.
+ */
+export function auditLaborMaterial(
+  input: ClaimAuditInput,
+  auditedItems: AuditedLineItem[]
+): LaborMaterialSummary {
+  const tax = getMaterialSalesTax(input.zipCode);
+  const stateMultiplier = tax.stateCode ? getStateMultiplier(tax.stateCode).multiplier : 1;
+  const taxLabel = `${tax.stateCode ?? 'state'} ${tax.ratePct}%`;
+
+  const taxLines = auditedItems.filter(audited => isSalesTaxLine(audited.original));
+  const minimumLines = auditedItems.filter(audited => isLaborMinimumLine(audited.original));
+  const workLines = auditedItems.filter(audited => !taxLines.includes(audited) && !minimumLines.includes(audited));
+
+  // Only an itemized estimate shows whether tax was charged; a plain price list may already include it
+  const itemized = taxLines.length > 0 || input.lineItems.some(item =>
+    item.salesTax !== undefined || item.laborCost !== undefined || item.materialCost !== undefined
+  );
+
+  const gaps: LaborMaterialGap[] = [];
+  const tradeLabor = new Map<string, number>();
+  let linesSplit = 0;
+  let expectedTaxTotal = 0;
+  let chargedTaxTotal = 0;
+
+  for (const audited of workLines) {
+    const item = audited.original;
+    const entry = lineEntry(audited);
+    const trade = lineTrade(audited, entry);
+    const rate = entry ? getLineItemByCode(entry.code) : undefined;
+    const regionalFactor = stateMultiplier * (1 + (audited.demandSurgePct ?? 0) / 100);
+    const split = splitLineItem(item, rate, regionalFactor, tax.ratePct);
+
+    // A line that can't be split counts in full, which can only understate a minimum shortfall
+    tradeLabor.set(trade, (tradeLabor.get(trade) ?? 0) + (split ? split.laborCost : getReplacementCost(item)));
+    if (!split) continue;
+
+    audited.laborMaterial = split;
+    linesSplit++;
+
+    if (split.source === 'carrier') {
+      const components = [
+        { kind: 'labor' as const, label: 'Labor', carrier: split.laborCost, expected: split.expectedLaborCost },
+        { kind: 'material' as const, label: 'Material', carrier: split.materialCost, expected: split.expectedMaterialCost },
+      ];
+      for (const { kind, label, carrier, expected } of components) {
+        if (!expected) continue;
+        const shortfall = round(expected - carrier);
+        const shortfallPct = (shortfall / expected) * 100;
+        if (shortfall < MIN_GAP || shortfallPct <= COMPONENT_SHORTFALL_PCT) continue;
+
+        const detail = `${label} priced at $${carrier.toFixed(2)} vs $${expected.toFixed(2)} regional baseline (${shortfallPct.toFixed(0)}% low)`;
+        gaps.push({ kind, lineItem: item.description, trade, carrierAmount: carrier, expectedAmount: expected, shortfall, detail });
+        audited.flags.push(detail);
+      }
+    }
+
+    expectedTaxTotal += split.expectedSalesTax;
+    chargedTaxTotal += split.salesTax;
+
+    // Estimates that total tax on separate lines are checked once for the whole claim below
+    if (itemized && taxLines.length === 0 && tax.ratePct > 0) {
+      const shortfall = round(split.expectedSalesTax - split.salesTax);
+      if (shortfall >= MIN_GAP) {
+        const detail = `Sales tax on $${split.materialCost.toFixed(2)} of materials: $${split.salesTax.toFixed(2)} charged vs $${split.expectedSalesTax.toFixed(2)} at the ${taxLabel} rate`;
+        gaps.push({
+          kind: 'sales_tax',
+          lineItem: item.description,
+          trade,
+          carrierAmount: split.salesTax,
+          expectedAmount: split.expectedSalesTax,
+          shortfall,
+          detail,
+        });
+        audited.flags.push(detail);
+      }
+    }
+  }
+
+  if (taxLines.length > 0 && tax.ratePct > 0) {
+    const charged = round(chargedTaxTotal + taxLines.reduce((sum, audited) => sum + getReplacementCost(audited.original), 0));
+    const expected = round(expectedTaxTotal);
+    const shortfall = round(expected - charged);
+    if (shortfall >= MIN_GAP) {
+      gaps.push({
+        kind: 'sales_tax',
+        lineItem: taxLines[0].original.description,
+        trade: 'general',
+        carrierAmount: charged,
+        expectedAmount: expected,
+        shortfall,
+        detail: `Material sales tax of $${charged.toFixed(2)} is below the $${expected.toFixed(2)} owed at the ${taxLabel} rate`,
+      });
+    }
+  }
+
+  // Labor minimum lines already on the estimate, by trade
+  const chargedMinimums = new Map<string, number>();
+  for (const audited of minimumLines) {
+    const trade = lineTrade(audited, lineEntry(audited));
+    chargedMinimums.set(trade, (chargedMinimums.get(trade) ?? 0) + getReplacementCost(audited.original));
+  }
+
+  const trades = Array.from(new Set(Array.from(tradeLabor.keys()).concat(Array.from(chargedMinimums.keys()))));
+  for (const trade of trades) {
+    if (!LABOR_MINIMUMS[trade]) continue;
+    const minimum = round(LABOR_MINIMUMS[trade] * stateMultiplier);
+    const labor = round(tradeLabor.get(trade) ?? 0);
+    const charged = chargedMinimums.get(trade);
+
+    if (charged !== undefined) {
+      // The minimum charge tops the trade's labor up to the minimum
+      const shortfall = round(minimum - labor - charged);
+      if (shortfall < MIN_GAP) continue;
+      gaps.push({
+        kind: 'labor_minimum',
+        lineItem: `Labor minimum (${trade})`,
+        trade,
+        carrierAmount: round(charged),
+        expectedAmount: round(minimum - labor),
+        shortfall,
+        detail: `Labor minimum for ${trade} priced at $${charged.toFixed(2)} leaves labor $${shortfall.toFixed(2)} short of the $${minimum.toFixed(2)} minimum`,
+      });
+    } else if (labor > 0 && minimum - labor >= MIN_GAP) {
+      gaps.push({
+        kind: 'labor_minimum',
+        lineItem: `Labor minimum (${trade})`,
+        trade,
+        carrierAmount: 0,
+        expectedAmount: round(minimum - labor),
+        shortfall: round(minimum - labor),
+        detail: `Small ${trade} job: $${labor.toFixed(2)} of labor is below the $${minimum.toFixed(2)} labor minimum and no minimum charge is included`,
+      });
+    }
+  }
+
+  const sumShortfall = (items: LaborMaterialGap[]) => round(items.reduce((sum, gap) => sum + gap.shortfall, 0));
+
+  return {
+    stateCode: tax.stateCode ?? undefined,
+    salesTaxRatePct: tax.ratePct,
+    linesSplit,
+    gaps,
+    totalShortfall: sumShortfall(gaps),
+    additionalAmount: sumShortfall(gaps.filter(gap => gap.kind === 'sales_tax' || gap.kind === 'labor_minimum')),
+  };
+}
+
+/**
+ * Recommendation lines for the labor/material section
+ */
+export function laborMaterialRecommendations(summary?: LaborMaterialSummary): string[] {
+  if (!summary || summary.gaps.length === 0) return [];
+
+  const ofKind = (...kinds: LaborMaterialGap['kind'][]) => summary.gaps.filter(gap => kinds.includes(gap.kind));
+  const total = (gaps: LaborMaterialGap[]) => gaps.reduce((sum, gap) => sum + gap.shortfall, 0).toFixed(0);
+  const recommendations: string[] = [];
+
+  const components = ofKind('labor', 'material');
+  if (components.length > 0) {
+    recommendations.push(
+      `Ask the carrier to support ${components.length} labor/material rate(s) priced below the regional baseline ($${total(components)} short)`
+    );
+  }
+
+  const salesTax = ofKind('sales_tax');
+  if (salesTax.length > 0) {
+    recommendations.push(
+      `Request $${total(salesTax)} of sales tax on materials at the ${summary.stateCode ?? 'state'} ${summary.salesTaxRatePct}% rate`
+    );
+  }
+
+  const minimums = ofKind('labor_minimum');
+  if (minimums.length > 0) {
+    recommendations.push(
+      `Request $${total(minimums)} in labor minimum charges for small ${minimums.map(gap => gap.trade).join(', ')} jobs`
+    );
+  }
+
+  return recommendations;
+}
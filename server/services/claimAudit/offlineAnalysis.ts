@@ -0,0 +1,132 @@
+/**
+ * Offline Claim Analysis
+ *
+ * Runs the v1 basic rules engine - which has no network or database
+ * dependencies - on a /api/claims/analyze request and shapes the result like
+ * that endpoint's response, so the claim wizard can show results in the
+ * browser when there is no connection. Prices are the engine's hardcoded
+ * category averages; there are no citations or regional adjustments.
+ */
+
+import { analyze } from './v1_rulesBasic';
+import { getPreTaxCost } from './depreciation';
+import type { ClaimLineItem, CodeUpgradeSummary, DepreciationAssessment, DepreciationSummary } from './types';
+
+export interface OfflineAnalysisRequest {
+  zipCode: string;
+  propertyAddress?: string;
+  items: Array<{
+    category: string;
+    description: string;
+    quantity: number;
+    unit?: string;
+    quotedPrice: number;
+    acv?: number;
+    depreciationAmount?: number;
+    nonRecoverableDepreciation?: number;
+    ageYears?: number;
+    room?: string;
+  }>;
+  deductible?: number;
+}
+
+export interface OfflineAnalysisItem {
+  category: string;
+  description: string;
+  room: string | null;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  insuranceOffer: number;
+  fmvPrice: number;
+  additionalAmount: number;
+  percentageIncrease: number;
+  status: 'underpaid' | 'fair';
+  citation: null;
+  depreciation: DepreciationAssessment | null;
+}
+
+export interface OfflineAnalysisResponse {
+  zipCode: string;
+  items: OfflineAnalysisItem[];
+  summary: {
+    totalInsuranceOffer: number;
+    totalFMV: number;
+    totalAdditional: number;
+    overallIncrease: number;
+  };
+  depreciationSummary: DepreciationSummary | null;
+  codeUpgrades: CodeUpgradeSummary | null;
+  missingItems: string[];
+  recommendations: string[];
+  offline: true;
+  engine: string;
+}
+
+// Same threshold v1 uses to flag an item as potentially underpaid
+const UNDERPAID_VARIANCE_PCT = 20;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export async function analyzeClaimOffline(request: OfflineAnalysisRequest): Promise<OfflineAnalysisResponse> {
+  const lineItems: ClaimLineItem[] = request.items.map(item => ({
+    description: item.description,
+    category: item.category,
+    quantity: item.quantity,
+    unit: item.unit,
+    quotedPrice: item.quotedPrice,
+    acv: item.acv,
+    depreciationAmount: item.depreciationAmount,
+    nonRecoverableDepreciation: item.nonRecoverableDepreciation,
+    ageYears: item.ageYears,
+  }));
+
+  const result = await analyze({ zipCode: request.zipCode, lineItems, deductible: request.deductible });
+
+  const items = result.auditedItems.map((audited, index): OfflineAnalysisItem => {
+    const source = request.items[index];
+    const insuranceOffer = getPreTaxCost(audited.original);
+    const underpaid = audited.variance > UNDERPAID_VARIANCE_PCT;
+    const fmvPrice = round(underpaid ? audited.marketPrice : insuranceOffer);
+    const additionalAmount = round(fmvPrice - insuranceOffer);
+
+    return {
+      category: source.category,
+      description: source.description,
+      room: source.room ?? null,
+      quantity: source.quantity,
+      unit: source.unit || 'EA',
+      unitPrice: source.quantity > 0 ? round(insuranceOffer / source.quantity) : insuranceOffer,
+      insuranceOffer,
+      fmvPrice,
+      additionalAmount,
+      percentageIncrease: insuranceOffer > 0 ? round((additionalAmount / insuranceOffer) * 100) : 0,
+      status: underpaid ? 'underpaid' : 'fair',
+      citation: null,
+      depreciation: audited.depreciation ?? null,
+    };
+  });
+
+  const totalInsuranceOffer = round(items.reduce((sum, item) => sum + item.insuranceOffer, 0));
+  const totalFMV = round(items.reduce((sum, item) => sum + item.fmvPrice, 0));
+  const totalAdditional = round(totalFMV - totalInsuranceOffer);
+
+  return {
+    zipCode: request.zipCode,
+    items,
+    summary: {
+      totalInsuranceOffer,
+      totalFMV,
+      totalAdditional,
+      overallIncrease: totalInsuranceOffer > 0 ? round((totalAdditional / totalInsuranceOffer) * 100) : 0,
+    },
+    depreciationSummary: result.depreciationSummary ?? null,
+    codeUpgrades: result.codeUpgrades && result.codeUpgrades.items.length > 0 ? result.codeUpgrades : null,
+    missingItems: result.missingItems,
+    recommendations: result.recommendations,
+    offline: true,
+    engine: result.version,
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * Claim Audit - Overhead & Profit (O&P) Analysis
+ * Shared by all versioned implementations
+ *
+ * Decides whether general contractor overhead and profit is warranted
+ * (trade count, job complexity, state guidance), computes the amount the
+ * estimate should carry, and reports what the carrier left out.
+ */
+
+import { extractTradesFromClaimItems } from '../partnerRouter';
+import { getStateFromZip } from '../../utils/zipToState';
+import { getReplacementCost } from './depreciation';
+import type { ClaimAuditInput, ClaimLineItem, OverheadProfitAssessment } from './types';
+
+// Industry standard is 10% overhead + 10% profit on the repair subtotal
+export const DEFAULT_OVERHEAD_PCT = 10;
+export const DEFAULT_PROFIT_PCT = 10;
+
+interface StateOPRule {
+  minTrades: number;
+  note: string;
+}
+
+// Default "three-trade" convention unless a state applies a lower threshold
+const DEFAULT_OP_RULE: StateOPRule = {
+  minTrades: 3,
+  note: 'Industry convention: O&P is owed when three or more trades require general contractor coordination',
+};
+
+const STATE_OP_RULES: Record<string, StateOPRule> = {
+  GA: {
+    minTrades: 2,
+    note: 'Georgia: O&P is owed when a general contractor is reasonably likely to be needed (Mills v. Foremost Ins. Co.)',
+  },
+  FL: {
+    minTrades: 2,
+    note: 'Florida: carriers are expected to include O&P when the use of a general contractor is reasonably foreseeable',
+  },
+  LA: {
+    minTrades: 2,
+    note: 'Louisiana: O&P is routinely owed on multi-trade storm repairs requiring contractor coordination',
+  },
+};
+
+// Line descriptions that indicate O&P is already included in the estimate
+const OP_LINE_PATTERN = /\bo\s*&\s*p\b|overhead|general contractor (fee|markup)/i;
+
+// Scope signals that require coordination beyond a single trade
+const COMPLEXITY_SIGNALS: Array<{ pattern: RegExp; factor: string }> = [
+  { pattern: /permit|inspection/, factor: 'Permits and inspections must be scheduled' },
+  { pattern: /structural|joist|rafter|truss|framing|beam/, factor: 'Structural repairs require sequencing' },
+  { pattern: /mitigation|dry ?out|dehumidif|water extraction/, factor: 'Water mitigation precedes rebuild' },
+  { pattern: /mold|asbestos|lead|abatement/, factor: 'Hazardous material abatement' },
+  { pattern: /engineer|architect/, factor: 'Engineering or design oversight' },
+  { pattern: /content manipulation|move out|pack ?out/, factor: 'Contents must be moved for repairs' },
+];
+
+const COMPLEX_CLAIM_TOTAL = 10000;
+const COMPLEX_LINE_COUNT = 15;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function isOverheadProfitLine(item: ClaimLineItem): boolean {
+  return OP_LINE_PATTERN.test(item.description);
+}
+
+export function getStateOPRule(state?: string | null): StateOPRule {
+  return (state && STATE_OP_RULES[state]) || DEFAULT_OP_RULE;
+}
+
+/**
+ * Determine O&P eligibility and compute the amount missing from the estimate
+ */
+export function assessOverheadProfit(input: ClaimAuditInput): OverheadProfitAssessment {
+  const workItems = input.lineItems.filter(item => !isOverheadProfitLine(item));
+  const trades = extractTradesFromClaimItems(
+    workItems.map(item => ({ itemName: item.description, category: item.category?.toLowerCase() }))
+  );
+  const state = getStateFromZip(input.zipCode);
+  const rule = getStateOPRule(state);
+
+  const includedAmount = round(
+    input.lineItems.reduce((sum, item) => {
+      if (isOverheadProfitLine(item)) return sum + getReplacementCost(item);
+      return sum + (item.overheadAndProfit ?? 0);
+    }, 0)
+  );
+
+  // O&P is calculated on the repair subtotal, excluding any O&P already embedded in RCV
+  const baseAmount = round(
+    workItems.reduce((sum, item) => sum + getReplacementCost(item) - (item.overheadAndProfit ?? 0), 0)
+  );
+
+  const complexityFactors: string[] = [];
+  const scopeText = workItems.map(item => item.description.toLowerCase()).join(' ');
+  for (const signal of COMPLEXITY_SIGNALS) {
+    if (signal.pattern.test(scopeText)) complexityFactors.push(signal.factor);
+  }
+  if (baseAmount >= COMPLEX_CLAIM_TOTAL) {
+    complexityFactors.push(`Repair subtotal of $${baseAmount.toFixed(0)} exceeds $${COMPLEX_CLAIM_TOTAL.toLocaleString()}`);
+  }
+  if (workItems.length >= COMPLEX_LINE_COUNT) {
+    complexityFactors.push(`${workItems.length} line items to schedule`);
+  }
+  const complexityScore = Math.min(complexityFactors.length / 3, 1);
+
+  const reasoning: string[] = [];
+  let eligible = false;
+
+  if (trades.length >= rule.minTrades) {
+    eligible = true;
+    reasoning.push(`${trades.length} trades involved (${trades.join(', ')}) - meets the ${rule.minTrades}-trade threshold`);
+  } else if (trades.length >= 2 && complexityScore >= 0.66) {
+    eligible = true;
+    reasoning.push(`${trades.length} trades with high job complexity warrant general contractor coordination`);
+  } else {
+    reasoning.push(`${trades.length} trade(s) involved - below the ${rule.minTrades}-trade threshold`);
+  }
+  reasoning.push(rule.note);
+  if (complexityFactors.length > 0) {
+    reasoning.push(`Complexity: ${complexityFactors.join('; ')}`);
+  }
+
+  const overheadPct = DEFAULT_OVERHEAD_PCT;
+  const profitPct = DEFAULT_PROFIT_PCT;
+  const expectedAmount = eligible ? round(baseAmount * ((overheadPct + profitPct) / 100)) : 0;
+  const missingAmount = round(Math.max(0, expectedAmount - includedAmount));
+
+  if (eligible && includedAmount > 0 && missingAmount > 0) {
+    reasoning.push(`Estimate includes $${includedAmount.toFixed(2)} O&P, short of the $${expectedAmount.toFixed(2)} owed`);
+  } else if (eligible && missingAmount === 0) {
+    reasoning.push('Estimate already includes full O&P');
+  }
+
+  return {
+    eligible,
+    trades,
+    tradeCount: trades.length,
+    state: state || undefined,
+    minTradesRequired: rule.minTrades,
+    complexityScore: round(complexityScore),
+    complexityFactors,
+    overheadPct,
+    profitPct,
+    baseAmount,
+    expectedAmount,
+    includedAmount,
+    missingAmount,
+    reasoning,
+  };
+}
+
+/**
+ * Missing-item entry describing omitted O&P
+ */
+export function formatOverheadProfitMissingItem(assessment: OverheadProfitAssessment): string | null {
+  if (!assessment.eligible || assessment.missingAmount <= 0) return null;
+  return `overhead & profit: ${assessment.overheadPct}% overhead + ${assessment.profitPct}% profit ($${assessment.missingAmount.toFixed(2)}) - ${assessment.reasoning[0]}`;
+}
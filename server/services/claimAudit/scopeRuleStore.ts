@@ -0,0 +1,24 @@
+/**
+ * Claim Audit - Scope Dependency Rule Loading
+ *
+ * Reads the admin-managed rule set. Falls back to the built-in defaults when
+ * the table is empty or the database is unreachable so missing-item
+ * detection keeps working offline.
+ */
+
+import { db } from '../../db';
+import { scopeDependencyRules } from '@shared/schema';
+import { DEFAULT_SCOPE_RULES, toScopeRule, type ScopeRule } from './scopeRules';
+
+export async function loadScopeRules(): Promise<ScopeRule[]> {
+  try {
+    const rows = await db.select().from(scopeDependencyRules);
+    if (rows.length > 0) {
+      return rows.map(toScopeRule);
+    }
+  } catch (error: any) {
+    console.warn("[scopeRules] Failed to load scope rules, using defaults:", error?.message ?? error);
+  }
+
+  return DEFAULT_SCOPE_RULES;
+}
@@ -0,0 +1,368 @@
+/**
+ * Claim Audit - Scope Dependency Rules
+ * Shared by all versioned implementations
+ *
+ * Declarative "if the estimate carries X it also needs Y" rules used for
+ * missing-item detection. Rules key off catalog codes, are stored in the
+ * database (editable from the admin dashboard) and fall back to the
+ * defaults below when the database is unavailable.
+ */
+
+import { getCatalogEntry, type CatalogEntry } from '@shared/lineItemCatalog';
+import type { ScopeDependencyRule } from '@shared/schema';
+import { catalogUnitPrice, matchClaimLineItem } from './catalog';
+import type { ClaimLineItem, MissingScopeItem, ScopeDependencySummary } from './types';
+
+export type ScopeQuantityMode = 'ratio' | 'fixed';
+
+export interface ScopeRule {
+  id?: string;
+  name: string;
+  trade: string;
+  triggerCodes: string[];
+  requiredCodes: string[];
+  requiredDescription: string;
+  quantityMode: ScopeQuantityMode;
+  quantityFactor: number;
+  unit: string;
+  unitPrice?: number | null;
+  rationale?: string | null;
+  priority: number;
+  isActive?: boolean;
+}
+
+const SHINGLE_ROOFING = ['RFG 240', 'RFG 300S'];
+const DRYWALL_BOARD = ['DRY 1/2', 'DRY 5/8', 'DRY MR'];
+const FLOOR_COVERINGS = ['FCC CRPT', 'FCC CRPTH', 'FCV LVP', 'FCV LVT', 'FCW LAM', 'FCW ENG', 'FCW HWD', 'FCT CER', 'FCT POR', 'FCS STN'];
+
+// Ratios are per unit of the triggering line (e.g. LF of drip edge per SQ of
+// shingles) and assume a typical single-family footprint
+export const DEFAULT_SCOPE_RULES: ScopeRule[] = [
+  {
+    name: 'Roof replacement requires tear-off',
+    trade: 'roofing',
+    triggerCodes: SHINGLE_ROOFING,
+    requiredCodes: ['RFG ARMVL', 'RFG ARMV', 'RFG ADDL', 'RFG SHKRMV'],
+    requiredDescription: 'Tear off, haul and dispose of existing roofing',
+    quantityMode: 'ratio',
+    quantityFactor: 1,
+    unit: 'SQ',
+    rationale: 'New shingles cannot be installed over damaged shingles; the existing layer has to come off.',
+    priority: 10,
+  },
+  {
+    name: 'Roof replacement requires underlayment',
+    trade: 'roofing',
+    triggerCodes: SHINGLE_ROOFING,
+    requiredCodes: ['RFG FELT', 'RFG SYNF'],
+    requiredDescription: 'Roofing felt / synthetic underlayment',
+    quantityMode: 'ratio',
+    quantityFactor: 1,
+    unit: 'SQ',
+    rationale: 'Shingle line items are priced without felt; IRC R905.1.1 requires underlayment beneath asphalt shingles.',
+    priority: 20,
+  },
+  {
+    name: 'Roof replacement requires drip edge',
+    trade: 'roofing',
+    triggerCodes: SHINGLE_ROOFING,
+    requiredCodes: ['RFG DRIP'],
+    requiredDescription: 'Drip edge at eaves and rakes',
+    quantityMode: 'ratio',
+    quantityFactor: 7,
+    unit: 'LF',
+    rationale: 'IRC R905.2.8.5 requires drip edge at eaves and rake edges of shingle roofs.',
+    priority: 30,
+  },
+  {
+    name: 'Roof replacement requires starter course',
+    trade: 'roofing',
+    triggerCodes: SHINGLE_ROOFING,
+    requiredCodes: ['RFG STRT'],
+    requiredDescription: 'Asphalt starter course at eaves',
+    quantityMode: 'ratio',
+    quantityFactor: 4,
+    unit: 'LF',
+    unitPrice: 2.1,
+    rationale: 'Manufacturer installation instructions require a starter course; field shingles are not a warranted substitute.',
+    priority: 40,
+  },
+  {
+    name: 'Roof replacement requires hip/ridge cap',
+    trade: 'roofing',
+    triggerCodes: SHINGLE_ROOFING,
+    requiredCodes: ['RFG RIDGC'],
+    requiredDescription: 'Hip / ridge cap shingles',
+    quantityMode: 'ratio',
+    quantityFactor: 1.5,
+    unit: 'LF',
+    rationale: 'Hips and ridges must be capped with cap shingles whenever the field shingles are replaced.',
+    priority: 50,
+  },
+  {
+    name: 'Roof replacement requires ice & water barrier',
+    trade: 'roofing',
+    triggerCodes: SHINGLE_ROOFING,
+    requiredCodes: ['RFG IWS'],
+    requiredDescription: 'Ice & water barrier at eaves',
+    quantityMode: 'ratio',
+    quantityFactor: 0.2,
+    unit: 'SQ',
+    rationale: 'IRC R905.1.2 requires an ice barrier from the eave to 24" inside the exterior wall where ice damming is a history.',
+    priority: 60,
+  },
+  {
+    name: 'Roof replacement requires pipe jack flashing',
+    trade: 'roofing',
+    triggerCodes: SHINGLE_ROOFING,
+    requiredCodes: ['RFG PJK', 'RFG PJKL'],
+    requiredDescription: 'Pipe jack flashing at plumbing vents',
+    quantityMode: 'fixed',
+    quantityFactor: 2,
+    unit: 'EA',
+    rationale: 'Roof penetrations are re-flashed with the new covering; existing boots rarely survive tear-off.',
+    priority: 70,
+  },
+  {
+    name: 'Roof replacement requires permit',
+    trade: 'roofing',
+    triggerCodes: SHINGLE_ROOFING,
+    requiredCodes: ['FEE PRMT'],
+    requiredDescription: 'Building permit and inspection',
+    quantityMode: 'fixed',
+    quantityFactor: 1,
+    unit: 'EA',
+    rationale: 'Most jurisdictions require a permit to re-roof.',
+    priority: 80,
+  },
+  {
+    name: 'Roof replacement requires debris haul-off',
+    trade: 'roofing',
+    triggerCodes: SHINGLE_ROOFING,
+    requiredCodes: ['DMO DUMP', 'RFG ARMVL', 'RFG ARMV', 'RFG SHKRMV'],
+    requiredDescription: 'Dumpster / debris haul-off',
+    quantityMode: 'ratio',
+    quantityFactor: 0.1,
+    unit: 'EA',
+    rationale: 'Tear-off debris has to be hauled and dumped unless the tear-off line already includes disposal.',
+    priority: 90,
+  },
+  {
+    name: 'Siding replacement requires house wrap',
+    trade: 'siding',
+    triggerCodes: ['SDG VNL', 'SDG FC', 'SDG WD'],
+    requiredCodes: ['SDG WRAP'],
+    requiredDescription: 'House wrap (air / moisture barrier)',
+    quantityMode: 'ratio',
+    quantityFactor: 1,
+    unit: 'SF',
+    rationale: 'IRC R703.2 requires a water-resistive barrier behind exterior siding.',
+    priority: 10,
+  },
+  {
+    name: 'Drywall replacement requires tape & float',
+    trade: 'drywall',
+    triggerCodes: DRYWALL_BOARD,
+    requiredCodes: ['DRY TAPE'],
+    requiredDescription: 'Tape joint for new to existing drywall',
+    quantityMode: 'ratio',
+    quantityFactor: 0.25,
+    unit: 'SF',
+    rationale: 'Where new board meets existing walls the joints must be taped and floated into the existing finish.',
+    priority: 10,
+  },
+  {
+    name: 'Drywall replacement requires texture',
+    trade: 'drywall',
+    triggerCodes: DRYWALL_BOARD,
+    requiredCodes: ['DRY TEX', 'DRY ACSTC'],
+    requiredDescription: 'Texture to match existing',
+    quantityMode: 'ratio',
+    quantityFactor: 1,
+    unit: 'SF',
+    rationale: 'Replaced board ships smooth and has to be textured to match the surrounding surfaces.',
+    priority: 20,
+  },
+  {
+    name: 'Drywall replacement requires paint',
+    trade: 'drywall',
+    triggerCodes: DRYWALL_BOARD,
+    requiredCodes: ['PNT WALL', 'PNT CEIL', 'PNT SEAL'],
+    requiredDescription: 'Seal / prime and paint',
+    quantityMode: 'ratio',
+    quantityFactor: 1,
+    unit: 'SF',
+    rationale: 'New drywall is left "ready for paint"; sealing, priming and two finish coats are separate work.',
+    priority: 30,
+  },
+  {
+    name: 'Flooring replacement requires removal',
+    trade: 'flooring',
+    triggerCodes: FLOOR_COVERINGS,
+    requiredCodes: ['FCW RMV', 'FCC RMV', 'FCT RMV', 'DMO LITE'],
+    requiredDescription: 'Remove existing floor covering',
+    quantityMode: 'ratio',
+    quantityFactor: 1,
+    unit: 'SF',
+    rationale: 'The damaged floor covering has to be removed before the new one goes down.',
+    priority: 10,
+  },
+  {
+    name: 'Carpet replacement requires pad',
+    trade: 'flooring',
+    triggerCodes: ['FCC CRPT', 'FCC CRPTH'],
+    requiredCodes: ['FCC PAD'],
+    requiredDescription: 'Carpet pad',
+    quantityMode: 'ratio',
+    quantityFactor: 1,
+    unit: 'SF',
+    rationale: 'Wet or torn-out pad is not reusable and is priced separately from the carpet.',
+    priority: 20,
+  },
+  {
+    name: 'Flooring replacement requires baseboard detach & reset',
+    trade: 'flooring',
+    triggerCodes: FLOOR_COVERINGS,
+    requiredCodes: ['FNC BASEDR', 'FNC BASE', 'FNC BASEH'],
+    requiredDescription: 'Baseboard - detach & reset',
+    quantityMode: 'ratio',
+    quantityFactor: 0.3,
+    unit: 'LF',
+    unitPrice: 2.25,
+    rationale: 'Baseboard has to come off to replace the floor covering and be reinstalled afterwards.',
+    priority: 30,
+  },
+  {
+    name: 'Flooring replacement requires contents move-out',
+    trade: 'flooring',
+    triggerCodes: FLOOR_COVERINGS,
+    requiredCodes: ['CON MVRS'],
+    requiredDescription: 'Contents - move out then reset',
+    quantityMode: 'fixed',
+    quantityFactor: 1,
+    unit: 'EA',
+    rationale: 'Furniture and contents have to be moved out of the room and reset after the floor is installed.',
+    priority: 40,
+  },
+  {
+    name: 'Interior paint requires mask & prep',
+    trade: 'painting',
+    triggerCodes: ['PNT WALL', 'PNT CEIL'],
+    requiredCodes: ['PNT MASK'],
+    requiredDescription: 'Mask and prep for paint',
+    quantityMode: 'ratio',
+    quantityFactor: 0.3,
+    unit: 'SF',
+    rationale: 'Floors, trim and fixtures must be masked and protected before painting.',
+    priority: 10,
+  },
+];
+
+/**
+ * Convert a stored rule row (numeric columns arrive as strings, flags as 1/0)
+ */
+export function toScopeRule(row: ScopeDependencyRule): ScopeRule {
+  return {
+    id: row.id,
+    name: row.name,
+    trade: row.trade,
+    triggerCodes: row.triggerCodes,
+    requiredCodes: row.requiredCodes,
+    requiredDescription: row.requiredDescription,
+    quantityMode: row.quantityMode === 'fixed' ? 'fixed' : 'ratio',
+    quantityFactor: Number(row.quantityFactor),
+    unit: row.unit,
+    unitPrice: row.unitPrice !== null && row.unitPrice !== undefined ? Number(row.unitPrice) : null,
+    rationale: row.rationale,
+    priority: row.priority,
+    isActive: Boolean(Number(row.isActive)),
+  };
+}
+
+/**
+ * A rule code is either a full catalog code ("RFG DRIP") or a category code ("DRY")
+ */
+function codeMatches(ruleCode: string, entry: CatalogEntry): boolean {
+  const normalized = ruleCode.toUpperCase().replace(/\s+/g, ' ').trim();
+  return normalized.includes(' ') ? entry.code === normalized : entry.categoryCode === normalized;
+}
+
+function triggerQuantity(item: ClaimLineItem, entry: CatalogEntry): number {
+  const quantity = item.quantity || 0;
+  if (entry.unit === 'SQ' && item.unit?.toUpperCase() === 'SF') return quantity / 100;
+  return quantity;
+}
+
+function lookupUnitPrice(rule: ScopeRule, code: string): Pick<MissingScopeItem, 'unitPrice' | 'priceSource'> {
+  if (rule.unitPrice !== null && rule.unitPrice !== undefined) {
+    return { unitPrice: rule.unitPrice, priceSource: 'rule' };
+  }
+  return catalogUnitPrice(code);
+}
+
+/**
+ * Evaluate rules against claim lines and return the implied items the claim is missing
+ */
+export function evaluateScopeRules(lineItems: ClaimLineItem[], rules: ScopeRule[]): ScopeDependencySummary {
+  const matched = lineItems
+    .map(item => ({ item, entry: matchClaimLineItem(item)?.entry }))
+    .filter((m): m is { item: ClaimLineItem; entry: CatalogEntry } => !!m.entry);
+
+  const activeRules = rules
+    .filter(rule => rule.isActive !== false)
+    .sort((a, b) => a.priority - b.priority);
+
+  const items: MissingScopeItem[] = [];
+
+  for (const rule of activeRules) {
+    const triggers = matched.filter(m => rule.triggerCodes.some(code => codeMatches(code, m.entry)));
+    if (triggers.length === 0) continue;
+
+    const satisfied = matched.some(m => rule.requiredCodes.some(code => codeMatches(code, m.entry)));
+    if (satisfied) continue;
+
+    // Price against the required code in the same catalog category as the trigger when there is one
+    const code = rule.requiredCodes.find(c =>
+      triggers.some(t => getCatalogEntry(c)?.categoryCode === t.entry.categoryCode)
+    ) ?? rule.requiredCodes[0];
+    if (!code || items.some(existing => existing.code === code)) continue;
+
+    const baseQuantity = rule.quantityMode === 'fixed'
+      ? rule.quantityFactor
+      : triggers.reduce((sum, t) => sum + triggerQuantity(t.item, t.entry), 0) * rule.quantityFactor;
+    const quantity = baseQuantity > 0 ? Math.ceil(baseQuantity - 1e-9) : null;
+
+    const { unitPrice, priceSource } = lookupUnitPrice(rule, code);
+    const estimatedCost = quantity !== null && unitPrice !== null
+      ? Math.round(quantity * unitPrice * 100) / 100
+      : null;
+
+    items.push({
+      ruleId: rule.id,
+      ruleName: rule.name,
+      trade: rule.trade,
+      code,
+      description: rule.requiredDescription,
+      triggeredBy: Array.from(new Set(triggers.map(t => t.entry.code))),
+      quantity,
+      unit: rule.unit,
+      unitPrice,
+      estimatedCost,
+      priceSource,
+      rationale: rule.rationale ?? undefined,
+    });
+  }
+
+  return {
+    rulesEvaluated: activeRules.length,
+    items,
+    totalEstimatedCost: Math.round(items.reduce((sum, i) => sum + (i.estimatedCost ?? 0), 0) * 100) / 100,
+  };
+}
+
+export function formatMissingScopeItem(item: MissingScopeItem): string {
+  const estimate = item.estimatedCost !== null
+    ? ` - est. ${item.quantity} ${item.unit} @ $${item.unitPrice!.toFixed(2)} = $${item.estimatedCost.toFixed(2)} FMV`
+    : '';
+  return `${item.trade}: ${item.description} (${item.code})${estimate}`;
+}
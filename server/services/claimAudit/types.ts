@@ -3,12 +3,26 @@
  * Shared types for all versioned implementations
  */
 
+import type { DemandSurge } from '../../utils/demandSurge';
+
 export interface ClaimLineItem {
   description: string;
   quotedPrice: number;
   category?: string;
   quantity?: number;
   unit?: string;
+  rcv?: number;
+  acv?: number;
+  depreciationAmount?: number;
+  depreciationPct?: number;
+  nonRecoverableDepreciation?: number;
+  ageYears?: number;
+  material?: string;
+  overheadAndProfit?: number;
+  laborCost?: number;
+  materialCost?: number;
+  salesTax?: number;
+  catalogCode?: string;
 }
 
 export interface ClaimAuditInput {
@@ -18,6 +32,125 @@ export interface ClaimAuditInput {
   documentText?: string;
   claimNumber?: string;
   lossDate?: string;
+  deductible?: number;
+}
+
+export interface DepreciationAssessment {
+  rcv: number;
+  acv: number;
+  depreciationAmount: number;
+  depreciationPct: number;
+  recoverableDepreciation: number;
+  nonRecoverableDepreciation: number;
+  usefulLifeYears?: number;
+  expectedDepreciationPct?: number;
+  excessiveDepreciation: number;
+  flags: string[];
+}
+
+export interface OverheadProfitAssessment {
+  eligible: boolean;
+  trades: string[];
+  tradeCount: number;
+  state?: string;
+  minTradesRequired: number;
+  complexityScore: number;
+  complexityFactors: string[];
+  overheadPct: number;
+  profitPct: number;
+  baseAmount: number;
+  expectedAmount: number;
+  includedAmount: number;
+  missingAmount: number;
+  reasoning: string[];
+}
+
+export interface MissingScopeItem {
+  ruleId?: string;
+  ruleName: string;
+  trade: string;
+  code: string;
+  description: string;
+  triggeredBy: string[];
+  quantity: number | null;
+  unit: string;
+  unitPrice: number | null;
+  estimatedCost: number | null;
+  priceSource: 'rule' | 'price-db' | 'baseline' | null;
+  rationale?: string;
+}
+
+export interface ScopeDependencySummary {
+  rulesEvaluated: number;
+  items: MissingScopeItem[];
+  totalEstimatedCost: number;
+}
+
+export type CodeRequirement = 'roof_underlayment' | 'ice_barrier' | 'hurricane_straps' | 'gfci' | 'afci';
+
+export interface CodeUpgradeItem {
+  requirement: CodeRequirement;
+  lineItem: string;
+  catalogCode: string;
+  upgradeCode: string;
+  upgradeDescription: string;
+  quantity: number;
+  unit: string;
+  estimatedCost: number;
+  citation: string;
+}
+
+export interface CodeUpgradeSummary {
+  jurisdiction: string;
+  stateCode?: string;
+  ircEdition: number | null;
+  necEdition: number;
+  items: CodeUpgradeItem[];
+  totalEstimatedCost: number;
+  notes: string[];
+}
+
+export type LaborMaterialGapKind = 'labor' | 'material' | 'sales_tax' | 'labor_minimum';
+
+export interface LaborMaterialSplit {
+  source: 'carrier' | 'inferred';
+  laborCost: number;
+  materialCost: number;
+  salesTax: number;
+  expectedLaborCost: number | null;
+  expectedMaterialCost: number | null;
+  expectedSalesTax: number;
+}
+
+export interface LaborMaterialGap {
+  kind: LaborMaterialGapKind;
+  lineItem: string;
+  trade: string;
+  carrierAmount: number;
+  expectedAmount: number;
+  shortfall: number;
+  detail: string;
+}
+
+export interface LaborMaterialSummary {
+  stateCode?: string;
+  salesTaxRatePct: number;
+  linesSplit: number;
+  gaps: LaborMaterialGap[];
+  totalShortfall: number;
+  additionalAmount: number;      // Sales tax and labor minimums, which line market prices don't cover
+}
+
+export interface DepreciationSummary {
+  totalRcv: number;
+  totalAcv: number;
+  totalDepreciation: number;
+  recoverableDepreciation: number;
+  nonRecoverableDepreciation: number;
+  excessiveDepreciation: number;
+  deductible: number;
+  netActualCashPayment: number;
+  itemsWithExcessiveDepreciation: number;
 }
 
 export interface AuditedLineItem {
@@ -27,6 +160,11 @@ export interface AuditedLineItem {
   flags: string[];
   recommendation: string;
   llmInsight?: string;
+  depreciation?: DepreciationAssessment;
+  catalogCode?: string;
+  catalogMatchScore?: number;
+  demandSurgePct?: number;
+  laborMaterial?: LaborMaterialSplit;
 }
 
 export interface ClaimAuditResult {
@@ -44,6 +182,12 @@ export interface ClaimAuditResult {
     itemsAudited: number;
     flaggedItems: number;
   };
+  depreciationSummary?: DepreciationSummary;
+  overheadProfit?: OverheadProfitAssessment;
+  scopeDependencies?: ScopeDependencySummary;
+  codeUpgrades?: CodeUpgradeSummary;
+  laborMaterial?: LaborMaterialSummary;
+  demandSurge?: DemandSurge;
   confidence: number;
   processingTimeMs: number;
   fallbackReason?: string;
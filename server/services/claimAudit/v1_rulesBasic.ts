@@ -8,6 +8,12 @@
  */
 
 import type { ClaimAuditInput, ClaimAuditResult, AuditedLineItem, ClaimLineItem, VersionStatus } from './types';
+import { auditCodeUpgrades, codeUpgradeRecommendations } from './codeUpgrades';
+import { auditDepreciation, depreciationRecommendations, getPreTaxCost, getReplacementCost } from './depreciation';
+import { assessOverheadProfit, formatOverheadProfitMissingItem } from './overheadProfit';
+import { catalogFields, detectAuditCategory, isScopeItemCovered, matchClaimLineItem } from './catalog';
+import { assessDemandSurge, demandSurgeFields, demandSurgeRecommendations } from './demandSurge';
+import { auditLaborMaterial, laborMaterialRecommendations } from './laborMaterial';
 
 const VERSION_ID = 'v1-rules-basic';
 
@@ -32,41 +38,33 @@ const BASIC_MISSING_ITEMS: Record<string, string[]> = {
   painting: ['Primer coat', 'Caulking', 'Surface prep'],
 };
 
-function detectCategory(description: string): string {
-  const desc = description.toLowerCase();
-  if (/roof|shingle|gutter/.test(desc)) return 'roofing';
-  if (/siding|vinyl|exterior/.test(desc)) return 'siding';
-  if (/floor|carpet|tile|laminate/.test(desc)) return 'flooring';
-  if (/drywall|wall|ceiling/.test(desc)) return 'drywall';
-  if (/paint|primer|coat/.test(desc)) return 'painting';
-  if (/plumb|pipe|faucet/.test(desc)) return 'plumbing';
-  if (/electric|wiring|outlet/.test(desc)) return 'electrical';
-  if (/hvac|heat|cool|furnace/.test(desc)) return 'hvac';
-  if (/window/.test(desc)) return 'windows';
-  return 'other';
-}
-
 export async function analyze(input: ClaimAuditInput): Promise<ClaimAuditResult> {
   const startTime = Date.now();
   const auditedItems: AuditedLineItem[] = [];
   const categoriesFound = new Set<string>();
+  const claimCodes = new Set<string>();
+  const surge = assessDemandSurge(input);
+  const surgeMultiplier = surge?.multiplier ?? 1;
 
   for (const item of input.lineItems) {
-    const category = item.category || detectCategory(item.description);
+    const match = matchClaimLineItem(item);
+    const category = detectAuditCategory(item, match);
     categoriesFound.add(category);
+    if (match) claimCodes.add(match.code);
     
     const pricing = BASIC_CATEGORY_AVERAGES[category] || BASIC_CATEGORY_AVERAGES.other;
     const quantity = item.quantity || 1;
-    const expectedPrice = pricing.avgPerUnit * quantity;
+    const expectedPrice = pricing.avgPerUnit * quantity * surgeMultiplier;
+    const carrierCost = getPreTaxCost(item);
     const variance = expectedPrice > 0 
-      ? ((expectedPrice - item.quotedPrice) / expectedPrice) * 100 
+      ? ((expectedPrice - carrierCost) / expectedPrice) * 100 
       : 0;
 
     const flags: string[] = [];
     if (variance > 20) {
       flags.push(`Potentially underpaid by ${variance.toFixed(0)}%`);
     }
-    if (item.quotedPrice < pricing.lowPerUnit * quantity) {
+    if (carrierCost < pricing.lowPerUnit * quantity * surgeMultiplier) {
       flags.push('Below typical low range');
     }
 
@@ -76,6 +74,8 @@ export async function analyze(input: ClaimAuditInput): Promise<ClaimAuditResult>
       variance,
       flags,
       recommendation: flags.length > 0 ? 'Request re-evaluation' : 'Price appears reasonable',
+      ...catalogFields(match),
+      ...demandSurgeFields(surge),
     });
   }
 
@@ -84,27 +84,40 @@ export async function analyze(input: ClaimAuditInput): Promise<ClaimAuditResult>
     const commonMissing = BASIC_MISSING_ITEMS[category] || [];
     const descriptions = input.lineItems.map((i: ClaimLineItem) => i.description.toLowerCase()).join(' ');
     for (const missing of commonMissing) {
-      if (!descriptions.includes(missing.toLowerCase().split(' ')[0])) {
+      const covered = isScopeItemCovered(missing, category, claimCodes,
+        () => descriptions.includes(missing.toLowerCase().split(' ')[0]));
+      if (!covered) {
         missingItems.push(`${category}: ${missing}`);
       }
     }
   }
 
-  const totalQuoted = input.lineItems.reduce((sum: number, i: ClaimLineItem) => sum + i.quotedPrice, 0);
+  const depreciationSummary = auditDepreciation(input, auditedItems);
+  const codeUpgrades = auditCodeUpgrades(input, auditedItems);
+  const laborMaterial = auditLaborMaterial(input, auditedItems);
+  const overheadProfit = assessOverheadProfit(input);
+  const overheadProfitItem = formatOverheadProfitMissingItem(overheadProfit);
+
+  const totalQuoted = input.lineItems.reduce((sum: number, i: ClaimLineItem) => sum + getReplacementCost(i), 0);
   const totalMarket = auditedItems.reduce((sum: number, i: AuditedLineItem) => sum + i.marketPrice, 0);
-  const totalUnderpayment = Math.max(0, totalMarket - totalQuoted);
+  const totalPreTax = input.lineItems.reduce((sum: number, i: ClaimLineItem) => sum + getPreTaxCost(i), 0);
+  const totalUnderpayment = Math.max(0, totalMarket - totalPreTax) + overheadProfit.missingAmount + laborMaterial.additionalAmount;
 
   return {
     success: true,
     version: VERSION_ID,
     role: 'archived-but-viable',
     auditedItems,
-    missingItems: missingItems.slice(0, 5),
+    missingItems: overheadProfitItem ? [overheadProfitItem, ...missingItems.slice(0, 5)] : missingItems.slice(0, 5),
     carrierPatterns: [],
     recommendations: [
       totalUnderpayment > 100 
         ? `Consider requesting ${totalUnderpayment.toFixed(0)} additional compensation` 
         : 'Claim appears reasonable based on basic analysis',
+      ...depreciationRecommendations(depreciationSummary),
+      ...codeUpgradeRecommendations(codeUpgrades),
+      ...laborMaterialRecommendations(laborMaterial),
+      ...demandSurgeRecommendations(surge),
       'Get contractor quotes for verification',
     ],
     summary: {
@@ -114,6 +127,11 @@ export async function analyze(input: ClaimAuditInput): Promise<ClaimAuditResult>
       itemsAudited: auditedItems.length,
       flaggedItems: auditedItems.filter(i => i.flags.length > 0).length,
     },
+    depreciationSummary,
+    overheadProfit,
+    codeUpgrades,
+    laborMaterial,
+    ...(surge && { demandSurge: surge }),
     confidence: 0.4,
     processingTimeMs: Date.now() - startTime,
     fallbackReason: undefined,
@@ -11,48 +11,17 @@ import { db } from '../../db';
 import { pricingDataPoints, carrierTrends } from '@shared/schema';
 import { sql, eq, like } from 'drizzle-orm';
 import type { ClaimAuditInput, ClaimAuditResult, AuditedLineItem, ClaimLineItem, VersionStatus } from './types';
+import { auditCodeUpgrades, codeUpgradeRecommendations } from './codeUpgrades';
+import { auditDepreciation, depreciationRecommendations, getPreTaxCost, getReplacementCost } from './depreciation';
+import { assessOverheadProfit, formatOverheadProfitMissingItem } from './overheadProfit';
+import { catalogFields, matchClaimLineItem } from './catalog';
+import { evaluateScopeRules, formatMissingScopeItem } from './scopeRules';
+import { loadScopeRules } from './scopeRuleStore';
+import { assessDemandSurge, demandSurgeFields, demandSurgeRecommendations } from './demandSurge';
+import { auditLaborMaterial, laborMaterialRecommendations } from './laborMaterial';
 
 const VERSION_ID = 'v2-rules-advanced';
 
-const COMMON_MISSING_ITEMS: Record<string, string[]> = {
-  roofing: [
-    'Ice and water shield (valleys, eaves)',
-    'Drip edge (metal)',
-    'Valley flashing',
-    'Starter strip',
-    'Ridge vent',
-    'Pipe boots/flashings',
-    'Permit and inspection fees',
-    'Debris removal',
-  ],
-  siding: [
-    'House wrap replacement',
-    'J-channel trim',
-    'Corner posts',
-    'Window/door trim',
-    'Soffit and fascia',
-  ],
-  flooring: [
-    'Floor leveling compound',
-    'Underlayment',
-    'Transition strips',
-    'Baseboards/quarter round',
-    'Moisture barrier',
-  ],
-  painting: [
-    'Primer',
-    'Caulking',
-    'Surface preparation',
-    'Multiple coats',
-  ],
-  drywall: [
-    'Texture matching',
-    'Primer before paint',
-    'Corner bead',
-    'Joint compound (multiple coats)',
-  ],
-};
-
 const KNOWN_CARRIER_PATTERNS: Record<string, string[]> = {
   'state farm': ['Often omits O&P on first estimate', 'May require multiple supplements'],
   'allstate': ['Known for depreciation disputes', 'May undervalue labor rates'],
@@ -63,27 +32,13 @@ const KNOWN_CARRIER_PATTERNS: Record<string, string[]> = {
   'progressive': ['Quick initial offers but often low', 'Responds well to documentation'],
 };
 
-function detectCategory(description: string): string {
-  const desc = description.toLowerCase();
-  if (/roof|shingle|gutter|flashing/.test(desc)) return 'roofing';
-  if (/siding|vinyl|exterior wall/.test(desc)) return 'siding';
-  if (/floor|carpet|tile|laminate|hardwood/.test(desc)) return 'flooring';
-  if (/drywall|wall|ceiling|sheetrock/.test(desc)) return 'drywall';
-  if (/paint|primer|coat/.test(desc)) return 'painting';
-  if (/plumb|pipe|faucet|toilet/.test(desc)) return 'plumbing';
-  if (/electric|wiring|outlet|circuit/.test(desc)) return 'electrical';
-  if (/hvac|heat|cool|furnace|ac/.test(desc)) return 'hvac';
-  if (/window/.test(desc)) return 'windows';
-  return 'other';
-}
-
 async function lookupPricing(description: string, zipCode?: string): Promise<{ avgPrice: number; maxPrice: number } | null> {
   const searchTerm = description.substring(0, 30).toLowerCase();
   const results = await db.select({
     avgPrice: sql<number>`AVG(price_avg)`,
     maxPrice: sql<number>`MAX(price_high)`,
   }).from(pricingDataPoints)
-    .where(sql`LOWER(description) LIKE ${`%${searchTerm}%`}`);
+    .where(sql`LOWER(description) LIKE ${`%${searchTerm}%`} AND status = 'accepted'`);
   
   if (results[0]?.avgPrice) {
     return {
@@ -145,38 +100,39 @@ export async function analyze(input: ClaimAuditInput): Promise<ClaimAuditResult>
 
   try {
     const auditedItems: AuditedLineItem[] = [];
-    const categoriesFound = new Set<string>();
+    const surge = assessDemandSurge(input);
+    const surgeMultiplier = surge?.multiplier ?? 1;
 
     for (const item of input.lineItems) {
-      const category = item.category || detectCategory(item.description);
-      categoriesFound.add(category);
+      const match = matchClaimLineItem(item);
     
       const pricing = await lookupPricing(item.description, input.zipCode);
     const quantity = item.quantity || 1;
+    const carrierCost = getPreTaxCost(item);
     
     let marketPrice: number;
     let maxPrice: number;
     
     if (pricing) {
-      marketPrice = pricing.avgPrice * quantity;
-      maxPrice = pricing.maxPrice * quantity;
+      marketPrice = pricing.avgPrice * quantity * surgeMultiplier;
+      maxPrice = pricing.maxPrice * quantity * surgeMultiplier;
     } else {
-      marketPrice = item.quotedPrice * 1.15;
-      maxPrice = item.quotedPrice * 1.5;
+      marketPrice = carrierCost * 1.15 * surgeMultiplier;
+      maxPrice = carrierCost * 1.5 * surgeMultiplier;
     }
     
     const variance = marketPrice > 0 
-      ? ((marketPrice - item.quotedPrice) / marketPrice) * 100 
+      ? ((marketPrice - carrierCost) / marketPrice) * 100 
       : 0;
 
     const flags: string[] = [];
     if (variance > 20) {
       flags.push(`Underpaid by ${variance.toFixed(1)}% vs market`);
     }
-    if (item.quotedPrice > maxPrice) {
+    if (carrierCost > maxPrice) {
       flags.push('Exceeds typical insurance maximum');
     }
-    if (item.quotedPrice < marketPrice * 0.5) {
+    if (carrierCost < marketPrice * 0.5) {
       flags.push('Significantly below market rate');
     }
 
@@ -188,24 +144,18 @@ export async function analyze(input: ClaimAuditInput): Promise<ClaimAuditResult>
       recommendation: flags.length > 0 
         ? `Request re-inspection - potential ${Math.abs(variance).toFixed(0)}% adjustment` 
         : 'Price within expected range',
+      ...catalogFields(match),
+      ...demandSurgeFields(surge),
     });
   }
 
-  const missingItems: string[] = [];
-  for (const category of Array.from(categoriesFound)) {
-    const commonItems = COMMON_MISSING_ITEMS[category] || [];
-    const extractedDescriptions = input.lineItems
-      .map((i: ClaimLineItem) => i.description.toLowerCase())
-      .join(' ');
-    
-    for (const commonItem of commonItems) {
-      const keywords = commonItem.toLowerCase().split(/\s+/);
-      const hasItem = keywords.some(kw => extractedDescriptions.includes(kw));
-      
-      if (!hasItem) {
-        missingItems.push(`${category}: ${commonItem}`);
-      }
-    }
+  const scopeDependencies = evaluateScopeRules(input.lineItems, await loadScopeRules());
+  const missingItems = scopeDependencies.items.map(formatMissingScopeItem);
+
+  const overheadProfit = assessOverheadProfit(input);
+  const overheadProfitItem = formatOverheadProfitMissingItem(overheadProfit);
+  if (overheadProfitItem) {
+    missingItems.unshift(overheadProfitItem);
   }
 
   let carrierPatterns: string[] = [];
@@ -218,7 +168,7 @@ export async function analyze(input: ClaimAuditInput): Promise<ClaimAuditResult>
   
   if (significantUndervalued.length > 0) {
     const additionalAmount = significantUndervalued.reduce(
-      (sum, v) => sum + (v.marketPrice - v.original.quotedPrice), 0
+      (sum, v) => sum + (v.marketPrice - getPreTaxCost(v.original)), 0
     );
     recommendations.push(
       `Request re-inspection for ${significantUndervalued.length} undervalued items totaling potential $${additionalAmount.toFixed(0)} in additional compensation`
@@ -237,12 +187,23 @@ export async function analyze(input: ClaimAuditInput): Promise<ClaimAuditResult>
     );
   }
 
+  const depreciationSummary = auditDepreciation(input, auditedItems);
+  recommendations.push(...depreciationRecommendations(depreciationSummary));
+
+  const codeUpgrades = auditCodeUpgrades(input, auditedItems);
+  recommendations.push(...codeUpgradeRecommendations(codeUpgrades));
+
+  const laborMaterial = auditLaborMaterial(input, auditedItems);
+  recommendations.push(...laborMaterialRecommendations(laborMaterial));
+  recommendations.push(...demandSurgeRecommendations(surge));
+
   recommendations.push('Get multiple contractor quotes to support fair market value claims');
   recommendations.push('Take detailed photos before, during, and after all repairs');
 
-    const totalQuoted = input.lineItems.reduce((sum: number, i: ClaimLineItem) => sum + i.quotedPrice, 0);
+    const totalQuoted = input.lineItems.reduce((sum: number, i: ClaimLineItem) => sum + getReplacementCost(i), 0);
     const totalMarket = auditedItems.reduce((sum: number, i: AuditedLineItem) => sum + i.marketPrice, 0);
-    const totalUnderpayment = Math.max(0, totalMarket - totalQuoted);
+    const totalPreTax = input.lineItems.reduce((sum: number, i: ClaimLineItem) => sum + getPreTaxCost(i), 0);
+    const totalUnderpayment = Math.max(0, totalMarket - totalPreTax) + overheadProfit.missingAmount + laborMaterial.additionalAmount;
 
     let confidence = 0.6;
     if (carrierPatterns.length > 0) confidence += 0.1;
@@ -265,6 +226,12 @@ export async function analyze(input: ClaimAuditInput): Promise<ClaimAuditResult>
         itemsAudited: auditedItems.length,
         flaggedItems: auditedItems.filter(i => i.flags.length > 0).length,
       },
+      depreciationSummary,
+      overheadProfit,
+      scopeDependencies,
+      codeUpgrades,
+      laborMaterial,
+      ...(surge && { demandSurge: surge }),
       confidence: Math.min(confidence, 0.75),
       processingTimeMs: Date.now() - startTime,
       fallbackReason: undefined,
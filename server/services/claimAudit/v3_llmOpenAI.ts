@@ -12,6 +12,14 @@ import { db } from '../../db';
 import { pricingDataPoints, carrierTrends } from '@shared/schema';
 import { sql, eq, like } from 'drizzle-orm';
 import type { ClaimAuditInput, ClaimAuditResult, AuditedLineItem, ClaimLineItem, VersionStatus } from './types';
+import { auditCodeUpgrades, codeUpgradeRecommendations } from './codeUpgrades';
+import { auditDepreciation, depreciationRecommendations, getPreTaxCost, getReplacementCost } from './depreciation';
+import { assessOverheadProfit, formatOverheadProfitMissingItem } from './overheadProfit';
+import { catalogFields, matchClaimLineItem } from './catalog';
+import { evaluateScopeRules, formatMissingScopeItem } from './scopeRules';
+import { loadScopeRules } from './scopeRuleStore';
+import { assessDemandSurge, demandSurgeFields, demandSurgeRecommendations } from './demandSurge';
+import { auditLaborMaterial, laborMaterialRecommendations } from './laborMaterial';
 
 const VERSION_ID = 'v3-llm-openai';
 
@@ -20,7 +28,8 @@ const SYSTEM_PROMPT = `You are an expert insurance claim analyst with deep knowl
 1. Analyze each line item for potential underpayment
 2. Identify commonly omitted items that should be included
 3. Recognize carrier-specific patterns and tactics
-4. Provide actionable recommendations for claim recovery
+4. Evaluate depreciation (RCV vs ACV) against item age and material life expectancy
+5. Provide actionable recommendations for claim recovery
 
 Always prioritize accuracy and homeowner advocacy. Base your analysis on fair market value principles.
 
@@ -44,7 +53,7 @@ async function enrichWithPricingData(items: ClaimAuditInput['lineItems']): Promi
         avgPrice: sql<number>`AVG(price_avg)`,
         maxPrice: sql<number>`MAX(price_high)`,
       }).from(pricingDataPoints)
-        .where(sql`LOWER(description) LIKE ${`%${searchTerm}%`}`);
+        .where(sql`LOWER(description) LIKE ${`%${searchTerm}%`} AND status = 'accepted'`);
       
       if (results[0]?.avgPrice) {
         pricingMap.set(item.description, {
@@ -106,13 +115,20 @@ export async function analyze(input: ClaimAuditInput): Promise<ClaimAuditResult>
     };
   }
 
-  const [pricingData, carrierContext] = await Promise.all([
+  const [pricingData, carrierContext, scopeRules] = await Promise.all([
     enrichWithPricingData(input.lineItems),
     getCarrierContext(input.carrier),
+    loadScopeRules(),
   ]);
 
-  const enrichedItems = input.lineItems.map((item: ClaimLineItem) => ({
+  const catalogMatches = input.lineItems.map(matchClaimLineItem);
+  const surge = assessDemandSurge(input);
+  const surgeMultiplier = surge?.multiplier ?? 1;
+
+  const enrichedItems = input.lineItems.map((item: ClaimLineItem, idx: number) => ({
     ...item,
+    catalogCode: catalogMatches[idx]?.code,
+    catalogDescription: catalogMatches[idx]?.entry.description,
     marketData: pricingData.get(item.description),
   }));
 
@@ -122,17 +138,19 @@ Claim Details:
 - ZIP Code: ${input.zipCode}
 - Carrier: ${input.carrier || 'Unknown'}
 - Document Reference: ${input.claimNumber || 'N/A'}
-
+- Deductible: ${input.deductible !== undefined ? `$${input.deductible}` : 'Unknown'}
+${surge ? `- Demand Surge: ${surge.disclosure} Market data below is pre-surge.\n` : ''}
 Line Items:
 ${JSON.stringify(enrichedItems, null, 2)}
 
 ${carrierContext.length > 0 ? `Known carrier patterns:\n${carrierContext.join('\n')}` : ''}
 
 Provide comprehensive analysis focusing on:
-1. Price validation against market rates
+1. Price validation against market rates (compare against RCV where provided)
 2. Commonly omitted items for these work categories
 3. Carrier-specific tactics if applicable
-4. Specific actionable recommendations`;
+4. Excessive or misapplied depreciation
+5. Specific actionable recommendations`;
 
   try {
     const response = await routeLLMRequest(prompt, { systemPrompt: SYSTEM_PROMPT });
@@ -182,12 +200,13 @@ Provide comprehensive analysis focusing on:
       const llmItem = llmAnalysis.itemAnalysis?.[idx];
       const pricing = pricingData.get(item.description);
       const quantity = item.quantity || 1;
-      const marketPrice = pricing 
+      const carrierCost = getPreTaxCost(item);
+      const marketPrice = (pricing 
         ? pricing.avgPrice * quantity 
-        : item.quotedPrice * 1.15;
+        : carrierCost * 1.15) * surgeMultiplier;
       
       const variance = marketPrice > 0 
-        ? ((marketPrice - item.quotedPrice) / marketPrice) * 100 
+        ? ((marketPrice - carrierCost) / marketPrice) * 100 
         : 0;
 
       return {
@@ -197,12 +216,31 @@ Provide comprehensive analysis focusing on:
         flags: llmItem?.flags || (variance > 20 ? [`Underpaid by ${variance.toFixed(1)}%`] : []),
         recommendation: llmItem?.assessment || (variance > 15 ? 'Request re-evaluation' : 'Price acceptable'),
         llmInsight: llmItem?.assessment,
+        ...catalogFields(catalogMatches[idx]),
+        ...demandSurgeFields(surge),
       };
     });
 
-    const totalQuoted = input.lineItems.reduce((sum: number, i: ClaimLineItem) => sum + i.quotedPrice, 0);
+    const depreciationSummary = auditDepreciation(input, auditedItems);
+    const codeUpgrades = auditCodeUpgrades(input, auditedItems);
+    const laborMaterial = auditLaborMaterial(input, auditedItems);
+    const overheadProfit = assessOverheadProfit(input);
+    const overheadProfitItem = formatOverheadProfitMissingItem(overheadProfit);
+
+    const scopeDependencies = evaluateScopeRules(input.lineItems, scopeRules);
+
+    // Deterministic O&P entry replaces any free-form O&P mention from the LLM
+    const llmMissingItems: string[] = (llmAnalysis.missingItems || [])
+      .filter((item: string) => !overheadProfitItem || !/overhead|o\s*&\s*p/i.test(item));
+    const ruleMissingItems = scopeDependencies.items.map(formatMissingScopeItem);
+    const missingItems = overheadProfitItem
+      ? [overheadProfitItem, ...ruleMissingItems, ...llmMissingItems]
+      : [...ruleMissingItems, ...llmMissingItems];
+
+    const totalQuoted = input.lineItems.reduce((sum: number, i: ClaimLineItem) => sum + getReplacementCost(i), 0);
     const totalMarket = auditedItems.reduce((sum: number, i: AuditedLineItem) => sum + i.marketPrice, 0);
-    const totalUnderpayment = Math.max(0, totalMarket - totalQuoted);
+    const totalPreTax = input.lineItems.reduce((sum: number, i: ClaimLineItem) => sum + getPreTaxCost(i), 0);
+    const totalUnderpayment = Math.max(0, totalMarket - totalPreTax) + overheadProfit.missingAmount + laborMaterial.additionalAmount;
 
     const baseConfidence = (llmAnalysis.confidence || 70) / 100;
     const providerBonus = response.provider === 'openai' ? 0.15 : 0.05;
@@ -213,9 +251,15 @@ Provide comprehensive analysis focusing on:
       version: VERSION_ID,
       role: 'primary',
       auditedItems,
-      missingItems: llmAnalysis.missingItems || [],
+      missingItems,
       carrierPatterns: llmAnalysis.carrierInsights || carrierContext,
-      recommendations: llmAnalysis.recommendations || ['Manual review recommended'],
+      recommendations: [
+        ...(llmAnalysis.recommendations || ['Manual review recommended']),
+        ...depreciationRecommendations(depreciationSummary),
+        ...codeUpgradeRecommendations(codeUpgrades),
+        ...laborMaterialRecommendations(laborMaterial),
+        ...demandSurgeRecommendations(surge),
+      ],
       summary: {
         totalQuoted,
         totalMarketValue: totalMarket,
@@ -223,6 +267,12 @@ Provide comprehensive analysis focusing on:
         itemsAudited: auditedItems.length,
         flaggedItems: auditedItems.filter(i => i.flags.length > 0).length,
       },
+      depreciationSummary,
+      overheadProfit,
+      scopeDependencies,
+      codeUpgrades,
+      laborMaterial,
+      ...(surge && { demandSurge: surge }),
       confidence,
       processingTimeMs: Date.now() - startTime,
       llmProvider: response.provider,
@@ -0,0 +1,307 @@
+/**
+ * Claim Document Comparison
+ *
+ * Aligns the line items of every document attached to a claim - the carrier
+ * estimate, its supplements and the contractor's bid - and produces a
+ * three-way diff: items the carrier omitted, quantity gaps and unit price
+ * gaps against the bid.
+ *
+ * Lines are aligned by catalog code when both sides carry one, otherwise by
+ * Dice similarity of their descriptions (see utils/fuzzyMatch).
+ */
+
+import { textSimilarity } from '../utils/fuzzyMatch';
+
+export type ComparisonDocumentType = 'carrier_estimate' | 'contractor_bid' | 'supplement';
+
+export type ComparisonIssueType =
+  | 'omitted'            // On the bid, missing from the carrier estimate and supplements
+  | 'quantity_gap'       // Carrier quantity below the bid
+  | 'unit_price_gap'     // Carrier unit price below the bid
+  | 'added_by_supplement'
+  | 'not_in_bid';
+
+export interface ComparisonLine {
+  id?: string;
+  description: string;
+  catalogCode?: string | null;
+  quantity: number;
+  unit: string;
+  unitPrice?: number | null;
+  rcv: number;
+}
+
+export interface ComparisonDocument {
+  id: string;
+  documentType: ComparisonDocumentType;
+  label: string;
+  sequence?: number;
+  createdAt?: Date | string;
+  lines: ComparisonLine[];
+}
+
+export interface ComparisonCell {
+  documentId: string;
+  lineId?: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  total: number;
+  matchScore: number;
+}
+
+export interface ComparisonIssue {
+  type: ComparisonIssueType;
+  message: string;
+  amount: number;
+}
+
+export interface ComparisonRow {
+  description: string;
+  catalogCode?: string;
+  unit: string;
+  cells: Record<string, ComparisonCell | null>;
+  carrier: ComparisonCell | null;   // Latest carrier figure (supplement overrides estimate)
+  bid: ComparisonCell | null;
+  gapAmount: number;                // Bid total minus carrier total
+  issues: ComparisonIssue[];
+}
+
+export interface ClaimComparisonSummary {
+  carrierTotal: number;
+  bidTotal: number;
+  gapTotal: number;
+  omittedCount: number;
+  omittedAmount: number;
+  quantityGapCount: number;
+  quantityGapAmount: number;
+  unitPriceGapCount: number;
+  unitPriceGapAmount: number;
+  unmatchedCarrierCount: number;
+}
+
+export interface ClaimComparison {
+  documents: Array<Omit<ComparisonDocument, 'lines'> & { lineCount: number; total: number }>;
+  rows: ComparisonRow[];
+  summary: ClaimComparisonSummary;
+}
+
+export class ClaimComparisonError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClaimComparisonError';
+  }
+}
+
+// Minimum description similarity for two lines to be treated as the same item
+export const MIN_ALIGNMENT_SCORE = 0.6;
+
+// Gaps smaller than these are rounding noise, not disputes
+const QUANTITY_GAP_TOLERANCE_PCT = 2;
+const UNIT_PRICE_GAP_TOLERANCE_PCT = 3;
+
+const DOCUMENT_ORDER: Record<ComparisonDocumentType, number> = {
+  carrier_estimate: 0,
+  supplement: 1,
+  contractor_bid: 2,
+};
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function normalizeUnit(unit: string): string {
+  return unit.trim().toUpperCase();
+}
+
+// Quantities in SF are compared to SQ lines in squares
+function convertQuantity(quantity: number, fromUnit: string, toUnit: string): number | null {
+  const from = normalizeUnit(fromUnit);
+  const to = normalizeUnit(toUnit);
+  if (from === to) return quantity;
+  if (from === 'SF' && to === 'SQ') return quantity / 100;
+  if (from === 'SQ' && to === 'SF') return quantity * 100;
+  return null;
+}
+
+function toCell(document: ComparisonDocument, line: ComparisonLine, unit: string, matchScore: number): ComparisonCell {
+  const quantity = convertQuantity(line.quantity, line.unit, unit) ?? line.quantity;
+  const total = line.rcv;
+  const unitPrice = quantity > 0 ? total / quantity : (line.unitPrice ?? 0);
+
+  return {
+    documentId: document.id,
+    lineId: line.id,
+    description: line.description,
+    quantity: round(quantity),
+    unit,
+    unitPrice: round(unitPrice),
+    total: round(total),
+    matchScore: round(matchScore),
+  };
+}
+
+/**
+ * Similarity between a line and an aligned row (1 for a catalog code match)
+ */
+export function alignmentScore(line: ComparisonLine, row: Pick<ComparisonRow, 'description' | 'catalogCode' | 'unit'>): number {
+  if (convertQuantity(1, line.unit, row.unit) === null) return 0;
+  if (line.catalogCode && row.catalogCode) {
+    return line.catalogCode === row.catalogCode ? 1 : 0;
+  }
+  return Math.max(textSimilarity(line.description, row.description), textSimilarity(row.description, line.description));
+}
+
+function sortDocuments(documents: ComparisonDocument[]): ComparisonDocument[] {
+  return [...documents].sort((a, b) =>
+    DOCUMENT_ORDER[a.documentType] - DOCUMENT_ORDER[b.documentType]
+    || (a.sequence ?? 1) - (b.sequence ?? 1)
+    || new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime()
+  );
+}
+
+function alignLines(documents: ComparisonDocument[]): ComparisonRow[] {
+  const rows: ComparisonRow[] = [];
+
+  for (const document of documents) {
+    const claimed = new Set<ComparisonRow>();
+
+    for (const line of document.lines) {
+      let best: { row: ComparisonRow; score: number } | null = null;
+      for (const row of rows) {
+        if (claimed.has(row)) continue;
+        const score = alignmentScore(line, row);
+        if (score >= MIN_ALIGNMENT_SCORE && (!best || score > best.score)) {
+          best = { row, score };
+        }
+      }
+
+      const row = best?.row ?? {
+        description: line.description,
+        catalogCode: line.catalogCode ?? undefined,
+        unit: normalizeUnit(line.unit),
+        cells: {},
+        carrier: null,
+        bid: null,
+        gapAmount: 0,
+        issues: [],
+      };
+      if (!best) rows.push(row);
+      if (!row.catalogCode && line.catalogCode) row.catalogCode = line.catalogCode;
+
+      row.cells[document.id] = toCell(document, line, row.unit, best?.score ?? 1);
+      claimed.add(row);
+    }
+  }
+
+  return rows;
+}
+
+function describeIssues(row: ComparisonRow, addedBySupplement: boolean): ComparisonIssue[] {
+  const issues: ComparisonIssue[] = [];
+  const { carrier, bid } = row;
+
+  if (bid && !carrier) {
+    issues.push({
+      type: 'omitted',
+      message: `Carrier omitted "${bid.description}" (bid: ${bid.quantity} ${row.unit} @ $${bid.unitPrice.toFixed(2)})`,
+      amount: bid.total,
+    });
+    return issues;
+  }
+
+  if (carrier && !bid) {
+    issues.push({ type: 'not_in_bid', message: `"${carrier.description}" is on the carrier estimate but not the contractor bid`, amount: 0 });
+    return issues;
+  }
+
+  if (!carrier || !bid) return issues;
+
+  if (addedBySupplement) {
+    issues.push({ type: 'added_by_supplement', message: `"${carrier.description}" was added by a supplement`, amount: 0 });
+  }
+
+  // Total gap = (bid qty - carrier qty) x carrier price + (bid price - carrier price) x bid qty
+  const quantityGap = bid.quantity - carrier.quantity;
+  if (carrier.quantity === 0 || (quantityGap / carrier.quantity) * 100 > QUANTITY_GAP_TOLERANCE_PCT) {
+    issues.push({
+      type: 'quantity_gap',
+      message: `Carrier paid ${carrier.quantity} ${row.unit}, contractor bid ${bid.quantity} ${row.unit}`,
+      amount: round(quantityGap * carrier.unitPrice),
+    });
+  }
+
+  const priceGap = bid.unitPrice - carrier.unitPrice;
+  if (carrier.unitPrice === 0 || (priceGap / carrier.unitPrice) * 100 > UNIT_PRICE_GAP_TOLERANCE_PCT) {
+    issues.push({
+      type: 'unit_price_gap',
+      message: `Carrier priced $${carrier.unitPrice.toFixed(2)}/${row.unit}, contractor bid $${bid.unitPrice.toFixed(2)}/${row.unit}`,
+      amount: round(priceGap * bid.quantity),
+    });
+  }
+
+  return issues.filter(issue => issue.amount > 0 || issue.type === 'added_by_supplement');
+}
+
+/**
+ * Align every document's lines and diff the carrier's position against the bid
+ */
+export function compareClaimDocuments(documents: ComparisonDocument[]): ClaimComparison {
+  const ordered = sortDocuments(documents);
+  const carrierDocs = ordered.filter(d => d.documentType !== 'contractor_bid');
+  const bids = ordered.filter(d => d.documentType === 'contractor_bid');
+
+  if (carrierDocs.length === 0) {
+    throw new ClaimComparisonError('Upload the carrier estimate before comparing documents');
+  }
+
+  const rows = alignLines(ordered);
+  const latestBid = bids[bids.length - 1];
+  const estimateIds = new Set(ordered.filter(d => d.documentType === 'carrier_estimate').map(d => d.id));
+
+  for (const row of rows) {
+    // The latest carrier document that carries the line is the carrier's current position
+    const carrierDoc = [...carrierDocs].reverse().find(d => row.cells[d.id]);
+    row.carrier = carrierDoc ? row.cells[carrierDoc.id] : null;
+    row.bid = latestBid ? row.cells[latestBid.id] ?? null : null;
+    row.gapAmount = round((row.bid?.total ?? 0) - (row.carrier?.total ?? 0));
+
+    const addedBySupplement = !!row.carrier && !Array.from(estimateIds).some(id => row.cells[id]);
+    row.issues = latestBid ? describeIssues(row, addedBySupplement) : [];
+
+    for (const document of ordered) {
+      if (!(document.id in row.cells)) row.cells[document.id] = null;
+    }
+  }
+
+  const issuesOf = (type: ComparisonIssueType) => rows.flatMap(r => r.issues.filter(i => i.type === type));
+  const sumAmount = (issues: ComparisonIssue[]) => round(issues.reduce((sum, i) => sum + i.amount, 0));
+
+  const omitted = issuesOf('omitted');
+  const quantityGaps = issuesOf('quantity_gap');
+  const unitPriceGaps = issuesOf('unit_price_gap');
+  const carrierTotal = round(rows.reduce((sum, r) => sum + (r.carrier?.total ?? 0), 0));
+  const bidTotal = round(rows.reduce((sum, r) => sum + (r.bid?.total ?? 0), 0));
+
+  return {
+    documents: ordered.map(({ lines, ...document }) => ({
+      ...document,
+      lineCount: lines.length,
+      total: round(lines.reduce((sum, l) => sum + l.rcv, 0)),
+    })),
+    rows: rows.sort((a, b) => b.gapAmount - a.gapAmount),
+    summary: {
+      carrierTotal,
+      bidTotal,
+      gapTotal: round(bidTotal - carrierTotal),
+      omittedCount: omitted.length,
+      omittedAmount: sumAmount(omitted),
+      quantityGapCount: quantityGaps.length,
+      quantityGapAmount: sumAmount(quantityGaps),
+      unitPriceGapCount: unitPriceGaps.length,
+      unitPriceGapAmount: sumAmount(unitPriceGaps),
+      unmatchedCarrierCount: issuesOf('not_in_bid').length,
+    },
+  };
+}
@@ -0,0 +1,399 @@
+/**
+ * Claim Lifecycle Tracker
+ *
+ * Stages a homeowner's claim moves through with the carrier - filed,
+ * inspected, estimate received, supplement sent, re-inspection and the
+ * resolutions (paid, appraisal, litigation) - plus the statutory deadlines
+ * that run from the loss date and from each stage.
+ *
+ * Deadlines come from state prompt-pay statutes and claim-handling
+ * regulations; states without an entry fall back to the NAIC Unfair Claims
+ * Settlement Practices model regulation and the 165-line standard fire
+ * policy. Policy language can shorten or extend several of these windows,
+ * so every deadline carries its citation and the basis it was computed from.
+ */
+
+export type ClaimLifecycleStage =
+  | 'filed'
+  | 'inspected'
+  | 'estimate_received'
+  | 'supplement_sent'
+  | 'reinspection'
+  | 'paid'
+  | 'appraisal'
+  | 'litigation';
+
+export const CLAIM_LIFECYCLE_STAGES: Array<{ stage: ClaimLifecycleStage; label: string }> = [
+  { stage: 'filed', label: 'Claim filed' },
+  { stage: 'inspected', label: 'Inspected' },
+  { stage: 'estimate_received', label: 'Estimate received' },
+  { stage: 'supplement_sent', label: 'Supplement sent' },
+  { stage: 'reinspection', label: 'Re-inspection' },
+  { stage: 'paid', label: 'Paid' },
+  { stage: 'appraisal', label: 'Appraisal' },
+  { stage: 'litigation', label: 'Litigation' },
+];
+
+const STAGE_ORDER = CLAIM_LIFECYCLE_STAGES.map(s => s.stage);
+const RESOLUTION_STAGES: ClaimLifecycleStage[] = ['paid', 'appraisal', 'litigation'];
+
+export class ClaimLifecycleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClaimLifecycleError';
+  }
+}
+
+export function getStageLabel(stage: ClaimLifecycleStage): string {
+  return CLAIM_LIFECYCLE_STAGES.find(s => s.stage === stage)?.label ?? stage;
+}
+
+/**
+ * Claims only move forward, with two exceptions: supplements and
+ * re-inspections can go back and forth any number of times, and the
+ * resolutions can follow one another (an appraisal award gets paid, an
+ * underpayment ends in litigation).
+ */
+export function canTransition(from: ClaimLifecycleStage | null, to: ClaimLifecycleStage): boolean {
+  if (!from) return to === 'filed';
+  if (from === 'supplement_sent' && to === 'supplement_sent') return true;
+  if (from === 'reinspection' && to === 'supplement_sent') return true;
+  if (RESOLUTION_STAGES.includes(from)) return RESOLUTION_STAGES.includes(to) && from !== to;
+  return STAGE_ORDER.indexOf(to) > STAGE_ORDER.indexOf(from);
+}
+
+export function assertStageTransition(from: ClaimLifecycleStage | null, to: ClaimLifecycleStage): void {
+  if (!canTransition(from, to)) {
+    throw new ClaimLifecycleError(
+      from
+        ? `Cannot move a claim from "${getStageLabel(from)}" to "${getStageLabel(to)}"`
+        : 'Tracking must start with the claim being filed'
+    );
+  }
+}
+
+// ============================================
+// STATUTORY DEADLINES
+// ============================================
+
+export type DeadlineKey =
+  | 'notice_of_claim'
+  | 'proof_of_loss'
+  | 'carrier_acknowledgment'
+  | 'carrier_decision'
+  | 'supplement_response'
+  | 'suit_limitation';
+
+type DeadlineAnchor = 'loss' | ClaimLifecycleStage;
+
+export interface DeadlineRule {
+  key: DeadlineKey;
+  label: string;
+  party: 'policyholder' | 'carrier';
+  anchor: DeadlineAnchor;
+  days?: number;
+  businessDays?: boolean;
+  years?: number;
+  basis: string;
+  citation: string;
+  satisfiedBy: ClaimLifecycleStage[];  // Recording one of these on or after the anchor meets the deadline
+}
+
+export interface StateDeadlineProfile {
+  state: string | null;
+  jurisdiction: string;
+  rules: DeadlineRule[];
+}
+
+export type DeadlineStatus = 'met' | 'overdue' | 'due_soon' | 'upcoming';
+
+export interface ClaimDeadline {
+  key: DeadlineKey;
+  label: string;
+  party: 'policyholder' | 'carrier';
+  dueDate: string;         // YYYY-MM-DD
+  daysRemaining: number;   // Negative once overdue
+  status: DeadlineStatus;
+  basis: string;
+  citation: string;
+}
+
+export interface LifecycleEvent {
+  stage: ClaimLifecycleStage;
+  occurredAt: Date | string;
+}
+
+// Deadlines this close are flagged in the UI
+export const DUE_SOON_DAYS = 14;
+
+const AFTER_FILED: ClaimLifecycleStage[] = ['inspected', 'estimate_received', 'supplement_sent', 'reinspection', 'paid', 'appraisal', 'litigation'];
+const AFTER_INSPECTED: ClaimLifecycleStage[] = ['estimate_received', 'supplement_sent', 'reinspection', 'paid', 'appraisal', 'litigation'];
+const AFTER_SUPPLEMENT: ClaimLifecycleStage[] = ['reinspection', 'paid', 'appraisal', 'litigation'];
+
+function proofOfLoss(days: number, anchor: DeadlineAnchor, basis: string, citation: string): DeadlineRule {
+  return {
+    key: 'proof_of_loss', label: 'Sworn proof of loss due', party: 'policyholder',
+    anchor, days, basis, citation, satisfiedBy: ['paid', 'appraisal', 'litigation'],
+  };
+}
+
+function acknowledgment(days: number, citation: string, businessDays = false): DeadlineRule {
+  return {
+    key: 'carrier_acknowledgment', label: 'Carrier must acknowledge and begin investigating', party: 'carrier',
+    anchor: 'filed', days, businessDays,
+    basis: `${days} ${businessDays ? 'business ' : ''}days after notice of the claim`,
+    citation, satisfiedBy: AFTER_FILED,
+  };
+}
+
+function decision(days: number, anchor: DeadlineAnchor, basis: string, citation: string, businessDays = false): DeadlineRule {
+  return {
+    key: 'carrier_decision', label: 'Carrier must accept or deny the claim', party: 'carrier',
+    anchor, days, businessDays, basis, citation, satisfiedBy: AFTER_INSPECTED,
+  };
+}
+
+function supplementResponse(days: number, citation: string, businessDays = false): DeadlineRule {
+  return {
+    key: 'supplement_response', label: 'Carrier must respond to the supplement', party: 'carrier',
+    anchor: 'supplement_sent', days, businessDays,
+    basis: `${days} ${businessDays ? 'business ' : ''}days after the latest supplement was sent`,
+    citation, satisfiedBy: AFTER_SUPPLEMENT,
+  };
+}
+
+function suitLimitation(years: number, basis: string, citation: string, days?: number): DeadlineRule {
+  return {
+    key: 'suit_limitation', label: 'Last day to file suit', party: 'policyholder',
+    anchor: 'loss', years, days, basis, citation, satisfiedBy: ['litigation'],
+  };
+}
+
+const DEFAULT_PROFILE: StateDeadlineProfile = {
+  state: null,
+  jurisdiction: 'NAIC model regulation / standard fire policy',
+  rules: [
+    proofOfLoss(60, 'loss', '60 days after the loss', 'Standard fire policy (165 lines), Requirements in case loss occurs'),
+    acknowledgment(15, 'NAIC Unfair Property/Casualty Claims Settlement Practices Model Regulation §6(A)'),
+    decision(21, 'inspected', '21 days after proof of loss (estimated from the inspection date)', 'NAIC Model Regulation §8(A)'),
+    supplementResponse(15, 'NAIC Model Regulation §6(C)'),
+    suitLimitation(1, '12 months after inception of the loss', 'Standard fire policy (165 lines), Suit'),
+  ],
+};
+
+const STATE_DEADLINE_PROFILES: Record<string, StateDeadlineProfile> = {
+  TX: {
+    state: 'TX',
+    jurisdiction: 'Texas Prompt Payment of Claims Act',
+    rules: [
+      proofOfLoss(91, 'filed', '91 days after the carrier requests it (estimated from the filing date)', 'Texas HO policy, Duties After Loss'),
+      acknowledgment(15, 'Tex. Ins. Code §542.055'),
+      decision(15, 'inspected', '15 business days after the carrier receives all requested items (estimated from the inspection date)', 'Tex. Ins. Code §542.056', true),
+      supplementResponse(15, 'Tex. Ins. Code §542.055(a)'),
+      suitLimitation(2, '2 years and 1 day after the loss', 'Tex. Civ. Prac. & Rem. Code §16.070', 1),
+    ],
+  },
+  FL: {
+    state: 'FL',
+    jurisdiction: 'Florida Insurance Code',
+    rules: [
+      {
+        key: 'notice_of_claim', label: 'Notice of claim must be given', party: 'policyholder',
+        anchor: 'loss', years: 1, basis: '1 year after the date of loss', citation: 'Fla. Stat. §627.70132',
+        satisfiedBy: ['filed', ...AFTER_FILED],
+      },
+      proofOfLoss(60, 'filed', '60 days after the carrier requests it (estimated from the filing date)', 'Florida HO policy, Duties After Loss'),
+      acknowledgment(7, 'Fla. Stat. §627.70131(1)(a)'),
+      decision(60, 'filed', '60 days after notice of the claim', 'Fla. Stat. §627.70131(7)(a)'),
+      supplementResponse(7, 'Fla. Stat. §627.70131(1)(a)'),
+      suitLimitation(1, '1 year after the date of loss', 'Fla. Stat. §95.11'),
+    ],
+  },
+  CA: {
+    state: 'CA',
+    jurisdiction: 'California Fair Claims Settlement Practices Regulations',
+    rules: [
+      proofOfLoss(60, 'loss', '60 days after the loss', 'Cal. Ins. Code §2071'),
+      acknowledgment(15, '10 CCR §2695.5(e)'),
+      decision(40, 'inspected', '40 days after proof of claim (estimated from the inspection date)', '10 CCR §2695.7(b)'),
+      supplementResponse(15, '10 CCR §2695.5(b)'),
+      suitLimitation(1, '12 months after the loss, tolled while the claim is under review', 'Cal. Ins. Code §2071'),
+    ],
+  },
+  NY: {
+    state: 'NY',
+    jurisdiction: 'New York Regulation 64',
+    rules: [
+      proofOfLoss(60, 'filed', '60 days after the carrier demands it (estimated from the filing date)', 'N.Y. Ins. Law §3407'),
+      acknowledgment(15, '11 NYCRR §216.4(a)', true),
+      decision(15, 'inspected', '15 business days after proof of loss (estimated from the inspection date)', '11 NYCRR §216.6(c)', true),
+      supplementResponse(15, '11 NYCRR §216.4(b)', true),
+      suitLimitation(2, '2 years after inception of the loss', 'N.Y. Ins. Law §3404'),
+    ],
+  },
+  LA: {
+    state: 'LA',
+    jurisdiction: 'Louisiana Insurance Code',
+    rules: [
+      proofOfLoss(60, 'loss', '60 days after the loss', 'Standard fire policy (165 lines), Requirements in case loss occurs'),
+      acknowledgment(14, 'La. R.S. 22:1892(A)(3)'),
+      decision(30, 'inspected', '30 days after satisfactory proof of loss (estimated from the inspection date)', 'La. R.S. 22:1892(A)(1)'),
+      supplementResponse(30, 'La. R.S. 22:1892(A)(4)'),
+      suitLimitation(2, '24 months after the loss', 'La. R.S. 22:868(B)'),
+    ],
+  },
+};
+
+export function getStateDeadlineProfile(state: string | null | undefined): StateDeadlineProfile {
+  return (state && STATE_DEADLINE_PROFILES[state.toUpperCase()]) || DEFAULT_PROFILE;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toUtcDay(value: Date | string): Date {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function addBusinessDays(start: Date, days: number): Date {
+  const date = new Date(start);
+  let remaining = days;
+  while (remaining > 0) {
+    date.setUTCDate(date.getUTCDate() + 1);
+    const weekday = date.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) remaining--;
+  }
+  return date;
+}
+
+function applyRule(anchor: Date, rule: DeadlineRule): Date {
+  let due = new Date(anchor);
+  if (rule.years) due.setUTCFullYear(due.getUTCFullYear() + rule.years);
+  if (rule.days) {
+    due = rule.businessDays ? addBusinessDays(due, rule.days) : new Date(due.getTime() + rule.days * DAY_MS);
+  }
+  return due;
+}
+
+function findAnchor(anchor: DeadlineAnchor, lossDate: Date | null, events: LifecycleEvent[]): Date | null {
+  if (anchor === 'loss') return lossDate;
+  const matching = events.filter(e => e.stage === anchor);
+  if (matching.length === 0) return null;
+  // Supplements restart the carrier's response clock, so use the latest one
+  const event = anchor === 'supplement_sent' ? matching[matching.length - 1] : matching[0];
+  return toUtcDay(event.occurredAt);
+}
+
+/**
+ * Compute every deadline whose anchor is known. Deadlines anchored to a stage
+ * the claim hasn't reached yet are left out.
+ */
+export function computeClaimDeadlines(
+  input: { lossDate: Date | string | null; state: string | null; events: LifecycleEvent[] },
+  now: Date = new Date()
+): ClaimDeadline[] {
+  const lossDate = input.lossDate ? toUtcDay(input.lossDate) : null;
+  const events = [...input.events].sort((a, b) => new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime());
+  const today = toUtcDay(now);
+
+  const deadlines: ClaimDeadline[] = [];
+  for (const rule of getStateDeadlineProfile(input.state).rules) {
+    const anchor = findAnchor(rule.anchor, lossDate, events);
+    if (!anchor) continue;
+
+    const due = applyRule(anchor, rule);
+    const daysRemaining = Math.round((due.getTime() - today.getTime()) / DAY_MS);
+    const met = events.some(e => rule.satisfiedBy.includes(e.stage) && toUtcDay(e.occurredAt) >= anchor);
+
+    let status: DeadlineStatus;
+    if (met) status = 'met';
+    else if (daysRemaining < 0) status = 'overdue';
+    else if (daysRemaining <= DUE_SOON_DAYS) status = 'due_soon';
+    else status = 'upcoming';
+
+    deadlines.push({
+      key: rule.key,
+      label: rule.label,
+      party: rule.party,
+      dueDate: due.toISOString().slice(0, 10),
+      daysRemaining,
+      status,
+      basis: rule.basis,
+      citation: rule.citation,
+    });
+  }
+
+  return deadlines.sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+}
+
+// ============================================
+// REMINDERS
+// ============================================
+
+// Policyholder deadlines are reminded this many days ahead; carrier deadlines once they lapse
+export const REMINDER_LEAD_DAYS = [30, 7, 1];
+
+export interface DeadlineReminder {
+  reminderKey: string;
+  deadline: ClaimDeadline;
+}
+
+/**
+ * Reminders that are due and haven't been sent yet. Only the tightest lead
+ * time is used, so a deadline first seen 5 days out sends one 7-day reminder
+ * rather than catching up on the 30-day one too.
+ */
+export function getDueReminders(deadlines: ClaimDeadline[], sentKeys: Iterable<string>): DeadlineReminder[] {
+  const sent = new Set(sentKeys);
+  const reminders: DeadlineReminder[] = [];
+
+  for (const deadline of deadlines) {
+    if (deadline.status === 'met') continue;
+
+    let reminderKey: string | null = null;
+    if (deadline.party === 'carrier') {
+      if (deadline.status === 'overdue') reminderKey = `${deadline.key}:overdue`;
+    } else if (deadline.daysRemaining >= 0) {
+      const lead = [...REMINDER_LEAD_DAYS].sort((a, b) => a - b).find(days => deadline.daysRemaining <= days);
+      if (lead !== undefined) reminderKey = `${deadline.key}:${lead}`;
+    }
+
+    if (reminderKey && !sent.has(reminderKey)) {
+      reminders.push({ reminderKey, deadline });
+    }
+  }
+
+  return reminders;
+}
+
+export function buildReminderEmail(
+  claimLabel: string,
+  reminders: DeadlineReminder[],
+  dashboardUrl: string
+): { subject: string; text: string } {
+  const overdue = reminders.filter(r => r.deadline.status === 'overdue');
+  const subject = overdue.length > 0
+    ? `Carrier deadline missed on your claim - ${claimLabel}`
+    : `Upcoming claim deadline - ${claimLabel}`;
+
+  const lines = reminders.map(({ deadline }) => {
+    const when = deadline.status === 'overdue'
+      ? `was due ${deadline.dueDate} (${Math.abs(deadline.daysRemaining)} days ago)`
+      : `is due ${deadline.dueDate} (${deadline.daysRemaining} days left)`;
+    return `- ${deadline.label} ${when}\n  ${deadline.basis} - ${deadline.citation}`;
+  });
+
+  const text = [
+    `Claim: ${claimLabel}`,
+    '',
+    ...lines,
+    '',
+    overdue.length > 0
+      ? 'A missed carrier deadline can support a complaint to your state insurance department or a bad-faith claim. Keep written records of every contact.'
+      : 'Deadlines are computed from your loss date and state law; your policy may set different terms.',
+    '',
+    `Review your claim timeline: ${dashboardUrl}`,
+  ].join('\n');
+
+  return { subject, text };
+}
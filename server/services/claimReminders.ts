@@ -0,0 +1,73 @@
+/**
+ * Claim Deadline Reminders
+ *
+ * Daily sweep over every tracked claim: recompute its statutory deadlines and
+ * email the owner about policyholder deadlines coming up and carrier
+ * deadlines that have lapsed. Each reminder is logged so it is sent once.
+ */
+
+import { storage } from '../storage';
+import { sendEmail } from '../utils/email';
+import { computeClaimDeadlines, getDueReminders, buildReminderEmail } from './claimLifecycle';
+
+export interface ClaimReminderRunResult {
+  claimsChecked: number;
+  remindersSent: number;
+  duration: number;
+}
+
+function getBaseUrl(): string {
+  if (process.env.REPLIT_DEV_DOMAIN) {
+    return `https://${process.env.REPLIT_DEV_DOMAIN}`;
+  }
+  return process.env.BASE_URL || 'http://localhost:5000';
+}
+
+export async function runClaimDeadlineReminders(now: Date = new Date()): Promise<ClaimReminderRunResult> {
+  const startTime = Date.now();
+  const trackedClaims = await storage.getTrackedUserClaims();
+  let remindersSent = 0;
+
+  for (const userClaim of trackedClaims) {
+    const recipient = userClaim.email || userClaim.inputs?.email;
+    if (!recipient) continue;
+
+    try {
+      const events = await storage.getUserClaimStatusEvents(userClaim.id);
+      const deadlines = computeClaimDeadlines({
+        lossDate: userClaim.lossDate,
+        state: userClaim.lossState,
+        events,
+      }, now);
+
+      const sent = await storage.getClaimDeadlineReminders(userClaim.id);
+      const reminders = getDueReminders(deadlines, sent.map(r => r.reminderKey));
+      if (reminders.length === 0) continue;
+
+      const claimLabel = [userClaim.carrier, userClaim.inputs?.propertyAddress || userClaim.inputs?.zipCode]
+        .filter(Boolean)
+        .join(' - ') || `Claim ${userClaim.id.slice(0, 8)}`;
+      const { subject, text } = buildReminderEmail(claimLabel, reminders, `${getBaseUrl()}/my-claims`);
+
+      const delivered = await sendEmail({ to: recipient, subject, text });
+      if (!delivered) continue;
+
+      for (const reminder of reminders) {
+        await storage.createClaimDeadlineReminder({
+          userClaimId: userClaim.id,
+          reminderKey: reminder.reminderKey,
+          dueDate: new Date(reminder.deadline.dueDate),
+        });
+      }
+      remindersSent += reminders.length;
+    } catch (error) {
+      console.error(`[ClaimReminders] Failed for user claim ${userClaim.id}:`, error);
+    }
+  }
+
+  return {
+    claimsChecked: trackedClaims.length,
+    remindersSent,
+    duration: Date.now() - startTime,
+  };
+}
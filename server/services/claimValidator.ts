@@ -3,8 +3,12 @@
  * 
  * Enhanced validation for insurance claim line items with trade-specific rules,
  * unit validation, quantity checking, and warning system.
+ * Item names are resolved against the canonical line-item catalog first,
+ * with trade keywords as a fallback for descriptions the catalog can't place.
  */
 
+import { resolveLineItem, type CatalogMatch } from '@shared/lineItemCatalog';
+
 export interface ValidationWarning {
   code: string;
   severity: 'info' | 'warning' | 'error';
@@ -18,6 +22,8 @@ export interface ValidationResult {
   normalizedItem?: string;
   normalizedUnit?: string;
   normalizedQuantity?: number;
+  catalogCode?: string;
+  catalogMatchScore?: number;
 }
 
 export interface LineItemInput {
@@ -174,6 +180,10 @@ export function normalizeUnit(unit: string): UnitType | null {
   return UNIT_ALIASES[normalized] || (normalized.toUpperCase() as UnitType) || null;
 }
 
+function tradeFromCatalog(match: CatalogMatch | null): string | null {
+  return match && TRADE_RULES[match.entry.trade] ? match.entry.trade : null;
+}
+
 export function detectTrade(itemName: string, category?: string): string | null {
   const lowerName = itemName.toLowerCase();
   const lowerCategory = category?.toLowerCase();
@@ -182,6 +192,11 @@ export function detectTrade(itemName: string, category?: string): string | null
     return lowerCategory;
   }
   
+  const catalogTrade = tradeFromCatalog(resolveLineItem(itemName, { category }));
+  if (catalogTrade) {
+    return catalogTrade;
+  }
+  
   for (const [trade, rule] of Object.entries(TRADE_RULES)) {
     for (const keyword of rule.keywords) {
       if (lowerName.includes(keyword)) {
@@ -198,6 +213,7 @@ export function validateLineItem(input: LineItemInput): ValidationResult {
   let isValid = true;
   
   const normalizedUnit = normalizeUnit(input.unit);
+  const catalogMatch = resolveLineItem(input.itemName, { category: input.category, unit: input.unit });
   const detectedTrade = detectTrade(input.itemName, input.category);
   
   if (!normalizedUnit) {
@@ -285,6 +301,17 @@ export function validateLineItem(input: LineItemInput): ValidationResult {
     }
   }
   
+  if (catalogMatch && normalizedUnit && catalogMatch.entry.unit !== normalizedUnit &&
+      !(catalogMatch.entry.unit === 'EA' && normalizedUnit === 'CT') &&
+      !warnings.some(w => w.code === 'UNEXPECTED_UNIT')) {
+    warnings.push({
+      code: 'CATALOG_UNIT_MISMATCH',
+      severity: 'info',
+      message: `${catalogMatch.code} (${catalogMatch.entry.description}) is normally priced per ${catalogMatch.entry.unit}`,
+      suggestion: `Verify the quantity was measured in ${catalogMatch.entry.unit}`
+    });
+  }
+
   const subtotal = input.price * input.quantity;
   if (subtotal > 100000) {
     warnings.push({
@@ -300,7 +327,9 @@ export function validateLineItem(input: LineItemInput): ValidationResult {
     warnings,
     normalizedItem: input.itemName.trim(),
     normalizedUnit: normalizedUnit || undefined,
-    normalizedQuantity: input.quantity
+    normalizedQuantity: input.quantity,
+    catalogCode: catalogMatch?.code,
+    catalogMatchScore: catalogMatch?.score
   };
 }
 
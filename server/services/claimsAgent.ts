@@ -18,7 +18,11 @@ import {
   getVersionStatuses, 
   getActiveVersion, 
   getServiceHealth,
-  type ClaimAuditInput 
+  evaluateScopeRules,
+  formatMissingScopeItem,
+  loadScopeRules,
+  type ClaimAuditInput,
+  type ScopeDependencySummary
 } from "./claimAudit";
 import { db } from "../db";
 import { pricingDataPoints, carrierTrends } from "@shared/schema";
@@ -51,6 +55,7 @@ interface AgentState {
     flags: string[];
   }>;
   missingItems: string[];
+  scopeDependencies?: ScopeDependencySummary;
   carrierPatterns: string[];
   recommendations: string[];
   confidence: number;
@@ -62,6 +67,7 @@ interface AgentResult {
   analysis: {
     validatedItems: AgentState['validatedItems'];
     missingItems: string[];
+    scopeDependencies?: ScopeDependencySummary;
     carrierPatterns: string[];
     recommendations: string[];
     totalUnderpayment: number;
@@ -72,56 +78,6 @@ interface AgentResult {
   error?: string;
 }
 
-// Common missing items by category
-const COMMON_MISSING_ITEMS: Record<string, string[]> = {
-  roofing: [
-    "Ice and water shield (valleys, eaves)",
-    "Drip edge (metal)",
-    "Valley flashing",
-    "Starter strip",
-    "Ridge vent",
-    "Pipe boots/flashings",
-    "Step flashing",
-    "Permit and inspection fees",
-    "Steep/high roof charge",
-    "Debris removal",
-  ],
-  siding: [
-    "House wrap replacement",
-    "J-channel trim",
-    "Corner posts",
-    "Window/door trim",
-    "Soffit and fascia",
-    "Vapor barrier",
-    "Sheathing repair",
-  ],
-  flooring: [
-    "Floor leveling compound",
-    "Underlayment",
-    "Transition strips",
-    "Baseboards/quarter round",
-    "Subfloor repair",
-    "Moisture barrier",
-    "Furniture moving allowance",
-  ],
-  painting: [
-    "Primer",
-    "Caulking",
-    "Surface preparation",
-    "Multiple coats",
-    "Trim and detail work",
-    "High ceiling charges",
-  ],
-  drywall: [
-    "Texture matching",
-    "Primer before paint",
-    "Corner bead",
-    "Joint compound (multiple coats)",
-    "Sanding between coats",
-    "Ceiling height adjustment",
-  ],
-};
-
 /**
  * Step 1: Extract line items from document text
  */
@@ -177,7 +133,7 @@ async function validatePricing(state: AgentState): Promise<AgentState> {
       avgPrice: sql<number>`AVG(price_avg)`,
       maxPrice: sql<number>`MAX(price_high)`,
     }).from(pricingDataPoints)
-      .where(sql`LOWER(description) LIKE LOWER(${`%${item.description.substring(0, 20)}%`})`);
+      .where(sql`LOWER(description) LIKE LOWER(${`%${item.description.substring(0, 20)}%`}) AND status = 'accepted'`);
     
     const marketPrice = pricingResults[0]?.avgPrice || item.quotedPrice;
     const maxPrice = pricingResults[0]?.maxPrice || marketPrice * 1.5;
@@ -216,36 +172,19 @@ async function validatePricing(state: AgentState): Promise<AgentState> {
 }
 
 /**
- * Step 3: Detect missing items
+ * Step 3: Detect missing items from scope dependency rules
  */
 async function detectMissingItems(state: AgentState): Promise<AgentState> {
   const step = { step: 'detect_missing_items', result: null as any, timestamp: new Date() };
-  const missingItems: string[] = [];
-  
-  // Get categories from extracted items
-  const categories = new Set(state.extractedItems.map(i => 
-    i.category?.toLowerCase() || 'other'
-  ));
   
-  // Check each category for common missing items
-  for (const category of Array.from(categories)) {
-    const commonItems = COMMON_MISSING_ITEMS[category] || [];
-    const extractedDescriptions = state.extractedItems
-      .map(i => i.description.toLowerCase())
-      .join(' ');
-    
-    for (const commonItem of commonItems) {
-      const keywords = commonItem.toLowerCase().split(/\s+/);
-      const hasItem = keywords.some(kw => extractedDescriptions.includes(kw));
-      
-      if (!hasItem) {
-        missingItems.push(`${category}: ${commonItem}`);
-      }
-    }
-  }
+  const scopeDependencies = evaluateScopeRules(state.extractedItems, await loadScopeRules());
 
-  state.missingItems = missingItems.slice(0, 10); // Limit to top 10
-  step.result = { potentialMissing: missingItems.length };
+  state.scopeDependencies = scopeDependencies;
+  state.missingItems = scopeDependencies.items.map(formatMissingScopeItem).slice(0, 10); // Limit to top 10
+  step.result = {
+    potentialMissing: scopeDependencies.items.length,
+    estimatedCost: scopeDependencies.totalEstimatedCost,
+  };
   state.steps.push(step);
   return state;
 }
@@ -381,6 +320,7 @@ export async function runClaimsAgent(context: ClaimContext): Promise<AgentResult
       analysis: {
         validatedItems: state.validatedItems,
         missingItems: state.missingItems,
+        scopeDependencies: state.scopeDependencies,
         carrierPatterns: state.carrierPatterns,
         recommendations: state.recommendations,
         totalUnderpayment: Math.max(0, totalUnderpayment),
@@ -0,0 +1,489 @@
+/**
+ * Contents Inventory Valuation (Coverage C)
+ *
+ * Values a personal property inventory the way a contents adjuster does:
+ * each item's replacement cost comes from the local price catalog (like
+ * kind and quality, brand-agnostic), the policyholder's own figure, or the
+ * original price brought forward for inflation. Depreciation follows the
+ * schedule for the item's class, scaled by its condition, giving a fair
+ * actual cash value to compare against the carrier's ACV line by line.
+ *
+ * Inventories are imported and exported as CSV. This module has no
+ * database access; routes load and persist the items.
+ */
+
+import { MAX_REASONABLE_DEPRECIATION_PCT } from './claimAudit/depreciation';
+import { csvField, splitCsvLine } from '../utils/csv';
+
+export type ContentsItemClass =
+  | 'electronics'
+  | 'computers'
+  | 'appliances'
+  | 'furniture'
+  | 'mattresses'
+  | 'clothing'
+  | 'linens'
+  | 'kitchenware'
+  | 'tools'
+  | 'sporting_goods'
+  | 'toys'
+  | 'books_media'
+  | 'decor'
+  | 'jewelry'
+  | 'collectibles'
+  | 'other';
+
+export type ContentsCondition = 'new' | 'excellent' | 'good' | 'fair' | 'poor';
+
+export type ReplacementCostSource = 'user' | 'catalog' | 'original_price' | 'none';
+
+export type ContentsItemStatus = 'underpaid' | 'fair' | 'no_carrier_value' | 'unvalued';
+
+export interface ContentsItemInput {
+  name: string;
+  brand?: string | null;
+  itemClass?: ContentsItemClass | null;   // Detected from the name when omitted
+  room?: string | null;
+  ageYears?: number | null;
+  condition?: ContentsCondition | null;
+  quantity?: number | null;
+  originalPrice?: number | null;          // Per unit, as purchased
+  replacementCost?: number | null;        // Per unit, policyholder's own replacement quote
+  carrierAcv?: number | null;             // Carrier's ACV for the whole line (all units)
+}
+
+export interface DepreciationSchedule {
+  label: string;
+  usefulLifeYears: number | null;         // null = does not depreciate with age
+  maxDepreciationPct: number;
+}
+
+export interface ContentsCatalogEntry {
+  key: string;
+  description: string;
+  itemClass: ContentsItemClass;
+  pattern: RegExp;
+  unitPrice: number;
+}
+
+export interface ValuedContentsItem {
+  name: string;
+  brand: string | null;
+  room: string | null;
+  itemClass: ContentsItemClass;
+  condition: ContentsCondition;
+  ageYears: number | null;
+  quantity: number;
+  originalPrice: number | null;
+  unitReplacementCost: number | null;
+  replacementCostSource: ReplacementCostSource;
+  catalogMatch: string | null;            // Catalog description the price came from
+  replacementCost: number | null;         // RCV for the whole line
+  expectedDepreciationPct: number;
+  fairAcv: number | null;
+  carrierAcv: number | null;
+  carrierDepreciationPct: number | null;  // Depreciation implied by the carrier's ACV
+  shortfall: number;                      // fairAcv - carrierAcv when the carrier paid less
+  status: ContentsItemStatus;
+  flags: string[];
+}
+
+export interface ContentsAuditSummary {
+  itemCount: number;
+  totalReplacementCost: number;
+  totalFairAcv: number;
+  totalCarrierAcv: number;
+  totalShortfall: number;
+  underpaidCount: number;
+  unvaluedCount: number;
+}
+
+export interface ContentsAudit {
+  items: ValuedContentsItem[];
+  summary: ContentsAuditSummary;
+}
+
+export class ContentsInventoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContentsInventoryError';
+  }
+}
+
+export const CONTENTS_CONDITIONS: ContentsCondition[] = ['new', 'excellent', 'good', 'fair', 'poor'];
+
+// Straight-line schedules by item class, in line with published contents depreciation guides
+export const DEPRECIATION_SCHEDULES: Record<ContentsItemClass, DepreciationSchedule> = {
+  electronics: { label: 'consumer electronics', usefulLifeYears: 5, maxDepreciationPct: 80 },
+  computers: { label: 'computers and phones', usefulLifeYears: 4, maxDepreciationPct: 80 },
+  appliances: { label: 'small appliances', usefulLifeYears: 8, maxDepreciationPct: 75 },
+  furniture: { label: 'furniture', usefulLifeYears: 12, maxDepreciationPct: 75 },
+  mattresses: { label: 'mattresses', usefulLifeYears: 10, maxDepreciationPct: 80 },
+  clothing: { label: 'clothing', usefulLifeYears: 4, maxDepreciationPct: 80 },
+  linens: { label: 'linens and bedding', usefulLifeYears: 5, maxDepreciationPct: 80 },
+  kitchenware: { label: 'kitchenware', usefulLifeYears: 10, maxDepreciationPct: 70 },
+  tools: { label: 'tools and equipment', usefulLifeYears: 10, maxDepreciationPct: 70 },
+  sporting_goods: { label: 'sporting goods', usefulLifeYears: 10, maxDepreciationPct: 70 },
+  toys: { label: 'toys and games', usefulLifeYears: 5, maxDepreciationPct: 80 },
+  books_media: { label: 'books and media', usefulLifeYears: 10, maxDepreciationPct: 60 },
+  decor: { label: 'home decor', usefulLifeYears: 15, maxDepreciationPct: 60 },
+  jewelry: { label: 'jewelry', usefulLifeYears: null, maxDepreciationPct: 0 },
+  collectibles: { label: 'art and collectibles', usefulLifeYears: null, maxDepreciationPct: 0 },
+  other: { label: 'household contents', usefulLifeYears: 10, maxDepreciationPct: MAX_REASONABLE_DEPRECIATION_PCT },
+};
+
+// Scales the age-based rate: unused items hold value, worn ones lose it faster
+const CONDITION_FACTORS: Record<ContentsCondition, number> = {
+  new: 0.5,
+  excellent: 0.75,
+  good: 1,
+  fair: 1.25,
+  poor: 1.5,
+};
+
+// Brings an original purchase price forward when no current price is known
+const ANNUAL_PRICE_INFLATION = 0.03;
+
+// Carrier ACV this far below fair ACV (percentage points of RCV) is flagged
+const DEPRECIATION_TOLERANCE_PCT = 10;
+
+// Local replacement prices for common contents, checked in order (most specific first)
+export const CONTENTS_PRICE_CATALOG: ContentsCatalogEntry[] = [
+  { key: 'tv-large', description: 'Television, 65" 4K LED', itemClass: 'electronics', pattern: /\b(6[05]|7[05]|8[05])\s*("|in\b|inch).*\b(tv|television)\b|\b(tv|television)\b.*\b(6[05]|7[05]|8[05])\s*("|in\b|inch)/, unitPrice: 800 },
+  { key: 'tv', description: 'Television, 55" 4K LED', itemClass: 'electronics', pattern: /\b(tv|television|smart tv)\b/, unitPrice: 500 },
+  { key: 'soundbar', description: 'Sound bar', itemClass: 'electronics', pattern: /sound ?bar/, unitPrice: 250 },
+  { key: 'speaker', description: 'Bluetooth / smart speaker', itemClass: 'electronics', pattern: /speaker/, unitPrice: 150 },
+  { key: 'console', description: 'Video game console', itemClass: 'electronics', pattern: /playstation|xbox|nintendo|game console|\bps[45]\b/, unitPrice: 500 },
+  { key: 'camera', description: 'Digital camera', itemClass: 'electronics', pattern: /\bcamera\b/, unitPrice: 650 },
+  { key: 'laptop', description: 'Laptop computer', itemClass: 'computers', pattern: /laptop|notebook computer|macbook|chromebook/, unitPrice: 1000 },
+  { key: 'monitor', description: 'Computer monitor', itemClass: 'computers', pattern: /monitor/, unitPrice: 250 },
+  { key: 'desktop', description: 'Desktop computer', itemClass: 'computers', pattern: /desktop|\bpc\b|imac|computer/, unitPrice: 900 },
+  { key: 'tablet', description: 'Tablet', itemClass: 'computers', pattern: /tablet|ipad/, unitPrice: 450 },
+  { key: 'phone', description: 'Smartphone', itemClass: 'computers', pattern: /\b(smart|cell ?)?phone\b|iphone|galaxy|pixel/, unitPrice: 800 },
+  { key: 'printer', description: 'Printer', itemClass: 'computers', pattern: /printer/, unitPrice: 200 },
+  { key: 'microwave', description: 'Countertop microwave', itemClass: 'appliances', pattern: /microwave/, unitPrice: 200 },
+  { key: 'coffee-maker', description: 'Coffee maker', itemClass: 'appliances', pattern: /coffee ?maker|espresso|keurig/, unitPrice: 120 },
+  { key: 'vacuum', description: 'Vacuum cleaner', itemClass: 'appliances', pattern: /vacuum|dyson|roomba/, unitPrice: 300 },
+  { key: 'blender', description: 'Blender', itemClass: 'appliances', pattern: /blender|food processor|mixer/, unitPrice: 120 },
+  { key: 'toaster', description: 'Toaster / toaster oven', itemClass: 'appliances', pattern: /toaster|air fryer/, unitPrice: 90 },
+  { key: 'sofa', description: 'Sofa, 3-seat upholstered', itemClass: 'furniture', pattern: /sofa|couch|sectional/, unitPrice: 1200 },
+  { key: 'loveseat', description: 'Loveseat', itemClass: 'furniture', pattern: /loveseat|love seat/, unitPrice: 800 },
+  { key: 'recliner', description: 'Recliner', itemClass: 'furniture', pattern: /recliner|armchair|accent chair/, unitPrice: 650 },
+  { key: 'dining-table', description: 'Dining table', itemClass: 'furniture', pattern: /dining table|kitchen table/, unitPrice: 900 },
+  { key: 'office-chair', description: 'Office chair', itemClass: 'furniture', pattern: /office chair|desk chair/, unitPrice: 250 },
+  { key: 'chair', description: 'Dining chair', itemClass: 'furniture', pattern: /\bchairs?\b|stool/, unitPrice: 150 },
+  { key: 'coffee-table', description: 'Coffee table', itemClass: 'furniture', pattern: /coffee table|end table|side table/, unitPrice: 300 },
+  { key: 'nightstand', description: 'Nightstand', itemClass: 'furniture', pattern: /nightstand|night stand/, unitPrice: 250 },
+  { key: 'dresser', description: 'Dresser', itemClass: 'furniture', pattern: /dresser|chest of drawers/, unitPrice: 700 },
+  { key: 'bed-frame', description: 'Bed frame, queen', itemClass: 'furniture', pattern: /bed ?frame|headboard|\bbed\b/, unitPrice: 600 },
+  { key: 'desk', description: 'Desk', itemClass: 'furniture', pattern: /\bdesk\b/, unitPrice: 400 },
+  { key: 'bookcase', description: 'Bookcase', itemClass: 'furniture', pattern: /bookcase|bookshelf|shelving/, unitPrice: 200 },
+  { key: 'mattress', description: 'Mattress, queen', itemClass: 'mattresses', pattern: /mattress|box spring/, unitPrice: 1000 },
+  { key: 'coat', description: 'Coat / jacket', itemClass: 'clothing', pattern: /coat|jacket|parka/, unitPrice: 150 },
+  { key: 'shoes', description: 'Shoes', itemClass: 'clothing', pattern: /shoes|boots|sneakers|heels/, unitPrice: 90 },
+  { key: 'dress', description: 'Dress / suit', itemClass: 'clothing', pattern: /dress\b|suit\b/, unitPrice: 120 },
+  { key: 'pants', description: 'Pants / jeans', itemClass: 'clothing', pattern: /pants|jeans|slacks|trousers/, unitPrice: 50 },
+  { key: 'shirt', description: 'Shirt / top', itemClass: 'clothing', pattern: /shirt|blouse|sweater|top\b/, unitPrice: 35 },
+  { key: 'comforter', description: 'Comforter / duvet', itemClass: 'linens', pattern: /comforter|duvet|quilt/, unitPrice: 120 },
+  { key: 'sheets', description: 'Sheet set', itemClass: 'linens', pattern: /sheets?\b|bedding/, unitPrice: 60 },
+  { key: 'pillow', description: 'Pillow', itemClass: 'linens', pattern: /pillow/, unitPrice: 35 },
+  { key: 'towel', description: 'Bath towel', itemClass: 'linens', pattern: /towel/, unitPrice: 15 },
+  { key: 'cookware', description: 'Cookware set', itemClass: 'kitchenware', pattern: /cookware|pots|pans|skillet/, unitPrice: 250 },
+  { key: 'dishes', description: 'Dinnerware set', itemClass: 'kitchenware', pattern: /dishes|dinnerware|plates|glassware/, unitPrice: 120 },
+  { key: 'flatware', description: 'Flatware set', itemClass: 'kitchenware', pattern: /flatware|silverware|utensils|knife|knives/, unitPrice: 100 },
+  { key: 'lawn-mower', description: 'Lawn mower', itemClass: 'tools', pattern: /mower/, unitPrice: 400 },
+  { key: 'power-tool', description: 'Cordless power tool', itemClass: 'tools', pattern: /drill|saw\b|sander|impact driver/, unitPrice: 150 },
+  { key: 'tool-set', description: 'Hand tool set', itemClass: 'tools', pattern: /tool/, unitPrice: 200 },
+  { key: 'bicycle', description: 'Bicycle', itemClass: 'sporting_goods', pattern: /bicycle|\bbike\b/, unitPrice: 500 },
+  { key: 'exercise', description: 'Exercise equipment', itemClass: 'sporting_goods', pattern: /treadmill|weights|dumbbell|exercise|elliptical/, unitPrice: 600 },
+  { key: 'lamp', description: 'Lamp', itemClass: 'decor', pattern: /lamp/, unitPrice: 80 },
+  { key: 'rug', description: 'Area rug, 5x8', itemClass: 'decor', pattern: /\brug\b/, unitPrice: 300 },
+  { key: 'curtains', description: 'Curtain panels', itemClass: 'decor', pattern: /curtain|drape|blinds/, unitPrice: 60 },
+  { key: 'toy', description: 'Toy', itemClass: 'toys', pattern: /\btoys?\b|lego|doll|board game/, unitPrice: 30 },
+  { key: 'book', description: 'Book', itemClass: 'books_media', pattern: /\bbooks?\b|novel/, unitPrice: 20 },
+];
+
+// Class keywords for items the catalog has no price for
+const CLASS_PATTERNS: Array<{ pattern: RegExp; itemClass: ContentsItemClass }> = [
+  { pattern: /ring|necklace|bracelet|earring|watch|jewel/, itemClass: 'jewelry' },
+  { pattern: /painting|artwork|\bart\b|sculpture|antique|collectible/, itemClass: 'collectibles' },
+  { pattern: /stereo|receiver|headphone|electronic/, itemClass: 'electronics' },
+  { pattern: /refrigerator|freezer|appliance|heater|fan\b/, itemClass: 'appliances' },
+  { pattern: /table|cabinet|sofa|chair|furniture/, itemClass: 'furniture' },
+  { pattern: /cloth|apparel|garment/, itemClass: 'clothing' },
+  { pattern: /blanket|linen/, itemClass: 'linens' },
+  { pattern: /kitchen|cook|bake/, itemClass: 'kitchenware' },
+  { pattern: /dvd|blu-?ray|vinyl record|album/, itemClass: 'books_media' },
+  { pattern: /mirror|frame|vase|decor/, itemClass: 'decor' },
+];
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function positiveOrNull(value: number | null | undefined): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * First catalog entry matching the item name (and brand), if any
+ */
+export function lookupContentsPrice(name: string, brand?: string | null): ContentsCatalogEntry | null {
+  const text = `${brand || ''} ${name}`.toLowerCase();
+  return CONTENTS_PRICE_CATALOG.find(entry => entry.pattern.test(text)) ?? null;
+}
+
+/**
+ * Item class from the catalog match or class keywords; 'other' when unknown
+ */
+export function classifyContentsItem(name: string, brand?: string | null): ContentsItemClass {
+  const catalogEntry = lookupContentsPrice(name, brand);
+  if (catalogEntry) return catalogEntry.itemClass;
+  const text = `${brand || ''} ${name}`.toLowerCase();
+  return CLASS_PATTERNS.find(entry => entry.pattern.test(text))?.itemClass ?? 'other';
+}
+
+/**
+ * Depreciation a fair adjuster would take for the item's class, age and condition
+ */
+export function expectedContentsDepreciationPct(itemClass: ContentsItemClass, ageYears: number | null, condition: ContentsCondition): number {
+  const schedule = DEPRECIATION_SCHEDULES[itemClass];
+  if (schedule.usefulLifeYears === null || ageYears === null || ageYears <= 0) return 0;
+  const pct = (ageYears / schedule.usefulLifeYears) * 100 * CONDITION_FACTORS[condition];
+  return round(Math.min(pct, schedule.maxDepreciationPct));
+}
+
+function resolveReplacementCost(item: ContentsItemInput, catalogEntry: ContentsCatalogEntry | null): { unitCost: number | null; source: ReplacementCostSource } {
+  const userCost = positiveOrNull(item.replacementCost);
+  if (userCost !== null) return { unitCost: userCost, source: 'user' };
+  if (catalogEntry) return { unitCost: catalogEntry.unitPrice, source: 'catalog' };
+
+  const originalPrice = positiveOrNull(item.originalPrice);
+  if (originalPrice !== null) {
+    const years = Math.max(0, item.ageYears ?? 0);
+    return { unitCost: round(originalPrice * Math.pow(1 + ANNUAL_PRICE_INFLATION, years)), source: 'original_price' };
+  }
+  return { unitCost: null, source: 'none' };
+}
+
+/**
+ * Fair replacement cost and ACV for one inventory line, compared to the carrier's ACV
+ */
+export function valueContentsItem(item: ContentsItemInput): ValuedContentsItem {
+  const name = item.name.trim();
+  if (!name) {
+    throw new ContentsInventoryError('Contents items need a name');
+  }
+
+  const quantity = positiveOrNull(item.quantity) ?? 1;
+  const condition = item.condition ?? 'good';
+  const ageYears = typeof item.ageYears === 'number' && Number.isFinite(item.ageYears) && item.ageYears >= 0 ? item.ageYears : null;
+  const catalogEntry = lookupContentsPrice(name, item.brand);
+  const itemClass = item.itemClass ?? catalogEntry?.itemClass ?? classifyContentsItem(name, item.brand);
+  const schedule = DEPRECIATION_SCHEDULES[itemClass];
+  const { unitCost, source } = resolveReplacementCost(item, catalogEntry);
+
+  const expectedDepreciationPct = expectedContentsDepreciationPct(itemClass, ageYears, condition);
+  const replacementCost = unitCost !== null ? round(unitCost * quantity) : null;
+  const fairAcv = replacementCost !== null ? round(replacementCost * (1 - expectedDepreciationPct / 100)) : null;
+  const carrierAcv = typeof item.carrierAcv === 'number' && Number.isFinite(item.carrierAcv) && item.carrierAcv >= 0 ? item.carrierAcv : null;
+
+  const flags: string[] = [];
+  let carrierDepreciationPct: number | null = null;
+  let shortfall = 0;
+  let status: ContentsItemStatus;
+
+  if (fairAcv === null || replacementCost === null) {
+    status = 'unvalued';
+    flags.push('No catalog price or original price - enter a replacement cost to value this item');
+  } else if (carrierAcv === null) {
+    status = 'no_carrier_value';
+  } else {
+    carrierDepreciationPct = replacementCost > 0 ? round(Math.max(0, (1 - carrierAcv / replacementCost) * 100)) : 0;
+    shortfall = round(Math.max(0, fairAcv - carrierAcv));
+    status = shortfall > 0 ? 'underpaid' : 'fair';
+
+    if (schedule.usefulLifeYears === null && carrierDepreciationPct > DEPRECIATION_TOLERANCE_PCT) {
+      flags.push(`Carrier depreciated ${schedule.label} ${carrierDepreciationPct.toFixed(0)}% - these typically hold their value and are not depreciated`);
+    } else if (carrierDepreciationPct > expectedDepreciationPct + DEPRECIATION_TOLERANCE_PCT) {
+      const age = ageYears !== null ? `${ageYears}-year-old ` : '';
+      flags.push(
+        `Carrier ACV implies ${carrierDepreciationPct.toFixed(0)}% depreciation vs ${expectedDepreciationPct.toFixed(0)}% expected for ${condition} ${age}${schedule.label}` +
+          (schedule.usefulLifeYears !== null ? ` (${schedule.usefulLifeYears}-year life)` : '')
+      );
+    }
+  }
+
+  if (source === 'original_price') {
+    flags.push(`Replacement cost estimated from the original price plus ${(ANNUAL_PRICE_INFLATION * 100).toFixed(0)}%/yr inflation`);
+  }
+
+  return {
+    name,
+    brand: item.brand?.trim() || null,
+    room: item.room?.trim() || null,
+    itemClass,
+    condition,
+    ageYears,
+    quantity,
+    originalPrice: positiveOrNull(item.originalPrice),
+    unitReplacementCost: unitCost,
+    replacementCostSource: source,
+    catalogMatch: source === 'catalog' && catalogEntry ? catalogEntry.description : null,
+    replacementCost,
+    expectedDepreciationPct,
+    fairAcv,
+    carrierAcv,
+    carrierDepreciationPct,
+    shortfall,
+    status,
+    flags,
+  };
+}
+
+/**
+ * Value every item and total the inventory; carrier totals only count items the carrier valued
+ */
+export function auditContentsInventory(items: ContentsItemInput[]): ContentsAudit {
+  const valued = items.map(valueContentsItem);
+  return {
+    items: valued,
+    summary: {
+      itemCount: valued.length,
+      totalReplacementCost: round(valued.reduce((sum, item) => sum + (item.replacementCost ?? 0), 0)),
+      totalFairAcv: round(valued.reduce((sum, item) => sum + (item.fairAcv ?? 0), 0)),
+      totalCarrierAcv: round(valued.reduce((sum, item) => sum + (item.carrierAcv ?? 0), 0)),
+      totalShortfall: round(valued.reduce((sum, item) => sum + item.shortfall, 0)),
+      underpaidCount: valued.filter(item => item.status === 'underpaid').length,
+      unvaluedCount: valued.filter(item => item.status === 'unvalued').length,
+    },
+  };
+}
+
+const CSV_FIELD_ALIASES = {
+  name: ['name', 'item', 'itemname', 'description', 'itemdescription'],
+  brand: ['brand', 'manufacturer', 'make', 'brandmodel'],
+  itemClass: ['class', 'itemclass', 'category', 'type'],
+  room: ['room', 'location', 'area'],
+  ageYears: ['age', 'ageyears', 'years', 'ageyrs'],
+  condition: ['condition', 'cond'],
+  quantity: ['qty', 'quantity', 'count'],
+  originalPrice: ['originalprice', 'purchaseprice', 'pricepaid', 'cost', 'price'],
+  replacementCost: ['replacementcost', 'rcv', 'replacementprice', 'unitrcv'],
+  carrierAcv: ['carrieracv', 'acv', 'actualcashvalue', 'carriervalue', 'carrieramount'],
+} as const;
+
+type CsvField = keyof typeof CSV_FIELD_ALIASES;
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_\-.'()$]/g, '');
+}
+
+function parseCsvNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const parsed = parseFloat(value.replace(/[$,\s]/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function parseItemClass(value: string | undefined): ContentsItemClass | null {
+  const normalized = (value ?? '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return normalized in DEPRECIATION_SCHEDULES ? normalized as ContentsItemClass : null;
+}
+
+function parseCondition(value: string | undefined): ContentsCondition | null {
+  const normalized = (value ?? '').trim().toLowerCase();
+  return (CONTENTS_CONDITIONS as string[]).includes(normalized) ? normalized as ContentsCondition : null;
+}
+
+/**
+ * Parse an inventory CSV (one item per row). Rows without a name are skipped
+ * with a warning; unrecognised classes and conditions fall back to detection
+ * and 'good'.
+ */
+export function parseContentsCsv(csv: string): { items: ContentsItemInput[]; warnings: string[] } {
+  const rows = csv.replace(/^﻿/, '').replace(/\r\n/g, '\n').split('\n').filter(row => row.trim().length > 0);
+  if (rows.length < 2) {
+    throw new ContentsInventoryError('Inventory CSV must include a header row and at least one item');
+  }
+
+  const headers = splitCsvLine(rows[0]).map(normalizeHeader);
+  const columns: Partial<Record<CsvField, number>> = {};
+  for (const field of Object.keys(CSV_FIELD_ALIASES) as CsvField[]) {
+    const index = headers.findIndex(header => (CSV_FIELD_ALIASES[field] as readonly string[]).includes(header));
+    if (index >= 0) columns[field] = index;
+  }
+  if (columns.name === undefined) {
+    throw new ContentsInventoryError('Inventory CSV needs an item name column (e.g. "Item" or "Name")');
+  }
+
+  const items: ContentsItemInput[] = [];
+  const warnings: string[] = [];
+
+  for (let i = 1; i < rows.length; i++) {
+    const cells = splitCsvLine(rows[i]);
+    const cell = (field: CsvField) => (columns[field] !== undefined ? cells[columns[field]!] : undefined);
+
+    const name = cell('name')?.trim();
+    if (!name) {
+      warnings.push(`Row ${i + 1}: missing item name, skipped`);
+      continue;
+    }
+
+    const rawClass = cell('itemClass');
+    const itemClass = parseItemClass(rawClass);
+    if (rawClass && !itemClass) warnings.push(`Row ${i + 1}: unknown class "${rawClass}", detected from the item name`);
+    const rawCondition = cell('condition');
+    const condition = parseCondition(rawCondition);
+    if (rawCondition && !condition) warnings.push(`Row ${i + 1}: unknown condition "${rawCondition}", treated as good`);
+
+    items.push({
+      name,
+      brand: cell('brand') || null,
+      itemClass,
+      room: cell('room') || null,
+      ageYears: parseCsvNumber(cell('ageYears')),
+      condition,
+      quantity: parseCsvNumber(cell('quantity')),
+      originalPrice: parseCsvNumber(cell('originalPrice')),
+      replacementCost: parseCsvNumber(cell('replacementCost')),
+      carrierAcv: parseCsvNumber(cell('carrierAcv')),
+    });
+  }
+
+  if (items.length === 0) {
+    throw new ContentsInventoryError('No inventory items found in the CSV');
+  }
+  return { items, warnings };
+}
+
+/**
+ * Audited inventory as CSV. The leading columns are the inventory itself and
+ * round-trip through parseContentsCsv; the rest are the valuation.
+ */
+export function contentsToCsv(audit: ContentsAudit): string {
+  const money = (value: number | null) => (value !== null ? value.toFixed(2) : '');
+  const rows = [
+    [
+      'Item', 'Brand', 'Class', 'Room', 'Age', 'Condition', 'Quantity', 'Original Price', 'Replacement Cost', 'Carrier ACV',
+      'Replacement Cost Source', 'Total Replacement Cost', 'Expected Depreciation %', 'Fair ACV', 'Shortfall',
+    ],
+    ...audit.items.map(item => [
+      item.name,
+      item.brand ?? '',
+      item.itemClass,
+      item.room ?? '',
+      item.ageYears ?? '',
+      item.condition,
+      item.quantity,
+      money(item.originalPrice),
+      item.replacementCostSource === 'user' ? money(item.unitReplacementCost) : '',
+      money(item.carrierAcv),
+      item.replacementCostSource,
+      money(item.replacementCost),
+      item.expectedDepreciationPct,
+      money(item.fairAcv),
+      item.shortfall.toFixed(2),
+    ]),
+  ];
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,471 @@
+/**
+ * Appraisal Dispute Package Builder
+ *
+ * When negotiation fails and the policyholder invokes the policy's appraisal
+ * clause, everything the appraisers need goes out as one package:
+ *
+ * 1. Appraisal demand letter
+ * 2. Audit report (carrier amount vs. fair market value per line)
+ *    Contents inventory (Coverage C items vs. the carrier's ACV, when the
+ *    claim has one - later sections are numbered after it)
+ * 3. Pricing citations (batch citation plus per-line sources)
+ * 4. Carrier pattern evidence (historical underpayment insights)
+ * 5. Claim timeline
+ * 6. Photos and documents from object storage
+ *
+ * The PDF opens with a cover page and a linked table of contents and is
+ * paginated throughout. The ZIP archive carries the PDF alongside the
+ * original source files and CSVs of the audited lines and contents inventory.
+ *
+ * Inputs are collected by the caller (routes) so this module stays free of
+ * database and storage access.
+ */
+
+import JSZip from "jszip";
+import type { CarrierInsight } from "./carrierIntel";
+import {
+  generateBatchCitation,
+  generateCatalogCitedEstimate,
+  generateDisclaimer,
+} from "../utils/pricingCitation";
+import { createPdfWriter, type PdfWriter } from "../utils/pdfWriter";
+import { csvField } from "../utils/csv";
+import { contentsToCsv, type ContentsAudit } from "./contentsInventory";
+
+export type DisputePackageFormat = "pdf" | "zip";
+
+export interface DisputeLineItem {
+  description: string;
+  category?: string;
+  quantity: number;
+  unit: string;
+  carrierAmount: number;
+  fmvAmount: number;
+}
+
+export type DisputeCarrierEvidence = Pick<
+  CarrierInsight,
+  "item" | "severity" | "percentageUnderpayment" | "message" | "recommendedAction" | "sampleSize" | "confidenceLevel"
+>;
+
+export interface DisputeTimelineEvent {
+  date: Date | string;
+  title: string;
+  detail?: string;
+}
+
+export interface DisputeAttachment {
+  fileName: string;
+  contentType: string;
+  data: Buffer | (() => NodeJS.ReadableStream);  // Images are loaded to embed in the PDF; other files stream into the ZIP
+  uploadedAt?: Date | string;
+  details?: string[];  // Caption lines (room, tagged line items, EXIF capture time and GPS) for photos
+}
+
+export interface DisputePackageInput {
+  claimNumber: string;
+  lossDate: string;
+  carrier: string;
+  zipCode?: string;
+  policyholderName?: string;
+  propertyAddress?: string;
+  appraiserName?: string;
+  lineItems: DisputeLineItem[];
+  carrierEvidence: DisputeCarrierEvidence[];
+  timeline: DisputeTimelineEvent[];
+  attachments: DisputeAttachment[];
+  contents?: ContentsAudit;  // Personal property inventory, valued by auditContentsInventory
+  generatedAt?: Date;
+}
+
+export interface DisputeSummary {
+  carrierTotal: number;
+  fmvTotal: number;
+  disputedAmount: number;
+  disputedCount: number;
+}
+
+export interface DisputeTableOfContentsEntry {
+  title: string;
+  page: number;
+}
+
+const SECTION_TITLES = [
+  "Appraisal Demand Letter",
+  "Audit Report",
+  "Contents Inventory",
+  "Pricing Citations",
+  "Carrier Pattern Evidence",
+  "Claim Timeline",
+  "Photos & Documents",
+] as const;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatMoney(amount: number): string {
+  return amount.toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
+
+function formatDate(date: Date | string): string {
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime())
+    ? String(date)
+    : parsed.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+}
+
+function imageFormat(contentType: string): "JPEG" | "PNG" | null {
+  if (contentType === "image/jpeg" || contentType === "image/jpg") return "JPEG";
+  if (contentType === "image/png") return "PNG";
+  return null;
+}
+
+/**
+ * Whether the PDF embeds an attachment of this type (and so needs its bytes)
+ */
+export function isEmbeddableImage(contentType: string): boolean {
+  return imageFormat(contentType) !== null;
+}
+
+/**
+ * Reports and earlier dispute packages generated from the claim, which
+ * aren't source evidence for a new package
+ */
+export function isGeneratedClaimFile(fileName: string): boolean {
+  return /^(report-.*\.pdf|dispute-package-.*)$/i.test(fileName);
+}
+
+/**
+ * Totals across the audited lines; only lines priced below FMV are disputed
+ */
+export function summarizeDispute(lineItems: DisputeLineItem[]): DisputeSummary {
+  const disputed = lineItems.filter(item => item.fmvAmount > item.carrierAmount);
+  return {
+    carrierTotal: round(lineItems.reduce((sum, item) => sum + item.carrierAmount, 0)),
+    fmvTotal: round(lineItems.reduce((sum, item) => sum + item.fmvAmount, 0)),
+    disputedAmount: round(disputed.reduce((sum, item) => sum + (item.fmvAmount - item.carrierAmount), 0)),
+    disputedCount: disputed.length,
+  };
+}
+
+/**
+ * Order timeline events oldest first, dropping undated entries
+ */
+export function sortTimeline(events: DisputeTimelineEvent[]): DisputeTimelineEvent[] {
+  return events
+    .filter(event => !isNaN(new Date(event.date).getTime()))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+}
+
+/**
+ * Batch citation for the audited lines plus the per-line source for each
+ */
+export function buildDisputeCitations(input: DisputePackageInput, summary: DisputeSummary): { batchCitation: string; lineCitations: string[] } {
+  const uniqueSources = new Set<string>();
+  const lineCitations = input.lineItems.map(item => {
+    const cited = input.zipCode
+      ? generateCatalogCitedEstimate(item.description, item.quantity, input.zipCode, { category: item.category, unit: item.unit })
+      : null;
+    if (!cited) return "MaxClaim regional market pricing";
+
+    cited.sources.filter(source => source.type !== "user").forEach(source => uniqueSources.add(source.name));
+    return cited.shortCitation;
+  });
+
+  if (uniqueSources.size === 0) uniqueSources.add("MaxClaim regional market pricing");
+
+  // generateBatchCitation reports variance as a share of the carrier total
+  const batchCitation = summary.carrierTotal > 0
+    ? generateBatchCitation(summary.carrierTotal, summary.fmvTotal, round(summary.fmvTotal - summary.carrierTotal), input.lineItems.length, uniqueSources)
+    : `Fair Market Value of ${input.lineItems.length} line items: ${formatMoney(summary.fmvTotal)}.`;
+
+  return { batchCitation, lineCitations };
+}
+
+/**
+ * Paragraphs of the appraisal demand letter
+ */
+export function buildAppraisalDemandLetter(input: DisputePackageInput, summary: DisputeSummary): string[] {
+  const policyholder = input.policyholderName || "[POLICYHOLDER_NAME]";
+  const appraiser = input.appraiserName || "[APPRAISER_NAME]";
+  const property = input.propertyAddress ? ` at ${input.propertyAddress}` : "";
+  const contents = input.contents?.summary;
+
+  return [
+    formatDate(input.generatedAt ?? new Date()),
+    `${input.carrier}\nRE: Demand for Appraisal - Claim ${input.claimNumber}, date of loss ${input.lossDate}`,
+    "To the claims department:",
+    `We disagree with ${input.carrier} on the amount of loss for the above claim${property}. ` +
+      `Pursuant to the Appraisal provision of the policy, ${policyholder} hereby demands appraisal of the amount of loss.`,
+    `The carrier's estimate totals ${formatMoney(summary.carrierTotal)}. Documented fair market value for the same scope is ` +
+      `${formatMoney(summary.fmvTotal)}, leaving ${formatMoney(summary.disputedAmount)} in dispute across ${summary.disputedCount} line items. ` +
+      (contents && contents.totalShortfall > 0
+        ? `The personal property inventory values ${contents.itemCount} contents items at ${formatMoney(contents.totalFairAcv)} actual cash value ` +
+          `against the carrier's ${formatMoney(contents.totalCarrierAcv)}, a further ${formatMoney(contents.totalShortfall)} in dispute. `
+        : "") +
+      `The enclosed audit report, pricing citations, carrier pattern evidence, claim timeline and photographs support these figures.`,
+    `${policyholder} has selected ${appraiser} as a competent and disinterested appraiser. Please identify your appraiser in writing ` +
+      `within the time required by the policy so the appraisers can proceed to select an umpire.`,
+    "This demand does not waive any rights under the policy or applicable law.",
+    `Sincerely,\n\n${policyholder}`,
+  ];
+}
+
+function writeSectionHeading(pdf: PdfWriter, number: number, title: string) {
+  pdf.text(`${number}. ${title}`, { size: 16, bold: true, gapAfter: 14 });
+}
+
+function writeCoverPage(pdf: PdfWriter, input: DisputePackageInput, summary: DisputeSummary) {
+  pdf.y = 160;
+  pdf.text("Appraisal Dispute Package", { size: 26, bold: true, gapAfter: 24 });
+  pdf.text(`Claim ${input.claimNumber}`, { size: 14, bold: true, gapAfter: 4 });
+  pdf.text(`Carrier: ${input.carrier}`, { gapAfter: 4 });
+  pdf.text(`Date of loss: ${input.lossDate}`, { gapAfter: 4 });
+  if (input.policyholderName) pdf.text(`Policyholder: ${input.policyholderName}`, { gapAfter: 4 });
+  if (input.propertyAddress) pdf.text(`Property: ${input.propertyAddress}`, { gapAfter: 4 });
+  pdf.y += 24;
+
+  pdf.table({
+    headers: ["Carrier estimate", "Fair market value", "Amount in dispute"],
+    widths: [1 / 3, 1 / 3, 1 / 3],
+    align: ["right", "right", "right"],
+    rows: [[formatMoney(summary.carrierTotal), formatMoney(summary.fmvTotal), formatMoney(summary.disputedAmount)]],
+  });
+
+  pdf.text(`Prepared ${formatDate(input.generatedAt ?? new Date())}`, { size: 9, color: 100 });
+}
+
+function writeTableOfContents(pdf: PdfWriter, entries: DisputeTableOfContentsEntry[], tocPage: number) {
+  const { doc, margin, pageWidth } = pdf;
+  doc.setPage(tocPage);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.text("Table of Contents", margin, margin + 18);
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(12);
+  entries.forEach((entry, index) => {
+    const y = margin + 60 + index * 24;
+    doc.text(`${index + 1}. ${entry.title}`, margin, y);
+    doc.text(String(entry.page), pageWidth - margin, y, { align: "right" });
+    doc.setLineDashPattern([1, 2], 0);
+    doc.line(margin + doc.getTextWidth(`${index + 1}. ${entry.title}`) + 6, y, pageWidth - margin - 20, y);
+    doc.setLineDashPattern([], 0);
+    doc.link(margin, y - 12, pageWidth - margin * 2, 16, { pageNumber: entry.page });
+  });
+}
+
+/**
+ * Render the dispute package PDF; returns the table of contents with it
+ */
+export function renderDisputePackagePdf(input: DisputePackageInput): { buffer: Buffer; tableOfContents: DisputeTableOfContentsEntry[] } {
+  const summary = summarizeDispute(input.lineItems);
+  const { batchCitation, lineCitations } = buildDisputeCitations(input, summary);
+  const pdf = createPdfWriter();
+  const tableOfContents: DisputeTableOfContentsEntry[] = [];
+
+  const startSection = (title: typeof SECTION_TITLES[number]) => {
+    pdf.newPage();
+    tableOfContents.push({ title, page: pdf.doc.getNumberOfPages() });
+    writeSectionHeading(pdf, tableOfContents.length, title);
+  };
+
+  writeCoverPage(pdf, input, summary);
+
+  // Reserve page 2 for the table of contents; it is filled in once page numbers are known
+  pdf.newPage();
+  const tocPage = pdf.doc.getNumberOfPages();
+
+  startSection("Appraisal Demand Letter");
+  for (const paragraph of buildAppraisalDemandLetter(input, summary)) {
+    pdf.text(paragraph);
+  }
+
+  startSection("Audit Report");
+  if (input.lineItems.length === 0) {
+    pdf.text("No line items were recorded for this claim.");
+  } else {
+    pdf.table({
+      headers: ["Line item", "Qty", "Carrier", "Fair market value", "Difference"],
+      widths: [0.4, 0.12, 0.16, 0.16, 0.16],
+      align: ["left", "right", "right", "right", "right"],
+      rows: input.lineItems.map(item => [
+        item.description,
+        `${item.quantity} ${item.unit}`,
+        formatMoney(item.carrierAmount),
+        formatMoney(item.fmvAmount),
+        formatMoney(round(item.fmvAmount - item.carrierAmount)),
+      ]),
+      total: ["Total", "", formatMoney(summary.carrierTotal), formatMoney(summary.fmvTotal), formatMoney(round(summary.fmvTotal - summary.carrierTotal))],
+    });
+  }
+
+  if (input.contents && input.contents.items.length > 0) {
+    const { items, summary: contents } = input.contents;
+    const money = (value: number | null) => (value !== null ? formatMoney(value) : "-");
+    startSection("Contents Inventory");
+    pdf.table({
+      headers: ["Item", "Qty", "Replacement cost", "Fair ACV", "Carrier ACV", "Shortfall"],
+      widths: [0.3, 0.08, 0.16, 0.15, 0.15, 0.16],
+      align: ["left", "right", "right", "right", "right", "right"],
+      rows: items.map(item => [
+        [item.name, item.brand].filter(Boolean).join(" - "),
+        String(item.quantity),
+        money(item.replacementCost),
+        money(item.fairAcv),
+        money(item.carrierAcv),
+        formatMoney(item.shortfall),
+      ]),
+      notes: items.map(item => [
+        `${item.condition}${item.ageYears !== null ? `, ${item.ageYears} yr` : ""}, ${item.expectedDepreciationPct}% depreciation expected`,
+        ...item.flags,
+      ].join(" | ")),
+      total: [
+        "Total",
+        "",
+        formatMoney(contents.totalReplacementCost),
+        formatMoney(contents.totalFairAcv),
+        formatMoney(contents.totalCarrierAcv),
+        formatMoney(contents.totalShortfall),
+      ],
+    });
+  }
+
+  startSection("Pricing Citations");
+  pdf.text(batchCitation, { gapAfter: 14 });
+  input.lineItems.forEach((item, i) => {
+    pdf.text(`${item.description}: ${lineCitations[i]}`, { size: 9, gapAfter: 4 });
+  });
+  pdf.y += 10;
+  pdf.text(generateDisclaimer(), { size: 7 });
+
+  startSection("Carrier Pattern Evidence");
+  if (input.carrierEvidence.length === 0) {
+    pdf.text(`No historical underpayment patterns are on record for ${input.carrier} on these items.`);
+  } else {
+    pdf.table({
+      headers: ["Item", "Severity", "Typical underpayment", "Sample size"],
+      widths: [0.46, 0.18, 0.2, 0.16],
+      align: ["left", "left", "right", "right"],
+      rows: input.carrierEvidence.map(evidence => [
+        evidence.item,
+        evidence.severity,
+        `${evidence.percentageUnderpayment.toFixed(0)}%`,
+        String(evidence.sampleSize),
+      ]),
+      notes: input.carrierEvidence.map(evidence => evidence.message),
+    });
+  }
+
+  startSection("Claim Timeline");
+  const timeline = sortTimeline(input.timeline);
+  if (timeline.length === 0) {
+    pdf.text("No claim events have been recorded.");
+  } else {
+    pdf.table({
+      headers: ["Date", "Event"],
+      widths: [0.25, 0.75],
+      align: ["left", "left"],
+      rows: timeline.map(event => [formatDate(event.date), event.title]),
+      notes: timeline.map(event => event.detail),
+    });
+  }
+
+  startSection("Photos & Documents");
+  if (input.attachments.length === 0) {
+    pdf.text("No photos or documents have been uploaded for this claim.");
+  }
+  for (const attachment of input.attachments) {
+    const uploaded = attachment.uploadedAt ? ` (uploaded ${formatDate(attachment.uploadedAt)})` : "";
+    pdf.text(`${attachment.fileName}${uploaded}`, { size: 10, bold: true, gapAfter: 4 });
+    for (const detail of attachment.details ?? []) {
+      pdf.text(detail, { size: 9, color: 100, gapAfter: 2 });
+    }
+
+    const format = imageFormat(attachment.contentType);
+    if (format && Buffer.isBuffer(attachment.data)) {
+      try {
+        pdf.image(new Uint8Array(attachment.data), format);
+        continue;
+      } catch (error) {
+        console.warn(`[DisputePackage] Could not embed ${attachment.fileName}:`, error);
+      }
+    }
+    pdf.text("Included in the source files archive.", { size: 9, color: 100 });
+  }
+
+  writeTableOfContents(pdf, tableOfContents, tocPage);
+  pdf.numberPages(`Claim ${input.claimNumber}`);
+
+  return { buffer: pdf.toBuffer(), tableOfContents };
+}
+
+/**
+ * Audited lines as CSV for the appraisers' own spreadsheets
+ */
+export function lineItemsToCsv(lineItems: DisputeLineItem[]): string {
+  const rows = [
+    ["Description", "Category", "Quantity", "Unit", "Carrier Amount", "FMV Amount", "Difference"],
+    ...lineItems.map(item => [
+      item.description,
+      item.category ?? "",
+      item.quantity,
+      item.unit,
+      item.carrierAmount.toFixed(2),
+      item.fmvAmount.toFixed(2),
+      (item.fmvAmount - item.carrierAmount).toFixed(2),
+    ]),
+  ];
+  return rows.map(row => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+/**
+ * ZIP archive holding the package PDF, the audited lines, the contents
+ * inventory and every source file, streamed so source files are never all
+ * held in memory
+ */
+export function buildDisputePackageZip(input: DisputePackageInput, pdf: Buffer): NodeJS.ReadableStream {
+  const zip = new JSZip();
+  zip.file("dispute-package.pdf", pdf);
+  zip.file("audit-line-items.csv", lineItemsToCsv(input.lineItems));
+  if (input.contents && input.contents.items.length > 0) {
+    zip.file("contents-inventory.csv", contentsToCsv(input.contents));
+  }
+
+  const used = new Set<string>();
+  for (const attachment of input.attachments) {
+    // Keep names unique inside the archive
+    const baseName = attachment.fileName.replace(/[\\/]+/g, "_");
+    let name = baseName;
+    for (let n = 2; used.has(name); n++) {
+      name = baseName.replace(/(\.[^.]*)?$/, `-${n}$1`);
+    }
+    used.add(name);
+    zip.file(`source-files/${name}`, typeof attachment.data === "function" ? attachment.data() : attachment.data);
+  }
+
+  return zip.generateNodeStream({ type: "nodebuffer", streamFiles: true, compression: "DEFLATE" });
+}
+
+/**
+ * Build the dispute package in the requested format
+ */
+export async function generateDisputePackage(
+  input: DisputePackageInput,
+  format: DisputePackageFormat
+): Promise<{ body: Buffer | NodeJS.ReadableStream; contentType: string; fileName: string; tableOfContents: DisputeTableOfContentsEntry[] }> {
+  const { buffer: pdf, tableOfContents } = renderDisputePackagePdf(input);
+  const baseName = `dispute-package-${input.claimNumber.replace(/[^A-Za-z0-9-]+/g, "_")}`;
+
+  if (format === "zip") {
+    return {
+      body: buildDisputePackageZip(input, pdf),
+      contentType: "application/zip",
+      fileName: `${baseName}.zip`,
+      tableOfContents,
+    };
+  }
+
+  return { body: pdf, contentType: "application/pdf", fileName: `${baseName}.pdf`, tableOfContents };
+}
@@ -0,0 +1,555 @@
+/**
+ * Estimate Import Service
+ *
+ * Structured importer for carrier estimate exports. Reads Xactimate ESX/XML,
+ * Symbility XML/CSV exports and the "line item detail" layout of their PDF
+ * reports, recovering line codes, selectors, quantities, units, RCV,
+ * depreciation, ACV and O&P per line with provenance for every value.
+ *
+ * Output feeds directly into ClaimAuditInput.lineItems for the versioned
+ * claim audit pipeline (analyzeClaimWithFallback).
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import JSZip from 'jszip';
+import { XMLParser } from 'fast-xml-parser';
+import { getCatalogCategory, getCatalogEntryBySelector } from '@shared/lineItemCatalog';
+import { splitCsvLine } from '../utils/csv';
+import type { ClaimLineItem } from './claimAudit/types';
+
+export type EstimateFormat =
+  | 'xactimate-esx'
+  | 'xactimate-xml'
+  | 'xactimate-pdf'
+  | 'symbility-xml'
+  | 'symbility-csv'
+  | 'symbility-pdf'
+  | 'generic-pdf';
+
+export interface LineProvenance {
+  format: EstimateFormat;
+  origin: 'xml-element' | 'csv-row' | 'pdf-line';
+  locator: string;
+  rawText?: string;
+  confidence: 'high' | 'medium' | 'low';
+}
+
+export interface ImportedEstimateLine {
+  lineNumber: number;
+  categoryCode?: string;
+  selectorCode?: string;
+  activity?: string;
+  description: string;
+  room?: string;
+  quantity: number;
+  unit: string;
+  unitPrice?: number;
+  laborCost?: number;
+  materialCost?: number;
+  tax?: number;
+  overheadAndProfit?: number;
+  rcv: number;
+  depreciation?: number;
+  depreciationRecoverable?: boolean;
+  acv?: number;
+  provenance: LineProvenance;
+}
+
+export interface ImportedEstimate {
+  format: EstimateFormat;
+  fileName: string;
+  claimNumber?: string;
+  carrier?: string;
+  lossDate?: string;
+  lines: ImportedEstimateLine[];
+  totals: {
+    rcv: number;
+    depreciation: number;
+    acv: number;
+    overheadAndProfit: number;
+    tax: number;
+  };
+  warnings: string[];
+}
+
+export class EstimateImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EstimateImportError';
+  }
+}
+
+// Attribute and column names each estimate field goes by across exports, compared after normalizeKey
+const FIELD_ALIASES = {
+  lineNumber: ['linenum', 'linenumber', 'line', 'no', 'num', 'itemnumber'],
+  categoryCode: ['cat', 'category', 'categorycode', 'trade', 'tradecode'],
+  selectorCode: ['sel', 'selector', 'selectorcode', 'code', 'itemcode'],
+  activity: ['act', 'activity', 'action'],
+  description: ['desc', 'description', 'itemdescription', 'name'],
+  quantity: ['qty', 'quantity', 'units'],
+  unit: ['unit', 'uom', 'unitofmeasure'],
+  unitPrice: ['replace', 'unitprice', 'price', 'rate', 'unitcost'],
+  laborCost: ['labor', 'labour', 'laborcost', 'labortotal', 'laboramount'],
+  materialCost: ['material', 'materials', 'materialcost', 'materialtotal', 'materialamount'],
+  tax: ['tax', 'salestax'],
+  overheadAndProfit: ['oandp', 'op', 'o&p', 'overheadprofit', 'overheadandprofit'],
+  rcv: ['rcv', 'total', 'replacementcost', 'replacementcostvalue', 'linetotal', 'amount'],
+  depreciation: ['dep', 'deprec', 'depreciation', 'depamount'],
+  acv: ['acv', 'actualcashvalue'],
+  nonRecoverable: ['nonrecoverable', 'nonrec', 'nonrecdep'],
+  room: ['room', 'area', 'group', 'roomname', 'areaname'],
+} as const;
+
+type FieldName = keyof typeof FIELD_ALIASES;
+
+const LINE_ELEMENT_NAMES = new Set(['item', 'lineitem', 'estimateitem', 'line']);
+const GROUP_ELEMENT_NAMES = new Set(['group', 'room', 'area', 'section', 'level']);
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[\s_\-.]/g, '');
+}
+
+function parseAmount(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  const raw = String(value).trim();
+  const negative = /^\(.*\)$/.test(raw) || /^<.*>$/.test(raw) || raw.startsWith('-');
+  const parsed = parseFloat(raw.replace(/[()<>$,\s-]/g, ''));
+  if (!Number.isFinite(parsed)) return undefined;
+  return negative ? -parsed : parsed;
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function pickField(record: Record<string, unknown>, field: FieldName): unknown {
+  for (const [key, value] of Object.entries(record)) {
+    if ((FIELD_ALIASES[field] as readonly string[]).includes(normalizeKey(key))) {
+      if (value !== null && typeof value === 'object' && '#text' in (value as Record<string, unknown>)) {
+        return (value as Record<string, unknown>)['#text'];
+      }
+      if (typeof value !== 'object') return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Map an Xactimate-style category code to the trade the claim auditors price by
+ */
+export function mapCategoryCode(code?: string): string | undefined {
+  return getCatalogCategory(code)?.trade;
+}
+
+function buildLine(
+  record: Record<string, unknown>,
+  lineNumber: number,
+  provenance: LineProvenance,
+  room?: string
+): ImportedEstimateLine | null {
+  const description = String(pickField(record, 'description') ?? '').trim();
+  if (!description) return null;
+
+  const quantity = parseAmount(pickField(record, 'quantity')) ?? 1;
+  const unitPrice = parseAmount(pickField(record, 'unitPrice'));
+  const laborCost = parseAmount(pickField(record, 'laborCost'));
+  const materialCost = parseAmount(pickField(record, 'materialCost'));
+  const tax = parseAmount(pickField(record, 'tax'));
+  const overheadAndProfit = parseAmount(pickField(record, 'overheadAndProfit'));
+  const explicitRcv = parseAmount(pickField(record, 'rcv'));
+  const depreciationRaw = pickField(record, 'depreciation');
+  const depreciation = parseAmount(depreciationRaw);
+  const acv = parseAmount(pickField(record, 'acv'));
+  const nonRecoverableRaw = pickField(record, 'nonRecoverable');
+
+  const rcv = explicitRcv !== undefined
+    ? Math.abs(explicitRcv)
+    : roundCurrency((unitPrice ?? 0) * quantity + (tax ?? 0) + (overheadAndProfit ?? 0));
+
+  // Xactimate wraps non-recoverable depreciation in angle brackets: <1,234.56>
+  let depreciationRecoverable: boolean | undefined;
+  if (typeof depreciationRaw === 'string' && /^\s*</.test(depreciationRaw)) {
+    depreciationRecoverable = false;
+  } else if (nonRecoverableRaw !== undefined) {
+    depreciationRecoverable = !['1', 'true', 'yes', 'y'].includes(String(nonRecoverableRaw).toLowerCase());
+  } else if (depreciation !== undefined && depreciation !== 0) {
+    depreciationRecoverable = true;
+  }
+
+  const lineNumberValue = parseAmount(pickField(record, 'lineNumber'));
+  const roomValue = pickField(record, 'room');
+
+  return {
+    lineNumber: lineNumberValue !== undefined ? Math.trunc(lineNumberValue) : lineNumber,
+    categoryCode: (pickField(record, 'categoryCode') as string | undefined)?.toString().trim() || undefined,
+    selectorCode: (pickField(record, 'selectorCode') as string | undefined)?.toString().trim() || undefined,
+    activity: (pickField(record, 'activity') as string | undefined)?.toString().trim() || undefined,
+    description,
+    room: (typeof roomValue === 'string' && roomValue.trim()) || room,
+    quantity,
+    unit: String(pickField(record, 'unit') ?? 'EA').trim().toUpperCase() || 'EA',
+    unitPrice,
+    laborCost,
+    materialCost,
+    tax,
+    overheadAndProfit,
+    rcv: roundCurrency(rcv),
+    depreciation: depreciation !== undefined ? roundCurrency(Math.abs(depreciation)) : undefined,
+    depreciationRecoverable,
+    acv: acv !== undefined
+      ? roundCurrency(Math.abs(acv))
+      : depreciation !== undefined ? roundCurrency(rcv - Math.abs(depreciation)) : undefined,
+    provenance,
+  };
+}
+
+/**
+ * Parse an Xactimate or Symbility XML export
+ */
+export function parseEstimateXml(xml: string, format: 'xactimate-xml' | 'xactimate-esx' | 'symbility-xml'): Omit<ImportedEstimate, 'fileName'> {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    parseTagValue: false,
+    parseAttributeValue: false,
+    trimValues: true,
+  });
+
+  let doc: Record<string, unknown>;
+  try {
+    doc = parser.parse(xml);
+  } catch (error: any) {
+    throw new EstimateImportError(`Estimate XML could not be parsed: ${error.message}`);
+  }
+
+  const lines: ImportedEstimateLine[] = [];
+  const header: { claimNumber?: string; carrier?: string; lossDate?: string } = {};
+
+  const walk = (node: unknown, elementName: string, room: string | undefined) => {
+    if (Array.isArray(node)) {
+      node.forEach(child => walk(child, elementName, room));
+      return;
+    }
+    if (!node || typeof node !== 'object') return;
+
+    const record = node as Record<string, unknown>;
+    const name = normalizeKey(elementName);
+
+    if (LINE_ELEMENT_NAMES.has(name)) {
+      const line = buildLine(record, lines.length + 1, {
+        format,
+        origin: 'xml-element',
+        locator: `<${elementName}> #${lines.length + 1}${room ? ` in "${room}"` : ''}`,
+        confidence: 'high',
+      }, room);
+      if (line) {
+        lines.push(line);
+        return;
+      }
+    }
+
+    let childRoom = room;
+    if (GROUP_ELEMENT_NAMES.has(name)) {
+      const groupName = pickField(record, 'description') ?? record.name ?? record.Name;
+      if (typeof groupName === 'string' && groupName.trim()) childRoom = groupName.trim();
+    }
+
+    for (const [key, value] of Object.entries(record)) {
+      if (value === null || typeof value !== 'object') {
+        const normalized = normalizeKey(key);
+        if (!header.claimNumber && ['claimnumber', 'claimno', 'claimid'].includes(normalized)) header.claimNumber = String(value);
+        if (!header.carrier && ['carrier', 'insurancecompany', 'insurer', 'companyname'].includes(normalized)) header.carrier = String(value);
+        if (!header.lossDate && ['dateofloss', 'lossdate', 'dol'].includes(normalized)) header.lossDate = String(value);
+        continue;
+      }
+      walk(value, key, childRoom);
+    }
+  };
+
+  walk(doc, '', undefined);
+
+  return finalizeEstimate(format, lines, header);
+}
+
+/**
+ * Parse a Symbility (or generic) CSV estimate export
+ */
+export function parseEstimateCsv(csv: string): Omit<ImportedEstimate, 'fileName'> {
+  const rows = csv.replace(/\r\n/g, '\n').split('\n').filter(row => row.trim().length > 0);
+  if (rows.length < 2) {
+    throw new EstimateImportError('CSV estimate must include a header row and at least one line item');
+  }
+
+  const headers = splitCsvLine(rows[0]);
+  const lines: ImportedEstimateLine[] = [];
+
+  for (let i = 1; i < rows.length; i++) {
+    const cells = splitCsvLine(rows[i]);
+    const record: Record<string, unknown> = {};
+    headers.forEach((header, idx) => {
+      record[header] = cells[idx];
+    });
+
+    const line = buildLine(record, lines.length + 1, {
+      format: 'symbility-csv',
+      origin: 'csv-row',
+      locator: `row ${i + 1}`,
+      rawText: rows[i],
+      confidence: 'high',
+    });
+    if (line) lines.push(line);
+  }
+
+  return finalizeEstimate('symbility-csv', lines, {});
+}
+
+const PDF_UNITS = 'SQ|SF|LF|EA|SY|CY|HR|DA|WK|MO|GL|GAL|CF|BX|RL|LS|TN|PR|SET';
+const PDF_LINE_PATTERN = new RegExp(
+  `^(?:(\\d{1,4})\\.\\s+)?(.+?)\\s+([\\d,]+(?:\\.\\d+)?)\\s+(${PDF_UNITS})\\s+((?:[<(]?-?[\\d,]+\\.\\d{2}[>)]?\\s*){2,6})$`,
+  'i'
+);
+const PDF_ACTIVITY_PATTERN = /^(R&R|Remove|Replace|Detach & Reset|D&R|Reset|Install|Clean|Mask|Seal & paint|Seal\/prime)\b\s*/i;
+const PDF_ROOM_PATTERN = /^(?:Room|Area|Level):\s*(.+)$/i;
+
+/**
+ * Parse the "line item detail" layout of Xactimate and Symbility PDF reports
+ *
+ * Xactimate columns: QUANTITY UNIT PRICE TAX O&P RCV DEPREC. ACV
+ * Symbility columns: Quantity Unit Unit Price Total (Depreciation) ACV
+ */
+export function parseEstimateText(text: string): Omit<ImportedEstimate, 'fileName'> {
+  const isSymbility = /symbility|corelogic/i.test(text);
+  const isXactimate = /xactimate|xactware|verisk/i.test(text) || /QUANTITY\s+UNIT\s+PRICE/i.test(text);
+  const format: EstimateFormat = isSymbility ? 'symbility-pdf' : isXactimate ? 'xactimate-pdf' : 'generic-pdf';
+
+  const lines: ImportedEstimateLine[] = [];
+  const header: { claimNumber?: string; carrier?: string; lossDate?: string } = {};
+  let room: string | undefined;
+
+  const rawLines = text.replace(/\r\n/g, '\n').split('\n');
+  rawLines.forEach((rawLine, idx) => {
+    const line = rawLine.replace(/\t/g, ' ').replace(/\s{2,}/g, ' ').trim();
+    if (!line) return;
+
+    const claimMatch = line.match(/^Claim\s*(?:Number|#|No\.?)\s*:?\s*([A-Z0-9-]+)/i);
+    if (claimMatch && !header.claimNumber) header.claimNumber = claimMatch[1];
+    const lossMatch = line.match(/^(?:Date of Loss|Loss Date|DOL)\s*:?\s*([\d/.-]+)/i);
+    if (lossMatch && !header.lossDate) header.lossDate = lossMatch[1];
+    const carrierMatch = line.match(/^(?:Insurance Company|Carrier|Insurer)\s*:?\s*(.+)$/i);
+    if (carrierMatch && !header.carrier) header.carrier = carrierMatch[1].trim();
+
+    const roomMatch = line.match(PDF_ROOM_PATTERN);
+    if (roomMatch) {
+      room = roomMatch[1].trim();
+      return;
+    }
+
+    const match = line.match(PDF_LINE_PATTERN);
+    if (!match) return;
+
+    const [, lineNo, rawDescription, qtyStr, unit, amountStr] = match;
+    if (/^(total|subtotal|line item totals|grand total)/i.test(rawDescription)) return;
+
+    const amounts = amountStr.trim().split(/\s+/);
+    const values = amounts.map(a => parseAmount(a) ?? 0);
+    const nonRecoverable = amounts.some(a => a.startsWith('<'));
+
+    let unitPrice: number | undefined;
+    let tax: number | undefined;
+    let overheadAndProfit: number | undefined;
+    let rcv: number;
+    let depreciation: number | undefined;
+    let acv: number | undefined;
+
+    switch (values.length) {
+      case 6:
+        [unitPrice, tax, overheadAndProfit, rcv, depreciation, acv] = values;
+        break;
+      case 5:
+        [unitPrice, tax, rcv, depreciation, acv] = values;
+        break;
+      case 4:
+        [unitPrice, rcv, depreciation, acv] = values;
+        break;
+      case 3:
+        [unitPrice, tax, rcv] = values;
+        break;
+      default:
+        [unitPrice, rcv] = values;
+    }
+
+    const activityMatch = rawDescription.match(PDF_ACTIVITY_PATTERN);
+    const quantity = parseAmount(qtyStr) ?? 1;
+
+    lines.push({
+      lineNumber: lineNo ? parseInt(lineNo, 10) : lines.length + 1,
+      activity: activityMatch ? activityMatch[1] : undefined,
+      description: rawDescription.trim(),
+      room,
+      quantity,
+      unit: unit.toUpperCase(),
+      unitPrice,
+      tax,
+      overheadAndProfit,
+      rcv: roundCurrency(Math.abs(rcv)),
+      depreciation: depreciation !== undefined ? roundCurrency(Math.abs(depreciation)) : undefined,
+      depreciationRecoverable: depreciation ? !nonRecoverable : undefined,
+      acv: acv !== undefined ? roundCurrency(Math.abs(acv)) : undefined,
+      provenance: {
+        format,
+        origin: 'pdf-line',
+        locator: `text line ${idx + 1}`,
+        rawText: line,
+        confidence: values.length >= 5 ? 'high' : values.length >= 3 ? 'medium' : 'low',
+      },
+    });
+  });
+
+  return finalizeEstimate(format, lines, header);
+}
+
+function finalizeEstimate(
+  format: EstimateFormat,
+  lines: ImportedEstimateLine[],
+  header: { claimNumber?: string; carrier?: string; lossDate?: string }
+): Omit<ImportedEstimate, 'fileName'> {
+  const warnings: string[] = [];
+  if (lines.length === 0) {
+    warnings.push('No line items were recognized in this estimate');
+  }
+
+  const missingCodes = lines.filter(l => !l.categoryCode).length;
+  if (lines.length > 0 && missingCodes === lines.length && format !== 'xactimate-pdf' && format !== 'symbility-pdf') {
+    warnings.push('Estimate does not include category/selector codes; categories were inferred from descriptions');
+  }
+
+  const sum = (pick: (l: ImportedEstimateLine) => number | undefined) =>
+    roundCurrency(lines.reduce((total, l) => total + (pick(l) ?? 0), 0));
+
+  return {
+    format,
+    claimNumber: header.claimNumber,
+    carrier: header.carrier,
+    lossDate: header.lossDate,
+    lines,
+    totals: {
+      rcv: sum(l => l.rcv),
+      depreciation: sum(l => l.depreciation),
+      acv: sum(l => l.acv ?? l.rcv),
+      overheadAndProfit: sum(l => l.overheadAndProfit),
+      tax: sum(l => l.tax),
+    },
+    warnings,
+  };
+}
+
+/**
+ * Extract the estimate XML from an Xactimate ESX archive
+ */
+async function extractEsxXml(buffer: Buffer): Promise<string> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new EstimateImportError('ESX file is not a readable archive (it may be encrypted by Xactimate)');
+  }
+
+  const xmlEntries = Object.values(zip.files)
+    .filter(entry => !entry.dir && entry.name.toLowerCase().endsWith('.xml'));
+
+  if (xmlEntries.length === 0) {
+    throw new EstimateImportError('ESX archive does not contain an estimate XML document');
+  }
+
+  // Prefer the rough draft document, which carries the line item detail
+  const preferred = xmlEntries.find(e => /roughdraft/i.test(e.name)) || xmlEntries[0];
+  return preferred.async('string');
+}
+
+/**
+ * Detect the export format from the file name, MIME type and content
+ */
+export function detectEstimateFormat(fileName: string, mimeType: string, head: string): EstimateFormat | null {
+  const ext = path.extname(fileName).toLowerCase();
+
+  if (ext === '.esx') return 'xactimate-esx';
+  if (ext === '.pdf' || mimeType === 'application/pdf') return 'generic-pdf';
+  if (ext === '.csv' || mimeType === 'text/csv') return 'symbility-csv';
+  if (ext === '.xml' || mimeType.includes('xml') || head.trimStart().startsWith('<')) {
+    return /symbility|corelogic/i.test(head) ? 'symbility-xml' : 'xactimate-xml';
+  }
+  return null;
+}
+
+/**
+ * Import a carrier estimate file from disk
+ * PDFs are converted to text by the caller-supplied extractor (OCR service)
+ */
+export async function importEstimateFile(
+  filePath: string,
+  fileName: string,
+  mimeType: string,
+  extractPdfText: (filePath: string) => Promise<string>
+): Promise<ImportedEstimate> {
+  const buffer = await fs.readFile(filePath);
+  const head = buffer.subarray(0, 2048).toString('utf8');
+  const format = detectEstimateFormat(fileName, mimeType, head);
+
+  let parsed: Omit<ImportedEstimate, 'fileName'>;
+  switch (format) {
+    case 'xactimate-esx':
+      parsed = parseEstimateXml(await extractEsxXml(buffer), 'xactimate-esx');
+      break;
+    case 'xactimate-xml':
+    case 'symbility-xml':
+      parsed = parseEstimateXml(buffer.toString('utf8'), format);
+      break;
+    case 'symbility-csv':
+      parsed = parseEstimateCsv(buffer.toString('utf8'));
+      break;
+    case 'generic-pdf':
+      parsed = parseEstimateText(await extractPdfText(filePath));
+      break;
+    default:
+      throw new EstimateImportError('Unsupported estimate format. Upload an ESX, XML, CSV or PDF export.');
+  }
+
+  return { ...parsed, fileName };
+}
+
+/**
+ * Convert imported estimate lines to claim audit line items.
+ * The quoted price is the line before tax and O&P, which stay in their own fields.
+ */
+export function toClaimLineItems(estimate: Pick<ImportedEstimate, 'lines'>): ClaimLineItem[] {
+  return estimate.lines.map(line => ({
+    description: line.description,
+    quotedPrice: roundCurrency(Math.max(0, line.rcv - (line.tax ?? 0) - (line.overheadAndProfit ?? 0))),
+    category: mapCategoryCode(line.categoryCode),
+    quantity: line.quantity,
+    unit: line.unit,
+    rcv: line.rcv,
+    acv: line.acv,
+    depreciationAmount: line.depreciation,
+    nonRecoverableDepreciation: line.depreciationRecoverable === false ? line.depreciation : undefined,
+    overheadAndProfit: line.overheadAndProfit,
+    laborCost: line.laborCost,
+    materialCost: line.materialCost,
+    salesTax: line.tax,
+    catalogCode: getCatalogEntryBySelector(line.categoryCode, line.selectorCode)?.code,
+  }));
+}
+
+export const estimateImport = {
+  importEstimateFile,
+  parseEstimateXml,
+  parseEstimateCsv,
+  parseEstimateText,
+  detectEstimateFormat,
+  mapCategoryCode,
+  toClaimLineItems,
+};
+
+export default estimateImport;
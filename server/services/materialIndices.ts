@@ -0,0 +1,88 @@
+/**
+ * Material Index Series
+ *
+ * The built-in material index series (shared/priceIndices) extended with
+ * live BLS producer price observations. Fetched at most once a day; the
+ * built-in series stand in whenever the BLS API is unreachable.
+ */
+
+import { getBLSInflationData, calculateInflationMultiplier, type BLSInflationData } from '../external-apis';
+import {
+  appendIndexObservations,
+  indexValueAt,
+  DEFAULT_INDEX_SERIES,
+  MATERIAL_INDICES,
+  type IndexSeries,
+  type MaterialIndexKey,
+} from '@shared/priceIndices';
+
+export interface MaterialIndexSummary {
+  key: MaterialIndexKey;
+  label: string;
+  blsSeriesId: string;
+  series: IndexSeries;
+  yearOverYear: number;  // Multiplier, e.g. 1.04 = +4% over the last 12 months
+  live: boolean;         // Whether BLS observations were merged in
+}
+
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const FAILED_FETCH_TTL_MS = 60 * 60 * 1000;
+const LIVE_YEARS = 3;
+const INDEX_KEYS = Object.keys(MATERIAL_INDICES) as MaterialIndexKey[];
+
+let cached: { expiresAt: number; live: Record<MaterialIndexKey, BLSInflationData[]> } | null = null;
+
+/**
+ * Monthly BLS observations as an index series (M13 annual averages dropped)
+ */
+export function blsObservations(data: BLSInflationData[]): IndexSeries {
+  return data
+    .filter(point => /^M(0[1-9]|1[0-2])$/.test(point.period))
+    .map(point => ({ period: `${point.year}-${point.period.slice(1)}`, value: parseFloat(point.value) }))
+    .filter(point => Number.isFinite(point.value));
+}
+
+async function getLiveObservations(apiKey?: string): Promise<Record<MaterialIndexKey, BLSInflationData[]>> {
+  if (cached && Date.now() < cached.expiresAt) {
+    return cached.live;
+  }
+
+  const results = await Promise.all(
+    INDEX_KEYS.map(key => getBLSInflationData(apiKey, MATERIAL_INDICES[key].blsSeriesId, LIVE_YEARS))
+  );
+  const live = Object.fromEntries(INDEX_KEYS.map((key, i) => [key, results[i]])) as Record<MaterialIndexKey, BLSInflationData[]>;
+
+  // A failed fetch is retried sooner, but not on every request
+  const fetched = results.some(data => data.length > 0);
+  cached = { expiresAt: Date.now() + (fetched ? CACHE_TTL_MS : FAILED_FETCH_TTL_MS), live };
+  return live;
+}
+
+export async function getMaterialIndexSummaries(apiKey: string | undefined = process.env.BLS_API_KEY): Promise<MaterialIndexSummary[]> {
+  const live = await getLiveObservations(apiKey);
+  const now = new Date();
+  const yearAgo = new Date(Date.UTC(now.getUTCFullYear() - 1, now.getUTCMonth(), 1));
+
+  return INDEX_KEYS.map(key => {
+    const observations = blsObservations(live[key]);
+    const series = appendIndexObservations(DEFAULT_INDEX_SERIES[key], observations);
+    // BLS data is newest first; the 13 newest months span one year
+    const monthly = live[key].filter(point => /^M(0[1-9]|1[0-2])$/.test(point.period)).slice(0, 13);
+    const yearOverYear = monthly.length >= 13
+      ? calculateInflationMultiplier(monthly)
+      : Math.round((indexValueAt(series, now) / indexValueAt(series, yearAgo)) * 10000) / 10000;
+
+    return {
+      key,
+      ...MATERIAL_INDICES[key],
+      series,
+      yearOverYear,
+      live: observations.length > 0,
+    };
+  });
+}
+
+export async function getMaterialIndexSeries(apiKey?: string): Promise<Record<MaterialIndexKey, IndexSeries>> {
+  const summaries = await getMaterialIndexSummaries(apiKey);
+  return Object.fromEntries(summaries.map(summary => [summary.key, summary.series])) as Record<MaterialIndexKey, IndexSeries>;
+}
@@ -0,0 +1,172 @@
+/**
+ * Photo Evidence
+ *
+ * Damage photos attached to a saved claim. Each upload is stored in object
+ * storage next to a small JPEG thumbnail, and its EXIF capture time, GPS
+ * position and camera are recorded so the photo can stand as evidence of
+ * when and where the damage was documented.
+ *
+ * Thumbnails are generated in the browser before upload; when a client
+ * doesn't send one, the camera's embedded EXIF thumbnail is used instead.
+ */
+
+import { randomUUID } from "crypto";
+import exifr from "exifr";
+
+export const PHOTO_CONTENT_TYPES = ["image/jpeg", "image/png"] as const;
+export const MAX_PHOTO_BYTES = 15 * 1024 * 1024;
+
+export interface PhotoMetadata {
+  capturedAt: Date | null;
+  latitude: number | null;
+  longitude: number | null;
+  cameraModel: string | null;
+  width: number | null;
+  height: number | null;
+}
+
+export interface PhotoDescription {
+  originalName: string;
+  room?: string | null;
+  caption?: string | null;
+  capturedAt?: Date | string | null;
+  latitude?: number | string | null;
+  longitude?: number | string | null;
+  cameraModel?: string | null;
+  lineItems?: string[];
+}
+
+const EMPTY_METADATA: PhotoMetadata = {
+  capturedAt: null,
+  latitude: null,
+  longitude: null,
+  cameraModel: null,
+  width: null,
+  height: null,
+};
+
+function finiteOrNull(value: unknown): number | null {
+  const n = typeof value === "string" ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Map exifr output onto the fields we keep. GPS is only kept when both
+ * coordinates are present and in range.
+ */
+export function parsePhotoMetadata(exif: Record<string, any> | null | undefined): PhotoMetadata {
+  if (!exif) return { ...EMPTY_METADATA };
+
+  const captured = exif.DateTimeOriginal ?? exif.CreateDate ?? exif.ModifyDate;
+  const capturedAt = captured instanceof Date && !isNaN(captured.getTime()) ? captured : null;
+
+  let latitude = finiteOrNull(exif.latitude);
+  let longitude = finiteOrNull(exif.longitude);
+  if (latitude === null || longitude === null || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    latitude = null;
+    longitude = null;
+  }
+
+  const make = typeof exif.Make === "string" ? exif.Make.trim() : "";
+  const model = typeof exif.Model === "string" ? exif.Model.trim() : "";
+  // Most cameras repeat the make in the model ("Apple" / "iPhone 14" vs "Canon" / "Canon EOS R6")
+  const cameraModel = [make && !model.toLowerCase().startsWith(make.toLowerCase()) ? make : "", model]
+    .filter(Boolean)
+    .join(" ") || null;
+
+  return {
+    capturedAt,
+    latitude,
+    longitude,
+    cameraModel,
+    width: finiteOrNull(exif.ExifImageWidth ?? exif.ImageWidth),
+    height: finiteOrNull(exif.ExifImageHeight ?? exif.ImageHeight),
+  };
+}
+
+// PNG stores its dimensions in the IHDR chunk right after the signature
+function pngDimensions(data: Buffer): { width: number; height: number } | null {
+  if (data.length < 24 || data.readUInt32BE(0) !== 0x89504e47 || data.toString("ascii", 12, 16) !== "IHDR") {
+    return null;
+  }
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+}
+
+/**
+ * Read capture time, GPS, camera and dimensions. Photos without EXIF (or
+ * with EXIF stripped by a messaging app) come back with nulls.
+ */
+export async function extractPhotoMetadata(data: Buffer): Promise<PhotoMetadata> {
+  let metadata = { ...EMPTY_METADATA };
+  try {
+    metadata = parsePhotoMetadata(await exifr.parse(data, { tiff: true, exif: true, gps: true }));
+  } catch {
+    // Unreadable or missing EXIF segment
+  }
+
+  if (metadata.width === null || metadata.height === null) {
+    const png = pngDimensions(data);
+    if (png) {
+      metadata.width = png.width;
+      metadata.height = png.height;
+    }
+  }
+  return metadata;
+}
+
+export async function extractEmbeddedThumbnail(data: Buffer): Promise<Buffer | null> {
+  try {
+    const thumbnail = await exifr.thumbnail(data);
+    return thumbnail ? Buffer.from(thumbnail) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Object names for a photo and its thumbnail. Both live directly under the
+ * claim's directory so /files/:claimId/:filename can serve them.
+ */
+export function photoObjectNames(contentType: string, id: string = randomUUID()): { fileName: string; thumbnailFileName: string } {
+  const extension = contentType === "image/png" ? "png" : "jpg";
+  return {
+    fileName: `photo-${id}.${extension}`,
+    thumbnailFileName: `photo-${id}-thumb.jpg`,
+  };
+}
+
+export function isPhotoThumbnail(fileName: string): boolean {
+  return /^photo-[\w-]+-thumb\.jpg$/.test(fileName.split("/").pop() ?? "");
+}
+
+function formatCapturedAt(value: Date | string): string {
+  const date = new Date(value);
+  return date.toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: "UTC",
+    timeZoneName: "short",
+  });
+}
+
+/**
+ * Caption lines for a photo in report appendices
+ */
+export function describePhoto(photo: PhotoDescription): string[] {
+  const lines: string[] = [];
+  if (photo.caption) lines.push(photo.caption);
+  if (photo.room) lines.push(`Room: ${photo.room}`);
+  if (photo.lineItems && photo.lineItems.length > 0) lines.push(`Line items: ${photo.lineItems.join("; ")}`);
+  if (photo.capturedAt) lines.push(`Taken ${formatCapturedAt(photo.capturedAt)}`);
+
+  const latitude = finiteOrNull(photo.latitude);
+  const longitude = finiteOrNull(photo.longitude);
+  if (latitude !== null && longitude !== null) {
+    lines.push(`GPS ${latitude.toFixed(6)}, ${longitude.toFixed(6)}`);
+  }
+  if (photo.cameraModel) lines.push(`Camera: ${photo.cameraModel}`);
+  return lines;
+}
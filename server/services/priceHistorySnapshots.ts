@@ -0,0 +1,109 @@
+/**
+ * Price History Snapshots
+ *
+ * Daily job that records each priceDB item's current P10/P50/P90 for the
+ * month, nationally and for every state with enough accepted crowdsourced
+ * samples of the item's category/unit (the national range scaled by the
+ * state's median ratio). Re-running within a month overwrites that month, so
+ * each month keeps its latest snapshot.
+ */
+
+import { storage } from '../storage';
+import { priceDBCache } from '../utils/priceDBCache';
+import { resolveLineItem } from '@shared/lineItemCatalog';
+import { monthKey } from '@shared/priceIndices';
+import type { PriceHistoryPoint } from '@shared/priceHistory';
+import type { InsertPriceHistory, PriceHistory } from '@shared/schema';
+import { pricingSampleCutoff, statePriceRatios } from './pricingStatistics';
+
+export const NATIONAL_REGION = 'US';
+
+// Units pricingDataPoints can hold; other catalog units have no crowdsourced samples
+const SAMPLE_UNITS = new Set(['LF', 'SF', 'SQ', 'CT', 'EA']);
+
+export interface PriceHistorySnapshotResult {
+  period: string;
+  itemsRecorded: number;
+  rowsWritten: number;
+  duration: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export async function recordPriceHistorySnapshot(now: Date = new Date()): Promise<PriceHistorySnapshotResult> {
+  const startTime = Date.now();
+  const period = monthKey(now);
+  const items = priceDBCache.getAllItems();
+  const ratiosByCategoryUnit = new Map<string, ReturnType<typeof statePriceRatios>>();
+  const rows: InsertPriceHistory[] = [];
+
+  for (const [itemKey, item] of Object.entries(items)) {
+    const range = { p10: item.UNIT_PRICE, p50: item.AVERAGE_PRICE, p90: item.FMV_PRICE };
+    rows.push({ itemKey, region: NATIONAL_REGION, period, unit: item.UNIT, ...range, sampleSize: item.SAMPLES });
+
+    const entry = resolveLineItem(itemKey)?.entry;
+    if (!entry || !SAMPLE_UNITS.has(entry.unit)) continue;
+
+    const key = `${entry.pricingCategory}|${entry.unit}`;
+    if (!ratiosByCategoryUnit.has(key)) {
+      const samples = await storage.getPricingSamples(entry.pricingCategory, entry.unit, pricingSampleCutoff(now));
+      ratiosByCategoryUnit.set(key, statePriceRatios(samples, { now }));
+    }
+
+    for (const [state, { ratio, sampleSize }] of Object.entries(ratiosByCategoryUnit.get(key)!)) {
+      rows.push({
+        itemKey,
+        region: state,
+        period,
+        unit: item.UNIT,
+        p10: round(range.p10 * ratio),
+        p50: round(range.p50 * ratio),
+        p90: round(range.p90 * ratio),
+        sampleSize,
+      });
+    }
+  }
+
+  const rowsWritten = await storage.upsertPriceHistory(rows);
+  return { period, itemsRecorded: Object.keys(items).length, rowsWritten, duration: Date.now() - startTime };
+}
+
+/**
+ * Stored snapshots per item, preferring the state's series and falling back
+ * to the national one month by month
+ */
+export function toPriceHistoryPoints(rows: PriceHistory[], state?: string | null): Record<string, PriceHistoryPoint[]> {
+  const byItem = new Map<string, Map<string, PriceHistory>>();
+  for (const row of rows) {
+    if (row.region !== NATIONAL_REGION && row.region !== state) continue;
+    const months = byItem.get(row.itemKey) ?? new Map<string, PriceHistory>();
+    const existing = months.get(row.period);
+    if (!existing || row.region !== NATIONAL_REGION) months.set(row.period, row);
+    byItem.set(row.itemKey, months);
+  }
+
+  const history: Record<string, PriceHistoryPoint[]> = {};
+  byItem.forEach((months, itemKey) => {
+    history[itemKey] = Array.from(months.values())
+      .sort((a, b) => a.period.localeCompare(b.period))
+      .map(row => ({
+        period: row.period,
+        p10: Number(row.p10),
+        p50: Number(row.p50),
+        p90: Number(row.p90),
+        sampleSize: row.sampleSize,
+        basis: 'snapshot' as const,
+      }));
+  });
+  return history;
+}
+
+export async function getItemPriceHistory(
+  itemKeys: string[],
+  state: string | null | undefined,
+  sincePeriod: string
+): Promise<Record<string, PriceHistoryPoint[]>> {
+  const regions = state ? [NATIONAL_REGION, state] : [NATIONAL_REGION];
+  const rows = await storage.getPriceHistory(itemKeys, regions, sincePeriod);
+  return toPriceHistoryPoints(rows, state);
+}
@@ -0,0 +1,182 @@
+/**
+ * Pricing Data Moderation
+ *
+ * User-submitted price observations feed market prices, so a mistaken or
+ * malicious submission could poison FMV for everyone. Every new point is
+ * stored as "pending" and run through automated checks before it counts:
+ *
+ * 1. Price outlier - robust z-score of the unit price against the regional
+ *    (ZIP prefix -> state -> national) distribution for its category/unit
+ * 2. Unit mismatch - the submitted unit, normalized, disagrees with the
+ *    catalog unit for the line item description
+ * 3. Duplicate - the same session already submitted this category/unit at
+ *    the same unit price
+ * 4. Burst - the session submitted more points in a short window than a
+ *    real claim would
+ *
+ * Points that pass every check are accepted; anything flagged is held for
+ * admin review. Pure so the checks can be tested without a database.
+ */
+
+import { resolveLineItem } from '@shared/lineItemCatalog';
+import { normalizeUnit } from './claimValidator';
+import { buildPricingStatistics, type PricingSample } from './pricingStatistics';
+
+export type PricingModerationCheck = 'price_outlier' | 'unit_mismatch' | 'duplicate' | 'burst';
+
+export interface PricingModerationFlag {
+  check: PricingModerationCheck;
+  message: string;
+}
+
+export interface PricingModerationResult {
+  status: 'accepted' | 'held';
+  flags: PricingModerationFlag[];
+  zScore: number | null;
+}
+
+export interface PricingCandidate {
+  category: string;
+  unit: string;
+  description?: string | null;
+  quantity: number;
+  fmvPrice: number;
+  zipPrefix?: string | null;
+}
+
+// Earlier points from the same session (not including the current submission)
+export interface SessionPricingPoint {
+  category: string;
+  unit: string;
+  unitPrice: number;
+  createdAt: Date | string;
+}
+
+export interface PricingModerationContext {
+  regionalSamples: PricingSample[];
+  sessionHistory?: SessionPricingPoint[];
+  submissionSize?: number;  // Points in the current submission, counted toward the burst limit
+  now?: Date;
+}
+
+export const OUTLIER_Z_LIMIT = 3.5;
+export const MIN_SAMPLES_FOR_OUTLIER_CHECK = 8;
+export const DUPLICATE_PRICE_TOLERANCE = 0.005;
+export const SESSION_HISTORY_WINDOW_HOURS = 24;
+export const BURST_WINDOW_MINUTES = 10;
+export const BURST_LIMIT = 150;
+const MIN_CATALOG_MATCH_SCORE = 0.8;
+const P10_P90_SIGMAS = 2.563;
+
+// CT and EA are both per-piece counts
+const UNIT_EQUIVALENTS: Record<string, string> = { CT: 'EA' };
+
+function comparableUnit(unit: string): string | null {
+  const normalized = normalizeUnit(unit);
+  return normalized ? UNIT_EQUIVALENTS[normalized] ?? normalized : null;
+}
+
+export function sessionHistoryCutoff(now: Date = new Date()): Date {
+  return new Date(now.getTime() - SESSION_HISTORY_WINDOW_HOURS * 3600000);
+}
+
+/**
+ * Robust z-score of a unit price against the regional distribution; null
+ * when there are too few samples to judge
+ */
+export function regionalZScore(unitPrice: number, samples: PricingSample[], zipPrefix?: string | null, now?: Date): number | null {
+  const stats = buildPricingStatistics(samples, zipPrefix, { now });
+  if (!stats || stats.sampleSize < MIN_SAMPLES_FOR_OUTLIER_CHECK) return null;
+
+  // Sigma from the P10-P90 spread, floored so a tight market doesn't flag every cent
+  const sigma = Math.max((stats.p90 - stats.p10) / P10_P90_SIGMAS, stats.p50 * 0.05);
+  return sigma > 0 ? Math.round(((unitPrice - stats.p50) / sigma) * 100) / 100 : null;
+}
+
+/**
+ * Run the automated checks on one pending point
+ */
+export function moderatePricingDataPoint(
+  candidate: PricingCandidate,
+  context: PricingModerationContext
+): PricingModerationResult {
+  const now = context.now ?? new Date();
+  const flags: PricingModerationFlag[] = [];
+  const unitPrice = candidate.quantity > 0 ? candidate.fmvPrice / candidate.quantity : NaN;
+
+  if (!Number.isFinite(unitPrice) || unitPrice <= 0) {
+    flags.push({ check: 'price_outlier', message: 'Unit price is missing or not positive' });
+  }
+
+  const zScore = Number.isFinite(unitPrice) && unitPrice > 0
+    ? regionalZScore(unitPrice, context.regionalSamples, candidate.zipPrefix, now)
+    : null;
+  if (zScore !== null && Math.abs(zScore) > OUTLIER_Z_LIMIT) {
+    flags.push({
+      check: 'price_outlier',
+      message: `Unit price $${unitPrice.toFixed(2)} is ${Math.abs(zScore).toFixed(1)} standard deviations ${zScore > 0 ? 'above' : 'below'} the regional median`,
+    });
+  }
+
+  const match = candidate.description
+    ? resolveLineItem(candidate.description, { category: candidate.category, minScore: MIN_CATALOG_MATCH_SCORE })
+    : null;
+  const unit = comparableUnit(candidate.unit);
+  if (match && unit && unit !== comparableUnit(match.entry.unit)) {
+    flags.push({
+      check: 'unit_mismatch',
+      message: `Submitted per ${candidate.unit} but ${match.code} is priced per ${match.entry.unit}`,
+    });
+  }
+
+  const history = context.sessionHistory ?? [];
+  const historyCutoff = sessionHistoryCutoff(now).getTime();
+  const duplicate = Number.isFinite(unitPrice) && history.some(point =>
+    new Date(point.createdAt).getTime() >= historyCutoff &&
+    point.category === candidate.category &&
+    comparableUnit(point.unit) === unit &&
+    Math.abs(point.unitPrice - unitPrice) <= unitPrice * DUPLICATE_PRICE_TOLERANCE
+  );
+  if (duplicate) {
+    flags.push({ check: 'duplicate', message: 'This session already submitted the same item at the same unit price' });
+  }
+
+  const burstCutoff = now.getTime() - BURST_WINDOW_MINUTES * 60000;
+  const recent = history.filter(point => new Date(point.createdAt).getTime() >= burstCutoff).length;
+  const submitted = recent + (context.submissionSize ?? 1);
+  if (submitted > BURST_LIMIT) {
+    flags.push({ check: 'burst', message: `Session submitted ${submitted} price points within ${BURST_WINDOW_MINUTES} minutes` });
+  }
+
+  return { status: flags.length > 0 ? 'held' : 'accepted', flags, zScore };
+}
+
+/**
+ * Run the checks on every point of one submission in order; each point joins
+ * the session history, so a submission can't repeat the same price unflagged
+ */
+export function moderatePricingSubmission(
+  candidates: PricingCandidate[],
+  context: Omit<PricingModerationContext, 'regionalSamples' | 'submissionSize'> & {
+    regionalSamples: (candidate: PricingCandidate) => PricingSample[];
+  }
+): PricingModerationResult[] {
+  const now = context.now ?? new Date();
+  const sessionHistory = [...(context.sessionHistory ?? [])];
+
+  return candidates.map((candidate, index) => {
+    const result = moderatePricingDataPoint(candidate, {
+      regionalSamples: context.regionalSamples(candidate),
+      sessionHistory,
+      submissionSize: candidates.length - index,  // Earlier points are already in the history
+      now,
+    });
+    sessionHistory.push({
+      category: candidate.category,
+      unit: candidate.unit,
+      unitPrice: candidate.quantity > 0 ? candidate.fmvPrice / candidate.quantity : NaN,
+      createdAt: now,
+    });
+    return result;
+  });
+}
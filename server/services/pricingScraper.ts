@@ -340,10 +340,10 @@ export async function getLatestPricing(
 ): Promise<ScrapedPrice[]> {
   const query = region
     ? db.select().from(pricingDataPoints)
-        .where(sql`lower(category) = ${category.toLowerCase()} AND zip_prefix = ${region}`)
+        .where(sql`lower(category) = ${category.toLowerCase()} AND zip_prefix = ${region} AND status = 'accepted'`)
         .limit(10)
     : db.select().from(pricingDataPoints)
-        .where(sql`lower(category) = ${category.toLowerCase()}`)
+        .where(sql`lower(category) = ${category.toLowerCase()} AND status = 'accepted'`)
         .limit(10);
 
   const results = await query;
@@ -0,0 +1,86 @@
+/**
+ * Regional Pricing Statistics
+ *
+ * Turns the crowdsourced per-unit FMV observations in pricingDataPoints into
+ * one robust estimate for a ZIP prefix: national, state and ZIP-prefix
+ * samples are each summarized by the pricing statistics engine, then the
+ * thinner local levels are shrunk toward the broader ones.
+ */
+
+import {
+  computePriceStatistics,
+  shrinkPriceStatistics,
+  DEFAULT_PRIOR_STRENGTH,
+  type PriceStatsOptions,
+  type ScopedPriceStatistics,
+} from '@shared/pricingStats';
+import { getStateFromZip } from '../utils/zipToState';
+
+export interface PricingSample {
+  unitPrice: number;
+  zipPrefix: string | null;
+  createdAt: Date | string;
+}
+
+// Observations older than this carry almost no weight after time decay
+export const PRICING_SAMPLE_WINDOW_DAYS = 3 * 365;
+
+export function pricingSampleCutoff(now: Date = new Date()): Date {
+  return new Date(now.getTime() - PRICING_SAMPLE_WINDOW_DAYS * 86400000);
+}
+
+function stateOfPrefix(zipPrefix: string | null): string | null {
+  return zipPrefix ? getStateFromZip(`${zipPrefix}00`) : null;
+}
+
+/**
+ * National -> state -> ZIP prefix estimate for one category/unit; null when
+ * there are no usable samples anywhere
+ */
+export function buildPricingStatistics(
+  samples: PricingSample[],
+  zipPrefix?: string | null,
+  options: PriceStatsOptions & { priorStrength?: number } = {}
+): ScopedPriceStatistics | null {
+  const { priorStrength = DEFAULT_PRIOR_STRENGTH, ...statsOptions } = options;
+  const summarize = (subset: PricingSample[]) => subset.length === 0
+    ? null
+    : computePriceStatistics(subset.map(sample => ({ price: sample.unitPrice, observedAt: sample.createdAt })), statsOptions);
+
+  const state = stateOfPrefix(zipPrefix ?? null);
+
+  return shrinkPriceStatistics([
+    { scope: 'national', stats: summarize(samples) },
+    { scope: 'state', stats: state ? summarize(samples.filter(sample => stateOfPrefix(sample.zipPrefix) === state)) : null },
+    { scope: 'zip_prefix', stats: zipPrefix ? summarize(samples.filter(sample => sample.zipPrefix === zipPrefix)) : null },
+  ], priorStrength);
+}
+
+/**
+ * Each state's median unit price relative to the national median, for states
+ * with at least `minSamples` usable samples
+ */
+export function statePriceRatios(
+  samples: PricingSample[],
+  options: PriceStatsOptions & { minSamples?: number } = {}
+): Record<string, { ratio: number; sampleSize: number }> {
+  const { minSamples = DEFAULT_PRIOR_STRENGTH, ...statsOptions } = options;
+  const toPoints = (subset: PricingSample[]) => subset.map(sample => ({ price: sample.unitPrice, observedAt: sample.createdAt }));
+  const national = computePriceStatistics(toPoints(samples), statsOptions);
+  if (!national || national.p50 <= 0) return {};
+
+  const byState = new Map<string, PricingSample[]>();
+  for (const sample of samples) {
+    const state = stateOfPrefix(sample.zipPrefix);
+    if (state) byState.set(state, [...(byState.get(state) ?? []), sample]);
+  }
+
+  const ratios: Record<string, { ratio: number; sampleSize: number }> = {};
+  byState.forEach((subset, state) => {
+    const stats = subset.length >= minSamples ? computePriceStatistics(toPoints(subset), statsOptions) : null;
+    if (stats && stats.sampleSize >= minSamples) {
+      ratios[state] = { ratio: Math.round((stats.p50 / national.p50) * 10000) / 10000, sampleSize: stats.sampleSize };
+    }
+  });
+  return ratios;
+}
@@ -1,4 +1,7 @@
 import { runPricingUpdateJob, getScraperStatus } from "./pricingScraper";
+import { runClaimDeadlineReminders } from "./claimReminders";
+import { recordPriceHistorySnapshot } from "./priceHistorySnapshots";
+import { importFemaDeclarations, refreshCatastropheEvents } from "./catastropheEvents";
 
 interface ScheduledJob {
   name: string;
@@ -57,6 +60,87 @@ async function runPricingJob(): Promise<void> {
   }
 }
 
+async function runClaimReminderJob(): Promise<void> {
+  const job = jobs.get("claim-deadline-reminders");
+  if (!job) return;
+
+  if (job.config.running) {
+    console.log("[Scheduler] Claim reminder job already running, skipping");
+    return;
+  }
+
+  job.config.running = true;
+  job.config.lastRun = new Date();
+
+  try {
+    const result = await runClaimDeadlineReminders();
+    console.log(`[Scheduler] Claim reminder job completed: ${result.remindersSent} reminders across ${result.claimsChecked} claims in ${result.duration}ms`);
+    job.config.runs++;
+  } catch (error: any) {
+    console.error("[Scheduler] Claim reminder job failed:", error);
+    job.config.failures++;
+    job.config.lastError = error.message;
+  } finally {
+    job.config.running = false;
+    job.config.nextRun = new Date(Date.now() + job.config.intervalMs);
+  }
+}
+
+async function runPriceHistoryJob(): Promise<void> {
+  const job = jobs.get("price-history-snapshot");
+  if (!job) return;
+
+  if (job.config.running) {
+    console.log("[Scheduler] Price history job already running, skipping");
+    return;
+  }
+
+  job.config.running = true;
+  job.config.lastRun = new Date();
+
+  try {
+    const result = await recordPriceHistorySnapshot();
+    console.log(`[Scheduler] Price history job completed: ${result.rowsWritten} snapshots for ${result.itemsRecorded} items (${result.period}) in ${result.duration}ms`);
+    job.config.runs++;
+  } catch (error: any) {
+    console.error("[Scheduler] Price history job failed:", error);
+    job.config.failures++;
+    job.config.lastError = error.message;
+  } finally {
+    job.config.running = false;
+    job.config.nextRun = new Date(Date.now() + job.config.intervalMs);
+  }
+}
+
+async function runCatastropheEventsJob(): Promise<void> {
+  const job = jobs.get("catastrophe-events");
+  if (!job) return;
+
+  if (job.config.running) {
+    console.log("[Scheduler] Catastrophe events job already running, skipping");
+    return;
+  }
+
+  job.config.running = true;
+  job.config.lastRun = new Date();
+
+  try {
+    const imported = await importFemaDeclarations();
+    const active = imported ? null : await refreshCatastropheEvents();
+    console.log(imported
+      ? `[Scheduler] Catastrophe events job completed: ${imported.imported} new of ${imported.events} FEMA events from ${imported.filePath}`
+      : `[Scheduler] Catastrophe events job completed: ${active} active events`);
+    job.config.runs++;
+  } catch (error: any) {
+    console.error("[Scheduler] Catastrophe events job failed:", error);
+    job.config.failures++;
+    job.config.lastError = error.message;
+  } finally {
+    job.config.running = false;
+    job.config.nextRun = new Date(Date.now() + job.config.intervalMs);
+  }
+}
+
 export function initializeScheduler(): void {
   if (schedulerStarted) {
     console.log("[Scheduler] Already initialized");
@@ -78,7 +162,52 @@ export function initializeScheduler(): void {
     handler: runPricingJob,
   });
 
-  console.log("[Scheduler] Initialized with 1 job registered");
+  jobs.set("claim-deadline-reminders", {
+    config: {
+      name: "claim-deadline-reminders",
+      intervalMs: ONE_DAY,
+      lastRun: null,
+      nextRun: null,
+      running: false,
+      enabled: true,
+      runs: 0,
+      failures: 0,
+    },
+    timer: null,
+    handler: runClaimReminderJob,
+  });
+
+  jobs.set("price-history-snapshot", {
+    config: {
+      name: "price-history-snapshot",
+      intervalMs: ONE_DAY,
+      lastRun: null,
+      nextRun: null,
+      running: false,
+      enabled: true,
+      runs: 0,
+      failures: 0,
+    },
+    timer: null,
+    handler: runPriceHistoryJob,
+  });
+
+  jobs.set("catastrophe-events", {
+    config: {
+      name: "catastrophe-events",
+      intervalMs: ONE_HOUR,
+      lastRun: null,
+      nextRun: null,
+      running: false,
+      enabled: true,
+      runs: 0,
+      failures: 0,
+    },
+    timer: null,
+    handler: runCatastropheEventsJob,
+  });
+
+  console.log(`[Scheduler] Initialized with ${jobs.size} jobs registered`);
 }
 
 export function startScheduler(): void {
@@ -0,0 +1,229 @@
+/**
+ * Claim Share Links
+ *
+ * Read-only links to a saved claim's audit report that a homeowner can send
+ * to a contractor or public adjuster who has no account. A link's token is
+ * its id plus an HMAC over the id and expiry, so ids can't be guessed or a
+ * token re-dated; the row still decides whether the link has been revoked.
+ *
+ * buildSharedReport() produces the same shape /api/claims/analyze returns
+ * (what ResultsStep renders) from the stored claim, leaving out everything
+ * tied to the account - email, property address, partner matches.
+ */
+
+import crypto from "crypto";
+import { assessDepreciation, hasDepreciationData, summarizeDepreciation } from "./claimAudit/depreciation";
+import { auditCodeUpgrades } from "./claimAudit/codeUpgrades";
+import type { CodeUpgradeSummary, DepreciationAssessment, DepreciationSummary } from "./claimAudit/types";
+
+export type ShareLinkStatus = "active" | "expired" | "revoked";
+
+export const SHARE_LINK_DEFAULT_DAYS = 14;
+export const SHARE_LINK_MAX_DAYS = 90;
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShareLinkError";
+  }
+}
+
+export interface SharedReportItem {
+  category: string;
+  description: string;
+  room: string | null;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  insuranceOffer: number;
+  fmvPrice: number;
+  additionalAmount: number;
+  percentageIncrease: number;
+  status: "underpaid" | "fair";
+  citation: null;
+  depreciation: DepreciationAssessment | null;
+}
+
+export interface SharedClaimReport {
+  zipCode: string;
+  createdAt: string;
+  items: SharedReportItem[];
+  summary: {
+    totalInsuranceOffer: number;
+    totalFMV: number;
+    totalAdditional: number;
+    overallIncrease: number;
+  };
+  depreciationSummary: DepreciationSummary | null;
+  codeUpgrades: CodeUpgradeSummary | null;
+}
+
+interface StoredClaimTotals {
+  totalQuoted: number | string;
+  totalFmv: number | string;
+  additionalAmount: number | string;
+  variancePct: number | string;
+  deductible: number | string | null;
+}
+
+interface StoredLineItem {
+  category: string;
+  description: string;
+  room: string | null;
+  quantity: number | string;
+  unit: string;
+  quotedPrice: number | string;
+  fmvPrice: number | string;
+  variancePct: number | string;
+  acv: number | string | null;
+  depreciationAmount: number | string | null;
+  nonRecoverableDepreciation: number | string | null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function optionalNumber(value: number | string | null): number | undefined {
+  return value === null || value === undefined ? undefined : Number(value);
+}
+
+function signature(linkId: string, expiresAt: Date, secret: string): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${linkId}.${expiresAt.getTime()}`)
+    .digest("base64url");
+}
+
+/**
+ * Token for the public URL: "<link id>.<signature>"
+ */
+export function signShareToken(linkId: string, expiresAt: Date, secret: string): string {
+  return `${linkId}.${signature(linkId, expiresAt, secret)}`;
+}
+
+/**
+ * Link id a token claims to be for (check it with verifyShareToken once the
+ * row is loaded)
+ */
+export function shareTokenLinkId(token: string): string | null {
+  const [linkId, sig, extra] = token.split(".");
+  return linkId && sig && extra === undefined ? linkId : null;
+}
+
+export function verifyShareToken(token: string, expiresAt: Date, secret: string): boolean {
+  const linkId = shareTokenLinkId(token);
+  if (!linkId) return false;
+  const expected = Buffer.from(signShareToken(linkId, expiresAt, secret));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+export function shareLinkStatus(link: { expiresAt: Date; revokedAt: Date | null }, now: Date = new Date()): ShareLinkStatus {
+  if (link.revokedAt) return "revoked";
+  return link.expiresAt.getTime() <= now.getTime() ? "expired" : "active";
+}
+
+export function shareLinkExpiry(expiresInDays: number = SHARE_LINK_DEFAULT_DAYS, now: Date = new Date()): Date {
+  if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > SHARE_LINK_MAX_DAYS) {
+    throw new ShareLinkError(`Links can last between 1 and ${SHARE_LINK_MAX_DAYS} days`);
+  }
+  return new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Short "Chrome on Windows" description of a viewer's user agent for the
+ * owner's view log
+ */
+export function describeViewer(userAgent: string | undefined): string {
+  if (!userAgent) return "Unknown browser";
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /OPR\/|Opera/.test(userAgent) ? "Opera"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : "Unknown browser";
+  const os = /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Android/.test(userAgent) ? "Android"
+    : /Windows/.test(userAgent) ? "Windows"
+    : /Mac OS X|Macintosh/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+  return os ? `${browser} on ${os}` : browser;
+}
+
+/**
+ * The saved audit in ResultsStep's shape, with no account data
+ */
+export function buildSharedReport(input: {
+  zipCode: string;
+  createdAt: Date;
+  claim: StoredClaimTotals;
+  lineItems: StoredLineItem[];
+}): SharedClaimReport {
+  const items = input.lineItems.map((line): SharedReportItem => {
+    const quantity = Number(line.quantity);
+    const insuranceOffer = Number(line.quotedPrice);
+    const fmvPrice = Number(line.fmvPrice);
+    const additionalAmount = round(fmvPrice - insuranceOffer);
+    const depreciationInput = {
+      description: line.description,
+      quotedPrice: insuranceOffer,
+      acv: optionalNumber(line.acv),
+      depreciationAmount: optionalNumber(line.depreciationAmount),
+      nonRecoverableDepreciation: optionalNumber(line.nonRecoverableDepreciation),
+    };
+
+    return {
+      category: line.category,
+      description: line.description,
+      room: line.room,
+      quantity,
+      unit: line.unit,
+      unitPrice: quantity > 0 ? round(insuranceOffer / quantity) : insuranceOffer,
+      insuranceOffer,
+      fmvPrice,
+      additionalAmount,
+      percentageIncrease: Number(line.variancePct),
+      status: additionalAmount > 0 ? "underpaid" : "fair",
+      citation: null,
+      depreciation: hasDepreciationData(depreciationInput) ? assessDepreciation(depreciationInput) : null,
+    };
+  });
+
+  const deductible = optionalNumber(input.claim.deductible);
+
+  const depreciationSummary = items.some(item => item.depreciation) || deductible
+    ? summarizeDepreciation(
+        items.map(item => item.depreciation ?? assessDepreciation({ description: item.description, quotedPrice: item.insuranceOffer })),
+        deductible
+      )
+    : null;
+
+  const codeUpgradeLines = items.map(item => ({
+    description: item.description,
+    category: item.category,
+    quantity: item.quantity,
+    unit: item.unit,
+    quotedPrice: item.insuranceOffer,
+  }));
+  const codeUpgrades = auditCodeUpgrades(
+    { zipCode: input.zipCode, lineItems: codeUpgradeLines },
+    codeUpgradeLines.map(original => ({ original, marketPrice: original.quotedPrice, variance: 0, flags: [], recommendation: "" }))
+  );
+
+  return {
+    zipCode: input.zipCode,
+    createdAt: input.createdAt.toISOString(),
+    items,
+    // Totals as they were when the claim was audited
+    summary: {
+      totalInsuranceOffer: Number(input.claim.totalQuoted),
+      totalFMV: Number(input.claim.totalFmv),
+      totalAdditional: Number(input.claim.additionalAmount),
+      overallIncrease: Number(input.claim.variancePct),
+    },
+    depreciationSummary,
+    codeUpgrades: codeUpgrades.items.length > 0 ? codeUpgrades : null,
+  };
+}
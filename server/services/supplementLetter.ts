@@ -0,0 +1,561 @@
+/**
+ * Supplement Letter Generator
+ *
+ * Turns an audit result into the formal supplement request a policyholder
+ * sends to the adjuster: every under-priced line with the carrier price, the
+ * fair market value and the cited pricing source, followed by the items the
+ * carrier left out of scope.
+ *
+ * Accepts either the versioned claim audit (ClaimAuditResult) or the price
+ * database batch audit (BatchAuditResult). Wording comes from an editable
+ * supplement letter template; the tables are rendered by the generator.
+ *
+ * Output formats:
+ * - DOCX (WordprocessingML packaged with JSZip) so the letter can be edited
+ * - PDF (jsPDF) ready to send
+ */
+
+import JSZip from "jszip";
+import type { BatchAuditResult } from "@shared/priceAudit";
+import type { ClaimAuditResult } from "./claimAudit/types";
+import { getPreTaxCost } from "./claimAudit/depreciation";
+import {
+  aggregateSources,
+  generateCatalogCitedEstimate,
+  generateDisclaimer,
+  type CitedPriceEstimate,
+  type PricingSource,
+} from "../utils/pricingCitation";
+import { createPdfWriter, type PdfTable } from "../utils/pdfWriter";
+
+export type SupplementLetterFormat = "docx" | "pdf";
+
+export interface SupplementLetterTemplateContent {
+  subject: string;
+  body: string;
+}
+
+export interface SupplementLetterInput {
+  audit: ClaimAuditResult | BatchAuditResult;
+  claimNumber: string;
+  lossDate: string;
+  carrier: string;
+  zipCode?: string;
+  policyholderName?: string;
+  propertyAddress?: string;
+  adjusterName?: string;
+  senderName?: string;
+  date?: Date;
+}
+
+export interface SupplementDisputedItem {
+  description: string;
+  quantity: number;
+  unit: string;
+  carrierUnitPrice: number;
+  fmvUnitPrice: number;
+  carrierTotal: number;
+  fmvTotal: number;
+  difference: number;
+  citation: string;
+}
+
+export interface SupplementMissingItem {
+  description: string;
+  quantity: number | null;
+  unit: string | null;
+  estimatedCost: number | null;
+  reason?: string;
+}
+
+export type SupplementLetterBlock =
+  | { type: "paragraph"; text: string }
+  | { type: "disputed_items" }
+  | { type: "missing_items" }
+  | { type: "pricing_sources" };
+
+export interface SupplementLetter {
+  subject: string;
+  date: string;
+  claimNumber: string;
+  lossDate: string;
+  carrier: string;
+  blocks: SupplementLetterBlock[];
+  disputedItems: SupplementDisputedItem[];
+  missingItems: SupplementMissingItem[];
+  sources: PricingSource[];
+  totals: {
+    disputedAmount: number;
+    missingAmount: number;
+    totalRequested: number;
+  };
+  disclaimer: string;
+}
+
+// Placeholders the generator fills; anything else is left for the user to edit
+export const SUPPLEMENT_LETTER_PLACEHOLDERS = [
+  "DATE",
+  "CLAIM_NUMBER",
+  "LOSS_DATE",
+  "CARRIER",
+  "POLICYHOLDER_NAME",
+  "PROPERTY_ADDRESS",
+  "ADJUSTER_NAME",
+  "YOUR_NAME",
+  "DISPUTED_COUNT",
+  "DISPUTED_TOTAL",
+  "MISSING_COUNT",
+  "MISSING_TOTAL",
+  "TOTAL_REQUESTED",
+];
+
+const BLOCK_MARKERS: Record<string, SupplementLetterBlock> = {
+  "[DISPUTED_ITEMS]": { type: "disputed_items" },
+  "[MISSING_ITEMS]": { type: "missing_items" },
+  "[PRICING_SOURCES]": { type: "pricing_sources" },
+};
+
+export const DEFAULT_SUPPLEMENT_TEMPLATES: Array<SupplementLetterTemplateContent & { name: string; description: string; isDefault: boolean }> = [
+  {
+    name: "Standard Supplement Request",
+    description: "Itemized request for under-priced and omitted line items",
+    isDefault: true,
+    subject: "Supplement Request - Claim [CLAIM_NUMBER]",
+    body: `Dear [ADJUSTER_NAME],
+
+I am writing regarding claim number [CLAIM_NUMBER] with [CARRIER] for the loss of [LOSS_DATE] at [PROPERTY_ADDRESS]. After reviewing the estimate against current fair market pricing for the area, I am requesting a supplement for the items below.
+
+The following [DISPUTED_COUNT] line items are priced below fair market value. Each row shows the quantity on your estimate, the unit price you allowed and the documented market price with its source:
+
+[DISPUTED_ITEMS]
+
+The following items are required to complete the repair but do not appear on the estimate:
+
+[MISSING_ITEMS]
+
+In total I am requesting an additional [TOTAL_REQUESTED]. Pricing was drawn from the sources listed below:
+
+[PRICING_SOURCES]
+
+Please review these items and issue a revised estimate, or let me know in writing which items you dispute and the basis for that decision. I am happy to schedule a re-inspection if that would help.
+
+Sincerely,
+
+[YOUR_NAME]
+[POLICYHOLDER_NAME]`,
+  },
+  {
+    name: "Re-inspection Request",
+    description: "Shorter letter asking for a re-inspection alongside the itemized differences",
+    isDefault: false,
+    subject: "Request for Re-inspection and Supplement - Claim [CLAIM_NUMBER]",
+    body: `Dear [ADJUSTER_NAME],
+
+I am requesting a re-inspection for claim number [CLAIM_NUMBER] (date of loss [LOSS_DATE]). The current [CARRIER] estimate is [TOTAL_REQUESTED] below fair market value for the documented scope.
+
+[DISPUTED_ITEMS]
+
+[MISSING_ITEMS]
+
+Please contact me to schedule a re-inspection so these items can be verified on site.
+
+Sincerely,
+
+[YOUR_NAME]`,
+  },
+];
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatMoney(amount: number): string {
+  return amount.toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
+
+function formatLetterDate(date: Date): string {
+  return date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+}
+
+function isBatchAuditResult(audit: ClaimAuditResult | BatchAuditResult): audit is BatchAuditResult {
+  return Array.isArray((audit as BatchAuditResult).results);
+}
+
+/**
+ * Replace [PLACEHOLDER] tokens; unknown or empty values keep their token
+ */
+export function fillPlaceholders(text: string, values: Record<string, string | undefined>): string {
+  return text.replace(/\[([A-Z_]+)\]/g, (token, key: string) => values[key] || token);
+}
+
+/**
+ * Cite the market price for a line; citations need the property ZIP code
+ */
+function citeLineItem(
+  description: string,
+  quantity: number,
+  zipCode: string | undefined,
+  options: { catalogCode?: string; category?: string; unit?: string } = {}
+): CitedPriceEstimate | null {
+  return zipCode ? generateCatalogCitedEstimate(description, quantity, zipCode, options) : null;
+}
+
+function collectFromClaimAudit(audit: ClaimAuditResult, zipCode?: string) {
+  const disputedItems: SupplementDisputedItem[] = [];
+  const citations: CitedPriceEstimate[] = [];
+
+  for (const item of audit.auditedItems) {
+    const carrierTotal = getPreTaxCost(item.original);
+    if (item.marketPrice <= carrierTotal) continue;
+
+    const quantity = item.original.quantity || 1;
+    const cited = citeLineItem(item.original.description, quantity, zipCode, {
+      catalogCode: item.catalogCode ?? item.original.catalogCode,
+      category: item.original.category,
+      unit: item.original.unit,
+    });
+    if (cited) citations.push(cited);
+
+    disputedItems.push({
+      description: item.original.description,
+      quantity,
+      unit: item.original.unit || "EA",
+      carrierUnitPrice: round(carrierTotal / quantity),
+      fmvUnitPrice: round(item.marketPrice / quantity),
+      carrierTotal: round(carrierTotal),
+      fmvTotal: round(item.marketPrice),
+      difference: round(item.marketPrice - carrierTotal),
+      citation: cited?.shortCitation ?? "MaxClaim regional market pricing",
+    });
+  }
+
+  // Structured scope gaps carry quantities and prices; older versions only report text
+  const scopeItems = audit.scopeDependencies?.items ?? [];
+  const missingItems: SupplementMissingItem[] = scopeItems.length > 0
+    ? scopeItems.map(item => ({
+        description: item.description,
+        quantity: item.quantity,
+        unit: item.unit,
+        estimatedCost: item.estimatedCost,
+        reason: item.rationale ?? `Required with ${item.triggeredBy.join(", ")}`,
+      }))
+    : audit.missingItems.map(description => ({ description, quantity: null, unit: null, estimatedCost: null }));
+
+  for (const upgrade of audit.codeUpgrades?.items ?? []) {
+    missingItems.push({
+      description: upgrade.upgradeDescription,
+      quantity: upgrade.quantity,
+      unit: upgrade.unit,
+      estimatedCost: upgrade.estimatedCost,
+      reason: `Code upgrade for "${upgrade.lineItem}" (${upgrade.citation})`,
+    });
+  }
+
+  // Labor and material shortfalls are already in the disputed line totals
+  for (const gap of audit.laborMaterial?.gaps ?? []) {
+    if (gap.kind !== "sales_tax" && gap.kind !== "labor_minimum") continue;
+    missingItems.push({
+      description: gap.kind === "sales_tax" ? `Sales tax on materials - ${gap.lineItem}` : gap.lineItem,
+      quantity: null,
+      unit: null,
+      estimatedCost: gap.shortfall,
+      reason: gap.detail,
+    });
+  }
+
+  return { disputedItems, missingItems, citations };
+}
+
+function collectFromBatchAudit(audit: BatchAuditResult, zipCode?: string) {
+  const disputedItems: SupplementDisputedItem[] = [];
+  const citations: CitedPriceEstimate[] = [];
+
+  for (const result of audit.results) {
+    if (result.status !== "LOW" || !result.marketPricing) continue;
+
+    const quantity = result.enteredQty || 1;
+    const fmvUnitPrice = result.marketPricing.fmvPrice;
+    const cited = citeLineItem(result.item, quantity, zipCode, { unit: result.unit });
+    if (cited) citations.push(cited);
+
+    disputedItems.push({
+      description: result.item,
+      quantity,
+      unit: result.unit || "EA",
+      carrierUnitPrice: round(result.enteredPrice),
+      fmvUnitPrice: round(fmvUnitPrice),
+      carrierTotal: round(result.enteredPrice * quantity),
+      fmvTotal: round(fmvUnitPrice * quantity),
+      difference: round((fmvUnitPrice - result.enteredPrice) * quantity),
+      citation: cited?.shortCitation ?? "MaxClaim regional market pricing",
+    });
+  }
+
+  // The price database audit has no scope analysis, so there are no missing items
+  return { disputedItems, missingItems: [] as SupplementMissingItem[], citations };
+}
+
+/**
+ * Build the letter model from an audit result and a template
+ */
+export function buildSupplementLetter(
+  input: SupplementLetterInput,
+  template: SupplementLetterTemplateContent = DEFAULT_SUPPLEMENT_TEMPLATES[0]
+): SupplementLetter {
+  const { disputedItems, missingItems, citations } = isBatchAuditResult(input.audit)
+    ? collectFromBatchAudit(input.audit, input.zipCode)
+    : collectFromClaimAudit(input.audit, input.zipCode);
+
+  disputedItems.sort((a, b) => b.difference - a.difference);
+
+  const disputedAmount = round(disputedItems.reduce((sum, item) => sum + item.difference, 0));
+  const missingAmount = round(missingItems.reduce((sum, item) => sum + (item.estimatedCost ?? 0), 0));
+  const totalRequested = round(disputedAmount + missingAmount);
+  const date = formatLetterDate(input.date ?? new Date());
+
+  const values: Record<string, string | undefined> = {
+    DATE: date,
+    CLAIM_NUMBER: input.claimNumber,
+    LOSS_DATE: input.lossDate,
+    CARRIER: input.carrier,
+    POLICYHOLDER_NAME: input.policyholderName,
+    PROPERTY_ADDRESS: input.propertyAddress,
+    ADJUSTER_NAME: input.adjusterName,
+    YOUR_NAME: input.senderName,
+    DISPUTED_COUNT: String(disputedItems.length),
+    DISPUTED_TOTAL: formatMoney(disputedAmount),
+    MISSING_COUNT: String(missingItems.length),
+    MISSING_TOTAL: formatMoney(missingAmount),
+    TOTAL_REQUESTED: formatMoney(totalRequested),
+  };
+
+  const blocks: SupplementLetterBlock[] = [];
+  for (const paragraph of template.body.replace(/\r\n/g, "\n").split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+    blocks.push(BLOCK_MARKERS[trimmed] ?? { type: "paragraph", text: fillPlaceholders(trimmed, values) });
+  }
+
+  // Templates that leave out the tables still get the itemized request
+  if (!blocks.some(block => block.type === "disputed_items")) blocks.push({ type: "disputed_items" });
+  if (!blocks.some(block => block.type === "missing_items")) blocks.push({ type: "missing_items" });
+
+  return {
+    subject: fillPlaceholders(template.subject, values),
+    date,
+    claimNumber: input.claimNumber,
+    lossDate: input.lossDate,
+    carrier: input.carrier,
+    blocks,
+    disputedItems,
+    missingItems,
+    sources: aggregateSources(citations),
+    totals: { disputedAmount, missingAmount, totalRequested },
+    disclaimer: generateDisclaimer(),
+  };
+}
+
+// ===== Shared table layout =====
+
+function disputedItemsTable(letter: SupplementLetter): PdfTable | null {
+  if (letter.disputedItems.length === 0) return null;
+  return {
+    headers: ["Line item", "Qty", "Carrier price", "FMV price", "Difference"],
+    widths: [0.4, 0.12, 0.16, 0.16, 0.16],
+    align: ["left", "right", "right", "right", "right"],
+    rows: letter.disputedItems.map(item => [
+      item.description,
+      `${item.quantity} ${item.unit}`,
+      `${formatMoney(item.carrierUnitPrice)}/${item.unit}`,
+      `${formatMoney(item.fmvUnitPrice)}/${item.unit}`,
+      formatMoney(item.difference),
+    ]),
+    notes: letter.disputedItems.map(item => item.citation),
+    total: ["Total", "", "", "", formatMoney(letter.totals.disputedAmount)],
+  };
+}
+
+function missingItemsTable(letter: SupplementLetter): PdfTable | null {
+  if (letter.missingItems.length === 0) return null;
+  return {
+    headers: ["Missing item", "Qty", "Estimated cost"],
+    widths: [0.62, 0.18, 0.2],
+    align: ["left", "right", "right"],
+    rows: letter.missingItems.map(item => [
+      item.description,
+      item.quantity !== null ? `${item.quantity} ${item.unit ?? ""}`.trim() : "-",
+      item.estimatedCost !== null ? formatMoney(item.estimatedCost) : "To be priced",
+    ]),
+    notes: letter.missingItems.map(item => item.reason),
+    total: letter.totals.missingAmount > 0 ? ["Total", "", formatMoney(letter.totals.missingAmount)] : undefined,
+  };
+}
+
+function sourceLines(letter: SupplementLetter): string[] {
+  return letter.sources.map(source => source.url ? `${source.citation} (${source.url})` : source.citation);
+}
+
+// ===== DOCX =====
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function docxRun(text: string, options: { bold?: boolean; size?: number } = {}): string {
+  const props = [
+    options.bold ? "<w:b/>" : "",
+    options.size ? `<w:sz w:val="${options.size}"/>` : "",
+  ].join("");
+  // Line breaks inside a template paragraph become soft breaks
+  const content = text.split("\n")
+    .map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join("<w:br/>");
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}${content}</w:r>`;
+}
+
+function docxParagraph(text: string, options: { bold?: boolean; size?: number; align?: "left" | "right" } = {}): string {
+  const align = options.align === "right" ? `<w:pPr><w:jc w:val="right"/></w:pPr>` : "";
+  return `<w:p>${align}${docxRun(text, options)}</w:p>`;
+}
+
+function docxTable(table: PdfTable): string {
+  const textWidth = 9360; // 6.5in in twentieths of a point
+  const grid = table.widths.map(w => `<w:gridCol w:w="${Math.round(w * textWidth)}"/>`).join("");
+  const border = `w:val="single" w:sz="4" w:space="0" w:color="999999"`;
+
+  const cell = (text: string, index: number, options: { bold?: boolean; note?: string } = {}) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${Math.round(table.widths[index] * textWidth)}" w:type="dxa"/></w:tcPr>` +
+    docxParagraph(text, { bold: options.bold, size: 18, align: table.align[index] }) +
+    (options.note ? docxParagraph(options.note, { size: 14 }) : "") +
+    `</w:tc>`;
+
+  const row = (cells: string[], options: { bold?: boolean; note?: string } = {}) =>
+    `<w:tr>${cells.map((text, i) => cell(text, i, { bold: options.bold, note: i === 0 ? options.note : undefined })).join("")}</w:tr>`;
+
+  return `<w:tbl><w:tblPr><w:tblW w:w="${textWidth}" w:type="dxa"/>` +
+    `<w:tblBorders><w:top ${border}/><w:left ${border}/><w:bottom ${border}/><w:right ${border}/>` +
+    `<w:insideH ${border}/><w:insideV ${border}/></w:tblBorders></w:tblPr>` +
+    `<w:tblGrid>${grid}</w:tblGrid>` +
+    row(table.headers, { bold: true }) +
+    table.rows.map((cells, i) => row(cells, { note: table.notes?.[i] })).join("") +
+    (table.total ? row(table.total, { bold: true }) : "") +
+    `</w:tbl>` +
+    `<w:p/>`;
+}
+
+/**
+ * Render the letter as an editable Word document
+ */
+export async function renderSupplementLetterDocx(letter: SupplementLetter): Promise<Buffer> {
+  const body: string[] = [
+    docxParagraph(letter.date),
+    docxParagraph(`RE: ${letter.subject}`, { bold: true }),
+    docxParagraph(`Claim number: ${letter.claimNumber}\nDate of loss: ${letter.lossDate}\nCarrier: ${letter.carrier}`),
+  ];
+
+  for (const block of letter.blocks) {
+    if (block.type === "paragraph") {
+      body.push(docxParagraph(block.text));
+      continue;
+    }
+    if (block.type === "pricing_sources") {
+      body.push(...sourceLines(letter).map(line => docxParagraph(`- ${line}`, { size: 18 })));
+      continue;
+    }
+    const table = block.type === "disputed_items" ? disputedItemsTable(letter) : missingItemsTable(letter);
+    body.push(table ? docxTable(table) : docxParagraph(block.type === "disputed_items" ? "No under-priced items." : "No missing items."));
+  }
+
+  body.push(docxParagraph(letter.disclaimer, { size: 14 }));
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>` +
+    body.join("") +
+    `<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>` +
+    `<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>` +
+    `</w:body></w:document>`;
+
+  const zip = new JSZip();
+  zip.file("[Content_Types].xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+    `<Default Extension="xml" ContentType="application/xml"/>` +
+    `<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>` +
+    `</Types>`);
+  zip.file("_rels/.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>` +
+    `</Relationships>`);
+  zip.file("word/document.xml", document);
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+// ===== PDF =====
+
+/**
+ * Render the letter as a PDF ready to send
+ */
+export function renderSupplementLetterPdf(letter: SupplementLetter): Buffer {
+  const pdf = createPdfWriter();
+
+  pdf.text(letter.date);
+  pdf.text(`RE: ${letter.subject}`, { bold: true, gapAfter: 2 });
+  pdf.text(`Claim number: ${letter.claimNumber}\nDate of loss: ${letter.lossDate}\nCarrier: ${letter.carrier}`);
+
+  for (const block of letter.blocks) {
+    if (block.type === "paragraph") {
+      pdf.text(block.text);
+      continue;
+    }
+    if (block.type === "pricing_sources") {
+      for (const line of sourceLines(letter)) pdf.text(`- ${line}`, { size: 9, gapAfter: 2 });
+      pdf.y += 8;
+      continue;
+    }
+    const table = block.type === "disputed_items" ? disputedItemsTable(letter) : missingItemsTable(letter);
+    if (table) {
+      pdf.table(table);
+    } else {
+      pdf.text(block.type === "disputed_items" ? "No under-priced items." : "No missing items.");
+    }
+  }
+
+  pdf.text(letter.disclaimer, { size: 7 });
+
+  return pdf.toBuffer();
+}
+
+/**
+ * Build and render a supplement letter in the requested format
+ */
+export async function generateSupplementLetter(
+  input: SupplementLetterInput,
+  format: SupplementLetterFormat,
+  template?: SupplementLetterTemplateContent
+): Promise<{ letter: SupplementLetter; buffer: Buffer; contentType: string; fileName: string }> {
+  const letter = buildSupplementLetter(input, template);
+  const safeClaimNumber = input.claimNumber.replace(/[^A-Za-z0-9-]+/g, "_");
+
+  if (format === "docx") {
+    return {
+      letter,
+      buffer: await renderSupplementLetterDocx(letter),
+      contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      fileName: `supplement-request-${safeClaimNumber}.docx`,
+    };
+  }
+
+  return {
+    letter,
+    buffer: renderSupplementLetterPdf(letter),
+    contentType: "application/pdf",
+    fileName: `supplement-request-${safeClaimNumber}.pdf`,
+  };
+}
@@ -5,6 +5,14 @@ import {
   type UpsertReplitUser,
   type UserClaim,
   type InsertUserClaim,
+  type UserClaimStatusEvent,
+  type InsertUserClaimStatusEvent,
+  type ClaimDeadlineReminder,
+  type InsertClaimDeadlineReminder,
+  type ClaimShareLink,
+  type InsertClaimShareLink,
+  type ClaimAuditSnapshot,
+  type InsertClaimAuditSnapshot,
   type Session,
   type InsertSession,
   type SessionEvent,
@@ -13,11 +21,28 @@ import {
   type InsertClaim,
   type ClaimLineItem,
   type InsertClaimLineItem,
+  type ClaimDocument,
+  type InsertClaimDocument,
+  type ClaimDocumentLineItem,
+  type InsertClaimDocumentLineItem,
+  type ClaimPhoto,
+  type InsertClaimPhoto,
+  type ClaimContentsItem,
+  type InsertClaimContentsItem,
+  type ClaimAleProfile,
+  type InsertClaimAleProfile,
+  type ClaimAleExpense,
+  type InsertClaimAleExpense,
   type Source,
   type SourceVersion,
   type InsertSessionSourceUsage,
   type PricingDataPoint,
   type InsertPricingDataPoint,
+  type PricingDataStatus,
+  type PriceHistory,
+  type InsertPriceHistory,
+  type CatastropheEvent,
+  type InsertCatastropheEvent,
   type Partner,
   type InsertPartner,
   type PartnershipLOI,
@@ -52,6 +77,10 @@ import {
   type InsertProOrganization,
   type EmailTemplate,
   type InsertEmailTemplate,
+  type SupplementLetterTemplate,
+  type InsertSupplementLetterTemplate,
+  type ScopeDependencyRule,
+  type InsertScopeDependencyRule,
   type BatchJob,
   type InsertBatchJob,
   type PasswordResetToken,
@@ -67,14 +96,26 @@ import {
   users,
   replitUsers,
   userClaims,
+  userClaimStatusEvents,
+  claimDeadlineReminders,
+  claimShareLinks,
+  claimAuditSnapshots,
   sessions,
   sessionEvents,
   claims,
   claimLineItems,
+  claimDocuments,
+  claimDocumentLineItems,
+  claimPhotos,
+  claimContentsItems,
+  claimAleProfiles,
+  claimAleExpenses,
   sources,
   sourceVersions,
   sessionSourceUsage,
   pricingDataPoints,
+  priceHistory,
+  catastropheEvents,
   partners,
   partnershipLOIs,
   partnerLeads,
@@ -92,6 +133,8 @@ import {
   adImpressions,
   proOrganizations,
   emailTemplates,
+  supplementLetterTemplates,
+  scopeDependencyRules,
   batchJobs,
   passwordResetTokens,
   emailVerificationTokens,
@@ -136,6 +179,27 @@ export interface IStorage {
   getUserClaims(userId: string, limit?: number): Promise<Array<UserClaim & { claim: Claim }>>;
   getUserClaim(id: string): Promise<UserClaim | undefined>;
   updateUserClaimReportUrl(id: string, reportUrl: string): Promise<void>;
+
+  // Claim lifecycle - status history, deadlines and reminders
+  updateUserClaimLifecycle(id: string, data: Partial<Pick<UserClaim, "lifecycleStage" | "lossDate" | "lossState" | "carrier">>): Promise<UserClaim | undefined>;
+  getTrackedUserClaims(): Promise<Array<UserClaim & { email: string | null }>>;
+  createUserClaimStatusEvent(data: InsertUserClaimStatusEvent): Promise<UserClaimStatusEvent>;
+  getUserClaimStatusEvents(userClaimId: string): Promise<UserClaimStatusEvent[]>;
+  createClaimDeadlineReminder(data: InsertClaimDeadlineReminder): Promise<ClaimDeadlineReminder>;
+  getClaimDeadlineReminders(userClaimId: string): Promise<ClaimDeadlineReminder[]>;
+
+  // Claim share links - expiring read-only report links
+  createClaimShareLink(data: InsertClaimShareLink): Promise<ClaimShareLink>;
+  getClaimShareLink(id: string): Promise<ClaimShareLink | undefined>;
+  getClaimShareLinks(userClaimId: string): Promise<ClaimShareLink[]>;
+  revokeClaimShareLink(id: string): Promise<ClaimShareLink | undefined>;
+  recordClaimShareLinkView(id: string): Promise<void>;
+
+  // Claim audit snapshots - versioned re-audits of a saved claim
+  createClaimAuditSnapshot(data: InsertClaimAuditSnapshot): Promise<ClaimAuditSnapshot>;
+  appendClaimAuditSnapshot(data: Omit<InsertClaimAuditSnapshot, "version">): Promise<ClaimAuditSnapshot>;
+  getClaimAuditSnapshots(userClaimId: string): Promise<ClaimAuditSnapshot[]>;
+  getClaimAuditSnapshot(userClaimId: string, version: number): Promise<ClaimAuditSnapshot | undefined>;
   
   // Session management
   createSession(data: InsertSession): Promise<Session>;
@@ -145,13 +209,40 @@ export interface IStorage {
   // Session events (tracking user interactions)
   logEvent(data: InsertSessionEvent): Promise<SessionEvent>;
   getSessionEvents(sessionId: string): Promise<SessionEvent[]>;
+  getSessionEventByClientId(clientEventId: string): Promise<SessionEvent | undefined>;
   
   // Claims management
   createClaim(data: InsertClaim): Promise<Claim>;
   getClaim(id: string): Promise<Claim | undefined>;
+  getClaimByClientSubmissionId(clientSubmissionId: string): Promise<Claim | undefined>;
   completeClaim(id: string): Promise<void>;
   addClaimLineItem(data: InsertClaimLineItem): Promise<ClaimLineItem>;
   getClaimLineItems(claimId: string): Promise<ClaimLineItem[]>;
+
+  // Claim documents (carrier estimate, contractor bid, supplements)
+  createClaimDocument(data: InsertClaimDocument, lines: Omit<InsertClaimDocumentLineItem, "documentId">[]): Promise<ClaimDocument>;
+  getClaimDocuments(claimId: string): Promise<ClaimDocument[]>;
+  getClaimDocumentLineItems(documentIds: string[]): Promise<ClaimDocumentLineItem[]>;
+  deleteClaimDocument(claimId: string, id: string): Promise<boolean>;
+
+  // Claim photos - damage photos with EXIF metadata and line item / room tags
+  createClaimPhoto(data: InsertClaimPhoto): Promise<ClaimPhoto>;
+  getClaimPhotos(claimId: string): Promise<ClaimPhoto[]>;
+  updateClaimPhoto(claimId: string, id: string, data: Partial<Pick<InsertClaimPhoto, "room" | "caption" | "lineItemIds">>): Promise<ClaimPhoto | undefined>;
+  deleteClaimPhoto(claimId: string, id: string): Promise<ClaimPhoto | undefined>;
+
+  // Contents inventory (Coverage C)
+  createClaimContentsItems(items: InsertClaimContentsItem[]): Promise<ClaimContentsItem[]>;
+  getClaimContentsItems(claimId: string): Promise<ClaimContentsItem[]>;
+  updateClaimContentsItem(claimId: string, id: string, data: Partial<Omit<InsertClaimContentsItem, "claimId">>): Promise<ClaimContentsItem | undefined>;
+  deleteClaimContentsItem(claimId: string, id: string): Promise<boolean>;
+
+  // Additional living expenses (Coverage D)
+  getClaimAleProfile(claimId: string): Promise<ClaimAleProfile | undefined>;
+  upsertClaimAleProfile(data: InsertClaimAleProfile): Promise<ClaimAleProfile>;
+  createClaimAleExpense(data: InsertClaimAleExpense): Promise<ClaimAleExpense>;
+  getClaimAleExpenses(claimId: string): Promise<ClaimAleExpense[]>;
+  deleteClaimAleExpense(claimId: string, id: string): Promise<boolean>;
   
   // Attribution/Sources
   getSources(): Promise<Array<Source & { versions: SourceVersion[] }>>;
@@ -166,6 +257,27 @@ export interface IStorage {
     last: number;
     count: number;
   }>;
+  getPricingSamples(category: string, unit: string, since: Date): Promise<Array<{ unitPrice: number; zipPrefix: string | null; createdAt: Date }>>;
+  getSessionPricingHistory(sessionId: string, since: Date): Promise<Array<{ category: string; unit: string; unitPrice: number; createdAt: Date }>>;
+  setPricingDataPointModeration(id: string, status: PricingDataStatus, flags: Array<{ check: string; message: string }>): Promise<void>;
+  reviewPricingDataPoints(ids: string[], status: "accepted" | "rejected"): Promise<number>;
+  getPricingReviewQueue(filters?: { status?: PricingDataStatus; source?: string; sessionId?: string; limit?: number }): Promise<{
+    points: PricingDataPoint[];
+    counts: Record<PricingDataStatus, number>;
+  }>;
+  purgePricingDataPoints(filters: { source?: string; sessionId?: string }): Promise<number>;
+
+  // Price History - Monthly item price snapshots
+  upsertPriceHistory(rows: InsertPriceHistory[]): Promise<number>;
+  getPriceHistory(itemKeys: string[], regions: string[], sincePeriod: string): Promise<PriceHistory[]>;
+
+  // Catastrophe Events - Demand surge pricing
+  createCatastropheEvent(data: InsertCatastropheEvent): Promise<CatastropheEvent>;
+  getCatastropheEvents(filters?: { stateCode?: string; isActive?: boolean }): Promise<CatastropheEvent[]>;
+  getCatastropheEvent(id: string): Promise<CatastropheEvent | undefined>;
+  updateCatastropheEvent(id: string, data: Partial<InsertCatastropheEvent>): Promise<void>;
+  deleteCatastropheEvent(id: string): Promise<void>;
+  importCatastropheEvents(events: InsertCatastropheEvent[]): Promise<number>;
   
   // Claim analytics (anonymous - no PII) - legacy compatibility
   recordClaimAnalysis(data: {
@@ -285,10 +397,25 @@ export interface IStorage {
   updateEmailTemplate(id: string, data: Partial<InsertEmailTemplate>): Promise<void>;
   deleteEmailTemplate(id: string): Promise<void>;
   
+  // Supplement Letter Templates
+  createSupplementLetterTemplate(data: InsertSupplementLetterTemplate): Promise<SupplementLetterTemplate>;
+  getSupplementLetterTemplates(filters?: { isActive?: boolean }): Promise<SupplementLetterTemplate[]>;
+  getSupplementLetterTemplate(id: string): Promise<SupplementLetterTemplate | undefined>;
+  updateSupplementLetterTemplate(id: string, data: Partial<InsertSupplementLetterTemplate>): Promise<void>;
+  deleteSupplementLetterTemplate(id: string): Promise<void>;
+  
+  // Scope Dependency Rules
+  createScopeDependencyRule(data: InsertScopeDependencyRule): Promise<ScopeDependencyRule>;
+  getScopeDependencyRules(filters?: { trade?: string; isActive?: boolean }): Promise<ScopeDependencyRule[]>;
+  getScopeDependencyRule(id: string): Promise<ScopeDependencyRule | undefined>;
+  updateScopeDependencyRule(id: string, data: Partial<InsertScopeDependencyRule>): Promise<void>;
+  deleteScopeDependencyRule(id: string): Promise<void>;
+  
   // Batch Jobs - Async processing queue
   createBatchJob(data: InsertBatchJob): Promise<BatchJob>;
   getBatchJob(id: string): Promise<BatchJob | undefined>;
   updateBatchJobStatus(id: string, status: 'queued' | 'processing' | 'completed' | 'failed', results?: any, error?: string): Promise<void>;
+  updateBatchJobProgress(id: string, processedCount: number): Promise<void>;
   getRecentBatchJobs(limit?: number): Promise<BatchJob[]>;
   
   // ============================================
@@ -348,6 +475,10 @@ export interface IStorage {
   getPartnerAnnualEarnings(partnerId: string, year: number): Promise<number>;
 }
 
+// Postgres unique_violation, raised when concurrent re-audits race for the same snapshot version
+const UNIQUE_VIOLATION = "23505";
+const SNAPSHOT_VERSION_ATTEMPTS = 5;
+
 // Reference: javascript_database integration blueprint for PostgreSQL storage implementation
 export class DatabaseStorage implements IStorage {
   // User management
@@ -421,6 +552,138 @@ export class DatabaseStorage implements IStorage {
       .where(eq(userClaims.id, id));
   }
 
+  // Claim lifecycle - status history, deadlines and reminders
+  async updateUserClaimLifecycle(
+    id: string,
+    data: Partial<Pick<UserClaim, "lifecycleStage" | "lossDate" | "lossState" | "carrier">>
+  ): Promise<UserClaim | undefined> {
+    const [userClaim] = await db
+      .update(userClaims)
+      .set(data)
+      .where(eq(userClaims.id, id))
+      .returning();
+    return userClaim || undefined;
+  }
+
+  async getTrackedUserClaims(): Promise<Array<UserClaim & { email: string | null }>> {
+    const results = await db
+      .select()
+      .from(userClaims)
+      .innerJoin(replitUsers, eq(userClaims.userId, replitUsers.id))
+      .where(isNotNull(userClaims.lifecycleStage));
+
+    return results.map(r => ({
+      ...r.user_claims,
+      email: r.replit_users.email,
+    }));
+  }
+
+  async createUserClaimStatusEvent(data: InsertUserClaimStatusEvent): Promise<UserClaimStatusEvent> {
+    const [event] = await db.insert(userClaimStatusEvents).values(data).returning();
+    return event;
+  }
+
+  async getUserClaimStatusEvents(userClaimId: string): Promise<UserClaimStatusEvent[]> {
+    return db
+      .select()
+      .from(userClaimStatusEvents)
+      .where(eq(userClaimStatusEvents.userClaimId, userClaimId))
+      .orderBy(userClaimStatusEvents.occurredAt, userClaimStatusEvents.createdAt);
+  }
+
+  async createClaimDeadlineReminder(data: InsertClaimDeadlineReminder): Promise<ClaimDeadlineReminder> {
+    const [reminder] = await db.insert(claimDeadlineReminders).values(data).returning();
+    return reminder;
+  }
+
+  async getClaimDeadlineReminders(userClaimId: string): Promise<ClaimDeadlineReminder[]> {
+    return db
+      .select()
+      .from(claimDeadlineReminders)
+      .where(eq(claimDeadlineReminders.userClaimId, userClaimId));
+  }
+
+  // Claim share links - expiring read-only report links
+  async createClaimShareLink(data: InsertClaimShareLink): Promise<ClaimShareLink> {
+    const [link] = await db.insert(claimShareLinks).values(data).returning();
+    return link;
+  }
+
+  async getClaimShareLink(id: string): Promise<ClaimShareLink | undefined> {
+    const [link] = await db.select().from(claimShareLinks).where(eq(claimShareLinks.id, id));
+    return link || undefined;
+  }
+
+  async getClaimShareLinks(userClaimId: string): Promise<ClaimShareLink[]> {
+    return db
+      .select()
+      .from(claimShareLinks)
+      .where(eq(claimShareLinks.userClaimId, userClaimId))
+      .orderBy(desc(claimShareLinks.createdAt));
+  }
+
+  async revokeClaimShareLink(id: string): Promise<ClaimShareLink | undefined> {
+    const [link] = await db
+      .update(claimShareLinks)
+      .set({ revokedAt: new Date() })
+      .where(eq(claimShareLinks.id, id))
+      .returning();
+    return link || undefined;
+  }
+
+  async recordClaimShareLinkView(id: string): Promise<void> {
+    await db
+      .update(claimShareLinks)
+      .set({ viewCount: sql`${claimShareLinks.viewCount} + 1`, lastViewedAt: new Date() })
+      .where(eq(claimShareLinks.id, id));
+  }
+
+  // Claim audit snapshots - versioned re-audits of a saved claim
+  // A version that already exists (e.g. a concurrent request stored the original) is returned as stored
+  async createClaimAuditSnapshot(data: InsertClaimAuditSnapshot): Promise<ClaimAuditSnapshot> {
+    const [snapshot] = await db
+      .insert(claimAuditSnapshots)
+      .values(data)
+      .onConflictDoNothing({ target: [claimAuditSnapshots.userClaimId, claimAuditSnapshots.version] })
+      .returning();
+    return snapshot ?? (await this.getClaimAuditSnapshot(data.userClaimId, data.version))!;
+  }
+
+  // The next version is assigned inside the insert; a concurrent re-audit that takes it first
+  // trips the unique (claim, version) index and the insert is retried
+  async appendClaimAuditSnapshot(data: Omit<InsertClaimAuditSnapshot, "version">): Promise<ClaimAuditSnapshot> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const [snapshot] = await db
+          .insert(claimAuditSnapshots)
+          .values({
+            ...data,
+            version: sql`(select coalesce(max(${claimAuditSnapshots.version}), 0) + 1 from ${claimAuditSnapshots} where ${claimAuditSnapshots.userClaimId} = ${data.userClaimId})`,
+          })
+          .returning();
+        return snapshot;
+      } catch (error: any) {
+        if (error?.code !== UNIQUE_VIOLATION || attempt >= SNAPSHOT_VERSION_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  async getClaimAuditSnapshots(userClaimId: string): Promise<ClaimAuditSnapshot[]> {
+    return db
+      .select()
+      .from(claimAuditSnapshots)
+      .where(eq(claimAuditSnapshots.userClaimId, userClaimId))
+      .orderBy(claimAuditSnapshots.version);
+  }
+
+  async getClaimAuditSnapshot(userClaimId: string, version: number): Promise<ClaimAuditSnapshot | undefined> {
+    const [snapshot] = await db
+      .select()
+      .from(claimAuditSnapshots)
+      .where(and(eq(claimAuditSnapshots.userClaimId, userClaimId), eq(claimAuditSnapshots.version, version)));
+    return snapshot || undefined;
+  }
+
   // Session management
   async createSession(data: InsertSession): Promise<Session> {
     const zipPrefix = data.zipCode ? data.zipCode.substring(0, 3) : undefined;
@@ -456,6 +719,11 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(sessionEvents.occurredAt));
   }
 
+  async getSessionEventByClientId(clientEventId: string): Promise<SessionEvent | undefined> {
+    const [event] = await db.select().from(sessionEvents).where(eq(sessionEvents.clientEventId, clientEventId));
+    return event || undefined;
+  }
+
   // Claims management
   async createClaim(data: InsertClaim): Promise<Claim> {
     const [claim] = await db.insert(claims).values(data).returning();
@@ -467,6 +735,11 @@ export class DatabaseStorage implements IStorage {
     return claim || undefined;
   }
 
+  async getClaimByClientSubmissionId(clientSubmissionId: string): Promise<Claim | undefined> {
+    const [claim] = await db.select().from(claims).where(eq(claims.clientSubmissionId, clientSubmissionId));
+    return claim || undefined;
+  }
+
   async completeClaim(id: string): Promise<void> {
     await db
       .update(claims)
@@ -489,6 +762,155 @@ export class DatabaseStorage implements IStorage {
       .where(eq(claimLineItems.claimId, claimId));
   }
 
+  // Claim documents
+  async createClaimDocument(
+    data: InsertClaimDocument,
+    lines: Omit<InsertClaimDocumentLineItem, "documentId">[]
+  ): Promise<ClaimDocument> {
+    const [document] = await db.insert(claimDocuments).values(data).returning();
+    if (lines.length > 0) {
+      await db.insert(claimDocumentLineItems).values(
+        lines.map(line => ({ ...line, documentId: document.id }))
+      );
+    }
+    return document;
+  }
+
+  async getClaimDocuments(claimId: string): Promise<ClaimDocument[]> {
+    return await db
+      .select()
+      .from(claimDocuments)
+      .where(eq(claimDocuments.claimId, claimId))
+      .orderBy(claimDocuments.createdAt);
+  }
+
+  async getClaimDocumentLineItems(documentIds: string[]): Promise<ClaimDocumentLineItem[]> {
+    if (documentIds.length === 0) return [];
+    return await db
+      .select()
+      .from(claimDocumentLineItems)
+      .where(inArray(claimDocumentLineItems.documentId, documentIds))
+      .orderBy(claimDocumentLineItems.lineNumber);
+  }
+
+  async deleteClaimDocument(claimId: string, id: string): Promise<boolean> {
+    const result = await db
+      .delete(claimDocuments)
+      .where(and(eq(claimDocuments.id, id), eq(claimDocuments.claimId, claimId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Claim photos
+  async createClaimPhoto(data: InsertClaimPhoto): Promise<ClaimPhoto> {
+    const [photo] = await db.insert(claimPhotos).values(data).returning();
+    return photo;
+  }
+
+  async getClaimPhotos(claimId: string): Promise<ClaimPhoto[]> {
+    return db
+      .select()
+      .from(claimPhotos)
+      .where(eq(claimPhotos.claimId, claimId))
+      .orderBy(claimPhotos.createdAt);
+  }
+
+  async updateClaimPhoto(
+    claimId: string,
+    id: string,
+    data: Partial<Pick<InsertClaimPhoto, "room" | "caption" | "lineItemIds">>
+  ): Promise<ClaimPhoto | undefined> {
+    const [photo] = await db
+      .update(claimPhotos)
+      .set(data)
+      .where(and(eq(claimPhotos.id, id), eq(claimPhotos.claimId, claimId)))
+      .returning();
+    return photo || undefined;
+  }
+
+  async deleteClaimPhoto(claimId: string, id: string): Promise<ClaimPhoto | undefined> {
+    const [photo] = await db
+      .delete(claimPhotos)
+      .where(and(eq(claimPhotos.id, id), eq(claimPhotos.claimId, claimId)))
+      .returning();
+    return photo || undefined;
+  }
+
+  // Contents inventory
+  async createClaimContentsItems(items: InsertClaimContentsItem[]): Promise<ClaimContentsItem[]> {
+    if (items.length === 0) return [];
+    return db.insert(claimContentsItems).values(items).returning();
+  }
+
+  async getClaimContentsItems(claimId: string): Promise<ClaimContentsItem[]> {
+    return db
+      .select()
+      .from(claimContentsItems)
+      .where(eq(claimContentsItems.claimId, claimId))
+      .orderBy(claimContentsItems.createdAt);
+  }
+
+  async updateClaimContentsItem(
+    claimId: string,
+    id: string,
+    data: Partial<Omit<InsertClaimContentsItem, "claimId">>
+  ): Promise<ClaimContentsItem | undefined> {
+    const [item] = await db
+      .update(claimContentsItems)
+      .set(data)
+      .where(and(eq(claimContentsItems.id, id), eq(claimContentsItems.claimId, claimId)))
+      .returning();
+    return item || undefined;
+  }
+
+  async deleteClaimContentsItem(claimId: string, id: string): Promise<boolean> {
+    const result = await db
+      .delete(claimContentsItems)
+      .where(and(eq(claimContentsItems.id, id), eq(claimContentsItems.claimId, claimId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Additional living expenses
+  async getClaimAleProfile(claimId: string): Promise<ClaimAleProfile | undefined> {
+    const [profile] = await db.select().from(claimAleProfiles).where(eq(claimAleProfiles.claimId, claimId));
+    return profile || undefined;
+  }
+
+  async upsertClaimAleProfile(data: InsertClaimAleProfile): Promise<ClaimAleProfile> {
+    const { claimId, ...details } = data;
+    const [profile] = await db
+      .insert(claimAleProfiles)
+      .values(data)
+      .onConflictDoUpdate({
+        target: claimAleProfiles.claimId,
+        set: details,
+      })
+      .returning();
+    return profile;
+  }
+
+  async createClaimAleExpense(data: InsertClaimAleExpense): Promise<ClaimAleExpense> {
+    const [expense] = await db.insert(claimAleExpenses).values(data).returning();
+    return expense;
+  }
+
+  async getClaimAleExpenses(claimId: string): Promise<ClaimAleExpense[]> {
+    return db
+      .select()
+      .from(claimAleExpenses)
+      .where(eq(claimAleExpenses.claimId, claimId))
+      .orderBy(claimAleExpenses.expenseDate, claimAleExpenses.createdAt);
+  }
+
+  async deleteClaimAleExpense(claimId: string, id: string): Promise<boolean> {
+    const result = await db
+      .delete(claimAleExpenses)
+      .where(and(eq(claimAleExpenses.id, id), eq(claimAleExpenses.claimId, claimId)))
+      .returning();
+    return result.length > 0;
+  }
+
   // Attribution/Sources
   async getSources(): Promise<Array<Source & { versions: SourceVersion[] }>> {
     const allSources = await db.select().from(sources);
@@ -511,7 +933,8 @@ export class DatabaseStorage implements IStorage {
   // Pricing Data Points - Track user inputs for continuous improvement
   async addPricingDataPoint(data: InsertPricingDataPoint): Promise<PricingDataPoint> {
     const zipPrefix = data.zipCode ? data.zipCode.substring(0, 3) : undefined;
-    const dataPoint = { ...data, zipPrefix };
+    // Held out of market prices until moderation accepts it
+    const dataPoint = { ...data, zipPrefix, status: "pending" as const };
     const [point] = await db.insert(pricingDataPoints).values(dataPoint).returning();
     return point;
   }
@@ -526,6 +949,7 @@ export class DatabaseStorage implements IStorage {
     const conditions = [
       eq(pricingDataPoints.category, category),
       eq(pricingDataPoints.unit, unit as any),
+      eq(pricingDataPoints.status, "accepted"),
     ];
     
     if (zipPrefix) {
@@ -558,6 +982,212 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // Per-unit FMV observations for the pricing statistics engine, newest first
+  async getPricingSamples(category: string, unit: string, since: Date): Promise<Array<{
+    unitPrice: number;
+    zipPrefix: string | null;
+    createdAt: Date;
+  }>> {
+    return db
+      .select({
+        unitPrice: sql<number>`(${pricingDataPoints.fmvPrice} / ${pricingDataPoints.quantity})::float`,
+        zipPrefix: pricingDataPoints.zipPrefix,
+        createdAt: pricingDataPoints.createdAt,
+      })
+      .from(pricingDataPoints)
+      .where(and(
+        eq(pricingDataPoints.category, category),
+        eq(pricingDataPoints.unit, unit as any),
+        eq(pricingDataPoints.status, "accepted"),
+        gte(pricingDataPoints.createdAt, since),
+        sql`${pricingDataPoints.quantity} > 0`,
+      ))
+      .orderBy(desc(pricingDataPoints.createdAt))
+      .limit(5000);
+  }
+
+  // Points a session already submitted, for duplicate and burst checks
+  async getSessionPricingHistory(sessionId: string, since: Date): Promise<Array<{
+    category: string;
+    unit: string;
+    unitPrice: number;
+    createdAt: Date;
+  }>> {
+    return db
+      .select({
+        category: pricingDataPoints.category,
+        unit: pricingDataPoints.unit,
+        unitPrice: sql<number>`(${pricingDataPoints.fmvPrice} / nullif(${pricingDataPoints.quantity}, 0))::float`,
+        createdAt: pricingDataPoints.createdAt,
+      })
+      .from(pricingDataPoints)
+      .where(and(
+        eq(pricingDataPoints.sessionId, sessionId),
+        gte(pricingDataPoints.createdAt, since),
+      ))
+      .orderBy(desc(pricingDataPoints.createdAt))
+      .limit(1000);
+  }
+
+  async setPricingDataPointModeration(
+    id: string,
+    status: PricingDataStatus,
+    flags: Array<{ check: string; message: string }>
+  ): Promise<void> {
+    await db
+      .update(pricingDataPoints)
+      .set({ status, moderationFlags: flags.length > 0 ? flags : null })
+      .where(eq(pricingDataPoints.id, id));
+  }
+
+  // Admin decision on held or pending points; returns the number updated
+  async reviewPricingDataPoints(ids: string[], status: "accepted" | "rejected"): Promise<number> {
+    if (ids.length === 0) return 0;
+    const updated = await db
+      .update(pricingDataPoints)
+      .set({ status, reviewedAt: new Date() })
+      .where(inArray(pricingDataPoints.id, ids))
+      .returning({ id: pricingDataPoints.id });
+    return updated.length;
+  }
+
+  async getPricingReviewQueue(filters: {
+    status?: PricingDataStatus;
+    source?: string;
+    sessionId?: string;
+    limit?: number;
+  } = {}): Promise<{
+    points: PricingDataPoint[];
+    counts: Record<PricingDataStatus, number>;
+  }> {
+    const { status = "held", source, sessionId, limit = 200 } = filters;
+    const scope = [];
+    if (source) scope.push(eq(pricingDataPoints.source, source));
+    if (sessionId) scope.push(eq(pricingDataPoints.sessionId, sessionId));
+
+    const points = await db
+      .select()
+      .from(pricingDataPoints)
+      .where(and(eq(pricingDataPoints.status, status), ...scope))
+      .orderBy(desc(pricingDataPoints.createdAt))
+      .limit(limit);
+
+    const grouped = await db
+      .select({
+        status: pricingDataPoints.status,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(pricingDataPoints)
+      .where(scope.length > 0 ? and(...scope) : undefined)
+      .groupBy(pricingDataPoints.status);
+
+    const counts: Record<PricingDataStatus, number> = { pending: 0, accepted: 0, held: 0, rejected: 0 };
+    for (const row of grouped) {
+      counts[row.status] = row.count;
+    }
+    return { points, counts };
+  }
+
+  // Delete every point from a source or session, whatever its status
+  async purgePricingDataPoints(filters: { source?: string; sessionId?: string }): Promise<number> {
+    const conditions = [];
+    if (filters.source) conditions.push(eq(pricingDataPoints.source, filters.source));
+    if (filters.sessionId) conditions.push(eq(pricingDataPoints.sessionId, filters.sessionId));
+    if (conditions.length === 0) return 0;
+
+    const deleted = await db
+      .delete(pricingDataPoints)
+      .where(and(...conditions))
+      .returning({ id: pricingDataPoints.id });
+    return deleted.length;
+  }
+
+  // One row per item, region and month; a later snapshot in the same month replaces the earlier one
+  async upsertPriceHistory(rows: InsertPriceHistory[]): Promise<number> {
+    if (rows.length === 0) return 0;
+    const written = await db
+      .insert(priceHistory)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: [priceHistory.itemKey, priceHistory.region, priceHistory.period],
+        set: {
+          unit: sql`excluded.unit`,
+          p10: sql`excluded.p10`,
+          p50: sql`excluded.p50`,
+          p90: sql`excluded.p90`,
+          sampleSize: sql`excluded.sample_size`,
+          recordedAt: new Date(),
+        },
+      })
+      .returning({ id: priceHistory.id });
+    return written.length;
+  }
+
+  async getPriceHistory(itemKeys: string[], regions: string[], sincePeriod: string): Promise<PriceHistory[]> {
+    if (itemKeys.length === 0 || regions.length === 0) return [];
+    return db
+      .select()
+      .from(priceHistory)
+      .where(and(
+        inArray(priceHistory.itemKey, itemKeys),
+        inArray(priceHistory.region, regions),
+        gte(priceHistory.period, sincePeriod),
+      ))
+      .orderBy(priceHistory.period);
+  }
+
+  // Catastrophe Events
+  async createCatastropheEvent(data: InsertCatastropheEvent): Promise<CatastropheEvent> {
+    const [event] = await db.insert(catastropheEvents).values(data).returning();
+    return event;
+  }
+
+  async getCatastropheEvents(filters?: {
+    stateCode?: string;
+    isActive?: boolean
+  }): Promise<CatastropheEvent[]> {
+    const conditions = [];
+    if (filters?.stateCode) {
+      conditions.push(eq(catastropheEvents.stateCode, filters.stateCode));
+    }
+    if (filters?.isActive !== undefined) {
+      conditions.push(eq(catastropheEvents.isActive, (filters.isActive ? 1 : 0) as any));
+    }
+
+    return await db
+      .select()
+      .from(catastropheEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(catastropheEvents.startDate));
+  }
+
+  async getCatastropheEvent(id: string): Promise<CatastropheEvent | undefined> {
+    const [event] = await db.select().from(catastropheEvents).where(eq(catastropheEvents.id, id));
+    return event || undefined;
+  }
+
+  async updateCatastropheEvent(id: string, data: Partial<InsertCatastropheEvent>): Promise<void> {
+    await db
+      .update(catastropheEvents)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(catastropheEvents.id, id));
+  }
+
+  async deleteCatastropheEvent(id: string): Promise<void> {
+    await db.delete(catastropheEvents).where(eq(catastropheEvents.id, id));
+  }
+
+  // Declarations already imported keep their admin edits
+  async importCatastropheEvents(events: InsertCatastropheEvent[]): Promise<number> {
+    if (events.length === 0) return 0;
+    const inserted = await db
+      .insert(catastropheEvents)
+      .values(events)
+      .onConflictDoNothing({ target: catastropheEvents.femaDisasterNumber })
+      .returning({ id: catastropheEvents.id });
+    return inserted.length;
+  }
+
   // Legacy analytics compatibility - now persists data via claims table
   async recordClaimAnalysis(data: {
     zipCode: string;
@@ -1556,6 +2186,89 @@ export class DatabaseStorage implements IStorage {
     await db.delete(emailTemplates).where(eq(emailTemplates.id, id));
   }
 
+  // Supplement Letter Templates
+  async createSupplementLetterTemplate(data: InsertSupplementLetterTemplate): Promise<SupplementLetterTemplate> {
+    const [template] = await db.insert(supplementLetterTemplates).values(data).returning();
+    return template;
+  }
+
+  async getSupplementLetterTemplates(filters?: { isActive?: boolean }): Promise<SupplementLetterTemplate[]> {
+    // Default template first so callers can take the head of the list
+    if (filters?.isActive === undefined) {
+      return await db
+        .select()
+        .from(supplementLetterTemplates)
+        .orderBy(desc(supplementLetterTemplates.isDefault), supplementLetterTemplates.name);
+    }
+
+    return await db
+      .select()
+      .from(supplementLetterTemplates)
+      .where(eq(supplementLetterTemplates.isActive, (filters.isActive ? 1 : 0) as any))
+      .orderBy(desc(supplementLetterTemplates.isDefault), supplementLetterTemplates.name);
+  }
+
+  async getSupplementLetterTemplate(id: string): Promise<SupplementLetterTemplate | undefined> {
+    const [template] = await db.select().from(supplementLetterTemplates).where(eq(supplementLetterTemplates.id, id));
+    return template || undefined;
+  }
+
+  async updateSupplementLetterTemplate(id: string, data: Partial<InsertSupplementLetterTemplate>): Promise<void> {
+    await db
+      .update(supplementLetterTemplates)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(supplementLetterTemplates.id, id));
+  }
+
+  async deleteSupplementLetterTemplate(id: string): Promise<void> {
+    await db.delete(supplementLetterTemplates).where(eq(supplementLetterTemplates.id, id));
+  }
+
+  // Scope Dependency Rules
+  async createScopeDependencyRule(data: InsertScopeDependencyRule): Promise<ScopeDependencyRule> {
+    const [rule] = await db.insert(scopeDependencyRules).values(data).returning();
+    return rule;
+  }
+
+  async getScopeDependencyRules(filters?: {
+    trade?: string;
+    isActive?: boolean
+  }): Promise<ScopeDependencyRule[]> {
+    const conditions = [];
+    if (filters?.trade) {
+      conditions.push(eq(scopeDependencyRules.trade, filters.trade));
+    }
+    if (filters?.isActive !== undefined) {
+      conditions.push(eq(scopeDependencyRules.isActive, (filters.isActive ? 1 : 0) as any));
+    }
+
+    if (conditions.length === 0) {
+      return await db.select().from(scopeDependencyRules).orderBy(scopeDependencyRules.trade, scopeDependencyRules.priority);
+    }
+
+    return await db
+      .select()
+      .from(scopeDependencyRules)
+      .where(and(...conditions))
+      .orderBy(scopeDependencyRules.trade, scopeDependencyRules.priority);
+  }
+
+  async getScopeDependencyRule(id: string): Promise<ScopeDependencyRule | undefined> {
+    const [rule] = await db.select().from(scopeDependencyRules).where(eq(scopeDependencyRules.id, id));
+    return rule || undefined;
+  }
+
+  async updateScopeDependencyRule(id: string, data: Partial<InsertScopeDependencyRule>): Promise<void> {
+    await db
+      .update(scopeDependencyRules)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(scopeDependencyRules.id, id));
+  }
+
+  async deleteScopeDependencyRule(id: string): Promise<void> {
+    await db.delete(scopeDependencyRules).where(eq(scopeDependencyRules.id, id));
+  }
+
   // ============================================
   // BATCH JOBS - Async Processing Queue
   // ============================================
@@ -1585,6 +2298,10 @@ export class DatabaseStorage implements IStorage {
     if (status === 'completed' || status === 'failed') {
       updateData.completedAt = new Date();
     }
+
+    if (status === 'completed') {
+      updateData.processedCount = sql`${batchJobs.itemCount}`;
+    }
     
     if (results !== undefined) {
       updateData.results = results;
@@ -1597,6 +2314,10 @@ export class DatabaseStorage implements IStorage {
     await db.update(batchJobs).set(updateData).where(eq(batchJobs.id, id));
   }
 
+  async updateBatchJobProgress(id: string, processedCount: number): Promise<void> {
+    await db.update(batchJobs).set({ processedCount }).where(eq(batchJobs.id, id));
+  }
+
   async getRecentBatchJobs(limit: number = 20): Promise<BatchJob[]> {
     return db.select()
       .from(batchJobs)
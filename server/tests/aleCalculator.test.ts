@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AleCalculatorError,
+  aleExpenseAmount,
+  aleLedgerToCsv,
+  calculateAle,
+  getAleLodgingBenchmark,
+  renderAleSummaryPdf,
+} from '../services/aleCalculator';
+
+const MIAMI = { zipCode: '33101', householdSize: 2, startDate: '2024-03-01' };
+
+describe('ALE Calculator', () => {
+  it('should size the lodging benchmark to the household and area', () => {
+    const miami = getAleLodgingBenchmark('33101', 3);
+    expect(miami.bedrooms).toBe(2);
+    expect(miami.costIndex).toBe(1.08);
+    expect(miami.fairMonthlyRent).toBe(1566);
+    expect(miami.fairNightlyRate).toBe(51.48);
+    expect(miami.areaName).toContain('Miami');
+
+    expect(getAleLodgingBenchmark('33101', 1).bedrooms).toBe(1);
+    expect(getAleLodgingBenchmark('33101', 9).bedrooms).toBe(4);
+  });
+
+  it('should price mileage at the IRS rate when no amount is given', () => {
+    expect(aleExpenseAmount({ date: '2024-03-01', category: 'mileage', miles: 100 })).toBe(67);
+    expect(aleExpenseAmount({ date: '2024-03-01', category: 'mileage', miles: 100, amount: 80 })).toBe(80);
+    expect(aleExpenseAmount({ date: '2024-03-01', category: 'meals' })).toBe(0);
+  });
+
+  it('should build a running ledger and net out normal living costs', () => {
+    const summary = calculateAle(
+      { ...MIAMI, endDate: '2024-03-30', savedMonthlyHousing: 1000, savedMonthlyUtilities: 200 },
+      [
+        { id: 'a', date: '2024-03-02', category: 'lodging', amount: 900, nights: 5, description: 'Hotel' },
+        { id: 'b', date: '2024-03-01', category: 'meals', amount: 400 },
+        { id: 'c', date: '2024-03-10', category: 'mileage', miles: 100 },
+        { id: 'd', date: '2024-04-05', category: 'laundry', amount: 50 },
+        { id: 'e', date: '2024-03-20', category: 'lodging', amount: 1000, nights: 10 },
+      ]
+    );
+
+    expect(summary.displacedDays).toBe(30);
+    expect(summary.ledger.map(e => e.id)).toEqual(['b', 'a', 'c', 'e', 'd']);
+    expect(summary.ledger.map(e => e.runningTotal)).toEqual([400, 1300, 1367, 2367, 2367]);
+    expect(summary.ledger[4].excluded).toBe(true);
+    expect(summary.ledger[1].nightlyRate).toBe(180);
+    expect(summary.ledger[1].flags[0]).toContain("over 3x the area's fair rent");
+    expect(summary.ledger[3].flags).toEqual([]);
+    expect(summary.ledger[2].flags[0]).toContain('100 miles at the IRS rate');
+
+    expect(summary.categories).toEqual([
+      { category: 'lodging', label: 'Lodging', claimed: 1900, normalCostOffset: 1183.56, additional: 716.44 },
+      { category: 'meals', label: 'Meals', claimed: 400, normalCostOffset: 400, additional: 0 },
+      { category: 'mileage', label: 'Extra mileage', claimed: 67, normalCostOffset: 0, additional: 67 },
+    ]);
+    expect(summary.totalClaimed).toBe(2367);
+    expect(summary.totalAdditional).toBe(783.44);
+    expect(summary.flags).toEqual([]);
+  });
+
+  it('should run ongoing displacements to the as-of date and flag long hotel stays', () => {
+    const summary = calculateAle(MIAMI, [
+      { date: '2024-04-10', category: 'lodging', amount: 100 },
+    ], new Date('2024-04-19T15:00:00Z'));
+
+    expect(summary.endDate).toBeNull();
+    expect(summary.asOfDate).toBe('2024-04-19');
+    expect(summary.displacedDays).toBe(50);
+    expect(summary.ledger[0].flags[0]).toContain('after the first 30 days');
+    expect(summary.flags[0]).toContain('Extra miles');
+
+    expect(() => calculateAle({ ...MIAMI, endDate: '2024-02-01' }, [])).toThrow(AleCalculatorError);
+    expect(() => calculateAle({ ...MIAMI, householdSize: 0 }, [])).toThrow('Household size');
+  });
+
+  it('should export the ledger as CSV and a PDF summary', () => {
+    const summary = calculateAle({ ...MIAMI, endDate: '2024-03-10' }, [
+      { date: '2024-03-03', category: 'other', amount: 25.5, description: 'Storage, week 1' },
+    ]);
+
+    const csv = aleLedgerToCsv(summary).split('\n');
+    expect(csv[0]).toBe('Date,Category,Description,Amount,Nightly Rate,Running Total,Notes');
+    expect(csv[1]).toBe('2024-03-03,Other,"Storage, week 1",25.50,,25.50,');
+
+    const pdf = renderAleSummaryPdf(summary, { claimNumber: 'CLM-1' });
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+});
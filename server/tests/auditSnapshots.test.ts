@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getTableConfig, PgDialect } from 'drizzle-orm/pg-core';
+import { diffAuditSnapshots, snapshotLineFlags, summarizeSnapshotLines, type SnapshotSummary } from '../services/auditSnapshots';
+import { claimAuditSnapshots, type AuditSnapshotLine } from '@shared/schema';
+import { storage } from '../storage';
+
+// Fails the first insert with a unique violation, as a concurrent re-audit taking the version would
+const inserts = vi.hoisted(() => ({ values: [] as Record<string, unknown>[] }));
+vi.mock('../db', () => {
+  const query: Record<string, unknown> = {};
+  Object.assign(query, {
+    insert: () => query,
+    values: (values: Record<string, unknown>) => { inserts.values.push(values); return query; },
+    returning: async () => {
+      if (inserts.values.length === 1) throw Object.assign(new Error('duplicate key'), { code: '23505' });
+      return [{ ...inserts.values[inserts.values.length - 1], version: 3 }];
+    },
+  });
+  return { db: query, pool: {} };
+});
+
+function line(description: string, fmvPrice: number, overrides: Partial<AuditSnapshotLine> = {}): AuditSnapshotLine {
+  const insuranceOffer = overrides.insuranceOffer ?? 1000;
+  const status = fmvPrice > insuranceOffer * 1.1 ? 'underpaid' : 'fair';
+  return {
+    category: 'Roofing',
+    description,
+    quantity: 10,
+    unit: 'SQ',
+    insuranceOffer,
+    fmvPrice,
+    additionalAmount: fmvPrice - insuranceOffer,
+    status,
+    flags: snapshotLineFlags(status),
+    ...overrides,
+  };
+}
+
+const original: SnapshotSummary = {
+  version: 1,
+  lines: [line('Shingles', 1050), line('Drip edge', 400, { insuranceOffer: 400 }), line('Gutter guard', 120, { insuranceOffer: 100 })],
+  missingItems: null,
+};
+
+const reaudit: SnapshotSummary = {
+  version: 2,
+  lines: [
+    line('Shingles', 1240),
+    line('Drip edge', 400, { insuranceOffer: 400 }),
+    line('Ridge cap', 300, { insuranceOffer: 250, flags: ['code_upgrade:roof_underlayment', 'underpaid'], status: 'underpaid' }),
+  ],
+  missingItems: [{ code: 'RFG STARTER', description: 'Starter strip', estimatedCost: 180 }],
+};
+
+describe('Audit Snapshots', () => {
+  it('should report FMV moves and status flips per line', () => {
+    const diff = diffAuditSnapshots(original, reaudit);
+    const shingles = diff.lines.find(l => l.description === 'Shingles')!;
+
+    expect(shingles).toMatchObject({
+      change: 'changed',
+      fmvFrom: 1050,
+      fmvTo: 1240,
+      fmvChange: 190,
+      fmvChangePct: 18.1,
+      statusFrom: 'fair',
+      statusTo: 'underpaid',
+      flagsAdded: ['underpaid'],
+      flagsRemoved: [],
+    });
+    expect(diff.lines.find(l => l.description === 'Drip edge')?.change).toBe('unchanged');
+  });
+
+  it('should list lines present in only one snapshot', () => {
+    const diff = diffAuditSnapshots(original, reaudit);
+
+    expect(diff.lines.find(l => l.description === 'Ridge cap')).toMatchObject({ change: 'added', fmvFrom: null, fmvChange: 300 });
+    expect(diff.lines.find(l => l.description === 'Gutter guard')).toMatchObject({ change: 'removed', fmvTo: null, fmvChange: -120 });
+    expect(diff.totals).toEqual({ fmvFrom: 1570, fmvTo: 1940, fmvChange: 370, additionalFrom: 70, additionalTo: 290 });
+  });
+
+  it('should only compare missing items when both snapshots recorded them', () => {
+    expect(diffAuditSnapshots(original, reaudit)).toMatchObject({ missingItemsCompared: false, newMissingItems: [] });
+
+    const next: SnapshotSummary = { ...reaudit, version: 3, missingItems: [{ code: 'RFG DRIP', description: 'Drip edge', estimatedCost: 450 }] };
+    const diff = diffAuditSnapshots(reaudit, next);
+    expect(diff.missingItemsCompared).toBe(true);
+    expect(diff.newMissingItems.map(i => i.code)).toEqual(['RFG DRIP']);
+    expect(diff.resolvedMissingItems.map(i => i.code)).toEqual(['RFG STARTER']);
+  });
+
+  it('should pair repeated lines in order and total the snapshot', () => {
+    const from: SnapshotSummary = { version: 1, lines: [line('Paint', 500), line('Paint', 700)], missingItems: [] };
+    const to: SnapshotSummary = { version: 2, lines: [line('paint ', 520), line('Paint', 700)], missingItems: [] };
+
+    expect(diffAuditSnapshots(from, to).lines.map(l => l.fmvChange)).toEqual([20, 0]);
+    expect(summarizeSnapshotLines(to.lines)).toEqual({ totalQuoted: 2000, totalFmv: 1220, additionalAmount: -780 });
+  });
+
+  it('should keep snapshot versions unique and retry a version taken concurrently', async () => {
+    const [versionIdx] = getTableConfig(claimAuditSnapshots).indexes;
+    expect(versionIdx.config.unique).toBe(true);
+
+    const snapshot = await storage.appendClaimAuditSnapshot({
+      userClaimId: 'claim-1',
+      source: 'reaudit',
+      totalQuoted: 1000,
+      totalFmv: 1200,
+      additionalAmount: 200,
+      lines: [],
+    });
+
+    expect(inserts.values).toHaveLength(2);
+    expect(snapshot.version).toBe(3);
+    // The version is computed by Postgres in the insert, not from a prior read
+    const { sql, params } = new PgDialect().sqlToQuery(inserts.values[1].version as any);
+    expect(sql).toContain('max("claim_audit_snapshots"."version")');
+    expect(params).toEqual(['claim-1']);
+  });
+});
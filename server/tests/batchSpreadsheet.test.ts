@@ -0,0 +1,122 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import JSZip from 'jszip';
+import { auditBatch } from '@shared/priceAudit';
+import { batchQueue } from '../queue/batchQueue';
+import { setCatastropheEvents } from '../utils/demandSurge';
+import {
+  ANNOTATION_HEADERS,
+  BatchSpreadsheetError,
+  annotateSpreadsheet,
+  annotatedSpreadsheetToCsv,
+  annotatedSpreadsheetToXlsx,
+  mapSpreadsheetRows,
+  parseSpreadsheet,
+  suggestColumnMapping,
+} from '../services/batchSpreadsheet';
+
+const CSV = [
+  'Line,Description,Qty,Unit,Total RCV,ZIP',
+  '1,Install 3-Tab Asphalt,20,SQ,"$2,000.00",78701',
+  '2,Remove 3-Tab Asphalt,20,SQ,$700.00,8701',
+  '3,,5,EA,$50.00,78701',
+  '4,Gutter guard,0,LF,$90.00,78701',
+  '',
+].join('\r\n');
+
+describe('Batch Audit Spreadsheets', () => {
+  it('should read CSV rows and suggest a column mapping from the headers', async () => {
+    const sheet = await parseSpreadsheet(Buffer.from(`﻿${CSV}`), 'claims.csv');
+    expect(sheet.format).toBe('csv');
+    expect(sheet.headers).toEqual(['Line', 'Description', 'Qty', 'Unit', 'Total RCV', 'ZIP']);
+    expect(sheet.rows).toHaveLength(4);
+
+    expect(suggestColumnMapping(sheet.headers)).toEqual({
+      description: 1, quantity: 2, unit: 3, price: 4, zipCode: 5, priceIsTotal: true,
+    });
+    expect(suggestColumnMapping(['Item', 'Unit Price', 'Quantity']).priceIsTotal).toBe(false);
+  });
+
+  it('should map rows to audit items and report rows it skipped', async () => {
+    const sheet = await parseSpreadsheet(Buffer.from(CSV), 'claims.csv');
+    const mapped = mapSpreadsheetRows(sheet, suggestColumnMapping(sheet.headers), '33101');
+
+    expect(mapped.items).toEqual([
+      { name: 'Install 3-Tab Asphalt', price: 100, qty: 20, unit: 'SQ', zipCode: '78701' },
+      { name: 'Remove 3-Tab Asphalt', price: 35, qty: 20, unit: 'SQ', zipCode: '08701' },
+    ]);
+    expect(mapped.rowIndexes).toEqual([0, 1]);
+    expect(mapped.skipped).toEqual([
+      { row: 2, reason: 'No description' },
+      { row: 3, reason: 'Quantity is missing or not a positive number' },
+    ]);
+
+    expect(() => mapSpreadsheetRows(sheet, { description: 9, price: 4 })).toThrow(BatchSpreadsheetError);
+    expect(() => mapSpreadsheetRows(sheet, { description: 0, price: 3 })).toThrow('No rows could be audited');
+  });
+
+  it('should annotate every row and round-trip the workbook as XLSX', async () => {
+    const sheet = await parseSpreadsheet(Buffer.from(CSV), 'claims.csv');
+    const mapped = mapSpreadsheetRows(sheet, suggestColumnMapping(sheet.headers));
+    const annotated = annotateSpreadsheet(sheet, mapped, auditBatch(mapped.items).results);
+
+    expect(annotated.headers).toEqual([...sheet.headers, ...ANNOTATION_HEADERS]);
+    const [install, , skipped] = annotated.rows;
+    expect(install.slice(6)).toEqual([157.37, 3147.4, 57.4, 1147.4, 'Underpaid', expect.stringContaining('Underpaid'), '']);
+    expect(skipped.slice(10)).toEqual(['Skipped', 'No description', '']);
+    expect(annotated.summary).toContainEqual(['Rows skipped', 2]);
+    expect(annotated.summary.some(([label]) => String(label).startsWith('ZIP 08701'))).toBe(true);
+
+    const workbook = await annotatedSpreadsheetToXlsx(annotated);
+    const zip = await JSZip.loadAsync(workbook);
+    expect(await zip.file('xl/worksheets/sheet2.xml')!.async('string')).toContain('Underpayment opportunity');
+
+    const reread = await parseSpreadsheet(workbook, 'claims-audited.xlsx');
+    expect(reread.format).toBe('xlsx');
+    expect(reread.headers).toEqual(annotated.headers);
+    expect(reread.rows[0][1]).toBe('Install 3-Tab Asphalt');
+    expect(reread.rows[0][7]).toBe('3147.4');
+
+    const csv = annotatedSpreadsheetToCsv(annotated);
+    expect(csv.split('\n')[1]).toContain('"$2,000.00"');
+    expect(csv).toContain('Summary,');
+  });
+
+  it('should reject legacy workbooks and sheets without line items', async () => {
+    await expect(parseSpreadsheet(Buffer.from('x'), 'claims.xls')).rejects.toThrow('.xlsx or CSV');
+    await expect(parseSpreadsheet(Buffer.from('Description,Price\n'), 'claims.csv')).rejects.toThrow(BatchSpreadsheetError);
+  });
+
+  describe('queued spreadsheet batches', () => {
+    afterEach(() => setCatastropheEvents([]));
+
+    it('should price each row for its own ZIP and flag rows entered in another unit', async () => {
+      // A Texas catastrophe at its peak today
+      setCatastropheEvents([{
+        id: 'evt-tx', name: 'Hurricane Test', eventType: 'hurricane', source: 'admin', stateCode: 'TX',
+        zipPrefixes: [], cbsaCodes: [], startDate: new Date(Date.now() - 25 * 86400000),
+        peakSurgePct: 30, rampDays: 10, plateauDays: 20, decayDays: 100, decayCurve: 'linear',
+      }]);
+      const items = [
+        { name: 'Install 3-Tab Asphalt', price: 100, qty: 20, unit: 'SQ', zipCode: '78701' },
+        { name: 'Install 3-Tab Asphalt', price: 100, qty: 20, unit: 'SQ', zipCode: '08701' },
+        { name: 'Install 3-Tab Asphalt', price: 1.5, qty: 2000, unit: 'sq ft', zipCode: '08701' },
+      ];
+
+      const result = await new Promise<any>(resolve => {
+        batchQueue.enqueueBatch('spreadsheet-zips', { items }, async (_id, status, results) => {
+          if (status !== 'processing') resolve(results);
+        });
+      });
+      const [texas, jersey, perFoot] = result.results;
+
+      expect(texas.marketPricing.demandSurge.surgePct).toBe(30);
+      expect(jersey.marketPricing.demandSurge).toBeUndefined();
+      expect(texas.marketPricing.fmvPrice).toBeCloseTo(jersey.marketPricing.fmvPrice * 1.3, 1);
+
+      expect(perFoot.badges).toContain('Unit mismatch');
+      expect(perFoot.message).toMatch(/^Entered per SF but market prices are per SQ/);
+      expect(perFoot.underpaymentOpportunity).toBe(0);
+      expect(result.totalUnderpaymentOpportunity).toBeCloseTo(texas.underpaymentOpportunity + jersey.underpaymentOpportunity, 2);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ClaimComparisonError,
+  compareClaimDocuments,
+  type ComparisonDocument,
+} from '../services/claimComparison';
+import { textSimilarity } from '../utils/fuzzyMatch';
+
+const carrierEstimate: ComparisonDocument = {
+  id: 'est',
+  documentType: 'carrier_estimate',
+  label: 'Carrier estimate',
+  lines: [
+    { description: 'Laminated - comp. shingle rfg. - w/out felt', catalogCode: 'RFG 300S', quantity: 24, unit: 'SQ', rcv: 6240 },
+    { description: 'Roofing felt - 15 lb.', catalogCode: 'RFG FELT', quantity: 24, unit: 'SQ', rcv: 720 },
+    { description: 'Drip edge', catalogCode: 'RFG DRIP', quantity: 180, unit: 'LF', rcv: 450 },
+    { description: 'Remove gutter guard', quantity: 40, unit: 'LF', rcv: 80 },
+  ],
+};
+
+const contractorBid: ComparisonDocument = {
+  id: 'bid',
+  documentType: 'contractor_bid',
+  label: 'ABC Roofing bid',
+  lines: [
+    { description: 'Architectural shingles - install', catalogCode: 'RFG 300S', quantity: 2800, unit: 'SF', rcv: 8400 },
+    { description: 'Felt underlayment 15lb', catalogCode: 'RFG FELT', quantity: 28, unit: 'SQ', rcv: 840 },
+    { description: 'Drip edge metal', quantity: 180, unit: 'LF', rcv: 450 },
+    { description: 'Ridge cap shingles', quantity: 60, unit: 'LF', rcv: 540 },
+    { description: 'Starter strip', quantity: 180, unit: 'LF', rcv: 360 },
+  ],
+};
+
+describe('Claim Document Comparison', () => {
+  it('should score similar descriptions with the shared Dice matcher', () => {
+    expect(textSimilarity('Drip edge', 'Drip edge metal')).toBeGreaterThan(0.6);
+    expect(textSimilarity('Drip edge', 'Ridge cap shingles')).toBeLessThan(0.3);
+  });
+
+  it('should report omitted items, quantity gaps and unit price gaps against the bid', () => {
+    const comparison = compareClaimDocuments([contractorBid, carrierEstimate]);
+
+    expect(comparison.documents.map(d => d.id)).toEqual(['est', 'bid']);
+
+    const shingles = comparison.rows.find(r => r.catalogCode === 'RFG 300S')!;
+    expect(shingles.carrier?.quantity).toBe(24);
+    expect(shingles.bid?.quantity).toBe(28);
+    expect(shingles.issues.map(i => i.type)).toEqual(['quantity_gap', 'unit_price_gap']);
+    // Quantity and price components add up to the line gap
+    expect(shingles.issues.reduce((sum, i) => sum + i.amount, 0)).toBeCloseTo(shingles.gapAmount, 2);
+
+    const drip = comparison.rows.find(r => r.description === 'Drip edge')!;
+    expect(drip.cells.bid?.description).toBe('Drip edge metal');
+    expect(drip.issues).toEqual([]);
+
+    const omitted = comparison.rows.filter(r => r.issues.some(i => i.type === 'omitted'));
+    expect(omitted.map(r => r.description).sort()).toEqual(['Ridge cap shingles', 'Starter strip']);
+
+    expect(comparison.summary.omittedCount).toBe(2);
+    expect(comparison.summary.omittedAmount).toBe(900);
+    expect(comparison.summary.unmatchedCarrierCount).toBe(1);
+    expect(comparison.summary.gapTotal).toBe(comparison.summary.bidTotal - comparison.summary.carrierTotal);
+  });
+
+  it('should use the latest supplement as the carrier position', () => {
+    const supplement: ComparisonDocument = {
+      id: 'supp1',
+      documentType: 'supplement',
+      label: 'Supplement 1',
+      sequence: 1,
+      lines: [
+        { description: 'Laminated - comp. shingle rfg. - w/out felt', catalogCode: 'RFG 300S', quantity: 28, unit: 'SQ', rcv: 8400 },
+        { description: 'Ridge cap - composition shingles', quantity: 60, unit: 'LF', rcv: 540 },
+      ],
+    };
+
+    const comparison = compareClaimDocuments([carrierEstimate, contractorBid, supplement]);
+    expect(comparison.documents.map(d => d.id)).toEqual(['est', 'supp1', 'bid']);
+
+    const shingles = comparison.rows.find(r => r.catalogCode === 'RFG 300S')!;
+    expect(shingles.carrier?.documentId).toBe('supp1');
+    expect(shingles.issues).toEqual([]);
+
+    const ridge = comparison.rows.find(r => r.description.startsWith('Ridge cap'))!;
+    expect(ridge.cells.bid).not.toBeNull();
+    expect(ridge.cells.est).toBeNull();
+    expect(ridge.issues.map(i => i.type)).toEqual(['added_by_supplement']);
+    expect(comparison.summary.omittedCount).toBe(1);
+  });
+
+  it('should require a carrier estimate', () => {
+    expect(() => compareClaimDocuments([contractorBid])).toThrow(ClaimComparisonError);
+  });
+});
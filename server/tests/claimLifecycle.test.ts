@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assertStageTransition,
+  buildReminderEmail,
+  canTransition,
+  ClaimLifecycleError,
+  computeClaimDeadlines,
+  getDueReminders,
+  type LifecycleEvent,
+} from '../services/claimLifecycle';
+
+const events: LifecycleEvent[] = [
+  { stage: 'filed', occurredAt: '2024-05-16' },
+  { stage: 'inspected', occurredAt: '2024-05-24' },
+];
+
+describe('Claim Lifecycle', () => {
+  it('should only move claims forward, allowing supplement rounds and resolution changes', () => {
+    expect(canTransition(null, 'filed')).toBe(true);
+    expect(canTransition(null, 'inspected')).toBe(false);
+    expect(canTransition('filed', 'estimate_received')).toBe(true);
+    expect(canTransition('estimate_received', 'inspected')).toBe(false);
+    expect(canTransition('reinspection', 'supplement_sent')).toBe(true);
+    expect(canTransition('supplement_sent', 'supplement_sent')).toBe(true);
+    expect(canTransition('appraisal', 'paid')).toBe(true);
+    expect(canTransition('paid', 'supplement_sent')).toBe(false);
+    expect(() => assertStageTransition('paid', 'filed')).toThrow(ClaimLifecycleError);
+  });
+
+  it('should apply Texas prompt-pay deadlines, counting business days where the statute does', () => {
+    const deadlines = computeClaimDeadlines(
+      { lossDate: '2024-05-14', state: 'TX', events },
+      new Date('2024-06-03T12:00:00Z')
+    );
+    const byKey = Object.fromEntries(deadlines.map(d => [d.key, d]));
+
+    expect(byKey.carrier_acknowledgment).toMatchObject({ dueDate: '2024-05-31', status: 'met' });
+    // 15 business days after Friday 2024-05-24
+    expect(byKey.carrier_decision).toMatchObject({ dueDate: '2024-06-14', status: 'due_soon', daysRemaining: 11 });
+    expect(byKey.proof_of_loss.dueDate).toBe('2024-08-15');
+    expect(byKey.suit_limitation).toMatchObject({ dueDate: '2026-05-15', status: 'upcoming' });
+    // Not anchored until a supplement is sent
+    expect(byKey.supplement_response).toBeUndefined();
+  });
+
+  it('should fall back to the NAIC model rules and restart the supplement clock on each supplement', () => {
+    const deadlines = computeClaimDeadlines({
+      lossDate: '2024-05-14',
+      state: 'WY',
+      events: [
+        ...events,
+        { stage: 'estimate_received', occurredAt: '2024-06-10' },
+        { stage: 'supplement_sent', occurredAt: '2024-06-20' },
+        { stage: 'reinspection', occurredAt: '2024-07-01' },
+        { stage: 'supplement_sent', occurredAt: '2024-07-15' },
+      ],
+    }, new Date('2024-08-01T00:00:00Z'));
+    const response = deadlines.find(d => d.key === 'supplement_response');
+
+    expect(response).toMatchObject({ dueDate: '2024-07-30', status: 'overdue', daysRemaining: -2 });
+    expect(deadlines.find(d => d.key === 'suit_limitation')?.dueDate).toBe('2025-05-14');
+  });
+
+  it('should remind once per lead time and flag lapsed carrier deadlines', () => {
+    const deadlines = computeClaimDeadlines({
+      lossDate: '2024-05-14',
+      state: 'FL',
+      events: [{ stage: 'filed', occurredAt: '2024-05-15' }],
+    }, new Date('2024-07-10T00:00:00Z'));
+
+    const reminders = getDueReminders(deadlines, []);
+    // Proof of loss is 4 days out; the carrier decision isn't late yet so it stays quiet
+    expect(reminders.map(r => r.reminderKey).sort()).toEqual(['carrier_acknowledgment:overdue', 'proof_of_loss:7']);
+
+    const remaining = getDueReminders(deadlines, ['carrier_acknowledgment:overdue']);
+    expect(remaining.map(r => r.reminderKey)).toEqual(['proof_of_loss:7']);
+
+    const email = buildReminderEmail('State Farm - 78701', reminders, 'https://example.com/my-claims');
+    expect(email.subject).toBe('Carrier deadline missed on your claim - State Farm - 78701');
+    expect(email.text).toContain('Fla. Stat. §627.70131(1)(a)');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { auditCodeUpgrades, codeUpgradeRecommendations } from '../services/claimAudit/codeUpgrades';
+import { getJurisdictionCodeProfile } from '../utils/buildingCodes';
+import type { AuditedLineItem, ClaimAuditInput, ClaimLineItem } from '../services/claimAudit/types';
+
+function audit(zipCode: string, lineItems: ClaimLineItem[]) {
+  const input: ClaimAuditInput = { carrier: 'Test Carrier', zipCode, lineItems };
+  const auditedItems: AuditedLineItem[] = lineItems.map(original => ({
+    original,
+    marketPrice: original.quotedPrice,
+    variance: 0,
+    flags: [],
+    recommendation: 'Price acceptable',
+  }));
+  return { summary: auditCodeUpgrades(input, auditedItems), auditedItems };
+}
+
+const reroof: ClaimLineItem[] = [
+  { description: 'Laminated - comp. shingle rfg. - w/out felt', quotedPrice: 6000, quantity: 25, unit: 'SQ' },
+  { description: 'Roofing felt - 15 lb.', quotedPrice: 500, quantity: 25, unit: 'SQ' },
+];
+
+describe('Building Code Upgrades', () => {
+  it('should resolve the Miami-Dade HVHZ profile from a ZIP', () => {
+    const profile = getJurisdictionCodeProfile('33101');
+    expect(profile.stateCode).toBe('FL');
+    expect(profile.cbsaCode).toBe('33100');
+    expect(profile.jurisdiction).toMatch(/High-Velocity Hurricane Zone/);
+    expect(profile.roofUnderlayment).toBe('sealed-roof-deck');
+    expect(profile.hurricaneStraps).toBe(true);
+  });
+
+  it('should flag sealed roof deck and straps on a Florida re-roof priced like-for-like', () => {
+    const { summary, auditedItems } = audit('33101', reroof);
+    const requirements = summary.items.map(i => i.requirement);
+
+    expect(requirements).toEqual(['roof_underlayment', 'hurricane_straps']);
+    expect(summary.items[0]).toMatchObject({ upgradeCode: 'RFG SWB', quantity: 25, unit: 'SQ' });
+    expect(summary.items[1]).toMatchObject({ upgradeCode: 'FRM HURS', quantity: 60, unit: 'EA' });
+    expect(summary.items[0].citation).toMatch(/FBC/);
+    expect(summary.totalEstimatedCost).toBeCloseTo(summary.items.reduce((sum, i) => sum + i.estimatedCost, 0), 2);
+
+    // Only the roof covering is flagged, not the felt line
+    expect(auditedItems[0].flags.filter(f => f.startsWith('Code upgrade'))).toHaveLength(2);
+    expect(auditedItems[1].flags).toEqual([]);
+    expect(codeUpgradeRecommendations(summary)[0]).toMatch(/Ordinance & Law/);
+  });
+
+  it('should require an ice barrier in northern states unless already priced', () => {
+    const missing = audit('55401', reroof).summary;
+    expect(missing.items.map(i => i.requirement)).toEqual(['ice_barrier']);
+    expect(missing.items[0].quantity).toBe(5);
+
+    const priced = audit('55401', [
+      ...reroof,
+      { description: 'Ice & water barrier', quotedPrice: 600, quantity: 5, unit: 'SQ' },
+    ]).summary;
+    expect(priced.items).toEqual([]);
+  });
+
+  it('should price GFCI and AFCI upgrades as the difference over the standard item', () => {
+    const { summary, auditedItems } = audit('60601', [
+      { description: 'Outlet - kitchen countertop', quotedPrice: 60, quantity: 4, unit: 'EA', catalogCode: 'ELE OUTL' },
+      { description: 'Outlet - bedroom', quotedPrice: 15, quantity: 1, unit: 'EA', catalogCode: 'ELE OUTL' },
+      { description: 'Circuit breaker - 20 amp', quotedPrice: 20, quantity: 1, unit: 'EA', catalogCode: 'ELE BRKR' },
+    ]);
+
+    const gfci = summary.items.find(i => i.requirement === 'gfci')!;
+    expect(gfci.lineItem).toBe('Outlet - kitchen countertop');
+    expect(gfci.quantity).toBe(4);
+    expect(gfci.estimatedCost).toBeGreaterThanOrEqual(0);
+    expect(summary.items.filter(i => i.requirement === 'gfci')).toHaveLength(1);
+    expect(summary.items.find(i => i.requirement === 'afci')?.upgradeCode).toBe('ELE AFCI');
+
+    expect(auditedItems[1].flags).toEqual([]);
+  });
+
+  it('should return an empty section where no upgrade applies', () => {
+    const { summary } = audit('30301', reroof);
+    expect(summary.stateCode).toBe('GA');
+    expect(summary.items).toEqual([]);
+    expect(summary.totalEstimatedCost).toBe(0);
+    expect(codeUpgradeRecommendations(summary)).toEqual([]);
+  });
+});
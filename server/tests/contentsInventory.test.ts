@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ContentsInventoryError,
+  auditContentsInventory,
+  classifyContentsItem,
+  contentsToCsv,
+  expectedContentsDepreciationPct,
+  lookupContentsPrice,
+  parseContentsCsv,
+  valueContentsItem,
+} from '../services/contentsInventory';
+
+describe('Contents Inventory', () => {
+  it('should price items from the local catalog and classify them', () => {
+    expect(lookupContentsPrice('Samsung 65" QLED TV')?.key).toBe('tv-large');
+    expect(lookupContentsPrice('Television')?.key).toBe('tv');
+    expect(lookupContentsPrice('Coffee table')?.key).toBe('coffee-table');
+    expect(lookupContentsPrice('Dell computer monitor')?.key).toBe('monitor');
+    expect(lookupContentsPrice('Noise cancelling headphones')).toBeNull();
+    expect(classifyContentsItem('Noise cancelling headphones')).toBe('electronics');
+    expect(classifyContentsItem('Diamond engagement ring')).toBe('jewelry');
+    expect(classifyContentsItem('Garden gnome')).toBe('other');
+  });
+
+  it('should scale class depreciation by condition and cap it', () => {
+    expect(expectedContentsDepreciationPct('furniture', 6, 'good')).toBe(50);
+    expect(expectedContentsDepreciationPct('furniture', 6, 'excellent')).toBe(37.5);
+    expect(expectedContentsDepreciationPct('furniture', 6, 'poor')).toBe(75);
+    expect(expectedContentsDepreciationPct('electronics', 10, 'good')).toBe(80);
+    expect(expectedContentsDepreciationPct('jewelry', 20, 'poor')).toBe(0);
+    expect(expectedContentsDepreciationPct('clothing', null, 'good')).toBe(0);
+  });
+
+  it('should flag carrier ACV below fair actual cash value', () => {
+    const sofa = valueContentsItem({ name: 'Sectional sofa', ageYears: 3, condition: 'good', carrierAcv: 300 });
+
+    expect(sofa.replacementCostSource).toBe('catalog');
+    expect(sofa.replacementCost).toBe(1200);
+    expect(sofa.expectedDepreciationPct).toBe(25);
+    expect(sofa.fairAcv).toBe(900);
+    expect(sofa.carrierDepreciationPct).toBe(75);
+    expect(sofa.shortfall).toBe(600);
+    expect(sofa.status).toBe('underpaid');
+    expect(sofa.flags[0]).toContain('75% depreciation vs 25% expected for good 3-year-old furniture (12-year life)');
+
+    const ring = valueContentsItem({ name: 'Gold ring', replacementCost: 1500, ageYears: 10, carrierAcv: 600 });
+    expect(ring.fairAcv).toBe(1500);
+    expect(ring.flags[0]).toContain('typically hold their value');
+  });
+
+  it('should fall back to the original price and total the inventory', () => {
+    const audit = auditContentsInventory([
+      { name: 'Garden gnome', originalPrice: 100, ageYears: 2, quantity: 2, carrierAcv: 200 },
+      { name: 'Mystery box' },
+      { name: 'Laptop', ageYears: 1, carrierAcv: 900 },
+    ]);
+
+    const [gnome, mystery, laptop] = audit.items;
+    expect(gnome.replacementCostSource).toBe('original_price');
+    expect(gnome.unitReplacementCost).toBe(106.09);
+    expect(gnome.status).toBe('fair');
+    expect(mystery.status).toBe('unvalued');
+    expect(laptop.fairAcv).toBe(750);
+    expect(audit.summary).toMatchObject({
+      itemCount: 3,
+      totalCarrierAcv: 1100,
+      totalShortfall: 0,
+      underpaidCount: 0,
+      unvaluedCount: 1,
+    });
+    expect(() => valueContentsItem({ name: '  ' })).toThrow(ContentsInventoryError);
+  });
+
+  it('should import inventory CSVs and round-trip exports', () => {
+    const { items, warnings } = parseContentsCsv([
+      'Item,Brand,Qty,Age (yrs),Condition,Purchase Price,Carrier ACV',
+      '"Sofa, leather",Ashley,1,4,excellent,"$1,800.00",450',
+      ',,1,,,,',
+      'Winter coat,,2,3,worn,200,',
+    ].join('\r\n'));
+
+    expect(items).toHaveLength(2);
+    expect(items[0]).toMatchObject({ name: 'Sofa, leather', brand: 'Ashley', ageYears: 4, condition: 'excellent', originalPrice: 1800, carrierAcv: 450 });
+    expect(items[1]).toMatchObject({ name: 'Winter coat', quantity: 2, condition: null, carrierAcv: null });
+    expect(warnings).toEqual(['Row 3: missing item name, skipped', 'Row 4: unknown condition "worn", treated as good']);
+
+    const exported = contentsToCsv(auditContentsInventory(items));
+    expect(exported.split('\n')[1]).toBe('"Sofa, leather",Ashley,furniture,,4,excellent,1,1800.00,,450.00,catalog,1200.00,25,900.00,450.00');
+    expect(parseContentsCsv(exported).items[0]).toMatchObject({ name: 'Sofa, leather', itemClass: 'furniture', carrierAcv: 450 });
+    expect(() => parseContentsCsv('Brand,Qty\nAcme,1')).toThrow('item name column');
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  eventCoversZip,
+  getDemandSurge,
+  setCatastropheEvents,
+  surgePctAt,
+  SURGE_PROFILES,
+  type SurgeEvent,
+} from '../utils/demandSurge';
+import { femaDeclarationsToEvents, parseFemaDeclarations } from '../utils/femaDeclarations';
+import { generateCitedEstimate, aggregateSources } from '../utils/pricingCitation';
+import { analyze } from '../services/claimAudit/v1_rulesBasic';
+import { auditClaimItem } from '@shared/priceAudit';
+import { batchQueue } from '../queue/batchQueue';
+
+const START = new Date('2025-07-01T00:00:00Z');
+const day = (n: number) => new Date(START.getTime() + n * 86400000);
+// Auditors price at the current date; this event is at its peak today
+const atPeakToday = () => event({ startDate: new Date(Date.now() - 25 * 86400000) });
+
+function event(overrides: Partial<SurgeEvent> = {}): SurgeEvent {
+  return {
+    id: 'evt-1',
+    name: 'Hurricane Test',
+    eventType: 'hurricane',
+    source: 'admin',
+    stateCode: 'TX',
+    zipPrefixes: [],
+    cbsaCodes: [],
+    startDate: START,
+    peakSurgePct: 30,
+    rampDays: 10,
+    plateauDays: 20,
+    decayDays: 100,
+    decayCurve: 'linear',
+    ...overrides,
+  };
+}
+
+describe('Demand Surge', () => {
+  afterEach(() => setCatastropheEvents([]));
+
+  it('should ramp, hold and decay along the configured curve', () => {
+    const linear = event();
+    expect(surgePctAt(linear, START, day(-1))).toBe(0);
+    expect(surgePctAt(linear, START, day(5))).toBe(15);
+    expect(surgePctAt(linear, START, day(25))).toBe(30);
+    expect(surgePctAt(linear, START, day(80))).toBe(15);
+    expect(surgePctAt(linear, START, day(130))).toBe(0);
+
+    const exponential = event({ decayCurve: 'exponential' });
+    expect(surgePctAt(exponential, START, day(80))).toBeLessThan(15);
+    expect(surgePctAt(exponential, START, day(129))).toBeGreaterThan(0);
+    expect(surgePctAt(exponential, START, day(130))).toBe(0);
+  });
+
+  it('should cover the whole state unless narrowed to ZIP prefixes or CBSAs', () => {
+    expect(eventCoversZip(event(), '78701')).toBe(true);
+    expect(eventCoversZip(event(), '33101')).toBe(false);
+    expect(eventCoversZip(event({ zipPrefixes: ['770'] }), '77002')).toBe(true);
+    expect(eventCoversZip(event({ zipPrefixes: ['770'] }), '78701')).toBe(false);
+    expect(eventCoversZip(event({ cbsaCodes: ['26420'] }), '77450')).toBe(true);
+  });
+
+  it('should apply the largest overlapping surge and disclose it', () => {
+    const events = [
+      event(),
+      event({ id: 'evt-2', name: 'Hailstorm Test', eventType: 'hail', peakSurgePct: 20, zipPrefixes: ['787'] }),
+    ];
+    const surge = getDemandSurge('78701', day(25), events)!;
+    expect(surge.surgePct).toBe(30);
+    expect(surge.multiplier).toBe(1.3);
+    expect(surge.events.map(e => e.name)).toEqual(['Hurricane Test', 'Hailstorm Test']);
+    expect(surge.disclosure).toContain('+30.0% post-catastrophe demand surge for Hurricane Test');
+    expect(surge.disclosure).toContain('1 other overlapping event not stacked');
+
+    expect(getDemandSurge('33101', day(25), events)).toBeNull();
+    expect(getDemandSurge('78701', day(200), events)).toBeNull();
+  });
+
+  it('should import active major disaster declarations from FEMA files', () => {
+    const json = JSON.stringify({
+      DisasterDeclarationsSummaries: [
+        { disasterNumber: 4798, state: 'TX', declarationType: 'DR', declarationDate: '2025-07-09T00:00:00.000Z', incidentType: 'Hurricane', declarationTitle: 'HURRICANE BERYL', incidentBeginDate: '2025-07-05T00:00:00.000Z', designatedArea: 'Harris (County)' },
+        { disasterNumber: 4798, state: 'TX', declarationType: 'DR', declarationDate: '2025-07-09T00:00:00.000Z', incidentType: 'Hurricane', declarationTitle: 'HURRICANE BERYL', incidentBeginDate: '2025-07-05T00:00:00.000Z', designatedArea: 'Galveston (County)' },
+        { disasterNumber: 3612, state: 'TX', declarationType: 'EM', declarationDate: '2025-07-06T00:00:00.000Z', incidentType: 'Hurricane', declarationTitle: 'HURRICANE BERYL' },
+        { disasterNumber: 4700, state: 'OK', declarationType: 'DR', declarationDate: '2023-05-01T00:00:00.000Z', incidentType: 'Severe Storm', declarationTitle: 'SEVERE STORMS AND HAIL', incidentBeginDate: '2023-04-20T00:00:00.000Z' },
+        { disasterNumber: 4810, state: 'CA', declarationType: 'DR', declarationDate: '2025-08-01T00:00:00.000Z', incidentType: 'Earthquake', declarationTitle: 'EARTHQUAKE' },
+      ],
+    });
+    const events = femaDeclarationsToEvents(parseFemaDeclarations(json), new Date('2025-09-01T00:00:00Z'));
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      name: 'Hurricane Beryl',
+      eventType: 'hurricane',
+      source: 'fema',
+      femaDisasterNumber: 4798,
+      stateCode: 'TX',
+      zipPrefixes: [],
+      designatedAreas: ['Harris (County)', 'Galveston (County)'],
+      peakSurgePct: SURGE_PROFILES.hurricane.peakSurgePct,
+    });
+
+    const csv = 'disasterNumber,state,declarationType,declarationDate,incidentType,declarationTitle,incidentBeginDate,designatedArea\n' +
+      '4820,OK,DR,2025-08-10,Severe Storm,"SEVERE STORMS, HAIL",2025-08-01,Tulsa (County)\n';
+    const [hail] = femaDeclarationsToEvents(parseFemaDeclarations(csv), new Date('2025-09-01T00:00:00Z'));
+    expect(hail).toMatchObject({ eventType: 'hail', name: 'Severe Storms, Hail', stateCode: 'OK' });
+  });
+
+  it('should lift baseline citations and disclose the surge as its own source', () => {
+    const base = generateCitedEstimate('Roofing', null, 10, '78701')!;
+    setCatastropheEvents([atPeakToday()]);
+    const surged = generateCitedEstimate('Roofing', null, 10, '78701')!;
+
+    expect(surged.demandSurge?.surgePct).toBe(30);
+    expect(surged.totalCost).toBeCloseTo(base.totalCost * 1.3, 1);
+    expect(surged.formattedCitation).toContain('**Demand Surge:**');
+    expect(surged.methodology).toContain('Demand surge (+30.0%)');
+    const source = surged.sources.find(s => s.type === 'surge')!;
+    expect(source.name).toBe('Demand Surge');
+    expect(aggregateSources([surged]).map(s => s.type)).toEqual(['primary', 'secondary', 'surge']);
+    expect(generateCitedEstimate('Roofing', null, 10, '33101')!.demandSurge).toBeNull();
+  });
+
+  it('should apply the surge in claim audits and price DB audits', async () => {
+    const lineItems = [{ description: 'Laminated - comp. shingle rfg. - w/out felt', quotedPrice: 6000, quantity: 25, unit: 'SQ' }];
+    const before = await analyze({ zipCode: '78701', lineItems });
+    setCatastropheEvents([atPeakToday()]);
+    const after = await analyze({ zipCode: '78701', lineItems });
+
+    expect(after.auditedItems[0].marketPrice).toBeCloseTo(before.auditedItems[0].marketPrice * 1.3, 2);
+    expect(after.auditedItems[0].demandSurgePct).toBe(30);
+    expect(after.demandSurge?.events[0].name).toBe('Hurricane Test');
+    expect(after.recommendations.some(r => r.includes('+30.0% demand surge'))).toBe(true);
+
+    const surge = getDemandSurge('78701')!;
+    const plain = auditClaimItem('Remove HD', 40, 10);
+    const surged = auditClaimItem('Remove HD', 40, 10, { surge });
+    expect(surged.marketPricing!.fmvPrice).toBeCloseTo(plain.marketPricing!.fmvPrice * 1.3, 1);
+    expect(surged.marketPricing!.demandSurge?.surgePct).toBe(30);
+    expect(surged.message).toContain('includes +30.0% demand surge');
+  });
+
+  it('should apply the surge to queued batch audits instead of cached prices', async () => {
+    const input = { items: [{ name: 'Remove HD', price: 40, qty: 10 }], zipCode: '78701' };
+    const runBatch = (batchId: string) => new Promise<any>(resolve => {
+      batchQueue.enqueueBatch(batchId, input, async (_id, status, results) => {
+        if (status !== 'processing') resolve(results);
+      });
+    });
+
+    const before = await runBatch('surge-before');
+    setCatastropheEvents([atPeakToday()]);
+    const after = await runBatch('surge-after');
+
+    expect(before.results[0].marketPricing.demandSurge).toBeUndefined();
+    expect(after.fromCache).toBeFalsy();
+    expect(after.results[0].marketPricing.demandSurge.surgePct).toBe(30);
+    expect(after.results[0].marketPricing.fmvPrice).toBeCloseTo(before.results[0].marketPricing.fmvPrice * 1.3, 1);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assessDepreciation,
+  summarizeDepreciation,
+  getReplacementCost,
+  resolveUsefulLife,
+} from '../services/claimAudit/depreciation';
+import { analyze } from '../services/claimAudit/v1_rulesBasic';
+
+describe('Claim Audit Depreciation', () => {
+  describe('assessDepreciation', () => {
+    it('should derive depreciation from RCV and ACV', () => {
+      const result = assessDepreciation({ description: 'Carpet', quotedPrice: 1000, rcv: 1000, acv: 700 });
+
+      expect(result.depreciationAmount).toBe(300);
+      expect(result.depreciationPct).toBe(30);
+      expect(result.recoverableDepreciation).toBe(300);
+      expect(result.nonRecoverableDepreciation).toBe(0);
+    });
+
+    it('should flag depreciation above the age-based expectation', () => {
+      const result = assessDepreciation({
+        description: 'Laminated comp shingles',
+        quotedPrice: 10000,
+        depreciationAmount: 6000,
+        ageYears: 6,
+      });
+
+      expect(result.usefulLifeYears).toBe(30);
+      expect(result.expectedDepreciationPct).toBe(20);
+      expect(result.excessiveDepreciation).toBe(4000);
+      expect(result.flags[0]).toContain('Excessive depreciation');
+    });
+
+    it('should flag depreciation on labor-only lines', () => {
+      const result = assessDepreciation({ description: 'Tear off haul and dispose', quotedPrice: 500, depreciationAmount: 100 });
+
+      expect(result.expectedDepreciationPct).toBe(0);
+      expect(result.excessiveDepreciation).toBe(100);
+    });
+
+    it('should treat remove-and-replace lines as material', () => {
+      for (const description of [
+        'Remove & replace laminated comp shingles',
+        'R&R Carpet pad',
+        'Remove and replace vinyl siding',
+        'Ridge cap shingles w/ detach & reset',
+      ]) {
+        const result = assessDepreciation({ description, quotedPrice: 1000, depreciationAmount: 300 });
+
+        expect(result.expectedDepreciationPct).toBeUndefined();
+        expect(result.excessiveDepreciation).toBe(0);
+        expect(result.flags.join(' ')).not.toContain('labor/service line');
+      }
+
+      expect(assessDepreciation({ description: 'Remove carpet', quotedPrice: 200, depreciationAmount: 50 }).expectedDepreciationPct).toBe(0);
+      expect(assessDepreciation({ description: 'Detach & reset gutter guard', quotedPrice: 200, depreciationAmount: 50 }).expectedDepreciationPct).toBe(0);
+    });
+
+    it('should split out non-recoverable depreciation', () => {
+      const result = assessDepreciation({ description: 'Fence', quotedPrice: 800, depreciationAmount: 200, nonRecoverableDepreciation: 50 });
+
+      expect(result.recoverableDepreciation).toBe(150);
+      expect(result.nonRecoverableDepreciation).toBe(50);
+    });
+  });
+
+  describe('summarizeDepreciation', () => {
+    it('should net the deductible from ACV', () => {
+      const summary = summarizeDepreciation([
+        assessDepreciation({ description: 'Carpet', quotedPrice: 1000, acv: 800 }),
+        assessDepreciation({ description: 'Paint walls', quotedPrice: 500, acv: 400 }),
+      ], 250);
+
+      expect(summary.totalRcv).toBe(1500);
+      expect(summary.totalAcv).toBe(1200);
+      expect(summary.recoverableDepreciation).toBe(300);
+      expect(summary.netActualCashPayment).toBe(950);
+    });
+  });
+
+  it('should prefer RCV over quoted price and resolve material life', () => {
+    expect(getReplacementCost({ description: 'x', quotedPrice: 100, rcv: 120 })).toBe(120);
+    expect(getReplacementCost({ description: 'x', quotedPrice: 100 })).toBe(100);
+    expect(resolveUsefulLife({ description: 'R&R 3 tab shingles', quotedPrice: 0 })?.usefulLifeYears).toBe(20);
+  });
+
+  it('should include a depreciation summary in v1 audits', async () => {
+    const result = await analyze({
+      zipCode: '78701',
+      deductible: 1000,
+      lineItems: [{ description: 'Carpet', category: 'flooring', quotedPrice: 2000, quantity: 400, acv: 1200, ageYears: 2 }],
+    });
+
+    expect(result.depreciationSummary?.recoverableDepreciation).toBe(800);
+    expect(result.auditedItems[0].depreciation?.excessiveDepreciation).toBeGreaterThan(0);
+    expect(result.recommendations.some(r => r.includes('recoverable depreciation'))).toBe(true);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import JSZip from 'jszip';
+import {
+  buildAppraisalDemandLetter,
+  generateDisputePackage,
+  isGeneratedClaimFile,
+  lineItemsToCsv,
+  sortTimeline,
+  summarizeDispute,
+  type DisputePackageInput,
+} from '../services/disputePackage';
+import { auditContentsInventory } from '../services/contentsInventory';
+
+function readAll(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  return new Promise((resolve, reject) => {
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+// 1x1 transparent PNG
+const PNG_PIXEL = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==', 'base64');
+
+const input: DisputePackageInput = {
+  claimNumber: 'HO-2024-0042',
+  lossDate: '2024-05-14',
+  carrier: 'State Farm',
+  zipCode: '78701',
+  policyholderName: 'Alex Rivera',
+  lineItems: [
+    { description: 'Laminated - comp. shingle rfg. - w/out felt', category: 'Roofing', quantity: 24, unit: 'SQ', carrierAmount: 4800, fmvAmount: 6240 },
+    { description: 'Drip edge', category: 'Roofing', quantity: 180, unit: 'LF', carrierAmount: 500, fmvAmount: 450 },
+  ],
+  carrierEvidence: [{
+    item: 'Shingles',
+    severity: 'HIGH',
+    percentageUnderpayment: 22,
+    message: 'HIGH RISK: Historical data shows State Farm underpays "Shingles" by 22%.',
+    recommendedAction: 'Provide detailed photographic evidence',
+    sampleSize: 48,
+    confidenceLevel: 'high',
+  }],
+  timeline: [
+    { date: '2024-06-02', title: 'Carrier estimate received' },
+    { date: '2024-05-14', title: 'Date of loss' },
+    { date: 'unknown', title: 'Undated note' },
+  ],
+  attachments: [
+    { fileName: 'roof-north.png', contentType: 'image/png', data: PNG_PIXEL, uploadedAt: '2024-05-20' },
+    { fileName: 'contractor-bid.pdf', contentType: 'application/pdf', data: () => Readable.from([Buffer.from('%PDF-1.4 bid')]) },
+    { fileName: 'roof-north.png', contentType: 'image/png', data: PNG_PIXEL },
+  ],
+  generatedAt: new Date(2024, 7, 1),
+};
+
+describe('Dispute Package Builder', () => {
+  it('should only count lines priced below FMV as disputed', () => {
+    expect(summarizeDispute(input.lineItems)).toEqual({
+      carrierTotal: 5300,
+      fmvTotal: 6690,
+      disputedAmount: 1440,
+      disputedCount: 1,
+    });
+  });
+
+  it('should invoke the appraisal clause and leave unknown names for the user to fill in', () => {
+    const letter = buildAppraisalDemandLetter(input, summarizeDispute(input.lineItems)).join('\n');
+    expect(letter).toContain('demands appraisal of the amount of loss');
+    expect(letter).toContain('$1,440.00 in dispute across 1 line items');
+    expect(letter).toContain('Alex Rivera has selected [APPRAISER_NAME]');
+  });
+
+  it('should order the timeline and drop undated events', () => {
+    expect(sortTimeline(input.timeline).map(e => e.title)).toEqual(['Date of loss', 'Carrier estimate received']);
+  });
+
+  it('should render a paginated PDF with a table of contents', async () => {
+    const { body, contentType, tableOfContents } = await generateDisputePackage(input, 'pdf');
+    const buffer = body as Buffer;
+
+    expect(contentType).toBe('application/pdf');
+    expect(buffer.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(tableOfContents.map(entry => entry.title)).toEqual([
+      'Appraisal Demand Letter',
+      'Audit Report',
+      'Pricing Citations',
+      'Carrier Pattern Evidence',
+      'Claim Timeline',
+      'Photos & Documents',
+    ]);
+    // Cover and contents come first, each section starts a new page
+    expect(tableOfContents[0].page).toBe(3);
+    for (let i = 1; i < tableOfContents.length; i++) {
+      expect(tableOfContents[i].page).toBeGreaterThan(tableOfContents[i - 1].page);
+    }
+  });
+
+  it('should archive the PDF, the audited lines and every source file', async () => {
+    const { body, fileName } = await generateDisputePackage(input, 'zip');
+    const zip = await JSZip.loadAsync(await readAll(body as NodeJS.ReadableStream));
+
+    expect(fileName).toBe('dispute-package-HO-2024-0042.zip');
+    expect(Object.keys(zip.files).filter(name => !zip.files[name].dir).sort()).toEqual([
+      'audit-line-items.csv',
+      'dispute-package.pdf',
+      'source-files/contractor-bid.pdf',
+      'source-files/roof-north-2.png',
+      'source-files/roof-north.png',
+    ]);
+    expect(await zip.files['source-files/contractor-bid.pdf'].async('string')).toBe('%PDF-1.4 bid');
+    expect(lineItemsToCsv(input.lineItems).split('\n')[1]).toBe('Laminated - comp. shingle rfg. - w/out felt,Roofing,24,SQ,4800.00,6240.00,1440.00');
+  });
+
+  it('should add the contents inventory section and CSV when the claim has one', async () => {
+    const withContents = { ...input, contents: auditContentsInventory([{ name: 'Sectional sofa', ageYears: 3, carrierAcv: 300 }]) };
+    const { tableOfContents } = await generateDisputePackage(withContents, 'pdf');
+    const zip = await JSZip.loadAsync(await readAll((await generateDisputePackage(withContents, 'zip')).body as NodeJS.ReadableStream));
+
+    expect(tableOfContents.map(entry => entry.title).slice(1, 3)).toEqual(['Audit Report', 'Contents Inventory']);
+    expect(buildAppraisalDemandLetter(withContents, summarizeDispute(input.lineItems)).join('\n')).toContain('a further $600.00 in dispute');
+    expect(zip.files['contents-inventory.csv']).toBeDefined();
+  });
+
+  it('should leave generated reports and earlier packages out of the source files', () => {
+    expect(isGeneratedClaimFile('report-1718000000000.pdf')).toBe(true);
+    expect(isGeneratedClaimFile('dispute-package-HO-2024-0042.zip')).toBe(true);
+    expect(isGeneratedClaimFile('contractor-bid.pdf')).toBe(false);
+    expect(isGeneratedClaimFile('roof-report.pdf')).toBe(false);
+  });
+});
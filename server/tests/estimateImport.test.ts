@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseEstimateXml,
+  parseEstimateCsv,
+  parseEstimateText,
+  detectEstimateFormat,
+  mapCategoryCode,
+  toClaimLineItems,
+} from '../services/estimateImport';
+import { analyze } from '../services/claimAudit/v1_rulesBasic';
+
+describe('Estimate Import Service', () => {
+  describe('parseEstimateXml', () => {
+    const xml = `<?xml version="1.0"?>
+      <ESTIMATE claimNumber="CLM-1001" carrier="State Farm">
+        <GROUP desc="Kitchen">
+          <ITEM lineNum="1" cat="DRY" sel="1/2" act="R&amp;R" desc="1/2&quot; drywall - hung, taped, floated" qty="128" unit="SF" replace="2.15" tax="8.40" oandp="56.80" rcv="340.40" dep="34.04" acv="306.36"/>
+          <ITEM lineNum="2" cat="PNT" sel="P" desc="Paint the walls - two coats" qty="128" unit="SF" replace="1.05" rcv="134.40"/>
+        </GROUP>
+        <GROUP desc="Roof">
+          <ITEM lineNum="3" cat="RFG" sel="300S" desc="Laminated comp. shingle rfg." qty="24.33" unit="SQ" replace="265.00" rcv="6447.45" dep="&lt;1289.49&gt;" acv="5157.96"/>
+        </GROUP>
+      </ESTIMATE>`;
+
+    it('should recover codes, quantities and values per line', () => {
+      const result = parseEstimateXml(xml, 'xactimate-xml');
+
+      expect(result.lines).toHaveLength(3);
+      expect(result.claimNumber).toBe('CLM-1001');
+      expect(result.carrier).toBe('State Farm');
+
+      const drywall = result.lines[0];
+      expect(drywall.categoryCode).toBe('DRY');
+      expect(drywall.selectorCode).toBe('1/2');
+      expect(drywall.activity).toBe('R&R');
+      expect(drywall.quantity).toBe(128);
+      expect(drywall.unit).toBe('SF');
+      expect(drywall.overheadAndProfit).toBe(56.8);
+      expect(drywall.rcv).toBe(340.4);
+      expect(drywall.depreciation).toBe(34.04);
+      expect(drywall.acv).toBe(306.36);
+      expect(drywall.room).toBe('Kitchen');
+      expect(drywall.provenance.origin).toBe('xml-element');
+    });
+
+    it('should mark angle-bracket depreciation as non-recoverable', () => {
+      const result = parseEstimateXml(xml, 'xactimate-xml');
+      const roof = result.lines[2];
+
+      expect(roof.depreciation).toBe(1289.49);
+      expect(roof.depreciationRecoverable).toBe(false);
+      expect(result.lines[0].depreciationRecoverable).toBe(true);
+      expect(result.totals.rcv).toBe(6922.25);
+    });
+  });
+
+  describe('parseEstimateCsv', () => {
+    it('should map aliased headers and quoted cells', () => {
+      const csv = [
+        'Line,Category,Selector,Description,Quantity,Unit,Unit Price,Total,Depreciation,ACV',
+        '1,RFG,300S,"Shingles, laminated",20,SQ,250.00,5000.00,1000.00,4000.00',
+        '2,FNC,BASE,Baseboard - 3 1/4",40,LF,3.50,140.00,,',
+      ].join('\n');
+
+      const result = parseEstimateCsv(csv);
+
+      expect(result.format).toBe('symbility-csv');
+      expect(result.lines).toHaveLength(2);
+      expect(result.lines[0].description).toBe('Shingles, laminated');
+      expect(result.lines[0].acv).toBe(4000);
+      expect(result.lines[1].rcv).toBe(140);
+      expect(result.lines[1].provenance.locator).toBe('row 3');
+    });
+
+    it('should carry labor, material and tax columns through to claim lines', () => {
+      const csv = [
+        'Description,Quantity,Unit,Labor,Material,Sales Tax,RCV',
+        'Laminated shingles,20,SQ,3600.00,3800.00,237.50,7637.50',
+      ].join('\n');
+
+      const [line] = toClaimLineItems(parseEstimateCsv(csv));
+
+      expect(line).toMatchObject({ laborCost: 3600, materialCost: 3800, salesTax: 237.5, quotedPrice: 7400, rcv: 7637.5 });
+    });
+  });
+
+  describe('parseEstimateText', () => {
+    it('should parse Xactimate line item detail rows', () => {
+      const text = [
+        'Xactimate estimate',
+        'Claim Number: 12-3456-789',
+        'DESCRIPTION QUANTITY UNIT PRICE TAX O&P RCV DEPREC. ACV',
+        'Room: Master Bedroom',
+        '1. R&R Carpet pad 180.00 SF 0.65 4.21 24.24 145.45 (29.09) 116.36',
+        '2. Baseboard - 3 1/4" 54.00 LF 3.12 0.00 168.48 <8.42> 160.06',
+        'Totals: Master Bedroom 304.71',
+      ].join('\n');
+
+      const result = parseEstimateText(text);
+
+      expect(result.format).toBe('xactimate-pdf');
+      expect(result.claimNumber).toBe('12-3456-789');
+      expect(result.lines).toHaveLength(2);
+
+      const pad = result.lines[0];
+      expect(pad.activity).toBe('R&R');
+      expect(pad.quantity).toBe(180);
+      expect(pad.overheadAndProfit).toBe(24.24);
+      expect(pad.rcv).toBe(145.45);
+      expect(pad.depreciation).toBe(29.09);
+      expect(pad.depreciationRecoverable).toBe(true);
+      expect(pad.room).toBe('Master Bedroom');
+      expect(pad.provenance.confidence).toBe('high');
+      expect(result.lines[1].depreciationRecoverable).toBe(false);
+    });
+  });
+
+  describe('detectEstimateFormat', () => {
+    it('should detect formats from extension and content', () => {
+      expect(detectEstimateFormat('claim.ESX', 'application/octet-stream', '')).toBe('xactimate-esx');
+      expect(detectEstimateFormat('export.xml', 'text/xml', '<Symbility>')).toBe('symbility-xml');
+      expect(detectEstimateFormat('export.xml', 'text/xml', '<ESTIMATE>')).toBe('xactimate-xml');
+      expect(detectEstimateFormat('estimate.pdf', 'application/pdf', '')).toBe('generic-pdf');
+      expect(detectEstimateFormat('notes.txt', 'text/plain', 'hello')).toBeNull();
+    });
+  });
+
+  describe('toClaimLineItems', () => {
+    it('should quote lines before tax and O&P and map category codes to audit trades', () => {
+      expect(mapCategoryCode('rfg')).toBe('roofing');
+      expect(mapCategoryCode('FCT')).toBe('flooring');
+      expect(mapCategoryCode('XYZ')).toBeUndefined();
+
+      const items = toClaimLineItems({
+        lines: [{
+          lineNumber: 1,
+          categoryCode: 'DRY',
+          description: 'Drywall',
+          quantity: 100,
+          unit: 'SF',
+          rcv: 250,
+          provenance: { format: 'xactimate-xml', origin: 'xml-element', locator: '<ITEM> #1', confidence: 'high' },
+        }],
+      });
+
+      expect(items).toEqual([{ description: 'Drywall', quotedPrice: 250, category: 'drywall', quantity: 100, unit: 'SF', rcv: 250 }]);
+
+      const xml = '<ESTIMATE><ITEM cat="DRY" desc="1/2&quot; drywall" qty="128" unit="SF" replace="2.15" tax="8.40" oandp="56.80" rcv="340.40"/></ESTIMATE>';
+      const [drywall] = toClaimLineItems(parseEstimateXml(xml, 'xactimate-xml'));
+      expect(drywall).toMatchObject({ quotedPrice: 275.2, rcv: 340.4, salesTax: 8.4, overheadAndProfit: 56.8 });
+    });
+
+    it('should audit imported lines against market prices before tax and O&P', async () => {
+      const xml = '<ESTIMATE><ITEM cat="DRY" desc="1/2&quot; drywall" qty="128" unit="SF" replace="2.15" tax="8.40" oandp="56.80" rcv="340.40"/></ESTIMATE>';
+      const imported = await analyze({ zipCode: '78701', lineItems: toClaimLineItems(parseEstimateXml(xml, 'xactimate-xml')) });
+      const plain = await analyze({ zipCode: '78701', lineItems: [{ description: '1/2" drywall', category: 'drywall', quantity: 128, unit: 'SF', quotedPrice: 275.2 }] });
+
+      expect(imported.auditedItems[0].variance).toBeCloseTo(plain.auditedItems[0].variance, 6);
+      expect(imported.summary.totalQuoted).toBe(340.4);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { auditLaborMaterial, laborMaterialRecommendations } from '../services/claimAudit/laborMaterial';
+import { analyze } from '../services/claimAudit/v1_rulesBasic';
+import { getMaterialSalesTax } from '../utils/salesTax';
+import type { AuditedLineItem, ClaimAuditInput, ClaimLineItem } from '../services/claimAudit/types';
+
+function audit(zipCode: string, lineItems: ClaimLineItem[]) {
+  const input: ClaimAuditInput = { carrier: 'Test Carrier', zipCode, lineItems };
+  const auditedItems: AuditedLineItem[] = lineItems.map(original => ({
+    original,
+    marketPrice: original.quotedPrice,
+    variance: 0,
+    flags: [],
+    recommendation: 'Price acceptable',
+  }));
+  return { summary: auditLaborMaterial(input, auditedItems), auditedItems };
+}
+
+// Austin, TX: 0.98 regional multiplier, 6.25% state sales tax
+const AUSTIN = '78701';
+const shingles = { description: 'Laminated - comp. shingle rfg. - w/out felt', quantity: 25, unit: 'SQ', catalogCode: 'RFG 300S' };
+
+describe('Labor vs. Material Split', () => {
+  it('should look up the state sales tax rate for materials', () => {
+    expect(getMaterialSalesTax(AUSTIN)).toMatchObject({ stateCode: 'TX', ratePct: 6.25 });
+    expect(getMaterialSalesTax('97201')).toMatchObject({ stateCode: 'OR', ratePct: 0 });
+  });
+
+  it('should compare an itemized labor and material breakdown component by component', () => {
+    const { summary, auditedItems } = audit(AUSTIN, [
+      { ...shingles, quotedPrice: 7706.25, laborCost: 2500, materialCost: 4900, salesTax: 306.25 },
+    ]);
+
+    expect(auditedItems[0].laborMaterial).toMatchObject({
+      source: 'carrier',
+      laborCost: 2500,
+      materialCost: 4900,
+      expectedLaborCost: 4939.2,
+      expectedMaterialCost: 4939.2,
+      expectedSalesTax: 306.25,
+    });
+    // Labor is 49% under the baseline; materials are within tolerance and fully taxed
+    expect(summary.gaps.map(g => g.kind)).toEqual(['labor']);
+    expect(summary.gaps[0]).toMatchObject({ carrierAmount: 2500, expectedAmount: 4939.2, shortfall: 2439.2 });
+    expect(auditedItems[0].flags[0]).toMatch(/^Labor priced at \$2500\.00/);
+    expect(summary.additionalAmount).toBe(0);
+  });
+
+  it('should report sales tax missing from itemized materials per line or against tax lines', () => {
+    const perLine = audit(AUSTIN, [
+      { ...shingles, quotedPrice: 9800, laborCost: 4900, materialCost: 4900, salesTax: 0 },
+    ]).summary;
+    expect(perLine.gaps).toEqual([
+      expect.objectContaining({ kind: 'sales_tax', lineItem: shingles.description, expectedAmount: 306.25, shortfall: 306.25 }),
+    ]);
+    expect(perLine.additionalAmount).toBe(306.25);
+
+    // Separate tax lines are checked once against the inferred material share
+    const taxLine = audit(AUSTIN, [
+      { ...shingles, quotedPrice: 7000 },
+      { description: 'Material sales tax', quotedPrice: 100 },
+    ]).summary;
+    expect(taxLine.gaps).toEqual([
+      expect.objectContaining({ kind: 'sales_tax', lineItem: 'Material sales tax', carrierAmount: 100, expectedAmount: 218.75, shortfall: 118.75 }),
+    ]);
+
+    // A plain price list may already include tax, and Oregon has none
+    expect(audit(AUSTIN, [{ ...shingles, quotedPrice: 7000 }]).summary.gaps).toEqual([]);
+    expect(audit('97201', [{ ...shingles, quotedPrice: 9800, laborCost: 4900, materialCost: 4900 }]).summary.gaps
+      .filter(g => g.kind === 'sales_tax')).toEqual([]);
+  });
+
+  it('should add a labor minimum to small jobs and catch an under-priced one', () => {
+    const outlet = { description: 'Replace outlet', quotedPrice: 60, quantity: 1, unit: 'EA', catalogCode: 'ELE OUTL' };
+
+    const missing = audit(AUSTIN, [outlet]).summary;
+    expect(missing.gaps).toEqual([
+      expect.objectContaining({ kind: 'labor_minimum', trade: 'electrical', carrierAmount: 0, expectedAmount: 121.5, shortfall: 121.5 }),
+    ]);
+    expect(missing.gaps[0].detail).toMatch(/^Small electrical job/);
+
+    const underpriced = audit(AUSTIN, [outlet, { description: 'Electrical labor minimum', quotedPrice: 80 }]).summary;
+    expect(underpriced.gaps).toEqual([
+      expect.objectContaining({ kind: 'labor_minimum', carrierAmount: 80, shortfall: 41.5 }),
+    ]);
+
+    expect(audit(AUSTIN, [outlet, { description: 'Electrical labor minimum', quotedPrice: 125 }]).summary.gaps).toEqual([]);
+    expect(laborMaterialRecommendations(missing)).toEqual(['Request $122 in labor minimum charges for small electrical jobs']);
+  });
+
+  it('should report the section and count tax and minimums as underpayment in claim audits', async () => {
+    const lineItems: ClaimLineItem[] = [
+      { ...shingles, quotedPrice: 9800, laborCost: 4900, materialCost: 4900, salesTax: 0 },
+    ];
+    const result = await analyze({ zipCode: AUSTIN, lineItems });
+
+    expect(result.laborMaterial?.gaps.map(g => g.kind)).toEqual(['sales_tax']);
+    expect(result.auditedItems[0].laborMaterial?.source).toBe('carrier');
+    expect(result.recommendations).toContain('Request $306 of sales tax on materials at the TX 6.25% rate');
+    // v1's category average is below the quote, so the missing tax is the whole underpayment
+    expect(result.summary.totalUnderpayment).toBeCloseTo(306.25, 2);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LINE_ITEM_CATALOG,
+  getCatalogEntry,
+  getCatalogEntryBySelector,
+  resolveLineItem,
+  resolveTrade,
+} from '../../shared/lineItemCatalog';
+import priceDB from '../../shared/priceDB.json';
+import { auditClaimItem } from '../../shared/priceAudit';
+import { BASELINE_PRICING, getLineItemByCode } from '../utils/baselinePricing';
+import { detectTrade } from '../services/claimValidator';
+import { toClaimLineItems } from '../services/estimateImport';
+import { detectAuditCategory, matchClaimLineItem } from '../services/claimAudit/catalog';
+import { analyze } from '../services/claimAudit/v1_rulesBasic';
+
+describe('Line-Item Catalog', () => {
+  describe('catalog integrity', () => {
+    it('should reference only existing pricing source items', () => {
+      const codes = new Set(LINE_ITEM_CATALOG.map(entry => entry.code));
+      expect(codes.size).toBe(LINE_ITEM_CATALOG.length);
+
+      for (const entry of LINE_ITEM_CATALOG) {
+        for (const key of entry.priceDbKeys) {
+          expect(priceDB).toHaveProperty([key]);
+        }
+        if (entry.baseline) {
+          const category = BASELINE_PRICING.find(c => c.category === entry.baseline!.category);
+          expect(category?.lineItems.some(item => item.name === entry.baseline!.name)).toBe(true);
+        }
+      }
+    });
+
+    it('should cover every priceDB key and baseline line item', () => {
+      for (const key of Object.keys(priceDB)) {
+        expect(LINE_ITEM_CATALOG.some(entry => entry.priceDbKeys.includes(key))).toBe(true);
+      }
+      for (const category of BASELINE_PRICING) {
+        for (const item of category.lineItems) {
+          expect(LINE_ITEM_CATALOG.some(entry => entry.baseline?.name === item.name)).toBe(true);
+        }
+      }
+    });
+  });
+
+  describe('resolveLineItem', () => {
+    it('should resolve estimate and OCR wording to catalog codes', () => {
+      expect(resolveLineItem('R&R Laminated comp shingle rfg')?.code).toBe('RFG 300S');
+      expect(resolveLineItem('Tear off 3 tab shingles')?.code).toBe('RFG ARMV');
+      expect(resolveLineItem('Carpet padding')?.code).toBe('FCC PAD');
+      expect(resolveLineItem('1/2" drywall - hung, taped, floated, ready for paint')?.code).toBe('DRY 1/2');
+      expect(resolveLineItem('Batt Insulation - R-19')?.code).toBe('INS R19');
+    });
+
+    it('should report a score and accept codes directly', () => {
+      const byCode = resolveLineItem('rfg 300s');
+      expect(byCode?.score).toBe(1);
+      expect(byCode?.matchedOn).toBe('code');
+
+      const partial = resolveLineItem('Paint the walls - two coats');
+      expect(partial?.code).toBe('PNT WALL');
+      expect(partial!.score).toBeGreaterThan(0.55);
+      expect(partial!.score).toBeLessThan(1);
+    });
+
+    it('should return null for descriptions outside the catalog', () => {
+      expect(resolveLineItem('Random unrelated item')).toBeNull();
+      expect(resolveLineItem('')).toBeNull();
+    });
+
+    it('should resolve trades and selector codes', () => {
+      expect(resolveTrade('Commode')).toBe('plumbing');
+      expect(resolveTrade('Anything', 'roofing')).toBe('roofing');
+      expect(getCatalogEntryBySelector('FNC', 'BASE')?.unit).toBe('LF');
+      expect(getCatalogEntry('XYZ 1')).toBeUndefined();
+    });
+  });
+
+  describe('consumers', () => {
+    it('should match price DB keys through the catalog', () => {
+      expect(auditClaimItem('Architectural shingles', 200, 10).item).toBe('Replace HD');
+      expect(auditClaimItem('Pipe boot', 20, 2).item).toBe('Pipe Jack');
+    });
+
+    it('should look up baseline rates by code', () => {
+      expect(getLineItemByCode('DRY 1/2')?.name).toBe('Drywall - 1/2" Standard');
+      expect(getLineItemByCode('CON MVRS')).toBeUndefined();
+    });
+
+    it('should detect trades the keyword rules miss', () => {
+      expect(detectTrade('Commode')).toBe('plumbing');
+      expect(detectTrade('Romex')).toBe('electrical');
+    });
+
+    it('should audit Title-case categories and uncataloged descriptions under their trade', async () => {
+      const category = (description: string, itemCategory?: string) => {
+        const item = { description, category: itemCategory, quotedPrice: 100 };
+        return detectAuditCategory(item, matchClaimLineItem(item));
+      };
+      expect(category('Shingles', 'Roofing')).toBe('roofing');
+      expect(category('Door slab', 'Windows & Doors')).toBe('windows');
+      expect(category('Exterior vinyl')).toBe('siding');
+      expect(category('Ceiling water stain repair')).toBe('drywall');
+
+      // Priced at the roofing average, not the "other" rate, with roofing scope checks
+      const result = await analyze({
+        zipCode: '78701',
+        lineItems: [{ description: 'Roof covering', category: 'Roofing', quantity: 20, unit: 'SQ', quotedPrice: 80 }],
+      });
+      expect(result.auditedItems[0].marketPrice).toBe(100);
+      expect(result.missingItems.some(item => item.startsWith('roofing: '))).toBe(true);
+    });
+
+    it('should carry catalog codes from imported estimate selectors', () => {
+      const [item] = toClaimLineItems({
+        lines: [{
+          lineNumber: 1,
+          categoryCode: 'RFG',
+          selectorCode: '300S',
+          description: 'Laminated - comp. shingle rfg. - w/out felt',
+          quantity: 24,
+          unit: 'SQ',
+          rcv: 6360,
+          provenance: { format: 'xactimate-xml', origin: 'xml-element', locator: '<ITEM> #1', confidence: 'high' },
+        }],
+      });
+
+      expect(item.catalogCode).toBe('RFG 300S');
+      expect(item.category).toBe('roofing');
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { classifySyncResponse, isLocalSessionId, sameClaimSubmission, syncRetryDelayMs } from '@shared/offlineSync';
+import { analyzeClaimOffline } from '../services/claimAudit/offlineAnalysis';
+
+describe('Offline Sync', () => {
+  it('should classify server responses for the outbox', () => {
+    expect(classifySyncResponse(200)).toBe('synced');
+    expect(classifySyncResponse(409)).toBe('conflict');
+    expect(classifySyncResponse(404)).toBe('conflict');
+    expect(classifySyncResponse(401)).toBe('retry');
+    expect(classifySyncResponse(429)).toBe('retry');
+    expect(classifySyncResponse(503)).toBe('retry');
+    expect(classifySyncResponse(400)).toBe('rejected');
+    expect(classifySyncResponse(413)).toBe('rejected');
+  });
+
+  it('should back off between attempts up to a cap', () => {
+    expect(syncRetryDelayMs(1)).toBe(5_000);
+    expect(syncRetryDelayMs(3)).toBe(20_000);
+    expect(syncRetryDelayMs(20)).toBe(15 * 60_000);
+    expect(isLocalSessionId('local-1234')).toBe(true);
+    expect(isLocalSessionId('8f14e45f-ceea-467f-a0e6-1234567890ab')).toBe(false);
+  });
+
+  it('should match replayed claim submissions by totals and item count', () => {
+    const stored = { totalQuoted: '1200.00' as unknown as number, totalFmv: 1500, lineItemCount: 2 };
+    expect(sameClaimSubmission(stored, { totalQuoted: 1200, totalFmv: 1500.004, lineItemCount: 2 })).toBe(true);
+    expect(sameClaimSubmission(stored, { totalQuoted: 1200, totalFmv: 1600, lineItemCount: 2 })).toBe(false);
+    expect(sameClaimSubmission(stored, { totalQuoted: 1200, totalFmv: 1500, lineItemCount: 3 })).toBe(false);
+  });
+
+  it('should shape v1 results like the analyze endpoint', async () => {
+    const result = await analyzeClaimOffline({
+      zipCode: '78701',
+      items: [
+        { category: 'Roofing', description: 'Architectural shingles', quantity: 10, unit: 'SF', quotedPrice: 20, room: 'Roof' },
+        { category: 'Painting', description: 'Paint walls', quantity: 100, quotedPrice: 250 },
+      ],
+    });
+
+    expect(result.offline).toBe(true);
+    expect(result.engine).toBe('v1-rules-basic');
+    const [roof, paint] = result.items;
+    expect(roof).toMatchObject({ room: 'Roof', insuranceOffer: 20, fmvPrice: 50, additionalAmount: 30, percentageIncrease: 150, status: 'underpaid', citation: null });
+    expect(paint).toMatchObject({ room: null, unit: 'EA', insuranceOffer: 250, fmvPrice: 250, additionalAmount: 0, status: 'fair' });
+    expect(result.summary).toEqual({ totalInsuranceOffer: 270, totalFMV: 300, totalAdditional: 30, overallIncrease: 11.11 });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { assessOverheadProfit, formatOverheadProfitMissingItem, getStateOPRule } from '../services/claimAudit/overheadProfit';
+import { analyze } from '../services/claimAudit/v1_rulesBasic';
+
+const multiTradeItems = [
+  { description: 'Laminated shingles', category: 'roofing', quotedPrice: 8000, quantity: 20 },
+  { description: 'Drywall replacement', category: 'drywall', quotedPrice: 1200, quantity: 300 },
+  { description: 'Paint walls and ceiling', category: 'painting', quotedPrice: 800, quantity: 600 },
+];
+
+describe('Overhead & Profit Analyzer', () => {
+  it('should require O&P when three or more trades are involved', () => {
+    const result = assessOverheadProfit({ zipCode: '78701', lineItems: multiTradeItems });
+
+    expect(result.eligible).toBe(true);
+    expect(result.tradeCount).toBe(3);
+    expect(result.baseAmount).toBe(10000);
+    expect(result.expectedAmount).toBe(2000);
+    expect(result.missingAmount).toBe(2000);
+  });
+
+  it('should credit O&P already included in the estimate', () => {
+    const items = multiTradeItems.map(item => ({
+      ...item,
+      quotedPrice: item.quotedPrice * 1.1,
+      overheadAndProfit: item.quotedPrice * 0.1,
+    }));
+    const result = assessOverheadProfit({ zipCode: '78701', lineItems: items });
+
+    expect(result.includedAmount).toBe(1000);
+    expect(result.missingAmount).toBe(1000);
+  });
+
+  it('should not require O&P for single-trade jobs', () => {
+    const result = assessOverheadProfit({ zipCode: '78701', lineItems: [multiTradeItems[0]] });
+
+    expect(result.eligible).toBe(false);
+    expect(result.missingAmount).toBe(0);
+    expect(formatOverheadProfitMissingItem(result)).toBeNull();
+  });
+
+  it('should apply lower state thresholds', () => {
+    expect(getStateOPRule('GA').minTrades).toBe(2);
+    expect(getStateOPRule('TX').minTrades).toBe(3);
+
+    const result = assessOverheadProfit({ zipCode: '30301', lineItems: multiTradeItems.slice(0, 2) });
+    expect(result.state).toBe('GA');
+    expect(result.eligible).toBe(true);
+  });
+
+  it('should add missing O&P to missing items and total underpayment', async () => {
+    const result = await analyze({ zipCode: '78701', lineItems: multiTradeItems });
+
+    expect(result.missingItems[0]).toContain('overhead & profit');
+    expect(result.overheadProfit?.missingAmount).toBe(2000);
+    expect(result.summary.totalUnderpayment).toBeGreaterThanOrEqual(2000);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { describePhoto, extractPhotoMetadata, isPhotoThumbnail, parsePhotoMetadata, photoObjectNames } from '../services/photoEvidence';
+
+// Minimal PNG header: signature plus the IHDR chunk holding width and height
+function pngHeader(width: number, height: number): Buffer {
+  const data = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(data, 0);
+  data.writeUInt32BE(13, 8);
+  data.write('IHDR', 12, 'ascii');
+  data.writeUInt32BE(width, 16);
+  data.writeUInt32BE(height, 20);
+  return data;
+}
+
+describe('Photo Evidence', () => {
+  it('should map EXIF capture time, GPS and camera', () => {
+    const metadata = parsePhotoMetadata({
+      DateTimeOriginal: new Date('2024-05-14T16:32:00Z'),
+      ModifyDate: new Date('2024-06-01T00:00:00Z'),
+      latitude: 32.776664,
+      longitude: -96.796988,
+      Make: 'Canon',
+      Model: 'Canon EOS R6',
+      ExifImageWidth: 6000,
+      ExifImageHeight: 4000,
+    });
+
+    expect(metadata).toEqual({
+      capturedAt: new Date('2024-05-14T16:32:00Z'),
+      latitude: 32.776664,
+      longitude: -96.796988,
+      cameraModel: 'Canon EOS R6',
+      width: 6000,
+      height: 4000,
+    });
+    expect(parsePhotoMetadata({ Make: 'Apple', Model: 'iPhone 14' }).cameraModel).toBe('Apple iPhone 14');
+  });
+
+  it('should drop incomplete or out-of-range GPS', () => {
+    expect(parsePhotoMetadata({ latitude: 32.7 })).toMatchObject({ latitude: null, longitude: null });
+    expect(parsePhotoMetadata({ latitude: 132.7, longitude: -96.8 })).toMatchObject({ latitude: null, longitude: null });
+    expect(parsePhotoMetadata(null)).toMatchObject({ capturedAt: null, cameraModel: null });
+  });
+
+  it('should read PNG dimensions when there is no EXIF', async () => {
+    const metadata = await extractPhotoMetadata(pngHeader(1280, 960));
+
+    expect(metadata).toMatchObject({ capturedAt: null, latitude: null, width: 1280, height: 960 });
+  });
+
+  it('should name photo objects and recognise thumbnails', () => {
+    const names = photoObjectNames('image/png', 'abc-123');
+
+    expect(names).toEqual({ fileName: 'photo-abc-123.png', thumbnailFileName: 'photo-abc-123-thumb.jpg' });
+    expect(isPhotoThumbnail(`.private/claims/c1/${names.thumbnailFileName}`)).toBe(true);
+    expect(isPhotoThumbnail(names.fileName)).toBe(false);
+    expect(isPhotoThumbnail('estimate-thumb.jpg')).toBe(false);
+  });
+
+  it('should describe a photo for report appendices', () => {
+    expect(describePhoto({
+      originalName: 'IMG_0042.jpg',
+      room: 'Kitchen',
+      caption: 'Water staining on ceiling',
+      capturedAt: '2024-05-14T16:32:00Z',
+      latitude: '32.776664',
+      longitude: '-96.796988',
+      cameraModel: 'Apple iPhone 14',
+      lineItems: ['Drywall repair', 'Ceiling paint'],
+    })).toEqual([
+      'Water staining on ceiling',
+      'Room: Kitchen',
+      'Line items: Drywall repair; Ceiling paint',
+      'Taken May 14, 2024, 4:32 PM UTC',
+      'GPS 32.776664, -96.796988',
+      'Camera: Apple iPhone 14',
+    ]);
+  });
+});
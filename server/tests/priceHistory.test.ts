@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appendIndexObservations,
+  escalationFactor,
+  indexValueAt,
+  materialIndexFor,
+  monthKey,
+  DEFAULT_INDEX_SERIES,
+} from '@shared/priceIndices';
+import { buildPriceHistory, priceRangeAt, priceTrend, type PriceHistoryPoint } from '@shared/priceHistory';
+import { auditClaimItem, getMarketData } from '@shared/priceAudit';
+import { statePriceRatios } from '../services/pricingStatistics';
+import { blsObservations } from '../services/materialIndices';
+
+const CURRENT = { p10: 100, p50: 120, p90: 140, asOf: '2025-07-15' };
+
+describe('Price History and Material Indices', () => {
+  it('should interpolate index values and rebase live observations', () => {
+    expect(monthKey('2024-03-31T12:00:00Z')).toBe('2024-03');
+    expect(indexValueAt(DEFAULT_INDEX_SERIES.lumber, '2021-07-01')).toBe(172);
+    expect(indexValueAt(DEFAULT_INDEX_SERIES.lumber, '2022-01-01')).toBeCloseTo(165, 0);
+    expect(indexValueAt(DEFAULT_INDEX_SERIES.lumber, '2010-01-01')).toBe(104);
+
+    const merged = appendIndexObservations(DEFAULT_INDEX_SERIES.construction, [
+      { period: '2025-07', value: 272 },
+      { period: '2025-08', value: 274.72 },
+    ]);
+    expect(merged.find(point => point.period === '2025-07')!.value).toBe(136);
+    expect(merged.find(point => point.period === '2025-08')!.value).toBeCloseTo(137.36, 2);
+    expect(merged.some(point => point.period === '2024-07')).toBe(true);
+
+    expect(blsObservations([
+      { seriesId: 'WPU081', year: '2025', period: 'M13', value: '250' },
+      { seriesId: 'WPU081', year: '2025', period: 'M02', value: '251.5' },
+    ])).toEqual([{ period: '2025-02', value: 251.5 }]);
+  });
+
+  it('should escalate by the material share of the item index', () => {
+    expect(materialIndexFor('Remove 3-Tab Asphalt')).toBe('asphalt');
+    expect(materialIndexFor('Mystery line item')).toBe('construction');
+
+    // Lumber jumped 72% between mid-2019 and mid-2021, construction 11%
+    const lumber = escalationFactor('lumber', '2019-07', '2021-07');
+    expect(lumber).toBeCloseTo(0.4 * 1.72 + 0.6 * 1.11, 3);
+    expect(escalationFactor('construction', '2019-07', '2021-07')).toBeCloseTo(1.11, 3);
+    expect(escalationFactor('lumber', '2021-07', '2019-07')).toBeLessThan(1);
+  });
+
+  it('should price at a date from the nearest snapshot or the current range', () => {
+    const history: PriceHistoryPoint[] = [
+      { period: '2023-03', p10: 80, p50: 95, p90: 110, sampleSize: 12, basis: 'snapshot' },
+    ];
+
+    const exact = priceRangeAt(CURRENT, '2023-03-20', 'asphalt', { history });
+    expect(exact).toMatchObject({ basis: 'snapshot', p50: 95, anchorPeriod: '2023-03' });
+
+    const near = priceRangeAt(CURRENT, '2023-05-01', 'asphalt', { history });
+    expect(near.basis).toBe('indexed');
+    expect(near.anchorPeriod).toBe('2023-03');
+    expect(near.p50).toBeGreaterThan(95);
+    expect(near.p50).toBeLessThan(97);
+
+    const fromCurrent = priceRangeAt(CURRENT, '2020-07-01', 'asphalt');
+    expect(fromCurrent.anchorPeriod).toBe('2025-07');
+    expect(fromCurrent.p50).toBeLessThan(CURRENT.p50 * 0.85);
+  });
+
+  it('should build a monthly series with a trend', () => {
+    const history = buildPriceHistory(CURRENT, 'asphalt', {
+      months: 12,
+      now: new Date('2025-07-10T00:00:00Z'),
+      history: [{ period: '2025-01', p10: 90, p50: 110, p90: 130, sampleSize: 7, basis: 'snapshot' }],
+    });
+    expect(history).toHaveLength(12);
+    expect(history[0].period).toBe('2024-08');
+    expect(history[history.length - 1]).toMatchObject({ period: '2025-07', p50: 120, basis: 'indexed' });
+    expect(history.find(point => point.period === '2025-01')).toMatchObject({ basis: 'snapshot', sampleSize: 7 });
+    expect(priceTrend(history)!.changePct).toBeGreaterThan(0);
+    expect(priceTrend(history.slice(0, 1))).toBeNull();
+  });
+
+  it('should audit against the range at the loss date', () => {
+    const seed = getMarketData('Remove HD')!;
+    const today = auditClaimItem('Remove HD', 40, 10);
+    const atLoss = auditClaimItem('Remove HD', 40, 10, { lossDate: '2020-06-15' });
+
+    expect(today.marketPricing!.pricedAt).toBeUndefined();
+    expect(atLoss.marketPricing!.pricedAt).toMatchObject({ lossDate: '2020-06-15', period: '2020-06', basis: 'indexed', materialIndex: 'asphalt' });
+    expect(atLoss.marketPricing!.fmvPrice).toBeLessThan(seed.FMV_PRICE);
+    expect(atLoss.fmvSubtotal).toBeLessThan(today.fmvSubtotal);
+
+    const snapshot = auditClaimItem('Remove HD', 40, 10, {
+      lossDate: '2020-06-15',
+      history: { 'Remove HD': [{ period: '2020-06', p10: 20, p50: 30, p90: 39, basis: 'snapshot' }] },
+    });
+    expect(snapshot.status).toBe('FMV');
+    expect(snapshot.marketPricing!.fmvPrice).toBe(39);
+  });
+
+  it('should compare state medians with the national median', () => {
+    const at = (unitPrice: number, zipPrefix: string) => ({ unitPrice, zipPrefix, createdAt: new Date() });
+    const samples = [
+      ...Array.from({ length: 12 }, (_, i) => at(100 + (i % 3), '100')),
+      ...Array.from({ length: 12 }, (_, i) => at(80 + (i % 3), '787')),
+      at(300, '331'),
+    ];
+
+    const ratios = statePriceRatios(samples);
+    expect(Object.keys(ratios).sort()).toEqual(['NY', 'TX']);
+    expect(ratios.TX.ratio).toBeLessThan(1);
+    expect(ratios.NY.ratio).toBeGreaterThan(1);
+    expect(ratios.TX.sampleSize).toBe(12);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BURST_LIMIT,
+  moderatePricingDataPoint,
+  moderatePricingSubmission,
+  regionalZScore,
+} from '../services/pricingModeration';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60000);
+
+// Tear-off around $55/SQ in central Texas
+const SAMPLES = Array.from({ length: 30 }, (_, i) => ({
+  unitPrice: 50 + (i % 10),
+  zipPrefix: '787',
+  createdAt: NOW,
+}));
+
+const CANDIDATE = {
+  category: 'Roofing',
+  unit: 'SQ',
+  description: 'Remove 3-Tab Asphalt',
+  quantity: 20,
+  fmvPrice: 1100,
+  zipPrefix: '787',
+};
+
+describe('Pricing Data Moderation', () => {
+  it('should accept a point in line with the regional distribution', () => {
+    const result = moderatePricingDataPoint(CANDIDATE, { regionalSamples: SAMPLES, now: NOW });
+    expect(result.status).toBe('accepted');
+    expect(result.flags).toEqual([]);
+    expect(Math.abs(result.zScore!)).toBeLessThan(1);
+  });
+
+  it('should hold a price far outside the regional distribution', () => {
+    const result = moderatePricingDataPoint({ ...CANDIDATE, fmvPrice: 20 * 4731 }, { regionalSamples: SAMPLES, now: NOW });
+    expect(result.status).toBe('held');
+    expect(result.flags.map(flag => flag.check)).toEqual(['price_outlier']);
+    expect(result.flags[0].message).toContain('above the regional median');
+
+    // Too few samples to judge, so the same price passes this check
+    expect(regionalZScore(4731, SAMPLES.slice(0, 3), '787', NOW)).toBeNull();
+    expect(moderatePricingDataPoint({ ...CANDIDATE, fmvPrice: 0 }, { regionalSamples: [], now: NOW }).status).toBe('held');
+  });
+
+  it('should hold a unit that disagrees with the catalog item', () => {
+    const result = moderatePricingDataPoint({ ...CANDIDATE, unit: 'SF' }, { regionalSamples: [], now: NOW });
+    expect(result.status).toBe('held');
+    expect(result.flags).toEqual([{ check: 'unit_mismatch', message: expect.stringContaining('priced per SQ') }]);
+
+    // Descriptions with no confident catalog match are not flagged
+    expect(moderatePricingDataPoint({ ...CANDIDATE, unit: 'SF', description: 'Misc. item' }, { regionalSamples: [], now: NOW }).flags).toEqual([]);
+  });
+
+  it('should hold session duplicates and bursts', () => {
+    const sessionHistory = [{ category: 'Roofing', unit: 'SQ', unitPrice: 55.1, createdAt: minutesAgo(60) }];
+    const duplicate = moderatePricingDataPoint(CANDIDATE, { regionalSamples: SAMPLES, sessionHistory, now: NOW });
+    expect(duplicate.flags.map(flag => flag.check)).toEqual(['duplicate']);
+
+    // A different price, or the same one from two days ago, is not a duplicate
+    expect(moderatePricingDataPoint({ ...CANDIDATE, fmvPrice: 1160 }, { regionalSamples: SAMPLES, sessionHistory, now: NOW }).status).toBe('accepted');
+    const stale = [{ ...sessionHistory[0], createdAt: minutesAgo(48 * 60) }];
+    expect(moderatePricingDataPoint(CANDIDATE, { regionalSamples: SAMPLES, sessionHistory: stale, now: NOW }).status).toBe('accepted');
+
+    const flood = Array.from({ length: BURST_LIMIT }, (_, i) => ({ category: 'Siding', unit: 'SF', unitPrice: 5 + i, createdAt: minutesAgo(2) }));
+    const burst = moderatePricingDataPoint(CANDIDATE, { regionalSamples: SAMPLES, sessionHistory: flood, now: NOW });
+    expect(burst.flags.map(flag => flag.check)).toEqual(['burst']);
+    expect(moderatePricingDataPoint(CANDIDATE, { regionalSamples: SAMPLES, submissionSize: BURST_LIMIT, now: NOW }).status).toBe('accepted');
+  });
+
+  it('should hold a repeated price within one submission', () => {
+    const outlier = { ...CANDIDATE, fmvPrice: 20 * 140 };
+    const results = moderatePricingSubmission([CANDIDATE, outlier, outlier, outlier], { regionalSamples: () => SAMPLES, now: NOW });
+
+    expect(results.map(result => result.status)).toEqual(['accepted', 'held', 'held', 'held']);
+    expect(results[1].flags.map(flag => flag.check)).toEqual(['price_outlier']);
+    expect(results[2].flags.map(flag => flag.check)).toEqual(['price_outlier', 'duplicate']);
+
+    // A submission of distinct prices still counts toward the burst limit only once
+    const distinct = Array.from({ length: BURST_LIMIT }, (_, i) => ({ ...CANDIDATE, fmvPrice: 1000 + i * 40 }));
+    expect(moderatePricingSubmission(distinct, { regionalSamples: () => [], now: NOW }).every(result => result.status === 'accepted')).toBe(true);
+  });
+});
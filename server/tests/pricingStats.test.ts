@@ -0,0 +1,120 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  computePriceStatistics,
+  pointsFromRange,
+  rejectOutliers,
+  shrinkPriceStatistics,
+  timeDecayWeight,
+  weightedQuantile,
+} from '@shared/pricingStats';
+import { auditClaimItem, getMarketData, MAX_MARKET_OBSERVATIONS, updateMarketPrice } from '@shared/priceAudit';
+import { buildPricingStatistics } from '../services/pricingStatistics';
+import { generateCitedEstimate } from '../utils/pricingCitation';
+
+const NOW = new Date('2025-06-01T00:00:00Z');
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 86400000);
+
+describe('Pricing Statistics Engine', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('should take weighted percentiles and reject typos by MAD or IQR', () => {
+    expect(weightedQuantile([10, 20, 30, 40], [1, 1, 1, 1], 0.5)).toBe(25);
+    expect(weightedQuantile([10, 20, 30, 40], [1, 1, 1, 5], 0.5)).toBeGreaterThan(30);
+
+    const prices = [100, 104, 98, 101, 103, 99, 10000];
+    expect(rejectOutliers(prices, 'mad')).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(rejectOutliers(prices, 'iqr')).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(rejectOutliers([100, 10000], 'mad')).toEqual([0, 1]);
+
+    const stats = computePriceStatistics(prices.map(price => ({ price })), { now: NOW })!;
+    expect(stats.rejectedCount).toBe(1);
+    expect(stats.p90).toBeLessThan(105);
+    expect(stats.confidenceInterval.low).toBeLessThan(stats.p50);
+    expect(stats.confidenceInterval.high).toBeGreaterThan(stats.p50);
+  });
+
+  it('should weight recent observations over old ones', () => {
+    expect(timeDecayWeight(365)).toBeCloseTo(0.5);
+    expect(timeDecayWeight(0)).toBe(1);
+
+    const points = [
+      ...[100, 102, 101].map(price => ({ price, observedAt: daysAgo(1095) })),
+      ...[150, 152, 151].map(price => ({ price, observedAt: daysAgo(5) })),
+    ];
+    const stats = computePriceStatistics(points, { now: NOW })!;
+    expect(stats.p50).toBeGreaterThan(140);
+    expect(stats.effectiveSampleSize).toBeLessThan(6);
+  });
+
+  it('should shrink a thin ZIP-prefix sample toward its state and the nation', () => {
+    const samples = [
+      ...Array.from({ length: 40 }, (_, i) => ({ unitPrice: 100 + (i % 5), zipPrefix: '100', createdAt: NOW })),
+      ...Array.from({ length: 20 }, (_, i) => ({ unitPrice: 120 + (i % 3), zipPrefix: '787', createdAt: NOW })),
+      { unitPrice: 160, zipPrefix: '786', createdAt: NOW },
+    ];
+
+    // A Texas prefix with no samples of its own gets the state estimate, pulled toward the nation
+    const state = buildPricingStatistics(samples, '780', { now: NOW })!;
+    expect(state.scope).toBe('state');
+    expect(state.p50).toBeGreaterThan(110);
+    expect(state.p50).toBeLessThan(121);
+
+    // One local point barely moves it
+    const local = buildPricingStatistics(samples, '786', { now: NOW })!;
+    expect(local.scope).toBe('zip_prefix');
+    expect(local.levels.map(level => level.scope)).toEqual(['national', 'state', 'zip_prefix']);
+    expect(local.p50 - state.p50).toBeGreaterThan(0);
+    expect(local.p50 - state.p50).toBeLessThan(5);
+    expect(buildPricingStatistics([], '786')).toBeNull();
+    expect(shrinkPriceStatistics([{ scope: 'national', stats: null }])).toBeNull();
+  });
+
+  it('should keep a seeded item range stable against a single typo', () => {
+    const seed = { ...getMarketData('Remove 3-Tab Asphalt')! };
+    const points = pointsFromRange(seed.UNIT_PRICE, seed.AVERAGE_PRICE, seed.FMV_PRICE, seed.SAMPLES);
+    const reproduced = computePriceStatistics(points)!;
+    expect(reproduced.p10).toBeCloseTo(seed.UNIT_PRICE, 1);
+    expect(reproduced.p90).toBeCloseTo(seed.FMV_PRICE, 1);
+
+    const updated = updateMarketPrice('Remove 3-Tab Asphalt', 4731, 'SQ');
+    expect(updated.FMV_PRICE).toBeLessThan(seed.FMV_PRICE * 1.1);
+    expect(updated.SAMPLES).toBe(seed.SAMPLES + 1);
+
+    const audit = auditClaimItem('Remove 3-Tab Asphalt', 30, 10);
+    expect(audit.status).toBe('LOW');
+    expect(audit.marketPricing?.sampleSize).toBe(seed.SAMPLES + 1);
+    expect(audit.marketPricing?.confidenceInterval).toBeDefined();
+  });
+
+  it('should bound the observations kept per item', () => {
+    // An item no other test prices, so the observations added here can't leak into them
+    const item = 'Turtle Vent';
+    const seed = { ...getMarketData(item)! };
+    for (let i = 0; i < MAX_MARKET_OBSERVATIONS + 20; i++) {
+      updateMarketPrice(item, seed.AVERAGE_PRICE, seed.UNIT);
+    }
+    expect(getMarketData(item)!.SAMPLES).toBe(seed.SAMPLES + MAX_MARKET_OBSERVATIONS);
+
+    // A decade on, the earlier observations have decayed away and only the new one is kept
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(Date.now() + 10 * 365 * 86400000));
+    updateMarketPrice(item, seed.AVERAGE_PRICE, seed.UNIT);
+    expect(getMarketData(item)!.SAMPLES).toBe(seed.SAMPLES + 1);
+  });
+
+  it('should cite the historical median and blend it by credibility', () => {
+    const base = generateCitedEstimate('Roofing', null, 10, '78701')!;
+    const history = buildPricingStatistics(
+      Array.from({ length: 30 }, () => ({ unitPrice: (base.totalCost / 10) * 2, zipPrefix: '787', createdAt: new Date() })),
+      '787'
+    );
+    const cited = generateCitedEstimate('Roofing', null, 10, '78701', undefined, history)!;
+
+    const historical = cited.sources.find(source => source.type === 'tertiary')!;
+    expect(historical.citation).toContain('ZIP area median');
+    expect(historical.citation).toContain('n=30');
+    expect(historical.weight).toBeGreaterThan(0.2);
+    expect(historical.weight).toBeLessThanOrEqual(0.3);
+    expect(cited.totalCost).toBeCloseTo(base.totalCost * (1 + historical.weight), 0);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildExecutiveSummary,
+  collectCitationFootnotes,
+  generateReportPdf,
+  type ClaimReportData,
+} from '../utils/pdf';
+
+const citation = (name: string, confidenceLevel = 'HIGH') => ({
+  sources: [{ name, type: 'primary' as const, citation: `${name} 2024`, weight: 1, lastUpdated: '2024-01' }],
+  confidenceLevel,
+  shortCitation: `Source: ${name} (2024)`,
+});
+
+const data: ClaimReportData = {
+  claimId: 'claim-123',
+  zipCode: '78701',
+  items: [
+    { category: 'Roofing', description: 'Shingle replacement', room: null, quantity: 24, unit: 'SQ', insuranceOffer: 4800, fmvPrice: 6240, variance: 30, citation: citation('RSMeans') },
+    { category: 'Roofing', description: 'Drip edge', room: null, quantity: 180, unit: 'LF', insuranceOffer: 500, fmvPrice: 450, variance: -10, citation: citation('RSMeans') },
+    { category: 'Interior', description: 'Drywall patch', room: null, quantity: 40, unit: 'SF', insuranceOffer: 200, fmvPrice: 320, variance: 60, citation: citation('NRCA', 'MEDIUM') },
+    { category: 'Interior', description: 'Paint walls', room: null, quantity: 400, unit: 'SF', insuranceOffer: 600, fmvPrice: 700, variance: 16.7 },
+  ],
+  summary: { totalInsuranceOffer: 6100, totalFMV: 7710, totalAdditional: 1610, overallIncrease: 26.4 },
+  carrier: 'State Farm',
+  carrierInsights: [{
+    item: 'Shingles',
+    severity: 'HIGH',
+    percentageUnderpayment: 22,
+    message: 'Historical data shows State Farm underpays "Shingles" by 22%.',
+    recommendedAction: 'Provide detailed photographic evidence.',
+    sampleSize: 48,
+  }],
+  generatedAt: new Date(2024, 7, 1),
+};
+
+function pageCount(pdf: Buffer): number {
+  return (pdf.toString('latin1').match(/\/Type \/Page\b(?!s)/g) ?? []).length;
+}
+
+describe('Claim Report PDF', () => {
+  it('should number each distinct citation once', () => {
+    const { markers, footnotes } = collectCitationFootnotes(data.items);
+    expect(markers).toEqual([1, 1, 2, null]);
+    expect(footnotes).toEqual([
+      'Source: RSMeans (2024) (high confidence)',
+      'Source: NRCA (2024) (medium confidence)',
+    ]);
+  });
+
+  it('should summarize the gap, the largest underpaid lines and the carrier history', () => {
+    const summary = buildExecutiveSummary(data).join('\n');
+    expect(summary).toContain('4 line items reviewed totals $6,100.00');
+    expect(summary).toContain('a difference of $1,610.00 (+26.4%)');
+    expect(summary).toContain('3 of 4 items are priced below fair market value');
+    expect(summary).toContain('Shingle replacement ($1,440.00), Drywall patch ($120.00), Paint walls ($100.00)');
+    expect(summary).toContain('State Farm has a documented history of underpaying 1 of the items');
+  });
+
+  it('should render a branded, paginated PDF with every section', () => {
+    const pdf = generateReportPdf(data);
+    const content = pdf.toString('latin1');
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    // Cover, executive summary, line items, carrier insights, appendix
+    expect(pageCount(pdf)).toBe(5);
+    for (const heading of ['Executive Summary', 'Line Item Details', 'Carrier Insights', 'Appendix: Methodology & Disclaimer']) {
+      expect(content).toContain(`(${heading})`);
+    }
+    expect(content).toContain('(Shingle replacement [1])');
+    expect(content).toContain('Page 5 of 5');
+  });
+
+  it('should leave out carrier insights when no carrier is known', () => {
+    const pdf = generateReportPdf({ ...data, carrier: null, carrierInsights: [] });
+    expect(pageCount(pdf)).toBe(4);
+    expect(pdf.toString('latin1')).not.toContain('(Carrier Insights)');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareRoofQuantities,
+  computeRoofGeometry,
+  generateRoofLineItems,
+  getPitchFactor,
+  parsePitch,
+} from '../../shared/roofGeometry';
+
+describe('Roof Geometry', () => {
+  it('should parse common pitch notations', () => {
+    expect(parsePitch('6/12')).toBe(6);
+    expect(parsePitch('8:12')).toBe(8);
+    expect(parsePitch('4 in 12')).toBe(4);
+    expect(parsePitch(9)).toBe(9);
+    expect(parsePitch('3/6')).toBe(6);
+    expect(() => parsePitch('steep')).toThrow('Invalid roof pitch');
+    expect(getPitchFactor(12)).toBeCloseTo(Math.SQRT2, 6);
+  });
+
+  it('should compute squares, waste and linear footage for a gable roof', () => {
+    // 40' x 30' footprint split into two 40' x 15' planes at 6/12
+    const geometry = computeRoofGeometry({
+      pitch: '6/12',
+      facets: [
+        { name: 'Front', length: 40, width: 15 },
+        { name: 'Back', length: 40, width: 15 },
+      ],
+      lengths: { ridge: 40, eave: 80, rake: 68 },
+    });
+
+    expect(geometry.pitchFactor).toBeCloseTo(1.118, 3);
+    expect(geometry.surfaceAreaSqFt).toBeCloseTo(1341.64, 2);
+    expect(geometry.complexity).toBe('simple');
+    expect(geometry.suggestedWastePct).toBe(10);
+    expect(geometry.squaresWithWaste).toBe(15);
+    expect(geometry.starterLF).toBe(148);
+    expect(geometry.dripEdgeLF).toBe(148);
+    expect(geometry.ridgeCapLF).toBe(40);
+    expect(geometry.steep).toBe(false);
+  });
+
+  it('should raise waste and add steep/high charges for complex roofs', () => {
+    const geometry = computeRoofGeometry({
+      pitch: '8/12',
+      footprintSqFt: 2400,
+      lengths: { ridge: 30, hip: 60, valley: 24, eave: 200 },
+      stories: 2,
+      iceBarrierAtEaves: true,
+    });
+
+    expect(geometry.complexity).toBe('complex');
+    expect(geometry.wastePct).toBe(20);
+    expect(geometry.ridgeCapLF).toBe(90);
+    // 24 LF valley x 3 ft + 200 LF eave x 6 ft = 12.72 SQ, rounded up to the bundle
+    expect(geometry.iceBarrierSquares).toBe(13);
+
+    const codes = generateRoofLineItems(geometry).map(line => line.code);
+    expect(codes).toEqual(expect.arrayContaining(['RFG ARMVL', 'RFG 300S', 'RFG IWS', 'RFG VALM', 'RFG STEEP', 'RFG HIGH']));
+    expect(codes).not.toContain('RFG ADDL');
+  });
+
+  it('should generate catalog lines with market unit prices', () => {
+    const lines = generateRoofLineItems(computeRoofGeometry({
+      pitch: 5,
+      footprintSqFt: 2000,
+      lengths: { ridge: 50, eave: 100, rake: 80 },
+      shingleType: '3-tab',
+      layers: 2,
+    }));
+
+    const shingles = lines.find(line => line.code === 'RFG 240')!;
+    expect(shingles.unit).toBe('SQ');
+    expect(shingles.category).toBe('Roofing');
+    expect(shingles.unitPrice).toBeGreaterThan(0);
+    expect(lines.find(line => line.code === 'RFG ADDL')?.quantity).toBe(lines.find(line => line.code === 'RFG ARMV')?.quantity);
+    expect(lines.every(line => line.quantity > 0)).toBe(true);
+  });
+
+  it('should flag carrier lines that are under-measured', () => {
+    const measured = generateRoofLineItems(computeRoofGeometry({
+      pitch: '6/12',
+      footprintSqFt: 2000,
+      lengths: { ridge: 50, eave: 100, rake: 80 },
+    }));
+
+    const checks = compareRoofQuantities(measured, [
+      { description: 'Laminated - comp. shingle rfg. - w/out felt', quantity: 20, unit: 'SQ' },
+      { description: 'Drip edge', quantity: 180, unit: 'LF' },
+      { description: 'Roofing felt - 30 lb.', quantity: 2236, unit: 'SF' },
+    ]);
+
+    const shingles = checks.find(c => c.code === 'RFG 300S')!;
+    expect(shingles.claimedQuantity).toBe(20);
+    expect(shingles.underMeasured).toBe(true);
+    expect(shingles.shortfall).toBeCloseTo(shingles.measuredQuantity - 20, 2);
+
+    expect(checks.find(c => c.code === 'RFG DRIP')?.underMeasured).toBe(false);
+    expect(checks.find(c => c.code === 'RFG FELT')?.underMeasured).toBe(false);
+    expect(checks.find(c => c.code === 'RFG RIDGC')?.claimedQuantity).toBe(0);
+  });
+
+  it('should reject roofs without an area', () => {
+    expect(() => computeRoofGeometry({ pitch: '6/12' })).toThrow('Provide roof facets or a footprint area');
+    expect(() => computeRoofGeometry({ pitch: '6/12', footprintSqFt: 1000, lengths: { eave: -5 } })).toThrow();
+  });
+});
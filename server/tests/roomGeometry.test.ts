@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { computeRoomMeasurements, generateRoomLineItems, groupItemsByRoom, type RoomInput } from '../../shared/roomGeometry';
+
+const bedroom: RoomInput = {
+  name: 'Bedroom 2',
+  length: 12,
+  width: 10,
+  ceilingHeight: 8,
+  openings: [
+    { type: 'door', width: 3, height: 6.67 },
+    { type: 'window', width: 3, height: 4, count: 2 },
+  ],
+  surfaces: {},
+};
+
+describe('Room Geometry', () => {
+  it('should net doors and windows out of the wall area', () => {
+    expect(computeRoomMeasurements(bedroom)).toEqual({
+      floorSqFt: 120,
+      ceilingSqFt: 120,
+      perimeterLF: 44,
+      grossWallSqFt: 352,
+      openingSqFt: 44.01,
+      netWallSqFt: 307.99,
+      // Baseboard stops at the door but runs under the windows
+      baseboardLF: 41,
+    });
+    expect(() => computeRoomMeasurements({ ...bedroom, width: 0 })).toThrow('Room dimensions must be positive (Bedroom 2)');
+  });
+
+  it('should scope replaced walls, painted ceiling and new carpet', () => {
+    const lines = generateRoomLineItems({ ...bedroom, surfaces: { walls: 'replace', ceiling: 'paint', floor: 'carpet' } });
+
+    expect(lines.map(line => [line.code, line.quantity])).toEqual([
+      ['PNT CEIL', 120],
+      ['DRY RMV', 308],
+      ['DRY 1/2', 308],
+      ['PNT WALL', 308],
+      ['FCC RMV', 120],
+      ['FCC CRPT', 138],
+      ['FCC PAD', 138],
+      ['FNC BASE', 41],
+      ['PNT TRIM', 41],
+    ]);
+    expect(lines.every(line => line.room === 'Bedroom 2')).toBe(true);
+    expect(lines.find(line => line.code === 'DRY 1/2')?.category).toBe('Drywall');
+  });
+
+  it('should detach and reset baseboard for hard floors', () => {
+    const lines = generateRoomLineItems({ ...bedroom, surfaces: { floor: 'hardwood' } });
+
+    expect(lines.map(line => [line.code, line.quantity, line.unit])).toEqual([
+      ['FCW RMV', 120, 'SF'],
+      ['FCW HWD', 132, 'SF'],
+      ['FNC BASEDR', 41, 'LF'],
+    ]);
+    expect(generateRoomLineItems(bedroom)).toEqual([]);
+  });
+
+  it('should group items by room in order of appearance', () => {
+    const items = [
+      { description: 'Paint walls', room: 'Kitchen' },
+      { description: 'Roof shingles' },
+      { description: 'Carpet', room: 'Bedroom' },
+      { description: 'Paint ceiling', room: 'kitchen ' },
+    ];
+
+    expect(groupItemsByRoom(items).map(group => [group.room, group.items.map(({ index }) => index)])).toEqual([
+      ['Kitchen', [0, 3]],
+      ['Bedroom', [2]],
+      [null, [1]],
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SCOPE_RULES,
+  evaluateScopeRules,
+  formatMissingScopeItem,
+  type ScopeRule,
+} from '../services/claimAudit/scopeRules';
+import { getCatalogEntry } from '../../shared/lineItemCatalog';
+import type { ClaimLineItem } from '../services/claimAudit/types';
+
+const roofItems: ClaimLineItem[] = [
+  { description: 'Laminated - comp. shingle rfg. - w/out felt', quotedPrice: 6000, quantity: 25, unit: 'SQ' },
+  { description: 'Tear off, haul and dispose of comp. shingles - laminated', quotedPrice: 1000, quantity: 25, unit: 'SQ' },
+  { description: 'Roofing felt - 30 lb.', quotedPrice: 800, quantity: 25, unit: 'SQ' },
+];
+
+describe('Scope Dependency Rules', () => {
+  it('should only reference codes that exist in the catalog', () => {
+    for (const rule of DEFAULT_SCOPE_RULES) {
+      for (const code of [...rule.triggerCodes, ...rule.requiredCodes]) {
+        expect(getCatalogEntry(code), `${rule.name}: ${code}`).toBeDefined();
+      }
+    }
+  });
+
+  it('should report roofing accessories implied by a roof replacement', () => {
+    const result = evaluateScopeRules(roofItems, DEFAULT_SCOPE_RULES);
+    const codes = result.items.map(i => i.code);
+
+    expect(codes).toEqual(['RFG DRIP', 'RFG STRT', 'RFG RIDGC', 'RFG IWS', 'RFG PJK', 'FEE PRMT']);
+    expect(codes).not.toContain('RFG ARMVL');
+    expect(codes).not.toContain('RFG FELT');
+    // Tear-off line already includes haul & dispose
+    expect(codes).not.toContain('DMO DUMP');
+
+    const dripEdge = result.items[0];
+    expect(dripEdge.triggeredBy).toEqual(['RFG 300S']);
+    expect(dripEdge.quantity).toBe(175);
+    expect(dripEdge.priceSource).toBe('price-db');
+    expect(dripEdge.estimatedCost).toBeCloseTo(175 * dripEdge.unitPrice!, 2);
+
+    const starter = result.items[1];
+    expect(starter.priceSource).toBe('rule');
+    expect(starter.estimatedCost).toBe(210);
+
+    expect(result.totalEstimatedCost).toBeCloseTo(
+      result.items.reduce((sum, i) => sum + (i.estimatedCost ?? 0), 0), 2
+    );
+  });
+
+  it('should cover drywall finishing and flooring detach/reset', () => {
+    const result = evaluateScopeRules([
+      { description: '1/2" drywall - hung, taped, floated, ready for paint', quotedPrice: 400, quantity: 200, unit: 'SF' },
+      { description: 'Texture drywall - light hand texture', quotedPrice: 150, quantity: 200, unit: 'SF' },
+      { description: 'Carpet', quotedPrice: 900, quantity: 300, unit: 'SF' },
+      { description: 'Baseboard - 3 1/4"', quotedPrice: 200, quantity: 90, unit: 'LF' },
+    ], DEFAULT_SCOPE_RULES);
+    const codes = result.items.map(i => i.code);
+
+    expect(codes).toEqual(expect.arrayContaining(['DRY TAPE', 'PNT WALL', 'FCC RMV', 'FCC PAD', 'CON MVRS']));
+    expect(codes).not.toContain('DRY TEX');
+    expect(codes).not.toContain('FNC BASEDR');
+    // Removal is priced against the carpet-specific code
+    expect(result.items.find(i => i.code === 'FCC RMV')?.quantity).toBe(300);
+  });
+
+  it('should honour inactive rules, category codes and unknown quantities', () => {
+    const rules: ScopeRule[] = [
+      {
+        name: 'Any drywall needs a dumpster',
+        trade: 'drywall',
+        triggerCodes: ['DRY'],
+        requiredCodes: ['DMO DUMP'],
+        requiredDescription: 'Debris haul-off',
+        quantityMode: 'ratio',
+        quantityFactor: 0.01,
+        unit: 'EA',
+        priority: 1,
+      },
+      { ...DEFAULT_SCOPE_RULES.find(r => r.name === 'Drywall replacement requires paint')!, isActive: false },
+    ];
+
+    const result = evaluateScopeRules([{ description: 'Drywall patch', quotedPrice: 150 }], rules);
+
+    expect(result.rulesEvaluated).toBe(1);
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0].code).toBe('DMO DUMP');
+    expect(result.items[0].quantity).toBeNull();
+    expect(result.items[0].estimatedCost).toBeNull();
+    expect(formatMissingScopeItem(result.items[0])).toBe('drywall: Debris haul-off (DMO DUMP)');
+  });
+
+  it('should return nothing for a claim without triggers', () => {
+    const result = evaluateScopeRules([{ description: 'Random unrelated item', quotedPrice: 100 }], DEFAULT_SCOPE_RULES);
+    expect(result.items).toEqual([]);
+    expect(result.totalEstimatedCost).toBe(0);
+  });
+});
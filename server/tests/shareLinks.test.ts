@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ShareLinkError,
+  buildSharedReport,
+  describeViewer,
+  shareLinkExpiry,
+  shareLinkStatus,
+  shareTokenLinkId,
+  signShareToken,
+  verifyShareToken,
+} from '../services/shareLinks';
+
+const SECRET = 'test-secret';
+const EXPIRES = new Date('2024-06-15T00:00:00Z');
+
+describe('Claim Share Links', () => {
+  it('should sign tokens that only verify for the same link and expiry', () => {
+    const token = signShareToken('link-1', EXPIRES, SECRET);
+    expect(shareTokenLinkId(token)).toBe('link-1');
+    expect(verifyShareToken(token, EXPIRES, SECRET)).toBe(true);
+
+    expect(verifyShareToken(token, new Date('2024-07-15T00:00:00Z'), SECRET)).toBe(false);
+    expect(verifyShareToken(token, EXPIRES, 'other-secret')).toBe(false);
+    expect(verifyShareToken(token.replace('link-1', 'link-2'), EXPIRES, SECRET)).toBe(false);
+    expect(verifyShareToken(`${token}x`, EXPIRES, SECRET)).toBe(false);
+    expect(shareTokenLinkId('no-signature')).toBeNull();
+    expect(shareTokenLinkId('a.b.c')).toBeNull();
+  });
+
+  it('should report revoked before expired and bound link lifetimes', () => {
+    const now = new Date('2024-06-01T00:00:00Z');
+    expect(shareLinkStatus({ expiresAt: EXPIRES, revokedAt: null }, now)).toBe('active');
+    expect(shareLinkStatus({ expiresAt: now, revokedAt: null }, now)).toBe('expired');
+    expect(shareLinkStatus({ expiresAt: new Date('2024-05-01T00:00:00Z'), revokedAt: now }, now)).toBe('revoked');
+
+    expect(shareLinkExpiry(14, now).toISOString()).toBe('2024-06-15T00:00:00.000Z');
+    expect(() => shareLinkExpiry(0, now)).toThrow(ShareLinkError);
+    expect(() => shareLinkExpiry(91, now)).toThrow(ShareLinkError);
+  });
+
+  it('should describe viewers by browser and platform', () => {
+    expect(describeViewer('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'))
+      .toBe('Chrome on Windows');
+    expect(describeViewer('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'))
+      .toBe('Safari on iOS');
+    expect(describeViewer('Mozilla/5.0 (Windows NT 10.0) AppleWebKit/537.36 Chrome/120.0 Safari/537.36 Edg/120.0')).toBe('Edge on Windows');
+    expect(describeViewer(undefined)).toBe('Unknown browser');
+  });
+
+  it('should rebuild the results view from the stored claim', () => {
+    const report = buildSharedReport({
+      zipCode: '33101',
+      createdAt: new Date('2024-05-01T12:00:00Z'),
+      claim: { totalQuoted: '1000.00', totalFmv: '1300.00', additionalAmount: '300.00', variancePct: '30.00', deductible: null },
+      lineItems: [
+        {
+          category: 'Roofing', description: 'Shingle replacement', room: null, quantity: '20', unit: 'SQ',
+          quotedPrice: '800.00', fmvPrice: '1100.00', variancePct: '37.50', acv: null, depreciationAmount: null, nonRecoverableDepreciation: null,
+        },
+        {
+          category: 'Interior', description: 'Paint walls', room: 'Kitchen', quantity: '100', unit: 'SF',
+          quotedPrice: '200.00', fmvPrice: '200.00', variancePct: '0', acv: null, depreciationAmount: null, nonRecoverableDepreciation: null,
+        },
+      ],
+    });
+
+    expect(report.createdAt).toBe('2024-05-01T12:00:00.000Z');
+    expect(report.summary).toEqual({ totalInsuranceOffer: 1000, totalFMV: 1300, totalAdditional: 300, overallIncrease: 30 });
+    expect(report.items[0]).toMatchObject({
+      quantity: 20, unitPrice: 40, insuranceOffer: 800, fmvPrice: 1100, additionalAmount: 300, status: 'underpaid', citation: null,
+    });
+    expect(report.items[1]).toMatchObject({ room: 'Kitchen', additionalAmount: 0, status: 'fair' });
+    expect(report.depreciationSummary).toBeNull();
+    expect(report).not.toHaveProperty('matchedPartners');
+  });
+});
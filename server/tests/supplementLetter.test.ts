@@ -0,0 +1,159 @@
+import { describe, it, expect, vi } from 'vitest';
+import JSZip from 'jszip';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import {
+  buildSupplementLetter,
+  fillPlaceholders,
+  generateSupplementLetter,
+  renderSupplementLetterDocx,
+} from '../services/supplementLetter';
+import type { ClaimAuditResult } from '../services/claimAudit/types';
+import type { BatchAuditResult } from '@shared/priceAudit';
+import { storage } from '../storage';
+
+// Records the WHERE clause storage builds instead of querying Postgres
+const recorded = vi.hoisted(() => ({ where: [] as unknown[] }));
+vi.mock('../db', () => {
+  const query: Record<string, unknown> = {};
+  Object.assign(query, {
+    select: () => query,
+    from: () => query,
+    where: (condition: unknown) => { recorded.where.push(condition); return query; },
+    orderBy: async () => [],
+  });
+  return { db: query, pool: {} };
+});
+
+const claimAudit: ClaimAuditResult = {
+  success: true,
+  version: 'v2',
+  role: 'primary',
+  auditedItems: [
+    {
+      original: { description: 'Laminated - comp. shingle rfg. - w/out felt', quotedPrice: 4800, quantity: 24, unit: 'SQ', category: 'Roofing' },
+      marketPrice: 6240,
+      variance: 23,
+      flags: ['Potentially underpaid by 23%'],
+      recommendation: 'Request re-evaluation',
+      catalogCode: 'RFG 300S',
+    },
+    {
+      original: { description: 'Drip edge', quotedPrice: 500, quantity: 180, unit: 'LF', category: 'Roofing' },
+      marketPrice: 450,
+      variance: -11,
+      flags: [],
+      recommendation: 'Price appears reasonable',
+      catalogCode: 'RFG DRIP',
+    },
+  ],
+  missingItems: ['roofing: Starter strip'],
+  carrierPatterns: [],
+  recommendations: [],
+  summary: { totalQuoted: 5300, totalMarketValue: 6690, totalUnderpayment: 1440, itemsAudited: 2, flaggedItems: 1 },
+  scopeDependencies: {
+    rulesEvaluated: 10,
+    items: [{
+      ruleName: 'Starter course with shingles',
+      trade: 'roofing',
+      code: 'RFG STRT',
+      description: 'Starter strip',
+      triggeredBy: ['RFG 300S'],
+      quantity: 180,
+      unit: 'LF',
+      unitPrice: 2,
+      estimatedCost: 360,
+      priceSource: 'rule',
+    }],
+    totalEstimatedCost: 360,
+  },
+  confidence: 0.8,
+  processingTimeMs: 5,
+};
+
+const letterDetails = {
+  claimNumber: 'HO-2024-0042',
+  lossDate: '2024-05-14',
+  carrier: 'State Farm',
+  zipCode: '78701',
+  adjusterName: 'Jordan Lee',
+  date: new Date(2024, 6, 1),
+};
+
+describe('Supplement Letter Generator', () => {
+  it('should fill known placeholders and keep the rest for editing', () => {
+    expect(fillPlaceholders('Claim [CLAIM_NUMBER] for [YOUR_NAME]', { CLAIM_NUMBER: '123', YOUR_NAME: undefined }))
+      .toBe('Claim 123 for [YOUR_NAME]');
+  });
+
+  it('should list under-priced lines with citations and scope gaps from a claim audit', () => {
+    const letter = buildSupplementLetter({ ...letterDetails, audit: claimAudit });
+
+    expect(letter.subject).toBe('Supplement Request - Claim HO-2024-0042');
+    expect(letter.date).toBe('July 1, 2024');
+    expect(letter.disputedItems).toHaveLength(1);
+
+    const shingles = letter.disputedItems[0];
+    expect(shingles.quantity).toBe(24);
+    expect(shingles.carrierUnitPrice).toBe(200);
+    expect(shingles.fmvUnitPrice).toBe(260);
+    expect(shingles.difference).toBe(1440);
+    expect(shingles.citation).toMatch(/^Source: /);
+
+    expect(letter.missingItems).toEqual([expect.objectContaining({ description: 'Starter strip', estimatedCost: 360 })]);
+    expect(letter.totals.totalRequested).toBe(1800);
+    expect(letter.sources.length).toBeGreaterThan(0);
+
+    const paragraphs = letter.blocks.filter(b => b.type === 'paragraph').map(b => (b as { text: string }).text);
+    expect(paragraphs[0]).toBe('Dear Jordan Lee,');
+    expect(paragraphs.join('\n')).toContain('$1,800.00');
+    expect(paragraphs.join('\n')).toContain('[PROPERTY_ADDRESS]');
+    expect(letter.blocks.map(b => b.type)).toEqual(expect.arrayContaining(['disputed_items', 'missing_items', 'pricing_sources']));
+  });
+
+  it('should use LOW results from a batch audit and always include the item tables', () => {
+    const batch = {
+      totalItems: 2,
+      results: [
+        { item: 'Shingles', status: 'LOW', unit: 'SQ', enteredPrice: 180, enteredQty: 20, marketPricing: { unitPrice: 190, averagePrice: 220, fmvPrice: 250 } },
+        { item: 'Gutters', status: 'FMV', unit: 'LF', enteredPrice: 12, enteredQty: 100, marketPricing: { unitPrice: 8, averagePrice: 10, fmvPrice: 12 } },
+      ],
+    } as unknown as BatchAuditResult;
+
+    const letter = buildSupplementLetter(
+      { ...letterDetails, audit: batch },
+      { subject: 'Supplement [CLAIM_NUMBER]', body: 'Please pay [TOTAL_REQUESTED].' }
+    );
+
+    expect(letter.disputedItems.map(i => i.description)).toEqual(['Shingles']);
+    expect(letter.disputedItems[0].difference).toBe(1400);
+    expect(letter.missingItems).toEqual([]);
+    expect(letter.blocks.map(b => b.type)).toEqual(['paragraph', 'disputed_items', 'missing_items']);
+  });
+
+  it('should render an editable DOCX with the line item table', async () => {
+    const letter = buildSupplementLetter({ ...letterDetails, audit: claimAudit });
+    const zip = await JSZip.loadAsync(await renderSupplementLetterDocx(letter));
+
+    expect(zip.file('[Content_Types].xml')).not.toBeNull();
+    const document = await zip.file('word/document.xml')!.async('string');
+    expect(document).toContain('<w:tbl>');
+    expect(document).toContain('Laminated - comp. shingle rfg. - w/out felt');
+    expect(document).toContain('$1,440.00');
+  });
+
+  it('should render a PDF', async () => {
+    const { buffer, contentType, fileName } = await generateSupplementLetter({ ...letterDetails, audit: claimAudit }, 'pdf');
+
+    expect(contentType).toBe('application/pdf');
+    expect(fileName).toBe('supplement-request-HO-2024-0042.pdf');
+    expect(buffer.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('should filter templates on the integer is_active column', async () => {
+    await storage.getSupplementLetterTemplates({ isActive: true });
+    await storage.getSupplementLetterTemplates({ isActive: false });
+
+    const params = recorded.where.map(condition => new PgDialect().sqlToQuery(condition as any).params);
+    expect(params).toEqual([[1], [0]]);
+  });
+});
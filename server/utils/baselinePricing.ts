@@ -27,6 +27,8 @@
  * - NRCA/WSRCA industry association guidelines
  */
 
+import { getCatalogEntry, resolveLineItem } from '@shared/lineItemCatalog';
+
 // Unit types supported
 export type UnitType = 'SF' | 'LF' | 'SQ' | 'CT' | 'EA';
 
@@ -1487,6 +1489,16 @@ export function getAllCategories(): string[] {
   return BASELINE_PRICING.map(c => c.category);
 }
 
+/**
+ * Get line item by catalog code (see shared/lineItemCatalog)
+ */
+export function getLineItemByCode(code: string): LineItemRate | undefined {
+  const baseline = getCatalogEntry(code)?.baseline;
+  if (!baseline) return undefined;
+  
+  return getCategoryPricing(baseline.category)?.lineItems.find(item => item.name === baseline.name);
+}
+
 /**
  * Get line item by name within a category
  */
@@ -1494,6 +1506,12 @@ export function getLineItem(category: string, itemName: string): LineItemRate |
   const catPricing = getCategoryPricing(category);
   if (!catPricing) return undefined;
   
+  const baseline = resolveLineItem(itemName, { category })?.entry.baseline;
+  if (baseline && baseline.category.toLowerCase() === catPricing.category.toLowerCase()) {
+    const catalogItem = catPricing.lineItems.find(item => item.name === baseline.name);
+    if (catalogItem) return catalogItem;
+  }
+  
   return catPricing.lineItems.find(
     item => item.name.toLowerCase().includes(itemName.toLowerCase()) ||
             itemName.toLowerCase().includes(item.name.toLowerCase())
@@ -0,0 +1,181 @@
+/**
+ * Building Code Adoption by Jurisdiction
+ *
+ * Residential code editions and the code-driven upgrades that matter for
+ * Ordinance & Law (O&L) coverage: roof underlayment, ice barrier, GFCI/AFCI
+ * and hurricane straps (roof-to-wall connections).
+ *
+ * Keyed off ZIP via the HUD crosswalk: metro (CBSA) overrides first, then
+ * the state table, then a conservative default for local-adoption states.
+ *
+ * Sources: ICC code adoption map, NFPA NEC enforcement map, state building
+ * commission publications (2024). Local amendments vary - confirm with the
+ * building department before relying on an upgrade.
+ */
+
+import { getZipCrosswalk } from './hudZipCrosswalk';
+
+export type UnderlaymentRequirement = 'standard' | 'high-wind' | 'sealed-roof-deck';
+
+export interface JurisdictionCodeProfile {
+  jurisdiction: string;
+  stateCode: string | null;
+  cbsaCode: string | null;
+  ircEdition: number | null;     // Adopted IRC (or state code based on it); null = no statewide code
+  ibcEdition: number | null;
+  necEdition: number;
+  statewide: boolean;
+  roofUnderlayment: UnderlaymentRequirement;
+  iceBarrier: boolean;           // Ice barrier required at eaves (IRC R905.1.2 / Table R301.2)
+  hurricaneStraps: boolean;      // Roof-to-wall connections required on re-roof
+  notes?: string;
+  source: string;
+}
+
+type CodeProfileData = Omit<JurisdictionCodeProfile, 'stateCode' | 'cbsaCode'>;
+
+const SOURCE = 'ICC/NFPA code adoption maps 2024';
+
+const STATE_CODE_PROFILES: Record<string, CodeProfileData> = {
+  FL: {
+    jurisdiction: 'Florida (FBC 8th ed.)', ircEdition: 2021, ibcEdition: 2021, necEdition: 2020, statewide: true,
+    roofUnderlayment: 'sealed-roof-deck', iceBarrier: false, hurricaneStraps: true,
+    notes: 'FBC-Existing Building 706 requires roof-to-wall connections when re-roofing in the wind-borne debris region',
+    source: SOURCE,
+  },
+  LA: {
+    jurisdiction: 'Louisiana (LSUCCC)', ircEdition: 2021, ibcEdition: 2021, necEdition: 2020, statewide: true,
+    roofUnderlayment: 'high-wind', iceBarrier: false, hurricaneStraps: true, source: SOURCE,
+  },
+  AL: {
+    jurisdiction: 'Alabama', ircEdition: 2021, ibcEdition: 2021, necEdition: 2020, statewide: false,
+    roofUnderlayment: 'high-wind', iceBarrier: false, hurricaneStraps: false,
+    notes: 'Coastal counties enforce high-wind provisions; FORTIFIED roofs common', source: SOURCE,
+  },
+  MS: {
+    jurisdiction: 'Mississippi', ircEdition: 2018, ibcEdition: 2018, necEdition: 2017, statewide: false,
+    roofUnderlayment: 'high-wind', iceBarrier: false, hurricaneStraps: false,
+    notes: 'Coastal counties must enforce IRC wind provisions', source: SOURCE,
+  },
+  SC: {
+    jurisdiction: 'South Carolina', ircEdition: 2021, ibcEdition: 2021, necEdition: 2020, statewide: true,
+    roofUnderlayment: 'high-wind', iceBarrier: false, hurricaneStraps: false, source: SOURCE,
+  },
+  NC: {
+    jurisdiction: 'North Carolina (NC Residential Code)', ircEdition: 2018, ibcEdition: 2018, necEdition: 2020, statewide: true,
+    roofUnderlayment: 'standard', iceBarrier: false, hurricaneStraps: false, source: SOURCE,
+  },
+  GA: {
+    jurisdiction: 'Georgia', ircEdition: 2018, ibcEdition: 2018, necEdition: 2020, statewide: true,
+    roofUnderlayment: 'standard', iceBarrier: false, hurricaneStraps: false, source: SOURCE,
+  },
+  TX: {
+    jurisdiction: 'Texas (municipal adoption)', ircEdition: 2021, ibcEdition: 2021, necEdition: 2020, statewide: false,
+    roofUnderlayment: 'standard', iceBarrier: false, hurricaneStraps: false,
+    notes: 'TDI windstorm inspection applies in the 14 designated coastal counties', source: SOURCE,
+  },
+  OK: {
+    jurisdiction: 'Oklahoma (OUBCC)', ircEdition: 2018, ibcEdition: 2018, necEdition: 2020, statewide: true,
+    roofUnderlayment: 'standard', iceBarrier: false, hurricaneStraps: false, source: SOURCE,
+  },
+  CA: {
+    jurisdiction: 'California (CRC 2022)', ircEdition: 2021, ibcEdition: 2021, necEdition: 2020, statewide: true,
+    roofUnderlayment: 'standard', iceBarrier: false, hurricaneStraps: false, source: SOURCE,
+  },
+  WA: {
+    jurisdiction: 'Washington', ircEdition: 2021, ibcEdition: 2021, necEdition: 2023, statewide: true,
+    roofUnderlayment: 'standard', iceBarrier: false, hurricaneStraps: false, source: SOURCE,
+  },
+  CO: {
+    jurisdiction: 'Colorado (local adoption)', ircEdition: 2021, ibcEdition: 2021, necEdition: 2023, statewide: false,
+    roofUnderlayment: 'standard', iceBarrier: true, hurricaneStraps: false, source: SOURCE,
+  },
+  NY: {
+    jurisdiction: 'New York (Residential Code of NYS)', ircEdition: 2018, ibcEdition: 2018, necEdition: 2017, statewide: true,
+    roofUnderlayment: 'standard', iceBarrier: true, hurricaneStraps: false, source: SOURCE,
+  },
+  NJ: {
+    jurisdiction: 'New Jersey (UCC)', ircEdition: 2021, ibcEdition: 2021, necEdition: 2020, statewide: true,
+    roofUnderlayment: 'standard', iceBarrier: true, hurricaneStraps: false, source: SOURCE,
+  },
+  PA: {
+    jurisdiction: 'Pennsylvania (UCC)', ircEdition: 2018, ibcEdition: 2018, necEdition: 2017, statewide: true,
+    roofUnderlayment: 'standard', iceBarrier: true, hurricaneStraps: false, source: SOURCE,
+  },
+  MA: {
+    jurisdiction: 'Massachusetts (780 CMR 10th ed.)', ircEdition: 2021, ibcEdition: 2021, necEdition: 2023, statewide: true,
+    roofUnderlayment: 'standard', iceBarrier: true, hurricaneStraps: false, source: SOURCE,
+  },
+  OH: {
+    jurisdiction: 'Ohio (RCO)', ircEdition: 2018, ibcEdition: 2018, necEdition: 2017, statewide: true,
+    roofUnderlayment: 'standard', iceBarrier: true, hurricaneStraps: false, source: SOURCE,
+  },
+  MI: {
+    jurisdiction: 'Michigan (MRC)', ircEdition: 2015, ibcEdition: 2015, necEdition: 2017, statewide: true,
+    roofUnderlayment: 'standard', iceBarrier: true, hurricaneStraps: false, source: SOURCE,
+  },
+  MN: {
+    jurisdiction: 'Minnesota (MN Residential Code)', ircEdition: 2018, ibcEdition: 2018, necEdition: 2023, statewide: true,
+    roofUnderlayment: 'standard', iceBarrier: true, hurricaneStraps: false, source: SOURCE,
+  },
+  WI: {
+    jurisdiction: 'Wisconsin (Uniform Dwelling Code)', ircEdition: 2015, ibcEdition: 2015, necEdition: 2017, statewide: true,
+    roofUnderlayment: 'standard', iceBarrier: true, hurricaneStraps: false, source: SOURCE,
+  },
+  IL: {
+    jurisdiction: 'Illinois (local adoption)', ircEdition: 2018, ibcEdition: 2018, necEdition: 2017, statewide: false,
+    roofUnderlayment: 'standard', iceBarrier: true, hurricaneStraps: false, source: SOURCE,
+  },
+  IA: {
+    jurisdiction: 'Iowa (local adoption)', ircEdition: 2015, ibcEdition: 2015, necEdition: 2020, statewide: false,
+    roofUnderlayment: 'standard', iceBarrier: true, hurricaneStraps: false, source: SOURCE,
+  },
+  HI: {
+    jurisdiction: 'Hawaii (State Building Code)', ircEdition: 2018, ibcEdition: 2018, necEdition: 2020, statewide: true,
+    roofUnderlayment: 'high-wind', iceBarrier: false, hurricaneStraps: true, source: SOURCE,
+  },
+};
+
+// Metro-level overrides where the county code is stricter than the state's
+const CBSA_CODE_PROFILES: Record<string, Partial<CodeProfileData>> = {
+  '33100': {
+    jurisdiction: 'Miami-Dade / Broward (High-Velocity Hurricane Zone)',
+    notes: 'HVHZ: Miami-Dade product approvals, sealed roof deck and roof-to-wall connections on re-roof',
+  },
+  '26420': {
+    jurisdiction: 'Houston metro (Harris County)',
+    roofUnderlayment: 'high-wind',
+  },
+};
+
+const DEFAULT_CODE_PROFILE: CodeProfileData = {
+  jurisdiction: 'Local adoption (no statewide residential code on file)',
+  ircEdition: null,
+  ibcEdition: null,
+  necEdition: 2017,
+  statewide: false,
+  roofUnderlayment: 'standard',
+  iceBarrier: false,
+  hurricaneStraps: false,
+  source: SOURCE,
+};
+
+/**
+ * Code profile for a ZIP (metro override, else state, else default)
+ */
+export function getJurisdictionCodeProfile(zip: string): JurisdictionCodeProfile {
+  const crosswalk = getZipCrosswalk(zip);
+  const stateProfile = (crosswalk.stateCode && STATE_CODE_PROFILES[crosswalk.stateCode]) || DEFAULT_CODE_PROFILE;
+  const metroProfile = crosswalk.cbsaCode ? CBSA_CODE_PROFILES[crosswalk.cbsaCode] : undefined;
+
+  return {
+    ...stateProfile,
+    ...metroProfile,
+    stateCode: crosswalk.stateCode,
+    cbsaCode: metroProfile ? crosswalk.cbsaCode : null,
+  };
+}
+
+export function getStateCodeProfiles(): Record<string, CodeProfileData> {
+  return STATE_CODE_PROFILES;
+}
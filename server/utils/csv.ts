@@ -0,0 +1,43 @@
+/**
+ * CSV helpers shared by the importers and exporters (estimate import,
+ * dispute package line items, contents inventories)
+ */
+
+/**
+ * Split one CSV row into trimmed cells, honouring quoted fields
+ */
+export function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"' && inQuotes) {
+      if (line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = false;
+      }
+    } else if (ch === '"' && current.trim() === '') {
+      // Quotes only open a field at the start of a cell (inch marks stay literal)
+      inQuotes = true;
+    } else if (ch === ',' && !inQuotes) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Quote a value for CSV output when it contains a quote, comma or newline
+ */
+export function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,190 @@
+/**
+ * Post-Catastrophe Demand Surge
+ *
+ * After a hurricane or hailstorm, local labor and material prices run
+ * 20-50% above normal for months while contractors are booked out. The
+ * regional cost adjustments (STATE_COST_MULTIPLIERS, CBSA_COST_INDEX) are
+ * static, so registered catastrophe events add a temporary surge on top:
+ * ramping up after the event, holding at its peak, then decaying to zero.
+ *
+ * Events cover ZIP prefixes or CBSAs, or their whole state when neither is
+ * set. Overlapping events don't stack; the largest surge applies.
+ */
+
+import { getZipCrosswalk } from './hudZipCrosswalk';
+import { getStateFromZip } from './zipToState';
+import type { CatastropheEvent } from '@shared/schema';
+
+export type DecayCurve = 'linear' | 'exponential';
+
+export interface SurgeCurve {
+  peakSurgePct: number;   // 35 = +35% at peak
+  rampDays: number;       // Days from the event to the peak
+  plateauDays: number;    // Days held at the peak
+  decayDays: number;      // Days from the end of the plateau back to zero
+  decayCurve: DecayCurve;
+}
+
+export interface SurgeEvent extends SurgeCurve {
+  id: string;
+  name: string;
+  eventType: string;
+  source: 'admin' | 'fema';
+  femaDisasterNumber?: number | null;
+  stateCode: string;
+  zipPrefixes: string[];
+  cbsaCodes: string[];
+  startDate: Date;
+}
+
+export interface DemandSurge {
+  multiplier: number;     // 1.25 = +25%
+  surgePct: number;
+  events: Array<{
+    id: string;
+    name: string;
+    eventType: string;
+    source: 'admin' | 'fema';
+    startDate: string;
+    endDate: string;      // When the surge has fully decayed
+    surgePct: number;
+  }>;
+  disclosure: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Exponential decay reaches ~5% of the peak by the end of decayDays, then drops to zero
+const EXPONENTIAL_DECAY_RATE = 3;
+
+// Typical surge curves by event type; admins can override them per event
+export const SURGE_PROFILES: Record<string, SurgeCurve> = {
+  hurricane: { peakSurgePct: 35, rampDays: 14, plateauDays: 90, decayDays: 270, decayCurve: 'exponential' },
+  hail: { peakSurgePct: 20, rampDays: 7, plateauDays: 45, decayDays: 120, decayCurve: 'linear' },
+  tornado: { peakSurgePct: 20, rampDays: 7, plateauDays: 45, decayDays: 120, decayCurve: 'linear' },
+  severe_storm: { peakSurgePct: 15, rampDays: 7, plateauDays: 30, decayDays: 120, decayCurve: 'linear' },
+  flood: { peakSurgePct: 20, rampDays: 14, plateauDays: 60, decayDays: 180, decayCurve: 'linear' },
+  wildfire: { peakSurgePct: 25, rampDays: 14, plateauDays: 90, decayDays: 270, decayCurve: 'exponential' },
+  winter_storm: { peakSurgePct: 10, rampDays: 7, plateauDays: 30, decayDays: 90, decayCurve: 'linear' },
+};
+
+let registeredEvents: SurgeEvent[] = [];
+
+/**
+ * Replace the active events the auditors price against (loaded from the
+ * catastrophe_events table by the catastropheEvents service)
+ */
+export function setCatastropheEvents(events: SurgeEvent[]): void {
+  registeredEvents = events;
+}
+
+export function getCatastropheEvents(): SurgeEvent[] {
+  return registeredEvents;
+}
+
+export function toSurgeEvent(row: CatastropheEvent): SurgeEvent {
+  return {
+    id: row.id,
+    name: row.name,
+    eventType: row.eventType,
+    source: row.source,
+    femaDisasterNumber: row.femaDisasterNumber,
+    stateCode: row.stateCode,
+    zipPrefixes: row.zipPrefixes ?? [],
+    cbsaCodes: row.cbsaCodes ?? [],
+    startDate: new Date(row.startDate),
+    peakSurgePct: Number(row.peakSurgePct),
+    rampDays: row.rampDays,
+    plateauDays: row.plateauDays,
+    decayDays: row.decayDays,
+    decayCurve: row.decayCurve === 'exponential' ? 'exponential' : 'linear',
+  };
+}
+
+/**
+ * Date the surge from an event has fully decayed
+ */
+export function surgeEndDate(curve: SurgeCurve, startDate: Date): Date {
+  return new Date(startDate.getTime() + (curve.rampDays + curve.plateauDays + curve.decayDays) * DAY_MS);
+}
+
+/**
+ * Surge percentage an event adds on a given date
+ */
+export function surgePctAt(curve: SurgeCurve, startDate: Date, date: Date = new Date()): number {
+  const day = (date.getTime() - startDate.getTime()) / DAY_MS;
+  if (day < 0 || curve.peakSurgePct <= 0) return 0;
+
+  let pct: number;
+  if (day < curve.rampDays) {
+    pct = curve.peakSurgePct * (day / curve.rampDays);
+  } else if (day < curve.rampDays + curve.plateauDays) {
+    pct = curve.peakSurgePct;
+  } else {
+    const decayed = (day - curve.rampDays - curve.plateauDays) / Math.max(1, curve.decayDays);
+    if (decayed >= 1) return 0;
+    pct = curve.decayCurve === 'exponential'
+      ? curve.peakSurgePct * Math.exp(-EXPONENTIAL_DECAY_RATE * decayed)
+      : curve.peakSurgePct * (1 - decayed);
+  }
+  return Math.round(pct * 10) / 10;
+}
+
+/**
+ * Whether an event's area includes a ZIP code
+ */
+export function eventCoversZip(event: Pick<SurgeEvent, 'stateCode' | 'zipPrefixes' | 'cbsaCodes'>, zip: string): boolean {
+  if (event.zipPrefixes.length === 0 && event.cbsaCodes.length === 0) {
+    return getStateFromZip(zip) === event.stateCode;
+  }
+  if (event.zipPrefixes.some(prefix => zip.startsWith(prefix))) return true;
+  const { cbsaCode } = getZipCrosswalk(zip);
+  return cbsaCode !== null && event.cbsaCodes.includes(cbsaCode);
+}
+
+/**
+ * Demand surge for a ZIP code on a date, or null when no event is active there
+ */
+export function getDemandSurge(
+  zip: string,
+  date: Date = new Date(),
+  events: SurgeEvent[] = registeredEvents
+): DemandSurge | null {
+  if (!/^\d{5}$/.test(zip)) return null;
+
+  const active = events
+    .filter(event => eventCoversZip(event, zip))
+    .map(event => ({ event, surgePct: surgePctAt(event, event.startDate, date) }))
+    .filter(({ surgePct }) => surgePct > 0)
+    .sort((a, b) => b.surgePct - a.surgePct);
+  if (active.length === 0) return null;
+
+  const [{ event: dominant, surgePct }] = active;
+  const formatDate = (value: Date) => value.toISOString().split('T')[0];
+  const day = Math.floor((date.getTime() - dominant.startDate.getTime()) / DAY_MS);
+  const sourceLabel = dominant.source === 'fema' && dominant.femaDisasterNumber
+    ? `FEMA DR-${dominant.femaDisasterNumber}`
+    : 'MaxClaim catastrophe registry';
+
+  let disclosure = `Includes a +${surgePct.toFixed(1)}% post-catastrophe demand surge for ${dominant.name} ` +
+    `(${sourceLabel}; began ${formatDate(dominant.startDate)}, day ${day} of a surge peaking at +${dominant.peakSurgePct}% ` +
+    `and ending ${formatDate(surgeEndDate(dominant, dominant.startDate))}).`;
+  if (active.length > 1) {
+    disclosure += ` ${active.length - 1} other overlapping event${active.length > 2 ? 's' : ''} not stacked.`;
+  }
+
+  return {
+    multiplier: Math.round((1 + surgePct / 100) * 10000) / 10000,
+    surgePct,
+    events: active.map(({ event, surgePct: pct }) => ({
+      id: event.id,
+      name: event.name,
+      eventType: event.eventType,
+      source: event.source,
+      startDate: formatDate(event.startDate),
+      endDate: formatDate(surgeEndDate(event, event.startDate)),
+      surgePct: pct,
+    })),
+    disclosure,
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * FEMA Disaster Declarations Import
+ *
+ * Reads a local copy of OpenFEMA's DisasterDeclarationsSummaries dataset
+ * (JSON as served by the API, or the CSV export) and turns each major
+ * disaster declaration (one row per designated county) into a catastrophe
+ * event with the surge profile for its incident type.
+ *
+ * Data Source: https://www.fema.gov/openfema-data-page/disaster-declarations-summaries-v2
+ *
+ * Declarations list counties, which don't map onto ZIP prefixes here, so
+ * imported events cover their whole state; admins can narrow them to ZIP
+ * prefixes or CBSAs afterwards.
+ */
+
+import { splitCsvLine } from './csv';
+import { SURGE_PROFILES, surgeEndDate } from './demandSurge';
+import type { InsertCatastropheEvent } from '@shared/schema';
+
+export interface FemaDeclarationRecord {
+  disasterNumber: number;
+  state: string;
+  declarationType: string;      // DR (major disaster), EM (emergency), FM (fire management)
+  declarationDate?: string;
+  incidentType: string;
+  declarationTitle: string;
+  incidentBeginDate?: string;
+  designatedArea?: string;
+}
+
+const INCIDENT_EVENT_TYPES: Record<string, string> = {
+  'hurricane': 'hurricane',
+  'typhoon': 'hurricane',
+  'tropical storm': 'hurricane',
+  'coastal storm': 'hurricane',
+  'severe storm': 'severe_storm',
+  'severe storm(s)': 'severe_storm',
+  'tornado': 'tornado',
+  'flood': 'flood',
+  'fire': 'wildfire',
+  'winter storm': 'winter_storm',
+  'severe ice storm': 'winter_storm',
+  'snowstorm': 'winter_storm',
+};
+
+function toRecord(raw: Record<string, unknown>): FemaDeclarationRecord | null {
+  const disasterNumber = Number(raw.disasterNumber);
+  const state = String(raw.state ?? '').trim().toUpperCase();
+  if (!Number.isInteger(disasterNumber) || !/^[A-Z]{2}$/.test(state)) return null;
+
+  const optional = (value: unknown) => (value === undefined || value === null || value === '' ? undefined : String(value));
+  return {
+    disasterNumber,
+    state,
+    declarationType: String(raw.declarationType ?? '').trim().toUpperCase(),
+    declarationDate: optional(raw.declarationDate),
+    incidentType: String(raw.incidentType ?? '').trim(),
+    declarationTitle: String(raw.declarationTitle ?? '').trim(),
+    incidentBeginDate: optional(raw.incidentBeginDate),
+    designatedArea: optional(raw.designatedArea),
+  };
+}
+
+/**
+ * Parse a declarations file: an OpenFEMA JSON response, a bare JSON array,
+ * or CSV with the dataset's column names as its header row
+ */
+export function parseFemaDeclarations(content: string): FemaDeclarationRecord[] {
+  const trimmed = content.trim();
+  let rows: Record<string, unknown>[];
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    const parsed = JSON.parse(trimmed);
+    rows = Array.isArray(parsed) ? parsed : parsed.DisasterDeclarationsSummaries ?? [];
+  } else {
+    const [headerLine, ...lines] = trimmed.split(/\r?\n/);
+    const headers = splitCsvLine(headerLine);
+    rows = lines
+      .filter(line => line.trim())
+      .map(line => {
+        const cells = splitCsvLine(line);
+        return Object.fromEntries(headers.map((header, i) => [header, cells[i]]));
+      });
+  }
+
+  return rows.map(toRecord).filter((record): record is FemaDeclarationRecord => record !== null);
+}
+
+function titleCase(value: string): string {
+  return value.toLowerCase().replace(/\b[a-z]/g, letter => letter.toUpperCase());
+}
+
+/**
+ * One catastrophe event per major disaster declaration whose surge hasn't
+ * fully decayed by `now`
+ */
+export function femaDeclarationsToEvents(records: FemaDeclarationRecord[], now: Date = new Date()): InsertCatastropheEvent[] {
+  const byDisaster = new Map<number, FemaDeclarationRecord[]>();
+  for (const record of records) {
+    // Emergency and fire management declarations precede or sit alongside a major disaster declaration
+    if (record.declarationType !== 'DR') continue;
+    byDisaster.set(record.disasterNumber, [...(byDisaster.get(record.disasterNumber) ?? []), record]);
+  }
+
+  const events: InsertCatastropheEvent[] = [];
+  byDisaster.forEach((rows, disasterNumber) => {
+    const [first] = rows;
+    const incident = first.incidentType.toLowerCase();
+    const eventType = /hail/i.test(first.declarationTitle) ? 'hail' : INCIDENT_EVENT_TYPES[incident];
+    const profile = eventType ? SURGE_PROFILES[eventType] : undefined;
+    const startDate = new Date(first.incidentBeginDate ?? first.declarationDate ?? '');
+    if (!profile || isNaN(startDate.getTime())) return;
+    if (surgeEndDate(profile, startDate) <= now) return;
+
+    const designatedAreas = Array.from(new Set(rows.map(row => row.designatedArea).filter((area): area is string => !!area)));
+    events.push({
+      name: titleCase(first.declarationTitle || `${first.incidentType} ${first.state}`),
+      eventType,
+      source: 'fema',
+      femaDisasterNumber: disasterNumber,
+      stateCode: first.state,
+      zipPrefixes: [],
+      cbsaCodes: [],
+      designatedAreas,
+      startDate,
+      ...profile,
+      notes: `FEMA DR-${disasterNumber}-${first.state}, declared ${first.declarationDate?.split('T')[0] ?? 'unknown'}`,
+    });
+  });
+  return events;
+}
@@ -215,6 +215,19 @@ export class ObjectStorageService {
     return file;
   }
 
+  // List every file stored under a claim (photos, documents, generated reports)
+  async listClaimFiles(claimId: string): Promise<File[]> {
+    const { bucketName, objectName } = parseObjectPath(`${this.privateObjectDir}/${claimId}/`);
+    const [files] = await objectStorageClient.bucket(bucketName).getFiles({ prefix: objectName });
+    return files;
+  }
+
+  // Delete a claim file; missing files are ignored
+  async deleteClaimFile(claimId: string, filename: string): Promise<void> {
+    const { bucketName, objectName } = parseObjectPath(`${this.privateObjectDir}/${claimId}/${filename}`);
+    await objectStorageClient.bucket(bucketName).file(objectName).delete({ ignoreNotFound: true });
+  }
+
   // Get object from generic key path
   async getObjectByKey(key: string): Promise<File> {
     const fullPath = key.startsWith("/") ? key : `${this.privateObjectDir}/${key}`;
@@ -5,7 +5,12 @@
 // Enhanced with multi-source citation support
 
 import { generateDisclaimer } from '../pricing-data';
-import { type PricingSource } from './pricingCitation';
+import { sourceRoleLabel, type PricingSource } from './pricingCitation';
+import type { DepreciationSummary } from '../services/claimAudit/types';
+import type { ContentsAudit } from '../services/contentsInventory';
+import { groupItemsByRoom } from '@shared/roomGeometry';
+import type { CarrierInsight } from '../services/carrierIntel';
+import { createPdfWriter, type PdfWriter } from './pdfWriter';
 
 /**
  * Generate a basic PDF report from claim audit data.
@@ -20,6 +25,7 @@ export interface ClaimReportData {
   items: Array<{
     category: string;
     description: string;
+    room?: string | null;
     quantity: number;
     unit: string;
     insuranceOffer: number;
@@ -30,6 +36,13 @@ export interface ClaimReportData {
       confidenceLevel: string;
       shortCitation: string;
     };
+    depreciation?: {
+      acv: number;
+      depreciationAmount: number;
+      depreciationPct: number;
+      recoverableDepreciation: number;
+      flags: string[];
+    } | null;
   }>;
   summary: {
     totalInsuranceOffer: number;
@@ -37,10 +50,24 @@ export interface ClaimReportData {
     totalAdditional: number;
     overallIncrease: number;
   };
+  depreciationSummary?: DepreciationSummary | null;
   dataSources?: PricingSource[];
+  contents?: ContentsAudit | null;
+  photos?: Array<{
+    url: string;
+    thumbnailUrl?: string | null;
+    details: string[];  // Caption lines from describePhoto
+  }>;
+  carrier?: string | null;
+  carrierInsights?: ReportCarrierInsight[];  // Historical underpayment patterns for this carrier's items
   generatedAt: Date;
 }
 
+export type ReportCarrierInsight = Pick<
+  CarrierInsight,
+  "item" | "severity" | "percentageUnderpayment" | "message" | "recommendedAction" | "sampleSize"
+>;
+
 /**
  * Generate HTML report content for a claim audit.
  * This can be stored in App Storage or converted to PDF.
@@ -52,7 +79,11 @@ export function generateReportHtml(data: ClaimReportData): string {
   const formatPercent = (pct: number) =>
     `${pct >= 0 ? "+" : ""}${pct.toFixed(1)}%`;
 
-  const itemRows = data.items.map((item, i) => `
+  // Photo captions and rooms are typed by the user
+  const escapeHtml = (text: string) =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+  const itemRow = (item: ClaimReportData["items"][number], i: number) => `
     <tr>
       <td style="padding: 8px; border-bottom: 1px solid #e2e8f0;">${i + 1}</td>
       <td style="padding: 8px; border-bottom: 1px solid #e2e8f0;">${item.category}</td>
@@ -62,6 +93,20 @@ export function generateReportHtml(data: ClaimReportData): string {
       <td style="padding: 8px; border-bottom: 1px solid #e2e8f0; text-align: right;">${formatCurrency(item.fmvPrice)}</td>
       <td style="padding: 8px; border-bottom: 1px solid #e2e8f0; text-align: right; color: ${item.variance >= 0 ? "#059669" : "#dc2626"};">${formatPercent(item.variance)}</td>
     </tr>
+  `;
+
+  // Scope builder items are presented room by room with a subtotal per room
+  const roomGroups = groupItemsByRoom(data.items);
+  const itemRows = roomGroups.length === 1 && roomGroups[0].room === null
+    ? data.items.map(itemRow).join("")
+    : roomGroups.map(group => `
+    <tr>
+      <td colspan="4" style="padding: 10px 8px 6px; font-weight: bold; background-color: #f8fafc;">${escapeHtml(group.room ?? "Other items")}</td>
+      <td style="padding: 10px 8px 6px; text-align: right; font-weight: bold; background-color: #f8fafc;">${formatCurrency(group.items.reduce((sum, { item }) => sum + item.insuranceOffer, 0))}</td>
+      <td style="padding: 10px 8px 6px; text-align: right; font-weight: bold; background-color: #f8fafc;">${formatCurrency(group.items.reduce((sum, { item }) => sum + item.fmvPrice, 0))}</td>
+      <td style="background-color: #f8fafc;"></td>
+    </tr>
+    ${group.items.map(({ item, index }) => itemRow(item, index)).join("")}
   `).join("");
 
   return `
@@ -186,6 +231,80 @@ export function generateReportHtml(data: ClaimReportData): string {
     </tbody>
   </table>
 
+  ${data.depreciationSummary ? `
+  <div class="depreciation-box" style="background-color: #ecfdf5; border-radius: 8px; padding: 20px; margin-top: 30px; border-left: 4px solid #059669;">
+    <h2 style="margin-top: 0; color: #047857;">Recoverable Depreciation You Can Still Claim</h2>
+    <p style="font-size: 28px; font-weight: bold; color: #059669; margin: 8px 0;">${formatCurrency(data.depreciationSummary.recoverableDepreciation)}</p>
+    <p style="font-size: 14px; color: #475569;">
+      Replacement cost policies hold back recoverable depreciation until repairs are completed.
+      Submit invoices or proof of completion to the carrier to release this amount.
+    </p>
+    <table style="margin-top: 12px;">
+      <tbody>
+        <tr><td style="padding: 6px 8px;">Replacement Cost Value (RCV)</td><td style="padding: 6px 8px; text-align: right;">${formatCurrency(data.depreciationSummary.totalRcv)}</td></tr>
+        <tr><td style="padding: 6px 8px;">Total Depreciation</td><td style="padding: 6px 8px; text-align: right;">(${formatCurrency(data.depreciationSummary.totalDepreciation)})</td></tr>
+        <tr><td style="padding: 6px 8px;">Actual Cash Value (ACV)</td><td style="padding: 6px 8px; text-align: right;">${formatCurrency(data.depreciationSummary.totalAcv)}</td></tr>
+        <tr><td style="padding: 6px 8px;">Deductible</td><td style="padding: 6px 8px; text-align: right;">(${formatCurrency(data.depreciationSummary.deductible)})</td></tr>
+        <tr><td style="padding: 6px 8px; font-weight: bold;">Net Actual Cash Payment</td><td style="padding: 6px 8px; text-align: right; font-weight: bold;">${formatCurrency(data.depreciationSummary.netActualCashPayment)}</td></tr>
+        <tr><td style="padding: 6px 8px;">Non-Recoverable Depreciation</td><td style="padding: 6px 8px; text-align: right;">${formatCurrency(data.depreciationSummary.nonRecoverableDepreciation)}</td></tr>
+      </tbody>
+    </table>
+    ${data.depreciationSummary.excessiveDepreciation > 0 ? `
+    <p style="font-size: 14px; color: #b45309; margin-top: 12px;">
+      <strong>Excessive depreciation:</strong> ${formatCurrency(data.depreciationSummary.excessiveDepreciation)} across
+      ${data.depreciationSummary.itemsWithExcessiveDepreciation} item(s) exceeds what the item age and material life expectancy support.
+    </p>
+    ` : ''}
+    ${data.items.filter(item => item.depreciation && item.depreciation.flags.length > 0).map(item => `
+    <p style="font-size: 12px; color: #64748b; margin: 4px 0;">${item.description}: ${item.depreciation!.flags.join('; ')}</p>
+    `).join('')}
+  </div>
+  ` : ''}
+
+  ${data.contents && data.contents.items.length > 0 ? `
+  <h2>Contents Inventory (Personal Property)</h2>
+  <p style="font-size: 14px; color: #475569;">
+    Replacement cost from current prices for items of like kind and quality, depreciated by item class, age and condition.
+    ${data.contents.summary.totalShortfall > 0 ? `The carrier's actual cash value falls <strong>${formatCurrency(data.contents.summary.totalShortfall)}</strong> short across ${data.contents.summary.underpaidCount} item(s).` : ''}
+  </p>
+  <table>
+    <thead>
+      <tr>
+        <th>Item</th>
+        <th>Qty</th>
+        <th>Age / Condition</th>
+        <th>Replacement Cost</th>
+        <th>Fair ACV</th>
+        <th>Carrier ACV</th>
+        <th>Shortfall</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${data.contents.items.map(item => `
+      <tr>
+        <td style="padding: 8px; border-bottom: 1px solid #e2e8f0;">
+          ${escapeHtml(item.name)}${item.brand ? ` <span style="color: #64748b;">(${escapeHtml(item.brand)})</span>` : ''}
+          ${item.flags.length > 0 ? `<br><span style="font-size: 11px; color: #b45309;">${item.flags.map(escapeHtml).join('; ')}</span>` : ''}
+        </td>
+        <td style="padding: 8px; border-bottom: 1px solid #e2e8f0;">${item.quantity}</td>
+        <td style="padding: 8px; border-bottom: 1px solid #e2e8f0;">${item.ageYears !== null ? `${item.ageYears} yr, ` : ''}${item.condition}</td>
+        <td style="padding: 8px; border-bottom: 1px solid #e2e8f0; text-align: right;">${item.replacementCost !== null ? formatCurrency(item.replacementCost) : '-'}</td>
+        <td style="padding: 8px; border-bottom: 1px solid #e2e8f0; text-align: right;">${item.fairAcv !== null ? formatCurrency(item.fairAcv) : '-'}</td>
+        <td style="padding: 8px; border-bottom: 1px solid #e2e8f0; text-align: right;">${item.carrierAcv !== null ? formatCurrency(item.carrierAcv) : '-'}</td>
+        <td style="padding: 8px; border-bottom: 1px solid #e2e8f0; text-align: right; color: ${item.shortfall > 0 ? "#dc2626" : "#059669"};">${formatCurrency(item.shortfall)}</td>
+      </tr>
+      `).join('')}
+      <tr>
+        <td colspan="3" style="padding: 8px; font-weight: bold;">Total</td>
+        <td style="padding: 8px; text-align: right; font-weight: bold;">${formatCurrency(data.contents.summary.totalReplacementCost)}</td>
+        <td style="padding: 8px; text-align: right; font-weight: bold;">${formatCurrency(data.contents.summary.totalFairAcv)}</td>
+        <td style="padding: 8px; text-align: right; font-weight: bold;">${formatCurrency(data.contents.summary.totalCarrierAcv)}</td>
+        <td style="padding: 8px; text-align: right; font-weight: bold;">${formatCurrency(data.contents.summary.totalShortfall)}</td>
+      </tr>
+    </tbody>
+  </table>
+  ` : ''}
+
   ${data.dataSources && data.dataSources.length > 0 ? `
   <div class="sources-box" style="background-color: #f0f9ff; border-radius: 8px; padding: 20px; margin-top: 30px; border-left: 4px solid #0ea5e9;">
     <h2 style="margin-top: 0; color: #0369a1;">Data Sources & Citations</h2>
@@ -195,7 +314,7 @@ export function generateReportHtml(data: ClaimReportData): string {
     <ul style="list-style: none; padding: 0; margin: 0;">
       ${data.dataSources.map(source => `
         <li style="padding: 8px 0; border-bottom: 1px solid #e0f2fe;">
-          <strong style="color: #0284c7;">${source.type === 'primary' ? 'Primary' : source.type === 'secondary' ? 'Secondary' : 'Additional'} Source:</strong>
+          <strong style="color: #0284c7;">${sourceRoleLabel(source.type)} Source:</strong>
           ${source.name} - ${source.citation}
           ${source.url ? `<br><a href="${source.url}" style="color: #0ea5e9; font-size: 12px;">${source.url}</a>` : ''}
           <span style="font-size: 11px; color: #94a3b8; display: block;">Last updated: ${source.lastUpdated}</span>
@@ -209,6 +328,23 @@ export function generateReportHtml(data: ClaimReportData): string {
   </div>
   ` : ''}
 
+  ${data.photos && data.photos.length > 0 ? `
+  <div class="photos-box" style="margin-top: 30px; page-break-before: always;">
+    <h2>Appendix: Photo Evidence</h2>
+    <div style="display: grid; grid-template-columns: repeat(2, 1fr); gap: 16px;">
+      ${data.photos.map((photo, i) => `
+        <figure style="margin: 0; border: 1px solid #e2e8f0; border-radius: 8px; padding: 8px; page-break-inside: avoid;">
+          <a href="${escapeHtml(photo.url)}"><img src="${escapeHtml(photo.thumbnailUrl || photo.url)}" alt="Photo ${i + 1}" style="width: 100%; max-height: 240px; object-fit: contain;"></a>
+          <figcaption style="font-size: 12px; color: #475569; margin-top: 6px;">
+            <strong>Photo ${i + 1}</strong>
+            ${photo.details.map(detail => `<br>${escapeHtml(detail)}`).join('')}
+          </figcaption>
+        </figure>
+      `).join('')}
+    </div>
+  </div>
+  ` : ''}
+
   <div class="footer">
     <p><strong>Disclaimer:</strong> ${generateDisclaimer()}</p>
     <p>MaxClaim - Consumer Advocacy Tool | Generated by MaxClaim Analysis Engine</p>
@@ -218,6 +354,303 @@ export function generateReportHtml(data: ClaimReportData): string {
   `.trim();
 }
 
+const BRAND_COLOR: [number, number, number] = [14, 165, 233];  // #0ea5e9, as in the HTML report
+const FMV_COLOR: [number, number, number] = [5, 150, 105];
+const OFFER_COLOR: [number, number, number] = [148, 163, 184];
+const REPORT_TITLE = "MaxClaim Fair Market Value Report";
+const MAX_CHART_CATEGORIES = 8;
+
+const METHODOLOGY = "Base pricing from industry-standard databases, adjusted for regional cost variations " +
+  "using HUD CBSA cost indices and BLS Consumer Price Index data. Waste factors applied per trade standards. " +
+  "Each line's fair market value is compared with the carrier's amount for the same quantity; lines priced below " +
+  "fair market value are reported as underpaid. Depreciation is checked against the item's age and the material's " +
+  "expected useful life.";
+
+const formatMoney = (amount: number) =>
+  `$${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatVariance = (pct: number) => `${pct >= 0 ? "+" : ""}${pct.toFixed(1)}%`;
+
+/**
+ * Number each distinct pricing citation once; markers[i] is the footnote
+ * number for items[i] (null when the item has no citation)
+ */
+export function collectCitationFootnotes(items: ClaimReportData["items"]): { markers: Array<number | null>; footnotes: string[] } {
+  const footnotes: string[] = [];
+  const markers = items.map(item => {
+    if (!item.citation) return null;
+    const footnote = `${item.citation.shortCitation} (${item.citation.confidenceLevel.toLowerCase()} confidence)`;
+    const existing = footnotes.indexOf(footnote);
+    if (existing >= 0) return existing + 1;
+    footnotes.push(footnote);
+    return footnotes.length;
+  });
+  return { markers, footnotes };
+}
+
+/**
+ * Paragraphs of the report's executive summary
+ */
+export function buildExecutiveSummary(data: ClaimReportData): string[] {
+  const { summary } = data;
+  const gaps = data.items
+    .map(item => ({ description: item.description, gap: item.fmvPrice - item.insuranceOffer }))
+    .filter(item => item.gap > 0)
+    .sort((a, b) => b.gap - a.gap);
+
+  const paragraphs = [
+    `The carrier's estimate for the ${data.items.length} line item${data.items.length === 1 ? "" : "s"} reviewed totals ` +
+      `${formatMoney(summary.totalInsuranceOffer)}. Fair market value for the same scope in ZIP ${data.zipCode} is ` +
+      `${formatMoney(summary.totalFMV)}, a difference of ${formatMoney(summary.totalAdditional)} (${formatVariance(summary.overallIncrease)}).`,
+    gaps.length > 0
+      ? `${gaps.length} of ${data.items.length} items are priced below fair market value. The largest gaps: ` +
+        gaps.slice(0, 3).map(item => `${item.description} (${formatMoney(item.gap)})`).join(", ") + "."
+      : "No line items are priced below fair market value.",
+  ];
+
+  if (data.depreciationSummary && data.depreciationSummary.recoverableDepreciation > 0) {
+    paragraphs.push(
+      `${formatMoney(data.depreciationSummary.recoverableDepreciation)} of recoverable depreciation can still be claimed once repairs are completed.`
+    );
+  }
+  if (data.contents && data.contents.summary.totalShortfall > 0) {
+    paragraphs.push(
+      `The contents inventory values personal property ${formatMoney(data.contents.summary.totalShortfall)} above the carrier's actual cash value ` +
+        `across ${data.contents.summary.underpaidCount} item(s).`
+    );
+  }
+  if (data.carrier && data.carrierInsights && data.carrierInsights.length > 0) {
+    paragraphs.push(
+      `${data.carrier} has a documented history of underpaying ${data.carrierInsights.length} of the items on this claim; see Carrier Insights.`
+    );
+  }
+  return paragraphs;
+}
+
+function writeHeading(pdf: PdfWriter, title: string) {
+  pdf.text(title, { size: 16, bold: true, gapAfter: 12 });
+}
+
+function writeCoverPage(pdf: PdfWriter, data: ClaimReportData) {
+  const { doc, margin, pageWidth } = pdf;
+  doc.setFillColor(...BRAND_COLOR);
+  doc.rect(0, 0, pageWidth, 110, "F");
+  doc.setTextColor(255);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(30);
+  doc.text("MaxClaim", margin, 62);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(11);
+  doc.text("Consumer Advocacy Tool", margin, 84);
+  doc.setTextColor(0);
+
+  pdf.y = 170;
+  pdf.text("Fair Market Value Report", { size: 26, bold: true, gapAfter: 24 });
+  pdf.text(`Claim ${data.claimId}`, { size: 12, bold: true, gapAfter: 4 });
+  pdf.text(`ZIP code: ${data.zipCode}`, { gapAfter: 4 });
+  if (data.carrier) pdf.text(`Carrier: ${data.carrier}`, { gapAfter: 4 });
+  pdf.y += 24;
+
+  pdf.table({
+    headers: ["Insurance offer", "Fair market value", "Additional amount", "Variance"],
+    widths: [0.25, 0.25, 0.25, 0.25],
+    align: ["right", "right", "right", "right"],
+    rows: [[
+      formatMoney(data.summary.totalInsuranceOffer),
+      formatMoney(data.summary.totalFMV),
+      formatMoney(data.summary.totalAdditional),
+      formatVariance(data.summary.overallIncrease),
+    ]],
+  });
+
+  pdf.text(`Generated ${data.generatedAt.toLocaleString("en-US")}`, { size: 9, color: 100 });
+}
+
+// Brand rule and report title across the top of every page after the cover
+function writePageHeaders(pdf: PdfWriter) {
+  const { doc, margin, pageWidth } = pdf;
+  for (let page = 2; page <= doc.getNumberOfPages(); page++) {
+    doc.setPage(page);
+    doc.setDrawColor(...BRAND_COLOR);
+    doc.setLineWidth(2);
+    doc.line(margin, margin / 2, pageWidth - margin, margin / 2);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(8);
+    doc.setTextColor(...BRAND_COLOR);
+    doc.text(REPORT_TITLE, margin, margin / 2 - 6);
+  }
+  doc.setTextColor(0);
+  doc.setDrawColor(0);
+}
+
+/**
+ * Render the claim report as a paginated, branded PDF: cover, executive
+ * summary with a category chart, line items with citation footnotes,
+ * contents inventory, carrier insights and a methodology appendix.
+ */
+export function generateReportPdf(data: ClaimReportData): Buffer {
+  const pdf = createPdfWriter();
+
+  writeCoverPage(pdf, data);
+
+  pdf.newPage();
+  writeHeading(pdf, "Executive Summary");
+  for (const paragraph of buildExecutiveSummary(data)) {
+    pdf.text(paragraph);
+  }
+
+  const categories = new Map<string, { offer: number; fmv: number }>();
+  for (const item of data.items) {
+    const totals = categories.get(item.category) ?? { offer: 0, fmv: 0 };
+    totals.offer += item.insuranceOffer;
+    totals.fmv += item.fmvPrice;
+    categories.set(item.category, totals);
+  }
+  if (categories.size > 0) {
+    pdf.y += 6;
+    pdf.text("Insurance offer vs. fair market value by category", { size: 11, bold: true, gapAfter: 8 });
+    pdf.barChart({
+      series: [
+        { label: "Insurance offer", color: OFFER_COLOR },
+        { label: "Fair market value", color: FMV_COLOR },
+      ],
+      rows: Array.from(categories.entries())
+        .sort(([, a], [, b]) => (b.fmv - b.offer) - (a.fmv - a.offer))
+        .slice(0, MAX_CHART_CATEGORIES)
+        .map(([category, totals]) => ({ label: category, values: [totals.offer, totals.fmv] })),
+      formatValue: amount => `$${Math.round(amount).toLocaleString("en-US")}`,
+    });
+  }
+
+  if (data.depreciationSummary) {
+    const depreciation = data.depreciationSummary;
+    pdf.text("Depreciation", { size: 11, bold: true, gapAfter: 8 });
+    pdf.table({
+      headers: ["", "Amount"],
+      widths: [0.7, 0.3],
+      align: ["left", "right"],
+      rows: [
+        ["Replacement Cost Value (RCV)", formatMoney(depreciation.totalRcv)],
+        ["Total Depreciation", `(${formatMoney(depreciation.totalDepreciation)})`],
+        ["Actual Cash Value (ACV)", formatMoney(depreciation.totalAcv)],
+        ["Deductible", `(${formatMoney(depreciation.deductible)})`],
+        ["Net Actual Cash Payment", formatMoney(depreciation.netActualCashPayment)],
+        ["Recoverable Depreciation", formatMoney(depreciation.recoverableDepreciation)],
+        ["Non-Recoverable Depreciation", formatMoney(depreciation.nonRecoverableDepreciation)],
+      ],
+    });
+  }
+
+  pdf.newPage();
+  writeHeading(pdf, "Line Item Details");
+  const { markers, footnotes } = collectCitationFootnotes(data.items);
+  if (data.items.length === 0) {
+    pdf.text("No line items were recorded for this claim.");
+  }
+  // Scope builder items are listed room by room, as in the HTML report
+  const roomGroups = data.items.length > 0 ? groupItemsByRoom(data.items) : [];
+  const grouped = !(roomGroups.length === 1 && roomGroups[0].room === null);
+  for (const group of roomGroups) {
+    if (grouped) pdf.text(group.room ?? "Other items", { size: 11, bold: true, gapAfter: 6 });
+    pdf.table({
+      headers: ["#", "Description", "Quantity", "Insurance offer", "FMV", "Variance"],
+      widths: [0.06, 0.38, 0.13, 0.16, 0.15, 0.12],
+      align: ["right", "left", "right", "right", "right", "right"],
+      rows: group.items.map(({ item, index }) => [
+        String(index + 1),
+        markers[index] !== null ? `${item.description} [${markers[index]}]` : item.description,
+        `${item.quantity} ${item.unit}`,
+        formatMoney(item.insuranceOffer),
+        formatMoney(item.fmvPrice),
+        formatVariance(item.variance),
+      ]),
+      notes: group.items.map(({ item }) => [item.category, ...(item.depreciation?.flags ?? [])].join(" | ")),
+      total: grouped
+        ? [
+            "",
+            "Room total",
+            "",
+            formatMoney(group.items.reduce((sum, { item }) => sum + item.insuranceOffer, 0)),
+            formatMoney(group.items.reduce((sum, { item }) => sum + item.fmvPrice, 0)),
+            "",
+          ]
+        : undefined,
+    });
+  }
+  if (footnotes.length > 0) {
+    pdf.text("Pricing citations", { size: 10, bold: true, gapAfter: 4 });
+    footnotes.forEach((footnote, i) => pdf.text(`[${i + 1}] ${footnote}`, { size: 8, color: 80, gapAfter: 3 }));
+  }
+
+  if (data.contents && data.contents.items.length > 0) {
+    const { items, summary } = data.contents;
+    const money = (value: number | null) => (value !== null ? formatMoney(value) : "-");
+    pdf.newPage();
+    writeHeading(pdf, "Contents Inventory (Personal Property)");
+    pdf.table({
+      headers: ["Item", "Qty", "Replacement cost", "Fair ACV", "Carrier ACV", "Shortfall"],
+      widths: [0.3, 0.08, 0.16, 0.15, 0.15, 0.16],
+      align: ["left", "right", "right", "right", "right", "right"],
+      rows: items.map(item => [
+        [item.name, item.brand].filter(Boolean).join(" - "),
+        String(item.quantity),
+        money(item.replacementCost),
+        money(item.fairAcv),
+        money(item.carrierAcv),
+        formatMoney(item.shortfall),
+      ]),
+      notes: items.map(item => [`${item.condition}${item.ageYears !== null ? `, ${item.ageYears} yr` : ""}`, ...item.flags].join(" | ")),
+      total: [
+        "Total",
+        "",
+        formatMoney(summary.totalReplacementCost),
+        formatMoney(summary.totalFairAcv),
+        formatMoney(summary.totalCarrierAcv),
+        formatMoney(summary.totalShortfall),
+      ],
+    });
+  }
+
+  if (data.carrier) {
+    pdf.newPage();
+    writeHeading(pdf, "Carrier Insights");
+    const insights = data.carrierInsights ?? [];
+    if (insights.length === 0) {
+      pdf.text(`No historical underpayment patterns are on record for ${data.carrier} on these items.`);
+    } else {
+      pdf.text(`Historical claim data shows ${data.carrier} underpaying the following items. Cite these patterns when requesting a supplement.`);
+      pdf.table({
+        headers: ["Item", "Severity", "Typical underpayment", "Sample size"],
+        widths: [0.46, 0.18, 0.2, 0.16],
+        align: ["left", "left", "right", "right"],
+        rows: insights.map(insight => [
+          insight.item,
+          insight.severity,
+          `${insight.percentageUnderpayment.toFixed(0)}%`,
+          String(insight.sampleSize),
+        ]),
+        notes: insights.map(insight => `${insight.message} ${insight.recommendedAction}`),
+      });
+    }
+  }
+
+  pdf.newPage();
+  writeHeading(pdf, "Appendix: Methodology & Disclaimer");
+  pdf.text(METHODOLOGY, { gapAfter: 14 });
+  if (data.dataSources && data.dataSources.length > 0) {
+    pdf.text("Data sources", { size: 11, bold: true, gapAfter: 6 });
+    for (const source of data.dataSources) {
+      pdf.text(`${sourceRoleLabel(source.type)}: ${source.name} - ${source.citation}${source.url ? ` (${source.url})` : ""}. Last updated ${source.lastUpdated}.`, { size: 9, gapAfter: 4 });
+    }
+    pdf.y += 10;
+  }
+  pdf.text(generateDisclaimer(), { size: 8, color: 80 });
+
+  writePageHeaders(pdf);
+  pdf.numberPages(`Claim ${data.claimId}`);
+  return pdf.toBuffer();
+}
+
 /**
  * Generate a summary text for email notifications.
  */
@@ -227,5 +660,8 @@ export function generateReportSummary(data: ClaimReportData): string {
 
   return `Insurance Offer: ${formatCurrency(data.summary.totalInsuranceOffer)} | ` +
     `Fair Market Value: ${formatCurrency(data.summary.totalFMV)} | ` +
-    `Potential Additional: ${formatCurrency(data.summary.totalAdditional)} (+${data.summary.overallIncrease.toFixed(1)}%)`;
+    `Potential Additional: ${formatCurrency(data.summary.totalAdditional)} (+${data.summary.overallIncrease.toFixed(1)}%)` +
+    (data.depreciationSummary && data.depreciationSummary.recoverableDepreciation > 0
+      ? ` | Recoverable Depreciation: ${formatCurrency(data.depreciationSummary.recoverableDepreciation)}`
+      : '');
 }
@@ -0,0 +1,223 @@
+/**
+ * Flowing-text PDF writer on top of jsPDF
+ *
+ * Tracks a vertical cursor so generators can write wrapped paragraphs and
+ * bordered tables without computing page breaks themselves. Used by the
+ * server-side document generators (supplement letters, dispute packages,
+ * claim reports).
+ */
+
+import { jsPDF } from "jspdf";
+
+export interface PdfTable {
+  headers: string[];
+  widths: number[];          // Fractions of the text width
+  align: Array<"left" | "right">;
+  rows: string[][];
+  notes?: Array<string | undefined>;  // Small print under the first cell
+  total?: string[];
+}
+
+export interface PdfBarChart {
+  series: Array<{ label: string; color: [number, number, number] }>;
+  rows: Array<{ label: string; values: number[] }>;  // One value per series
+  formatValue?: (value: number) => string;
+}
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  gapAfter?: number;
+  indent?: number;
+  color?: number;
+}
+
+const LINE_HEIGHT = 1.35;
+const NOTE_SIZE = 7;
+
+export type PdfWriter = ReturnType<typeof createPdfWriter>;
+
+/**
+ * Create a writer on a US letter page in points with the given margin
+ */
+export function createPdfWriter(options: { margin?: number } = {}) {
+  const doc = new jsPDF({ unit: "pt", format: "letter" });
+  const margin = options.margin ?? 54; // 0.75in
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textWidth = pageWidth - margin * 2;
+  let y = margin;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      doc.addPage();
+      y = margin;
+    }
+  };
+
+  const newPage = () => {
+    doc.addPage();
+    y = margin;
+  };
+
+  const text = (content: string, textOptions: PdfTextOptions = {}) => {
+    const size = textOptions.size ?? 11;
+    const indent = textOptions.indent ?? 0;
+    doc.setFont("helvetica", textOptions.bold ? "bold" : "normal");
+    doc.setFontSize(size);
+    doc.setTextColor(textOptions.color ?? 0);
+    for (const line of doc.splitTextToSize(content, textWidth - indent) as string[]) {
+      ensureSpace(size * LINE_HEIGHT);
+      doc.text(line, margin + indent, y + size);
+      y += size * LINE_HEIGHT;
+    }
+    doc.setTextColor(0);
+    y += textOptions.gapAfter ?? 10;
+  };
+
+  const table = (pdfTable: PdfTable) => {
+    const size = 9;
+    const padding = 4;
+    const widths = pdfTable.widths.map(w => w * textWidth);
+
+    const drawRow = (cells: string[], rowOptions: { bold?: boolean; note?: string } = {}) => {
+      doc.setFontSize(size);
+      doc.setFont("helvetica", rowOptions.bold ? "bold" : "normal");
+      const wrapped = cells.map((cell, i) => doc.splitTextToSize(cell, widths[i] - padding * 2) as string[]);
+      const noteLines = rowOptions.note ? doc.splitTextToSize(rowOptions.note, widths[0] - padding * 2) as string[] : [];
+      const lineCount = Math.max(...wrapped.map(lines => lines.length), 1);
+      const height = lineCount * size * LINE_HEIGHT + noteLines.length * NOTE_SIZE * LINE_HEIGHT + padding * 2;
+
+      ensureSpace(height);
+      let x = margin;
+      wrapped.forEach((lines, i) => {
+        doc.rect(x, y, widths[i], height);
+        lines.forEach((line, lineIndex) => {
+          const textY = y + padding + size + lineIndex * size * LINE_HEIGHT;
+          if (pdfTable.align[i] === "right") {
+            doc.text(line, x + widths[i] - padding, textY, { align: "right" });
+          } else {
+            doc.text(line, x + padding, textY);
+          }
+        });
+        x += widths[i];
+      });
+
+      if (noteLines.length > 0) {
+        doc.setFont("helvetica", "normal");
+        doc.setFontSize(NOTE_SIZE);
+        doc.setTextColor(100);
+        noteLines.forEach((line, lineIndex) => {
+          doc.text(line, margin + padding, y + padding + lineCount * size * LINE_HEIGHT + NOTE_SIZE + lineIndex * NOTE_SIZE * LINE_HEIGHT);
+        });
+        doc.setTextColor(0);
+      }
+      y += height;
+    };
+
+    doc.setDrawColor(150);
+    doc.setLineWidth(0.5);
+    drawRow(pdfTable.headers, { bold: true });
+    pdfTable.rows.forEach((cells, i) => drawRow(cells, { note: pdfTable.notes?.[i] }));
+    if (pdfTable.total) drawRow(pdfTable.total, { bold: true });
+    y += 12;
+  };
+
+  /**
+   * Horizontal grouped bar chart: a row label, then one bar per series
+   * scaled to the largest value in the chart
+   */
+  const barChart = (chart: PdfBarChart) => {
+    const barHeight = 9;
+    const labelWidth = textWidth * 0.3;
+    const valueWidth = 70;
+    const plotWidth = textWidth - labelWidth - valueWidth;
+    const max = Math.max(0, ...chart.rows.flatMap(row => row.values));
+    const format = chart.formatValue ?? ((value: number) => value.toLocaleString("en-US"));
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    ensureSpace(18);
+    let legendX = margin + labelWidth;
+    chart.series.forEach(series => {
+      doc.setFillColor(...series.color);
+      doc.rect(legendX, y + 1, 8, 8, "F");
+      doc.text(series.label, legendX + 12, y + 8);
+      legendX += 12 + doc.getTextWidth(series.label) + 16;
+    });
+    y += 18;
+
+    for (const row of chart.rows) {
+      const rowHeight = row.values.length * barHeight + 8;
+      ensureSpace(rowHeight);
+      const [label] = doc.splitTextToSize(row.label, labelWidth - 8) as string[];
+      doc.setTextColor(0);
+      doc.text(label ?? "", margin, y + barHeight);
+      row.values.forEach((value, i) => {
+        const width = max > 0 ? (Math.max(value, 0) / max) * plotWidth : 0;
+        const barY = y + i * barHeight;
+        if (width > 0) {
+          doc.setFillColor(...chart.series[i].color);
+          doc.rect(margin + labelWidth, barY, width, barHeight - 1, "F");
+        }
+        doc.setTextColor(90);
+        doc.text(format(value), margin + labelWidth + width + 4, barY + barHeight - 2);
+      });
+      y += rowHeight;
+    }
+    doc.setTextColor(0);
+    y += 10;
+  };
+
+  /**
+   * Place an image scaled to fit the text width and at most maxHeight points
+   */
+  const image = (data: Uint8Array, format: "JPEG" | "PNG", maxHeight: number = 300) => {
+    const properties = doc.getImageProperties(data);
+    const scale = Math.min(textWidth / properties.width, maxHeight / properties.height, 1);
+    const width = properties.width * scale;
+    const height = properties.height * scale;
+
+    ensureSpace(height);
+    doc.addImage(data, format, margin, y, width, height);
+    y += height + 6;
+  };
+
+  /**
+   * Stamp "Page X of N" on every page; call once all content is written
+   */
+  const numberPages = (label: string = "") => {
+    const pageCount = doc.getNumberOfPages();
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    for (let page = 1; page <= pageCount; page++) {
+      doc.setPage(page);
+      const footer = label ? `${label} - Page ${page} of ${pageCount}` : `Page ${page} of ${pageCount}`;
+      doc.text(footer, pageWidth / 2, pageHeight - margin / 2, { align: "center" });
+    }
+    doc.setTextColor(0);
+  };
+
+  return {
+    doc,
+    margin,
+    pageWidth,
+    pageHeight,
+    textWidth,
+    get y() {
+      return y;
+    },
+    set y(value: number) {
+      y = value;
+    },
+    ensureSpace,
+    newPage,
+    text,
+    table,
+    barChart,
+    image,
+    numberPages,
+    toBuffer: () => Buffer.from(doc.output("arraybuffer")),
+  };
+}
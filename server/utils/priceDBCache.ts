@@ -1,10 +1,14 @@
 import priceDB from '@shared/priceDB.json';
-import type { PriceDBItem } from '@shared/priceAudit';
+import { recomputeMarketPrices, type PriceDBItem } from '@shared/priceAudit';
 
 /**
  * PriceDB Caching System
  * Loads priceDB once and provides efficient query methods
  * With TTL-based refresh capability for production use
+ *
+ * Item prices are the P10/P50/P90 percentiles kept by priceAudit's
+ * statistics engine, not raw min/max; each refresh re-derives them so
+ * older observations decay.
  */
 
 interface CacheStats {
@@ -13,6 +17,7 @@ interface CacheStats {
   cacheHits: number;
   cacheMisses: number;
   memorySizeKB: number;
+  observedItemCount: number;  // Items whose range now reflects observed prices
 }
 
 class PriceDBCache {
@@ -29,7 +34,8 @@ class PriceDBCache {
       lastLoaded: new Date(),
       cacheHits: 0,
       cacheMisses: 0,
-      memorySizeKB: this.estimateMemorySize()
+      memorySizeKB: this.estimateMemorySize(),
+      observedItemCount: 0
     };
   }
 
@@ -37,6 +43,7 @@ class PriceDBCache {
    * Get price data for a specific item
    */
   getItem(itemName: string): PriceDBItem | null {
+    this.refreshIfNeeded();
     const item = this.cache[itemName];
     if (item) {
       this.stats.cacheHits++;
@@ -50,6 +57,7 @@ class PriceDBCache {
    * Get all items in the price database
    */
   getAllItems(): Record<string, PriceDBItem> {
+    this.refreshIfNeeded();
     return this.cache;
   }
 
@@ -83,16 +91,15 @@ class PriceDBCache {
 
   /**
    * Refresh cache if TTL has expired
-   * In production, this could reload from a database or external source
+   * Re-derives the percentiles of every item with observed prices
    */
   refreshIfNeeded(): void {
     const now = Date.now();
     if (now - this.cacheTimestamp > this.CACHE_TTL) {
-      // In production, reload from database or external source
-      // For now, just update timestamp
+      this.stats.observedItemCount = recomputeMarketPrices(new Date(now));
       this.cacheTimestamp = now;
       this.stats.lastLoaded = new Date();
-      console.log('PriceDB cache refreshed');
+      console.log(`PriceDB cache refreshed (${this.stats.observedItemCount} observed items)`);
     }
   }
 
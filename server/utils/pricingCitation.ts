@@ -23,6 +23,7 @@
  * 1. Primary Source: RSMeans/NRCA industry standard data
  * 2. Secondary Source: Regional adjustment (HUD CBSA or BLS state data)
  * 3. Tertiary Source: Historical claim data (when available)
+ * 4. Demand Surge: Post-catastrophe surge for the area (while an event is active)
  */
 
 import { 
@@ -36,10 +37,22 @@ import {
   type RegionalCostAdjustment 
 } from './hudZipCrosswalk';
 import { getStateFromZip } from './zipToState';
+import { getDemandSurge, type DemandSurge } from './demandSurge';
+import { getCatalogEntry, resolveLineItem } from '@shared/lineItemCatalog';
+import type { ScopedPriceStatistics } from '@shared/pricingStats';
+
+// Most the historical median can move the estimate, reached at full credibility
+const MAX_HISTORICAL_WEIGHT = 0.3;
+
+const SCOPE_LABELS: Record<ScopedPriceStatistics['scope'], string> = {
+  zip_prefix: 'ZIP area',
+  state: 'state',
+  national: 'national',
+};
 
 export interface PricingSource {
   name: string;
-  type: 'primary' | 'secondary' | 'tertiary' | 'user';
+  type: 'primary' | 'secondary' | 'tertiary' | 'surge' | 'user';
   citation: string;
   weight: number;       // 0-1, how much this source influences final price
   lastUpdated: string;
@@ -61,6 +74,7 @@ export interface CitedPriceEstimate {
   regionalMultiplier: number;
   isHighCostArea: boolean;
   highCostPremium: number;
+  demandSurge: DemandSurge | null;
   
   // Data quality indicators
   confidenceLevel: 'HIGH' | 'MEDIUM' | 'LOW';
@@ -95,7 +109,7 @@ export function generateCitedEstimate(
   quantity: number,
   zipCode: string,
   userProvidedPrice?: number,
-  historicalAvg?: number
+  historicalStats?: ScopedPriceStatistics | null
 ): CitedPriceEstimate | null {
   const stateCode = getStateFromZip(zipCode);
   if (!stateCode) {
@@ -115,6 +129,7 @@ export function generateCitedEstimate(
   // Get regional adjustment details
   const regionalAdj = getRegionalCostAdjustment(zipCode);
   const highCostInfo = isHighCostArea(zipCode);
+  const surge = getDemandSurge(zipCode);
   
   // Build sources array
   const sources: PricingSource[] = [
@@ -136,22 +151,44 @@ export function generateCitedEstimate(
     }
   ];
   
-  let finalPrice = baseline.totalCost;
+  // Surge lifts the static baseline only; historical claim data already reflects local conditions
+  let finalPrice = baseline.totalCost * (surge?.multiplier ?? 1);
+  if (surge) {
+    sources.push({
+      name: "Demand Surge",
+      type: 'surge',
+      citation: surge.disclosure,
+      weight: Math.round(((surge.multiplier - 1) / surge.multiplier) * 100) / 100,
+      lastUpdated: new Date().toISOString().split('T')[0]
+    });
+  }
   let dataQualityScore = 70;  // Base score
   
-  // Add historical data if available
-  if (historicalAvg && historicalAvg > 0) {
+  // Calculate price range (±15% for MEDIUM confidence, ±10% for HIGH, ±20% for LOW)
+  let rangePercent = 0.15;
+  if (baseline.confidenceLevel === 'HIGH') rangePercent = 0.10;
+  if (baseline.confidenceLevel === 'LOW') rangePercent = 0.20;
+  
+  let lowEstimate = finalPrice * (1 - rangePercent);
+  let highEstimate = finalPrice * (1 + rangePercent);
+  
+  // Add historical data if available (per-unit median, blended by its credibility)
+  if (historicalStats && historicalStats.sampleSize > 0 && historicalStats.p50 > 0) {
+    const historicalWeight = Math.round(MAX_HISTORICAL_WEIGHT * historicalStats.credibility * 100) / 100;
     sources.push({
       name: "Historical Claim Data",
       type: 'tertiary',
-      citation: `MaxClaim historical average for ${category} in region`,
-      weight: 0.1,
+      citation: `MaxClaim ${SCOPE_LABELS[historicalStats.scope]} median for ${category}: ` +
+        `$${historicalStats.p50.toFixed(2)}/${baseline.unit} (n=${historicalStats.sampleSize}, ` +
+        `95% CI $${historicalStats.confidenceInterval.low.toFixed(2)}-$${historicalStats.confidenceInterval.high.toFixed(2)})`,
+      weight: historicalWeight,
       lastUpdated: new Date().toISOString().split('T')[0]
     });
     
-    // Blend historical data (10% weight)
-    finalPrice = finalPrice * 0.9 + historicalAvg * 0.1;
-    dataQualityScore += 10;
+    finalPrice = finalPrice * (1 - historicalWeight) + historicalStats.p50 * quantity * historicalWeight;
+    lowEstimate = lowEstimate * (1 - historicalWeight) + historicalStats.p10 * quantity * historicalWeight;
+    highEstimate = highEstimate * (1 - historicalWeight) + historicalStats.p90 * quantity * historicalWeight;
+    dataQualityScore += Math.round(15 * historicalStats.credibility);
   }
   
   // If user provided a price, include it for reference
@@ -171,16 +208,8 @@ export function generateCitedEstimate(
   if (regionalAdj.adjustmentType === 'metro') dataQualityScore += 10;
   if (stateCode) dataQualityScore += 5;
   
-  // Calculate price range (±15% for MEDIUM confidence, ±10% for HIGH, ±20% for LOW)
-  let rangePercent = 0.15;
-  if (baseline.confidenceLevel === 'HIGH') rangePercent = 0.10;
-  if (baseline.confidenceLevel === 'LOW') rangePercent = 0.20;
-  
-  const lowEstimate = finalPrice * (1 - rangePercent);
-  const highEstimate = finalPrice * (1 + rangePercent);
-  
   // Generate formatted citations
-  const formattedCitation = generateFormattedCitation(sources, baseline, regionalAdj);
+  const formattedCitation = generateFormattedCitation(sources, baseline, regionalAdj, surge);
   const shortCitation = generateShortCitation(sources);
   
   // Methodology explanation
@@ -188,6 +217,7 @@ export function generateCitedEstimate(
     `Base pricing from ${baseline.sources.pricing}, ` +
     `regional adjustment (${(regionalAdj.multiplier * 100).toFixed(0)}%) from ${regionalAdj.source}, ` +
     `waste factor (${((baseline.wasteFactor - 1) * 100).toFixed(0)}%) applied for material loss. ` +
+    (surge ? `Demand surge (+${surge.surgePct.toFixed(1)}%) applied for ${surge.events[0].name}. ` : '') +
     `Confidence: ${baseline.confidenceLevel}. Data quality score: ${dataQualityScore}/100.`;
   
   return {
@@ -202,6 +232,7 @@ export function generateCitedEstimate(
     regionalMultiplier: regionalAdj.multiplier,
     isHighCostArea: highCostInfo.isHighCost,
     highCostPremium: highCostInfo.premium,
+    demandSurge: surge,
     
     confidenceLevel: baseline.confidenceLevel,
     dataQualityScore: Math.min(100, Math.max(0, dataQualityScore)),
@@ -221,13 +252,32 @@ export function generateCitedEstimate(
   };
 }
 
+/**
+ * Cite a claim line through the catalog's baseline pricing reference
+ * (resolved by catalog code, else by description)
+ */
+export function generateCatalogCitedEstimate(
+  description: string,
+  quantity: number,
+  zipCode: string,
+  options: { catalogCode?: string | null; category?: string; unit?: string } = {}
+): CitedPriceEstimate | null {
+  const entry = getCatalogEntry(options.catalogCode)
+    ?? resolveLineItem(description, { category: options.category, unit: options.unit })?.entry;
+  const category = entry?.baseline?.category ?? entry?.pricingCategory ?? options.category;
+  if (!category) return null;
+
+  return generateCitedEstimate(category, entry?.baseline?.name ?? null, quantity, zipCode);
+}
+
 /**
  * Generate a formatted citation for PDF reports
  */
 function generateFormattedCitation(
   sources: PricingSource[],
   baseline: BaselineEstimate,
-  regional: RegionalCostAdjustment
+  regional: RegionalCostAdjustment,
+  surge: DemandSurge | null
 ): string {
   const primarySource = sources.find(s => s.type === 'primary');
   const secondarySource = sources.find(s => s.type === 'secondary');
@@ -236,6 +286,9 @@ function generateFormattedCitation(
   citation += `**Primary Source:** ${primarySource?.citation || 'Industry baseline data'}\n`;
   citation += `**Regional Adjustment:** ${secondarySource?.citation || 'National average'}\n`;
   citation += `**Regional Multiplier:** ${(regional.multiplier * 100).toFixed(0)}%\n`;
+  if (surge) {
+    citation += `**Demand Surge:** ${surge.disclosure}\n`;
+  }
   citation += `**Confidence Level:** ${baseline.confidenceLevel}\n`;
   citation += `**Waste Factor:** ${((baseline.wasteFactor - 1) * 100).toFixed(0)}%\n`;
   citation += `**Last Updated:** ${baseline.lastUpdated}\n\n`;
@@ -249,13 +302,23 @@ function generateFormattedCitation(
  */
 function generateShortCitation(sources: PricingSource[]): string {
   const primaryNames = sources
-    .filter(s => s.type === 'primary' || s.type === 'secondary')
+    .filter(s => s.type === 'primary' || s.type === 'secondary' || s.type === 'surge')
     .map(s => s.name)
     .join(', ');
   
   return `Source: ${primaryNames} (${new Date().getFullYear()})`;
 }
 
+/**
+ * Label for a source's role in report source lists
+ */
+export function sourceRoleLabel(type: PricingSource['type']): string {
+  if (type === 'primary') return 'Primary';
+  if (type === 'secondary') return 'Secondary';
+  if (type === 'surge') return 'Demand Surge';
+  return 'Additional';
+}
+
 /**
  * Get URL for known data sources
  */
@@ -347,7 +410,7 @@ export function aggregateSources(estimates: CitedPriceEstimate[]): PricingSource
   }
   
   return Array.from(sourceMap.values()).sort((a, b) => {
-    const typeOrder = { primary: 0, secondary: 1, tertiary: 2, user: 3 };
+    const typeOrder = { primary: 0, secondary: 1, surge: 2, tertiary: 3, user: 4 };
     return typeOrder[a.type] - typeOrder[b.type];
   });
 }
@@ -0,0 +1,46 @@
+/**
+ * Sales Tax on Repair Materials
+ *
+ * State sales tax rates applied to the material portion of a repair line.
+ * Contractors pay sales tax on the materials they install in most states,
+ * so a carrier estimate that prices materials without tax leaves that cost
+ * with the policyholder. Labor is not taxed here.
+ *
+ * Only the statewide base rate is used. Local add-on rates vary by city and
+ * county and are left out, so the expected tax is a conservative floor.
+ *
+ * Source: state revenue department published rates (2024).
+ */
+
+import { getStateFromZip } from './zipToState';
+
+export interface MaterialSalesTax {
+  stateCode: string | null;
+  ratePct: number;
+  source: string;
+}
+
+const SOURCE = 'State revenue department base sales tax rates 2024';
+
+// Statewide base rates in percent; AK, DE, MT, NH and OR levy no state sales tax
+export const STATE_SALES_TAX_RATES: Record<string, number> = {
+  AL: 4.0, AK: 0, AZ: 5.6, AR: 6.5, CA: 7.25, CO: 2.9, CT: 6.35, DE: 0,
+  DC: 6.0, FL: 6.0, GA: 4.0, HI: 4.0, ID: 6.0, IL: 6.25, IN: 7.0, IA: 6.0,
+  KS: 6.5, KY: 6.0, LA: 4.45, ME: 5.5, MD: 6.0, MA: 6.25, MI: 6.0, MN: 6.875,
+  MS: 7.0, MO: 4.225, MT: 0, NE: 5.5, NV: 6.85, NH: 0, NJ: 6.625, NM: 4.875,
+  NY: 4.0, NC: 4.75, ND: 5.0, OH: 5.75, OK: 4.5, OR: 0, PA: 6.0, RI: 7.0,
+  SC: 6.0, SD: 4.2, TN: 7.0, TX: 6.25, UT: 6.1, VT: 6.0, VA: 5.3, WA: 6.5,
+  WV: 6.0, WI: 5.0, WY: 4.0,
+};
+
+/**
+ * Sales tax rate owed on materials for a ZIP (0 when the state is unknown)
+ */
+export function getMaterialSalesTax(zip: string): MaterialSalesTax {
+  const stateCode = getStateFromZip(zip);
+  return {
+    stateCode,
+    ratePct: (stateCode && STATE_SALES_TAX_RATES[stateCode]) || 0,
+    source: SOURCE,
+  };
+}
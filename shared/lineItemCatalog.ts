@@ -0,0 +1,624 @@
+/**
+ * Canonical Line-Item Catalog
+ *
+ * Single source of truth for repair line items, keyed by industry-style
+ * category + selector codes (e.g. "RFG 300S", "DRY 1/2"). Each entry carries
+ * its unit, trade and synonyms, plus references into the pricing sources
+ * (priceDB.json keys and BASELINE_PRICING line items) so every consumer can
+ * match by code instead of by free-text name.
+ *
+ * resolveLineItem() maps any OCR'd or typed description to a catalog code
+ * with a 0-1 match score.
+ */
+
+export type CatalogUnit = 'SQ' | 'SF' | 'LF' | 'EA' | 'HR';
+
+export type CatalogTrade =
+  | 'roofing'
+  | 'siding'
+  | 'flooring'
+  | 'tile'
+  | 'drywall'
+  | 'painting'
+  | 'trim'
+  | 'plumbing'
+  | 'electrical'
+  | 'hvac'
+  | 'windows'
+  | 'doors'
+  | 'appliances'
+  | 'cabinets'
+  | 'insulation'
+  | 'framing'
+  | 'fencing'
+  | 'masonry'
+  | 'cleaning'
+  | 'general';
+
+export interface CatalogCategory {
+  code: string;
+  label: string;
+  pricingCategory: string;   // BASELINE_PRICING / fmvPricingData category
+  trade: CatalogTrade;
+}
+
+export interface CatalogEntry {
+  code: string;
+  categoryCode: string;
+  selector: string;
+  description: string;
+  unit: CatalogUnit;
+  trade: CatalogTrade;
+  pricingCategory: string;
+  synonyms: string[];
+  priceDbKeys: string[];     // Keys in shared/priceDB.json
+  baseline?: { category: string; name: string };  // BASELINE_PRICING line item
+}
+
+export interface CatalogMatch {
+  code: string;
+  entry: CatalogEntry;
+  score: number;
+  matchedOn: 'code' | 'description' | 'synonym' | 'price-key';
+  matchedText: string;
+}
+
+export interface ResolveOptions {
+  categoryCode?: string;
+  category?: string;
+  unit?: string;
+  minScore?: number;
+}
+
+export const DEFAULT_MIN_MATCH_SCORE = 0.55;
+
+const CATEGORIES: CatalogCategory[] = [
+  { code: 'RFG', label: 'Roofing', pricingCategory: 'Roofing', trade: 'roofing' },
+  { code: 'SFG', label: 'Soffit, Fascia & Gutter', pricingCategory: 'Roofing', trade: 'roofing' },
+  { code: 'SDG', label: 'Siding', pricingCategory: 'Siding', trade: 'siding' },
+  { code: 'STU', label: 'Stucco', pricingCategory: 'Siding', trade: 'masonry' },
+  { code: 'MAS', label: 'Masonry', pricingCategory: 'Other', trade: 'masonry' },
+  { code: 'DRY', label: 'Drywall', pricingCategory: 'Drywall', trade: 'drywall' },
+  { code: 'PNT', label: 'Painting', pricingCategory: 'Painting', trade: 'painting' },
+  { code: 'FCC', label: 'Floor Covering - Carpet', pricingCategory: 'Flooring', trade: 'flooring' },
+  { code: 'FCV', label: 'Floor Covering - Vinyl', pricingCategory: 'Flooring', trade: 'flooring' },
+  { code: 'FCW', label: 'Floor Covering - Wood', pricingCategory: 'Flooring', trade: 'flooring' },
+  { code: 'FCS', label: 'Floor Covering - Stone', pricingCategory: 'Flooring', trade: 'flooring' },
+  { code: 'FCT', label: 'Floor Covering - Ceramic Tile', pricingCategory: 'Tile', trade: 'flooring' },
+  { code: 'TIL', label: 'Tile', pricingCategory: 'Tile', trade: 'tile' },
+  { code: 'FNC', label: 'Finish Carpentry / Trimwork', pricingCategory: 'Trim', trade: 'trim' },
+  { code: 'PLM', label: 'Plumbing', pricingCategory: 'Plumbing', trade: 'plumbing' },
+  { code: 'ELE', label: 'Electrical', pricingCategory: 'Electrical', trade: 'electrical' },
+  { code: 'LIT', label: 'Light Fixtures', pricingCategory: 'Electrical', trade: 'electrical' },
+  { code: 'HVC', label: 'Heat, Vent & Air Conditioning', pricingCategory: 'HVAC', trade: 'hvac' },
+  { code: 'WDW', label: 'Windows - Wood', pricingCategory: 'Windows & Doors', trade: 'windows' },
+  { code: 'WDV', label: 'Windows - Vinyl', pricingCategory: 'Windows & Doors', trade: 'windows' },
+  { code: 'WDA', label: 'Windows - Aluminum', pricingCategory: 'Windows & Doors', trade: 'windows' },
+  { code: 'DOR', label: 'Doors', pricingCategory: 'Windows & Doors', trade: 'doors' },
+  { code: 'APP', label: 'Appliances', pricingCategory: 'Appliances', trade: 'appliances' },
+  { code: 'CAB', label: 'Cabinetry', pricingCategory: 'Cabinets', trade: 'cabinets' },
+  { code: 'INS', label: 'Insulation', pricingCategory: 'Insulation', trade: 'insulation' },
+  { code: 'FRM', label: 'Framing & Rough Carpentry', pricingCategory: 'Framing', trade: 'framing' },
+  { code: 'FEN', label: 'Fencing', pricingCategory: 'Other', trade: 'fencing' },
+  { code: 'CLN', label: 'Cleaning', pricingCategory: 'Other', trade: 'cleaning' },
+  { code: 'CON', label: 'Content Manipulation', pricingCategory: 'Other', trade: 'general' },
+  { code: 'DMO', label: 'General Demolition', pricingCategory: 'Other', trade: 'general' },
+  { code: 'WTR', label: 'Water Extraction & Remediation', pricingCategory: 'Other', trade: 'general' },
+  { code: 'LAB', label: 'Labor Only', pricingCategory: 'Other', trade: 'general' },
+  { code: 'FEE', label: 'Permits & Fees', pricingCategory: 'Other', trade: 'general' },
+  { code: 'GEN', label: 'General', pricingCategory: 'Other', trade: 'general' },
+];
+
+interface EntryDefinition {
+  code: string;
+  description: string;
+  unit: CatalogUnit;
+  synonyms: string[];
+  trade?: CatalogTrade;
+  priceDb?: string[];
+  baseline?: string | { category: string; name: string };
+}
+
+// Baseline references given as a bare name live in the category's pricing category
+const ENTRY_DEFINITIONS: EntryDefinition[] = [
+  // Roofing
+  { code: 'RFG 240', description: '3 tab - 25 yr. - composition shingle roofing', unit: 'SQ', synonyms: ['3 tab shingle', '3-tab asphalt', '3 tab roofing', 'replace 3-tab', 'install 3-tab asphalt', 'asphalt shingle 3 tab'], priceDb: ['Replace 3-Tab', 'Install 3-Tab Asphalt'], baseline: 'Asphalt Shingle - 3-Tab' },
+  { code: 'RFG ARMV', description: 'Tear off, haul and dispose of comp. shingles - 3 tab', unit: 'SQ', synonyms: ['remove 3-tab asphalt', 'remove 3 tab shingle', 'tear off 3 tab', 'tear off shingles', 'remove shingles', 'roof tear off'], priceDb: ['Remove 3-Tab Asphalt'] },
+  { code: 'RFG 300S', description: 'Laminated - comp. shingle rfg. - w/out felt', unit: 'SQ', synonyms: ['laminated shingle', 'architectural shingle', 'dimensional shingle', 'composition shingle', 'comp shingle', 'asphalt shingle', 'hd shingle', 'replace hd', 'shingle', 'shingle roof', 'roof shingle', 'roof replacement'], priceDb: ['Replace HD'], baseline: 'Asphalt Shingle - Architectural' },
+  { code: 'RFG ARMVL', description: 'Tear off, haul and dispose of comp. shingles - laminated', unit: 'SQ', synonyms: ['remove hd', 'remove laminated shingle', 'tear off laminated', 'tear off architectural shingle'], priceDb: ['Remove HD'] },
+  { code: 'RFG ADDL', description: 'Remove additional layer of comp. shingles', unit: 'SQ', synonyms: ['addtl layer', 'additional layer', 'second layer tear off'], priceDb: ['Addtl Layer'] },
+  { code: 'RFG SHKRMV', description: 'Tear off, haul and dispose of wood shakes', unit: 'SQ', synonyms: ['remove shake', 'tear off shake', 'wood shake removal'], priceDb: ['Remove Shake'] },
+  { code: 'RFG STEEP', description: 'Additional charge for steep roof', unit: 'SQ', synonyms: ['steep charge', 'steep roof', 'remove steep', 'steep pitch charge'], priceDb: ['Steep Charge', 'Remove Steep'] },
+  { code: 'RFG HIGH', description: 'Additional charge for high roof (2 stories or greater)', unit: 'SQ', synonyms: ['high roof charge', 'high roof', 'two story roof charge'], priceDb: ['High Roof Charge'] },
+  { code: 'RFG SHTH', description: 'Sheathing - plywood - 1/2" CDX', unit: 'SF', synonyms: ['re-deck', 'redeck', 'roof decking', 'roof deck', 'sheathing', 'plywood decking', 'osb decking'], priceDb: ['Re-Deck'], baseline: 'Roof Decking - Plywood' },
+  { code: 'RFG FELT', description: 'Roofing felt - 30 lb.', unit: 'SQ', synonyms: ['underlayment 30lb', 'felt underlayment', '30 lb felt', '15 lb felt', 'roof underlayment', 'underlayment', 'tar paper'], priceDb: ['Underlayment 30lb'], baseline: 'Underlayment - Felt' },
+  { code: 'RFG SYNF', description: 'Underlayment - synthetic', unit: 'SQ', synonyms: ['synthetic underlayment', 'synthetic felt'], baseline: 'Underlayment - Synthetic' },
+  { code: 'RFG IWS', description: 'Ice & water barrier', unit: 'SQ', synonyms: ['ice and water shield', 'ice & water shield', 'ice water barrier', 'leak barrier'], baseline: 'Ice & Water Shield' },
+  { code: 'RFG SWB', description: 'Secondary water barrier - sealed roof deck (self-adhered)', unit: 'SQ', synonyms: ['sealed roof deck', 'secondary water barrier', 'self-adhered underlayment', 'peel and stick underlayment', 'taped deck seams'] },
+  { code: 'RFG DRIP', description: 'Drip edge', unit: 'LF', synonyms: ['drip edge', 'r & r drip', 'drip edge metal', 'eave metal', 'rake edge'], priceDb: ['Drip Edge', 'R & R Drip'], baseline: 'Drip Edge' },
+  { code: 'RFG STRT', description: 'Asphalt starter - universal starter course', unit: 'LF', synonyms: ['starter strip', 'starter course', 'starter shingles'] },
+  { code: 'RFG RIDGC', description: 'Hip / Ridge cap - composition shingles', unit: 'LF', synonyms: ['ridge cap', 'hip cap', 'hip and ridge', 'ridge shingles'], priceDb: ['Ridge Cap'], baseline: 'Ridge Cap' },
+  { code: 'RFG VENTR', description: 'Continuous ridge vent - shingle-over style', unit: 'LF', synonyms: ['ridge vent', 'ventilation ridge vent', 'shingle over ridge vent'], priceDb: ['Ridge Vent'], baseline: 'Ventilation - Ridge Vent' },
+  { code: 'RFG VENTT', description: 'Roof vent - turtle type - metal', unit: 'EA', synonyms: ['turtle vent', 'box vent', 'static roof vent', 'roof louver'], priceDb: ['Turtle Vent'] },
+  { code: 'RFG VENTB', description: 'Roof vent - turbine type', unit: 'EA', synonyms: ['turbine vent', 'whirlybird'], priceDb: ['Turbine Vent'] },
+  { code: 'RFG VENTE', description: 'Power attic vent cover only - metal', unit: 'EA', synonyms: ['power attic vent', 'attic fan', 'power vent'], priceDb: ['Power Attic Vent'] },
+  { code: 'RFG PJK', description: 'Flashing - pipe jack', unit: 'EA', synonyms: ['pipe jack', 'pipe boot', 'plumbing vent boot', 'vent pipe flashing'], priceDb: ['Pipe Jack'] },
+  { code: 'RFG PJKL', description: 'Flashing - pipe jack - lead', unit: 'EA', synonyms: ['lead jack', 'lead pipe jack', 'lead boot'], priceDb: ['Lead Jack'] },
+  { code: 'RFG PJKP', description: 'Paint pipe jack', unit: 'EA', synonyms: ['paint jack', 'paint pipe jack'], priceDb: ['Paint Jack'] },
+  { code: 'RFG VALM', description: 'Valley metal', unit: 'LF', synonyms: ['valley flashing', 'flashing valley', 'valley metal', 'w valley'], priceDb: ['Valley Flashing', 'Flashing - Valley'], baseline: 'Flashing - Valley' },
+  { code: 'RFG STEP', description: 'Step flashing', unit: 'LF', synonyms: ['step flashing', 'flashing step', 'sidewall flashing'], baseline: 'Flashing - Step' },
+  { code: 'RFG CHMF', description: 'Chimney flashing - average (32" x 36")', unit: 'LF', synonyms: ['chimney flashing', 'counter flashing', 'chimney counterflashing'], priceDb: ['Chimney Flashing'] },
+  { code: 'RFG FLPNT', description: 'Paint flashing', unit: 'LF', synonyms: ['paint flashing'], priceDb: ['Paint Flashing'] },
+  { code: 'RFG CHMC', description: 'Chimney cap / cover', unit: 'EA', synonyms: ['chimney cover', 'chimney cap', 'chimney chase cover'], priceDb: ['Chimney Cover'] },
+  { code: 'RFG FLUE', description: 'Flue cap', unit: 'EA', synonyms: ['flue cap', 'flue cover', 'rain cap'], priceDb: ['Flue Cap'] },
+  { code: 'RFG EXHC', description: 'Exhaust cap - through roof', unit: 'EA', synonyms: ['exhaust cap', 'exhaust vent', 'bath fan vent cap', 'dryer vent cap'], priceDb: ['Exhaust Cap'] },
+  { code: 'RFG MBRMV', description: 'Tear off, haul and dispose of modified bitumen roofing', unit: 'SQ', synonyms: ['remove flat', 'flat roof tear off', 'remove modified bitumen', 'remove tpo'], priceDb: ['Remove Flat'] },
+  { code: 'RFG MB', description: 'Modified bitumen roof', unit: 'SQ', synonyms: ['replace flat', 'flat roof', 'modified bitumen', 'roll roofing', 'tpo roofing', 'epdm', 'low slope roofing'], priceDb: ['Replace Flat'] },
+  { code: 'RFG MTL', description: 'Metal roofing - standing seam', unit: 'SQ', synonyms: ['metal roof', 'metal roofing', 'standing seam', 'metal panel roof'], baseline: 'Metal Roofing - Standing Seam' },
+  { code: 'RFG SAT', description: 'Detach & reset satellite dish', unit: 'EA', synonyms: ['detach/reset satellite', 'satellite dish', 'reset satellite'], priceDb: ['Detach/Reset Satellite'] },
+
+  // Soffit, fascia & gutter
+  { code: 'SFG GUTA', description: 'Gutter / downspout - aluminum - up to 5"', unit: 'LF', synonyms: ['gutter', 'seamless gutter', 'aluminum gutter', 'r&r gutter/down spout', 'gutter and downspout'], priceDb: ['R&R Gutter/Down Spout'], baseline: 'Gutter - Aluminum' },
+  { code: 'SFG DSPT', description: 'Downspout - aluminum', unit: 'LF', synonyms: ['downspout', 'down spout', 'leader pipe'], baseline: 'Downspout' },
+  { code: 'SFG GUTG', description: 'Gutter guard / screen', unit: 'LF', synonyms: ['gutter guard', 'gutter screen', 'leaf guard'] },
+  { code: 'SFG FASW', description: 'Fascia - 1" x 6" - #2 pine', unit: 'LF', synonyms: ['fascia board', 'wood fascia', 'fascia 1x6 pine', 'fascia 1x4 cedar', 'fascia 1x8 cedar', 'cedar fascia', 'pine fascia'], priceDb: ['R&R Fascia 1"x6" - Pine', 'R&R Fascia 1"x4" - Cedar', 'R&R Fascia 1"x8" - Cedar'] },
+  { code: 'SFG FASA', description: 'Fascia - metal - 6"', unit: 'LF', synonyms: ['aluminum fascia', 'metal fascia', 'fascia wrap', 'fascia cover'], baseline: { category: 'Siding', name: 'Fascia - Aluminum' } },
+  { code: 'SFG SOFV', description: 'Soffit - vinyl', unit: 'SF', synonyms: ['soffit', 'vinyl soffit', 'vented soffit'], baseline: { category: 'Siding', name: 'Soffit - Vinyl' } },
+
+  // Siding, stucco & masonry
+  { code: 'SDG VNL', description: 'Siding - vinyl', unit: 'SF', synonyms: ['vinyl siding', 'siding', 'replace siding'], priceDb: ['Siding'], baseline: 'Vinyl Siding' },
+  { code: 'SDG FC', description: 'Siding - fiber cement', unit: 'SF', synonyms: ['fiber cement siding', 'hardie board', 'hardiplank', 'hardie siding'], baseline: 'Fiber Cement Siding' },
+  { code: 'SDG WD', description: 'Siding - wood', unit: 'SF', synonyms: ['wood siding', 'cedar siding', 'lap siding'], baseline: 'Wood Siding' },
+  { code: 'SDG RPR', description: 'Siding - repair', unit: 'EA', synonyms: ['siding repair', 'patch siding'], baseline: 'Siding Repair' },
+  { code: 'SDG WRAP', description: 'House wrap (air / moisture barrier)', unit: 'SF', synonyms: ['house wrap', 'tyvek', 'weather barrier'] },
+  { code: 'SDG SHTR', description: 'Shutters - simulated wood (polystyrene)', unit: 'EA', synonyms: ['shutters', 'r&r shutters', 'exterior shutters'], priceDb: ['R&R Shutters'] },
+  { code: 'STU RR', description: 'Stucco - 3 coat - R&R', unit: 'SF', synonyms: ['stucco', 'r&r stucco', 'replace stucco'], priceDb: ['R&R Stucco'] },
+  { code: 'STU PTCH', description: 'Stucco patch / small repair', unit: 'EA', synonyms: ['stucco patch', 'stucco repair'], priceDb: ['Stucco Patch'] },
+  { code: 'STU TRIM', description: 'Stucco trim / weep screed', unit: 'LF', synonyms: ['stucco trim', 'stucco screed', 'weep screed'], priceDb: ['Stucco Trim'] },
+  { code: 'STU COLR', description: 'Stucco color coat - redash (coarse)', unit: 'SF', synonyms: ['stucco color', 'color coat', 'stucco finish coat', 'redash'], priceDb: ['Stucco Color (redash - coarse)'] },
+  { code: 'STU FOG', description: 'Stucco fog coat', unit: 'SF', synonyms: ['fog coat', 'stucco fog'], priceDb: ['Stucco Fog Coat'] },
+  { code: 'MAS BRK', description: 'Brick veneer - R&R', unit: 'SF', synonyms: ['brick', 'r&r brick', 'brick veneer', 'brick wall'], priceDb: ['R&R Brick'] },
+
+  // Drywall
+  { code: 'DRY 1/2', description: '1/2" drywall - hung, taped, floated, ready for paint', unit: 'SF', synonyms: ['drywall', 'sheetrock', 'gypsum board', 'wallboard', '1/2 drywall', 'drywall replacement', 'hang drywall'], baseline: 'Drywall - 1/2" Standard' },
+  { code: 'DRY 5/8', description: '5/8" drywall - hung, taped, floated, ready for paint', unit: 'SF', synonyms: ['5/8 drywall', 'fire rated drywall', 'type x drywall'], baseline: 'Drywall - 5/8" Fire-Rated' },
+  { code: 'DRY MR', description: '1/2" water rock (greenboard) - hung, taped, ready for texture', unit: 'SF', synonyms: ['moisture resistant drywall', 'greenboard', 'green board', 'water rock', 'mold resistant drywall'], baseline: 'Drywall - Moisture Resistant' },
+  { code: 'DRY TAPE', description: 'Tape joint for new to existing drywall', unit: 'SF', synonyms: ['tape & float', 'tape and float', 'tape and mud', 'joint compound', 'drywall tape'], priceDb: ['Tape & Float 5/8" Drywall'] },
+  { code: 'DRY PTCH', description: 'Drywall patch / small repair, ready for paint', unit: 'EA', synonyms: ['drywall patch', 'drywall repair', 'sheetrock repair', 'patch drywall', 'drywall hole repair'], priceDb: ['Drywall Patch/Repair'], baseline: 'Drywall Repair - Small Patch' },
+  { code: 'DRY PTCHL', description: 'Drywall repair - large patch', unit: 'EA', synonyms: ['large drywall patch', 'drywall large patch'], baseline: 'Drywall Repair - Large Patch' },
+  { code: 'DRY TEX', description: 'Texture drywall - light hand texture', unit: 'SF', synonyms: ['texture drywall', 'texture matching', 'texture match', 'knockdown texture', 'orange peel texture'], priceDb: ['Texture Drywall'], baseline: 'Drywall - Texture Match' },
+  { code: 'DRY ACSTC', description: 'Acoustic ceiling (popcorn) texture', unit: 'SF', synonyms: ['popcorn texture', 'acoustic ceiling', 'popcorn ceiling', 'cottage cheese ceiling'], priceDb: ['R&R Popcorn Texture'] },
+  { code: 'DRY RMV', description: 'Tear out wet drywall, cleanup, bag for disposal', unit: 'SF', synonyms: ['drywall removal', 'remove drywall', 'tear out drywall', 'flood cut', 'demo drywall'], baseline: 'Drywall Removal' },
+  { code: 'DRY BEAD', description: 'Corner bead - metal', unit: 'LF', synonyms: ['corner bead', 'metal corner bead'] },
+
+  // Painting
+  { code: 'PNT WALL', description: 'Seal/prime then paint the walls (2 coats)', unit: 'SF', synonyms: ['paint walls', 'prime/paint walls', 'prime and paint walls', 'interior paint walls', 'wall paint', 'interior paint', 'paint walls and ceiling'], priceDb: ['Prime/Paint Walls'], baseline: 'Interior Paint - Walls' },
+  { code: 'PNT CEIL', description: 'Seal/prime then paint the ceiling (2 coats)', unit: 'SF', synonyms: ['paint ceiling', 'ceiling paint', 'interior paint ceiling'], baseline: 'Interior Paint - Ceiling' },
+  { code: 'PNT TRIM', description: 'Paint baseboard / trim - two coats', unit: 'LF', synonyms: ['paint trim', 'paint baseboard', 'interior paint trim', 'paint casing'], baseline: 'Interior Paint - Trim' },
+  { code: 'PNT DOOR', description: 'Paint door slab only - 2 coats (per side)', unit: 'EA', synonyms: ['paint door', 'interior paint door', 'paint door slab'], baseline: 'Interior Paint - Door' },
+  { code: 'PNT DRSTN', description: 'Stain & finish door slab', unit: 'EA', synonyms: ['stain & finish door', 'stain door'], priceDb: ['Stain & Finish Door'] },
+  { code: 'PNT DRSTR', description: 'Strip paint - door', unit: 'EA', synonyms: ['strip paint door', 'strip door'], priceDb: ['Strip Paint Door'] },
+  { code: 'PNT EXT', description: 'Paint exterior siding - two coats', unit: 'SF', synonyms: ['exterior paint', 'paint siding', 'exterior paint siding', 'paint exterior'], baseline: 'Exterior Paint - Siding' },
+  { code: 'PNT EXTT', description: 'Paint exterior trim - two coats', unit: 'LF', synonyms: ['exterior paint trim', 'paint exterior trim'], baseline: 'Exterior Paint - Trim' },
+  { code: 'PNT FASC', description: 'Prime & paint exterior fascia - wood, 6"- 8" wide', unit: 'SF', synonyms: ['prime & paint fascia', 'paint fascia', 'paint fascia 6-8'], priceDb: ['Prime & Paint Fascia 6-8"'] },
+  { code: 'PNT STN', description: 'Stain - wood', unit: 'SF', synonyms: ['stain wood', 'wood stain', 'stain fence', 'stain deck'], baseline: 'Stain - Wood' },
+  { code: 'PNT PRMR', description: 'Seal the surface area w/ stain-blocking primer - one coat', unit: 'SF', synonyms: ['primer', 'stain blocking primer', 'kilz', 'seal with primer', 'primer coat'], baseline: 'Primer - Stain Blocking' },
+  { code: 'PNT MASK', description: 'Mask and prep for paint', unit: 'SF', synonyms: ['mask & prep', 'masking', 'mask and cover', 'prep for paint', 'surface preparation'], priceDb: ['Mask & Prep'] },
+  { code: 'PNT SEAL', description: 'Seal & paint', unit: 'SF', synonyms: ['seal & paint', 'seal/paint', 'seal and paint'], priceDb: ['Seal & Paint', 'Seal/Paint'] },
+  { code: 'PNT LTXS', description: 'Latex sealer', unit: 'SF', synonyms: ['latex seal', 'latex sealer'], priceDb: ['Latex Seal'] },
+  { code: 'PNT GRGD', description: 'Paint garage door, jamb & trim', unit: 'EA', synonyms: ['paint garage door', 'paint garage door jamb & trim'], priceDb: ['Paint Garage Door, Jamb & Trim'] },
+
+  // Floor coverings
+  { code: 'FCC CRPT', description: 'Carpet', unit: 'SF', synonyms: ['carpet', 'install carpet', 'carpet standard', 'wall to wall carpet', 'carpeting'], priceDb: ['Install Carpet'], baseline: 'Carpet - Standard' },
+  { code: 'FCC CRPTH', description: 'Carpet - high grade', unit: 'SF', synonyms: ['premium carpet', 'high grade carpet', 'berber carpet'], baseline: 'Carpet - Premium' },
+  { code: 'FCC PAD', description: 'Carpet pad', unit: 'SF', synonyms: ['carpet pad', 'carpet padding', 'pad', 'padding', 'r&r pad'], priceDb: ['R&R Pad'] },
+  { code: 'FCC RMV', description: 'Remove carpet', unit: 'SF', synonyms: ['remove carpet', 'carpet removal', 'tear out carpet'], priceDb: ['Remove Carpet'] },
+  { code: 'FCV LVP', description: 'Vinyl plank flooring - luxury', unit: 'SF', synonyms: ['luxury vinyl plank', 'lvp', 'vinyl plank flooring', 'vinyl plank', 'lvp flooring'], baseline: 'LVP - Luxury Vinyl Plank' },
+  { code: 'FCV LVT', description: 'Vinyl tile flooring - luxury', unit: 'SF', synonyms: ['luxury vinyl tile', 'lvt', 'vinyl tile'], baseline: 'LVT - Luxury Vinyl Tile' },
+  { code: 'FCW LAM', description: 'Laminate - simulated wood flooring', unit: 'SF', synonyms: ['laminate', 'laminate floor', 'laminate flooring', 'floating floor'], baseline: 'Laminate Flooring' },
+  { code: 'FCW ENG', description: 'Engineered wood flooring', unit: 'SF', synonyms: ['engineered hardwood', 'engineered wood floor'], baseline: 'Hardwood - Engineered' },
+  { code: 'FCW HWD', description: 'Oak flooring - #1 common - no finish', unit: 'SF', synonyms: ['hardwood', 'hardwood floor', 'hardwood flooring', 'wood flooring', 'wood floor', 'oak flooring', 'solid hardwood'], priceDb: ['Wood Flooring'], baseline: 'Hardwood - Solid' },
+  { code: 'FCW GLUE', description: 'Flooring adhesive / glue down', unit: 'SF', synonyms: ['floor glue', 'flooring adhesive', 'glue down'], priceDb: ['Floor Glue'] },
+  { code: 'FCW TRAN', description: 'Transition strip / threshold - wood', unit: 'LF', synonyms: ['transition strip', 'threshold', 't-molding', 'floor reducer'] },
+  { code: 'FCW RMV', description: 'Remove floor covering', unit: 'SF', synonyms: ['flooring removal', 'remove flooring', 'tear out flooring', 'remove floor'], baseline: { category: 'Flooring', name: 'Flooring Removal' } },
+  { code: 'FCW SUBF', description: 'Subfloor repair - plywood / OSB', unit: 'SF', synonyms: ['subfloor', 'subfloor repair', 'replace subfloor'], baseline: { category: 'Flooring', name: 'Subfloor Repair' } },
+  { code: 'FCT CER', description: 'Tile floor covering - ceramic', unit: 'SF', synonyms: ['floor tile', 'ceramic tile', 'ceramic floor tile', 'tile floor', 'tile flooring'], baseline: 'Floor Tile - Ceramic' },
+  { code: 'FCT POR', description: 'Tile floor covering - porcelain', unit: 'SF', synonyms: ['porcelain tile', 'porcelain floor tile'], baseline: 'Floor Tile - Porcelain' },
+  { code: 'FCS STN', description: 'Natural stone tile flooring', unit: 'SF', synonyms: ['stone tile', 'marble tile', 'travertine', 'slate tile'], baseline: { category: 'Tile', name: 'Floor Tile - Natural Stone' } },
+  { code: 'FCT RMV', description: 'Remove tile floor covering', unit: 'SF', synonyms: ['tile removal', 'remove tile', 'tear out tile'], baseline: 'Tile Removal' },
+  { code: 'TIL WALL', description: 'Ceramic tile - wall', unit: 'SF', synonyms: ['wall tile', 'ceramic wall tile'], baseline: 'Wall Tile - Ceramic' },
+  { code: 'TIL BKSP', description: 'Tile backsplash', unit: 'SF', synonyms: ['backsplash', 'tile backsplash', 'kitchen backsplash'], baseline: 'Backsplash - Standard' },
+  { code: 'TIL BKSPM', description: 'Tile backsplash - mosaic', unit: 'SF', synonyms: ['mosaic backsplash', 'mosaic tile'], baseline: 'Backsplash - Mosaic' },
+  { code: 'TIL SHWR', description: 'Tile shower - walls', unit: 'SF', synonyms: ['shower tile', 'tile shower', 'tub surround tile'], baseline: 'Shower Tile' },
+
+  // Finish carpentry
+  { code: 'FNC BASE', description: 'Baseboard - 3 1/4"', unit: 'LF', synonyms: ['baseboard', 'base board', 'base trim', 'baseboard 3 1/4'], baseline: 'Baseboard - Standard' },
+  { code: 'FNC BASEDR', description: 'Baseboard - detach & reset', unit: 'LF', synonyms: ['detach & reset baseboard', 'd&r baseboard', 'reset baseboard', 'remove and reinstall baseboard'] },
+  { code: 'FNC BASEH', description: 'Baseboard - 5 1/4" - high grade', unit: 'LF', synonyms: ['premium baseboard', 'tall baseboard', 'baseboard 5 1/4'], baseline: 'Baseboard - Premium' },
+  { code: 'FNC CRWN', description: 'Crown molding - 3 1/4"', unit: 'LF', synonyms: ['crown molding', 'crown moulding', 'crown'], baseline: 'Crown Molding - Standard' },
+  { code: 'FNC CRWNH', description: 'Crown molding - 5 1/4" - high grade', unit: 'LF', synonyms: ['premium crown molding', 'large crown molding'], baseline: 'Crown Molding - Premium' },
+  { code: 'FNC CSGW', description: 'Window casing', unit: 'EA', synonyms: ['window casing', 'window trim', 'window frame trim'], baseline: 'Window Casing' },
+  { code: 'FNC CSGD', description: 'Door casing', unit: 'EA', synonyms: ['door casing', 'door trim', 'door frame trim'], baseline: 'Door Casing' },
+  { code: 'FNC QTR', description: 'Quarter round - 3/4"', unit: 'LF', synonyms: ['quarter round', 'floor moulding', 'floor molding'], priceDb: ['Floor Moulding'], baseline: 'Quarter Round' },
+  { code: 'FNC SHOE', description: 'Shoe molding', unit: 'LF', synonyms: ['shoe molding', 'shoe mould', 'base shoe'], baseline: 'Shoe Molding' },
+  { code: 'FNC TRIM2', description: 'Trim board - 1" x 2" - pine', unit: 'LF', synonyms: ['2 trim pine', 'trim board', 'pine trim', 'exterior trim board'], priceDb: ['R&R 2" Trim - Pine'] },
+
+  // Windows
+  { code: 'WDV DH', description: 'Vinyl window - double hung', unit: 'EA', synonyms: ['double hung window', 'vinyl window', 'window replacement', 'replace window', 'window'], baseline: 'Window - Double-Hung Vinyl' },
+  { code: 'WDV CSMT', description: 'Vinyl window - casement', unit: 'EA', synonyms: ['casement window'], baseline: 'Window - Casement' },
+  { code: 'WDV PICT', description: 'Vinyl window - picture (fixed)', unit: 'EA', synonyms: ['picture window', 'fixed window'], baseline: 'Window - Picture/Fixed' },
+  { code: 'WDW GLZB', description: 'Glazing bead', unit: 'LF', synonyms: ['glazing bead', 'window glazing bead'], priceDb: ['Glazing Bead'] },
+  { code: 'WDW RGLZS', description: 'Reglaze window, 1 - 9 sf', unit: 'EA', synonyms: ['reglaze window 1-9 sf', 'reglaze small window', 'window glass replacement'], priceDb: ['Reglaze Window 1-9sf'] },
+  { code: 'WDW RGLZL', description: 'Reglaze window, 17 - 25 sf', unit: 'EA', synonyms: ['reglaze window 17-25 sf', 'reglaze large window'], priceDb: ['Reglaze Window 17-25sf'] },
+  { code: 'WDW RGLZD', description: 'Reglaze double pane (insulated) window', unit: 'EA', synonyms: ['reglaze double pane window', 'insulated glass unit', 'double pane glass'], priceDb: ['Reglaze Double Pane Window'] },
+  { code: 'WDW SCRR', description: 'Remove window screen', unit: 'SF', synonyms: ['remove screen', 'remove window screen'], priceDb: ['Remove Screen'] },
+  { code: 'WDW SCR', description: 'Window screen', unit: 'SF', synonyms: ['replace screen', 'window screen', 'rescreen'], priceDb: ['Replace Screen'] },
+  { code: 'WDW SUNS', description: 'Solar (sun) screen', unit: 'SF', synonyms: ['sunscreen', 'solar screen', 'sun screen'], priceDb: ['Sunscreen'] },
+  { code: 'WDW BLND', description: 'Blinds - wood', unit: 'EA', synonyms: ['wood blinds', 'r&r wood blinds', 'window blinds'], priceDb: ['R&R Wood Blinds'] },
+
+  // Doors
+  { code: 'DOR SGD', description: 'Sliding patio door - vinyl', unit: 'EA', synonyms: ['sliding glass door', 'patio door', 'slider door'], baseline: 'Sliding Glass Door' },
+  { code: 'DOR EXTS', description: 'Exterior door - metal - insulated', unit: 'EA', synonyms: ['entry door', 'exterior door', 'steel door', 'front door'], baseline: 'Entry Door - Steel' },
+  { code: 'DOR EXTF', description: 'Exterior door - fiberglass', unit: 'EA', synonyms: ['fiberglass door', 'fiberglass entry door'], baseline: 'Entry Door - Fiberglass' },
+  { code: 'DOR INTH', description: 'Interior door - hollow core - pre-hung unit', unit: 'EA', synonyms: ['interior door', 'hollow core door', 'pre-hung door', 'door slab'], baseline: 'Interior Door - Hollow Core' },
+  { code: 'DOR INTS', description: 'Interior door - solid core - pre-hung unit', unit: 'EA', synonyms: ['solid core door'], baseline: 'Interior Door - Solid Core' },
+  { code: 'DOR STRM', description: 'Storm door assembly', unit: 'EA', synonyms: ['storm door', 'r&r storm door', 'screen door'], priceDb: ['R&R Storm Door'] },
+  { code: 'DOR LOCK', description: 'Door lockset - detach & reset', unit: 'EA', synonyms: ['detach/reset lockset', 'lockset', 'door knob', 'door hardware', 'deadbolt'], priceDb: ['Detach/Reset Lockset'] },
+  { code: 'DOR GRG1', description: 'Overhead door & hardware - 8\' x 7\'', unit: 'EA', synonyms: ['garage door', 'single garage door', 'overhead door'], baseline: 'Garage Door - Single' },
+  { code: 'DOR GRG2', description: 'Overhead door & hardware - 16\' x 7\'', unit: 'EA', synonyms: ['double garage door', '16 ft garage door'], baseline: 'Garage Door - Double' },
+  { code: 'DOR GRGDR', description: 'Overhead door - detach & reset', unit: 'EA', synonyms: ['detach/rehang garage door', 'rehang garage door', 'detach garage door'], priceDb: ['Detach/Rehang Garage Door'] },
+  { code: 'DOR GRGJ', description: 'Overhead door jamb & trim', unit: 'EA', synonyms: ['garage door jamb', 'garage door trim', 'r&r garage door jamb & trim'], priceDb: ['R&R Garage Door Jamb & Trim'] },
+
+  // Plumbing
+  { code: 'PLM TLT', description: 'Toilet', unit: 'EA', synonyms: ['toilet', 'commode', 'water closet'], baseline: 'Toilet - Standard' },
+  { code: 'PLM FCTK', description: 'Sink faucet - kitchen', unit: 'EA', synonyms: ['kitchen faucet', 'faucet', 'sink faucet'], baseline: 'Faucet - Kitchen' },
+  { code: 'PLM FCTB', description: 'Sink faucet - bathroom', unit: 'EA', synonyms: ['bathroom faucet', 'lavatory faucet', 'vanity faucet'], baseline: 'Faucet - Bathroom' },
+  { code: 'PLM WH40', description: 'Water heater - 40 gallon - gas', unit: 'EA', synonyms: ['water heater', 'hot water heater', 'tank water heater', '40 gallon water heater'], baseline: 'Water Heater - Tank (40 gal)' },
+  { code: 'PLM WHTL', description: 'Water heater - tankless', unit: 'EA', synonyms: ['tankless water heater', 'on demand water heater'], baseline: 'Water Heater - Tankless' },
+  { code: 'PLM PIPC', description: 'Copper pipe - repair', unit: 'LF', synonyms: ['copper pipe', 'copper pipe repair', 'pipe repair', 'burst pipe'], baseline: 'Pipe Repair - Copper' },
+  { code: 'PLM PIPX', description: 'PEX supply line - repair', unit: 'LF', synonyms: ['pex pipe', 'pex repair', 'pex pipe repair', 'pex supply line'], baseline: 'Pipe Repair - PEX' },
+  { code: 'PLM DRN', description: 'Clean drain line', unit: 'EA', synonyms: ['drain cleaning', 'snake drain', 'clear drain', 'drain line'], baseline: 'Drain Cleaning' },
+  { code: 'PLM DISP', description: 'Garbage disposal', unit: 'EA', synonyms: ['garbage disposal', 'disposal'] },
+
+  // Electrical & light fixtures
+  { code: 'ELE OUTL', description: 'Outlet', unit: 'EA', synonyms: ['outlet', 'receptacle', 'electrical outlet', 'plug outlet'], baseline: 'Outlet - Standard' },
+  { code: 'ELE GFCI', description: 'Ground fault interrupter (GFI) outlet', unit: 'EA', synonyms: ['gfci outlet', 'gfi outlet', 'gfci', 'ground fault outlet'], baseline: 'Outlet - GFCI' },
+  { code: 'ELE SWCH', description: 'Switch', unit: 'EA', synonyms: ['switch', 'light switch', 'wall switch'], baseline: 'Switch - Standard' },
+  { code: 'ELE PNL', description: 'Breaker panel - 200 amp', unit: 'EA', synonyms: ['panel upgrade', 'electrical panel', 'breaker panel', '200 amp panel', 'service panel'], baseline: 'Panel Upgrade - 200A' },
+  { code: 'ELE BRKR', description: 'Breaker - single pole', unit: 'EA', synonyms: ['circuit breaker', 'breaker'], baseline: 'Circuit Breaker' },
+  { code: 'ELE AFCI', description: 'Breaker - arc fault (AFCI)', unit: 'EA', synonyms: ['afci breaker', 'arc fault breaker', 'afci', 'arc fault circuit interrupter', 'combination afci'] },
+  { code: 'ELE WIRE', description: 'Wiring - 12/2 NM (Romex)', unit: 'LF', synonyms: ['wire run', 'romex', 'electrical wiring', 'wiring', '12/2 wire'], baseline: 'Wire Run - 12/2 NM' },
+  { code: 'ELE METR', description: 'Meter base and main disconnect', unit: 'EA', synonyms: ['meter', 'r&r meter', 'meter base', 'electric meter'], priceDb: ['R&R Meter'] },
+  { code: 'LIT FIXT', description: 'Light fixture', unit: 'EA', synonyms: ['light fixture', 'light fixture material', 'ceiling light', 'vanity light'], priceDb: ['Light Fixture Material'], baseline: 'Light Fixture - Standard' },
+  { code: 'LIT FIXTR', description: 'Light fixture - detach & reset / repair', unit: 'EA', synonyms: ['light fixture repair', 'repair light fixture', 'reset light fixture'], priceDb: ['Light Fixture Repair'] },
+  { code: 'LIT FAN', description: 'Ceiling fan & light', unit: 'EA', synonyms: ['ceiling fan', 'fan light'], baseline: 'Ceiling Fan' },
+
+  // HVAC
+  { code: 'HVC AC3', description: 'Central air - condenser unit - 3 ton', unit: 'EA', synonyms: ['ac unit', 'air conditioner', 'central air', 'condenser', 'ac condenser', 'air conditioning'], baseline: 'AC Unit - Central (3 ton)' },
+  { code: 'HVC FURN', description: 'Furnace - forced air - gas', unit: 'EA', synonyms: ['furnace', 'gas furnace', 'forced air furnace'], baseline: 'Furnace - Gas' },
+  { code: 'HVC HP', description: 'Heat pump', unit: 'EA', synonyms: ['heat pump'], baseline: 'Heat Pump' },
+  { code: 'HVC DUCT', description: 'Ductwork - new', unit: 'LF', synonyms: ['ductwork', 'duct work', 'new ductwork', 'flex duct', 'air duct'], baseline: 'Ductwork - New' },
+  { code: 'HVC DUCTR', description: 'Ductwork - repair', unit: 'LF', synonyms: ['duct repair', 'ductwork repair'], baseline: 'Ductwork - Repair' },
+  { code: 'HVC TSTAT', description: 'Thermostat - programmable', unit: 'EA', synonyms: ['thermostat', 'smart thermostat'], baseline: 'Thermostat - Smart' },
+  { code: 'HVC RFRG', description: 'Refrigerant recharge', unit: 'EA', synonyms: ['refrigerant recharge', 'freon', 'recharge refrigerant'], baseline: 'Refrigerant Recharge' },
+
+  // Appliances
+  { code: 'APP REFR', description: 'Refrigerator - top freezer', unit: 'EA', synonyms: ['refrigerator', 'fridge'], baseline: 'Refrigerator - Standard' },
+  { code: 'APP DW', description: 'Dishwasher', unit: 'EA', synonyms: ['dishwasher'], baseline: 'Dishwasher' },
+  { code: 'APP RNGE', description: 'Range - freestanding - electric', unit: 'EA', synonyms: ['range', 'oven', 'electric range', 'stove', 'cooktop'], baseline: 'Range/Oven - Electric' },
+  { code: 'APP RNGG', description: 'Range - freestanding - gas', unit: 'EA', synonyms: ['gas range', 'gas stove', 'gas oven'], baseline: 'Range/Oven - Gas' },
+  { code: 'APP MICR', description: 'Microwave oven - over range w/ built-in hood', unit: 'EA', synonyms: ['microwave', 'over the range microwave', 'otr microwave'], baseline: 'Microwave - Over Range' },
+  { code: 'APP WASH', description: 'Washing machine', unit: 'EA', synonyms: ['washer', 'washing machine', 'clothes washer'], baseline: 'Washer' },
+  { code: 'APP DRYE', description: 'Clothes dryer - electric', unit: 'EA', synonyms: ['dryer', 'clothes dryer', 'electric dryer'], baseline: 'Dryer - Electric' },
+  { code: 'APP DRYG', description: 'Clothes dryer - gas', unit: 'EA', synonyms: ['gas dryer'], baseline: 'Dryer - Gas' },
+
+  // Cabinetry
+  { code: 'CAB BASE', description: 'Cabinetry - lower (base) units', unit: 'LF', synonyms: ['base cabinet', 'lower cabinet', 'kitchen cabinets', 'cabinet'], baseline: 'Base Cabinet - Stock' },
+  { code: 'CAB WALL', description: 'Cabinetry - upper (wall) units', unit: 'LF', synonyms: ['wall cabinet', 'upper cabinet'], baseline: 'Wall Cabinet - Stock' },
+  { code: 'CAB BASEH', description: 'Cabinetry - lower (base) units - high grade', unit: 'LF', synonyms: ['semi-custom base cabinet', 'high grade base cabinet'], baseline: 'Base Cabinet - Semi-Custom' },
+  { code: 'CAB WALLH', description: 'Cabinetry - upper (wall) units - high grade', unit: 'LF', synonyms: ['semi-custom wall cabinet', 'high grade wall cabinet'], baseline: 'Wall Cabinet - Semi-Custom' },
+  { code: 'CAB RFCE', description: 'Reface cabinetry', unit: 'LF', synonyms: ['cabinet refacing', 'reface cabinets'], baseline: 'Cabinet Refacing' },
+  { code: 'CAB CTLM', description: 'Countertop - post formed plastic laminate', unit: 'LF', synonyms: ['laminate countertop', 'formica countertop', 'countertop'], baseline: 'Countertop - Laminate' },
+  { code: 'CAB CTGR', description: 'Countertop - granite or marble', unit: 'SF', synonyms: ['granite countertop', 'granite', 'marble countertop'], baseline: 'Countertop - Granite' },
+  { code: 'CAB CTQZ', description: 'Countertop - quartz', unit: 'SF', synonyms: ['quartz countertop', 'quartz'], baseline: 'Countertop - Quartz' },
+  { code: 'CAB VAN', description: 'Vanity', unit: 'LF', synonyms: ['vanity', 'bathroom vanity', 'vanity cabinet'] },
+
+  // Insulation
+  { code: 'INS BLWN', description: 'Blown-in insulation - 12" depth - R30', unit: 'SF', synonyms: ['blown-in insulation', 'blown insulation', 'loose fill insulation', 'attic insulation'], priceDb: ['R&R Blown-In Insulation'], baseline: 'Blown-In Insulation' },
+  { code: 'INS R13', description: 'Batt insulation - 4" - R13', unit: 'SF', synonyms: ['batt insulation', 'r13 insulation', 'fiberglass batt', 'wall insulation'], baseline: 'Batt Insulation - R-13' },
+  { code: 'INS R19', description: 'Batt insulation - 6" - R19', unit: 'SF', synonyms: ['r19 insulation', 'r19 batt'], baseline: 'Batt Insulation - R-19' },
+  { code: 'INS R30', description: 'Batt insulation - 10" - R30', unit: 'SF', synonyms: ['r30 insulation', 'r30 batt'], baseline: 'Batt Insulation - R-30' },
+  { code: 'INS SPFO', description: 'Spray foam insulation - open cell', unit: 'SF', synonyms: ['spray foam', 'open cell foam', 'spray foam insulation'], baseline: 'Spray Foam - Open Cell' },
+  { code: 'INS SPFC', description: 'Spray foam insulation - closed cell', unit: 'SF', synonyms: ['closed cell foam', 'closed cell spray foam'], baseline: 'Spray Foam - Closed Cell' },
+
+  // Framing
+  { code: 'FRM WALLI', description: 'Interior wall framing - 2" x 4" - 16" oc', unit: 'SF', synonyms: ['wall framing', 'interior framing', 'stud wall', 'framing'], baseline: 'Wall Framing - Interior' },
+  { code: 'FRM WALLE', description: 'Exterior wall framing - 2" x 6" - 16" oc', unit: 'SF', synonyms: ['exterior wall framing', 'exterior framing'], baseline: 'Wall Framing - Exterior' },
+  { code: 'FRM HDR', description: 'Header - door or window opening', unit: 'EA', synonyms: ['header', 'door header', 'window header'], baseline: 'Header Installation' },
+  { code: 'FRM SIST', description: 'Sister joist / rafter', unit: 'LF', synonyms: ['sister joist', 'sistering joists', 'joist repair', 'rafter repair', 'sister rafter'], baseline: 'Sistering Joists' },
+  { code: 'FRM STUD', description: 'Stud - 2" x 4" - replace', unit: 'EA', synonyms: ['stud replacement', 'replace stud', 'stud'], baseline: 'Stud Replacement' },
+  { code: 'FRM HURS', description: 'Hurricane strap / rafter tie - roof to wall', unit: 'EA', synonyms: ['hurricane strap', 'hurricane clip', 'hurricane tie', 'rafter tie', 'roof to wall connection', 'truss tie'] },
+
+  // Fencing
+  { code: 'FEN WD6', description: 'Wood fence 5\'- 6\' high - cedar', unit: 'LF', synonyms: ['wood fence', 'privacy fence', 'cedar fence', 'fence', 'r & r wood fence', 'fencing'], priceDb: ['R & R Wood Fence 6"'] },
+  { code: 'FEN POSTR', description: 'Remove fence post', unit: 'EA', synonyms: ['remove post', 'remove fence post'], priceDb: ['Remove Post'] },
+  { code: 'FEN POST', description: 'Fence post - wood - 4" x 4"', unit: 'EA', synonyms: ['replace post', 'fence post', 'wood post'], priceDb: ['Replace Post'] },
+  { code: 'FEN DR', description: 'Detach & reset fence section - 8\'', unit: 'EA', synonyms: ['detach & reset fence', 'detach and reset fence panel'], priceDb: ['Detach & Reset'] },
+  { code: 'FEN SLAT', description: 'Fence picket / slat - wood', unit: 'EA', synonyms: ['wood slat', 'fence picket', 'picket'], priceDb: ['Wood Slat'] },
+  { code: 'FEN LATT', description: 'Lattice', unit: 'SF', synonyms: ['lattice', 'lattice panel'], priceDb: ['Lattice'] },
+
+  // Cleaning, contents & general
+  { code: 'CLN CRPT', description: 'Clean carpet', unit: 'SF', synonyms: ['clean carpet', 'carpet cleaning', 'steam clean carpet'], priceDb: ['Clean Carpet'] },
+  { code: 'CLN FLR', description: 'Clean floor', unit: 'SF', synonyms: ['clean floor', 'floor cleaning', 'mop floor'], priceDb: ['Clean Floor'] },
+  { code: 'CLN PWSH', description: 'Pressure / power wash', unit: 'SF', synonyms: ['power wash', 'pressure wash', 'pressure washing'], priceDb: ['Power Wash'] },
+  { code: 'CON MVRS', description: 'Contents - move out then reset', unit: 'EA', synonyms: ['move & reset contents', 'content manipulation', 'move contents', 'contents move out', 'pack out'], priceDb: ['Move & Reset Contents'] },
+  { code: 'LAB GEN', description: 'General laborer - per hour', unit: 'HR', synonyms: ['general labor', 'laborer', 'labor hours'], baseline: { category: 'Other', name: 'General Labor' } },
+  { code: 'DMO LITE', description: 'Light demolition', unit: 'SF', synonyms: ['demolition', 'demo', 'light demolition'], baseline: 'Demolition - Light' },
+  { code: 'DMO HVY', description: 'Heavy demolition', unit: 'SF', synonyms: ['heavy demolition', 'structural demolition'], baseline: 'Demolition - Heavy' },
+  { code: 'DMO DUMP', description: 'Haul debris - per pickup truck load - including dump fees', unit: 'EA', synonyms: ['debris removal', 'haul debris', 'dumpster', 'haul off', 'trash out'], baseline: 'Debris Removal' },
+  { code: 'FEE PRMT', description: 'Building permit', unit: 'EA', synonyms: ['permit', 'permit fees', 'building permit', 'permit and inspection'], baseline: { category: 'Other', name: 'Permit Fees' } },
+];
+
+const CATEGORY_BY_CODE = new Map(CATEGORIES.map(category => [category.code, category]));
+
+function buildEntry(definition: EntryDefinition): CatalogEntry {
+  const [categoryCode, ...selectorParts] = definition.code.split(' ');
+  const category = CATEGORY_BY_CODE.get(categoryCode);
+  if (!category) {
+    throw new Error(`Unknown catalog category "${categoryCode}" for ${definition.code}`);
+  }
+
+  const baseline = typeof definition.baseline === 'string'
+    ? { category: category.pricingCategory, name: definition.baseline }
+    : definition.baseline;
+
+  return {
+    code: definition.code,
+    categoryCode,
+    selector: selectorParts.join(' '),
+    description: definition.description,
+    unit: definition.unit,
+    trade: definition.trade ?? category.trade,
+    pricingCategory: baseline?.category ?? category.pricingCategory,
+    synonyms: definition.synonyms,
+    priceDbKeys: definition.priceDb ?? [],
+    baseline,
+  };
+}
+
+export const LINE_ITEM_CATALOG: CatalogEntry[] = ENTRY_DEFINITIONS.map(buildEntry);
+
+const ENTRY_BY_CODE = new Map(LINE_ITEM_CATALOG.map(entry => [normalizeCode(entry.code), entry]));
+
+// ============================================
+// DESCRIPTION NORMALIZATION
+// ============================================
+
+// Estimate shorthand expanded before matching
+const ABBREVIATIONS: Record<string, string> = {
+  comp: 'composition',
+  lam: 'laminated',
+  arch: 'architectural',
+  rfg: 'roofing',
+  alum: 'aluminum',
+  galv: 'galvanized',
+  dbl: 'double',
+  ext: 'exterior',
+  int: 'interior',
+  std: 'standard',
+  flr: 'floor',
+  clg: 'ceiling',
+  cab: 'cabinet',
+  sht: 'sheetrock',
+  dw: 'drywall',
+  wh: 'water heater',
+  rmv: 'remove',
+  demo: 'demolition',
+  moulding: 'molding',
+  ac: 'air conditioner',
+};
+
+// Filler words and activity/unit noise that should not drive a match
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'and', 'or', 'to', 'for', 'with', 'w', 'per', 'in', 'on', 'at', 'up',
+  'item', 'items', 'new', 'existing', 'only', 'qty',
+  'install', 'installation', 'installed', 'replace', 'replacement', 'replaced', 'r', 'rr',
+  'sf', 'sq', 'lf', 'ea', 'ct', 'sy', 'hr', 'each',
+]);
+
+function normalizeCode(code: string): string {
+  return code.toUpperCase().replace(/\s+/g, ' ').trim();
+}
+
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
+
+export function tokenize(text: string): string[] {
+  const expanded = text
+    .toLowerCase()
+    .replace(/\br\s*&\s*r\b/g, ' ')
+    .replace(/&/g, ' and ')
+    .replace(/\br-(\d+)/g, 'r$1')
+    .replace(/(\d+)\s*-\s*tab\b/g, '$1tab')
+    .replace(/[^a-z0-9/]+/g, ' ')
+    .split(/\s+/)
+    .flatMap(token => (ABBREVIATIONS[token] ?? token).split(' '));
+
+  return expanded
+    .flatMap(token => (/^\d+\/\d+$/.test(token) ? [token] : token.split('/')))
+    .filter(token => token && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+// Exact token = 1, prefix match ("pad" / "padding") = partial credit
+const PREFIX_MATCH_WEIGHT = 0.75;
+
+function tokenWeight(a: string, b: string): number {
+  if (a === b) return 1;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.length >= 3 && !/^\d/.test(shorter) && longer.startsWith(shorter) ? PREFIX_MATCH_WEIGHT : 0;
+}
+
+/**
+ * Similarity between an input description and a catalog term (0-1).
+ * Dice coefficient over tokens, boosted when the whole term appears in the input.
+ */
+function scoreTokens(input: string[], term: string[]): number {
+  if (input.length === 0 || term.length === 0) return 0;
+
+  const unmatched = [...input];
+  let common = 0;
+  let matchedTokens = 0;
+  for (const token of term) {
+    let bestIndex = -1;
+    let bestWeight = 0;
+    unmatched.forEach((candidate, index) => {
+      const weight = tokenWeight(candidate, token);
+      if (weight > bestWeight) {
+        bestWeight = weight;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex >= 0) {
+      common += bestWeight;
+      matchedTokens++;
+      unmatched.splice(bestIndex, 1);
+    }
+  }
+
+  const dice = (2 * common) / (input.length + term.length);
+  if (matchedTokens === term.length) {
+    // Every term token present: weight by how much of the input the term explains
+    const containment = (0.6 + 0.4 * (term.length / input.length)) * (common / term.length);
+    return Math.max(dice, containment);
+  }
+  return dice;
+}
+
+interface IndexedTerm {
+  entry: CatalogEntry;
+  tokens: string[];
+  text: string;
+  source: CatalogMatch['matchedOn'];
+}
+
+const TERM_INDEX: IndexedTerm[] = LINE_ITEM_CATALOG.flatMap(entry => [
+  { entry, tokens: tokenize(entry.description), text: entry.description, source: 'description' as const },
+  ...entry.synonyms.map(synonym => ({ entry, tokens: tokenize(synonym), text: synonym, source: 'synonym' as const })),
+  ...entry.priceDbKeys.map(key => ({ entry, tokens: tokenize(key), text: key, source: 'price-key' as const })),
+  ...(entry.baseline
+    ? [{ entry, tokens: tokenize(entry.baseline.name), text: entry.baseline.name, source: 'price-key' as const }]
+    : []),
+]);
+
+function unitsAgree(unit: string, entryUnit: CatalogUnit): boolean {
+  const normalized = unit.trim().toUpperCase();
+  if (normalized === entryUnit) return true;
+  return entryUnit === 'EA' && (normalized === 'CT' || normalized === 'EACH');
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+export function getCatalogCategory(code?: string | null): CatalogCategory | undefined {
+  if (!code) return undefined;
+  return CATEGORY_BY_CODE.get(code.trim().toUpperCase().substring(0, 3));
+}
+
+export function getCatalogCategories(): CatalogCategory[] {
+  return CATEGORIES;
+}
+
+export function getCatalogEntry(code?: string | null): CatalogEntry | undefined {
+  if (!code) return undefined;
+  return ENTRY_BY_CODE.get(normalizeCode(code));
+}
+
+/**
+ * Exact lookup from an estimate's category + selector columns
+ */
+export function getCatalogEntryBySelector(categoryCode?: string, selector?: string): CatalogEntry | undefined {
+  if (!categoryCode || !selector) return undefined;
+  return getCatalogEntry(`${categoryCode} ${selector}`);
+}
+
+/**
+ * Resolve a free-text description (OCR'd, imported or typed) to a catalog code.
+ * Returns null when nothing scores above the minimum.
+ */
+export function resolveLineItem(description: string, options: ResolveOptions = {}): CatalogMatch | null {
+  const trimmed = description?.trim();
+  if (!trimmed) return null;
+
+  const direct = getCatalogEntry(trimmed);
+  if (direct) {
+    return { code: direct.code, entry: direct, score: 1, matchedOn: 'code', matchedText: direct.code };
+  }
+
+  const inputTokens = tokenize(trimmed);
+  if (inputTokens.length === 0) return null;
+
+  const categoryCode = options.categoryCode?.trim().toUpperCase().substring(0, 3);
+  const categoryHint = options.category?.trim().toLowerCase();
+  const minScore = options.minScore ?? DEFAULT_MIN_MATCH_SCORE;
+
+  let best: CatalogMatch | null = null;
+  for (const term of TERM_INDEX) {
+    let score = scoreTokens(inputTokens, term.tokens);
+    if (score === 0) continue;
+
+    if (categoryCode && term.entry.categoryCode === categoryCode) score += 0.15;
+    if (categoryHint && (term.entry.trade === categoryHint || term.entry.pricingCategory.toLowerCase() === categoryHint)) {
+      score += 0.1;
+    }
+    if (options.unit && unitsAgree(options.unit, term.entry.unit)) score += 0.05;
+    score = Math.min(1, score);
+
+    if (!best || score > best.score) {
+      best = { code: term.entry.code, entry: term.entry, score, matchedOn: term.source, matchedText: term.text };
+    }
+  }
+
+  if (!best || best.score < minScore) return null;
+  return { ...best, score: Math.round(best.score * 100) / 100 };
+}
+
+/**
+ * Trade for a description, honoring an explicit category when it names a trade
+ */
+export function resolveTrade(description: string, category?: string): CatalogTrade | null {
+  const lowerCategory = category?.trim().toLowerCase();
+  const byCategory = LINE_ITEM_CATALOG.find(entry => entry.trade === lowerCategory)?.trade;
+  if (byCategory) return byCategory;
+
+  return resolveLineItem(description, { category })?.entry.trade ?? null;
+}
+
+export function searchCatalog(query: string, limit: number = 10): CatalogMatch[] {
+  const inputTokens = tokenize(query);
+  if (inputTokens.length === 0) return [];
+
+  const bestByCode = new Map<string, CatalogMatch>();
+  for (const term of TERM_INDEX) {
+    const score = scoreTokens(inputTokens, term.tokens);
+    if (score <= 0) continue;
+    const current = bestByCode.get(term.entry.code);
+    if (!current || score > current.score) {
+      bestByCode.set(term.entry.code, {
+        code: term.entry.code,
+        entry: term.entry,
+        score: Math.round(score * 100) / 100,
+        matchedOn: term.source,
+        matchedText: term.text,
+      });
+    }
+  }
+
+  return Array.from(bestByCode.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,59 @@
+/**
+ * Offline Sync Rules
+ *
+ * Shared by the browser outbox and the sync endpoints. Work captured without
+ * a connection (claim submissions, session events, photo uploads) carries a
+ * client-generated id so a replay after a dropped response is recognised
+ * instead of duplicated, and sessions started offline use a "local-" id that
+ * is swapped for the server's id once the session itself has synced.
+ */
+
+export type SyncOutcome = 'synced' | 'retry' | 'conflict' | 'rejected';
+
+export type SyncConflictReason = 'session' | 'claim' | 'missing';
+
+export interface ClaimSubmissionFingerprint {
+  totalQuoted: number;
+  totalFmv: number;
+  lineItemCount: number;
+}
+
+export const LOCAL_SESSION_PREFIX = 'local-';
+
+const RETRY_BASE_MS = 5_000;
+const RETRY_MAX_MS = 15 * 60_000;
+
+export function isLocalSessionId(sessionId: string): boolean {
+  return sessionId.startsWith(LOCAL_SESSION_PREFIX);
+}
+
+/**
+ * What the outbox does with an item after the server answered
+ * - 2xx: done, drop it
+ * - 404/409/410: the server state moved on; keep it for the user to resolve
+ * - 401/408/429/5xx: try again later (signed out, throttled or down)
+ * - other 4xx: the payload itself was refused
+ */
+export function classifySyncResponse(status: number): SyncOutcome {
+  if (status >= 200 && status < 300) return 'synced';
+  if (status === 404 || status === 409 || status === 410) return 'conflict';
+  if (status === 401 || status === 408 || status === 429 || status >= 500) return 'retry';
+  return 'rejected';
+}
+
+/**
+ * Exponential backoff between attempts: 5s, 10s, 20s ... capped at 15 minutes
+ */
+export function syncRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * A replayed claim submission matches the stored one when the totals agree to
+ * the cent and it has the same number of line items
+ */
+export function sameClaimSubmission(a: ClaimSubmissionFingerprint, b: ClaimSubmissionFingerprint): boolean {
+  return Math.abs(Number(a.totalQuoted) - Number(b.totalQuoted)) < 0.01
+    && Math.abs(Number(a.totalFmv) - Number(b.totalFmv)) < 0.01
+    && a.lineItemCount === b.lineItemCount;
+}
@@ -2,10 +2,16 @@
  * MaxClaim Audit Engine v2.0
  * Dynamic Market Pricing System
  * 
- * UNIT_PRICE = Lowest price from ALL claims (Contractor floor)
- * FMV_PRICE = Highest price from ALL claims (Insurer ceiling/uplift target)
- * AVERAGE_PRICE = (UNIT_PRICE + FMV_PRICE) / 2 (Fair market midpoint)
- * 
+ * UNIT_PRICE = P10 of observed prices (Contractor floor)
+ * FMV_PRICE = P90 of observed prices (Insurer ceiling/uplift target)
+ * AVERAGE_PRICE = P50 of observed prices (Fair market midpoint)
+ *
+ * Percentiles come from the pricing statistics engine (outlier rejection,
+ * time decay) and are shrunk toward the seeded priceDB range until an item
+ * has enough observations of its own. Given a loss date, the range is moved
+ * to that month from stored price history or the item's material index.
+ * A post-catastrophe demand surge for the claim's area lifts the whole range.
+ *
  * Badge Logic:
  * - LOW = Price < FMV_PRICE (underpaid opportunity - can claim more)
  * - FMV = Price >= FMV_PRICE (fair market value achieved)
@@ -22,11 +28,12 @@ export type AuditSeverity = 'none' | 'warning' | 'error' | 'info' | 'success';
 
 export interface PriceDBItem {
   UNIT: string;
-  UNIT_PRICE: number;      // Lowest from all claims (Min/Floor)
-  AVERAGE_PRICE: number;   // Midpoint between min/max
-  FMV_PRICE: number;       // Highest from all claims (Max/Ceiling)
+  UNIT_PRICE: number;      // P10 (Floor)
+  AVERAGE_PRICE: number;   // P50 (Midpoint)
+  FMV_PRICE: number;       // P90 (Ceiling)
   SAMPLES: number;
   LAST_UPDATED?: string;
+  CONFIDENCE_INTERVAL?: [number, number];  // 95% CI of the midpoint, once observations exist
 }
 
 export interface AuditResult {
@@ -38,9 +45,22 @@ export interface AuditResult {
   severity: AuditSeverity;
   unit?: string;
   marketPricing?: {
-    unitPrice: number;      // Lowest market price (floor)
-    averagePrice: number;   // Midpoint
-    fmvPrice: number;       // Highest market price (ceiling)
+    unitPrice: number;      // P10 market price (floor)
+    averagePrice: number;   // P50 (midpoint)
+    fmvPrice: number;       // P90 market price (ceiling)
+    sampleSize: number;
+    confidenceInterval?: { low: number; high: number };
+    pricedAt?: {              // Present when the range was moved to the loss date
+      lossDate: string;
+      period: string;
+      factor: number;
+      basis: PriceHistoryBasis;
+      materialIndex: MaterialIndexKey;
+    };
+    demandSurge?: {           // Present when a catastrophe demand surge lifted the range
+      surgePct: number;
+      disclosure: string;
+    };
   };
   enteredPrice: number;
   enteredQty: number;
@@ -74,6 +94,19 @@ export interface BatchAuditResult {
   results: AuditResult[];
 }
 
+export interface PriceSurge {
+  multiplier: number;   // 1.25 = +25%
+  surgePct: number;
+  disclosure: string;
+}
+
+export interface AuditOptions {
+  lossDate?: Date | string;                               // Price at this date instead of today
+  history?: Record<string, PriceHistoryPoint[]>;          // Stored monthly snapshots by priceDB item
+  indexSeries?: Partial<Record<MaterialIndexKey, IndexSeries>>;
+  surge?: PriceSurge | null;                              // Catastrophe demand surge in the claim's area
+}
+
 export type AuditFlag = 
   | 'OK'
   | 'Below market minimum'
@@ -100,8 +133,21 @@ export interface PriceAuditResult {
 // Import priceDB directly for shared code (browser + server)
 // Note: In Node.js, ES6 imports are already efficiently cached
 import priceDB from './priceDB.json';
+import { resolveLineItem } from './lineItemCatalog';
+import { computePriceStatistics, pointsFromRange, timeDecayWeight, type PricePoint } from './pricingStats';
+import { materialIndexFor, type IndexSeries, type MaterialIndexKey } from './priceIndices';
+import { priceRangeAt, type PriceHistoryBasis, type PriceHistoryPoint } from './priceHistory';
 let typedPriceDB = priceDB as Record<string, PriceDBItem>;
 
+// Prices observed per item since startup, and each seeded item's original range they're judged against
+const marketObservations = new Map<string, PricePoint[]>();
+const referencePrices = new Map<string, PriceDBItem>();
+
+// Observations kept per item (newest first to survive), and the decay weight below which a point is dropped
+export const MAX_MARKET_OBSERVATIONS = 500;
+const MIN_OBSERVATION_WEIGHT = 0.01;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
 function getSimilarItems(searchTerm: string): string[] {
   const items = Object.keys(typedPriceDB);
   const searchWords = searchTerm.toLowerCase().split(' ');
@@ -123,6 +169,13 @@ function fuzzyMatch(itemName: string): string | undefined {
     }
   }
   
+  // Resolve through the canonical catalog so OCR'd/typed variants land on the same key
+  const catalogMatch = resolveLineItem(itemName);
+  const catalogKey = catalogMatch?.entry.priceDbKeys.find(key => typedPriceDB[key]);
+  if (catalogKey) {
+    return catalogKey;
+  }
+  
   for (const key of Object.keys(typedPriceDB)) {
     const normalizedKey = key.toLowerCase();
     if (normalizedKey.includes(normalizedInput) || normalizedInput.includes(normalizedKey)) {
@@ -135,7 +188,7 @@ function fuzzyMatch(itemName: string): string | undefined {
 
 /**
  * Updates priceDB when new claim data comes in
- * Single high/low price can shift the entire market range
+ * The observation joins the item's sample; a single outlier can't shift the range
  */
 export function updateMarketPrice(
   itemName: string, 
@@ -155,24 +208,74 @@ export function updateMarketPrice(
       SAMPLES: 1,
       LAST_UPDATED: new Date().toISOString().split('T')[0]
     };
+    marketObservations.set(normalizedItemName, [{ price: newPrice, observedAt: new Date() }]);
     console.log(`📊 New item ${normalizedItemName}: $${newPrice}/${unit}`);
     return typedPriceDB[normalizedItemName];
   }
 
+  if (!marketObservations.has(normalizedItemName) && !referencePrices.has(normalizedItemName)) {
+    referencePrices.set(normalizedItemName, { ...itemData });
+  }
+  const observations = marketObservations.get(normalizedItemName) ?? [];
+  observations.push({ price: newPrice, observedAt: new Date() });
+  marketObservations.set(normalizedItemName, observations);
+
   const currentMin = itemData.UNIT_PRICE;
   const currentMax = itemData.FMV_PRICE;
+  itemData = recomputeMarketPrice(normalizedItemName);
   
-  itemData.UNIT_PRICE = Math.min(currentMin, newPrice);
-  itemData.FMV_PRICE = Math.max(currentMax, newPrice);
-  itemData.AVERAGE_PRICE = (itemData.UNIT_PRICE + itemData.FMV_PRICE) / 2;
-  itemData.SAMPLES = (itemData.SAMPLES || 0) + 1;
-  itemData.LAST_UPDATED = new Date().toISOString().split('T')[0];
-  
-  console.log(`📊 Updated ${normalizedItemName}: $${currentMin}→$${itemData.UNIT_PRICE} | $${currentMax}→$${itemData.FMV_PRICE}`);
+  console.log(`📊 Updated ${normalizedItemName} (${source}): $${currentMin}→$${itemData.UNIT_PRICE} | $${currentMax}→$${itemData.FMV_PRICE}`);
   
   return itemData;
 }
 
+/**
+ * Drop observations that have decayed to a negligible weight, then keep the
+ * most recent ones so memory and recompute time stay bounded per item
+ */
+function pruneObservations(observations: PricePoint[], now: Date): PricePoint[] {
+  const live = observations.filter(point => {
+    const ageDays = point.observedAt ? (now.getTime() - new Date(point.observedAt).getTime()) / MS_PER_DAY : 0;
+    return timeDecayWeight(ageDays) >= MIN_OBSERVATION_WEIGHT;
+  });
+  return live.slice(-MAX_MARKET_OBSERVATIONS);
+}
+
+/**
+ * Re-derive an item's P10/P50/P90 from its observations plus its seeded range
+ */
+function recomputeMarketPrice(itemName: string, now: Date = new Date()): PriceDBItem {
+  const itemData = typedPriceDB[itemName];
+  const observations = pruneObservations(marketObservations.get(itemName) ?? [], now);
+  marketObservations.set(itemName, observations);
+  const reference = referencePrices.get(itemName);
+
+  const referencePoints = reference
+    ? pointsFromRange(reference.UNIT_PRICE, reference.AVERAGE_PRICE, reference.FMV_PRICE, reference.SAMPLES, reference.LAST_UPDATED)
+    : [];
+  const stats = computePriceStatistics([...referencePoints, ...observations], { now });
+  if (!stats) return itemData;
+
+  itemData.UNIT_PRICE = stats.p10;
+  itemData.AVERAGE_PRICE = stats.p50;
+  itemData.FMV_PRICE = stats.p90;
+  itemData.SAMPLES = (reference?.SAMPLES ?? 0) + observations.length;
+  itemData.CONFIDENCE_INTERVAL = [stats.confidenceInterval.low, stats.confidenceInterval.high];
+  itemData.LAST_UPDATED = now.toISOString().split('T')[0];
+  return itemData;
+}
+
+/**
+ * Re-derive every observed item's range; time decay means older observations
+ * count for less each time this runs
+ */
+export function recomputeMarketPrices(now: Date = new Date()): number {
+  for (const itemName of Array.from(marketObservations.keys())) {
+    recomputeMarketPrice(itemName, now);
+  }
+  return marketObservations.size;
+}
+
 /**
  * Audit single claim item
  * Compares entered price against dynamic market range
@@ -184,7 +287,8 @@ export function updateMarketPrice(
 export function auditClaimItem(
   itemName: string,
   enteredPrice: number,
-  enteredQty: number
+  enteredQty: number,
+  options: AuditOptions = {}
 ): AuditResult {
   const normalizedItemName = itemName.trim();
   const matchedKey = fuzzyMatch(normalizedItemName);
@@ -208,7 +312,38 @@ export function auditClaimItem(
   }
 
   const itemData = typedPriceDB[matchedKey];
-  const { UNIT, UNIT_PRICE, AVERAGE_PRICE, FMV_PRICE } = itemData;
+  let { UNIT_PRICE, AVERAGE_PRICE, FMV_PRICE } = itemData;
+  const { UNIT } = itemData;
+
+  // Move the market range to the loss date along the item's history and material index
+  let pricedAt: NonNullable<AuditResult['marketPricing']>['pricedAt'];
+  const lossDate = options.lossDate ? new Date(options.lossDate) : null;
+  if (lossDate && !isNaN(lossDate.getTime())) {
+    const materialIndex = materialIndexFor(matchedKey);
+    const range = priceRangeAt(
+      { p10: UNIT_PRICE, p50: AVERAGE_PRICE, p90: FMV_PRICE, asOf: itemData.LAST_UPDATED ?? new Date() },
+      lossDate,
+      materialIndex,
+      { history: options.history?.[matchedKey], series: options.indexSeries }
+    );
+    UNIT_PRICE = range.p10;
+    AVERAGE_PRICE = range.p50;
+    FMV_PRICE = range.p90;
+    pricedAt = {
+      lossDate: lossDate.toISOString().split('T')[0],
+      period: range.period,
+      factor: range.factor,
+      basis: range.basis,
+      materialIndex,
+    };
+  }
+
+  const surge = options.surge && options.surge.multiplier > 1 ? options.surge : null;
+  if (surge) {
+    UNIT_PRICE = Math.round(UNIT_PRICE * surge.multiplier * 100) / 100;
+    AVERAGE_PRICE = Math.round(AVERAGE_PRICE * surge.multiplier * 100) / 100;
+    FMV_PRICE = Math.round(FMV_PRICE * surge.multiplier * 100) / 100;
+  }
 
   if (!enteredQty || enteredQty <= 0 || !Number.isFinite(enteredQty)) {
     return {
@@ -253,6 +388,9 @@ export function auditClaimItem(
     message = `Underpaid: $${enteredPrice.toFixed(2)} < $${FMV_PRICE.toFixed(2)}/${UNIT} (Opportunity: +$${uplift}/${UNIT})`;
     flagged = true;
   }
+  if (surge) {
+    message += ` (includes +${surge.surgePct.toFixed(1)}% demand surge)`;
+  }
 
   return {
     item: matchedKey,
@@ -265,7 +403,13 @@ export function auditClaimItem(
     marketPricing: {
       unitPrice: UNIT_PRICE,
       averagePrice: AVERAGE_PRICE,
-      fmvPrice: FMV_PRICE
+      fmvPrice: FMV_PRICE,
+      sampleSize: itemData.SAMPLES,
+      ...(itemData.CONFIDENCE_INTERVAL && !pricedAt && !surge && {
+        confidenceInterval: { low: itemData.CONFIDENCE_INTERVAL[0], high: itemData.CONFIDENCE_INTERVAL[1] }
+      }),
+      ...(pricedAt && { pricedAt }),
+      ...(surge && { demandSurge: { surgePct: surge.surgePct, disclosure: surge.disclosure } })
     },
     enteredPrice: Math.round(enteredPrice * 100) / 100,
     enteredQty: Math.round(enteredQty * 100) / 100,
@@ -283,12 +427,19 @@ export function auditClaimItem(
  * Batch audit entire claim (multiple items)
  */
 export function auditBatch(
-  items: Array<{ name: string; price: number; qty: number }>
+  items: Array<{ name: string; price: number; qty: number }>,
+  options: AuditOptions = {}
 ): BatchAuditResult {
   const results = items.map(item => 
-    auditClaimItem(item.name, item.price, item.qty)
+    auditClaimItem(item.name, item.price, item.qty, options)
   );
-  
+  return summarizeAuditResults(results);
+}
+
+/**
+ * Claim totals and status counts for a set of audited items
+ */
+export function summarizeAuditResults(results: AuditResult[]): BatchAuditResult {
   const lowItems = results.filter(r => r.status === 'LOW');
   const fmvItems = results.filter(r => r.status === 'FMV');
   const flaggedItems = results.filter(r => r.flagged);
@@ -386,6 +537,13 @@ export function auditClaimItemLegacy(itemName: string, userPrice: number): Price
   };
 }
 
+/**
+ * priceDB key an item name resolves to, if any
+ */
+export function matchItemName(itemName: string): string | undefined {
+  return fuzzyMatch(itemName);
+}
+
 export function getMarketData(itemName: string): PriceDBItem | undefined {
   const matchedKey = fuzzyMatch(itemName);
   if (!matchedKey) return undefined;
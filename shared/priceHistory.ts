@@ -0,0 +1,148 @@
+/**
+ * Line Item Price History
+ *
+ * priceDB only carries the current P10/P50/P90 of each item. Monthly
+ * snapshots of that range (per region) are stored as they are taken; months
+ * without a snapshot are filled by moving the nearest known range along the
+ * item's material index. This lets an audit price an item at the loss date
+ * instead of today, and gives the admin pricing view a trend line.
+ */
+
+import {
+  escalationFactor,
+  monthKey,
+  type IndexSeries,
+  type MaterialIndexKey,
+} from './priceIndices';
+
+export type PriceHistoryBasis = 'snapshot' | 'indexed';
+
+export interface PriceHistoryPoint {
+  period: string;  // YYYY-MM
+  p10: number;
+  p50: number;
+  p90: number;
+  sampleSize?: number;
+  basis: PriceHistoryBasis;
+}
+
+export interface PriceRange {
+  p10: number;
+  p50: number;
+  p90: number;
+  asOf: Date | string;
+}
+
+export interface PriceRangeAtDate {
+  period: string;
+  p10: number;
+  p50: number;
+  p90: number;
+  factor: number;         // Relative to the range it was derived from
+  basis: PriceHistoryBasis;
+  anchorPeriod: string;   // Month of the snapshot or current range it was derived from
+}
+
+interface HistoryOptions {
+  series?: Partial<Record<MaterialIndexKey, IndexSeries>>;
+  materialShare?: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function monthNumber(period: string): number {
+  const [year, month] = period.split('-').map(Number);
+  return year * 12 + (month - 1);
+}
+
+function periodFromNumber(value: number): string {
+  return `${Math.floor(value / 12)}-${String((value % 12) + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Range an item would have had at a date: the snapshot for that month when
+ * there is one, otherwise the nearest snapshot (or the current range) moved
+ * along the material index
+ */
+export function priceRangeAt(
+  current: PriceRange,
+  date: Date | string,
+  index: MaterialIndexKey,
+  options: HistoryOptions & { history?: PriceHistoryPoint[] } = {}
+): PriceRangeAtDate {
+  const period = monthKey(date);
+  const target = monthNumber(period);
+  const snapshots = (options.history ?? []).filter(point => point.basis === 'snapshot');
+
+  const exact = snapshots.find(point => point.period === period);
+  if (exact) {
+    return {
+      period,
+      p10: exact.p10,
+      p50: exact.p50,
+      p90: exact.p90,
+      factor: current.p50 > 0 ? Math.round((exact.p50 / current.p50) * 10000) / 10000 : 1,
+      basis: 'snapshot',
+      anchorPeriod: exact.period,
+    };
+  }
+
+  // The current range counts as the newest snapshot
+  const anchors = [...snapshots, { ...current, period: monthKey(current.asOf) }];
+  const anchor = anchors.reduce((best, point) =>
+    Math.abs(monthNumber(point.period) - target) < Math.abs(monthNumber(best.period) - target) ? point : best);
+  const factor = escalationFactor(index, anchor.period, period, options);
+
+  return {
+    period,
+    p10: round(anchor.p10 * factor),
+    p50: round(anchor.p50 * factor),
+    p90: round(anchor.p90 * factor),
+    factor,
+    basis: 'indexed',
+    anchorPeriod: anchor.period,
+  };
+}
+
+/**
+ * Monthly series for the `months` months ending at `now`, using snapshots
+ * where they exist and indexed estimates in between
+ */
+export function buildPriceHistory(
+  current: PriceRange,
+  index: MaterialIndexKey,
+  options: HistoryOptions & { history?: PriceHistoryPoint[]; months?: number; now?: Date } = {}
+): PriceHistoryPoint[] {
+  const { months = 24, now = new Date(), ...rangeOptions } = options;
+  const end = monthNumber(monthKey(now));
+
+  return Array.from({ length: months }, (_, i) => {
+    const range = priceRangeAt(current, periodFromNumber(end - months + 1 + i), index, rangeOptions);
+    const snapshot = range.basis === 'snapshot'
+      ? rangeOptions.history?.find(point => point.period === range.period)
+      : undefined;
+    return {
+      period: range.period,
+      p10: range.p10,
+      p50: range.p50,
+      p90: range.p90,
+      ...(snapshot?.sampleSize !== undefined && { sampleSize: snapshot.sampleSize }),
+      basis: range.basis,
+    };
+  });
+}
+
+/**
+ * Percent change of the midpoint over a series; null with fewer than two points
+ */
+export function priceTrend(history: PriceHistoryPoint[]): { from: string; to: string; changePct: number } | null {
+  if (history.length < 2) return null;
+  const first = history[0];
+  const last = history[history.length - 1];
+  if (!(first.p50 > 0)) return null;
+  return {
+    from: first.period,
+    to: last.period,
+    changePct: Math.round(((last.p50 - first.p50) / first.p50) * 1000) / 10,
+  };
+}
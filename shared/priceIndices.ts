@@ -0,0 +1,140 @@
+/**
+ * Material Price Indices
+ *
+ * Construction prices don't move together: lumber spiked in 2021, asphalt
+ * shingles climbed steadily through 2023, and copper follows the metals
+ * market. Each line item is tied to the producer price index of its main
+ * material so an estimate can be moved between dates:
+ *
+ *   factor = share x material(to) / material(from)
+ *          + (1 - share) x construction(to) / construction(from)
+ *
+ * The built-in series are approximate annual averages of the BLS producer
+ * price indices below, rebased to 2019 = 100. The server appends live BLS
+ * observations when the API is reachable. Shared with the browser audit, so
+ * no server dependencies.
+ */
+
+import { resolveLineItem, type CatalogTrade } from './lineItemCatalog';
+
+export type MaterialIndexKey = 'lumber' | 'asphalt' | 'copper' | 'construction';
+
+export interface IndexObservation {
+  period: string;  // YYYY-MM
+  value: number;
+}
+
+export type IndexSeries = IndexObservation[];
+
+export const MATERIAL_INDICES: Record<MaterialIndexKey, { label: string; blsSeriesId: string }> = {
+  lumber: { label: 'Lumber', blsSeriesId: 'WPU081' },
+  asphalt: { label: 'Asphalt shingles & roofing', blsSeriesId: 'PCU324122324122' },
+  copper: { label: 'Copper wire & tubing', blsSeriesId: 'PCU331420331420' },
+  construction: { label: 'Roofing & construction contractors', blsSeriesId: 'PCU238160238160' },
+};
+
+const annual = (values: Record<number, number>): IndexSeries =>
+  Object.entries(values).map(([year, value]) => ({ period: `${year}-07`, value }));
+
+export const DEFAULT_INDEX_SERIES: Record<MaterialIndexKey, IndexSeries> = {
+  lumber: annual({ 2018: 104, 2019: 100, 2020: 116, 2021: 172, 2022: 158, 2023: 121, 2024: 114, 2025: 118 }),
+  asphalt: annual({ 2018: 97, 2019: 100, 2020: 102, 2021: 113, 2022: 131, 2023: 139, 2024: 142, 2025: 145 }),
+  copper: annual({ 2018: 104, 2019: 100, 2020: 102, 2021: 139, 2022: 143, 2023: 137, 2024: 147, 2025: 158 }),
+  construction: annual({ 2018: 97, 2019: 100, 2020: 102, 2021: 111, 2022: 124, 2023: 130, 2024: 133, 2025: 136 }),
+};
+
+// Share of an installed price that tracks the material index; the rest is labor and overhead
+export const DEFAULT_MATERIAL_SHARE = 0.4;
+
+const TRADE_INDEX: Partial<Record<CatalogTrade, MaterialIndexKey>> = {
+  roofing: 'asphalt',
+  framing: 'lumber',
+  fencing: 'lumber',
+  trim: 'lumber',
+  doors: 'lumber',
+  cabinets: 'lumber',
+  plumbing: 'copper',
+  electrical: 'copper',
+  hvac: 'copper',
+};
+
+/**
+ * YYYY-MM of a date (UTC)
+ */
+export function monthKey(date: Date | string): string {
+  const d = typeof date === 'string' && /^\d{4}-\d{2}$/.test(date) ? new Date(`${date}-01T00:00:00Z`) : new Date(date);
+  return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+function monthNumber(period: string): number {
+  const [year, month] = period.split('-').map(Number);
+  return year * 12 + (month - 1);
+}
+
+/**
+ * Index value at a date, linear between observations and held flat past
+ * either end (no speculative extrapolation)
+ */
+export function indexValueAt(series: IndexSeries, date: Date | string): number {
+  if (series.length === 0) return NaN;
+  const sorted = [...series].sort((a, b) => monthNumber(a.period) - monthNumber(b.period));
+  const target = monthNumber(monthKey(date));
+
+  if (target <= monthNumber(sorted[0].period)) return sorted[0].value;
+  const last = sorted[sorted.length - 1];
+  if (target >= monthNumber(last.period)) return last.value;
+
+  const upper = sorted.findIndex(point => monthNumber(point.period) >= target);
+  const lo = sorted[upper - 1];
+  const hi = sorted[upper];
+  const t = (target - monthNumber(lo.period)) / (monthNumber(hi.period) - monthNumber(lo.period));
+  return lo.value + t * (hi.value - lo.value);
+}
+
+/**
+ * Merge live observations (any base) into a series, rescaled so the first
+ * live point lines up with the existing series at that month
+ */
+export function appendIndexObservations(series: IndexSeries, observations: IndexSeries): IndexSeries {
+  const usable = observations.filter(point => Number.isFinite(point.value) && point.value > 0);
+  if (usable.length === 0 || series.length === 0) return series.length > 0 ? series : usable;
+
+  const sorted = [...usable].sort((a, b) => monthNumber(a.period) - monthNumber(b.period));
+  const scale = indexValueAt(series, sorted[0].period) / sorted[0].value;
+  const live = new Map(sorted.map(point => [point.period, Math.round(point.value * scale * 100) / 100]));
+
+  return [
+    ...series.filter(point => monthNumber(point.period) < monthNumber(sorted[0].period)),
+    ...Array.from(live, ([period, value]) => ({ period, value })),
+  ];
+}
+
+/**
+ * Material index a line item tracks, from its catalog trade
+ */
+export function materialIndexFor(description: string, category?: string): MaterialIndexKey {
+  const trade = resolveLineItem(description, { category })?.entry.trade;
+  return (trade && TRADE_INDEX[trade]) || 'construction';
+}
+
+/**
+ * Multiplier that moves a price from one date to another
+ */
+export function escalationFactor(
+  index: MaterialIndexKey,
+  from: Date | string,
+  to: Date | string,
+  options: { series?: Partial<Record<MaterialIndexKey, IndexSeries>>; materialShare?: number } = {}
+): number {
+  const { series = {}, materialShare = DEFAULT_MATERIAL_SHARE } = options;
+  const ratio = (key: MaterialIndexKey) => {
+    const values = series[key] ?? DEFAULT_INDEX_SERIES[key];
+    const start = indexValueAt(values, from);
+    const end = indexValueAt(values, to);
+    return start > 0 && end > 0 ? end / start : 1;
+  };
+
+  const share = index === 'construction' ? 1 : Math.min(1, Math.max(0, materialShare));
+  const factor = share * ratio(index) + (1 - share) * ratio('construction');
+  return Math.round(factor * 10000) / 10000;
+}
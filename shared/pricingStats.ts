@@ -0,0 +1,257 @@
+/**
+ * Pricing Statistics Engine
+ *
+ * Robust fair market value estimates from crowdsourced price observations.
+ * A single typo or outlier must not move FMV, so prices are summarized with
+ * weighted percentiles (P10/P50/P90) after outlier rejection instead of a
+ * raw min/max:
+ *
+ * 1. Outliers are rejected by median absolute deviation (modified z-score
+ *    over 3.5) or Tukey's IQR fences once there are enough points
+ * 2. Each remaining point is weighted by age (exponential half-life decay)
+ * 3. Percentiles, a 10% trimmed mean and a 95% confidence interval for the
+ *    median are taken from the weighted sample
+ * 4. Thin local samples are shrunk toward broader levels (ZIP prefix ->
+ *    state -> national) in proportion to their effective sample size
+ *
+ * Shared between the browser audit (priceAudit) and the server pricing
+ * services, so it has no server dependencies.
+ */
+
+export type OutlierMethod = 'mad' | 'iqr' | 'none';
+
+export type PriceScope = 'zip_prefix' | 'state' | 'national';
+
+export interface PricePoint {
+  price: number;
+  observedAt?: Date | string | null;
+  weight?: number;  // Extra weight on top of time decay (default 1)
+}
+
+export interface PriceStatsOptions {
+  outlierMethod?: OutlierMethod;
+  halfLifeDays?: number;  // Age at which a point counts half
+  trim?: number;          // Fraction trimmed from each tail for the trimmed mean
+  now?: Date;
+}
+
+export interface PriceStatistics {
+  sampleSize: number;           // Points kept after outlier rejection
+  rejectedCount: number;
+  effectiveSampleSize: number;  // Kish effective n of the decay weights
+  p10: number;
+  p50: number;
+  p90: number;
+  trimmedMean: number;
+  confidenceInterval: { low: number; high: number };  // 95% CI of the median
+}
+
+export interface ScopedPriceStatistics extends PriceStatistics {
+  scope: PriceScope;     // Narrowest level that had data
+  credibility: number;   // 0-1, credibility of the best-supported level
+  levels: Array<{ scope: PriceScope; sampleSize: number; effectiveSampleSize: number; credibility: number }>;
+}
+
+export const DEFAULT_HALF_LIFE_DAYS = 365;
+export const DEFAULT_PRIOR_STRENGTH = 10;  // Effective samples at which a level gets 50% credibility
+const MIN_POINTS_FOR_OUTLIERS = 4;
+const MAD_Z_THRESHOLD = 3.5;
+const IQR_FENCE = 1.5;
+const Z_95 = 1.96;
+const MS_PER_DAY = 86400000;
+
+function round(value: number, places: number = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function medianAbsoluteDeviation(values: number[]): number {
+  const center = median(values);
+  return median(values.map(value => Math.abs(value - center)));
+}
+
+/**
+ * Weighted quantile (0-1) with linear interpolation between weighted midpoints
+ */
+export function weightedQuantile(values: number[], weights: number[], q: number): number {
+  const pairs = values.map((value, i) => ({ value, weight: weights[i] ?? 1 }))
+    .filter(pair => pair.weight > 0)
+    .sort((a, b) => a.value - b.value);
+  if (pairs.length === 0) return NaN;
+  if (pairs.length === 1) return pairs[0].value;
+
+  const total = pairs.reduce((sum, pair) => sum + pair.weight, 0);
+  let cumulative = 0;
+  const positions = pairs.map(pair => {
+    const position = (cumulative + pair.weight / 2) / total;
+    cumulative += pair.weight;
+    return position;
+  });
+
+  if (q <= positions[0]) return pairs[0].value;
+  if (q >= positions[positions.length - 1]) return pairs[pairs.length - 1].value;
+  const upper = positions.findIndex(position => position >= q);
+  const span = positions[upper] - positions[upper - 1];
+  const t = span > 0 ? (q - positions[upper - 1]) / span : 0;
+  return pairs[upper - 1].value + t * (pairs[upper].value - pairs[upper - 1].value);
+}
+
+/**
+ * Indexes of the values to keep; small samples are kept whole
+ */
+export function rejectOutliers(values: number[], method: OutlierMethod = 'mad'): number[] {
+  const all = values.map((_, i) => i);
+  if (method === 'none' || values.length < MIN_POINTS_FOR_OUTLIERS) return all;
+
+  if (method === 'iqr') {
+    const weights = values.map(() => 1);
+    const q1 = weightedQuantile(values, weights, 0.25);
+    const q3 = weightedQuantile(values, weights, 0.75);
+    const fence = (q3 - q1) * IQR_FENCE;
+    return all.filter(i => values[i] >= q1 - fence && values[i] <= q3 + fence);
+  }
+
+  const center = median(values);
+  const mad = medianAbsoluteDeviation(values);
+  if (mad === 0) {
+    // Most points agree exactly; anything off by more than half the agreed price is an outlier
+    return all.filter(i => Math.abs(values[i] - center) <= Math.abs(center) * 0.5);
+  }
+  return all.filter(i => (0.6745 * Math.abs(values[i] - center)) / mad <= MAD_Z_THRESHOLD);
+}
+
+/**
+ * Weight of a point observed `ageDays` ago
+ */
+export function timeDecayWeight(ageDays: number, halfLifeDays: number = DEFAULT_HALF_LIFE_DAYS): number {
+  if (!Number.isFinite(ageDays) || ageDays <= 0) return 1;
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+function medianInterval(p50: number, spread: number, effectiveSampleSize: number): { low: number; high: number } {
+  // Standard error of the median is ~1.2533 sigma / sqrt(n)
+  const halfWidth = effectiveSampleSize > 0 ? (Z_95 * 1.2533 * spread) / Math.sqrt(effectiveSampleSize) : 0;
+  return { low: round(Math.max(0, p50 - halfWidth)), high: round(p50 + halfWidth) };
+}
+
+/**
+ * Robust statistics for a set of price observations; null when no usable point remains
+ */
+export function computePriceStatistics(points: PricePoint[], options: PriceStatsOptions = {}): PriceStatistics | null {
+  const { outlierMethod = 'mad', halfLifeDays = DEFAULT_HALF_LIFE_DAYS, trim = 0.1, now = new Date() } = options;
+  const usable = points.filter(point => Number.isFinite(point.price) && point.price > 0);
+  if (usable.length === 0) return null;
+
+  const kept = rejectOutliers(usable.map(point => point.price), outlierMethod).map(i => usable[i]);
+  const values = kept.map(point => point.price);
+  const weights = kept.map(point => {
+    const observedAt = point.observedAt ? new Date(point.observedAt) : null;
+    const ageDays = observedAt && !isNaN(observedAt.getTime()) ? (now.getTime() - observedAt.getTime()) / MS_PER_DAY : 0;
+    return timeDecayWeight(ageDays, halfLifeDays) * (point.weight ?? 1);
+  });
+
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const effectiveSampleSize = totalWeight > 0 ? totalWeight ** 2 / weights.reduce((sum, weight) => sum + weight ** 2, 0) : 0;
+
+  const p10 = weightedQuantile(values, weights, 0.1);
+  const p50 = weightedQuantile(values, weights, 0.5);
+  const p90 = weightedQuantile(values, weights, 0.9);
+
+  // Weighted mean of the points whose midpoint falls inside the trimmed band
+  const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+  let cumulative = 0;
+  let trimmedWeight = 0;
+  let trimmedSum = 0;
+  for (const i of order) {
+    const position = (cumulative + weights[i] / 2) / totalWeight;
+    cumulative += weights[i];
+    if (position >= trim && position <= 1 - trim) {
+      trimmedWeight += weights[i];
+      trimmedSum += values[i] * weights[i];
+    }
+  }
+
+  // Robust sigma from the MAD, falling back to the P10-P90 spread
+  const spread = 1.4826 * medianAbsoluteDeviation(values) || (p90 - p10) / 2.563;
+
+  return {
+    sampleSize: kept.length,
+    rejectedCount: usable.length - kept.length,
+    effectiveSampleSize: round(effectiveSampleSize),
+    p10: round(p10),
+    p50: round(p50),
+    p90: round(p90),
+    trimmedMean: round(trimmedWeight > 0 ? trimmedSum / trimmedWeight : p50),
+    confidenceInterval: medianInterval(p50, spread, effectiveSampleSize),
+  };
+}
+
+/**
+ * Stand-in observations for a reference price range that only records its
+ * P10/P50/P90 and sample count, so new prices are judged against it
+ */
+export function pointsFromRange(
+  p10: number,
+  p50: number,
+  p90: number,
+  samples: number,
+  observedAt?: Date | string | null
+): PricePoint[] {
+  const count = Math.max(1, Math.round(samples));
+  return Array.from({ length: count }, (_, i) => {
+    const q = (i + 0.5) / count;
+    const price = q <= 0.5 ? p10 + ((q - 0.1) / 0.4) * (p50 - p10) : p50 + ((q - 0.5) / 0.4) * (p90 - p50);
+    return { price: Math.max(0.01, round(price, 4)), observedAt };
+  });
+}
+
+/**
+ * Credibility-weighted blend of nested levels, ordered broadest first; each
+ * narrower level pulls the estimate toward itself by n / (n + priorStrength)
+ */
+export function shrinkPriceStatistics(
+  levels: Array<{ scope: PriceScope; stats: PriceStatistics | null }>,
+  priorStrength: number = DEFAULT_PRIOR_STRENGTH
+): ScopedPriceStatistics | null {
+  const available = levels.filter((level): level is { scope: PriceScope; stats: PriceStatistics } => !!level.stats);
+  if (available.length === 0) return null;
+
+  const credibilityOf = (stats: PriceStatistics) => stats.effectiveSampleSize / (stats.effectiveSampleSize + priorStrength);
+  const blend = (parent: number, local: number, z: number) => round(z * local + (1 - z) * parent);
+
+  let estimate: PriceStatistics = available[0].stats;
+  for (const { stats } of available.slice(1)) {
+    const z = credibilityOf(stats);
+    estimate = {
+      ...stats,
+      p10: blend(estimate.p10, stats.p10, z),
+      p50: blend(estimate.p50, stats.p50, z),
+      p90: blend(estimate.p90, stats.p90, z),
+      trimmedMean: blend(estimate.trimmedMean, stats.trimmedMean, z),
+      confidenceInterval: {
+        low: blend(estimate.confidenceInterval.low, stats.confidenceInterval.low, z),
+        high: blend(estimate.confidenceInterval.high, stats.confidenceInterval.high, z),
+      },
+    };
+  }
+
+  const levelSummaries = available.map(({ scope, stats }) => ({
+    scope,
+    sampleSize: stats.sampleSize,
+    effectiveSampleSize: stats.effectiveSampleSize,
+    credibility: round(credibilityOf(stats), 3),
+  }));
+
+  return {
+    ...estimate,
+    scope: available[available.length - 1].scope,
+    credibility: Math.max(...levelSummaries.map(level => level.credibility)),
+    levels: levelSummaries,
+  };
+}
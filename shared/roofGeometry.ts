@@ -0,0 +1,323 @@
+/**
+ * Roof Geometry Calculator
+ *
+ * Turns facet dimensions (or a total footprint) plus pitch and the
+ * ridge/hip/valley/eave/rake lengths into roofing quantities: surface
+ * squares with the pitch factor applied, suggested waste by complexity and
+ * the starter / ridge cap / drip edge linear footage. generateRoofLineItems()
+ * produces catalog-coded line items for the claim wizard, and
+ * compareRoofQuantities() flags carrier lines that are under-measured.
+ *
+ * Facet dimensions are plan (horizontal) measurements unless the facet is
+ * marked measuredOnSlope, e.g. from a tape measure on the roof itself.
+ */
+
+import { getCatalogEntry, resolveLineItem } from './lineItemCatalog';
+import { getPriceDB } from './priceAudit';
+
+export type FacetShape = 'rectangle' | 'triangle' | 'trapezoid';
+
+export type RoofComplexity = 'simple' | 'moderate' | 'complex';
+
+export type ShingleType = 'laminated' | '3-tab';
+
+export interface RoofFacet {
+  name?: string;
+  shape?: FacetShape;
+  length: number;            // Base length in feet (eave side for triangles/trapezoids)
+  width: number;             // Depth in feet (eave to ridge)
+  topLength?: number;        // Ridge-side length for trapezoids
+  pitch?: string | number;   // Overrides the roof pitch for this facet
+  measuredOnSlope?: boolean;
+}
+
+export interface RoofLinearMeasurements {
+  ridge?: number;
+  hip?: number;
+  valley?: number;
+  eave?: number;
+  rake?: number;
+  stepFlashing?: number;
+}
+
+export interface RoofGeometryInput {
+  pitch: string | number;    // "6/12" or rise per 12" of run
+  facets?: RoofFacet[];
+  footprintSqFt?: number;    // Plan area including overhangs, used when no facets are given
+  lengths?: RoofLinearMeasurements;
+  stories?: number;
+  layers?: number;           // Existing shingle layers to tear off
+  shingleType?: ShingleType;
+  iceBarrierAtEaves?: boolean;
+  wastePct?: number;         // Overrides the suggested waste
+}
+
+export interface RoofGeometry {
+  pitchRise: number;
+  pitchFactor: number;
+  facetCount: number;
+  surfaceAreaSqFt: number;
+  squares: number;
+  complexity: RoofComplexity;
+  suggestedWastePct: number;
+  wastePct: number;
+  squaresWithWaste: number;
+  starterLF: number;
+  ridgeCapLF: number;
+  dripEdgeLF: number;
+  valleyLF: number;
+  stepFlashingLF: number;
+  iceBarrierSquares: number;
+  steep: boolean;
+  highRoof: boolean;
+  layers: number;
+  shingleType: ShingleType;
+}
+
+export interface RoofLineItem {
+  code: string;
+  category: 'Roofing';
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+}
+
+export interface RoofQuantityCheck {
+  code: string;
+  description: string;
+  unit: string;
+  measuredQuantity: number;
+  claimedQuantity: number;
+  shortfall: number;
+  shortfallPct: number;
+  underMeasured: boolean;
+}
+
+// Suggested waste by complexity (NRCA / manufacturer guidance: gable 10%, hip 15%, cut-up 20%)
+const WASTE_BY_COMPLEXITY: Record<RoofComplexity, number> = {
+  simple: 10,
+  moderate: 15,
+  complex: 20,
+};
+
+// Steep charges start at 7/12 in Xactimate-style estimates
+const STEEP_PITCH_RISE = 7;
+
+// Self-adhered barrier is 36" wide; eaves get two courses to reach 24" inside the wall line
+const VALLEY_BARRIER_WIDTH_FT = 3;
+const EAVE_BARRIER_WIDTH_FT = 6;
+
+// Lines the carrier may have priced under a sibling code
+const COMPARABLE_CODES: Record<string, string[]> = {
+  'RFG 300S': ['RFG 300S', 'RFG 240'],
+  'RFG 240': ['RFG 240', 'RFG 300S'],
+  'RFG ARMVL': ['RFG ARMVL', 'RFG ARMV'],
+  'RFG ARMV': ['RFG ARMV', 'RFG ARMVL'],
+  'RFG FELT': ['RFG FELT', 'RFG SYNF'],
+  'RFG RIDGC': ['RFG RIDGC'],
+};
+
+const DEFAULT_UNDER_MEASURE_TOLERANCE_PCT = 5;
+
+function round(value: number, places: number = 2): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+// Shingles are bought by the bundle (3 per square), so round up to the nearest third
+function roundUpToBundle(squares: number): number {
+  return round(Math.ceil(squares * 3 - 1e-9) / 3);
+}
+
+/**
+ * Rise per 12" of run from "6/12", "6:12", "6 in 12" or a bare number
+ */
+export function parsePitch(pitch: string | number): number {
+  if (typeof pitch === 'number') {
+    if (!Number.isFinite(pitch) || pitch < 0) throw new Error(`Invalid roof pitch: ${pitch}`);
+    return pitch;
+  }
+
+  const match = pitch.trim().match(/^(\d+(?:\.\d+)?)\s*(?:\/|:|\s+in\s+)?\s*(\d+(?:\.\d+)?)?$/i);
+  if (!match) throw new Error(`Invalid roof pitch: ${pitch}`);
+
+  const rise = parseFloat(match[1]);
+  const run = match[2] ? parseFloat(match[2]) : 12;
+  if (run <= 0) throw new Error(`Invalid roof pitch: ${pitch}`);
+  return (rise / run) * 12;
+}
+
+/**
+ * Multiplier from plan area to sloped surface area
+ */
+export function getPitchFactor(rise: number): number {
+  return Math.sqrt(1 + Math.pow(rise / 12, 2));
+}
+
+function facetPlanArea(facet: RoofFacet): number {
+  if (facet.length < 0 || facet.width < 0) {
+    throw new Error(`Facet dimensions must be positive${facet.name ? ` (${facet.name})` : ''}`);
+  }
+  switch (facet.shape) {
+    case 'triangle':
+      return 0.5 * facet.length * facet.width;
+    case 'trapezoid':
+      return ((facet.length + (facet.topLength ?? 0)) / 2) * facet.width;
+    default:
+      return facet.length * facet.width;
+  }
+}
+
+export function classifyRoofComplexity(facetCount: number, lengths: RoofLinearMeasurements = {}): RoofComplexity {
+  const hasHips = (lengths.hip ?? 0) > 0;
+  const hasValleys = (lengths.valley ?? 0) > 0;
+
+  if (facetCount > 8 || (hasHips && hasValleys)) return 'complex';
+  if (facetCount > 4 || hasHips || hasValleys) return 'moderate';
+  return 'simple';
+}
+
+/**
+ * Compute surface area, squares, waste and linear footage for a roof
+ */
+export function computeRoofGeometry(input: RoofGeometryInput): RoofGeometry {
+  const pitchRise = parsePitch(input.pitch);
+  const pitchFactor = getPitchFactor(pitchRise);
+  const facets = input.facets ?? [];
+  const lengths = input.lengths ?? {};
+
+  let surfaceAreaSqFt: number;
+  if (facets.length > 0) {
+    surfaceAreaSqFt = facets.reduce((sum, facet) => {
+      const area = facetPlanArea(facet);
+      if (facet.measuredOnSlope) return sum + area;
+      const factor = facet.pitch !== undefined ? getPitchFactor(parsePitch(facet.pitch)) : pitchFactor;
+      return sum + area * factor;
+    }, 0);
+  } else if (input.footprintSqFt && input.footprintSqFt > 0) {
+    surfaceAreaSqFt = input.footprintSqFt * pitchFactor;
+  } else {
+    throw new Error('Provide roof facets or a footprint area');
+  }
+
+  for (const [name, value] of Object.entries(lengths)) {
+    if (value !== undefined && value < 0) throw new Error(`${name} length must be positive`);
+  }
+
+  const complexity = classifyRoofComplexity(facets.length, lengths);
+  const suggestedWastePct = WASTE_BY_COMPLEXITY[complexity];
+  const wastePct = input.wastePct ?? suggestedWastePct;
+  const squares = surfaceAreaSqFt / 100;
+
+  const eave = lengths.eave ?? 0;
+  const rake = lengths.rake ?? 0;
+  const valley = lengths.valley ?? 0;
+  const iceBarrierSqFt = valley * VALLEY_BARRIER_WIDTH_FT
+    + (input.iceBarrierAtEaves ? eave * EAVE_BARRIER_WIDTH_FT : 0);
+
+  return {
+    pitchRise: round(pitchRise),
+    pitchFactor: round(pitchFactor, 4),
+    facetCount: facets.length,
+    surfaceAreaSqFt: round(surfaceAreaSqFt),
+    squares: round(squares),
+    complexity,
+    suggestedWastePct,
+    wastePct,
+    squaresWithWaste: roundUpToBundle(squares * (1 + wastePct / 100)),
+    starterLF: Math.ceil(eave + rake),
+    ridgeCapLF: Math.ceil((lengths.ridge ?? 0) + (lengths.hip ?? 0)),
+    dripEdgeLF: Math.ceil(eave + rake),
+    valleyLF: Math.ceil(valley),
+    stepFlashingLF: Math.ceil(lengths.stepFlashing ?? 0),
+    iceBarrierSquares: roundUpToBundle(iceBarrierSqFt / 100),
+    steep: pitchRise >= STEEP_PITCH_RISE,
+    highRoof: (input.stories ?? 1) >= 2,
+    layers: Math.max(1, Math.floor(input.layers ?? 1)),
+    shingleType: input.shingleType ?? 'laminated',
+  };
+}
+
+function catalogLine(code: string, quantity: number): RoofLineItem | null {
+  const entry = getCatalogEntry(code);
+  if (!entry || quantity <= 0) return null;
+
+  const priceDB = getPriceDB();
+  const priceKey = entry.priceDbKeys.find(key => priceDB[key]);
+
+  return {
+    code,
+    category: 'Roofing',
+    description: entry.description,
+    quantity,
+    unit: entry.unit,
+    unitPrice: priceKey ? priceDB[priceKey].FMV_PRICE : 0,
+  };
+}
+
+/**
+ * Catalog line items for a full replacement of the measured roof. Unit prices
+ * are pre-filled from the market price DB where available (0 otherwise).
+ */
+export function generateRoofLineItems(geometry: RoofGeometry): RoofLineItem[] {
+  const laminated = geometry.shingleType === 'laminated';
+  const squares = roundUpToBundle(geometry.squares);
+
+  const lines = [
+    catalogLine(laminated ? 'RFG ARMVL' : 'RFG ARMV', squares),
+    catalogLine('RFG ADDL', geometry.layers > 1 ? squares * (geometry.layers - 1) : 0),
+    catalogLine(laminated ? 'RFG 300S' : 'RFG 240', geometry.squaresWithWaste),
+    catalogLine('RFG FELT', squares),
+    catalogLine('RFG IWS', geometry.iceBarrierSquares),
+    catalogLine('RFG STRT', geometry.starterLF),
+    catalogLine('RFG DRIP', geometry.dripEdgeLF),
+    catalogLine('RFG RIDGC', geometry.ridgeCapLF),
+    catalogLine('RFG VALM', geometry.valleyLF),
+    catalogLine('RFG STEP', geometry.stepFlashingLF),
+    catalogLine('RFG STEEP', geometry.steep ? squares : 0),
+    catalogLine('RFG HIGH', geometry.highRoof ? squares : 0),
+  ];
+
+  return lines.filter((line): line is RoofLineItem => line !== null);
+}
+
+/**
+ * Compare measured quantities against the carrier's lines. A line is
+ * under-measured when the claimed quantity falls short by more than the
+ * tolerance (lines missing from the claim entirely count as claimed 0).
+ */
+export function compareRoofQuantities(
+  measured: RoofLineItem[],
+  claimItems: Array<{ description: string; quantity: number; unit?: string; category?: string }>,
+  tolerancePct: number = DEFAULT_UNDER_MEASURE_TOLERANCE_PCT
+): RoofQuantityCheck[] {
+  const resolvedClaim = claimItems.map(item => ({
+    item,
+    code: resolveLineItem(item.description, { category: item.category, unit: item.unit })?.code,
+  }));
+
+  return measured.map(line => {
+    const codes = COMPARABLE_CODES[line.code] ?? [line.code];
+    const claimedQuantity = resolvedClaim
+      .filter(c => c.code && codes.includes(c.code))
+      .reduce((sum, c) => {
+        const quantity = c.item.quantity || 0;
+        return sum + (line.unit === 'SQ' && c.item.unit?.toUpperCase() === 'SF' ? quantity / 100 : quantity);
+      }, 0);
+
+    const shortfall = Math.max(0, line.quantity - claimedQuantity);
+    const shortfallPct = line.quantity > 0 ? (shortfall / line.quantity) * 100 : 0;
+
+    return {
+      code: line.code,
+      description: line.description,
+      unit: line.unit,
+      measuredQuantity: line.quantity,
+      claimedQuantity: round(claimedQuantity),
+      shortfall: round(shortfall),
+      shortfallPct: round(shortfallPct, 1),
+      underMeasured: shortfallPct > tolerancePct,
+    };
+  });
+}
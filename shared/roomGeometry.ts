@@ -0,0 +1,229 @@
+/**
+ * Room Scope Builder
+ *
+ * Turns room dimensions (length, width, ceiling height) and the affected
+ * surfaces into interior quantities the way estimates are written: floor
+ * and ceiling SF, wall SF net of doors and windows, and baseboard LF from
+ * the perimeter less door openings. generateRoomLineItems() produces
+ * catalog-coded line items tagged with the room name so the audit and
+ * report can present them grouped by room.
+ */
+
+import { getCatalogEntry } from './lineItemCatalog';
+import { getPriceDB } from './priceAudit';
+
+export type OpeningType = 'door' | 'window' | 'opening';
+
+export type FloorCovering = 'carpet' | 'vinyl' | 'laminate' | 'hardwood' | 'tile';
+
+export type SurfaceTreatment = 'paint' | 'replace';
+
+export interface RoomOpening {
+  type: OpeningType;
+  width: number;             // Feet
+  height: number;            // Feet
+  count?: number;
+}
+
+export interface RoomSurfaces {
+  floor?: FloorCovering;     // Remove and replace this floor covering
+  walls?: SurfaceTreatment;
+  ceiling?: SurfaceTreatment;
+}
+
+export interface RoomInput {
+  name: string;
+  length: number;            // Feet
+  width: number;             // Feet
+  ceilingHeight: number;     // Feet
+  openings?: RoomOpening[];
+  surfaces: RoomSurfaces;
+}
+
+export interface RoomMeasurements {
+  floorSqFt: number;
+  ceilingSqFt: number;
+  perimeterLF: number;
+  grossWallSqFt: number;
+  openingSqFt: number;
+  netWallSqFt: number;
+  baseboardLF: number;
+}
+
+export interface RoomLineItem {
+  room: string;
+  code: string;
+  category: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+}
+
+export interface RoomGroup<T> {
+  room: string | null;       // null for items not assigned to a room
+  items: Array<{ item: T; index: number }>;
+}
+
+// Standard interior door (36" x 80") and window (36" x 48")
+export const DEFAULT_OPENING_SIZES: Record<OpeningType, { width: number; height: number }> = {
+  door: { width: 3, height: 6.67 },
+  window: { width: 3, height: 4 },
+  opening: { width: 4, height: 6.67 },
+};
+
+// Remove / install codes per floor covering, with cutting waste on the new material
+const FLOOR_COVERINGS: Record<FloorCovering, { remove: string; install: string[]; wastePct: number; resetBaseboard: boolean }> = {
+  carpet: { remove: 'FCC RMV', install: ['FCC CRPT', 'FCC PAD'], wastePct: 15, resetBaseboard: false },
+  vinyl: { remove: 'FCW RMV', install: ['FCV LVP'], wastePct: 10, resetBaseboard: true },
+  laminate: { remove: 'FCW RMV', install: ['FCW LAM'], wastePct: 10, resetBaseboard: true },
+  hardwood: { remove: 'FCW RMV', install: ['FCW HWD'], wastePct: 10, resetBaseboard: true },
+  tile: { remove: 'FCT RMV', install: ['FCT CER'], wastePct: 10, resetBaseboard: true },
+};
+
+// Catalog categories are interior trades; the wizard uses its own category names
+const WIZARD_CATEGORIES: Record<string, string> = {
+  DRY: 'Drywall',
+  PNT: 'Painting',
+  FCC: 'Flooring',
+  FCV: 'Flooring',
+  FCW: 'Flooring',
+  FCT: 'Flooring',
+  FNC: 'Other',
+};
+
+function round(value: number, places: number = 2): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Floor, ceiling and wall areas plus baseboard length for a rectangular room
+ */
+export function computeRoomMeasurements(room: RoomInput): RoomMeasurements {
+  if (!(room.length > 0) || !(room.width > 0) || !(room.ceilingHeight > 0)) {
+    throw new Error(`Room dimensions must be positive${room.name ? ` (${room.name})` : ''}`);
+  }
+
+  const openings = room.openings ?? [];
+  for (const opening of openings) {
+    if (opening.width < 0 || opening.height < 0 || (opening.count ?? 1) < 0) {
+      throw new Error(`Opening dimensions must be positive${room.name ? ` (${room.name})` : ''}`);
+    }
+  }
+
+  const floorSqFt = room.length * room.width;
+  const perimeterLF = 2 * (room.length + room.width);
+  const grossWallSqFt = perimeterLF * room.ceilingHeight;
+  const openingSqFt = openings.reduce((sum, o) => sum + o.width * o.height * (o.count ?? 1), 0);
+  // Baseboard runs under windows but stops at doors and open passages
+  const doorWidthLF = openings
+    .filter(o => o.type !== 'window')
+    .reduce((sum, o) => sum + o.width * (o.count ?? 1), 0);
+
+  return {
+    floorSqFt: round(floorSqFt),
+    ceilingSqFt: round(floorSqFt),
+    perimeterLF: round(perimeterLF),
+    grossWallSqFt: round(grossWallSqFt),
+    openingSqFt: round(openingSqFt),
+    netWallSqFt: round(Math.max(0, grossWallSqFt - openingSqFt)),
+    baseboardLF: round(Math.max(0, perimeterLF - doorWidthLF)),
+  };
+}
+
+function catalogLine(room: string, code: string, quantity: number): RoomLineItem | null {
+  const entry = getCatalogEntry(code);
+  if (!entry || quantity <= 0) return null;
+
+  const priceDB = getPriceDB();
+  const priceKey = entry.priceDbKeys.find(key => priceDB[key]);
+
+  return {
+    room,
+    code,
+    category: WIZARD_CATEGORIES[entry.categoryCode] ?? 'Other',
+    description: entry.description,
+    quantity,
+    unit: entry.unit,
+    unitPrice: priceKey ? priceDB[priceKey].FMV_PRICE : 0,
+  };
+}
+
+/**
+ * Catalog line items for the room's affected surfaces. Quantities are
+ * rounded up to whole SF / LF; unit prices are pre-filled from the market
+ * price DB where available (0 otherwise).
+ */
+export function generateRoomLineItems(room: RoomInput): RoomLineItem[] {
+  const m = computeRoomMeasurements(room);
+  const name = room.name.trim() || 'Room';
+  const lines: Array<RoomLineItem | null> = [];
+  const sf = (value: number) => Math.ceil(value - 1e-9);
+
+  if (room.surfaces.ceiling === 'replace') {
+    lines.push(
+      catalogLine(name, 'DRY RMV', sf(m.ceilingSqFt)),
+      catalogLine(name, 'DRY 1/2', sf(m.ceilingSqFt)),
+      catalogLine(name, 'DRY TEX', sf(m.ceilingSqFt)),
+    );
+  }
+  if (room.surfaces.ceiling) {
+    lines.push(catalogLine(name, 'PNT CEIL', sf(m.ceilingSqFt)));
+  }
+
+  const replaceWalls = room.surfaces.walls === 'replace';
+  if (replaceWalls) {
+    lines.push(
+      catalogLine(name, 'DRY RMV', sf(m.netWallSqFt)),
+      catalogLine(name, 'DRY 1/2', sf(m.netWallSqFt)),
+    );
+  }
+  if (room.surfaces.walls) {
+    lines.push(catalogLine(name, 'PNT WALL', sf(m.netWallSqFt)));
+  }
+
+  const floor = room.surfaces.floor ? FLOOR_COVERINGS[room.surfaces.floor] : null;
+  if (floor) {
+    lines.push(catalogLine(name, floor.remove, sf(m.floorSqFt)));
+    for (const code of floor.install) {
+      lines.push(catalogLine(name, code, sf(m.floorSqFt * (1 + floor.wastePct / 100))));
+    }
+  }
+
+  // New drywall takes new baseboard; hard floors need it pulled and reset
+  if (replaceWalls) {
+    lines.push(
+      catalogLine(name, 'FNC BASE', sf(m.baseboardLF)),
+      catalogLine(name, 'PNT TRIM', sf(m.baseboardLF)),
+    );
+  } else if (floor?.resetBaseboard) {
+    lines.push(catalogLine(name, 'FNC BASEDR', sf(m.baseboardLF)));
+  }
+
+  return lines.filter((line): line is RoomLineItem => line !== null);
+}
+
+/**
+ * Group items by their room tag, keeping rooms in the order they first
+ * appear. Items without a room are collected last.
+ */
+export function groupItemsByRoom<T extends { room?: string | null }>(items: T[]): RoomGroup<T>[] {
+  const groups = new Map<string, RoomGroup<T>>();
+  const unassigned: RoomGroup<T> = { room: null, items: [] };
+
+  items.forEach((item, index) => {
+    const room = item.room?.trim();
+    if (!room) {
+      unassigned.items.push({ item, index });
+      return;
+    }
+    const key = room.toLowerCase();
+    if (!groups.has(key)) groups.set(key, { room, items: [] });
+    groups.get(key)!.items.push({ item, index });
+  });
+
+  const result = Array.from(groups.values());
+  if (unassigned.items.length > 0) result.push(unassigned);
+  return result;
+}
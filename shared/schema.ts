@@ -1,5 +1,5 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, numeric, integer, timestamp, jsonb, pgEnum, char, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, numeric, integer, timestamp, jsonb, pgEnum, char, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -31,6 +31,19 @@ export const auditFlag = pgEnum("audit_flag", [
   "No data available"
 ]);
 export const auditSeverity = pgEnum("audit_severity", ["success", "warning", "error", "info"]);
+export const claimDocumentType = pgEnum("claim_document_type", ["carrier_estimate", "contractor_bid", "supplement"]);
+export const auditSnapshotSource = pgEnum("audit_snapshot_source", ["original", "reaudit"]);
+export const pricingDataStatus = pgEnum("pricing_data_status", ["pending", "accepted", "held", "rejected"]);
+export const claimLifecycleStage = pgEnum("claim_lifecycle_stage", [
+  "filed",
+  "inspected",
+  "estimate_received",
+  "supplement_sent",
+  "reinspection",
+  "paid",
+  "appraisal",
+  "litigation",
+]);
 
 // Admin Users table (legacy - for admin dashboard)
 export const users = pgTable("users", {
@@ -105,6 +118,7 @@ export const sessionEvents = pgTable("session_events", {
   sessionId: varchar("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
   eventType: eventType("event_type").notNull(),
   payload: jsonb("payload"),
+  clientEventId: varchar("client_event_id").unique(),    // Set by the offline outbox so replays are not logged twice
   occurredAt: timestamp("occurred_at", { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
   sessionEventIdx: index("session_events_session_idx").on(table.sessionId, table.occurredAt),
@@ -112,7 +126,6 @@ export const sessionEvents = pgTable("session_events", {
 
 export const insertSessionEventSchema = createInsertSchema(sessionEvents).omit({
   id: true,
-  occurredAt: true,
 });
 
 export type InsertSessionEvent = z.infer<typeof insertSessionEventSchema>;
@@ -127,6 +140,9 @@ export const claims = pgTable("claims", {
   totalFmv: numeric("total_fmv", { precision: 12, scale: 2 }).notNull().$type<number>(),
   additionalAmount: numeric("additional_amount", { precision: 12, scale: 2 }).notNull().$type<number>(),
   variancePct: numeric("variance_pct", { precision: 5, scale: 2 }).notNull().$type<number>(),
+  deductible: numeric("deductible", { precision: 12, scale: 2 }).$type<number>(),
+  recoverableDepreciation: numeric("recoverable_depreciation", { precision: 12, scale: 2 }).$type<number>(),
+  clientSubmissionId: varchar("client_submission_id").unique(), // Set by the offline outbox so replays are not saved twice
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   completedAt: timestamp("completed_at", { withTimezone: true }),
 }, (table) => ({
@@ -154,6 +170,13 @@ export const claimLineItems = pgTable("claim_line_items", {
   quotedPrice: numeric("quoted_price", { precision: 12, scale: 2 }).notNull().$type<number>(),
   fmvPrice: numeric("fmv_price", { precision: 12, scale: 2 }).notNull().$type<number>(),
   variancePct: numeric("variance_pct", { precision: 5, scale: 2 }).notNull().$type<number>(),
+  // Replacement cost / actual cash value breakdown (null when the estimate has no depreciation detail)
+  rcv: numeric("rcv", { precision: 12, scale: 2 }).$type<number>(),
+  acv: numeric("acv", { precision: 12, scale: 2 }).$type<number>(),
+  depreciationAmount: numeric("depreciation_amount", { precision: 12, scale: 2 }).$type<number>(),
+  depreciationPct: numeric("depreciation_pct", { precision: 5, scale: 2 }).$type<number>(),
+  nonRecoverableDepreciation: numeric("non_recoverable_depreciation", { precision: 12, scale: 2 }).$type<number>(),
+  room: text("room"),                                  // Room / area from the scope builder (null for ungrouped items)
   fromOcr: integer("from_ocr").default(0),
 }, (table) => ({
   claimIdx: index("claim_line_items_claim_idx").on(table.claimId),
@@ -166,6 +189,159 @@ export const insertClaimLineItemSchema = createInsertSchema(claimLineItems).omit
 export type InsertClaimLineItem = z.infer<typeof insertClaimLineItemSchema>;
 export type ClaimLineItem = typeof claimLineItems.$inferSelect;
 
+// Claim Documents - Carrier estimate, contractor bid and supplements attached to one claim
+export const claimDocuments = pgTable("claim_documents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  claimId: varchar("claim_id").notNull().references(() => claims.id, { onDelete: "cascade" }),
+  documentType: claimDocumentType("document_type").notNull(),
+  label: text("label").notNull(),
+  fileName: text("file_name"),
+  format: text("format"),                // EstimateFormat from the importer
+  sequence: integer("sequence").default(1).notNull(),  // Supplement number (1 for estimates/bids)
+  totalRcv: numeric("total_rcv", { precision: 12, scale: 2 }).$type<number>(),
+  warnings: text("warnings").array(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  claimIdx: index("claim_documents_claim_idx").on(table.claimId, table.documentType),
+}));
+
+export const insertClaimDocumentSchema = createInsertSchema(claimDocuments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertClaimDocument = z.infer<typeof insertClaimDocumentSchema>;
+export type ClaimDocument = typeof claimDocuments.$inferSelect;
+
+// Claim Document Line Items - Parsed lines of each claim document
+export const claimDocumentLineItems = pgTable("claim_document_line_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => claimDocuments.id, { onDelete: "cascade" }),
+  lineNumber: integer("line_number").notNull(),
+  catalogCode: text("catalog_code"),
+  category: text("category"),
+  description: text("description").notNull(),
+  quantity: numeric("quantity", { precision: 10, scale: 2 }).notNull().$type<number>(),
+  unit: text("unit").notNull(),
+  unitPrice: numeric("unit_price", { precision: 12, scale: 2 }).$type<number>(),
+  rcv: numeric("rcv", { precision: 12, scale: 2 }).notNull().$type<number>(),
+  provenance: jsonb("provenance").$type<Record<string, unknown>>(),
+}, (table) => ({
+  documentIdx: index("claim_document_line_items_document_idx").on(table.documentId, table.lineNumber),
+}));
+
+export const insertClaimDocumentLineItemSchema = createInsertSchema(claimDocumentLineItems).omit({
+  id: true,
+});
+
+export type InsertClaimDocumentLineItem = z.infer<typeof insertClaimDocumentLineItemSchema>;
+export type ClaimDocumentLineItem = typeof claimDocumentLineItems.$inferSelect;
+
+// Claim Photos - Damage photos in object storage with EXIF metadata and line item / room tags
+export const claimPhotos = pgTable("claim_photos", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  claimId: varchar("claim_id").notNull().references(() => claims.id, { onDelete: "cascade" }),
+  fileName: text("file_name").notNull(),              // Object name under the claim's storage directory
+  thumbnailFileName: text("thumbnail_file_name"),
+  originalName: text("original_name").notNull(),
+  contentType: text("content_type").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  width: integer("width"),
+  height: integer("height"),
+  capturedAt: timestamp("captured_at", { withTimezone: true }),  // EXIF DateTimeOriginal
+  latitude: numeric("latitude", { precision: 9, scale: 6 }).$type<number>(),
+  longitude: numeric("longitude", { precision: 9, scale: 6 }).$type<number>(),
+  cameraModel: text("camera_model"),
+  room: text("room"),
+  caption: text("caption"),
+  lineItemIds: text("line_item_ids").array(),        // claim_line_items ids this photo documents
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  claimIdx: index("claim_photos_claim_idx").on(table.claimId, table.createdAt),
+}));
+
+export const insertClaimPhotoSchema = createInsertSchema(claimPhotos).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertClaimPhoto = z.infer<typeof insertClaimPhotoSchema>;
+export type ClaimPhoto = typeof claimPhotos.$inferSelect;
+
+// Contents inventory (Coverage C) - personal property items valued against the carrier's ACV
+export const claimContentsItems = pgTable("claim_contents_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  claimId: varchar("claim_id").notNull().references(() => claims.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  brand: text("brand"),
+  itemClass: text("item_class"),                      // Depreciation class; detected from the name when null
+  room: text("room"),
+  ageYears: numeric("age_years", { precision: 5, scale: 1 }).$type<number>(),
+  condition: text("condition").notNull().default("good"),  // new | excellent | good | fair | poor
+  quantity: integer("quantity").notNull().default(1),
+  originalPrice: numeric("original_price", { precision: 12, scale: 2 }).$type<number>(),      // Per unit
+  replacementCost: numeric("replacement_cost", { precision: 12, scale: 2 }).$type<number>(),  // Per unit, overrides the catalog price
+  carrierAcv: numeric("carrier_acv", { precision: 12, scale: 2 }).$type<number>(),            // Whole line
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  claimIdx: index("claim_contents_items_claim_idx").on(table.claimId, table.createdAt),
+}));
+
+export const insertClaimContentsItemSchema = createInsertSchema(claimContentsItems).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertClaimContentsItem = z.infer<typeof insertClaimContentsItemSchema>;
+export type ClaimContentsItem = typeof claimContentsItems.$inferSelect;
+
+// Additional living expenses (Coverage D) - displacement details, one row per claim
+export const claimAleProfiles = pgTable("claim_ale_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  claimId: varchar("claim_id").notNull().unique().references(() => claims.id, { onDelete: "cascade" }),
+  displacementStart: timestamp("displacement_start", { withTimezone: true }).notNull(),
+  displacementEnd: timestamp("displacement_end", { withTimezone: true }),   // null while still displaced
+  householdSize: integer("household_size").notNull(),
+  zipCode: varchar("zip_code", { length: 10 }).notNull(),
+  savedMonthlyHousing: numeric("saved_monthly_housing", { precision: 10, scale: 2 }).$type<number>(),
+  savedMonthlyUtilities: numeric("saved_monthly_utilities", { precision: 10, scale: 2 }).$type<number>(),
+  normalMonthlyFood: numeric("normal_monthly_food", { precision: 10, scale: 2 }).$type<number>(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
+export const insertClaimAleProfileSchema = createInsertSchema(claimAleProfiles).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertClaimAleProfile = z.infer<typeof insertClaimAleProfileSchema>;
+export type ClaimAleProfile = typeof claimAleProfiles.$inferSelect;
+
+export const aleExpenseCategory = pgEnum("ale_expense_category", ["lodging", "meals", "mileage", "laundry", "pet_boarding", "other"]);
+
+// ALE receipts; mileage rows may carry miles only
+export const claimAleExpenses = pgTable("claim_ale_expenses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  claimId: varchar("claim_id").notNull().references(() => claims.id, { onDelete: "cascade" }),
+  expenseDate: timestamp("expense_date", { withTimezone: true }).notNull(),
+  category: aleExpenseCategory("category").notNull(),
+  amount: numeric("amount", { precision: 10, scale: 2 }).$type<number>(),
+  miles: numeric("miles", { precision: 8, scale: 1 }).$type<number>(),
+  nights: integer("nights"),
+  description: text("description"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  claimIdx: index("claim_ale_expenses_claim_idx").on(table.claimId, table.expenseDate),
+}));
+
+export const insertClaimAleExpenseSchema = createInsertSchema(claimAleExpenses).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertClaimAleExpense = z.infer<typeof insertClaimAleExpenseSchema>;
+export type ClaimAleExpense = typeof claimAleExpenses.$inferSelect;
+
 // User Claims - Links claims to authenticated users for "My Claims" dashboard
 export const userClaims = pgTable("user_claims", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -182,9 +358,15 @@ export const userClaims = pgTable("user_claims", {
       unit: string;
       quotedPrice?: number;
       unitPrice?: number;
+      room?: string;
     }>;
     email?: string;
   }>(),
+  // Lifecycle tracking - null until the user starts tracking the claim with the carrier
+  lifecycleStage: claimLifecycleStage("lifecycle_stage"),
+  lossDate: timestamp("loss_date", { withTimezone: true }),
+  lossState: char("loss_state", { length: 2 }),
+  carrier: text("carrier"),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
   userIdx: index("user_claims_user_idx").on(table.userId),
@@ -218,6 +400,126 @@ export type InsertUserClaim = {
 };
 export type UserClaim = typeof userClaims.$inferSelect;
 
+// Claim Audit Snapshots - Versioned re-runs of a saved claim against current pricing
+export interface AuditSnapshotLine {
+  category: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  insuranceOffer: number;
+  fmvPrice: number;
+  additionalAmount: number;
+  status: "underpaid" | "fair";
+  flags: string[];
+}
+
+export interface AuditSnapshotMissingItem {
+  code: string;
+  description: string;
+  estimatedCost: number | null;
+}
+
+export const claimAuditSnapshots = pgTable("claim_audit_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userClaimId: varchar("user_claim_id").notNull().references(() => userClaims.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  source: auditSnapshotSource("source").notNull(),
+  totalQuoted: numeric("total_quoted", { precision: 12, scale: 2 }).notNull().$type<number>(),
+  totalFmv: numeric("total_fmv", { precision: 12, scale: 2 }).notNull().$type<number>(),
+  additionalAmount: numeric("additional_amount", { precision: 12, scale: 2 }).notNull().$type<number>(),
+  inflationMultiplier: numeric("inflation_multiplier", { precision: 6, scale: 4 }).$type<number>(),
+  lines: jsonb("lines").$type<AuditSnapshotLine[]>().notNull(),
+  missingItems: jsonb("missing_items").$type<AuditSnapshotMissingItem[]>(),  // null when the audit didn't record them
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  userClaimVersionIdx: uniqueIndex("claim_audit_snapshots_claim_version_idx").on(table.userClaimId, table.version),
+}));
+
+export const insertClaimAuditSnapshotSchema = createInsertSchema(claimAuditSnapshots).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Define InsertClaimAuditSnapshot directly to avoid jsonb type inference issues
+export type InsertClaimAuditSnapshot = {
+  userClaimId: string;
+  version: number;
+  source: "original" | "reaudit";
+  totalQuoted: number;
+  totalFmv: number;
+  additionalAmount: number;
+  inflationMultiplier?: number | null;
+  lines: AuditSnapshotLine[];
+  missingItems?: AuditSnapshotMissingItem[] | null;
+};
+export type ClaimAuditSnapshot = typeof claimAuditSnapshots.$inferSelect;
+
+// User Claim Status Events - Lifecycle history (filed, inspected, supplement sent, ...)
+export const userClaimStatusEvents = pgTable("user_claim_status_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userClaimId: varchar("user_claim_id").notNull().references(() => userClaims.id, { onDelete: "cascade" }),
+  stage: claimLifecycleStage("stage").notNull(),
+  note: text("note"),
+  occurredAt: timestamp("occurred_at", { withTimezone: true }).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  userClaimIdx: index("user_claim_status_events_claim_idx").on(table.userClaimId, table.occurredAt),
+}));
+
+export const insertUserClaimStatusEventSchema = createInsertSchema(userClaimStatusEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertUserClaimStatusEvent = z.infer<typeof insertUserClaimStatusEventSchema>;
+export type UserClaimStatusEvent = typeof userClaimStatusEvents.$inferSelect;
+
+// Claim Deadline Reminders - One row per reminder email sent, so each lead time fires once
+export const claimDeadlineReminders = pgTable("claim_deadline_reminders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userClaimId: varchar("user_claim_id").notNull().references(() => userClaims.id, { onDelete: "cascade" }),
+  reminderKey: text("reminder_key").notNull(),   // "<deadline key>:<lead days>" or "<deadline key>:overdue"
+  dueDate: timestamp("due_date", { withTimezone: true }).notNull(),
+  sentAt: timestamp("sent_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  userClaimIdx: index("claim_deadline_reminders_claim_idx").on(table.userClaimId),
+}));
+
+export const insertClaimDeadlineReminderSchema = createInsertSchema(claimDeadlineReminders).omit({
+  id: true,
+  sentAt: true,
+});
+
+export type InsertClaimDeadlineReminder = z.infer<typeof insertClaimDeadlineReminderSchema>;
+export type ClaimDeadlineReminder = typeof claimDeadlineReminders.$inferSelect;
+
+// Claim Share Links - Expiring read-only report links for contractors and public adjusters
+export const claimShareLinks = pgTable("claim_share_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userClaimId: varchar("user_claim_id").notNull().references(() => userClaims.id, { onDelete: "cascade" }),
+  sessionId: varchar("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),  // Views are logged as this session's events
+  label: text("label"),                          // Who the owner sent it to
+  passcodeHash: text("passcode_hash"),           // bcrypt; null when no passcode is required
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  viewCount: integer("view_count").default(0).notNull(),
+  lastViewedAt: timestamp("last_viewed_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  userClaimIdx: index("claim_share_links_claim_idx").on(table.userClaimId),
+}));
+
+export const insertClaimShareLinkSchema = createInsertSchema(claimShareLinks).omit({
+  id: true,
+  viewCount: true,
+  lastViewedAt: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export type InsertClaimShareLink = z.infer<typeof insertClaimShareLinkSchema>;
+export type ClaimShareLink = typeof claimShareLinks.$inferSelect;
+
 // Sources - Attribution for libraries, APIs, datasets
 export const sources = pgTable("sources", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -352,20 +654,31 @@ export const pricingDataPoints = pgTable("pricing_data_points", {
   quantity: numeric("quantity", { precision: 10, scale: 2 }).notNull().$type<number>(),
   sessionId: varchar("session_id").references(() => sessions.id, { onDelete: "set null" }),
   source: text("source").default("user_upload"),
+  // User-submitted points land as "pending" until moderation accepts or holds them;
+  // only accepted points feed market prices. Rows from before moderation stay accepted.
+  status: pricingDataStatus("status").default("accepted").notNull(),
+  moderationFlags: jsonb("moderation_flags").$type<Array<{ check: string; message: string }>>(),
+  reviewedAt: timestamp("reviewed_at", { withTimezone: true }),  // Set when an admin approves or rejects
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
   categoryUnitIdx: index("pricing_data_category_unit_idx").on(table.category, table.unit),
   zipPrefixIdx: index("pricing_data_zip_prefix_idx").on(table.zipPrefix),
   createdAtIdx: index("pricing_data_created_at_idx").on(table.createdAt),
+  statusIdx: index("pricing_data_status_idx").on(table.status),
+  sessionIdx: index("pricing_data_session_idx").on(table.sessionId),
 }));
 
 export const insertPricingDataPointSchema = createInsertSchema(pricingDataPoints).omit({
   id: true,
+  status: true,
+  moderationFlags: true,
+  reviewedAt: true,
   createdAt: true,
 });
 
 export type InsertPricingDataPoint = z.infer<typeof insertPricingDataPointSchema>;
 export type PricingDataPoint = typeof pricingDataPoints.$inferSelect;
+export type PricingDataStatus = typeof pricingDataStatus.enumValues[number];
 
 export const pricingDataPointsRelations = relations(pricingDataPoints, ({ one }) => ({
   session: one(sessions, {
@@ -374,6 +687,69 @@ export const pricingDataPointsRelations = relations(pricingDataPoints, ({ one })
   }),
 }));
 
+// Price History - Monthly snapshots of each priceDB item's range, nationally ("US") and per state
+export const priceHistory = pgTable("price_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  itemKey: text("item_key").notNull(),                 // priceDB item name
+  region: varchar("region", { length: 2 }).notNull(),  // "US" or a state code
+  period: char("period", { length: 7 }).notNull(),     // YYYY-MM
+  unit: text("unit").notNull(),
+  p10: numeric("p10", { precision: 12, scale: 2 }).notNull().$type<number>(),
+  p50: numeric("p50", { precision: 12, scale: 2 }).notNull().$type<number>(),
+  p90: numeric("p90", { precision: 12, scale: 2 }).notNull().$type<number>(),
+  sampleSize: integer("sample_size").notNull().default(0),
+  recordedAt: timestamp("recorded_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  itemRegionPeriodIdx: uniqueIndex("price_history_item_region_period_idx").on(table.itemKey, table.region, table.period),
+  periodIdx: index("price_history_period_idx").on(table.period),
+}));
+
+export const insertPriceHistorySchema = createInsertSchema(priceHistory).omit({
+  id: true,
+  recordedAt: true,
+});
+
+export type InsertPriceHistory = z.infer<typeof insertPriceHistorySchema>;
+export type PriceHistory = typeof priceHistory.$inferSelect;
+
+// Catastrophe Events - Hurricanes, hailstorms etc. that put a temporary demand surge on local repair prices
+export const catastropheEventSource = pgEnum("catastrophe_event_source", ["admin", "fema"]);
+
+export const catastropheEvents = pgTable("catastrophe_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  eventType: text("event_type").notNull(), // hurricane, hail, tornado, severe_storm, flood, wildfire, winter_storm
+  source: catastropheEventSource("source").notNull().default("admin"),
+  femaDisasterNumber: integer("fema_disaster_number"), // Set for events imported from FEMA declarations
+  stateCode: varchar("state_code", { length: 2 }).notNull(),
+  zipPrefixes: text("zip_prefixes").array().notNull(), // 3-digit prefixes or 5-digit ZIPs
+  cbsaCodes: text("cbsa_codes").array().notNull(), // Neither set = the whole state
+  designatedAreas: text("designated_areas").array(), // FEMA designated counties, for reference
+  startDate: timestamp("start_date", { withTimezone: true }).notNull(),
+  peakSurgePct: numeric("peak_surge_pct", { precision: 5, scale: 2 }).notNull().$type<number>(), // 35 = +35% at peak
+  rampDays: integer("ramp_days").notNull().default(14),
+  plateauDays: integer("plateau_days").notNull().default(60),
+  decayDays: integer("decay_days").notNull().default(180),
+  decayCurve: text("decay_curve").notNull().default("linear"), // linear | exponential
+  isActive: integer("is_active").default(1).$type<boolean>(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  stateIdx: index("catastrophe_events_state_idx").on(table.stateCode),
+  activeIdx: index("catastrophe_events_active_idx").on(table.isActive),
+  femaIdx: uniqueIndex("catastrophe_events_fema_idx").on(table.femaDisasterNumber),
+}));
+
+export const insertCatastropheEventSchema = createInsertSchema(catastropheEvents).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertCatastropheEvent = z.infer<typeof insertCatastropheEventSchema>;
+export type CatastropheEvent = typeof catastropheEvents.$inferSelect;
+
 // Partner billing status for admin dashboard filtering
 export const billingStatus = pgEnum("billing_status", ["active", "past_due", "cancelled", "pending", "trial"]);
 
@@ -1219,6 +1595,64 @@ export const insertEmailTemplateSchema = createInsertSchema(emailTemplates).omit
 export type InsertEmailTemplate = z.infer<typeof insertEmailTemplateSchema>;
 export type EmailTemplate = typeof emailTemplates.$inferSelect;
 
+// Supplement Letter Templates - Editable wording for supplement requests sent to adjusters
+// Body placeholders use the email template [PLACEHOLDER] style; a line holding only
+// [DISPUTED_ITEMS], [MISSING_ITEMS] or [PRICING_SOURCES] is replaced by that table.
+export const supplementLetterTemplates = pgTable("supplement_letter_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description"),
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  placeholders: text("placeholders").array(),
+  isDefault: integer("is_default").default(0).$type<boolean>(),
+  isActive: integer("is_active").default(1).$type<boolean>(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  activeIdx: index("supplement_letter_templates_active_idx").on(table.isActive),
+}));
+
+export const insertSupplementLetterTemplateSchema = createInsertSchema(supplementLetterTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertSupplementLetterTemplate = z.infer<typeof insertSupplementLetterTemplateSchema>;
+export type SupplementLetterTemplate = typeof supplementLetterTemplates.$inferSelect;
+
+// Scope Dependency Rules - "if the claim has X it also needs Y" for missing-item detection
+export const scopeDependencyRules = pgTable("scope_dependency_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  trade: text("trade").notNull(), // roofing, drywall, flooring, etc.
+  triggerCodes: text("trigger_codes").array().notNull(), // Catalog codes ("RFG 300S") or category codes ("DRY")
+  requiredCodes: text("required_codes").array().notNull(), // Any one of these satisfies the rule
+  requiredDescription: text("required_description").notNull(),
+  quantityMode: text("quantity_mode").notNull().default("ratio"), // ratio (per trigger unit) | fixed
+  quantityFactor: numeric("quantity_factor", { precision: 10, scale: 4 }).notNull().$type<number>(),
+  unit: text("unit").notNull(),
+  unitPrice: numeric("unit_price", { precision: 10, scale: 2 }).$type<number>(), // Overrides catalog FMV when set
+  rationale: text("rationale"),
+  priority: integer("priority").default(100).notNull(),
+  isActive: integer("is_active").default(1).$type<boolean>(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  tradeIdx: index("scope_dependency_rules_trade_idx").on(table.trade),
+  activeIdx: index("scope_dependency_rules_active_idx").on(table.isActive),
+}));
+
+export const insertScopeDependencyRuleSchema = createInsertSchema(scopeDependencyRules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertScopeDependencyRule = z.infer<typeof insertScopeDependencyRuleSchema>;
+export type ScopeDependencyRule = typeof scopeDependencyRules.$inferSelect;
+
 // Batch Job Status enum for async processing
 export const batchJobStatus = pgEnum("batch_job_status", [
   "queued",